@@ -11,6 +11,7 @@ const PurchaseView = lazy(() => import('./components/PurchaseView'));
 const InventoryView = lazy(() => import('./components/InventoryView'));
 const SupplierView = lazy(() => import('./components/SupplierView'));
 const UploaderModal = lazy(() => import('./components/UploaderModal'));
+const UploadLedgerPanel = lazy(() => import('./components/UploadLedgerPanel'));
 import {
   BarChart,
   Bar,
@@ -528,6 +529,11 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {/* ===== 업로드 이력 · 롤백 섹션 ===== */}
+        <Suspense fallback={null}>
+          <UploadLedgerPanel />
+        </Suspense>
+
         {/* ===== 기존 사용자 관리 섹션 ===== */}
         <h3 className="text-lg font-bold text-slate-800 mt-2">사용자 관리</h3>
 
@@ -12,7 +12,9 @@ import {
   PurchasePrice,
   OutsourcePrice,
   ItemStandardCost,
+  PaintMixRatio,
 } from '../utils/standardMaterialParser';
+import { ForecastItem } from '../utils/salesForecastParser';
 import {
   buildForwardMap,
   buildReverseMap,
@@ -29,6 +31,7 @@ import {
   SearchIndexEntry,
   FlatBomRow,
 } from '../utils/bomExplosionEngine';
+import { analyzeWhereUsedImpact } from '../utils/whereUsedImpact';
 import { downloadCSV } from '../utils/csvExport';
 import {
   bomMasterService,
@@ -38,6 +41,8 @@ import {
   purchasePriceService,
   outsourceInjPriceService,
   itemStandardCostService,
+  paintMixRatioService,
+  forecastService,
 } from '../services/supabaseService';
 
 // ============================================
@@ -56,6 +61,8 @@ const BomExplosionView: React.FC = () => {
   const [purchasePrices, setPurchasePrices] = useState<PurchasePrice[]>([]);
   const [outsourcePrices, setOutsourcePrices] = useState<OutsourcePrice[]>([]);
   const [stdCosts, setStdCosts] = useState<ItemStandardCost[]>([]);
+  const [paintMixRatios, setPaintMixRatios] = useState<PaintMixRatio[]>([]);
+  const [forecast, setForecast] = useState<ForecastItem[]>([]);
   const [loading, setLoading] = useState(true);
 
   // --- Search State ---
@@ -68,6 +75,7 @@ const BomExplosionView: React.FC = () => {
 
   // --- Mode State ---
   const [mode, setMode] = useState<'forward' | 'reverse'>('forward');
+  const [reverseView, setReverseView] = useState<'paths' | 'impact'>('paths');
 
   // --- Tree State ---
   const [collapsedNodes, setCollapsedNodes] = useState<Set<string>>(new Set());
@@ -81,7 +89,7 @@ const BomExplosionView: React.FC = () => {
   // --- Data Load ---
   const loadAllData = useCallback(async () => {
     setLoading(true);
-    const [bom, pc, ri, mc, pp, op, sc] = await Promise.all([
+    const [bom, pc, ri, mc, pp, op, sc, pmr, fc] = await Promise.all([
       bomMasterService.getAll(),
       productCodeService.getAll(),
       referenceInfoService.getAll(),
@@ -89,6 +97,8 @@ const BomExplosionView: React.FC = () => {
       purchasePriceService.getAll(),
       outsourceInjPriceService.getAll(),
       itemStandardCostService.getAll(),
+      paintMixRatioService.getAll(),
+      forecastService.getItems(),
     ]);
     setBomRecords(bom);
     setProductCodes(pc);
@@ -97,6 +107,8 @@ const BomExplosionView: React.FC = () => {
     setPurchasePrices(pp);
     setOutsourcePrices(op);
     setStdCosts(sc);
+    setPaintMixRatios(pmr);
+    setForecast(fc);
     setLoading(false);
   }, []);
 
@@ -288,6 +300,16 @@ const BomExplosionView: React.FC = () => {
     return enrichReversePaths(raw, bomRecords, refInfo, productCodes);
   }, [selectedPn, reverseMap, bomRecords, refInfo, productCodes, refInfoMap]);
 
+  // --- Where-used Impact (역전개 영향분석) ---
+  const whereUsedImpact = useMemo(() => {
+    if (!selectedPn || mode !== 'reverse' || reverseView !== 'impact') return null;
+    const componentPn = reversePaths[0]?.path[reversePaths[0].path.length - 1]?.pn || selectedPn;
+    return analyzeWhereUsedImpact(componentPn, reversePaths, {
+      bomRecords, refInfo, productCodes, materialCodes, purchasePrices, outsourcePrices,
+      itemStandardCosts: stdCosts, paintMixRatios, forecast,
+    });
+  }, [selectedPn, mode, reverseView, reversePaths, bomRecords, refInfo, productCodes, materialCodes, purchasePrices, outsourcePrices, stdCosts, paintMixRatios, forecast]);
+
   // --- Tree Metrics ---
   const treeMetrics = useMemo(() => {
     if (!forwardTree) return { totalParts: 0, leafCount: 0, maxLevel: 0 };
@@ -381,6 +403,17 @@ const BomExplosionView: React.FC = () => {
     downloadCSV(`BOM역전개_${selectedPn}`, headers, rows);
   }, [reversePaths, selectedPn]);
 
+  const handleDownloadImpact = useCallback(() => {
+    if (!whereUsedImpact || !whereUsedImpact.products.length) return;
+    const headers = ['제품 품번', '제품명', '경로수', '개당소요량', '계획수량', '매출노출액', '제품재료비', '부품기여재료비', '재료비비중(%)', '부품재료비(계획)'];
+    const rows = whereUsedImpact.products.map(p => [
+      p.productPn, p.productName, p.pathCount, p.qtyPerUnit, p.forecastQty, Math.round(p.revenue),
+      Math.round(p.productMaterialCost), Math.round(p.componentCost), Math.round(p.costShare * 1000) / 10,
+      Math.round(p.componentSpend),
+    ]);
+    downloadCSV(`BOM영향분석_${selectedPn}`, headers, rows);
+  }, [whereUsedImpact, selectedPn]);
+
   // --- Type label/color helpers ---
   const typeLabel = (t: SearchIndexEntry['type']) => {
     switch (t) {
@@ -827,12 +860,27 @@ const BomExplosionView: React.FC = () => {
           {mode === 'reverse' && (
             <div className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm">
               <div className="flex items-center justify-between mb-4">
-                <h3 className="font-bold text-slate-800 flex items-center gap-2">
-                  <span className="w-1 h-5 bg-rose-500 rounded-full" />
-                  역전개 경로 (Reverse Explosion)
-                </h3>
+                <div className="flex items-center gap-3">
+                  <h3 className="font-bold text-slate-800 flex items-center gap-2">
+                    <span className="w-1 h-5 bg-rose-500 rounded-full" />
+                    {reverseView === 'paths' ? '역전개 경로 (Reverse Explosion)' : '영향분석 (Where-used Impact)'}
+                  </h3>
+                  <div className="flex bg-slate-100 rounded-lg p-0.5">
+                    {([['paths', '경로'], ['impact', '영향분석']] as const).map(([key, label]) => (
+                      <button
+                        key={key}
+                        onClick={() => setReverseView(key)}
+                        className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${
+                          reverseView === key ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'
+                        }`}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
                 <button
-                  onClick={handleDownloadReverse}
+                  onClick={reverseView === 'paths' ? handleDownloadReverse : handleDownloadImpact}
                   className="text-slate-500 hover:text-green-600 text-xs font-bold flex items-center gap-1 px-3 py-1.5 rounded-lg hover:bg-green-50 transition-colors"
                 >
                   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -842,7 +890,105 @@ const BomExplosionView: React.FC = () => {
                 </button>
               </div>
 
-              {reversePaths.length > 0 ? (
+              {reverseView === 'impact' && whereUsedImpact ? (
+                whereUsedImpact.products.length > 0 ? (
+                  <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+                      <div className="px-4 py-3 bg-slate-50 rounded-xl border border-slate-100">
+                        <div className="text-[10px] font-bold text-slate-500">영향 제품</div>
+                        <div className="text-lg font-black text-slate-800">{whereUsedImpact.products.length}개</div>
+                        <div className="text-[10px] text-slate-400">
+                          계획 매칭 {whereUsedImpact.products.filter(p => p.forecastMatched).length}개
+                        </div>
+                      </div>
+                      <div className="px-4 py-3 bg-slate-50 rounded-xl border border-slate-100">
+                        <div className="text-[10px] font-bold text-slate-500">부품 재료비</div>
+                        <div className="text-lg font-black text-slate-800">₩{Math.round(whereUsedImpact.componentUnitCost).toLocaleString()}</div>
+                        <div className="text-[10px] text-slate-400">{whereUsedImpact.componentPriceSource || '단가 없음'}</div>
+                      </div>
+                      <div className="px-4 py-3 bg-rose-50 rounded-xl border border-rose-100">
+                        <div className="text-[10px] font-bold text-rose-500">매출 노출액</div>
+                        <div className="text-lg font-black text-rose-600">₩{Math.round(whereUsedImpact.totalRevenue).toLocaleString()}</div>
+                        <div className="text-[10px] text-rose-400">계획수량 {whereUsedImpact.totalForecastQty.toLocaleString()}</div>
+                      </div>
+                      <div className="px-4 py-3 bg-blue-50 rounded-xl border border-blue-100">
+                        <div className="text-[10px] font-bold text-blue-500">부품 재료비 (계획)</div>
+                        <div className="text-lg font-black text-blue-600">₩{Math.round(whereUsedImpact.totalComponentSpend).toLocaleString()}</div>
+                        <div className="text-[10px] text-blue-400">총소요량 {Math.round(whereUsedImpact.totalComponentQty).toLocaleString()}</div>
+                      </div>
+                    </div>
+                    <div className="overflow-x-auto border border-slate-200 rounded-2xl">
+                      <table className="w-full text-xs text-left">
+                        <thead className="bg-slate-50 text-slate-500 font-bold border-b border-slate-200">
+                          <tr>
+                            <th className="px-3 py-2.5">제품 품번</th>
+                            <th className="px-3 py-2.5">제품명</th>
+                            <th className="px-3 py-2.5 text-right">개당소요량</th>
+                            <th className="px-3 py-2.5 text-right">계획수량</th>
+                            <th className="px-3 py-2.5 text-right">매출노출액</th>
+                            <th className="px-3 py-2.5 text-right">제품재료비</th>
+                            <th className="px-3 py-2.5 text-right">부품기여</th>
+                            <th className="px-3 py-2.5 text-right w-40">재료비 비중</th>
+                            <th className="px-3 py-2.5 text-right">부품재료비(계획)</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {whereUsedImpact.products.map(p => (
+                            <tr key={p.productPn} className="hover:bg-slate-50">
+                              <td className="px-3 py-2">
+                                <button
+                                  onClick={() => handleNodeClick(p.productPn, p.productName)}
+                                  className="font-mono font-bold text-slate-800 hover:text-blue-600"
+                                >
+                                  {p.productPn}
+                                </button>
+                                {p.pathCount > 1 && (
+                                  <span className="ml-1 text-[10px] text-slate-400">({p.pathCount}경로)</span>
+                                )}
+                              </td>
+                              <td className="px-3 py-2 text-slate-600">{p.productName}</td>
+                              <td className="px-3 py-2 text-right font-mono">{p.qtyPerUnit.toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                              <td className="px-3 py-2 text-right font-mono">
+                                {p.forecastMatched ? p.forecastQty.toLocaleString() : <span className="text-slate-300">계획없음</span>}
+                              </td>
+                              <td className="px-3 py-2 text-right font-mono font-bold text-rose-600">
+                                {p.revenue > 0 ? `₩${Math.round(p.revenue).toLocaleString()}` : '-'}
+                              </td>
+                              <td className="px-3 py-2 text-right font-mono">₩{Math.round(p.productMaterialCost).toLocaleString()}</td>
+                              <td className="px-3 py-2 text-right font-mono">₩{Math.round(p.componentCost).toLocaleString()}</td>
+                              <td className="px-3 py-2">
+                                <div className="flex items-center justify-end gap-2">
+                                  <div className="w-16 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                                    <div className="h-full bg-blue-500 rounded-full" style={{ width: `${p.costShare * 100}%` }} />
+                                  </div>
+                                  <span className="font-mono font-bold text-slate-700 w-12 text-right">{(p.costShare * 100).toFixed(1)}%</span>
+                                </div>
+                              </td>
+                              <td className="px-3 py-2 text-right font-mono font-bold text-blue-600">₩{Math.round(p.componentSpend).toLocaleString()}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                        <tfoot className="bg-slate-50 border-t border-slate-200 font-bold">
+                          <tr>
+                            <td className="px-3 py-2" colSpan={3}>합계</td>
+                            <td className="px-3 py-2 text-right font-mono">{whereUsedImpact.totalForecastQty.toLocaleString()}</td>
+                            <td className="px-3 py-2 text-right font-mono text-rose-600">₩{Math.round(whereUsedImpact.totalRevenue).toLocaleString()}</td>
+                            <td className="px-3 py-2" colSpan={3} />
+                            <td className="px-3 py-2 text-right font-mono text-blue-600">₩{Math.round(whereUsedImpact.totalComponentSpend).toLocaleString()}</td>
+                          </tr>
+                        </tfoot>
+                      </table>
+                    </div>
+                    <p className="mt-2 text-[10px] text-slate-400">
+                      개당소요량은 경로별 소요량 곱의 합계, 부품기여는 부품 재료비 × 개당소요량입니다. 상위 조립품에 구매단가가 있으면 제품재료비에 부품이 포함되지 않아 비중이 과대 표시될 수 있습니다.
+                    </p>
+                  </>
+                ) : (
+                  <div className="text-center py-6 text-sm text-slate-400">
+                    이 품번을 사용하는 상위 제품이 없습니다. (최상위 노드)
+                  </div>
+                )
+              ) : reversePaths.length > 0 ? (
                 <div className="space-y-3">
                   {reversePaths.map((rp, idx) => (
                     <div
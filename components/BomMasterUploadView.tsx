@@ -4,6 +4,7 @@ import { useColumnResize } from '../hooks/useColumnResize';
 import * as XLSX from 'xlsx';
 import MetricCard from './MetricCard';
 import { safeSetItem } from '../utils/safeStorage';
+import { storage } from '../utils/storage';
 import {
   parseBomMasterExcel,
   BomMasterParseResult,
@@ -17,6 +18,8 @@ import {
   AssembledBomInfo,
 } from '../utils/bomMasterParser';
 import { downloadCSV } from '../utils/csvExport';
+import { buildPriceData } from '../utils/bomCostEngine';
+import { checkBomIntegrity, BOM_INTEGRITY_ISSUE_TYPES } from '../utils/bomIntegrityChecker';
 import {
   bomMasterService,
   productCodeService,
@@ -24,6 +27,11 @@ import {
   equipmentService,
   materialCodeService,
   dataQualityService,
+  purchasePriceService,
+  outsourceInjPriceService,
+  itemStandardCostService,
+  paintMixRatioService,
+  forecastService,
 } from '../services/supabaseService';
 
 // ============================================================
@@ -58,6 +66,27 @@ interface GapRow {
   status: 'match' | 'mismatch' | 'pending';
 }
 
+/** BOM 구조 검사: 단가·판매계획 소스를 불러와 checkBomIntegrity 실행 */
+async function runBomIntegrityCheck(
+  bom: BomMasterRecord[],
+  productCodes: ProductCodeRecord[],
+  refInfo: ReferenceInfoRecord[],
+  materialCodes: MaterialCodeRecord[],
+): Promise<DataQualityIssue[]> {
+  const [pp, op, sc, pmr, fc] = await Promise.all([
+    purchasePriceService.getAll(),
+    outsourceInjPriceService.getAll(),
+    itemStandardCostService.getAll(),
+    paintMixRatioService.getAll(),
+    forecastService.getItems(),
+  ]);
+  const priceData = buildPriceData(materialCodes, pp, op, sc);
+  return checkBomIntegrity(bom, { priceData, refInfo, paintMixRatios: pmr, productCodes, forecast: fc });
+}
+
+const isBomIntegrityIssue = (i: DataQualityIssue) =>
+  (BOM_INTEGRITY_ISSUE_TYPES as string[]).includes(i.issueType);
+
 const BomMasterUploadView: React.FC = () => {
   // --- Column Resize (9 columns) ---
   const bomResize = useColumnResize([120, 120, 140, 50, 70, 70, 70, 80, 80]);
@@ -71,11 +100,12 @@ const BomMasterUploadView: React.FC = () => {
   const [filterIssueType, setFilterIssueType] = useState<string>('All');
   const [gapAnalysis, setGapAnalysis] = useState<GapRow[]>([]);
   const [bomFilter, setBomFilter] = useState('');
+  const [checkingBom, setCheckingBom] = useState(false);
 
   // --- 초기 로드: Supabase 우선, localStorage 폴백 ---
   useEffect(() => {
     const loadAll = async () => {
-      const ts = localStorage.getItem('dashboard_bomMaster_uploadTimestamp');
+      const ts = storage.getItem('dashboard_bomMaster_uploadTimestamp');
       const uploadDate = ts || '-';
 
       // Supabase에서 로드 (localStorage 폴백)
@@ -122,6 +152,15 @@ const BomMasterUploadView: React.FC = () => {
       const buffer = await file.arrayBuffer();
       const result: BomMasterParseResult = parseBomMasterExcel(buffer);
 
+      // BOM 구조 검사 (순환/고아/단가/중복/소요량/레벨) — 참고용, 실패해도 업로드는 계속
+      setUploadMessage('BOM 구조 검사 중...');
+      try {
+        const bomIssues = await runBomIntegrityCheck(result.bom, result.productCodes, result.referenceInfo, result.materialCodes);
+        result.qualityIssues = [...result.qualityIssues, ...bomIssues];
+      } catch (err) {
+        console.error('BOM 구조 검사 실패 (업로드는 계속 진행):', err);
+      }
+
       setUploadMessage('Supabase 저장 중...');
 
       // 병렬 저장
@@ -199,6 +238,29 @@ const BomMasterUploadView: React.FC = () => {
     }
   };
 
+  // --- BOM 구조 재검사 (저장된 마스터 기준, 기준정보 이슈는 유지) ---
+  const handleRecheckBom = useCallback(async () => {
+    setCheckingBom(true);
+    try {
+      const [bom, pc, ri, mc] = await Promise.all([
+        bomMasterService.getAll(),
+        productCodeService.getAll(),
+        referenceInfoService.getAll(),
+        materialCodeService.getAll(),
+      ]);
+      const bomIssues = await runBomIntegrityCheck(bom, pc, ri, mc);
+      const merged = [...qualityIssues.filter(i => !isBomIntegrityIssue(i)), ...bomIssues];
+      await dataQualityService.saveAll(merged);
+      setQualityIssues(merged);
+      setUploadMessage(`BOM 구조 검사 완료: ${bomIssues.length}건`);
+    } catch (err: any) {
+      console.error('BOM 구조 검사 실패:', err);
+      setUploadMessage(`BOM 구조 검사 실패: ${err.message}`);
+    } finally {
+      setCheckingBom(false);
+    }
+  }, [qualityIssues]);
+
   // --- 품질 이슈 통계 ---
   const issueStats = useMemo(() => {
     const types = new Map<string, number>();
@@ -233,6 +295,12 @@ const BomMasterUploadView: React.FC = () => {
     paint_missing: '도장 누락 (Paint량=0)',
     raw_material_missing: '원재료코드 누락',
     material_code_not_found: '재질코드 미존재',
+    bom_cycle: 'BOM 순환참조',
+    bom_orphan_parent: '고아 모품번 (계획 미연결)',
+    bom_no_price: '단가 미존재',
+    bom_qty_conflict: '중복 라인 (소요량 상이)',
+    bom_qty_invalid: '소요량 0 이하',
+    bom_level_mismatch: '레벨 불일치',
   };
 
   const ISSUE_FIX_GUIDE: Record<string, { sheet: string; field: string; action: string }> = {
@@ -256,6 +324,36 @@ const BomMasterUploadView: React.FC = () => {
       field: '재질코드 (신규 등록)',
       action: '기준정보에 입력된 원재료코드가 재질코드 시트에 없습니다. 재질코드 시트에 해당 코드/단가를 추가 등록하세요.',
     },
+    bom_cycle: {
+      sheet: 'BOM',
+      field: '모품번 / 자품번',
+      action: '설명의 경로에서 하위 품번이 상위 품번을 다시 포함하는 라인을 찾아 삭제하세요. 순환 구간 아래는 정전개/원가 계산에서 누락됩니다.',
+    },
+    bom_orphan_parent: {
+      sheet: 'BOM / 제품코드',
+      field: '모품번 / 고객사 P/N',
+      action: '단종 제품이면 BOM에서 정리하고, 판매 중이면 제품코드·기준정보의 고객사 P/N이 판매계획 P.N과 연결되는지 확인하세요.',
+    },
+    bom_no_price: {
+      sheet: '구매단가 / 재질코드 / 기준정보',
+      field: '단가 / 원재료코드·NET중량',
+      action: '구매품은 구매단가, 사출품은 기준정보 원재료코드·NET중량, 원자재는 재질코드 단가를 등록하세요.',
+    },
+    bom_qty_conflict: {
+      sheet: 'BOM',
+      field: '소요량',
+      action: '동일 모품번/자품번 라인이 여러 행입니다. 올바른 소요량 1행만 남기고 나머지를 삭제하세요.',
+    },
+    bom_qty_invalid: {
+      sheet: 'BOM',
+      field: '소요량',
+      action: '소요량은 0보다 커야 합니다. 실제 사용하지 않는 자품번이면 라인을 삭제하세요.',
+    },
+    bom_level_mismatch: {
+      sheet: 'BOM',
+      field: '레벨',
+      action: '자품번 레벨은 모품번 레벨 + 1이어야 합니다. 모품번이 다른 라인의 자품번으로 등록된 레벨을 확인하세요.',
+    },
   };
 
   const handleBomExcelDownload = useCallback(async () => {
@@ -816,6 +914,13 @@ const BomMasterUploadView: React.FC = () => {
                 </div>
               ))}
             </div>
+            <button
+              onClick={handleRecheckBom}
+              disabled={checkingBom}
+              className="ml-3 px-3 py-2 bg-slate-700 text-white text-xs font-medium rounded hover:bg-slate-800 disabled:opacity-40 disabled:cursor-not-allowed whitespace-nowrap"
+            >
+              {checkingBom ? '검사 중...' : 'BOM 구조 검사'}
+            </button>
             <button
               onClick={handleDownloadQualityExcel}
               disabled={filteredIssues.length === 0}
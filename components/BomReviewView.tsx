@@ -11,7 +11,23 @@ import {
   buildRefInfoMap,
   expandForwardTree,
   BomTreeNode,
+  BomAsOf,
 } from '../utils/bomExplosionEngine';
+import { BomLineRevision, buildRevisionIndex, endOfDay } from '../utils/bomRevision';
+import {
+  BomChangeOrder,
+  ChangeOrderRole,
+  ChangeOrderLine,
+  createChangeOrder,
+  stageChangeLine,
+  applyChangeLines,
+  groupLineUpdates,
+  findStaleLines,
+  markLinesApplied,
+  calcChangeOrderImpact,
+  decideChangeOrder,
+  CHANGE_ORDER_FIELD_LABEL,
+} from '../utils/bomChangeOrder';
 import {
   PurchasePrice,
   OutsourcePrice,
@@ -32,9 +48,15 @@ import {
   paintMixRatioService,
   forecastService,
   reviewStatusService,
+  bomRevisionService,
+  bomChangeOrderService,
+  resolveEditor,
 } from '../services/supabaseService';
 import PaintAnalysisPanel from './PaintAnalysisPanel';
+import BomRevisionPanel from './BomRevisionPanel';
+import ChangeOrderPanel from './ChangeOrderPanel';
 import MesUploadModal from './MesUploadModal';
+import { storage } from '../utils/storage';
 
 // ============================================
 // Types
@@ -136,7 +158,7 @@ const REVIEW_STORAGE_KEY = 'dashboard_bomReviewStatus';
 
 function loadReviewStatusLocal(): ReviewStatusMap {
   try {
-    const stored = localStorage.getItem(REVIEW_STORAGE_KEY);
+    const stored = storage.getItem(REVIEW_STORAGE_KEY);
     return stored ? JSON.parse(stored) : {};
   } catch {
     return {};
@@ -145,7 +167,7 @@ function loadReviewStatusLocal(): ReviewStatusMap {
 
 function saveReviewStatusLocal(map: ReviewStatusMap) {
   try {
-    localStorage.setItem(REVIEW_STORAGE_KEY, JSON.stringify(map));
+    storage.setItem(REVIEW_STORAGE_KEY, JSON.stringify(map));
   } catch { /* ignore */ }
 }
 
@@ -183,6 +205,7 @@ const BomReviewView: React.FC = () => {
   const [revenueData, setRevenueData] = useState<ItemRevenueRow[]>([]);
   const [forecastData, setForecastData] = useState<ForecastItem[]>([]);
   const [paintMixRatios, setPaintMixRatios] = useState<PaintMixRatio[]>([]);
+  const [bomRevisions, setBomRevisions] = useState<BomLineRevision[]>([]);
   const [loading, setLoading] = useState(true);
 
   // --- Filter State ---
@@ -229,6 +252,15 @@ const BomReviewView: React.FC = () => {
   const [detailEdit, setDetailEdit] = useState<DetailEditState | null>(null);
   const [savingDetail, setSavingDetail] = useState(false);
 
+  // --- BOM Revision (개정이력 · 기준일 전개) ---
+  const [showRevisions, setShowRevisions] = useState(false);
+  const [asOfDate, setAsOfDate] = useState('');          // '' = 현재 BOM
+
+  // --- BOM Change Order (ECO: 편집 스테이징 → 4개 부서 승인 → 반영) ---
+  const [changeOrders, setChangeOrders] = useState<BomChangeOrder[]>([]);
+  const [activeDraftId, setActiveDraftId] = useState('');
+  const [showChangeOrders, setShowChangeOrders] = useState(false);
+
   // --- Paint Analysis Panel ---
   const [showPaintAnalysis, setShowPaintAnalysis] = useState(false);
   const [showMesModal, setShowMesModal] = useState(false);
@@ -271,13 +303,15 @@ const BomReviewView: React.FC = () => {
     setStdCosts(sc);
     setRevenueData(rv);
     setPaintMixRatios(pmr);
+    setBomRevisions(await safe(bomRevisionService.getAll(), []));
+    setChangeOrders(await safe(bomChangeOrderService.getAll(), []));
     // Forecast (월별) 데이터 로드 (Supabase 우선, fallback localStorage)
     try {
       const fc = await safe(forecastService.getItems(), []);
       if (fc.length > 0) {
         setForecastData(fc);
       } else {
-        const fcStr = localStorage.getItem('dashboard_forecastData');
+        const fcStr = storage.getItem('dashboard_forecastData');
         if (fcStr) setForecastData(JSON.parse(fcStr));
       }
     } catch {}
@@ -312,6 +346,9 @@ const BomReviewView: React.FC = () => {
   // --- Derived Maps ---
   const forwardMap = useMemo(() => buildForwardMap(bomRecords), [bomRecords]);
   const refInfoMap = useMemo(() => buildRefInfoMap(refInfo), [refInfo]);
+  const bomAsOf = useMemo((): BomAsOf | undefined =>
+    asOfDate ? { at: endOfDay(asOfDate), index: buildRevisionIndex(bomRevisions) } : undefined,
+  [asOfDate, bomRevisions]);
 
   // --- PaintMix Map: paintCode(S코드) + mainCode(P코드) + P→S변환 → PaintMixRatio ---
   const paintMixMap = useMemo(() => {
@@ -673,13 +710,24 @@ const BomReviewView: React.FC = () => {
     return undefined;
   }, [refInfoMap, priceData]);
 
+  // --- BOM Tree: 작성중 ECO 변경분 미리보기 반영 ---
+  const treeForwardMap = useMemo(() => {
+    const lines = changeOrders.find(o => o.id === activeDraftId && o.status === 'draft')?.lines || [];
+    return lines.length > 0 && !asOfDate ? buildForwardMap(applyChangeLines(bomRecords, lines)) : forwardMap;
+  }, [changeOrders, activeDraftId, asOfDate, bomRecords, forwardMap]);
+  const stagedKeys = useMemo(() => {
+    const lines = changeOrders.find(o => o.id === activeDraftId && o.status === 'draft')?.lines || [];
+    return new Set(lines.map(l => `${normalizePn(l.parentPn)}|${normalizePn(l.childPn)}|${l.field}`));
+  }, [changeOrders, activeDraftId]);
+
   // --- BOM Tree for Selected Product ---
   const forwardTree = useMemo((): BomTreeNode | null => {
     if (!selectedProduct) return null;
     const normalizedSelected = normalizePn(selectedProduct);
+    const forwardMap = treeForwardMap;
 
     if (forwardMap.has(normalizedSelected)) {
-      return expandForwardTree(selectedProduct, forwardMap, refInfoMap);
+      return expandForwardTree(selectedProduct, forwardMap, refInfoMap, 1, 0, 10, new Set(), bomAsOf);
     }
 
     const pc = productCodes.find(p => normalizePn(p.productCode) === normalizedSelected);
@@ -693,15 +741,15 @@ const BomReviewView: React.FC = () => {
         .sort((a, b) => (forwardMap.get(normalizePn(b.itemCode))?.length || 0) - (forwardMap.get(normalizePn(a.itemCode))?.length || 0));
 
       if (bomRoots.length > 0) {
-        const tree = expandForwardTree(bomRoots[0].itemCode, forwardMap, refInfoMap);
+        const tree = expandForwardTree(bomRoots[0].itemCode, forwardMap, refInfoMap, 1, 0, 10, new Set(), bomAsOf);
         tree.pn = selectedProduct;
         tree.name = pc?.productName || selectedRef?.itemName || tree.name;
         return tree;
       }
     }
 
-    return expandForwardTree(selectedProduct, forwardMap, refInfoMap);
-  }, [selectedProduct, forwardMap, refInfoMap, productCodes, refInfo]);
+    return expandForwardTree(selectedProduct, forwardMap, refInfoMap, 1, 0, 10, new Set(), bomAsOf);
+  }, [selectedProduct, treeForwardMap, refInfoMap, productCodes, refInfo, bomAsOf]);
 
   // --- Enrich tree: 도장외주품 하위전개 + virtual paint nodes ---
   const enrichedTree = useMemo((): BomTreeNode | null => {
@@ -1083,6 +1131,107 @@ const BomReviewView: React.FC = () => {
     setEditValue('');
   }, []);
 
+  // --- ECO 스테이징 ---
+  const activeDraft = useMemo(
+    () => changeOrders.find(o => o.id === activeDraftId && o.status === 'draft') || null,
+    [changeOrders, activeDraftId],
+  );
+
+  const persistChangeOrder = useCallback((order: BomChangeOrder) => {
+    setChangeOrders(prev => [...prev.filter(o => o.id !== order.id), order]);
+    bomChangeOrderService.upsertOne(order).catch(e => console.error('[ECO] 저장 실패:', e));
+  }, []);
+
+  const handleNewDraft = useCallback(async () => {
+    const draft = createChangeOrder(changeOrders, await resolveEditor());
+    persistChangeOrder(draft);
+    setActiveDraftId(draft.id);
+    return draft;
+  }, [changeOrders, persistChangeOrder]);
+
+  /** BOM 편집 1건을 작성중 ECO에 추가 (없으면 새로 작성) */
+  const stageBomEdit = useCallback(async (
+    parentPn: string, childPn: string, field: ChangeOrderLine['field'], after: string | number,
+  ): Promise<boolean> => {
+    const rec = bomRecords.find(r =>
+      normalizePn(r.parentPn) === normalizePn(parentPn) && normalizePn(r.childPn) === normalizePn(childPn));
+    if (!rec) return false;
+    const draft = activeDraft || await handleNewDraft();
+    persistChangeOrder(stageChangeLine(draft, { parentPn: rec.parentPn, childPn: rec.childPn, field, before: rec[field], after }));
+    return true;
+  }, [bomRecords, activeDraft, handleNewDraft, persistChangeOrder]);
+
+  const computeChangeImpact = useCallback((lines: ChangeOrderLine[]) => calcChangeOrderImpact(lines, {
+    bomRecords, refInfo, materialCodes, purchasePrices, outsourcePrices,
+    itemStandardCosts: stdCosts, paintMixRatios, planQtyMap,
+  }), [bomRecords, refInfo, materialCodes, purchasePrices, outsourcePrices, stdCosts, paintMixRatios, planQtyMap]);
+
+  const handleSubmitChangeOrder = useCallback((order: BomChangeOrder) => {
+    persistChangeOrder({
+      ...order,
+      status: 'review',
+      impact: computeChangeImpact(order.lines),
+      approvals: {},
+      submittedAt: new Date().toISOString(),
+    });
+    if (order.id === activeDraftId) setActiveDraftId('');
+  }, [persistChangeOrder, computeChangeImpact, activeDraftId]);
+
+  const handleDecideChangeOrder = useCallback(async (
+    order: BomChangeOrder, role: ChangeOrderRole, decision: 'approved' | 'rejected' | null, comment: string,
+  ) => {
+    const by = await resolveEditor();
+    persistChangeOrder(decideChangeOrder(order, role,
+      decision ? { decision, by, at: new Date().toISOString(), comment } : null));
+  }, [persistChangeOrder]);
+
+  const handleDeleteChangeOrder = useCallback((id: string) => {
+    setChangeOrders(prev => prev.filter(o => o.id !== id));
+    if (id === activeDraftId) setActiveDraftId('');
+    bomChangeOrderService.delete(id).catch(e => console.error('[ECO] 삭제 실패:', e));
+  }, [activeDraftId]);
+
+  /** 승인 완료 ECO → bom_master 반영 (개정이력 사유 = ECO 번호) */
+  const handleApplyChangeOrder = useCallback(async (order: BomChangeOrder) => {
+    if (order.status !== 'approved') return;
+    const pending = order.lines.filter(l => !l.appliedAt);
+
+    // 승인 이후 BOM이 바뀐 라인이 있으면 반영 중단 (최신 값 기준으로 재작성 필요)
+    const current = await bomMasterService.getAll();
+    const stale = findStaleLines(current, pending);
+    if (stale.length > 0) {
+      setBomRecords(current);
+      alert(`승인 이후 BOM이 변경되어 반영할 수 없습니다 (${stale.length}건):\n${stale.slice(0, 10)
+        .map(l => `${l.parentPn} → ${l.childPn} ${CHANGE_ORDER_FIELD_LABEL[l.field]}: 작성 시 ${l.before}`).join('\n')}`);
+      return;
+    }
+
+    const reason = `${order.ecoNumber} ${order.reason || order.title}`.trim();
+    const applied: { parentPn: string; childPn: string }[] = [];
+    const failed: string[] = [];
+    for (const { parentPn, childPn, updates } of groupLineUpdates(pending)) {
+      let ok = false;
+      try {
+        ok = await bomMasterService.updateRecord(parentPn, childPn, updates, { reason }, current);
+      } catch (e) {
+        console.error('[ECO] 라인 반영 실패:', e);
+      }
+      if (ok) applied.push({ parentPn, childPn });
+      else failed.push(`${parentPn} → ${childPn}`);
+    }
+
+    // 반영된 라인은 기록 → 재실행 시 미반영 라인만 적용
+    const now = new Date().toISOString();
+    const progressed = markLinesApplied(order, applied, now);
+    persistChangeOrder(failed.length === 0 ? { ...progressed, status: 'applied', appliedAt: now } : progressed);
+    const [bom, revs] = await Promise.all([bomMasterService.getAll(), bomRevisionService.getAll()]);
+    setBomRecords(bom);
+    setBomRevisions(revs);
+    if (failed.length > 0) {
+      alert(`일부 라인 반영 실패 (${failed.length}건) — 다시 반영하면 실패한 라인만 적용됩니다:\n${failed.slice(0, 10).join('\n')}`);
+    }
+  }, [persistChangeOrder]);
+
   const savingRef = useRef(false);
   const handleSave = useCallback(async () => {
     if (!editCell || savingRef.current) return;
@@ -1093,30 +1242,26 @@ const BomReviewView: React.FC = () => {
     const { parentPn, childPn, field, nodeKey } = editCell;
     const val = editValue;
 
-    const updates: Partial<{ childName: string; partType: string; supplier: string; qty: number }> = {};
+    let after: string | number = val;
     if (field === 'qty') {
       const num = parseFloat(val);
       if (isNaN(num) || num < 0) { cancelEdit(); setSaving(false); savingRef.current = false; return; }
-      updates.qty = num;
-    } else {
-      (updates as Record<string, string>)[field] = val;
+      after = num;
     }
 
     // 먼저 editCell 해제 (UI 즉시 반영)
     cancelEdit();
 
-    const ok = await bomMasterService.updateRecord(parentPn, childPn, updates);
+    // bom_master에 바로 저장하지 않고 작성중 ECO에 스테이징
+    const ok = await stageBomEdit(parentPn, childPn, field, after);
     if (ok) {
-      setBomRecords(prev => prev.map(r =>
-        normalizePn(r.parentPn) === normalizePn(parentPn) && normalizePn(r.childPn) === normalizePn(childPn) ? { ...r, ...updates } : r,
-      ));
       const key = nodeKey + ':' + field;
       setRecentlySaved(prev => new Set(prev).add(key));
       setTimeout(() => setRecentlySaved(prev => { const n = new Set(prev); n.delete(key); return n; }), 1500);
     }
     setSaving(false);
     savingRef.current = false;
-  }, [editCell, editValue, cancelEdit]);
+  }, [editCell, editValue, cancelEdit, stageBomEdit]);
 
   useEffect(() => {
     if (editCell && editInputRef.current) {
@@ -1290,7 +1435,8 @@ const BomReviewView: React.FC = () => {
         className: string,
         displayValue?: string,
       ) => {
-        if (isVirtualPaint) {
+        // 가상 도장노드 · 기준일 전개(과거 BOM)는 조회 전용
+        if (isVirtualPaint || asOfDate) {
           return <td className={`px-2 py-1.5 ${className}`}>{displayValue ?? value}</td>;
         }
         if (isEditing(field)) {
@@ -1309,13 +1455,14 @@ const BomReviewView: React.FC = () => {
             </td>
           );
         }
+        const isStaged = stagedKeys.has(`${normalizePn(parentPn)}|${normalizePn(node.pn)}|${field}`);
         return (
           <td
             className={`px-2 py-1.5 cursor-pointer hover:bg-slate-50 transition-colors ${className} ${
               recentlySaved.has(savedKey(field)) ? 'bg-slate-50' : ''
-            }`}
+            } ${isStaged ? 'bg-blue-50 text-blue-700 font-bold' : ''}`}
             onClick={() => startEdit(parentPn, node.pn, field, nodeKey, value)}
-            title="클릭하여 수정"
+            title={isStaged ? 'ECO 변경 예정 (승인 후 반영)' : '클릭하여 수정'}
           >
             {displayValue ?? value}
           </td>
@@ -1732,7 +1879,26 @@ const BomReviewView: React.FC = () => {
                 <span className="w-1 h-4 bg-slate-400 rounded-full" />
                 BOM 트리: <span className="text-blue-600 font-mono">{selectedProduct}</span>
                 {enrichedTree.name && <span className="text-slate-500 font-normal ml-1">{enrichedTree.name}</span>}
+                {asOfDate && <span className="text-[10px] font-bold px-1.5 py-0.5 rounded bg-slate-100 text-slate-500">{asOfDate} 기준 (조회 전용)</span>}
               </h3>
+              <div className="flex items-center gap-1.5">
+                <label className="text-[11px] font-bold text-slate-500">기준일</label>
+                <input type="date" value={asOfDate} onChange={e => { setAsOfDate(e.target.value); cancelEdit(); }}
+                  className="px-2 py-1 border border-slate-200 rounded-lg text-[11px] outline-none" />
+                {asOfDate && (
+                  <button onClick={() => setAsOfDate('')} className="text-[11px] font-bold text-slate-400 hover:text-slate-600 px-1">현재</button>
+                )}
+                <button onClick={() => setShowChangeOrders(true)}
+                  className={`px-2 py-1 text-[11px] font-bold rounded-lg transition-colors ${activeDraft && activeDraft.lines.length > 0
+                    ? 'bg-blue-600 text-white hover:bg-blue-700'
+                    : 'bg-slate-100 text-slate-700 hover:bg-slate-200'}`}>
+                  ECO{activeDraft && activeDraft.lines.length > 0 ? ` ${activeDraft.ecoNumber} (${activeDraft.lines.length})` : ''}
+                </button>
+                <button onClick={() => setShowRevisions(true)}
+                  className="px-2 py-1 bg-slate-100 text-slate-700 text-[11px] font-bold rounded-lg hover:bg-slate-200 transition-colors">
+                  개정이력
+                </button>
+              </div>
               {/* BOM vs Std cost warning */}
               {stdTotal > 0 && bomTotal > 0 && Math.abs(costDiff) > 1 && (
                 <span className={`text-[11px] font-bold px-2 py-1 rounded-lg ${
@@ -1880,9 +2046,7 @@ const BomReviewView: React.FC = () => {
                             }
                             // 소요량 변경 → bom_master 업데이트 (현재 선택된 제품 기준)
                             if (Math.abs(newQty - selectedNodeInfo.unitQty) > 0.0001 && selectedProduct) {
-                              await bomMasterService.updateQty(selectedProduct, pn, newQty);
-                              const bom = await bomMasterService.getAll();
-                              setBomRecords(bom);
+                              await stageBomEdit(selectedNodeInfo.parentPn || selectedProduct, pn, 'qty', newQty);
                             }
                             // 구입유형(supplyType) 변경 → reference_info_master 업데이트
                             const newSupply = detailEdit.supplyType;
@@ -1899,9 +2063,7 @@ const BomReviewView: React.FC = () => {
                               await referenceInfoService.updateFields(updateCode, refUpdates);
                               // 2) bom_master supplier도 함께 업데이트 (트리 노드가 bom_master에서 직접 읽으므로)
                               if (newSupplier !== oldSupplier && selectedNodeInfo.parentPn) {
-                                await bomMasterService.updateRecord(selectedNodeInfo.parentPn, pn, { supplier: newSupplier });
-                                const bom = await bomMasterService.getAll();
-                                setBomRecords(bom);
+                                await stageBomEdit(selectedNodeInfo.parentPn, pn, 'supplier', newSupplier);
                               }
                               const ri = await referenceInfoService.getAll();
                               setRefInfo(ri);
@@ -2471,6 +2633,33 @@ const BomReviewView: React.FC = () => {
         />
       )}
 
+      {/* BOM Revision Panel */}
+      {showRevisions && (
+        <BomRevisionPanel
+          bomRecords={bomRecords}
+          revisions={bomRevisions}
+          initialParentPn={selectedProduct}
+          onClose={() => setShowRevisions(false)}
+        />
+      )}
+
+      {/* BOM Change Order Panel */}
+      {showChangeOrders && (
+        <ChangeOrderPanel
+          orders={changeOrders}
+          activeDraftId={activeDraft?.id || ''}
+          onSelectDraft={setActiveDraftId}
+          onNewDraft={handleNewDraft}
+          onUpdate={persistChangeOrder}
+          onDelete={handleDeleteChangeOrder}
+          onSubmit={handleSubmitChangeOrder}
+          onDecide={handleDecideChangeOrder}
+          onApply={handleApplyChangeOrder}
+          computeImpact={computeChangeImpact}
+          onClose={() => setShowChangeOrders(false)}
+        />
+      )}
+
       {/* MES Upload Modal */}
       <MesUploadModal isOpen={showMesModal} onClose={() => setShowMesModal(false)} />
     </div>
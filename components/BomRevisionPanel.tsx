@@ -0,0 +1,208 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { BomMasterRecord } from '../utils/bomMasterParser';
+import { normalizePn } from '../utils/bomDataParser';
+import { buildForwardMap } from '../utils/bomExplosionEngine';
+import {
+  BomLineRevision,
+  BomDiffStatus,
+  buildRevisionIndex,
+  listRevisionPoints,
+  diffBomAsOf,
+} from '../utils/bomRevision';
+
+// ============================================
+// Types
+// ============================================
+
+interface BomRevisionPanelProps {
+  bomRecords: BomMasterRecord[];
+  revisions: BomLineRevision[];
+  initialParentPn: string;
+  onClose: () => void;
+}
+
+/** 비교 시점: '' = 최초, 'current' = 현재, 그 외 ISO 개정시각 */
+type PointKey = string;
+
+const CURRENT = 'current';
+const BASELINE = '';
+
+const STATUS_STYLE: Record<BomDiffStatus, { label: string; cls: string }> = {
+  added: { label: '추가', cls: 'bg-emerald-50 text-emerald-600' },
+  removed: { label: '삭제', cls: 'bg-rose-50 text-rose-500' },
+  changed: { label: '변경', cls: 'bg-blue-50 text-blue-600' },
+  same: { label: '동일', cls: 'bg-slate-50 text-slate-400' },
+};
+
+const FIELD_LABEL: Record<string, string> = { qty: '소요량', childName: '품명', partType: '유형', supplier: '구입처' };
+
+const fmtAt = (iso: string) => {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+const pointTime = (key: PointKey) =>
+  key === CURRENT ? Infinity : key === BASELINE ? -Infinity : Date.parse(key);
+
+// ============================================
+// Component
+// ============================================
+
+const BomRevisionPanel: React.FC<BomRevisionPanelProps> = ({ bomRecords, revisions, initialParentPn, onClose }) => {
+  const [parentPn, setParentPn] = useState(initialParentPn);
+  const [fromKey, setFromKey] = useState<PointKey>(BASELINE);
+  const [toKey, setToKey] = useState<PointKey>(CURRENT);
+  const [showSame, setShowSame] = useState(false);
+
+  const forwardMap = useMemo(() => buildForwardMap(bomRecords), [bomRecords]);
+  const index = useMemo(() => buildRevisionIndex(revisions), [revisions]);
+
+  // 이력이 있는 모품번 목록 (최근 변경순)
+  const parentsWithHistory = useMemo(() => {
+    const latest = new Map<string, { pn: string; at: string }>();
+    for (const r of revisions) {
+      const key = normalizePn(r.parentPn);
+      const at = r.validTo && r.validTo > r.validFrom ? r.validTo : r.validFrom;
+      const prev = latest.get(key);
+      if (!prev || at > prev.at) latest.set(key, { pn: r.parentPn, at });
+    }
+    return Array.from(latest.values()).sort((a, b) => b.at.localeCompare(a.at));
+  }, [revisions]);
+
+  const points = useMemo(() => listRevisionPoints(parentPn, index), [parentPn, index]);
+
+  // 모품번 변경 시: 직전 개정 vs 현재
+  useEffect(() => {
+    setFromKey(points.length > 1 ? points[1].at : BASELINE);
+    setToKey(CURRENT);
+  }, [points]);
+
+  const currentLines = useMemo(() => forwardMap.get(normalizePn(parentPn)) || [], [forwardMap, parentPn]);
+  const diffRows = useMemo(
+    () => diffBomAsOf(parentPn, currentLines, index, pointTime(fromKey), pointTime(toKey)),
+    [parentPn, currentLines, index, fromKey, toKey],
+  );
+  const visibleRows = showSame ? diffRows : diffRows.filter(r => r.status !== 'same');
+  const counts = diffRows.reduce((acc, r) => { acc[r.status]++; return acc; }, { added: 0, removed: 0, changed: 0, same: 0 } as Record<BomDiffStatus, number>);
+
+  const pointOptions = (
+    <>
+      <option value={BASELINE}>최초</option>
+      {[...points].reverse().map(p => (
+        <option key={p.at} value={p.at}>{fmtAt(p.at)} · {p.reason || '사유 없음'}</option>
+      ))}
+      <option value={CURRENT}>현재</option>
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <h2 className="text-lg font-bold text-slate-800">BOM 개정이력</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-xl font-bold px-2">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex">
+          {/* Left: 모품번 + 개정 시점 */}
+          <div className="w-72 border-r border-slate-200 flex flex-col">
+            <div className="p-4 border-b border-slate-100">
+              <label className="text-xs font-bold text-slate-600">모품번</label>
+              <input list="bom-revision-parents" value={parentPn} onChange={e => setParentPn(e.target.value.trim())}
+                className="mt-1 w-full px-3 py-1.5 border border-slate-200 rounded-lg text-xs font-mono outline-none focus:ring-2 focus:ring-blue-500/20" />
+              <datalist id="bom-revision-parents">
+                {parentsWithHistory.map(p => <option key={p.pn} value={p.pn} />)}
+              </datalist>
+              <div className="mt-1 text-[10px] text-slate-400">이력 보유 모품번 {parentsWithHistory.length}개</div>
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {points.length === 0 ? (
+                <div className="p-6 text-center text-xs text-slate-400">개정 이력이 없습니다.</div>
+              ) : points.map(p => (
+                <div key={p.at} className="px-4 py-2 border-b border-slate-50 text-xs">
+                  <div className="flex items-center justify-between">
+                    <span className="font-mono text-slate-700">{fmtAt(p.at)}</span>
+                    <span className="text-[10px] text-slate-400">{p.lineCount}라인</span>
+                  </div>
+                  <div className="text-slate-600 truncate" title={p.reason}>{p.reason || '사유 없음'}</div>
+                  <div className="text-[10px] text-slate-400">{p.editor || '-'}</div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Right: Diff */}
+          <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-slate-100">
+              <select value={fromKey} onChange={e => setFromKey(e.target.value)}
+                className="px-2 py-1.5 border border-slate-200 rounded-lg text-xs outline-none">{pointOptions}</select>
+              <span className="text-xs text-slate-400">→</span>
+              <select value={toKey} onChange={e => setToKey(e.target.value)}
+                className="px-2 py-1.5 border border-slate-200 rounded-lg text-xs outline-none">{pointOptions}</select>
+              <div className="flex gap-1 ml-2">
+                {(['changed', 'added', 'removed'] as BomDiffStatus[]).map(s => (
+                  <span key={s} className={`px-2 py-0.5 rounded text-[10px] font-bold ${STATUS_STYLE[s].cls}`}>
+                    {STATUS_STYLE[s].label} {counts[s]}
+                  </span>
+                ))}
+              </div>
+              <label className="ml-auto flex items-center gap-1 text-[10px] text-slate-500">
+                <input type="checkbox" checked={showSame} onChange={e => setShowSame(e.target.checked)} className="w-3 h-3" />
+                동일 라인 표시 ({counts.same})
+              </label>
+            </div>
+            <div className="flex-1 overflow-auto">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 sticky top-0">
+                  <tr className="border-b border-slate-200 text-slate-500">
+                    <th className="px-3 py-2 text-center w-14">구분</th>
+                    <th className="px-3 py-2 text-left">자품번</th>
+                    <th className="px-3 py-2 text-left">품명</th>
+                    <th className="px-3 py-2 text-right">소요량</th>
+                    <th className="px-3 py-2 text-left">유형</th>
+                    <th className="px-3 py-2 text-left">구입처</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {visibleRows.length === 0 ? (
+                    <tr><td colSpan={6} className="py-10 text-center text-slate-400">차이가 없습니다.</td></tr>
+                  ) : visibleRows.map(r => {
+                    const cell = (field: 'qty' | 'childName' | 'partType' | 'supplier') => {
+                      const b = r.before?.[field];
+                      const a = r.after?.[field];
+                      if (r.status === 'changed' && r.changedFields.includes(field)) {
+                        return (
+                          <span title={FIELD_LABEL[field]}>
+                            <span className="line-through text-slate-400">{String(b ?? '')}</span>
+                            <span className="mx-1 text-slate-300">→</span>
+                            <span className="font-bold text-blue-600">{String(a ?? '')}</span>
+                          </span>
+                        );
+                      }
+                      return <span className={r.status === 'removed' ? 'line-through text-slate-400' : ''}>{String((a ?? b) ?? '')}</span>;
+                    };
+                    return (
+                      <tr key={r.childPn} className="hover:bg-slate-50">
+                        <td className="px-3 py-1.5 text-center">
+                          <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${STATUS_STYLE[r.status].cls}`}>{STATUS_STYLE[r.status].label}</span>
+                        </td>
+                        <td className="px-3 py-1.5 font-mono text-slate-700">{r.childPn}</td>
+                        <td className="px-3 py-1.5">{cell('childName')}</td>
+                        <td className="px-3 py-1.5 text-right font-mono">{cell('qty')}</td>
+                        <td className="px-3 py-1.5">{cell('partType')}</td>
+                        <td className="px-3 py-1.5">{cell('supplier')}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BomRevisionPanel;
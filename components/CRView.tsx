@@ -1,10 +1,12 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { safeSetItem } from '../utils/safeStorage';
+import { storage } from '../utils/storage';
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, PieChart, Pie, Cell, LabelList } from 'recharts';
 import { parseCIExcel, CIDetailItem, CIParseResult } from '../utils/ciDataParser';
 import { ForecastSummary } from '../utils/salesForecastParser';
 import { ciKpiService, ciDetailService, ciUploadService, forecastService } from '../services/supabaseService';
 import { isSupabaseConfigured } from '../lib/supabase';
+import CiSavingsPanel from './CiSavingsPanel';
 
 // ============================================
 // Constants & Types
@@ -77,7 +79,7 @@ const CRView: React.FC = () => {
   // --- KPI State ---
   const [kpiData, setKpiData] = useState<CRKpiData>(() => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_CR_KPI);
+      const stored = storage.getItem(STORAGE_KEY_CR_KPI);
       if (stored) return JSON.parse(stored);
     } catch { /* ignore */ }
     return { ...defaultKpiData };
@@ -86,7 +88,7 @@ const CRView: React.FC = () => {
   // --- CI Details State ---
   const [ciDetailsByMonth, setCiDetailsByMonth] = useState<Record<number, CIDetailItem[]>>(() => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_CI_DETAILS);
+      const stored = storage.getItem(STORAGE_KEY_CI_DETAILS);
       if (stored) return JSON.parse(stored);
     } catch { /* ignore */ }
     return {};
@@ -95,12 +97,18 @@ const CRView: React.FC = () => {
   // --- Upload Records ---
   const [uploads, setUploads] = useState<CIUploadRecord[]>(() => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_CI_UPLOADS);
+      const stored = storage.getItem(STORAGE_KEY_CI_UPLOADS);
       if (stored) return JSON.parse(stored);
     } catch { /* ignore */ }
     return [];
   });
 
+  // CI 상세는 월 단위로만 저장되므로 최근 업로드 연도를 CI 연도로 사용
+  const ciYear = useMemo(
+    () => (uploads.length > 0 ? Math.max(...uploads.map(u => u.year)) : new Date().getFullYear()),
+    [uploads],
+  );
+
   // --- Upload state ---
   const [isUploading, setIsUploading] = useState(false);
   const [uploadError, setUploadError] = useState('');
@@ -120,7 +128,7 @@ const CRView: React.FC = () => {
   // --- Forecast data (매출계획) ---
   const [forecastSummary, setForecastSummary] = useState<ForecastSummary | null>(() => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_FORECAST_SUMMARY);
+      const stored = storage.getItem(STORAGE_KEY_FORECAST_SUMMARY);
       if (stored) return JSON.parse(stored);
     } catch { /* ignore */ }
     return null;
@@ -916,6 +924,11 @@ const CRView: React.FC = () => {
           </>
         )}
       </div>
+
+      {/* ================================================================
+          4. 협력사 CI 절감 원장 (구매단가 연결)
+         ================================================================ */}
+      <CiSavingsPanel ciDetailsByMonth={ciDetailsByMonth} ciYear={ciYear} />
     </div>
   );
 };
@@ -0,0 +1,281 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import {
+  BomChangeOrder,
+  ChangeOrderRole,
+  ChangeOrderStatus,
+  ChangeOrderImpact,
+  ChangeOrderLine,
+  CHANGE_ORDER_ROLES,
+  CHANGE_ORDER_FIELD_LABEL,
+} from '../utils/bomChangeOrder';
+
+// ============================================
+// Types
+// ============================================
+
+interface ChangeOrderPanelProps {
+  orders: BomChangeOrder[];
+  activeDraftId: string;
+  onSelectDraft: (id: string) => void;
+  onNewDraft: () => void;
+  onUpdate: (order: BomChangeOrder) => void;
+  onDelete: (id: string) => void;
+  onSubmit: (order: BomChangeOrder) => void;
+  onDecide: (order: BomChangeOrder, role: ChangeOrderRole, decision: 'approved' | 'rejected' | null, comment: string) => void;
+  onApply: (order: BomChangeOrder) => Promise<void>;
+  computeImpact: (lines: ChangeOrderLine[]) => ChangeOrderImpact;
+  onClose: () => void;
+}
+
+const STATUS_STYLE: Record<ChangeOrderStatus, { label: string; cls: string }> = {
+  draft: { label: '작성중', cls: 'bg-slate-100 text-slate-500' },
+  review: { label: '검토중', cls: 'bg-blue-50 text-blue-600' },
+  approved: { label: '승인', cls: 'bg-emerald-50 text-emerald-600' },
+  rejected: { label: '반려', cls: 'bg-rose-50 text-rose-500' },
+  applied: { label: '적용완료', cls: 'bg-slate-800 text-white' },
+};
+
+const fmtWon = (v: number) => `${v < 0 ? '-' : v > 0 ? '+' : ''}₩${Math.round(Math.abs(v)).toLocaleString()}`;
+
+// ============================================
+// Component
+// ============================================
+
+const ChangeOrderPanel: React.FC<ChangeOrderPanelProps> = ({
+  orders, activeDraftId, onSelectDraft, onNewDraft, onUpdate, onDelete, onSubmit, onDecide, onApply, computeImpact, onClose,
+}) => {
+  const sorted = useMemo(() => [...orders].sort((a, b) => b.createdAt.localeCompare(a.createdAt)), [orders]);
+  const [selectedId, setSelectedId] = useState(activeDraftId || sorted[0]?.id || '');
+  const [comment, setComment] = useState('');
+  const [applying, setApplying] = useState(false);
+
+  // 새 변경지시 생성 시 자동 선택
+  useEffect(() => { if (activeDraftId) setSelectedId(activeDraftId); }, [activeDraftId]);
+
+  const order = orders.find(o => o.id === selectedId) || null;
+  const isDraft = order?.status === 'draft';
+  // 작성중은 실시간 산출, 검토요청 이후는 요청 시점 스냅샷
+  const impact = useMemo(
+    () => (order ? (isDraft ? computeImpact(order.lines) : order.impact) : null),
+    [order, isDraft, computeImpact],
+  );
+
+  const handleApply = async () => {
+    if (!order) return;
+    if (!confirm(`${order.ecoNumber} (${order.lines.length}건)을 BOM에 반영하시겠습니까?`)) return;
+    setApplying(true);
+    try { await onApply(order); } finally { setApplying(false); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-7xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <h2 className="text-lg font-bold text-slate-800">설계변경 (ECO)</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-xl font-bold px-2">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex">
+          {/* Left: ECO 목록 */}
+          <div className="w-72 border-r border-slate-200 flex flex-col">
+            <div className="p-3 border-b border-slate-100">
+              <button onClick={onNewDraft}
+                className="w-full px-3 py-1.5 bg-blue-600 text-white text-xs font-bold rounded-lg hover:bg-blue-700">
+                + 새 변경지시
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {sorted.length === 0 && <div className="p-6 text-center text-xs text-slate-400">변경지시가 없습니다.</div>}
+              {sorted.map(o => (
+                <button key={o.id} onClick={() => { setSelectedId(o.id); if (o.status === 'draft') onSelectDraft(o.id); }}
+                  className={`w-full text-left px-4 py-2 border-b border-slate-50 text-xs ${selectedId === o.id ? 'bg-blue-50' : 'hover:bg-slate-50'}`}>
+                  <div className="flex items-center justify-between">
+                    <span className="font-mono font-bold text-slate-700">{o.ecoNumber}</span>
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${STATUS_STYLE[o.status].cls}`}>{STATUS_STYLE[o.status].label}</span>
+                  </div>
+                  <div className="text-slate-600 truncate">{o.title || '(제목 없음)'}</div>
+                  <div className="text-[10px] text-slate-400">
+                    {o.lines.length}건 · {o.createdBy}{o.id === activeDraftId && o.status === 'draft' ? ' · 편집 대상' : ''}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Right: 상세 */}
+          {!order ? (
+            <div className="flex-1 flex items-center justify-center text-xs text-slate-400">변경지시를 선택하세요.</div>
+          ) : (
+            <div className="flex-1 overflow-y-auto p-5 space-y-4">
+              {/* 기본 정보 */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <label className="text-xs font-bold text-slate-600">제목</label>
+                  <input value={order.title} disabled={!isDraft} onChange={e => onUpdate({ ...order, title: e.target.value })}
+                    className="mt-1 w-full px-3 py-1.5 border border-slate-200 rounded-lg text-xs outline-none disabled:bg-slate-50" />
+                </div>
+                <div>
+                  <label className="text-xs font-bold text-slate-600">변경사유</label>
+                  <input value={order.reason} disabled={!isDraft} onChange={e => onUpdate({ ...order, reason: e.target.value })}
+                    className="mt-1 w-full px-3 py-1.5 border border-slate-200 rounded-lg text-xs outline-none disabled:bg-slate-50" />
+                </div>
+              </div>
+
+              {/* 변경 라인 */}
+              <div className="rounded-xl border border-slate-200 overflow-hidden">
+                <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 text-xs font-bold text-slate-600">
+                  변경 라인 ({order.lines.length})
+                  {isDraft && <span className="ml-2 font-normal text-slate-400">BOM 트리에서 셀을 수정하면 이 변경지시에 추가됩니다.</span>}
+                </div>
+                <table className="w-full text-xs">
+                  <thead><tr className="border-b border-slate-100 text-slate-500">
+                    <th className="px-3 py-1.5 text-left">모품번</th>
+                    <th className="px-3 py-1.5 text-left">자품번</th>
+                    <th className="px-3 py-1.5 text-left">항목</th>
+                    <th className="px-3 py-1.5 text-right">변경 전</th>
+                    <th className="px-3 py-1.5 text-right">변경 후</th>
+                    {isDraft && <th className="w-8" />}
+                  </tr></thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {order.lines.length === 0 && (
+                      <tr><td colSpan={6} className="py-6 text-center text-slate-400">변경 라인이 없습니다.</td></tr>
+                    )}
+                    {order.lines.map((l, i) => (
+                      <tr key={`${l.parentPn}|${l.childPn}|${l.field}`}>
+                        <td className="px-3 py-1.5 font-mono text-slate-500">{l.parentPn}</td>
+                        <td className="px-3 py-1.5 font-mono text-slate-700">{l.childPn}</td>
+                        <td className="px-3 py-1.5">
+                          {CHANGE_ORDER_FIELD_LABEL[l.field]}
+                          {l.appliedAt && <span className="ml-1 text-[10px] font-bold text-emerald-600">반영됨</span>}
+                        </td>
+                        <td className="px-3 py-1.5 text-right text-slate-400 line-through">{String(l.before)}</td>
+                        <td className="px-3 py-1.5 text-right font-bold text-blue-600">{String(l.after)}</td>
+                        {isDraft && (
+                          <td className="px-2 text-center">
+                            <button onClick={() => onUpdate({ ...order, lines: order.lines.filter((_, j) => j !== i) })}
+                              className="text-slate-300 hover:text-rose-500" title="라인 제거">✕</button>
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* 원가 영향 */}
+              {impact && (
+                <div className="rounded-xl border border-slate-200 overflow-hidden">
+                  <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 flex items-center justify-between text-xs">
+                    <span className="font-bold text-slate-600">
+                      원가 영향 <span className="font-normal text-slate-400">· 영향 모품번 {impact.affectedParents.length}개 · 제품 {impact.products.length}개</span>
+                    </span>
+                    <span className={`font-mono font-bold ${impact.totalDelta > 0 ? 'text-rose-500' : impact.totalDelta < 0 ? 'text-emerald-600' : 'text-slate-500'}`}>
+                      연간 {fmtWon(impact.totalDelta)}
+                    </span>
+                  </div>
+                  <div className="max-h-56 overflow-y-auto">
+                    <table className="w-full text-xs">
+                      <thead className="bg-white sticky top-0"><tr className="border-b border-slate-100 text-slate-500">
+                        <th className="px-3 py-1.5 text-left">제품</th>
+                        <th className="px-3 py-1.5 text-right">변경 전 재료비</th>
+                        <th className="px-3 py-1.5 text-right">변경 후 재료비</th>
+                        <th className="px-3 py-1.5 text-right">개당 차이</th>
+                        <th className="px-3 py-1.5 text-right">계획수량</th>
+                        <th className="px-3 py-1.5 text-right">연간 영향</th>
+                      </tr></thead>
+                      <tbody className="divide-y divide-slate-50">
+                        {impact.products.map(p => (
+                          <tr key={p.productPn}>
+                            <td className="px-3 py-1.5 font-mono text-slate-700">{p.productPn}</td>
+                            <td className="px-3 py-1.5 text-right font-mono">₩{Math.round(p.beforeCost).toLocaleString()}</td>
+                            <td className="px-3 py-1.5 text-right font-mono">₩{Math.round(p.afterCost).toLocaleString()}</td>
+                            <td className={`px-3 py-1.5 text-right font-mono ${p.deltaPerUnit > 0 ? 'text-rose-500' : p.deltaPerUnit < 0 ? 'text-emerald-600' : ''}`}>{fmtWon(p.deltaPerUnit)}</td>
+                            <td className="px-3 py-1.5 text-right font-mono">{p.planQty > 0 ? p.planQty.toLocaleString() : '—'}</td>
+                            <td className={`px-3 py-1.5 text-right font-mono font-bold ${p.deltaTotal > 0 ? 'text-rose-500' : p.deltaTotal < 0 ? 'text-emerald-600' : ''}`}>{fmtWon(p.deltaTotal)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+
+              {/* 승인 */}
+              {order.status !== 'draft' && (
+                <div className="rounded-xl border border-slate-200 p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-xs font-bold text-slate-600">부서 승인</span>
+                    <input value={comment} onChange={e => setComment(e.target.value)} placeholder="의견 (선택)"
+                      disabled={order.status === 'applied'}
+                      className="w-64 px-2 py-1 border border-slate-200 rounded-lg text-[11px] outline-none disabled:bg-slate-50" />
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    {CHANGE_ORDER_ROLES.map(role => {
+                      const d = order.approvals[role.key];
+                      const locked = order.status === 'applied';
+                      return (
+                        <div key={role.key} className="rounded-lg border border-slate-100 p-2 text-xs">
+                          <div className="flex items-center justify-between">
+                            <span className="font-bold text-slate-700">{role.label}</span>
+                            {d && (
+                              <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${d.decision === 'approved' ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-500'}`}>
+                                {d.decision === 'approved' ? '승인' : '반려'}
+                              </span>
+                            )}
+                          </div>
+                          {d && <div className="mt-1 text-[10px] text-slate-400 truncate" title={d.comment}>{d.by} · {d.at.slice(0, 10)}{d.comment ? ` · ${d.comment}` : ''}</div>}
+                          {!locked && (
+                            <div className="mt-1.5 flex gap-1">
+                              <button onClick={() => { onDecide(order, role.key, 'approved', comment); setComment(''); }}
+                                className="flex-1 px-2 py-0.5 rounded text-[10px] font-bold bg-slate-100 text-slate-600 hover:bg-emerald-50 hover:text-emerald-600">승인</button>
+                              <button onClick={() => { onDecide(order, role.key, 'rejected', comment); setComment(''); }}
+                                className="flex-1 px-2 py-0.5 rounded text-[10px] font-bold bg-slate-100 text-slate-600 hover:bg-rose-50 hover:text-rose-500">반려</button>
+                              {d && (
+                                <button onClick={() => onDecide(order, role.key, null, '')}
+                                  className="px-1.5 py-0.5 rounded text-[10px] text-slate-400 hover:text-slate-600" title="결정 취소">↺</button>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {/* Actions */}
+              <div className="flex items-center justify-end gap-2">
+                {(isDraft || order.status === 'rejected') && (
+                  <button onClick={() => { if (confirm(`${order.ecoNumber}을 삭제하시겠습니까?`)) onDelete(order.id); }}
+                    className="px-3 py-1.5 bg-slate-100 text-slate-500 text-xs font-bold rounded-lg hover:bg-slate-200">삭제</button>
+                )}
+                {order.status === 'rejected' && (
+                  <button onClick={() => onUpdate({ ...order, status: 'draft', approvals: {}, impact: null })}
+                    className="px-3 py-1.5 bg-slate-100 text-slate-700 text-xs font-bold rounded-lg hover:bg-slate-200">재작성</button>
+                )}
+                {isDraft && (
+                  <button onClick={() => onSubmit(order)} disabled={order.lines.length === 0 || !order.title.trim()}
+                    className="px-3 py-1.5 bg-blue-600 text-white text-xs font-bold rounded-lg hover:bg-blue-700 disabled:opacity-30">
+                    검토 요청
+                  </button>
+                )}
+                {order.status === 'approved' && (
+                  <button onClick={handleApply} disabled={applying}
+                    className="px-3 py-1.5 bg-blue-600 text-white text-xs font-bold rounded-lg hover:bg-blue-700 disabled:opacity-30">
+                    {applying ? '반영 중...' : 'BOM 반영'}
+                  </button>
+                )}
+                {order.status === 'applied' && order.appliedAt && (
+                  <span className="text-[11px] text-slate-400">{order.appliedAt.slice(0, 16).replace('T', ' ')} 반영</span>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ChangeOrderPanel;
@@ -0,0 +1,383 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import type { CIDetailItem } from '../utils/ciDataParser';
+import type { PurchasePrice } from '../utils/standardMaterialParser';
+import type { PurchaseItem } from '../utils/purchaseDataParser';
+import {
+  CiCommitment,
+  CI_SOURCE_LABEL,
+  buildSavingsLedger,
+  commitmentFromCi,
+  isCiLinked,
+  linkCiDetails,
+} from '../utils/ciSavings';
+import { ciSavingsService, purchasePriceService, purchaseService, resolveEditor } from '../services/supabaseService';
+import { downloadCSV } from '../utils/csvExport';
+
+// ============================================
+// Types & Helpers
+// ============================================
+
+interface CiSavingsPanelProps {
+  ciDetailsByMonth: Record<number, CIDetailItem[]>;
+  ciYear: number;
+}
+
+type PanelTab = 'ledger' | 'candidates' | 'ciLink';
+
+const fmtWon = (v: number): string => {
+  if (v === 0) return '-';
+  return '₩' + Math.round(v).toLocaleString();
+};
+
+const fmtQty = (v: number) => (v === 0 ? '-' : Math.round(v).toLocaleString());
+
+// ============================================
+// Component
+// ============================================
+
+const CiSavingsPanel: React.FC<CiSavingsPanelProps> = ({ ciDetailsByMonth, ciYear }) => {
+  const [commitments, setCommitments] = useState<CiCommitment[]>([]);
+  const [prices, setPrices] = useState<PurchasePrice[]>([]);
+  const [purchases, setPurchases] = useState<PurchaseItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [tab, setTab] = useState<PanelTab>('ledger');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [priceList, purchaseList] = await Promise.all([purchasePriceService.getAll(), purchaseService.getAll()]);
+      // 업로드 이전에 반영된 단가 변경도 후보로 보완
+      await ciSavingsService.addPriceChangeCandidates(priceList);
+      setPrices(priceList);
+      setPurchases(purchaseList);
+      setCommitments(await ciSavingsService.getAll());
+    } catch (err) {
+      console.error('CI 절감 데이터 로드 실패:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    window.addEventListener('dashboard-data-updated', load);
+    return () => window.removeEventListener('dashboard-data-updated', load);
+  }, [load]);
+
+  const ledger = useMemo(() => buildSavingsLedger(commitments, purchases), [commitments, purchases]);
+  const candidates = useMemo(
+    () => commitments.filter(c => c.status === 'candidate').sort((a, b) => (b.basePrice - b.newPrice) - (a.basePrice - a.newPrice)),
+    [commitments],
+  );
+  const links = useMemo(() => linkCiDetails(ciDetailsByMonth, prices), [ciDetailsByMonth, prices]);
+  const pendingLinks = useMemo(
+    () => links.filter(l => l.price && l.detail.basePrice > l.detail.currentPrice && !isCiLinked(l, commitments)),
+    [links, commitments],
+  );
+
+  const totals = ledger.reduce(
+    (acc, r) => ({
+      committedAnnual: acc.committedAnnual + r.committedAnnual,
+      committedToDate: acc.committedToDate + r.committedToDate,
+      realisedToDate: acc.realisedToDate + r.realisedToDate,
+    }),
+    { committedAnnual: 0, committedToDate: 0, realisedToDate: 0 },
+  );
+
+  const persist = async (changed: CiCommitment[]) => {
+    try {
+      await ciSavingsService.saveMany(changed);
+      const ids = new Set(changed.map(c => c.id));
+      setCommitments(prev => [...prev.filter(c => !ids.has(c.id)), ...changed]);
+    } catch (err: any) {
+      alert(`CI 약정 저장 실패: ${err.message || err}`);
+    }
+  };
+
+  const updateCommitment = async (c: CiCommitment, patch: Partial<CiCommitment>) => {
+    await persist([{ ...c, ...patch, updatedAt: new Date().toISOString(), updatedBy: await resolveEditor() }]);
+  };
+
+  const handleRegisterLinks = async () => {
+    const editor = await resolveEditor();
+    const created = pendingLinks
+      .map(l => commitmentFromCi(l, ciYear, editor))
+      .filter((c): c is CiCommitment => c !== null);
+    if (created.length === 0) return;
+    if (!window.confirm(`CI 상세 ${created.length}건을 약정으로 등록하시겠습니까?`)) return;
+    await persist(created);
+  };
+
+  const handleDelete = async (c: CiCommitment) => {
+    if (!window.confirm(`${c.itemCode} 약정을 삭제하시겠습니까?`)) return;
+    await ciSavingsService.delete(c.id);
+    setCommitments(prev => prev.filter(x => x.id !== c.id));
+  };
+
+  const toggleSupplier = (supplier: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(supplier)) next.delete(supplier);
+      else next.add(supplier);
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    const headers = ['협력사', '품목코드', '품목명', '출처', '적용일', '기준단가', '인하단가', 'EA절감', '기준수량(직전12개월)', '연간약정절감', '적용후입고수량', '약정누계', '실현누계', '최근입고단가'];
+    const rows = ledger.flatMap(r => r.lines.map(l => [
+      r.supplier, l.commitment.itemCode, l.commitment.itemName, CI_SOURCE_LABEL[l.commitment.source], l.commitment.effectiveFrom,
+      l.commitment.basePrice, l.commitment.newPrice, l.unitSaving, l.baselineQty,
+      Math.round(l.committedAnnual), l.inboundQty, Math.round(l.committedToDate), Math.round(l.realisedToDate), l.lastPaidPrice ?? '',
+    ]));
+    downloadCSV(`협력사_CI_절감원장`, headers, rows);
+  };
+
+  const TABS: { id: PanelTab; label: string; count: number }[] = [
+    { id: 'ledger', label: '협력사별 절감 원장', count: ledger.length },
+    { id: 'candidates', label: 'CI 후보 (단가 인하)', count: candidates.length },
+    { id: 'ciLink', label: 'CI 상세 ↔ 구매단가', count: links.length },
+  ];
+
+  return (
+    <div className="bg-white rounded-3xl border border-slate-200 shadow-sm overflow-hidden" data-ci-savings>
+      <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800">협력사 CI 절감 원장</h2>
+          <p className="text-xs text-slate-500 mt-0.5">
+            구매단가 인하 → CI 후보, 확정 약정은 적용일 이후 입고실적으로 실현 절감을 집계합니다.
+          </p>
+        </div>
+        <button onClick={handleExport} disabled={ledger.length === 0} className="text-xs text-blue-600 hover:bg-slate-50 px-3 py-1.5 rounded-lg transition-colors font-medium disabled:opacity-40">
+          CSV 다운로드
+        </button>
+      </div>
+
+      {/* KPI */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 px-6 pt-4">
+        {[
+          { label: '연간 약정 절감', value: fmtWon(totals.committedAnnual), sub: `확정 ${ledger.reduce((s, r) => s + r.lines.length, 0)}건` },
+          { label: '약정 누계 (입고 기준)', value: fmtWon(totals.committedToDate) },
+          { label: '실현 누계', value: fmtWon(totals.realisedToDate), sub: totals.committedToDate > 0 ? `약정 대비 ${((totals.realisedToDate / totals.committedToDate) * 100).toFixed(0)}%` : undefined },
+          { label: '미처리 CI 후보', value: `${candidates.length}건`, sub: pendingLinks.length > 0 ? `CI 상세 미등록 ${pendingLinks.length}건` : undefined },
+        ].map(k => (
+          <div key={k.label} className="rounded-xl border p-3 border-slate-100 bg-slate-50">
+            <div className="text-[10px] font-bold text-slate-500">{k.label}</div>
+            <div className="text-base font-bold text-slate-800 mt-0.5">{k.value}</div>
+            {k.sub && <div className="text-[10px] text-slate-400 mt-0.5">{k.sub}</div>}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-1 px-6 pt-4 border-b border-slate-100">
+        {TABS.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTab(t.id)}
+            className={`px-4 py-2 text-xs font-bold relative ${tab === t.id ? 'text-blue-600' : 'text-slate-400 hover:text-slate-600'}`}
+          >
+            {t.label} <span className="text-[10px] font-normal">({t.count})</span>
+            {tab === t.id && <span className="absolute bottom-0 left-0 w-full h-0.5 bg-blue-600" />}
+          </button>
+        ))}
+      </div>
+
+      <div className="p-6">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600" />
+          </div>
+        ) : (
+          <>
+            {/* 협력사별 절감 원장 */}
+            {tab === 'ledger' && (
+              ledger.length === 0 ? (
+                <div className="py-12 text-center text-sm text-slate-400">확정된 CI 약정이 없습니다. CI 후보를 확정하거나 CI 상세를 약정으로 등록하세요.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50 text-slate-500">
+                      <tr>
+                        <th className="px-3 py-2 text-left">협력사 / 품목</th>
+                        <th className="px-3 py-2 text-right">적용일</th>
+                        <th className="px-3 py-2 text-right">기준 → 인하단가</th>
+                        <th className="px-3 py-2 text-right">기준수량</th>
+                        <th className="px-3 py-2 text-right">연간 약정</th>
+                        <th className="px-3 py-2 text-right">입고수량</th>
+                        <th className="px-3 py-2 text-right">약정 누계</th>
+                        <th className="px-3 py-2 text-right">실현 누계</th>
+                        <th className="px-3 py-2 text-right">실현율</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {ledger.map(r => (
+                        <React.Fragment key={r.supplier}>
+                          <tr className="font-semibold cursor-pointer hover:bg-slate-50" onClick={() => toggleSupplier(r.supplier)}>
+                            <td className="px-3 py-2 text-slate-800">
+                              <span className="inline-block w-4 text-slate-400">{expanded.has(r.supplier) ? '▾' : '▸'}</span>
+                              {r.supplier}
+                              <span className="ml-2 text-[11px] font-normal text-slate-400">{r.lines.length}건</span>
+                            </td>
+                            <td colSpan={3} />
+                            <td className="px-3 py-2 text-right font-mono">{fmtWon(r.committedAnnual)}</td>
+                            <td />
+                            <td className="px-3 py-2 text-right font-mono">{fmtWon(r.committedToDate)}</td>
+                            <td className="px-3 py-2 text-right font-mono">{fmtWon(r.realisedToDate)}</td>
+                            <td className="px-3 py-2 text-right font-mono">
+                              {r.committedToDate > 0 ? `${((r.realisedToDate / r.committedToDate) * 100).toFixed(0)}%` : '-'}
+                            </td>
+                          </tr>
+                          {expanded.has(r.supplier) && r.lines.map(l => {
+                            const short = l.inboundQty > 0 && l.realisedToDate < l.committedToDate * 0.95;
+                            return (
+                              <tr key={l.commitment.id} className={short ? 'bg-rose-50/40' : ''}>
+                                <td className="pl-10 pr-3 py-1.5 text-slate-600">
+                                  <span className="font-mono">{l.commitment.itemCode}</span>
+                                  <span className="ml-2 text-slate-400">{l.commitment.itemName}</span>
+                                  <span className="ml-2 text-[10px] px-1.5 py-0.5 rounded bg-slate-100 text-slate-500">{CI_SOURCE_LABEL[l.commitment.source]}</span>
+                                </td>
+                                <td className="px-3 py-1.5 text-right text-slate-500">{l.commitment.effectiveFrom}</td>
+                                <td className="px-3 py-1.5 text-right font-mono">
+                                  {l.commitment.basePrice.toLocaleString()} → {l.commitment.newPrice.toLocaleString()}
+                                  {l.lastPaidPrice !== null && l.lastPaidPrice !== l.commitment.newPrice && (
+                                    <div className="text-[10px] text-rose-500">최근 입고 {Math.round(l.lastPaidPrice).toLocaleString()}</div>
+                                  )}
+                                </td>
+                                <td className="px-3 py-1.5 text-right font-mono">{fmtQty(l.baselineQty)}</td>
+                                <td className="px-3 py-1.5 text-right font-mono">{fmtWon(l.committedAnnual)}</td>
+                                <td className="px-3 py-1.5 text-right font-mono">{fmtQty(l.inboundQty)}</td>
+                                <td className="px-3 py-1.5 text-right font-mono">{fmtWon(l.committedToDate)}</td>
+                                <td className="px-3 py-1.5 text-right font-mono">{fmtWon(l.realisedToDate)}</td>
+                                <td className="px-3 py-1.5 text-right whitespace-nowrap">
+                                  <span className="font-mono">{l.committedToDate > 0 ? `${((l.realisedToDate / l.committedToDate) * 100).toFixed(0)}%` : '-'}</span>
+                                  <button onClick={() => handleDelete(l.commitment)} className="ml-2 text-rose-500 hover:underline">삭제</button>
+                                </td>
+                              </tr>
+                            );
+                          })}
+                        </React.Fragment>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )
+            )}
+
+            {/* CI 후보 */}
+            {tab === 'candidates' && (
+              candidates.length === 0 ? (
+                <div className="py-12 text-center text-sm text-slate-400">구매단가 인하로 생성된 후보가 없습니다.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs">
+                    <thead className="bg-slate-50 text-slate-500">
+                      <tr>
+                        <th className="px-3 py-2 text-left">협력사</th>
+                        <th className="px-3 py-2 text-left">품목</th>
+                        <th className="px-3 py-2 text-right">전월단가</th>
+                        <th className="px-3 py-2 text-right">현재단가</th>
+                        <th className="px-3 py-2 text-right">EA 절감</th>
+                        <th className="px-3 py-2 text-center">적용일</th>
+                        <th className="px-3 py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-50">
+                      {candidates.map(c => (
+                        <tr key={c.id}>
+                          <td className="px-3 py-1.5 text-slate-700">{c.supplier || '-'}</td>
+                          <td className="px-3 py-1.5">
+                            <span className="font-mono text-slate-700">{c.itemCode}</span>
+                            <span className="ml-2 text-slate-400">{c.itemName}</span>
+                          </td>
+                          <td className="px-3 py-1.5 text-right font-mono">{c.basePrice.toLocaleString()}</td>
+                          <td className="px-3 py-1.5 text-right font-mono">{c.newPrice.toLocaleString()}</td>
+                          <td className="px-3 py-1.5 text-right font-mono font-bold text-emerald-600">
+                            {(c.basePrice - c.newPrice).toLocaleString()}
+                            <span className="ml-1 text-[10px] font-normal text-slate-400">({(((c.basePrice - c.newPrice) / c.basePrice) * 100).toFixed(1)}%)</span>
+                          </td>
+                          <td className="px-3 py-1.5 text-center">
+                            <input
+                              type="date"
+                              value={c.effectiveFrom}
+                              onChange={e => e.target.value && updateCommitment(c, { effectiveFrom: e.target.value })}
+                              className="border border-slate-200 rounded px-1.5 py-0.5 text-xs"
+                            />
+                          </td>
+                          <td className="px-3 py-1.5 text-right whitespace-nowrap">
+                            <button onClick={() => updateCommitment(c, { status: 'committed' })} className="text-blue-600 font-bold hover:underline mr-2">확정</button>
+                            <button onClick={() => updateCommitment(c, { status: 'rejected' })} className="text-slate-400 hover:underline">제외</button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )
+            )}
+
+            {/* CI 상세 ↔ 구매단가 */}
+            {tab === 'ciLink' && (
+              links.length === 0 ? (
+                <div className="py-12 text-center text-sm text-slate-400">CI 상세 데이터가 없습니다.</div>
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs text-slate-500">
+                      {ciYear}년 CI 상세 {links.length}건 중 구매단가 매칭 {links.filter(l => l.price).length}건
+                      {links.some(l => !l.price) && <span className="text-amber-600"> · 미매칭 {links.filter(l => !l.price).length}건</span>}
+                    </p>
+                    <button
+                      onClick={handleRegisterLinks}
+                      disabled={pendingLinks.length === 0}
+                      className="px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-800 text-white hover:bg-slate-700 disabled:opacity-40"
+                    >
+                      매칭 건 약정 등록 ({pendingLinks.length})
+                    </button>
+                  </div>
+                  <div className="overflow-x-auto max-h-[420px] overflow-y-auto">
+                    <table className="w-full text-xs">
+                      <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                        <tr>
+                          <th className="px-3 py-2 text-center">월</th>
+                          <th className="px-3 py-2 text-left">품번</th>
+                          <th className="px-3 py-2 text-left">품명</th>
+                          <th className="px-3 py-2 text-right">기준 → 현단가</th>
+                          <th className="px-3 py-2 text-left">협력사 (구매단가)</th>
+                          <th className="px-3 py-2 text-right">마스터 현재단가</th>
+                          <th className="px-3 py-2 text-center">상태</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-50">
+                        {links.map((l, i) => {
+                          const linked = isCiLinked(l, commitments);
+                          return (
+                            <tr key={`${l.month}-${l.detail.partNumber}-${i}`} className={l.price ? '' : 'bg-amber-50/40'}>
+                              <td className="px-3 py-1.5 text-center text-slate-500">{l.month}월</td>
+                              <td className="px-3 py-1.5 font-mono text-slate-700">{l.detail.partNumber || l.detail.partCode}</td>
+                              <td className="px-3 py-1.5 text-slate-500 max-w-[180px] truncate">{l.detail.partName}</td>
+                              <td className="px-3 py-1.5 text-right font-mono">{l.detail.basePrice.toLocaleString()} → {l.detail.currentPrice.toLocaleString()}</td>
+                              <td className="px-3 py-1.5 text-slate-700">{l.price ? l.price.supplier || '-' : <span className="text-amber-600">구매단가 미매칭</span>}</td>
+                              <td className={`px-3 py-1.5 text-right font-mono ${l.masterGap !== 0 ? 'text-rose-600 font-bold' : ''}`}>
+                                {l.price ? l.price.currentPrice.toLocaleString() : '-'}
+                              </td>
+                              <td className="px-3 py-1.5 text-center">
+                                {linked ? <span className="text-emerald-600 font-bold">등록됨</span> : l.price ? <span className="text-slate-400">미등록</span> : '-'}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CiSavingsPanel;
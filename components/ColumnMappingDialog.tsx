@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { columnMappingService, resolveEditor } from '../services/supabaseService';
+import { readFileAsCSVText, readCsvWithEncoding } from '../utils/fileReaders';
+import { MAPPING_TARGETS, readHeaderCandidates, findHeaderIndex, mapRowsWithProfile } from '../utils/columnMapping';
+import type { MappingDataset, ColumnMappingProfile } from '../utils/columnMapping';
+
+interface ColumnMappingDialogProps {
+  dataset: MappingDataset;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const SAMPLE_ROWS = 3;
+
+const ColumnMappingDialog: React.FC<ColumnMappingDialogProps> = ({ dataset, onClose, onSaved }) => {
+  const target = MAPPING_TARGETS[dataset];
+  const [existing, setExisting] = useState<ColumnMappingProfile | null>(null);
+  const [sampleText, setSampleText] = useState('');
+  const [sampleName, setSampleName] = useState('');
+  const [headerRow, setHeaderRow] = useState(0);
+  const [columns, setColumns] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    columnMappingService.get(dataset).then(profile => {
+      setExisting(profile);
+      if (profile) {
+        setHeaderRow(profile.headerRow);
+        setColumns(profile.columns);
+      }
+    });
+  }, [dataset]);
+
+  const candidates = useMemo(() => readHeaderCandidates(sampleText), [sampleText]);
+  const headers = (candidates[headerRow] || []).filter(h => h !== '');
+
+  // 샘플 파일이 없으면 저장된 프로필의 원본 헤더명만 선택지로 표시
+  const options = headers.length > 0 ? headers : Array.from(new Set(Object.values(columns).filter(Boolean)));
+
+  const sample = useMemo(
+    () => (sampleText ? mapRowsWithProfile(sampleText, { dataset, headerRow, columns, updatedAt: '' }).slice(0, SAMPLE_ROWS) : []),
+    [sampleText, dataset, headerRow, columns],
+  );
+
+  const missingRequired = target.fields.filter(f => f.required && !columns[f.key]);
+
+  const handleSampleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const ext = file.name.split('.').pop()?.toLowerCase();
+    const text = ext === 'xlsx' || ext === 'xls' ? await readFileAsCSVText(file) : await readCsvWithEncoding(file);
+    setSampleText(text);
+    setSampleName(file.name);
+
+    // 샘플에 있는 기존 지정은 유지, 나머지는 필드 라벨과 같은 헤더로 자동 채움
+    const rows = readHeaderCandidates(text);
+    const row = rows[headerRow] || [];
+    setColumns(prev => {
+      const next = { ...prev };
+      target.fields.forEach(f => {
+        if (next[f.key] && findHeaderIndex(row, next[f.key]) >= 0) return;
+        const idx = findHeaderIndex(row, f.label);
+        if (idx >= 0) next[f.key] = row[idx];
+        else delete next[f.key];
+      });
+      return next;
+    });
+  };
+
+  const setColumn = (key: string, source: string) => {
+    setColumns(prev => {
+      const next = { ...prev };
+      if (source) next[key] = source;
+      else delete next[key];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await columnMappingService.save({
+        dataset,
+        headerRow,
+        columns,
+        updatedAt: new Date().toISOString(),
+        updatedBy: await resolveEditor(),
+      });
+      onSaved();
+      onClose();
+    } catch (err: any) {
+      alert(`매핑 저장 실패: ${err.message || err}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`${target.label} 컬럼 매핑을 삭제하시겠습니까?`)) return;
+    await columnMappingService.delete(dataset);
+    onSaved();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[210] bg-black/40 flex items-center justify-center p-4" data-column-mapping={dataset}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">컬럼 매핑 · {target.label}</h2>
+            <p className="text-xs text-slate-500 mt-0.5">
+              자동 인식(고정 컬럼 위치)에 실패한 파일은 이 매핑으로 다시 읽습니다.
+              {existing && ` 최종 수정 ${new Date(existing.updatedAt).toLocaleString('ko-KR')}${existing.updatedBy ? ` · ${existing.updatedBy}` : ''}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-xl font-bold px-2">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {/* 샘플 파일 / 헤더 행 */}
+          <div className="flex items-center gap-3">
+            <label className="px-3 py-1.5 rounded-lg bg-slate-800 text-white text-xs font-semibold cursor-pointer hover:bg-slate-700">
+              샘플 파일 선택
+              <input type="file" accept=".csv,.txt,.xlsx,.xls" className="hidden" onChange={handleSampleFile} />
+            </label>
+            <span className="text-xs text-slate-500 truncate flex-1">{sampleName || '헤더를 읽을 샘플 파일을 선택하세요'}</span>
+            <label className="text-xs text-slate-600 flex items-center gap-1">
+              헤더 행
+              <select
+                value={headerRow}
+                onChange={e => setHeaderRow(Number(e.target.value))}
+                className="text-xs border border-slate-200 rounded-lg px-2 py-1 bg-white"
+              >
+                {Array.from({ length: Math.max(candidates.length, headerRow + 1, 1) }, (_, i) => (
+                  <option key={i} value={i}>
+                    {i + 1}행{candidates[i] ? ` — ${candidates[i].filter(Boolean).slice(0, 3).join(', ')}` : ''}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* 필드 매핑 */}
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-200 text-slate-600">
+                <th className="text-left py-2 px-3 font-semibold">대상 필드</th>
+                <th className="text-left py-2 px-3 font-semibold">원본 헤더</th>
+              </tr>
+            </thead>
+            <tbody>
+              {target.fields.map(field => (
+                <tr key={field.key} className="border-b border-slate-100">
+                  <td className="py-1.5 px-3">
+                    {field.label}
+                    {field.required && <span className="ml-1 text-rose-500">*</span>}
+                    <span className="ml-2 text-[11px] text-slate-400 font-mono">{field.key}</span>
+                  </td>
+                  <td className="py-1.5 px-3">
+                    <select
+                      value={columns[field.key] || ''}
+                      onChange={e => setColumn(field.key, e.target.value)}
+                      className="w-full text-xs border border-slate-200 rounded-lg px-2 py-1 bg-white"
+                    >
+                      <option value="">(사용 안 함)</option>
+                      {options.map((h, i) => <option key={`${h}-${i}`} value={h}>{h}</option>)}
+                    </select>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {/* 매핑 결과 샘플 */}
+          {sample.length > 0 && (
+            <div>
+              <h3 className="text-sm font-bold text-slate-700 mb-2">매핑 결과 샘플 {sample.length}건</h3>
+              <div className="overflow-x-auto border border-slate-200 rounded-xl">
+                <table className="w-full text-xs">
+                  <thead className="bg-slate-50 text-slate-500">
+                    <tr>
+                      {target.fields.filter(f => columns[f.key]).map(f => (
+                        <th key={f.key} className="px-3 py-1.5 text-left whitespace-nowrap">{f.label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {sample.map((row, i) => (
+                      <tr key={i}>
+                        {target.fields.filter(f => columns[f.key]).map(f => (
+                          <td key={f.key} className="px-3 py-1.5 whitespace-nowrap font-mono text-slate-700">{row[f.key] || '-'}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-slate-200">
+          <div className="mr-auto flex items-center gap-3">
+            {existing && (
+              <button onClick={handleDelete} className="px-3 py-2 rounded-xl text-sm font-bold text-rose-500 hover:bg-rose-50">
+                매핑 삭제
+              </button>
+            )}
+            {missingRequired.length > 0 && (
+              <span className="text-xs text-rose-600">필수 필드 미지정: {missingRequired.map(f => f.label).join(', ')}</span>
+            )}
+          </div>
+          <button onClick={onClose} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-600 hover:bg-slate-100">
+            취소
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || missingRequired.length > 0}
+            className="px-4 py-2 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {saving ? '저장 중...' : '저장'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingDialog;
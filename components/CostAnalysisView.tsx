@@ -2,19 +2,26 @@
  * CostAnalysisView — 원가분석 통합 워크벤치 v4
  * 이슈 #1~#9 고도화: byType정확화, 전체정렬, 수율계산, MRP발주, RESIN/PAINT뷰
  */
-import React, { useState, useMemo, useRef, useCallback } from 'react';
+import React, { useState, useMemo, useRef, useCallback, useEffect } from 'react';
 import { useCostAnalysis, CostAnalysisData, ProductCostRow, LeafMaterialRow } from '../hooks/useCostAnalysis';
 import { normalizePn } from '../utils/bomDataParser';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, LabelList } from 'recharts';
-import { downloadPurchaseOrder, downloadRequiredQtyBreakdown } from '../utils/excelExporter';
+import { downloadPurchaseOrder, downloadRequiredQtyBreakdown, downloadSupplierPurchaseOrder } from '../utils/excelExporter';
+import { calcScenarioDiff, CostScenario, PriceOverride, PriceOverrideTarget, ScenarioDiffResult } from '../utils/bomCostEngine';
+import { costScenarioService, supplierLeadTimeService, purchaseOrderService, forecastService } from '../services/supabaseService';
+import { planMaterialRequirements, defaultStartMonth, MaterialMrpPlan } from '../utils/mrpPlanningEngine';
+import { buildPurchaseOrders, openSupplyByMaterial, PurchaseOrder, PurchaseOrderStatus } from '../utils/purchaseOrderBuilder';
+import { analyzeCostVariance, MaterialVarianceRow, SupplierVarianceRow, VarianceInboundLine } from '../utils/costVarianceEngine';
 
-type AnalysisMode = 'standard' | 'product' | 'yield' | 'mrp';
+type AnalysisMode = 'standard' | 'product' | 'yield' | 'variance' | 'mrp' | 'scenario';
 
 const MODE_TABS: { id: AnalysisMode; label: string; desc: string }[] = [
   { id: 'standard', label: '표준재료비', desc: '총괄 요약' },
   { id: 'product', label: '제품별 재료비', desc: '제품 단위 원가' },
   { id: 'yield', label: '자재수율', desc: '소요 vs 입고' },
+  { id: 'variance', label: '원가차이', desc: '가격/배합/수율' },
   { id: 'mrp', label: 'MRP', desc: '자재별/업체별' },
+  { id: 'scenario', label: '시나리오', desc: 'What-if 단가' },
 ];
 
 const fmt = (n: number) => {
@@ -683,7 +690,7 @@ const YieldPanel: React.FC<{ data: CostAnalysisData }> = ({ data }) => {
 // ============================================================
 // MRPPanel — 자재별/업체별/RESIN/PAINT (이슈 #5~#9)
 // ============================================================
-type MRPViewMode = 'material' | 'supplier' | 'resin' | 'paint';
+type MRPViewMode = 'material' | 'supplier' | 'resin' | 'paint' | 'plan' | 'po';
 type MRPSortKey = 'materialCode' | 'materialName' | 'materialType' | 'unitPrice' | 'totalQty' | 'totalCost' | 'currentStock' | 'orderQty';
 const MRP_STR_KEYS: MRPSortKey[] = ['materialCode', 'materialName', 'materialType'];
 
@@ -698,11 +705,37 @@ const VIEW_TABS: { id: MRPViewMode; label: string }[] = [
   { id: 'supplier', label: '업체별' },
   { id: 'resin', label: 'RESIN' },
   { id: 'paint', label: 'PAINT' },
+  { id: 'plan', label: '발주계획' },
+  { id: 'po', label: '발주서' },
 ];
 
+const DEFAULT_LEAD_TIME_DAYS = 14;
+
+const PO_STATUS_LABEL: Record<PurchaseOrderStatus, { label: string; cls: string }> = {
+  open: { label: '미입고', cls: 'bg-blue-50 text-blue-600' },
+  received: { label: '입고완료', cls: 'bg-slate-100 text-slate-500' },
+  cancelled: { label: '취소', cls: 'bg-rose-50 text-rose-500' },
+};
+
 const MRPPanel: React.FC<{ data: CostAnalysisData }> = ({ data }) => {
-  const { costResult, inventoryItems, purchaseData, selectedMonth, setSelectedMonth } = data;
+  const { costResult, calcParams, inventoryItems, purchaseData, selectedMonth, setSelectedMonth } = data;
   const [viewMode, setViewMode] = useState<MRPViewMode>('material');
+  const [leadTimes, setLeadTimes] = useState<Record<string, number>>({});
+  const [leadTimesDirty, setLeadTimesDirty] = useState(false);
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([]);
+  const [poHorizon, setPoHorizon] = useState(1);
+  const [issuing, setIssuing] = useState(false);
+  // mrpMaterials 월 소요량은 Forecast 계획 연도 기준 (미등록 시 올해)
+  const [planYear, setPlanYear] = useState(() => new Date().getFullYear());
+  const planStartMonth = defaultStartMonth(planYear);
+
+  useEffect(() => {
+    supplierLeadTimeService.getAll().then(setLeadTimes).catch(err => console.error('[MRP] 리드타임 로드 실패:', err));
+    purchaseOrderService.getAll().then(setPurchaseOrders).catch(err => console.error('[MRP] 발주서 로드 실패:', err));
+    forecastService.getSummary('current')
+      .then(sum => { if (sum?.year) setPlanYear(sum.year); })
+      .catch(err => console.error('[MRP] 매출계획 연도 로드 실패:', err));
+  }, []);
   const [typeFilter, setTypeFilter] = useState<string>('전체');
   const [expandedSuppliers, setExpandedSuppliers] = useState<Set<string>>(new Set());
   const [expandedMaterials, setExpandedMaterials] = useState<Set<string>>(new Set());
@@ -711,11 +744,8 @@ const MRPPanel: React.FC<{ data: CostAnalysisData }> = ({ data }) => {
   const [page, setPage] = useState(0);
   const PAGE_SIZE = 50;
 
-  if (!costResult || costResult.leafMaterials.length === 0) {
-    return <EmptyState message="BOM 전개 데이터가 필요합니다." />;
-  }
-
-  const { leafMaterials, summary } = costResult;
+  // 훅은 모두 빈 데이터 안내(early return)보다 앞에서 호출
+  const leafMaterials = costResult?.leafMaterials || [];
   const totalCost = leafMaterials.reduce((s, m) => s + m.totalCost, 0);
 
   // 입고 실적에서 구입처 맵 구성 (itemCode + customerPn 양방향 매핑)
@@ -746,10 +776,33 @@ const MRPPanel: React.FC<{ data: CostAnalysisData }> = ({ data }) => {
 
   // MRP 데이터 소스: RESIN/PAINT 탭은 full-depth mrpMaterials, 그 외는 leafMaterials
   const mrpSource = (viewMode === 'resin' || viewMode === 'paint')
-    ? (costResult.mrpMaterials || [])
+    ? (costResult?.mrpMaterials || [])
     : leafMaterials;
 
-  // MRP 데이터 (현재고 + 발주량 + 구입처 보강 — selectedMonth 반영)
+  // 발행된 미입고 발주 → 입고예정
+  const openSupply = useMemo(() => openSupplyByMaterial(purchaseOrders, planYear), [purchaseOrders, planYear]);
+
+  // 시간단계 MRP: 예상재고 이월 + 안전재고 + LOT + 리드타임 (구입처 보강 후 계획)
+  const planMap = useMemo(() => {
+    const materials = mrpSource.map(m => ({
+      ...m, supplier: purchaseSupplierMap.get(normalizePn(m.materialCode)) || m.supplier || '',
+    }));
+    const plans = planMaterialRequirements({
+      materials,
+      onHand: inventoryMap,
+      materialCodes: calcParams?.materialCodes || [],
+      refInfo: calcParams?.refInfo || [],
+      leadTimes,
+      defaultLeadTimeDays: DEFAULT_LEAD_TIME_DAYS,
+      year: planYear,
+      scheduledReceipts: openSupply,
+    });
+    const map = new Map<string, MaterialMrpPlan>();
+    for (const p of plans) map.set(p.materialCode, p);
+    return map;
+  }, [mrpSource, purchaseSupplierMap, inventoryMap, calcParams, leadTimes, planYear, openSupply]);
+
+  // MRP 데이터 (현재고 + 계획발주량 + 구입처 보강 — selectedMonth 반영)
   const mrpAll = useMemo(() => {
     return mrpSource.map(m => {
       const code = normalizePn(m.materialCode);
@@ -758,12 +811,16 @@ const MRPPanel: React.FC<{ data: CostAnalysisData }> = ({ data }) => {
         : (m.monthlyQty[selectedMonth] || 0);
       const totalCost = totalQty * m.unitPrice;
       const currentStock = inventoryMap.get(code) || 0;
-      const orderQty = Math.max(0, totalQty - currentStock);
+      // 발주량: 시간단계 MRP 계획입고 (선택월 또는 연간 합계)
+      const plan = planMap.get(m.materialCode);
+      const orderQty = plan
+        ? plan.buckets.reduce((s, b) => s + (selectedMonth === -1 || b.month === selectedMonth ? b.plannedReceipt : 0), 0)
+        : 0;
       // 구입처: 입고실적(실제 납품업체) > 엔진 결과 > 미지정
       const supplier = purchaseSupplierMap.get(code) || m.supplier || '';
       return { ...m, supplier, totalQty, totalCost, currentStock, orderQty } as MRPRow;
     });
-  }, [mrpSource, inventoryMap, purchaseSupplierMap, selectedMonth]);
+  }, [mrpSource, inventoryMap, purchaseSupplierMap, planMap, selectedMonth]);
 
   // 유형 필터 + 뷰모드 필터
   const types = ['전체', ...Array.from(new Set(leafMaterials.map(m => m.materialType)))];
@@ -1033,6 +1090,304 @@ const MRPPanel: React.FC<{ data: CostAnalysisData }> = ({ data }) => {
     </div>
   );
 
+  const planSuppliers = useMemo(() =>
+    Array.from(new Set<string>(filtered.map(m => m.supplier).filter(Boolean))).sort((a, b) => a.localeCompare(b, 'ko')),
+  [filtered]);
+
+  const handleSaveLeadTimes = async () => {
+    try {
+      await supplierLeadTimeService.saveAll(leadTimes);
+      setLeadTimesDirty(false);
+    } catch (err: any) {
+      console.error('[MRP] 리드타임 저장 실패:', err);
+      alert(`리드타임 저장 실패: ${err.message || err}`);
+    }
+  };
+
+  // 발주서 초안: 발주기간 내 계획입고를 업체별 다품목 발주서로 묶음
+  const poToMonth = Math.min(11, planStartMonth + poHorizon - 1);
+  const draftOrders = useMemo(() => buildPurchaseOrders({
+    plans: filtered.map(m => planMap.get(m.materialCode)).filter((p): p is MaterialMrpPlan => !!p),
+    year: planYear,
+    fromMonth: planStartMonth,
+    toMonth: poToMonth,
+    purchasePrices: calcParams?.purchasePrices || [],
+    materialCodes: calcParams?.materialCodes || [],
+    existingPoNumbers: purchaseOrders.map(po => po.poNumber),
+  }), [filtered, planMap, planYear, planStartMonth, poToMonth, calcParams, purchaseOrders]);
+
+  const handleIssueOrders = async () => {
+    if (draftOrders.length === 0) return;
+    const total = draftOrders.reduce((s, po) => s + po.totalAmount, 0);
+    if (!confirm(`${draftOrders.length}개 업체 발주서(총 ${fmt(total)}원)를 발행하시겠습니까?\n발행된 발주는 MRP 입고예정으로 반영됩니다.`)) return;
+    setIssuing(true);
+    try {
+      await purchaseOrderService.addMany(draftOrders);
+      draftOrders.forEach(po => downloadSupplierPurchaseOrder(po));
+      setPurchaseOrders(prev => [...prev, ...draftOrders]);
+    } catch (err) {
+      console.error('[MRP] 발주서 발행 실패:', err);
+      alert('발주서 발행 중 오류가 발생했습니다.');
+    } finally {
+      setIssuing(false);
+    }
+  };
+
+  const handleUpdatePoStatus = async (poNumber: string, status: PurchaseOrderStatus) => {
+    try {
+      await purchaseOrderService.updateStatus(poNumber, status);
+      setPurchaseOrders(prev => prev.map(po => po.poNumber === poNumber ? { ...po, status } : po));
+    } catch (err: any) {
+      console.error('[MRP] 발주 상태 변경 실패:', err);
+      alert(`발주 상태 변경 실패: ${err.message || err}`);
+    }
+  };
+
+  // 발주서 뷰 렌더링 (초안 + 발행 이력)
+  const renderPOView = () => {
+    const issued = [...purchaseOrders].sort((a, b) => b.poNumber.localeCompare(a.poNumber));
+    return (
+      <div className="space-y-4">
+        <div className="bg-white rounded-2xl border border-slate-200 overflow-x-auto">
+          <div className="flex flex-wrap items-center gap-2 px-3 py-2 border-b border-slate-200">
+            <span className="text-xs font-bold text-slate-600">발주서 초안</span>
+            <span className="text-[10px] text-slate-400">
+              납기 {planYear}.{planStartMonth + 1}월 ~ {poToMonth + 1}월 계획입고 · 미입고 발주 반영 후
+            </span>
+            <div className="flex gap-1 ml-auto">
+              {[1, 2, 3].map(n => (
+                <button key={n} onClick={() => setPoHorizon(n)}
+                  className={`px-2 py-1 rounded-lg text-[10px] font-bold ${poHorizon === n ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-400'}`}>
+                  {n}개월
+                </button>
+              ))}
+            </div>
+            <button onClick={handleIssueOrders} disabled={issuing || draftOrders.length === 0}
+              className="px-3 py-1 rounded-lg text-[10px] font-bold bg-blue-600 text-white disabled:opacity-30">
+              {issuing ? '발행 중...' : `업체별 발주서 발행 (${draftOrders.length})`}
+            </button>
+          </div>
+          <table className="w-full text-xs">
+            <thead><tr className="bg-slate-50 border-b border-slate-200 text-slate-500">
+              <th className="px-3 py-2 text-left">발주번호</th>
+              <th className="px-3 py-2 text-left">업체</th>
+              <th className="px-3 py-2 text-right">품목수</th>
+              <th className="px-3 py-2 text-left">납기</th>
+              <th className="px-3 py-2 text-right">발주금액</th>
+            </tr></thead>
+            <tbody>
+              {draftOrders.length === 0 && (
+                <tr><td colSpan={5} className="px-3 py-6 text-center text-slate-400">발주기간 내 계획입고가 없습니다.</td></tr>
+              )}
+              {draftOrders.map(po => {
+                const isExpanded = expandedSuppliers.has(po.supplier);
+                const first = po.lines[0]?.deliveryDate || '';
+                const last = po.lines[po.lines.length - 1]?.deliveryDate || '';
+                return (
+                  <React.Fragment key={po.poNumber}>
+                    <tr className="border-b border-slate-100 hover:bg-slate-50 cursor-pointer" onClick={() => toggleSupplier(po.supplier)}>
+                      <td className="px-3 py-2 font-mono text-slate-500">
+                        <span className={`inline-block w-3.5 text-slate-400 text-[10px] transition-transform ${isExpanded ? 'rotate-90' : ''}`}>▶</span>
+                        {po.poNumber}
+                      </td>
+                      <td className="px-3 py-2 font-bold text-slate-700">{po.supplier}</td>
+                      <td className="px-3 py-2 text-right font-mono">{po.lines.length}</td>
+                      <td className="px-3 py-2 font-mono text-[10px] text-slate-500">{first}{last !== first ? ` ~ ${last}` : ''}</td>
+                      <td className="px-3 py-2 text-right font-mono font-bold">{Math.round(po.totalAmount).toLocaleString()}</td>
+                    </tr>
+                    {isExpanded && po.lines.map(l => (
+                      <tr key={l.lineNo} className="border-b border-slate-50 bg-slate-50/30 text-[10px] text-slate-500">
+                        <td className="pl-9 pr-3 py-1 font-mono">{l.materialCode}</td>
+                        <td className="px-3 py-1 truncate max-w-[200px]" title={l.materialName}>{l.materialName}</td>
+                        <td className="px-3 py-1 text-right font-mono">{Math.round(l.qty).toLocaleString()} {l.unit}</td>
+                        <td className="px-3 py-1 font-mono">{l.deliveryDate}</td>
+                        <td className="px-3 py-1 text-right font-mono">
+                          {Math.round(l.amount).toLocaleString()}
+                          <span className="ml-1 text-slate-400">@{Math.round(l.unitPrice).toLocaleString()} ({l.priceSource})</span>
+                        </td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="bg-white rounded-2xl border border-slate-200 overflow-x-auto">
+          <div className="px-3 py-2 border-b border-slate-200 text-xs font-bold text-slate-600">
+            발행 이력 <span className="font-normal text-slate-400">· 미입고 {issued.filter(po => po.status === 'open').length}건</span>
+          </div>
+          <table className="w-full text-xs">
+            <thead><tr className="bg-slate-50 border-b border-slate-200 text-slate-500">
+              <th className="px-3 py-2 text-left">발주번호</th>
+              <th className="px-3 py-2 text-left">업체</th>
+              <th className="px-3 py-2 text-left">발주일</th>
+              <th className="px-3 py-2 text-right">품목수</th>
+              <th className="px-3 py-2 text-right">발주금액</th>
+              <th className="px-3 py-2 text-center">상태</th>
+              <th className="px-3 py-2 text-center"></th>
+            </tr></thead>
+            <tbody>
+              {issued.length === 0 && (
+                <tr><td colSpan={7} className="px-3 py-6 text-center text-slate-400">발행된 발주서가 없습니다.</td></tr>
+              )}
+              {issued.map(po => (
+                <tr key={po.poNumber} className="border-b border-slate-50 hover:bg-slate-50">
+                  <td className="px-3 py-1.5 font-mono text-slate-600">{po.poNumber}</td>
+                  <td className="px-3 py-1.5 text-slate-700">{po.supplier}</td>
+                  <td className="px-3 py-1.5 font-mono text-slate-500">{po.issueDate}</td>
+                  <td className="px-3 py-1.5 text-right font-mono">{po.lines.length}</td>
+                  <td className="px-3 py-1.5 text-right font-mono">{Math.round(po.totalAmount).toLocaleString()}</td>
+                  <td className="px-3 py-1.5 text-center">
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${PO_STATUS_LABEL[po.status].cls}`}>{PO_STATUS_LABEL[po.status].label}</span>
+                  </td>
+                  <td className="px-3 py-1.5 text-center whitespace-nowrap">
+                    <button onClick={() => downloadSupplierPurchaseOrder(po)}
+                      className="px-2 py-0.5 rounded text-[10px] font-bold bg-slate-100 text-slate-500 hover:bg-slate-200">Excel</button>
+                    {po.status === 'open' && (
+                      <>
+                        <button onClick={() => handleUpdatePoStatus(po.poNumber, 'received')}
+                          className="ml-1 px-2 py-0.5 rounded text-[10px] font-bold bg-slate-100 text-slate-500 hover:bg-slate-200">입고완료</button>
+                        <button onClick={() => handleUpdatePoStatus(po.poNumber, 'cancelled')}
+                          className="ml-1 px-2 py-0.5 rounded text-[10px] font-bold bg-rose-50 text-rose-500 hover:bg-rose-100">취소</button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  };
+
+  // 발주계획(시간단계 MRP) 뷰 렌더링
+  const renderPlanTable = () => {
+    const BUCKET_ROWS: { key: 'grossReq' | 'scheduledReceipts' | 'projectedOnHand' | 'plannedReceipt' | 'plannedRelease'; label: string }[] = [
+      { key: 'grossReq', label: '총소요' },
+      { key: 'scheduledReceipts', label: '입고예정' },
+      { key: 'projectedOnHand', label: '예상재고' },
+      { key: 'plannedReceipt', label: '계획입고' },
+      { key: 'plannedRelease', label: '발주' },
+    ];
+    return (
+      <div className="grid grid-cols-1 xl:grid-cols-4 gap-4">
+        <div className="xl:col-span-3 bg-white rounded-2xl border border-slate-200 overflow-x-auto">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-slate-200">
+            <span className="text-xs font-bold text-slate-600">{filtered.length}개 자재 · {planYear}년 시간단계 계획</span>
+            <button onClick={toggleAllMaterials}
+              className="px-2 py-1 rounded-lg text-[10px] font-bold bg-slate-100 text-slate-500 hover:bg-slate-200">
+              {expandedMaterials.size === pageData.length ? '전체 접기' : '전체 펼치기'}
+            </button>
+          </div>
+          <table className="w-full text-xs">
+            <thead><tr className="bg-slate-50 border-b border-slate-200 text-slate-500">
+              <th className="px-2 py-2 text-left">자재코드</th>
+              <th className="px-2 py-2 text-left min-w-[160px]">자재명 / 구입처</th>
+              <th className="px-2 py-2 text-right">현재고</th>
+              <th className="px-2 py-2 text-right">안전재고</th>
+              <th className="px-2 py-2 text-right">LOT</th>
+              <th className="px-2 py-2 text-right">L/T</th>
+              {Array.from({ length: 12 }, (_, i) => (
+                <th key={i} className="px-1.5 py-2 text-right w-14">{i + 1}월</th>
+              ))}
+              <th className="px-2 py-2 text-left">다음 발주</th>
+            </tr></thead>
+            <tbody>
+              {pageData.map(m => {
+                const plan = planMap.get(m.materialCode);
+                if (!plan) return null;
+                const isExpanded = expandedMaterials.has(m.materialCode);
+                const next = plan.plannedOrders[0];
+                return (
+                  <React.Fragment key={m.materialCode}>
+                    <tr className="border-b border-slate-50 hover:bg-slate-50 cursor-pointer" onClick={() => toggleMaterial(m.materialCode)}>
+                      <td className="px-2 py-1.5 font-mono text-slate-800 whitespace-nowrap">
+                        <span className={`inline-block w-3.5 text-slate-400 text-[10px] transition-transform ${isExpanded ? 'rotate-90' : ''}`}>▶</span>
+                        {m.materialCode}
+                      </td>
+                      <td className="px-2 py-1.5">
+                        <span className="block truncate max-w-[200px]" title={m.materialName}>{m.materialName}</span>
+                        <span className="text-[10px] text-slate-400">{m.supplier || '(미지정)'}</span>
+                      </td>
+                      <td className="px-2 py-1.5 text-right font-mono text-slate-500">{Math.round(plan.onHand).toLocaleString()}</td>
+                      <td className="px-2 py-1.5 text-right font-mono text-slate-500">
+                        {plan.safetyStockQty > 0 ? Math.round(plan.safetyStockQty).toLocaleString() : '-'}
+                        {plan.safetyStockDays > 0 && <span className="block text-[9px] text-slate-400">{plan.safetyStockDays}일</span>}
+                      </td>
+                      <td className="px-2 py-1.5 text-right font-mono text-slate-500">{plan.lotSize > 0 ? plan.lotSize.toLocaleString() : 'L4L'}</td>
+                      <td className="px-2 py-1.5 text-right font-mono text-slate-500">{plan.leadTimeDays}일</td>
+                      {plan.buckets.map(b => (
+                        <td key={b.month} className={`px-1.5 py-1.5 text-right font-mono text-[10px] ${b.plannedReceipt > 0 ? 'font-bold text-rose-500' : 'text-slate-400'}`}>
+                          {b.plannedReceipt > 0 ? Math.round(b.plannedReceipt).toLocaleString() : ''}
+                        </td>
+                      ))}
+                      <td className="px-2 py-1.5 whitespace-nowrap text-[10px]">
+                        {next ? (
+                          <span className={next.pastDue ? 'font-bold text-rose-500' : 'text-slate-600'}>
+                            {next.releaseDate}{next.pastDue ? ' (지연)' : ''}
+                          </span>
+                        ) : <span className="text-slate-400">-</span>}
+                      </td>
+                    </tr>
+                    {isExpanded && BUCKET_ROWS.map(r => (
+                      <tr key={r.key} className="border-b border-slate-50 bg-slate-50/30">
+                        <td className="pl-7 pr-2 py-1 text-[10px] text-slate-500 font-bold" colSpan={6}>{r.label}</td>
+                        {plan.buckets.map(b => {
+                          const v = b[r.key];
+                          return (
+                            <td key={b.month} className={`px-1.5 py-1 text-right font-mono text-[10px] ${r.key === 'projectedOnHand' && v < b.safetyStock ? 'text-rose-500' : 'text-slate-500'}`}>
+                              {v !== 0 ? Math.round(v).toLocaleString() : ''}
+                            </td>
+                          );
+                        })}
+                        <td></td>
+                      </tr>
+                    ))}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+          <Pagination page={page} setPage={setPage} total={filtered.length} pageSize={PAGE_SIZE} />
+        </div>
+
+        <div className="bg-white rounded-2xl border border-slate-200 p-4 h-fit">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-xs font-bold text-slate-600">업체별 리드타임 (일)</h3>
+            <button onClick={handleSaveLeadTimes} disabled={!leadTimesDirty}
+              className="px-2 py-1 rounded-lg text-[10px] font-bold bg-blue-600 text-white disabled:opacity-30">저장</button>
+          </div>
+          <div className="text-[10px] text-slate-400 mb-2">미입력 업체는 기본 {DEFAULT_LEAD_TIME_DAYS}일 적용</div>
+          <div className="max-h-[480px] overflow-y-auto">
+            {planSuppliers.map(sup => (
+              <div key={sup} className="flex items-center gap-2 py-1 border-b border-slate-50 last:border-0">
+                <span className="flex-1 text-xs text-slate-600 truncate" title={sup}>{sup}</span>
+                <input type="number" min={0} value={leadTimes[sup] ?? ''} placeholder={String(DEFAULT_LEAD_TIME_DAYS)}
+                  onChange={e => {
+                    const v = e.target.value;
+                    setLeadTimes(prev => {
+                      const next = { ...prev };
+                      if (v === '') delete next[sup]; else next[sup] = Math.max(0, parseInt(v) || 0);
+                      return next;
+                    });
+                    setLeadTimesDirty(true);
+                  }}
+                  className="w-16 px-2 py-0.5 border border-slate-200 rounded text-xs text-right font-mono" />
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  if (leafMaterials.length === 0) {
+    return <EmptyState message="BOM 전개 데이터가 필요합니다." />;
+  }
+
   return (
     <div className="space-y-4">
       <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
@@ -1050,7 +1405,7 @@ const MRPPanel: React.FC<{ data: CostAnalysisData }> = ({ data }) => {
             </button>
           ))}
         </div>
-        {(viewMode === 'material' || viewMode === 'supplier') && (
+        {(viewMode === 'material' || viewMode === 'supplier' || viewMode === 'plan' || viewMode === 'po') && (
           <div className="flex gap-1 flex-wrap">
             {types.map(t => (
               <button key={t} onClick={() => { setTypeFilter(t); setPage(0); }}
@@ -1071,6 +1426,584 @@ const MRPPanel: React.FC<{ data: CostAnalysisData }> = ({ data }) => {
 
       {(viewMode === 'material' || viewMode === 'resin' || viewMode === 'paint') && renderMaterialTable()}
       {viewMode === 'supplier' && renderSupplierTable()}
+      {viewMode === 'plan' && renderPlanTable()}
+      {viewMode === 'po' && renderPOView()}
+    </div>
+  );
+};
+
+// ============================================================
+// ScenarioPanel — What-if 단가 시뮬레이션 (시나리오 저장/비교)
+// ============================================================
+const OVERRIDE_TARGETS: { id: PriceOverrideTarget; label: string; placeholder: string }[] = [
+  { id: 'materialType', label: '자재유형', placeholder: 'RESIN / PAINT / 업종명' },
+  { id: 'materialCode', label: '재질코드', placeholder: '재질코드' },
+  { id: 'supplier', label: '업체', placeholder: '업체명' },
+  { id: 'purchaseItem', label: '구매품번', placeholder: '품목코드 / 고객사 P/N' },
+];
+
+const MAX_COMPARE = 3;
+
+const newScenario = (): CostScenario => {
+  const now = new Date().toISOString();
+  return {
+    id: `scn_${Date.now()}`,
+    name: '',
+    description: '',
+    overrides: [{ target: 'materialType', key: 'RESIN', mode: 'pct', value: 0 }],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+const signedFmt = (n: number) => (n > 0 ? '+' : n < 0 ? '-' : '') + fmt(Math.abs(n));
+const deltaClass = (n: number) => (n > 0.5 ? 'text-rose-500' : n < -0.5 ? 'text-emerald-600' : 'text-slate-400');
+
+const ScenarioPanel: React.FC<{ data: CostAnalysisData }> = ({ data }) => {
+  const { costResult, calcParams, selectedMonth, setSelectedMonth } = data;
+  const [scenarios, setScenarios] = useState<CostScenario[]>([]);
+  const [draft, setDraft] = useState<CostScenario>(newScenario);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [detailView, setDetailView] = useState<'product' | 'material'>('product');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    costScenarioService.getAll().then(setScenarios).catch(err => console.error('[시나리오] 로드 실패:', err));
+  }, []);
+
+  // 업체/유형 입력 보조 목록
+  const suggestions = useMemo(() => {
+    const suppliers = new Set<string>();
+    const types = new Set<string>(['RESIN', 'PAINT']);
+    for (const m of costResult?.leafMaterials || []) {
+      if (m.supplier) suppliers.add(m.supplier);
+      if (m.materialType) types.add(m.materialType);
+    }
+    for (const pp of calcParams?.purchasePrices || []) if (pp.supplier) suppliers.add(pp.supplier);
+    return { suppliers: [...suppliers].sort((a, b) => a.localeCompare(b, 'ko')), types: [...types] };
+  }, [costResult, calcParams]);
+
+  // 비교 대상 시나리오 재계산 (기준 결과는 공유)
+  const diffs = useMemo(() => {
+    if (!calcParams || !costResult) return [] as ScenarioDiffResult[];
+    return compareIds
+      .map(id => scenarios.find(s => s.id === id))
+      .filter((s): s is CostScenario => !!s)
+      .map(s => calcScenarioDiff(calcParams, s, costResult));
+  }, [calcParams, costResult, scenarios, compareIds]);
+
+  if (!costResult || !calcParams) return <EmptyState message="매출계획 + BOM 데이터가 필요합니다." />;
+
+  const focus = diffs.find(d => d.scenario.id === focusId) || diffs[0];
+
+  const updateOverride = (idx: number, patch: Partial<PriceOverride>) => {
+    setDraft(d => ({ ...d, overrides: d.overrides.map((o, i) => (i === idx ? { ...o, ...patch } : o)) }));
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) { alert('시나리오 이름을 입력해주세요.'); return; }
+    const saved: CostScenario = {
+      ...draft,
+      name: draft.name.trim(),
+      overrides: draft.overrides.filter(o => o.key.trim()),
+      updatedAt: new Date().toISOString(),
+    };
+    setSaving(true);
+    try {
+      await costScenarioService.upsertOne(saved);
+      setScenarios(prev => [...prev.filter(s => s.id !== saved.id), saved]);
+      setCompareIds(prev => (prev.includes(saved.id) ? prev : [...prev, saved.id].slice(-MAX_COMPARE)));
+      setFocusId(saved.id);
+      setDraft(saved);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!window.confirm('시나리오를 삭제하시겠습니까?')) return;
+    await costScenarioService.delete(id);
+    setScenarios(prev => prev.filter(s => s.id !== id));
+    setCompareIds(prev => prev.filter(x => x !== id));
+    if (draft.id === id) setDraft(newScenario());
+  };
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id)
+      ? prev.filter(x => x !== id)
+      : [...prev, id].slice(-MAX_COMPARE));
+  };
+
+  const base = costResult.summary;
+
+  return (
+    <div className="space-y-4">
+      <MonthSelector selectedMonth={selectedMonth} setSelectedMonth={setSelectedMonth} />
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* 시나리오 편집 */}
+        <div className="lg:col-span-2 bg-white rounded-2xl border border-slate-200 p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-xs font-bold text-slate-600">시나리오 편집</h3>
+            <button onClick={() => setDraft(newScenario())}
+              className="px-2 py-1 rounded-lg text-[10px] font-bold bg-slate-100 text-slate-500 hover:bg-slate-200">새 시나리오</button>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input type="text" value={draft.name} onChange={e => setDraft(d => ({ ...d, name: e.target.value }))}
+              placeholder="시나리오 이름 (예: PP +8%, A사 +3%)"
+              className="px-3 py-1.5 border border-slate-200 rounded-lg text-xs flex-1 focus:outline-none focus:ring-1 focus:ring-blue-600" />
+            <input type="text" value={draft.description} onChange={e => setDraft(d => ({ ...d, description: e.target.value }))}
+              placeholder="설명"
+              className="px-3 py-1.5 border border-slate-200 rounded-lg text-xs flex-1 focus:outline-none focus:ring-1 focus:ring-blue-600" />
+          </div>
+          <table className="w-full text-xs">
+            <thead><tr className="border-b border-slate-200 text-slate-500">
+              <th className="px-2 py-1.5 text-left w-28">대상</th>
+              <th className="px-2 py-1.5 text-left">키</th>
+              <th className="px-2 py-1.5 text-left w-24">방식</th>
+              <th className="px-2 py-1.5 text-right w-28">값</th>
+              <th className="px-2 py-1.5 w-8"></th>
+            </tr></thead>
+            <tbody>
+              {draft.overrides.map((o, idx) => {
+                const target = OVERRIDE_TARGETS.find(t => t.id === o.target);
+                const listId = o.target === 'supplier' ? 'scn-suppliers' : o.target === 'materialType' ? 'scn-types' : undefined;
+                return (
+                  <tr key={idx} className="border-b border-slate-50">
+                    <td className="px-2 py-1">
+                      <select value={o.target} onChange={e => updateOverride(idx, { target: e.target.value as PriceOverrideTarget })}
+                        className="w-full px-1.5 py-1 border border-slate-200 rounded text-xs">
+                        {OVERRIDE_TARGETS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-2 py-1">
+                      <input type="text" value={o.key} list={listId} placeholder={target?.placeholder}
+                        onChange={e => updateOverride(idx, { key: e.target.value })}
+                        className="w-full px-2 py-1 border border-slate-200 rounded text-xs font-mono" />
+                    </td>
+                    <td className="px-2 py-1">
+                      <select value={o.mode} onChange={e => updateOverride(idx, { mode: e.target.value as 'pct' | 'abs' })}
+                        className="w-full px-1.5 py-1 border border-slate-200 rounded text-xs">
+                        <option value="pct">변동률(%)</option>
+                        <option value="abs">단가지정</option>
+                      </select>
+                    </td>
+                    <td className="px-2 py-1">
+                      <input type="number" value={Number.isFinite(o.value) ? o.value : 0} step={o.mode === 'pct' ? 0.5 : 1}
+                        onChange={e => updateOverride(idx, { value: parseFloat(e.target.value) || 0 })}
+                        className="w-full px-2 py-1 border border-slate-200 rounded text-xs text-right font-mono" />
+                    </td>
+                    <td className="px-2 py-1 text-center">
+                      <button onClick={() => setDraft(d => ({ ...d, overrides: d.overrides.filter((_, i) => i !== idx) }))}
+                        className="text-slate-400 hover:text-rose-500" title="삭제">✕</button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <datalist id="scn-suppliers">{suggestions.suppliers.map(s => <option key={s} value={s} />)}</datalist>
+          <datalist id="scn-types">{suggestions.types.map(t => <option key={t} value={t} />)}</datalist>
+          <div className="flex items-center gap-2">
+            <button onClick={() => setDraft(d => ({ ...d, overrides: [...d.overrides, { target: 'supplier', key: '', mode: 'pct', value: 0 }] }))}
+              className="px-2 py-1 rounded-lg text-[10px] font-bold bg-slate-100 text-slate-500 hover:bg-slate-200">+ 조건 추가</button>
+            <button onClick={handleSave} disabled={saving}
+              className="ml-auto px-3 py-1.5 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50">
+              {saving ? '저장 중...' : '저장 후 비교'}
+            </button>
+          </div>
+        </div>
+
+        {/* 저장된 시나리오 */}
+        <div className="bg-white rounded-2xl border border-slate-200 p-4">
+          <h3 className="text-xs font-bold text-slate-600 mb-2">저장된 시나리오 <span className="font-normal text-slate-400">(최대 {MAX_COMPARE}개 비교)</span></h3>
+          {scenarios.length === 0 && <div className="text-xs text-slate-400 py-6 text-center">저장된 시나리오가 없습니다.</div>}
+          {scenarios.map(s => (
+            <div key={s.id} className="flex items-center gap-2 py-1.5 border-b border-slate-100 last:border-0">
+              <input type="checkbox" checked={compareIds.includes(s.id)} onChange={() => toggleCompare(s.id)} />
+              <button onClick={() => setDraft(s)} className="flex-1 text-left text-xs font-bold text-slate-700 hover:text-blue-600 truncate" title={s.description}>
+                {s.name}
+                <span className="ml-1 font-normal text-slate-400">({s.overrides.length}건)</span>
+              </button>
+              <button onClick={() => handleDelete(s.id)} className="text-[10px] text-slate-400 hover:text-rose-500">삭제</button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* 기준 vs 시나리오 비교 */}
+      {diffs.length > 0 && (
+        <div className="bg-white rounded-2xl border border-slate-200 overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead><tr className="bg-slate-50 border-b border-slate-200 text-slate-500">
+              <th className="px-3 py-2 text-left">항목</th>
+              <th className="px-3 py-2 text-right">기준</th>
+              {diffs.map(d => (
+                <th key={d.scenario.id} className="px-3 py-2 text-right">
+                  <button onClick={() => setFocusId(d.scenario.id)}
+                    className={`font-bold ${focus?.scenario.id === d.scenario.id ? 'text-blue-600' : 'hover:text-blue-600'}`}>
+                    {d.scenario.name}
+                  </button>
+                </th>
+              ))}
+            </tr></thead>
+            <tbody>
+              <tr className="border-b border-slate-50">
+                <td className="px-3 py-2 font-bold text-slate-600">재료비 합계</td>
+                <td className="px-3 py-2 text-right font-mono">{fmt(base.totalMaterial)}</td>
+                {diffs.map(d => (
+                  <td key={d.scenario.id} className="px-3 py-2 text-right font-mono">
+                    {fmt(d.summary.scenarioMaterial)}
+                    <span className={`ml-1 text-[10px] ${deltaClass(d.summary.deltaMaterial)}`}>({signedFmt(d.summary.deltaMaterial)})</span>
+                  </td>
+                ))}
+              </tr>
+              <tr className="border-b border-slate-50">
+                <td className="px-3 py-2 font-bold text-slate-600">재료비율</td>
+                <td className="px-3 py-2 text-right font-mono">{(base.materialRatio * 100).toFixed(2)}%</td>
+                {diffs.map(d => {
+                  const dp = (d.summary.scenarioRatio - d.summary.baseRatio) * 100;
+                  return (
+                    <td key={d.scenario.id} className="px-3 py-2 text-right font-mono">
+                      {(d.summary.scenarioRatio * 100).toFixed(2)}%
+                      <span className={`ml-1 text-[10px] ${deltaClass(dp * 100)}`}>({dp >= 0 ? '+' : ''}{dp.toFixed(2)}%p)</span>
+                    </td>
+                  );
+                })}
+              </tr>
+              {['RESIN', 'PAINT', '구매', '외주'].map(type => {
+                const baseAmt = base.byType.find(t => t.name === type)?.amount || 0;
+                return (
+                  <tr key={type} className="border-b border-slate-50">
+                    <td className="px-3 py-2 text-slate-500">{type}</td>
+                    <td className="px-3 py-2 text-right font-mono text-slate-500">{fmt(baseAmt)}</td>
+                    {diffs.map(d => {
+                      const amt = d.result.summary.byType.find(t => t.name === type)?.amount || 0;
+                      return (
+                        <td key={d.scenario.id} className="px-3 py-2 text-right font-mono text-slate-500">
+                          {fmt(amt)}<span className={`ml-1 text-[10px] ${deltaClass(amt - baseAmt)}`}>({signedFmt(amt - baseAmt)})</span>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+              <tr>
+                <td className="px-3 py-2 text-slate-500">영향 제품 / 자재</td>
+                <td className="px-3 py-2 text-right text-slate-400">-</td>
+                {diffs.map(d => (
+                  <td key={d.scenario.id} className="px-3 py-2 text-right text-slate-500">
+                    {d.summary.changedProducts}건 / {d.summary.changedMaterials}건
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* 선택 시나리오 상세 */}
+      {focus && (
+        <div className="bg-white rounded-2xl border border-slate-200 overflow-x-auto">
+          <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-200">
+            <span className="text-xs font-bold text-slate-600">{focus.scenario.name} 상세</span>
+            <div className="flex gap-1 ml-auto">
+              {(['product', 'material'] as const).map(v => (
+                <button key={v} onClick={() => setDetailView(v)}
+                  className={`px-2 py-1 rounded-lg text-[10px] font-bold ${detailView === v ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-400'}`}>
+                  {v === 'product' ? '제품별' : '자재별'}
+                </button>
+              ))}
+            </div>
+          </div>
+          {detailView === 'product' ? (
+            <table className="w-full text-xs">
+              <thead><tr className="bg-slate-50 border-b border-slate-200 text-slate-500">
+                <th className="px-3 py-2 text-left">품번</th>
+                <th className="px-3 py-2 text-left">품명</th>
+                <th className="px-3 py-2 text-left">거래선</th>
+                <th className="px-3 py-2 text-right">수량</th>
+                <th className="px-3 py-2 text-right">기준단가</th>
+                <th className="px-3 py-2 text-right">시나리오단가</th>
+                <th className="px-3 py-2 text-right">재료비 증감</th>
+                <th className="px-3 py-2 text-right">재료비율</th>
+              </tr></thead>
+              <tbody>
+                {focus.products.filter(p => Math.abs(p.deltaTotal) > 0.5).slice(0, 100).map(p => (
+                  <tr key={p.pn} className="border-b border-slate-50 hover:bg-slate-50">
+                    <td className="px-3 py-1.5 font-mono text-slate-800 whitespace-nowrap">{p.pn}</td>
+                    <td className="px-3 py-1.5 truncate max-w-[180px]" title={p.name}>{p.name}</td>
+                    <td className="px-3 py-1.5 text-slate-500">{p.customer}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{p.planQty.toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right font-mono text-slate-500">{Math.round(p.baseMaterialCost).toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right font-mono font-bold">{Math.round(p.scenarioMaterialCost).toLocaleString()}</td>
+                    <td className={`px-3 py-1.5 text-right font-mono font-bold ${deltaClass(p.deltaTotal)}`}>{signedFmt(p.deltaTotal)}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">
+                      {p.baseRatio > 0 ? `${p.baseRatio.toFixed(1)}% → ${p.scenarioRatio.toFixed(1)}%` : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <table className="w-full text-xs">
+              <thead><tr className="bg-slate-50 border-b border-slate-200 text-slate-500">
+                <th className="px-3 py-2 text-left">자재코드</th>
+                <th className="px-3 py-2 text-left">자재명</th>
+                <th className="px-3 py-2 text-center">유형</th>
+                <th className="px-3 py-2 text-left">구입처</th>
+                <th className="px-3 py-2 text-right">소요량</th>
+                <th className="px-3 py-2 text-right">기준단가</th>
+                <th className="px-3 py-2 text-right">시나리오단가</th>
+                <th className="px-3 py-2 text-right">금액 증감</th>
+              </tr></thead>
+              <tbody>
+                {focus.leafMaterials.filter(m => Math.abs(m.deltaCost) > 0.5).slice(0, 100).map(m => (
+                  <tr key={m.materialCode} className="border-b border-slate-50 hover:bg-slate-50">
+                    <td className="px-3 py-1.5 font-mono text-slate-800">{m.materialCode}</td>
+                    <td className="px-3 py-1.5 truncate max-w-[200px]" title={m.materialName}>{m.materialName}</td>
+                    <td className="px-3 py-1.5 text-center">
+                      <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${typeBadgeClass(m.materialType)}`}>{m.materialType}</span>
+                    </td>
+                    <td className="px-3 py-1.5 text-slate-500 truncate max-w-[120px]">{m.supplier || '-'}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{Math.round(m.totalQty).toLocaleString()} {m.unit}</td>
+                    <td className="px-3 py-1.5 text-right font-mono text-slate-500">{Math.round(m.baseUnitPrice).toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right font-mono font-bold">{Math.round(m.scenarioUnitPrice).toLocaleString()}</td>
+                    <td className={`px-3 py-1.5 text-right font-mono font-bold ${deltaClass(m.deltaCost)}`}>{signedFmt(m.deltaCost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ============================================================
+// VariancePanel — 표준 vs 실적 재료비 차이 (가격/배합/수율)
+// ============================================================
+type VarianceView = 'material' | 'supplier';
+
+const VARIANCE_PAGE_SIZE = 50;
+
+const VariancePanel: React.FC<{ data: CostAnalysisData }> = ({ data }) => {
+  const { costResult, selectedMonth, setSelectedMonth, purchaseData } = data;
+  const years = useMemo(
+    () => Array.from(new Set<number>(purchaseData.map(p => p.year).filter(Boolean))).sort((a, b) => b - a),
+    [purchaseData],
+  );
+  const [year, setYear] = useState<number>(() => years[0] || new Date().getFullYear());
+  const [view, setView] = useState<VarianceView>('material');
+  const [typeFilter, setTypeFilter] = useState('전체');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [page, setPage] = useState(0);
+
+  useEffect(() => {
+    if (years.length > 0 && !years.includes(year)) setYear(years[0]);
+  }, [years, year]);
+
+  const result = useMemo(() => {
+    if (!costResult) return null;
+    return analyzeCostVariance({ leafMaterials: costResult.leafMaterials, purchaseData, year, month: selectedMonth });
+  }, [costResult, purchaseData, year, selectedMonth]);
+
+  const materialRows = useMemo(() => {
+    if (!result) return [];
+    return typeFilter === '전체' ? result.materials : result.materials.filter(m => m.materialType === typeFilter);
+  }, [result, typeFilter]);
+
+  const chartData = useMemo(() => (result?.byType || []).map(t => ({
+    name: t.materialType, 가격: Math.round(t.priceVariance), 배합: Math.round(t.mixVariance), 수율: Math.round(t.yieldVariance),
+  })), [result]);
+
+  if (!costResult || costResult.leafMaterials.length === 0) {
+    return <EmptyState message="BOM 전개 데이터가 필요합니다." />;
+  }
+  if (!result || purchaseData.length === 0) {
+    return <EmptyState message="입고실적 데이터가 필요합니다. 구매현황에서 업로드해주세요." />;
+  }
+
+  const { totals } = result;
+  const rows = view === 'material' ? materialRows : result.suppliers;
+  const pageRows = rows.slice(page * VARIANCE_PAGE_SIZE, (page + 1) * VARIANCE_PAGE_SIZE);
+  const varianceCell = (n: number, bold = false) => (
+    <td className={`px-3 py-1.5 text-right font-mono ${bold ? 'font-bold' : ''} ${deltaClass(n)}`}>{signedFmt(n)}</td>
+  );
+
+  const renderLines = (lines: VarianceInboundLine[], showMaterial: boolean) => (
+    <tr>
+      <td colSpan={10} className="bg-slate-50 px-6 py-3">
+        {lines.length === 0 ? (
+          <div className="text-xs text-slate-400">기간 내 입고 실적이 없습니다.</div>
+        ) : (
+          <table className="w-full text-[11px]">
+            <thead><tr className="text-slate-400 border-b border-slate-200">
+              <th className="py-1 pr-2 text-left">입고일</th>
+              <th className="py-1 pr-2 text-left">{showMaterial ? '품목' : '업체'}</th>
+              <th className="py-1 pr-2 text-right">수량</th>
+              <th className="py-1 pr-2 text-right">입고단가</th>
+              <th className="py-1 pr-2 text-right">금액</th>
+              <th className="py-1 pr-2 text-right">가격차이</th>
+            </tr></thead>
+            <tbody>
+              {lines.map((l, i) => (
+                <tr key={i} className="border-b border-slate-100">
+                  <td className="py-1 pr-2 font-mono text-slate-500">{l.date}</td>
+                  <td className="py-1 pr-2 text-slate-600">
+                    {showMaterial ? <><span className="font-mono">{l.itemCode}</span> {l.itemName}</> : (l.supplier || '-')}
+                  </td>
+                  <td className="py-1 pr-2 text-right font-mono">{Math.round(l.qty).toLocaleString()} {l.unit}</td>
+                  <td className="py-1 pr-2 text-right font-mono">{Math.round(l.unitPrice).toLocaleString()}</td>
+                  <td className="py-1 pr-2 text-right font-mono">{Math.round(l.amount).toLocaleString()}</td>
+                  <td className={`py-1 pr-2 text-right font-mono ${deltaClass(l.priceVariance)}`}>{signedFmt(l.priceVariance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 flex-wrap">
+        <select value={year} onChange={e => { setYear(Number(e.target.value)); setPage(0); }}
+          className="px-2 py-1 border border-slate-200 rounded-lg text-xs font-bold text-slate-600 outline-none">
+          {(years.length > 0 ? years : [year]).map(y => <option key={y} value={y}>{y}년</option>)}
+        </select>
+        <MonthSelector selectedMonth={selectedMonth} setSelectedMonth={m => { setSelectedMonth(m); setPage(0); }} />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <KPICard label="표준재료비 (BOM×계획)" value={fmt(totals.stdCost)} />
+        <KPICard label="실적재료비 (입고)" value={fmt(totals.actualCost)} sub={`차이 ${signedFmt(totals.totalVariance)}`} />
+        <KPICard label="가격차이" value={signedFmt(totals.priceVariance)} sub="(실적단가−표준단가)×실적량" />
+        <KPICard label="배합차이" value={signedFmt(totals.mixVariance)} sub="동일 유형 내 구성비 변화" />
+        <KPICard label="수율차이" value={signedFmt(totals.yieldVariance)}
+          sub={result.unplannedCount > 0 ? `비계획 입고 ${result.unplannedCount}종 포함` : '총량 초과/부족'} />
+      </div>
+
+      <div className="bg-white rounded-2xl border border-slate-200 p-4">
+        <h3 className="text-xs font-bold text-slate-600 mb-2">유형별 차이 분해</h3>
+        <ResponsiveContainer width="100%" height={200}>
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+            <XAxis dataKey="name" tick={{ fontSize: 11, fontWeight: 'bold' }} />
+            <YAxis tick={{ fontSize: 10 }} tickFormatter={(v: number) => fmt(v)} />
+            <Tooltip formatter={(v: number) => `₩${Math.round(v as number).toLocaleString()}`} />
+            <Bar dataKey="가격" fill="#2563eb" radius={[4, 4, 0, 0]} />
+            <Bar dataKey="배합" fill="#94a3b8" radius={[4, 4, 0, 0]} />
+            <Bar dataKey="수율" fill="#334155" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="flex items-center gap-2 flex-wrap">
+        {([['material', '자재별'], ['supplier', '업체별']] as const).map(([id, label]) => (
+          <button key={id} onClick={() => { setView(id); setExpanded(null); setPage(0); }}
+            className={`px-3 py-1.5 rounded-lg text-xs font-bold ${view === id ? 'bg-slate-700 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>
+            {label}
+          </button>
+        ))}
+        {view === 'material' && (
+          <div className="flex gap-1 ml-2">
+            {['전체', ...result.byType.map(t => t.materialType)].map(t => (
+              <button key={t} onClick={() => { setTypeFilter(t); setPage(0); }}
+                className={`px-2 py-1 rounded text-[10px] font-bold ${typeFilter === t ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-400 hover:bg-slate-200'}`}>
+                {t}
+              </button>
+            ))}
+          </div>
+        )}
+        <span className="ml-auto text-[10px] text-slate-400">행을 클릭하면 입고 라인을 볼 수 있습니다.</span>
+      </div>
+
+      <div className="bg-white rounded-2xl border border-slate-200 overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead><tr className="bg-slate-50 border-b border-slate-200 text-slate-500">
+            {view === 'material' ? (
+              <>
+                <th className="px-3 py-2 text-left">자재코드</th>
+                <th className="px-3 py-2 text-left">자재명</th>
+                <th className="px-3 py-2 text-right">표준량 / 실적량</th>
+                <th className="px-3 py-2 text-right">표준단가 / 실적단가</th>
+              </>
+            ) : (
+              <>
+                <th className="px-3 py-2 text-left">업체</th>
+                <th className="px-3 py-2 text-right">자재수</th>
+                <th className="px-3 py-2 text-right">입고수량</th>
+                <th className="px-3 py-2 text-right">입고라인</th>
+              </>
+            )}
+            <th className="px-3 py-2 text-right">표준재료비</th>
+            <th className="px-3 py-2 text-right">실적재료비</th>
+            <th className="px-3 py-2 text-right">가격차이</th>
+            <th className="px-3 py-2 text-right">배합차이</th>
+            <th className="px-3 py-2 text-right">수율차이</th>
+            <th className="px-3 py-2 text-right">총차이</th>
+          </tr></thead>
+          <tbody>
+            {view === 'material'
+              ? (pageRows as MaterialVarianceRow[]).map(m => (
+                <React.Fragment key={m.materialCode}>
+                  <tr onClick={() => setExpanded(expanded === m.materialCode ? null : m.materialCode)}
+                    className={`border-b border-slate-50 cursor-pointer hover:bg-slate-50 ${expanded === m.materialCode ? 'bg-slate-50' : ''}`}>
+                    <td className="px-3 py-1.5 font-mono text-slate-800">
+                      {m.materialCode}
+                      {!m.hasStandard && <span className="ml-1 px-1 rounded bg-rose-50 text-rose-500 text-[9px] font-bold">비계획</span>}
+                    </td>
+                    <td className="px-3 py-1.5 truncate max-w-[180px]" title={m.materialName}>
+                      <span className={`mr-1 px-1.5 py-0.5 rounded text-[10px] font-bold ${typeBadgeClass(m.materialType)}`}>{m.materialType}</span>
+                      {m.materialName}
+                    </td>
+                    <td className="px-3 py-1.5 text-right font-mono">{Math.round(m.stdQty).toLocaleString()} / {Math.round(m.actualQty).toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{Math.round(m.stdPrice).toLocaleString()} / {m.actualQty ? Math.round(m.actualPrice).toLocaleString() : '-'}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{fmt(m.stdCost)}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{fmt(m.actualCost)}</td>
+                    {varianceCell(m.priceVariance)}
+                    {varianceCell(m.mixVariance)}
+                    {varianceCell(m.yieldVariance)}
+                    {varianceCell(m.totalVariance, true)}
+                  </tr>
+                  {expanded === m.materialCode && renderLines(m.lines, false)}
+                </React.Fragment>
+              ))
+              : (pageRows as SupplierVarianceRow[]).map(s => (
+                <React.Fragment key={s.supplier}>
+                  <tr onClick={() => setExpanded(expanded === s.supplier ? null : s.supplier)}
+                    className={`border-b border-slate-50 cursor-pointer hover:bg-slate-50 ${expanded === s.supplier ? 'bg-slate-50' : ''}`}>
+                    <td className="px-3 py-1.5 font-bold text-slate-700">{s.supplier}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{s.materialCount}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{Math.round(s.actualQty).toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{s.lines.length}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{fmt(s.stdCost)}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{fmt(s.actualCost)}</td>
+                    {varianceCell(s.priceVariance)}
+                    {varianceCell(s.mixVariance)}
+                    {varianceCell(s.yieldVariance)}
+                    {varianceCell(s.totalVariance, true)}
+                  </tr>
+                  {expanded === s.supplier && renderLines([...s.lines].sort((a, b) => a.date.localeCompare(b.date)), true)}
+                </React.Fragment>
+              ))}
+          </tbody>
+          <tfoot><tr className="bg-slate-50 border-t border-slate-200 font-bold">
+            <td className="px-3 py-2" colSpan={4}>합계</td>
+            <td className="px-3 py-2 text-right font-mono">{fmt(totals.stdCost)}</td>
+            <td className="px-3 py-2 text-right font-mono">{fmt(totals.actualCost)}</td>
+            {varianceCell(totals.priceVariance, true)}
+            {varianceCell(totals.mixVariance, true)}
+            {varianceCell(totals.yieldVariance, true)}
+            {varianceCell(totals.totalVariance, true)}
+          </tr></tfoot>
+        </table>
+        <Pagination page={page} setPage={setPage} total={rows.length} pageSize={VARIANCE_PAGE_SIZE} />
+      </div>
     </div>
   );
 };
@@ -1146,7 +2079,9 @@ const CostAnalysisView: React.FC = () => {
             {mode === 'standard' && <StandardCostPanel data={data} />}
             {mode === 'product' && <ProductCostPanel data={data} />}
             {mode === 'yield' && <YieldPanel data={data} />}
+            {mode === 'variance' && <VariancePanel data={data} />}
             {mode === 'mrp' && <MRPPanel data={data} />}
+            {mode === 'scenario' && <ScenarioPanel data={data} />}
           </>
         )}
       </div>
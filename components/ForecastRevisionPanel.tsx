@@ -0,0 +1,268 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  Cell,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  LabelList,
+} from 'recharts';
+import {
+  ForecastRevision,
+  RevisionLevel,
+  BridgeCause,
+  BRIDGE_CAUSE_LABEL,
+  buildRevisionBridge,
+  toWaterfallSteps,
+} from '../utils/forecastRevision';
+import { downloadCSV } from '../utils/csvExport';
+
+// ============================================
+// Types
+// ============================================
+
+interface ForecastRevisionPanelProps {
+  revisions: ForecastRevision[];     // 최신순
+  onClose: () => void;
+}
+
+const LEVEL_TABS: { id: RevisionLevel; label: string }[] = [
+  { id: 'customer', label: '고객사' },
+  { id: 'model', label: '차종' },
+  { id: 'part', label: '품번' },
+];
+
+const CAUSES: BridgeCause[] = ['new', 'dropped', 'qty', 'price'];
+
+const STEP_COLOR = { total: '#334155', up: '#10b981', down: '#f43f5e' };
+
+const formatBillion = (v: number) => {
+  if (Math.abs(v) >= 1e8) return `${(v / 1e8).toFixed(1)}억`;
+  if (Math.abs(v) >= 1e4) return `${(v / 1e4).toFixed(0)}만`;
+  return Math.round(v).toLocaleString();
+};
+
+const signed = (v: number) => (v > 0 ? '+' : v < 0 ? '-' : '') + formatBillion(Math.abs(v));
+
+const revisionLabel = (r: ForecastRevision) =>
+  `${r.upload.revision || '개정'} | ${r.upload.reportDate || r.upload.fileName}`;
+
+const uploadDay = (r: ForecastRevision) =>
+  r.upload.uploadDate ? new Date(r.upload.uploadDate).toLocaleDateString('ko-KR') : '-';
+
+// ============================================
+// Component
+// ============================================
+
+const ForecastRevisionPanel: React.FC<ForecastRevisionPanelProps> = ({ revisions, onClose }) => {
+  const [baseId, setBaseId] = useState('');
+  const [targetId, setTargetId] = useState('');
+  const [level, setLevel] = useState<RevisionLevel>('customer');
+  const [showAll, setShowAll] = useState(false);
+
+  // 기본: 직전 개정 → 최신 개정
+  useEffect(() => {
+    setTargetId(revisions[0]?.upload.id || '');
+    setBaseId(revisions[1]?.upload.id || revisions[0]?.upload.id || '');
+  }, [revisions]);
+
+  const base = revisions.find(r => r.upload.id === baseId);
+  const target = revisions.find(r => r.upload.id === targetId);
+
+  const bridge = useMemo(
+    () => (base && target ? buildRevisionBridge(base.items, target.items, level) : null),
+    [base, target, level],
+  );
+  const steps = useMemo(
+    () => (bridge && base && target ? toWaterfallSteps(bridge, base.upload.revision || '기준', target.upload.revision || '비교') : []),
+    [bridge, base, target],
+  );
+  const rows = bridge ? (showAll ? bridge.rows : bridge.rows.filter(r => Math.abs(r.totalDiff) >= 1)) : [];
+
+  const handleDownload = () => {
+    if (!bridge || !base || !target) return;
+    const headers = ['고객사', '차종', 'P.N', '부품명', '기준 수량', '비교 수량', '기준 매출', '비교 매출',
+      ...CAUSES.map(c => BRIDGE_CAUSE_LABEL[c]), '매출 증감'];
+    const data = bridge.rows.map(r => [
+      r.customer, r.model, r.partNo, r.partName,
+      Math.round(r.baseQty), Math.round(r.targetQty), Math.round(r.baseRevenue), Math.round(r.targetRevenue),
+      ...CAUSES.map(c => Math.round(r.effects[c])), Math.round(r.totalDiff),
+    ]);
+    downloadCSV(`매출계획_개정비교_${base.upload.revision}_vs_${target.upload.revision}`, headers, data);
+  };
+
+  const revisionOptions = revisions.map(r => (
+    <option key={r.upload.id} value={r.upload.id}>{revisionLabel(r)} ({uploadDay(r)})</option>
+  ));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-7xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <h2 className="text-lg font-bold text-slate-800">매출계획 개정 비교</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-xl font-bold px-2">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-hidden flex">
+          {/* Left: 개정본 목록 */}
+          <div className="w-72 border-r border-slate-200 flex flex-col">
+            <div className="px-4 py-3 border-b border-slate-100 text-xs font-bold text-slate-600">
+              보관된 개정본 {revisions.length}건
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {revisions.length === 0 ? (
+                <div className="p-6 text-center text-xs text-slate-400">보관된 개정본이 없습니다.</div>
+              ) : revisions.map(r => {
+                const role = r.upload.id === targetId ? '비교' : r.upload.id === baseId ? '기준' : '';
+                return (
+                  <div key={r.upload.id} className={`px-4 py-2 border-b border-slate-50 text-xs ${role ? 'bg-blue-50/50' : ''}`}>
+                    <div className="flex items-center justify-between">
+                      <span className="font-bold text-slate-700 truncate" title={revisionLabel(r)}>{revisionLabel(r)}</span>
+                      {role && <span className="ml-1 px-1.5 py-0.5 rounded bg-blue-100 text-blue-700 text-[10px] font-bold">{role}</span>}
+                    </div>
+                    <div className="flex items-center justify-between text-[10px] text-slate-400">
+                      <span>{uploadDay(r)} · {r.items.length}품목</span>
+                      <span className="font-mono text-slate-600">{formatBillion(r.upload.totalRevenue)}</span>
+                    </div>
+                    <div className="mt-1 flex gap-1">
+                      <button onClick={() => setBaseId(r.upload.id)} className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-500 text-[10px] hover:bg-slate-200">기준</button>
+                      <button onClick={() => setTargetId(r.upload.id)} className="px-1.5 py-0.5 rounded bg-slate-100 text-slate-500 text-[10px] hover:bg-slate-200">비교</button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Right: 워터폴 + 상세 */}
+          <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-slate-100">
+              <select value={baseId} onChange={e => setBaseId(e.target.value)}
+                className="px-2 py-1.5 border border-slate-200 rounded-lg text-xs outline-none max-w-[260px]">{revisionOptions}</select>
+              <span className="text-xs text-slate-400">→</span>
+              <select value={targetId} onChange={e => setTargetId(e.target.value)}
+                className="px-2 py-1.5 border border-slate-200 rounded-lg text-xs outline-none max-w-[260px]">{revisionOptions}</select>
+              <div className="flex bg-slate-100 rounded-lg p-0.5 ml-2">
+                {LEVEL_TABS.map(t => (
+                  <button key={t.id} onClick={() => setLevel(t.id)}
+                    className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${level === t.id ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>
+                    {t.label}
+                  </button>
+                ))}
+              </div>
+              <button onClick={handleDownload} disabled={!bridge}
+                className="ml-auto px-3 py-1.5 rounded-lg text-xs font-bold text-slate-500 hover:text-green-600 hover:bg-green-50 disabled:opacity-40">
+                CSV 다운로드
+              </button>
+            </div>
+
+            {!bridge ? (
+              <div className="flex-1 flex items-center justify-center text-sm text-slate-400">
+                비교할 개정본을 2개 이상 업로드하세요.
+              </div>
+            ) : (
+              <div className="flex-1 overflow-auto p-4 space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+                  <div className="rounded-xl border border-slate-100 bg-slate-50 p-3">
+                    <div className="text-[10px] font-bold text-slate-500">기준 매출</div>
+                    <div className="text-sm font-bold text-slate-800">{formatBillion(bridge.baseRevenue)}</div>
+                  </div>
+                  {CAUSES.map(c => (
+                    <div key={c} className="rounded-xl border border-slate-100 bg-slate-50 p-3">
+                      <div className="text-[10px] font-bold text-slate-500">{BRIDGE_CAUSE_LABEL[c]}</div>
+                      <div className={`text-sm font-bold ${bridge.effects[c] > 0 ? 'text-emerald-600' : bridge.effects[c] < 0 ? 'text-rose-500' : 'text-slate-400'}`}>
+                        {signed(bridge.effects[c])}
+                      </div>
+                    </div>
+                  ))}
+                  <div className="rounded-xl border border-slate-100 bg-slate-50 p-3">
+                    <div className="text-[10px] font-bold text-slate-500">비교 매출</div>
+                    <div className="text-sm font-bold text-slate-800">{formatBillion(bridge.targetRevenue)}</div>
+                    <div className="text-[10px] text-slate-400">{signed(bridge.targetRevenue - bridge.baseRevenue)}</div>
+                  </div>
+                </div>
+
+                <div className="border border-slate-200 rounded-2xl p-4">
+                  <h3 className="text-xs font-bold text-slate-600 mb-2">매출 증감 워터폴</h3>
+                  <ResponsiveContainer width="100%" height={260}>
+                    <BarChart data={steps}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" vertical={false} />
+                      <XAxis dataKey="name" tick={{ fontSize: 11, fontWeight: 'bold' }} />
+                      <YAxis tick={{ fontSize: 10 }} tickFormatter={(v: number) => formatBillion(v)} />
+                      <Tooltip
+                        formatter={(_: number, key: string, item: any) =>
+                          key === 'offset' ? null : [item.payload.kind === 'total' ? formatBillion(item.payload.delta) : signed(item.payload.delta), '매출']}
+                      />
+                      <Bar dataKey="offset" stackId="w" fill="transparent" />
+                      <Bar dataKey="value" stackId="w" radius={[4, 4, 0, 0]}>
+                        {steps.map((s, i) => <Cell key={i} fill={STEP_COLOR[s.kind]} />)}
+                        <LabelList dataKey="delta" position="top"
+                          formatter={(v: number) => formatBillion(v)} style={{ fontSize: 10, fill: '#475569', fontWeight: 'bold' }} />
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+
+                <div className="border border-slate-200 rounded-2xl overflow-hidden">
+                  <div className="flex items-center justify-between px-4 py-2 bg-slate-50 border-b border-slate-200">
+                    <span className="text-xs font-bold text-slate-600">{LEVEL_TABS.find(t => t.id === level)?.label}별 증감 ({rows.length}건)</span>
+                    <label className="flex items-center gap-1 text-[10px] text-slate-500">
+                      <input type="checkbox" checked={showAll} onChange={e => setShowAll(e.target.checked)} className="w-3 h-3" />
+                      변동 없음 포함
+                    </label>
+                  </div>
+                  <table className="w-full text-xs">
+                    <thead className="bg-white text-slate-500 border-b border-slate-200">
+                      <tr>
+                        <th className="px-3 py-2 text-left">고객사</th>
+                        {level !== 'customer' && <th className="px-3 py-2 text-left">차종</th>}
+                        {level === 'part' && <th className="px-3 py-2 text-left">P.N / 부품명</th>}
+                        <th className="px-3 py-2 text-right">기준 매출</th>
+                        <th className="px-3 py-2 text-right">비교 매출</th>
+                        {CAUSES.map(c => <th key={c} className="px-3 py-2 text-right">{BRIDGE_CAUSE_LABEL[c]}</th>)}
+                        <th className="px-3 py-2 text-right">증감</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-50">
+                      {rows.slice(0, 300).map(r => (
+                        <tr key={r.key} className="hover:bg-slate-50">
+                          <td className="px-3 py-1.5 font-bold text-slate-700">{r.customer}</td>
+                          {level !== 'customer' && <td className="px-3 py-1.5 text-slate-600">{r.model}</td>}
+                          {level === 'part' && (
+                            <td className="px-3 py-1.5">
+                              <span className="font-mono text-slate-700">{r.partNo}</span>
+                              <span className="ml-1 text-[10px] text-slate-400">{r.partName}</span>
+                            </td>
+                          )}
+                          <td className="px-3 py-1.5 text-right font-mono">{formatBillion(r.baseRevenue)}</td>
+                          <td className="px-3 py-1.5 text-right font-mono">{formatBillion(r.targetRevenue)}</td>
+                          {CAUSES.map(c => (
+                            <td key={c} className={`px-3 py-1.5 text-right font-mono ${r.effects[c] > 0 ? 'text-emerald-600' : r.effects[c] < 0 ? 'text-rose-500' : 'text-slate-300'}`}>
+                              {r.effects[c] ? signed(r.effects[c]) : '-'}
+                            </td>
+                          ))}
+                          <td className={`px-3 py-1.5 text-right font-mono font-bold ${r.totalDiff > 0 ? 'text-emerald-600' : r.totalDiff < 0 ? 'text-rose-500' : 'text-slate-400'}`}>
+                            {signed(r.totalDiff)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {rows.length > 300 && (
+                    <div className="px-3 py-2 text-xs text-slate-400 bg-slate-50">{rows.length - 300}건 더 있음 (CSV로 전체 확인)</div>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ForecastRevisionPanel;
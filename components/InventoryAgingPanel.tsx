@@ -0,0 +1,330 @@
+import React, { useState, useMemo } from 'react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { useCostAnalysis } from '../hooks/useCostAnalysis';
+import {
+  AGING_BUCKETS,
+  AGING_BUCKET_LABEL,
+  STOCK_CLASS_LABEL,
+  AgingStockItem,
+  StockClass,
+  StockKind,
+  buildInventoryAging,
+} from '../utils/inventoryAging';
+import { downloadCSV } from '../utils/csvExport';
+
+// ============================================
+// Types & Helpers
+// ============================================
+
+interface InventoryAgingPanelProps {
+  items: AgingStockItem[];
+}
+
+const KIND_LABEL: Record<StockKind, string> = { resin: 'Resin', paint: '도료', parts: '부품' };
+
+const BUCKET_COLOR: Record<string, string> = {
+  d0_30: '#10b981',
+  d31_90: '#3b82f6',
+  d91_180: '#f59e0b',
+  d180p: '#ef4444',
+};
+
+const CLASS_BADGE: Record<StockClass, string> = {
+  normal: 'bg-slate-100 text-slate-500',
+  slow: 'bg-amber-100 text-amber-700',
+  dead: 'bg-rose-100 text-rose-700',
+};
+
+const fmtAmount = (v: number) => {
+  if (Math.abs(v) >= 1e8) return `${(v / 1e8).toFixed(1)}억`;
+  if (Math.abs(v) >= 1e4) return `${Math.round(v / 1e4).toLocaleString()}만`;
+  return Math.round(v).toLocaleString();
+};
+
+const fmtQty = (v: number) => (Math.abs(v) >= 100 ? Math.round(v).toLocaleString() : v.toLocaleString(undefined, { maximumFractionDigits: 1 }));
+
+const PAGE_SIZE = 50;
+
+// ============================================
+// Component
+// ============================================
+
+const InventoryAgingPanel: React.FC<InventoryAgingPanelProps> = ({ items }) => {
+  const { loading, costResult, purchaseData } = useCostAnalysis();
+  const [kindFilter, setKindFilter] = useState<StockKind | 'all'>('all');
+  const [classFilter, setClassFilter] = useState<StockClass | 'all'>('all');
+  const [locationFilter, setLocationFilter] = useState('');
+  const [search, setSearch] = useState('');
+  const [showAll, setShowAll] = useState(false);
+
+  const aging = useMemo(() => {
+    const consumption = costResult ? [...costResult.mrpMaterials, ...costResult.leafMaterials] : [];
+    return buildInventoryAging(items, purchaseData, consumption);
+  }, [items, purchaseData, costResult]);
+
+  const hasUsageData = aging.rows.some(r => r.hasConsumption !== null);
+
+  const filteredRows = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return aging.rows.filter(r =>
+      (kindFilter === 'all' || r.kind === kindFilter) &&
+      (classFilter === 'all' || r.stockClass === classFilter) &&
+      (!locationFilter || r.location === locationFilter) &&
+      (!q || r.code.toLowerCase().includes(q) || r.name.toLowerCase().includes(q)),
+    );
+  }, [aging.rows, kindFilter, classFilter, locationFilter, search]);
+
+  const visibleRows = showAll ? filteredRows : filteredRows.slice(0, PAGE_SIZE);
+
+  const chartData = useMemo(
+    () => aging.byLocation.map(l => ({
+      location: l.location,
+      ...Object.fromEntries(AGING_BUCKETS.map(b => [b, Math.round(l.bucketValue[b])])),
+    })),
+    [aging.byLocation],
+  );
+
+  const handleDownload = () => {
+    const headers = [
+      '구분', '품목코드', '품목명', '창고', '단위', '현재고', '단가', '재고금액',
+      ...AGING_BUCKETS.map(b => `${AGING_BUCKET_LABEL[b]} 수량`),
+      '이력외 수량', '평균 재고일수', '최근 입고일', '연간 소요량', '분류',
+    ];
+    const rows = filteredRows.map(r => [
+      KIND_LABEL[r.kind], r.code, r.name, r.location, r.unit, r.qty, r.unitPrice, Math.round(r.value),
+      ...AGING_BUCKETS.map(b => Math.round(r.bucketQty[b] * 10) / 10),
+      Math.round(r.untracedQty * 10) / 10,
+      r.avgAgeDays !== null ? Math.round(r.avgAgeDays) : '',
+      r.lastReceiptDate,
+      r.hasConsumption === null ? '' : Math.round(r.annualConsumption),
+      STOCK_CLASS_LABEL[r.stockClass],
+    ]);
+    downloadCSV(`재고에이징_${new Date().toISOString().slice(0, 10)}`, headers, rows);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="bg-white p-10 rounded-3xl border border-slate-200 shadow-sm text-center text-sm text-slate-400">
+        등록된 재고 데이터가 없습니다. Resin / 도료 / 부품 재고를 먼저 업로드하세요.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Metrics */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="p-5 rounded-3xl bg-white border border-slate-200 shadow-sm">
+          <span className="text-xs font-bold text-slate-400">총 재고금액</span>
+          <h3 className="text-lg font-bold text-slate-800 mt-1">{fmtAmount(aging.totals.value)}원</h3>
+          {aging.totals.unpricedCount > 0 && (
+            <p className="text-[11px] text-slate-400 mt-1">단가 미확인 {aging.totals.unpricedCount}건 제외</p>
+          )}
+        </div>
+        <div className="p-5 rounded-3xl bg-white border border-slate-200 shadow-sm">
+          <span className="text-xs font-bold text-slate-400">180일 초과 재고</span>
+          <h3 className="text-lg font-bold text-rose-600 mt-1">{fmtAmount(aging.totals.bucketValue.d180p)}원</h3>
+          <p className="text-[11px] text-slate-400 mt-1">
+            {aging.totals.value > 0 ? ((aging.totals.bucketValue.d180p / aging.totals.value) * 100).toFixed(1) : '0.0'}% of 총액
+          </p>
+        </div>
+        <div className="p-5 rounded-3xl bg-white border border-slate-200 shadow-sm">
+          <span className="text-xs font-bold text-slate-400">장기 재고</span>
+          <h3 className="text-lg font-bold text-amber-600 mt-1">{fmtAmount(aging.totals.slowValue)}원</h3>
+          <p className="text-[11px] text-slate-400 mt-1">{aging.totals.slowCount.toLocaleString()}건</p>
+        </div>
+        <div className="p-5 rounded-3xl bg-white border border-slate-200 shadow-sm">
+          <span className="text-xs font-bold text-slate-400">불용 재고</span>
+          <h3 className="text-lg font-bold text-rose-600 mt-1">{fmtAmount(aging.totals.deadValue)}원</h3>
+          <p className="text-[11px] text-slate-400 mt-1">{aging.totals.deadCount.toLocaleString()}건</p>
+        </div>
+      </div>
+
+      {!hasUsageData && (
+        <div className="px-4 py-3 rounded-2xl bg-amber-50 border border-amber-200 text-xs text-amber-700">
+          Forecast 기반 소요량 데이터가 없어 소요 여부를 판단하지 못했습니다. 재고일수(90일 초과 비중)로만 장기 재고를 분류합니다.
+        </div>
+      )}
+
+      {/* By Location */}
+      <div className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm">
+        <h3 className="font-bold text-slate-800 flex items-center gap-2 mb-4">
+          <span className="w-1.5 h-1.5 rounded-full bg-amber-500" />
+          창고별 재고 에이징
+        </h3>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} layout="vertical" margin={{ left: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#e2e8f0" />
+                <XAxis type="number" tickFormatter={fmtAmount} tick={{ fontSize: 11 }} />
+                <YAxis type="category" dataKey="location" width={90} tick={{ fontSize: 11 }} />
+                <Tooltip formatter={(v: number) => `${Math.round(v).toLocaleString()}원`} />
+                <Legend wrapperStyle={{ fontSize: 11 }} />
+                {AGING_BUCKETS.map(b => (
+                  <Bar key={b} dataKey={b} name={AGING_BUCKET_LABEL[b]} stackId="age" fill={BUCKET_COLOR[b]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 text-left">창고</th>
+                  <th className="px-3 py-2 text-right">품목</th>
+                  <th className="px-3 py-2 text-right">재고금액</th>
+                  <th className="px-3 py-2 text-right">장기</th>
+                  <th className="px-3 py-2 text-right">불용</th>
+                  <th className="px-3 py-2 text-right">비중</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {aging.byLocation.map(l => (
+                  <tr
+                    key={l.location}
+                    onClick={() => setLocationFilter(prev => (prev === l.location ? '' : l.location))}
+                    className={`cursor-pointer hover:bg-slate-50 ${locationFilter === l.location ? 'bg-blue-50' : ''}`}
+                  >
+                    <td className="px-3 py-2 font-medium text-slate-700">{l.location}</td>
+                    <td className="px-3 py-2 text-right font-mono">{l.itemCount.toLocaleString()}</td>
+                    <td className="px-3 py-2 text-right font-mono">{fmtAmount(l.value)}</td>
+                    <td className="px-3 py-2 text-right font-mono text-amber-600">{fmtAmount(l.slowValue)}</td>
+                    <td className="px-3 py-2 text-right font-mono text-rose-600">{fmtAmount(l.deadValue)}</td>
+                    <td className="px-3 py-2 text-right font-mono text-slate-500">
+                      {l.value > 0 ? (((l.slowValue + l.deadValue) / l.value) * 100).toFixed(1) : '0.0'}%
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+
+      {/* Item Aging */}
+      <div className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <span className="w-1.5 h-1.5 rounded-full bg-rose-500" />
+            품목별 에이징 (FIFO)
+            <span className="text-xs font-normal text-slate-400">{filteredRows.length.toLocaleString()}건</span>
+          </h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={kindFilter}
+              onChange={e => setKindFilter(e.target.value as StockKind | 'all')}
+              className="px-2 py-1.5 text-xs border border-slate-200 rounded-lg"
+            >
+              <option value="all">전체 구분</option>
+              {(Object.keys(KIND_LABEL) as StockKind[]).map(k => <option key={k} value={k}>{KIND_LABEL[k]}</option>)}
+            </select>
+            <select
+              value={classFilter}
+              onChange={e => setClassFilter(e.target.value as StockClass | 'all')}
+              className="px-2 py-1.5 text-xs border border-slate-200 rounded-lg"
+            >
+              <option value="all">전체 분류</option>
+              {(Object.keys(STOCK_CLASS_LABEL) as StockClass[]).map(c => <option key={c} value={c}>{STOCK_CLASS_LABEL[c]}</option>)}
+            </select>
+            {locationFilter && (
+              <button
+                onClick={() => setLocationFilter('')}
+                className="px-2 py-1.5 text-xs rounded-lg bg-blue-50 text-blue-600 font-bold"
+              >
+                {locationFilter} ✕
+              </button>
+            )}
+            <input
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="품목코드/품목명"
+              className="px-2 py-1.5 text-xs border border-slate-200 rounded-lg w-40"
+            />
+            <button
+              onClick={handleDownload}
+              className="px-3 py-1.5 text-xs font-bold rounded-lg bg-slate-800 text-white hover:bg-slate-700"
+            >
+              CSV
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="px-3 py-2 text-left">구분</th>
+                <th className="px-3 py-2 text-left">품목코드</th>
+                <th className="px-3 py-2 text-left">품목명</th>
+                <th className="px-3 py-2 text-left">창고</th>
+                <th className="px-3 py-2 text-right">현재고</th>
+                {AGING_BUCKETS.map(b => <th key={b} className="px-3 py-2 text-right">{AGING_BUCKET_LABEL[b]}</th>)}
+                <th className="px-3 py-2 text-right">재고금액</th>
+                <th className="px-3 py-2 text-right">평균일수</th>
+                <th className="px-3 py-2 text-center">최근 입고</th>
+                <th className="px-3 py-2 text-right">연간 소요</th>
+                <th className="px-3 py-2 text-center">분류</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visibleRows.map(r => (
+                <tr key={`${r.kind}|${r.code}|${r.location}`} className="hover:bg-slate-50">
+                  <td className="px-3 py-2 text-slate-500">{KIND_LABEL[r.kind]}</td>
+                  <td className="px-3 py-2 font-mono text-slate-700">{r.code}</td>
+                  <td className="px-3 py-2 text-slate-700 max-w-[200px] truncate" title={r.name}>{r.name}</td>
+                  <td className="px-3 py-2 text-slate-500">{r.location}</td>
+                  <td className="px-3 py-2 text-right font-mono">{fmtQty(r.qty)} <span className="text-slate-400">{r.unit}</span></td>
+                  {AGING_BUCKETS.map(b => (
+                    <td key={b} className={`px-3 py-2 text-right font-mono ${r.bucketQty[b] > 0 ? '' : 'text-slate-300'}`}>
+                      {r.bucketQty[b] > 0 ? fmtQty(r.bucketQty[b]) : '-'}
+                      {b === 'd180p' && r.untracedQty > 0 && (
+                        <span className="ml-1 text-[10px] text-slate-400" title="입고 이력 이전 재고">*</span>
+                      )}
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-right font-mono">{r.unitPrice > 0 ? fmtAmount(r.value) : <span className="text-slate-300">단가없음</span>}</td>
+                  <td className="px-3 py-2 text-right font-mono">{r.avgAgeDays !== null ? `${Math.round(r.avgAgeDays)}일` : '-'}</td>
+                  <td className="px-3 py-2 text-center font-mono text-slate-500">{r.lastReceiptDate || '-'}</td>
+                  <td className="px-3 py-2 text-right font-mono">
+                    {r.hasConsumption === null ? '-' : r.hasConsumption ? fmtQty(r.annualConsumption) : <span className="text-rose-500">소요없음</span>}
+                  </td>
+                  <td className="px-3 py-2 text-center">
+                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${CLASS_BADGE[r.stockClass]}`}>
+                      {STOCK_CLASS_LABEL[r.stockClass]}
+                    </span>
+                  </td>
+                </tr>
+              ))}
+              {visibleRows.length === 0 && (
+                <tr><td colSpan={14} className="px-3 py-8 text-center text-slate-400">조건에 맞는 품목이 없습니다.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        {filteredRows.length > PAGE_SIZE && (
+          <button
+            onClick={() => setShowAll(v => !v)}
+            className="mt-3 w-full py-2 text-xs font-bold text-slate-500 hover:text-slate-700"
+          >
+            {showAll ? '접기' : `전체 ${filteredRows.length.toLocaleString()}건 보기`}
+          </button>
+        )}
+        <p className="mt-3 text-[11px] text-slate-400">
+          입고실적을 선입선출로 가정해 현재고를 최근 입고분부터 배정합니다. * 표시는 입고 이력으로 설명되지 않는 수량으로 180일 초과에 포함됩니다.
+          불용 = 소요 없음 + 최근 입고 180일 초과, 장기 = 소요 없음 또는 90일 초과 재고 비중 50% 이상.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default InventoryAgingPanel;
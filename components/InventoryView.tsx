@@ -1,9 +1,14 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, lazy, Suspense } from 'react';
 import { safeSetItem } from '../utils/safeStorage';
+import { storage } from '../utils/storage';
 import { downloadCSV } from '../utils/csvExport';
 import { isSupabaseConfigured } from '../lib/supabase';
 import { inventoryService } from '../services/supabaseService';
+import type { AgingStockItem } from '../utils/inventoryAging';
+
+const InventoryAgingPanel = lazy(() => import('./InventoryAgingPanel'));
+const MaterialCoveragePanel = lazy(() => import('./MaterialCoveragePanel'));
 
 // Material Item Type (Resin/Paint)
 interface MaterialItem {
@@ -291,7 +296,7 @@ const parsePartsCSV = (csvText: string): InventoryItem[] => {
 
 const InventoryView: React.FC = () => {
   // --- Sub Tab State ---
-  const [activeSubTab, setActiveSubTab] = useState<'resin' | 'paint' | 'parts'>('resin');
+  const [activeSubTab, setActiveSubTab] = useState<'resin' | 'paint' | 'parts' | 'aging' | 'coverage'>('resin');
 
   // --- Initialization Helpers ---
   const getInitialData = () => {
@@ -299,7 +304,7 @@ const InventoryView: React.FC = () => {
       return { resin: [], paint: [], parts: [] };
     }
     try {
-      const stored = localStorage.getItem('dashboard_inventory_v2');
+      const stored = storage.getItem('dashboard_inventory_v2');
       if (stored) {
         return JSON.parse(stored);
       }
@@ -375,7 +380,7 @@ const InventoryView: React.FC = () => {
     const handler = (e: Event) => {
       if (!(e instanceof CustomEvent) || !e.detail) return;
       try {
-        const stored = localStorage.getItem('dashboard_inventory_v2');
+        const stored = storage.getItem('dashboard_inventory_v2');
         if (stored) setInventoryData(JSON.parse(stored));
       } catch { /* ignore */ }
     };
@@ -462,6 +467,15 @@ const InventoryView: React.FC = () => {
   }, [activeSubTab]);
 
   // --- Derived Data ---
+  // 재고 에이징 / 소진 예측 입력 (Resin/도료/부품 통합)
+  const stockItems = useMemo<AgingStockItem[]>(() => [
+    ...inventoryData.resin.map(i => ({ kind: 'resin' as const, code: i.code, name: i.name, unit: i.unit, location: i.location, qty: i.qty })),
+    ...inventoryData.paint.map(i => ({ kind: 'paint' as const, code: i.code, name: i.name, unit: i.unit, location: i.location, qty: i.qty })),
+    ...inventoryData.parts.map(i => ({
+      kind: 'parts' as const, code: i.code, customerPN: i.customerPN, name: i.name, unit: i.unit, location: i.location, qty: i.qty, unitPrice: i.unitPrice,
+    })),
+  ], [inventoryData]);
+
   const filteredResinData = useMemo(() => {
     let result = inventoryData.resin.filter(item => item.code && item.code.trim() !== '');
 
@@ -653,7 +667,9 @@ const InventoryView: React.FC = () => {
   const SUB_TABS = [
     { id: 'resin', label: 'Resin 재고' },
     { id: 'paint', label: '도료 재고' },
-    { id: 'parts', label: '부품재고(창고별재고)' }
+    { id: 'parts', label: '부품재고(창고별재고)' },
+    { id: 'aging', label: '재고 에이징' },
+    { id: 'coverage', label: '소진 예측' }
   ];
 
   // Sortable Header Component
@@ -701,6 +717,20 @@ const InventoryView: React.FC = () => {
         </div>
       </div>
 
+      {/* =========================== AGING TAB =========================== */}
+      {activeSubTab === 'aging' && (
+        <Suspense fallback={<div className="flex items-center justify-center py-20"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" /></div>}>
+          <InventoryAgingPanel items={stockItems} />
+        </Suspense>
+      )}
+
+      {/* =========================== COVERAGE TAB =========================== */}
+      {activeSubTab === 'coverage' && (
+        <Suspense fallback={<div className="flex items-center justify-center py-20"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" /></div>}>
+          <MaterialCoveragePanel items={stockItems} />
+        </Suspense>
+      )}
+
       {/* =========================== RESIN TAB =========================== */}
       {activeSubTab === 'resin' && (
         <div className="space-y-4">
@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useCostAnalysis } from '../hooks/useCostAnalysis';
+import {
+  COVERAGE_STATUS_LABEL,
+  CoverageStatus,
+  CoverageStockItem,
+  buildMaterialCoverage,
+} from '../utils/materialCoverage';
+import { supplierLeadTimeService, forecastService } from '../services/supabaseService';
+import { downloadCSV } from '../utils/csvExport';
+
+// ============================================
+// Types & Helpers
+// ============================================
+
+interface MaterialCoveragePanelProps {
+  items: CoverageStockItem[];
+}
+
+type TypeFilter = 'all' | 'RESIN' | 'PAINT' | 'parts';
+
+const TYPE_FILTERS: { id: TypeFilter; label: string }[] = [
+  { id: 'all', label: '전체' },
+  { id: 'RESIN', label: 'Resin' },
+  { id: 'PAINT', label: '도료' },
+  { id: 'parts', label: '부품' },
+];
+
+const STATUS_STYLE: Record<CoverageStatus, { dot: string; badge: string; card: string }> = {
+  red: { dot: 'bg-rose-500', badge: 'bg-rose-100 text-rose-700', card: 'text-rose-600' },
+  amber: { dot: 'bg-amber-500', badge: 'bg-amber-100 text-amber-700', card: 'text-amber-600' },
+  green: { dot: 'bg-emerald-500', badge: 'bg-emerald-100 text-emerald-700', card: 'text-emerald-600' },
+};
+
+const DEFAULT_LEAD_TIME_DAYS = 14;
+const BUFFER_DAYS = 30;
+const PAGE_SIZE = 50;
+const MONTHS = ['1월', '2월', '3월', '4월', '5월', '6월', '7월', '8월', '9월', '10월', '11월', '12월'];
+
+const fmtQty = (v: number) => (Math.abs(v) >= 100 ? Math.round(v).toLocaleString() : v.toLocaleString(undefined, { maximumFractionDigits: 1 }));
+
+const fmtDays = (v: number | null) => (v === null ? '-' : v >= 365 ? '365일+' : `${Math.floor(v)}일`);
+
+// ============================================
+// Component
+// ============================================
+
+const MaterialCoveragePanel: React.FC<MaterialCoveragePanelProps> = ({ items }) => {
+  const { loading, costResult } = useCostAnalysis();
+  const [leadTimes, setLeadTimes] = useState<Record<string, number>>({});
+  const [planYear, setPlanYear] = useState<number | null>(null);
+  const [typeFilter, setTypeFilter] = useState<TypeFilter>('all');
+  const [statusFilter, setStatusFilter] = useState<CoverageStatus | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    supplierLeadTimeService.getAll().then(setLeadTimes).catch(err => console.error('[Coverage] 리드타임 로드 실패:', err));
+    // Forecast 월 소요량은 계획 연도 달력 기준
+    forecastService.getSummary('current')
+      .then(sum => setPlanYear(sum?.year || null))
+      .catch(err => console.error('[Coverage] 매출계획 연도 로드 실패:', err));
+  }, []);
+
+  // RESIN/PAINT: full-depth mrpMaterials, 그 외(구매/외주): leafMaterials — MRP 패널과 동일한 소스 구분
+  const rows = useMemo(() => {
+    if (!costResult) return [];
+    const materials = [
+      ...(costResult.mrpMaterials || []),
+      ...costResult.leafMaterials.filter(m => m.materialType !== 'RESIN' && m.materialType !== 'PAINT'),
+    ];
+    return buildMaterialCoverage(materials, items, {
+      planYear: planYear ?? undefined,
+      leadTimes,
+      defaultLeadTimeDays: DEFAULT_LEAD_TIME_DAYS,
+      bufferDays: BUFFER_DAYS,
+    });
+  }, [costResult, items, leadTimes, planYear]);
+
+  const typeRows = useMemo(
+    () => rows.filter(r =>
+      typeFilter === 'all' ||
+      (typeFilter === 'parts' ? r.materialType !== 'RESIN' && r.materialType !== 'PAINT' : r.materialType === typeFilter),
+    ),
+    [rows, typeFilter],
+  );
+
+  const counts = useMemo(() => {
+    const c: Record<CoverageStatus, number> = { red: 0, amber: 0, green: 0 };
+    for (const r of typeRows) c[r.status]++;
+    return c;
+  }, [typeRows]);
+
+  const filteredRows = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return typeRows.filter(r =>
+      (statusFilter === 'all' || r.status === statusFilter) &&
+      (!q || r.materialCode.toLowerCase().includes(q) || r.materialName.toLowerCase().includes(q) || r.supplier.toLowerCase().includes(q)),
+    );
+  }, [typeRows, statusFilter, search]);
+
+  const visibleRows = showAll ? filteredRows : filteredRows.slice(0, PAGE_SIZE);
+  // 제품별 월 소요 표시 시작 월: 계획 연도가 올해면 이번 달부터, 이후 연도면 1월부터, 지난 연도면 없음
+  const now = new Date();
+  const effectiveYear = planYear ?? now.getFullYear();
+  const firstMonth = effectiveYear === now.getFullYear() ? now.getMonth() : effectiveYear > now.getFullYear() ? 0 : 12;
+
+  const handleDownload = () => {
+    const headers = ['상태', '자재코드', '자재명', '유형', '구입처', '단위', '현재고', '일 소요량', `잔여 소요량(~${effectiveYear}.12)`, '커버일수', '소진 예상일', '리드타임', '연장추정'];
+    const csvRows = filteredRows.map(r => [
+      COVERAGE_STATUS_LABEL[r.status], r.materialCode, r.materialName, r.materialType, r.supplier, r.unit,
+      Math.round(r.stockQty * 10) / 10,
+      Math.round(r.dailyUsage * 100) / 100,
+      Math.round(r.forwardQty),
+      r.daysOfCover !== null ? Math.floor(r.daysOfCover) : '',
+      r.stockoutDate,
+      r.leadTimeDays,
+      r.extrapolated ? 'Y' : '',
+    ]);
+    downloadCSV(`자재커버리지_${new Date().toISOString().slice(0, 10)}`, headers, csvRows);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  if (rows.length === 0) {
+    return (
+      <div className="bg-white p-10 rounded-3xl border border-slate-200 shadow-sm text-center text-sm text-slate-400">
+        Forecast 기반 자재 소요량이 없습니다. 매출계획과 BOM 데이터를 먼저 등록하세요.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Status Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {(['red', 'amber', 'green'] as CoverageStatus[]).map(s => (
+          <button
+            key={s}
+            onClick={() => setStatusFilter(prev => (prev === s ? 'all' : s))}
+            className={`p-5 rounded-3xl bg-white border shadow-sm text-left transition-all ${
+              statusFilter === s ? 'border-blue-400 ring-2 ring-blue-100' : 'border-slate-200 hover:border-slate-300'
+            }`}
+          >
+            <span className="text-xs font-bold text-slate-400 flex items-center gap-1.5">
+              <span className={`w-2 h-2 rounded-full ${STATUS_STYLE[s].dot}`} />
+              {COVERAGE_STATUS_LABEL[s]}
+            </span>
+            <h3 className={`text-lg font-bold mt-1 ${STATUS_STYLE[s].card}`}>{counts[s].toLocaleString()} Items</h3>
+            <p className="text-[11px] text-slate-400 mt-1">
+              {s === 'red' ? '커버일수 < 리드타임' : s === 'amber' ? `커버일수 < 리드타임 + ${BUFFER_DAYS}일` : `리드타임 + ${BUFFER_DAYS}일 이상`}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      {/* Coverage Board */}
+      <div className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+          <h3 className="font-bold text-slate-800 flex items-center gap-2">
+            <span className="w-1.5 h-1.5 rounded-full bg-blue-500" />
+            자재별 커버리지 / 소진 예상일
+            <span className="text-xs font-normal text-slate-400">{filteredRows.length.toLocaleString()}건</span>
+          </h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex gap-1 bg-slate-100 p-1 rounded-lg">
+              {TYPE_FILTERS.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => setTypeFilter(t.id)}
+                  className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${
+                    typeFilter === t.id ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'
+                  }`}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+            <input
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              placeholder="자재코드/자재명/구입처"
+              className="px-2 py-1.5 text-xs border border-slate-200 rounded-lg w-44"
+            />
+            <button
+              onClick={handleDownload}
+              className="px-3 py-1.5 text-xs font-bold rounded-lg bg-slate-800 text-white hover:bg-slate-700"
+            >
+              CSV
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="bg-slate-50 text-slate-500">
+              <tr>
+                <th className="px-3 py-2 text-center">상태</th>
+                <th className="px-3 py-2 text-left">자재코드</th>
+                <th className="px-3 py-2 text-left">자재명</th>
+                <th className="px-3 py-2 text-left">유형</th>
+                <th className="px-3 py-2 text-left">구입처</th>
+                <th className="px-3 py-2 text-right">현재고</th>
+                <th className="px-3 py-2 text-right">일 소요량</th>
+                <th className="px-3 py-2 text-right">커버일수</th>
+                <th className="px-3 py-2 text-center">소진 예상일</th>
+                <th className="px-3 py-2 text-right">리드타임</th>
+                <th className="px-3 py-2 text-right">사용 제품</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {visibleRows.map(r => {
+                const isOpen = expanded === r.materialCode;
+                return (
+                  <React.Fragment key={r.materialCode}>
+                    <tr
+                      onClick={() => setExpanded(isOpen ? null : r.materialCode)}
+                      className={`cursor-pointer hover:bg-slate-50 ${isOpen ? 'bg-blue-50/50' : ''}`}
+                    >
+                      <td className="px-3 py-2 text-center">
+                        <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${STATUS_STYLE[r.status].badge}`}>
+                          {COVERAGE_STATUS_LABEL[r.status]}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 font-mono text-slate-700">
+                        <span className="text-slate-300 mr-1">{isOpen ? '▾' : '▸'}</span>{r.materialCode}
+                      </td>
+                      <td className="px-3 py-2 text-slate-700 max-w-[200px] truncate" title={r.materialName}>{r.materialName}</td>
+                      <td className="px-3 py-2 text-slate-500">{r.materialType}</td>
+                      <td className="px-3 py-2 text-slate-500">{r.supplier || '-'}</td>
+                      <td className="px-3 py-2 text-right font-mono">{fmtQty(r.stockQty)} <span className="text-slate-400">{r.unit}</span></td>
+                      <td className="px-3 py-2 text-right font-mono">{fmtQty(r.dailyUsage)}</td>
+                      <td className={`px-3 py-2 text-right font-mono font-bold ${STATUS_STYLE[r.status].card}`}>
+                        {fmtDays(r.daysOfCover)}
+                        {r.extrapolated && <span className="ml-1 text-[10px] font-normal text-slate-400" title="계획 연도 이후 연평균 소요량으로 연장 추정">*</span>}
+                      </td>
+                      <td className="px-3 py-2 text-center font-mono text-slate-600">{r.stockoutDate || '-'}</td>
+                      <td className="px-3 py-2 text-right font-mono text-slate-500">{r.leadTimeDays}일</td>
+                      <td className="px-3 py-2 text-right font-mono text-slate-500">{r.products.length.toLocaleString()}</td>
+                    </tr>
+                    {isOpen && (
+                      <tr className="bg-slate-50/60">
+                        <td colSpan={11} className="px-6 py-3">
+                          {r.products.length === 0 ? (
+                            <p className="text-slate-400">제품별 소요 내역이 없습니다.</p>
+                          ) : (
+                            <table className="w-full text-[11px]">
+                              <thead className="text-slate-400">
+                                <tr>
+                                  <th className="px-2 py-1 text-left">제품 P/N</th>
+                                  <th className="px-2 py-1 text-left">제품명</th>
+                                  <th className="px-2 py-1 text-right">EA당 소요</th>
+                                  {MONTHS.slice(firstMonth).map(m => <th key={m} className="px-2 py-1 text-right">{m}</th>)}
+                                  <th className="px-2 py-1 text-right">잔여 소요</th>
+                                  <th className="px-2 py-1 text-right">비중</th>
+                                </tr>
+                              </thead>
+                              <tbody className="divide-y divide-slate-100">
+                                {r.products.map(p => (
+                                  <tr key={p.productPn}>
+                                    <td className="px-2 py-1 font-mono text-slate-600">{p.productPn}</td>
+                                    <td className="px-2 py-1 text-slate-600 max-w-[180px] truncate" title={p.productName}>{p.productName}</td>
+                                    <td className="px-2 py-1 text-right font-mono">{p.qtyPerUnit.toLocaleString(undefined, { maximumFractionDigits: 4 })}</td>
+                                    {p.monthlyQty.slice(firstMonth).map((q, i) => (
+                                      <td key={i} className={`px-2 py-1 text-right font-mono ${q > 0 ? '' : 'text-slate-300'}`}>{q > 0 ? fmtQty(q) : '-'}</td>
+                                    ))}
+                                    <td className="px-2 py-1 text-right font-mono">{fmtQty(p.forwardQty)}</td>
+                                    <td className="px-2 py-1 text-right font-mono text-slate-500">{p.share.toFixed(1)}%</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          )}
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+              {visibleRows.length === 0 && (
+                <tr><td colSpan={11} className="px-3 py-8 text-center text-slate-400">조건에 맞는 자재가 없습니다.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+        {filteredRows.length > PAGE_SIZE && (
+          <button
+            onClick={() => setShowAll(v => !v)}
+            className="mt-3 w-full py-2 text-xs font-bold text-slate-500 hover:text-slate-700"
+          >
+            {showAll ? '접기' : `전체 ${filteredRows.length.toLocaleString()}건 보기`}
+          </button>
+        )}
+        <p className="mt-3 text-[11px] text-slate-400">
+          현재고를 Forecast 월 소요량(일할)으로 오늘부터 소진시켜 커버일수를 계산합니다. 입고예정 발주는 반영하지 않습니다.
+          리드타임은 구입처별 설정값(미입력 시 {DEFAULT_LEAD_TIME_DAYS}일), * 표시는 계획 연도({effectiveYear}년) 밖 기간을 연평균 소요량으로 추정한 값입니다.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default MaterialCoveragePanel;
@@ -3,6 +3,7 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { ComposedChart, Bar, Line, LineChart, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, LabelList, Cell } from 'recharts';
 import MetricCard from './MetricCard';
 import { safeSetItem } from '../utils/safeStorage';
+import { storage } from '../utils/storage';
 import { parseRevenueCSV, RevenueItem } from '../utils/revenueDataParser';
 import { parsePartsCSV, parseMaterialCSV, PurchaseItem } from '../utils/purchaseDataParser';
 import { INITIAL_REVENUE_CSV } from '../data/initialRevenueData';
@@ -60,7 +61,7 @@ const Overview: React.FC = () => {
           }
         }
         if (salesItems.length === 0) {
-          const storedSales = localStorage.getItem('dashboard_revenueData');
+          const storedSales = storage.getItem('dashboard_revenueData');
           if (storedSales) {
             salesItems = JSON.parse(storedSales);
           } else {
@@ -69,7 +70,7 @@ const Overview: React.FC = () => {
         }
       } catch (e) {
         console.error('Failed to load sales:', e);
-        const storedSales = localStorage.getItem('dashboard_revenueData');
+        const storedSales = storage.getItem('dashboard_revenueData');
         salesItems = storedSales ? JSON.parse(storedSales) : parseRevenueCSV(INITIAL_REVENUE_CSV, 2024);
       }
 
@@ -84,7 +85,7 @@ const Overview: React.FC = () => {
           }
         }
         if (purchaseItems.length === 0) {
-          const storedPurchase = localStorage.getItem('dashboard_purchaseData');
+          const storedPurchase = storage.getItem('dashboard_purchaseData');
           if (storedPurchase) {
             purchaseItems = JSON.parse(storedPurchase);
           } else {
@@ -95,7 +96,7 @@ const Overview: React.FC = () => {
         }
       } catch (e) {
         console.error('Failed to load purchase:', e);
-        const storedPurchase = localStorage.getItem('dashboard_purchaseData');
+        const storedPurchase = storage.getItem('dashboard_purchaseData');
         purchaseItems = storedPurchase ? JSON.parse(storedPurchase) : [...parsePartsCSV(INITIAL_PARTS_CSV), ...parseMaterialCSV(INITIAL_MATERIAL_CSV)];
       }
 
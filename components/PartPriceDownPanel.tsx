@@ -0,0 +1,372 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import type { ForecastItem } from '../utils/salesForecastParser';
+import type { CRItem } from '../utils/crDataParser';
+import {
+  CrGroup,
+  CR_GROUP_LABEL,
+  PartPriceDown,
+  calcPartCr,
+  reconcileCr,
+  inferCrGroup,
+} from '../utils/crPriceDown';
+import { priceDownService, resolveEditor } from '../services/supabaseService';
+import { downloadCSV } from '../utils/csvExport';
+
+// ============================================
+// Types & Helpers
+// ============================================
+
+interface PartPriceDownPanelProps {
+  forecastItems: ForecastItem[];
+  forecastYear: number | null;
+  crData: CRItem[];
+  year: number;
+}
+
+type Draft = Omit<PartPriceDown, 'updatedAt' | 'updatedBy'>;
+
+const emptyDraft = (year: number): Draft => ({
+  id: '',
+  customer: '',
+  partNo: '',
+  partName: '',
+  rate: 0,
+  effectiveFrom: `${year}-01-01`,
+  effectiveTo: '',
+  group: 'mtx',
+  note: '',
+});
+
+/** 원 → 백만원 (CR 표와 동일 단위) */
+const toMillion = (v: number) => (v / 1e6).toFixed(1);
+
+const diffClass = (v: number) => (Math.abs(v) < 0.05 ? 'text-slate-400' : v > 0 ? 'text-blue-600' : 'text-rose-600');
+
+// ============================================
+// Component
+// ============================================
+
+const PartPriceDownPanel: React.FC<PartPriceDownPanelProps> = ({ forecastItems, forecastYear, crData, year }) => {
+  const [entries, setEntries] = useState<PartPriceDown[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    priceDownService.getAll().then(setEntries).catch(err => console.error('단가인하 로드 실패:', err));
+  }, []);
+
+  const customers = useMemo(
+    () => Array.from(new Set(forecastItems.map(i => i.customer).filter(Boolean))).sort(),
+    [forecastItems],
+  );
+
+  const partOptions = useMemo(
+    () => forecastItems.filter(i => !draft?.customer || i.customer === draft.customer),
+    [forecastItems, draft?.customer],
+  );
+
+  const result = useMemo(() => calcPartCr(forecastItems, entries, year), [forecastItems, entries, year]);
+  const reconcile = useMemo(() => reconcileCr(result, crData, year), [result, crData, year]);
+  const unmatchedIds = useMemo(() => new Set(result.unmatched.map(e => e.id)), [result]);
+
+  const totals = reconcile.reduce(
+    (acc, r) => ({
+      modelLg: acc.modelLg + r.modelLg,
+      modelMtx: acc.modelMtx + r.modelMtx,
+      uploadedLg: acc.uploadedLg + r.uploadedLg,
+      uploadedMtx: acc.uploadedMtx + r.uploadedMtx,
+    }),
+    { modelLg: 0, modelMtx: 0, uploadedLg: 0, uploadedMtx: 0 },
+  );
+
+  const updateDraft = (patch: Partial<Draft>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const handlePartChange = (partNo: string) => {
+    const item = forecastItems.find(i => i.partNo === partNo || i.newPartNo === partNo);
+    updateDraft({
+      partNo,
+      partName: item?.partName || draft?.partName || '',
+      ...(item && !draft?.customer ? { customer: item.customer, group: inferCrGroup(item.customer) } : {}),
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.partNo.trim() || !(draft.rate > 0) || !draft.effectiveFrom) {
+      alert('품번, 인하율, 적용 시작일을 입력하세요.');
+      return;
+    }
+    if (draft.effectiveTo && draft.effectiveTo < draft.effectiveFrom) {
+      alert('적용 종료일이 시작일보다 빠릅니다.');
+      return;
+    }
+    setSaving(true);
+    try {
+      const entry: PartPriceDown = {
+        ...draft,
+        id: draft.id || `pd_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        partNo: draft.partNo.trim(),
+        partName: draft.partName || undefined,
+        effectiveTo: draft.effectiveTo || undefined,
+        note: draft.note || undefined,
+        updatedAt: new Date().toISOString(),
+        updatedBy: await resolveEditor(),
+      };
+      await priceDownService.save(entry);
+      setEntries(prev => [...prev.filter(e => e.id !== entry.id), entry]);
+      setDraft(null);
+    } catch (err: any) {
+      alert(`단가인하 저장 실패: ${err.message || err}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: PartPriceDown) => {
+    if (!window.confirm(`${entry.partNo} ${entry.rate}% 인하 건을 삭제하시겠습니까?`)) return;
+    await priceDownService.delete(entry.id);
+    setEntries(prev => prev.filter(e => e.id !== entry.id));
+  };
+
+  const handleExport = () => {
+    const headers = ['고객사', '품번', '품명', '구분', '단가', ...Array.from({ length: 12 }, (_, i) => `${i + 1}월 CR`), '합계'];
+    const rows = result.parts.map(p => [
+      p.customer, p.partNo, p.partName, CR_GROUP_LABEL[p.group], p.unitPrice,
+      ...p.monthlyCr.map(v => Math.round(v)), Math.round(p.totalCr),
+    ]);
+    downloadCSV(`품목별_CR모델_${year}`, headers, rows);
+  };
+
+  const sortedEntries = [...entries].sort((a, b) =>
+    a.customer.localeCompare(b.customer) || a.partNo.localeCompare(b.partNo) || a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+  const reconcileRows: { group: CrGroup; model: (r: typeof reconcile[number]) => number; uploaded: (r: typeof reconcile[number]) => number; total: [number, number] }[] = [
+    { group: 'lg', model: r => r.modelLg, uploaded: r => r.uploadedLg, total: [totals.modelLg, totals.uploadedLg] },
+    { group: 'mtx', model: r => r.modelMtx, uploaded: r => r.uploadedMtx, total: [totals.modelMtx, totals.uploadedMtx] },
+  ];
+
+  return (
+    <div className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm space-y-6" data-part-price-down>
+      {/* Header */}
+      <div className="flex flex-col md:flex-row items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            품목별 단가인하 모델
+            <span className="text-xs font-medium text-slate-400 bg-slate-100 px-2 py-1 rounded">단위: 백만원</span>
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">
+            고객사/품번별 합의 인하율을 매출계획(단가 × 월별 수량)에 적용해 월별 CR을 산출하고 위 CR 실적과 대사합니다.
+          </p>
+          {forecastYear !== null && forecastYear !== year && (
+            <p className="text-xs text-amber-600 mt-1">매출계획은 {forecastYear}년 기준입니다. {year}년 CR 실적과 대사 시 수량 차이가 있을 수 있습니다.</p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleExport}
+            disabled={result.parts.length === 0}
+            className="px-4 py-2 rounded-xl text-xs font-bold bg-slate-100 text-slate-600 hover:bg-slate-200 disabled:opacity-40"
+          >
+            CSV
+          </button>
+          <button
+            onClick={() => setDraft(emptyDraft(year))}
+            className="px-4 py-2 rounded-xl text-xs font-bold bg-slate-800 text-white hover:bg-slate-700"
+          >
+            + 인하 등록
+          </button>
+        </div>
+      </div>
+
+      {/* Entry form */}
+      {draft && (
+        <div className="rounded-2xl border border-blue-200 bg-blue-50/40 p-4 space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+            <label className="flex flex-col gap-1 text-slate-600">
+              고객사
+              <select
+                value={draft.customer}
+                onChange={e => updateDraft({ customer: e.target.value, group: inferCrGroup(e.target.value) })}
+                className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white"
+              >
+                <option value="">(전체 고객사)</option>
+                {customers.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-slate-600">
+              품번
+              <input
+                list="price-down-parts"
+                value={draft.partNo}
+                onChange={e => handlePartChange(e.target.value)}
+                className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white font-mono"
+              />
+              <datalist id="price-down-parts">
+                {partOptions.map(i => (
+                  <option key={`${i.customer}-${i.partNo}`} value={i.newPartNo || i.partNo}>{i.partName}</option>
+                ))}
+              </datalist>
+            </label>
+            <label className="flex flex-col gap-1 text-slate-600">
+              품명
+              <input value={draft.partName || ''} onChange={e => updateDraft({ partName: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white" />
+            </label>
+            <label className="flex flex-col gap-1 text-slate-600">
+              인하율 (%)
+              <input
+                type="number"
+                step="0.1"
+                value={draft.rate || ''}
+                onChange={e => updateDraft({ rate: parseFloat(e.target.value) || 0 })}
+                className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white text-right"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-slate-600">
+              적용 시작일
+              <input type="date" value={draft.effectiveFrom} onChange={e => updateDraft({ effectiveFrom: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white" />
+            </label>
+            <label className="flex flex-col gap-1 text-slate-600">
+              적용 종료일 (선택)
+              <input type="date" value={draft.effectiveTo || ''} onChange={e => updateDraft({ effectiveTo: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white" />
+            </label>
+            <label className="flex flex-col gap-1 text-slate-600">
+              CR 구분
+              <select value={draft.group} onChange={e => updateDraft({ group: e.target.value as CrGroup })} className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white">
+                {(Object.keys(CR_GROUP_LABEL) as CrGroup[]).map(g => <option key={g} value={g}>{CR_GROUP_LABEL[g]}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-slate-600">
+              비고
+              <input value={draft.note || ''} onChange={e => updateDraft({ note: e.target.value })} className="border border-slate-200 rounded-lg px-2 py-1.5 bg-white" />
+            </label>
+          </div>
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="px-4 py-2 rounded-xl text-xs font-bold text-slate-600 hover:bg-slate-100">취소</button>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 rounded-xl text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+            >
+              {saving ? '저장 중...' : draft.id ? '수정' : '등록'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Reconciliation */}
+      <div className="overflow-x-auto border border-slate-200 rounded-2xl">
+        <table className="w-full text-xs text-center border-collapse">
+          <thead className="bg-slate-50 text-slate-600 font-bold border-b border-slate-200">
+            <tr>
+              <th colSpan={2} className="px-4 py-3 border-r border-slate-200">모델 vs 실적</th>
+              {Array.from({ length: 12 }, (_, i) => <th key={i} className="px-2 py-3 border-r border-slate-200 min-w-[56px]">{i + 1}월</th>)}
+              <th className="px-4 py-3">합계</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {reconcileRows.map(({ group, model, uploaded, total }) => (
+              <React.Fragment key={group}>
+                <tr>
+                  <td rowSpan={3} className="px-4 py-2 border-r border-slate-200 font-bold">{CR_GROUP_LABEL[group]}</td>
+                  <td className="px-3 py-2 border-r border-slate-200 text-left">모델 산출</td>
+                  {reconcile.map(r => <td key={r.month} className="px-2 py-2 border-r border-slate-100 font-mono">{toMillion(model(r))}</td>)}
+                  <td className="px-2 py-2 font-mono font-bold">{toMillion(total[0])}</td>
+                </tr>
+                <tr>
+                  <td className="px-3 py-2 border-r border-slate-200 text-left">CR 실적</td>
+                  {reconcile.map(r => <td key={r.month} className="px-2 py-2 border-r border-slate-100 font-mono text-slate-500">{toMillion(uploaded(r))}</td>)}
+                  <td className="px-2 py-2 font-mono font-bold text-slate-500">{toMillion(total[1])}</td>
+                </tr>
+                <tr className="bg-slate-50/60">
+                  <td className="px-3 py-2 border-r border-slate-200 text-left text-slate-500">차이 (모델-실적)</td>
+                  {reconcile.map(r => {
+                    const d = (model(r) - uploaded(r)) / 1e6;
+                    return <td key={r.month} className={`px-2 py-2 border-r border-slate-100 font-mono ${diffClass(d)}`}>{d.toFixed(1)}</td>;
+                  })}
+                  <td className={`px-2 py-2 font-mono font-bold ${diffClass((total[0] - total[1]) / 1e6)}`}>{((total[0] - total[1]) / 1e6).toFixed(1)}</td>
+                </tr>
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Parts */}
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-sm font-bold text-slate-800 mb-2">인하 등록 내역 ({entries.length}건)</h3>
+          <div className="overflow-x-auto border border-slate-200 rounded-2xl max-h-[420px] overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">고객사</th>
+                  <th className="px-3 py-2 text-left">품번</th>
+                  <th className="px-3 py-2 text-right">인하율</th>
+                  <th className="px-3 py-2 text-left">적용기간</th>
+                  <th className="px-3 py-2 text-center">구분</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {sortedEntries.length === 0 ? (
+                  <tr><td colSpan={6} className="px-3 py-8 text-center text-slate-400">등록된 단가인하가 없습니다.</td></tr>
+                ) : sortedEntries.map(e => (
+                  <tr key={e.id} className={unmatchedIds.has(e.id) ? 'bg-amber-50/50' : ''}>
+                    <td className="px-3 py-1.5 text-slate-600">{e.customer || '전체'}</td>
+                    <td className="px-3 py-1.5 font-mono text-slate-700">
+                      {e.partNo}
+                      {unmatchedIds.has(e.id) && <span className="ml-1 text-[10px] text-amber-600">계획 미등록</span>}
+                      {e.partName && <div className="text-[10px] text-slate-400 font-sans">{e.partName}</div>}
+                    </td>
+                    <td className="px-3 py-1.5 text-right font-mono">{e.rate.toFixed(1)}%</td>
+                    <td className="px-3 py-1.5 text-slate-500 whitespace-nowrap">{e.effectiveFrom} ~ {e.effectiveTo || ''}</td>
+                    <td className="px-3 py-1.5 text-center">{CR_GROUP_LABEL[e.group]}</td>
+                    <td className="px-3 py-1.5 text-right whitespace-nowrap">
+                      <button onClick={() => setDraft({ ...e, partName: e.partName || '', effectiveTo: e.effectiveTo || '', note: e.note || '' })} className="text-blue-600 hover:underline mr-2">수정</button>
+                      <button onClick={() => handleDelete(e)} className="text-rose-500 hover:underline">삭제</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-bold text-slate-800 mb-2">품목별 CR 산출 ({result.parts.length}개 품목)</h3>
+          <div className="overflow-x-auto border border-slate-200 rounded-2xl max-h-[420px] overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left">고객사</th>
+                  <th className="px-3 py-2 text-left">품번</th>
+                  <th className="px-3 py-2 text-right">단가</th>
+                  <th className="px-3 py-2 text-right">12월 인하율</th>
+                  <th className="px-3 py-2 text-right">연간 CR</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {result.parts.length === 0 ? (
+                  <tr><td colSpan={5} className="px-3 py-8 text-center text-slate-400">매출계획과 매칭된 인하 품목이 없습니다.</td></tr>
+                ) : result.parts.map(p => (
+                  <tr key={`${p.customer}-${p.partNo}`}>
+                    <td className="px-3 py-1.5 text-slate-600">{p.customer}</td>
+                    <td className="px-3 py-1.5 font-mono text-slate-700">
+                      {p.partNo}
+                      <div className="text-[10px] text-slate-400 font-sans">{p.partName}</div>
+                    </td>
+                    <td className="px-3 py-1.5 text-right font-mono">{Math.round(p.unitPrice).toLocaleString()}</td>
+                    <td className="px-3 py-1.5 text-right font-mono">{(p.monthlyReduction[11] * 100).toFixed(2)}%</td>
+                    <td className="px-3 py-1.5 text-right font-mono font-bold">{toMillion(p.totalCr)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PartPriceDownPanel;
@@ -0,0 +1,459 @@
+/**
+ * ProfitabilityView — 고객사 × 차종 재료비 한계이익 (계획 / 실적 / 계획 대비 실적)
+ * 계획은 useCostAnalysis 엔진 결과, 실적은 품목별 매출 × EA당 재료비
+ */
+import React, { useState, useMemo, useEffect } from 'react';
+import { ResponsiveContainer, ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Cell } from 'recharts';
+import { useCostAnalysis } from '../hooks/useCostAnalysis';
+import { forecastService } from '../services/supabaseService';
+import {
+  ProfitBasis,
+  ProfitFigures,
+  ProfitModelRow,
+  ProfitPartRow,
+  buildPnAliases,
+  buildProfitability,
+  buildPareto,
+  listActualYears,
+  marginOf,
+  marginRateOf,
+} from '../utils/profitability';
+import { downloadCSV } from '../utils/csvExport';
+
+// ============================================
+// Types & Helpers
+// ============================================
+
+type ViewMode = 'plan' | 'actual' | 'compare';
+type ParetoLevel = 'customer' | 'model';
+
+const VIEW_MODES: { id: ViewMode; label: string }[] = [
+  { id: 'plan', label: '계획' },
+  { id: 'actual', label: '실적' },
+  { id: 'compare', label: '계획 대비 실적' },
+];
+
+const PARETO_LIMIT = 20;
+
+const fmt = (n: number) => {
+  if (Math.abs(n) >= 1e8) return `${(n / 1e8).toFixed(1)}억`;
+  if (Math.abs(n) >= 1e4) return `${Math.round(n / 1e4)}만`;
+  return Math.round(n).toLocaleString();
+};
+
+const fmtRate = (v: number | null) => (v === null ? '-' : `${v.toFixed(1)}%`);
+
+const rateClass = (v: number | null) =>
+  v === null ? 'text-slate-300' : v < 0 ? 'text-rose-600' : v < 20 ? 'text-amber-600' : 'text-emerald-600';
+
+/** 이익률 차이(%p) — 어느 한쪽이 미산정이면 null */
+const rateGap = (plan: ProfitFigures, actual: ProfitFigures) => {
+  const p = marginRateOf(plan);
+  const a = marginRateOf(actual);
+  return p === null || a === null ? null : a - p;
+};
+
+const figureCells = (f: ProfitFigures) => {
+  const rate = marginRateOf(f);
+  return (
+    <>
+      <td className="px-3 py-2 text-right font-mono">{fmt(f.revenue)}</td>
+      <td className="px-3 py-2 text-right font-mono text-slate-500">{fmt(f.material)}</td>
+      <td className={`px-3 py-2 text-right font-mono font-bold ${marginOf(f) < 0 ? 'text-rose-600' : 'text-slate-800'}`}>{fmt(marginOf(f))}</td>
+      <td className={`px-3 py-2 text-right font-mono font-bold ${rateClass(rate)}`}>{fmtRate(rate)}</td>
+      <td className="px-3 py-2 text-right font-mono text-slate-400">{f.revenue > f.costedRevenue ? fmt(f.revenue - f.costedRevenue) : '-'}</td>
+    </>
+  );
+};
+
+const compareCells = (plan: ProfitFigures, actual: ProfitFigures) => {
+  const gap = rateGap(plan, actual);
+  return (
+    <>
+      <td className="px-3 py-2 text-right font-mono">{fmt(plan.revenue)}</td>
+      <td className="px-3 py-2 text-right font-mono">{fmt(actual.revenue)}</td>
+      <td className="px-3 py-2 text-right font-mono text-slate-500">{plan.revenue > 0 ? `${((actual.revenue / plan.revenue) * 100).toFixed(0)}%` : '-'}</td>
+      <td className="px-3 py-2 text-right font-mono">{fmt(marginOf(plan))}</td>
+      <td className={`px-3 py-2 text-right font-mono font-bold ${marginOf(actual) < 0 ? 'text-rose-600' : 'text-slate-800'}`}>{fmt(marginOf(actual))}</td>
+      <td className={`px-3 py-2 text-right font-mono ${rateClass(marginRateOf(plan))}`}>{fmtRate(marginRateOf(plan))}</td>
+      <td className={`px-3 py-2 text-right font-mono ${rateClass(marginRateOf(actual))}`}>{fmtRate(marginRateOf(actual))}</td>
+      <td className={`px-3 py-2 text-right font-mono font-bold ${gap === null ? 'text-slate-300' : gap < 0 ? 'text-rose-600' : 'text-emerald-600'}`}>
+        {gap === null ? '-' : `${gap >= 0 ? '+' : ''}${gap.toFixed(1)}%p`}
+      </td>
+    </>
+  );
+};
+
+const FIGURE_HEADERS = ['매출', '재료비', '한계이익', '이익률', '미산정 매출'];
+const COMPARE_HEADERS = ['계획 매출', '실적 매출', '달성률', '계획 이익', '실적 이익', '계획 이익률', '실적 이익률', '이익률 차이'];
+
+// ============================================
+// Drill-down — 차종 내 품목별 재료비 출처
+// ============================================
+
+const PartDrillDown: React.FC<{ row: ProfitModelRow; onClose: () => void }> = ({ row, onClose }) => {
+  // 가격 출처별 계획 재료비 구성
+  const sourceMix = useMemo(() => {
+    const map = new Map<string, { plan: number; actual: number; parts: number }>();
+    for (const p of row.parts) {
+      const label = p.materialCost > 0 ? (p.source || '출처 미상') : (p.matched ? 'BOM/단가 미매칭' : 'Forecast 미등록');
+      const entry = map.get(label) || { plan: 0, actual: 0, parts: 0 };
+      entry.plan += p.plan.material;
+      entry.actual += p.actual.material;
+      entry.parts++;
+      map.set(label, entry);
+    }
+    return Array.from(map.entries()).sort((a, b) => b[1].plan - a[1].plan);
+  }, [row]);
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200" data-profit-drilldown>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+          <span className="w-1.5 h-1.5 rounded-full bg-blue-500" />
+          {row.customer} · {row.model} 품목별 재료비
+          <span className="text-xs font-normal text-slate-400">{row.parts.length}개 품목</span>
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-sm font-bold px-2">✕</button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {sourceMix.map(([label, v]) => (
+          <div key={label} className="rounded-xl border border-slate-100 bg-slate-50 px-3 py-2">
+            <div className="text-[10px] font-bold text-slate-500">{label} · {v.parts}개</div>
+            <div className="text-xs font-mono text-slate-700">계획 {fmt(v.plan)} / 실적 {fmt(v.actual)}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-50 text-slate-500">
+            <tr>
+              <th className="px-3 py-2 text-left">품번</th>
+              <th className="px-3 py-2 text-left">품명</th>
+              <th className="px-3 py-2 text-left">재료비 출처</th>
+              <th className="px-3 py-2 text-right">판매단가</th>
+              <th className="px-3 py-2 text-right">EA 재료비</th>
+              <th className="px-3 py-2 text-right">계획 수량</th>
+              <th className="px-3 py-2 text-right">실적 수량</th>
+              <th className="px-3 py-2 text-right">계획 이익</th>
+              <th className="px-3 py-2 text-right">실적 이익</th>
+              <th className="px-3 py-2 text-right">계획 이익률</th>
+              <th className="px-3 py-2 text-right">실적 이익률</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {row.parts.map((p: ProfitPartRow) => (
+              <tr key={p.key} className={p.materialCost > 0 ? '' : 'bg-amber-50/40'}>
+                <td className="px-3 py-1.5 font-mono text-slate-700">{p.pn || '-'}</td>
+                <td className="px-3 py-1.5 text-slate-600 max-w-[200px] truncate">{p.name}</td>
+                <td className="px-3 py-1.5 text-slate-500">
+                  {p.materialCost > 0 ? (p.source || '-') : <span className="text-amber-600">{p.matched ? 'BOM/단가 미매칭' : 'Forecast 미등록'}</span>}
+                </td>
+                <td className="px-3 py-1.5 text-right font-mono">{p.sellingPrice > 0 ? Math.round(p.sellingPrice).toLocaleString() : '-'}</td>
+                <td className="px-3 py-1.5 text-right font-mono">{p.materialCost > 0 ? Math.round(p.materialCost).toLocaleString() : '-'}</td>
+                <td className="px-3 py-1.5 text-right font-mono">{Math.round(p.plan.qty).toLocaleString()}</td>
+                <td className="px-3 py-1.5 text-right font-mono">{Math.round(p.actual.qty).toLocaleString()}</td>
+                <td className="px-3 py-1.5 text-right font-mono">{fmt(marginOf(p.plan))}</td>
+                <td className="px-3 py-1.5 text-right font-mono">{fmt(marginOf(p.actual))}</td>
+                <td className={`px-3 py-1.5 text-right font-mono ${rateClass(marginRateOf(p.plan))}`}>{fmtRate(marginRateOf(p.plan))}</td>
+                <td className={`px-3 py-1.5 text-right font-mono ${rateClass(marginRateOf(p.actual))}`}>{fmtRate(marginRateOf(p.actual))}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// ============================================
+// Component
+// ============================================
+
+const ProfitabilityView: React.FC = () => {
+  const { loading, costResult, calcParams, selectedMonth, setSelectedMonth } = useCostAnalysis();
+  const [mode, setMode] = useState<ViewMode>('compare');
+  const [paretoLevel, setParetoLevel] = useState<ParetoLevel>('customer');
+  const [pickedYear, setPickedYear] = useState<number | null>(null);   // null = 자동 (계획 연도 우선)
+  const [planYear, setPlanYear] = useState<number | null>(null);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [drillKey, setDrillKey] = useState<string | null>(null);
+
+  const aliases = useMemo(
+    () => (costResult && calcParams ? buildPnAliases(costResult.products, calcParams) : new Map<string, string>()),
+    [costResult, calcParams],
+  );
+
+  const actualYears = useMemo(() => (calcParams ? listActualYears(calcParams.itemRevenue) : []), [calcParams]);
+
+  // 계획(costResult.products)은 Forecast 계획 연도 기준
+  useEffect(() => {
+    forecastService.getSummary('current')
+      .then(sum => setPlanYear(sum?.year || null))
+      .catch(err => console.error('[Profitability] 매출계획 연도 로드 실패:', err));
+  }, []);
+
+  // 실적 연도: 선택값 → 계획 연도(실적 있을 때) → 최근 실적 연도
+  const actualYear = useMemo(() => {
+    if (pickedYear !== null && actualYears.includes(pickedYear)) return pickedYear;
+    if (planYear !== null && actualYears.includes(planYear)) return planYear;
+    return actualYears[0] ?? null;
+  }, [pickedYear, planYear, actualYears]);
+
+  const result = useMemo(() => {
+    if (!costResult || !calcParams) return null;
+    return buildProfitability(costResult.products, calcParams.itemRevenue, aliases, actualYear ?? 0, selectedMonth);
+  }, [costResult, calcParams, aliases, actualYear, selectedMonth]);
+
+  const basis: ProfitBasis = mode === 'plan' ? 'plan' : 'actual';
+
+  const pareto = useMemo(() => {
+    if (!result) return [];
+    const rows = paretoLevel === 'customer'
+      ? result.customers.map(c => ({ label: c.customer, figures: c[basis] }))
+      : result.customers.flatMap(c => c.models.map(m => ({ label: `${c.customer} ${m.model}`, figures: m[basis] })));
+    return buildPareto(rows).slice(0, PARETO_LIMIT);
+  }, [result, paretoLevel, basis]);
+
+  const drillRow = useMemo(() => {
+    if (!result || !drillKey) return null;
+    for (const c of result.customers) {
+      const m = c.models.find(m => `${c.customer}||${m.model}` === drillKey);
+      if (m) return m;
+    }
+    return null;
+  }, [result, drillKey]);
+
+  const toggleCustomer = (customer: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(customer)) next.delete(customer);
+      else next.add(customer);
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    if (!result) return;
+    const headers = ['고객사', '차종', '계획 매출', '계획 재료비', '계획 이익', '계획 이익률(%)', '실적 매출', '실적 재료비', '실적 이익', '실적 이익률(%)', '미산정 실적 매출'];
+    const rate = (f: ProfitFigures) => {
+      const r = marginRateOf(f);
+      return r === null ? '' : r.toFixed(1);
+    };
+    const rows = result.customers.flatMap(c => c.models.map(m => [
+      c.customer, m.model,
+      Math.round(m.plan.revenue), Math.round(m.plan.material), Math.round(marginOf(m.plan)), rate(m.plan),
+      Math.round(m.actual.revenue), Math.round(m.actual.material), Math.round(marginOf(m.actual)), rate(m.actual),
+      Math.round(m.actual.revenue - m.actual.costedRevenue),
+    ]));
+    const period = selectedMonth === -1 ? '연간' : `${selectedMonth + 1}월`;
+    downloadCSV(`고객사별_수익성_${actualYear ?? ''}_${period}`, headers, rows);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  if (!result) {
+    return (
+      <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200 text-center py-20 text-sm text-slate-400">
+        매출계획(Forecast)과 BOM 데이터가 있어야 수익성을 계산할 수 있습니다.
+      </div>
+    );
+  }
+
+  const { total } = result;
+  const headers = mode === 'compare' ? COMPARE_HEADERS : FIGURE_HEADERS;
+
+  return (
+    <div className="space-y-6 animate-in slide-in-from-bottom-2 duration-500">
+      {/* Controls */}
+      <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">고객사별 수익성</h2>
+            <p className="text-xs text-slate-500 mt-1">
+              한계이익 = 매출 - 재료비(BOM 표준재료비). 이익률은 재료비가 산정된 매출 기준입니다.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex items-center gap-1 bg-slate-100 rounded-lg p-1">
+              {VIEW_MODES.map(m => (
+                <button
+                  key={m.id}
+                  onClick={() => setMode(m.id)}
+                  className={`px-3 py-1.5 rounded-md text-xs font-bold transition-all ${mode === m.id ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {m.label}
+                </button>
+              ))}
+            </div>
+            <select
+              value={actualYear ?? ''}
+              onChange={e => setPickedYear(Number(e.target.value))}
+              disabled={actualYears.length === 0}
+              className="text-xs border border-slate-200 rounded-lg px-2 py-1.5 bg-white"
+              title="실적 연도"
+            >
+              {actualYears.length === 0 && <option value="">실적 없음</option>}
+              {actualYears.map(y => <option key={y} value={y}>{y}년 실적</option>)}
+            </select>
+            {planYear !== null && (
+              <span
+                className={`text-xs font-bold ${actualYear !== null && actualYear !== planYear ? 'text-amber-600' : 'text-slate-400'}`}
+                title={actualYear !== null && actualYear !== planYear ? '계획과 실적 연도가 다릅니다' : undefined}
+              >
+                계획 {planYear}년
+              </span>
+            )}
+            <button onClick={handleExport} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-slate-800 text-white hover:bg-slate-700">
+              CSV
+            </button>
+          </div>
+        </div>
+        <div className="flex items-center gap-1 flex-wrap">
+          <button
+            onClick={() => setSelectedMonth(-1)}
+            className={`px-2.5 py-1 rounded-lg text-xs font-bold transition-all ${selectedMonth === -1 ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-400 hover:bg-slate-200'}`}
+          >
+            전체
+          </button>
+          {Array.from({ length: 12 }, (_, i) => (
+            <button
+              key={i}
+              onClick={() => setSelectedMonth(i)}
+              className={`px-2 py-1 rounded-lg text-xs font-bold transition-all ${selectedMonth === i ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-400 hover:bg-slate-200'}`}
+            >
+              {i + 1}월
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* KPI */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        {[
+          { label: '계획 매출', value: fmt(total.plan.revenue), sub: `재료비 ${fmt(total.plan.material)}` },
+          { label: '계획 한계이익', value: fmt(marginOf(total.plan)), sub: `이익률 ${fmtRate(marginRateOf(total.plan))}` },
+          { label: '실적 매출', value: fmt(total.actual.revenue), sub: total.plan.revenue > 0 ? `달성률 ${((total.actual.revenue / total.plan.revenue) * 100).toFixed(0)}%` : undefined },
+          { label: '실적 한계이익', value: fmt(marginOf(total.actual)), sub: `이익률 ${fmtRate(marginRateOf(total.actual))}` },
+          {
+            label: '재료비 미산정 실적',
+            value: fmt(total.actual.revenue - total.actual.costedRevenue),
+            sub: result.unmatchedActual.rows > 0 ? `Forecast 미등록 ${result.unmatchedActual.rows}건 포함` : undefined,
+          },
+        ].map(k => (
+          <div key={k.label} className="rounded-xl border p-3 border-slate-100 bg-white shadow-sm">
+            <div className="text-[10px] font-bold text-slate-500">{k.label}</div>
+            <div className="text-base font-bold text-slate-800 mt-0.5">{k.value}</div>
+            {k.sub && <div className="text-[10px] text-slate-400 mt-0.5">{k.sub}</div>}
+          </div>
+        ))}
+      </div>
+
+      {/* Pareto */}
+      <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2">
+            <span className="w-1.5 h-1.5 rounded-full bg-emerald-500" />
+            한계이익 Pareto ({basis === 'plan' ? '계획' : '실적'}, 상위 {PARETO_LIMIT})
+          </h3>
+          <div className="flex items-center gap-1 bg-slate-100 rounded-lg p-1">
+            {(['customer', 'model'] as ParetoLevel[]).map(level => (
+              <button
+                key={level}
+                onClick={() => setParetoLevel(level)}
+                className={`px-3 py-1 rounded-md text-xs font-bold ${paretoLevel === level ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500'}`}
+              >
+                {level === 'customer' ? '고객사' : '고객사·차종'}
+              </button>
+            ))}
+          </div>
+        </div>
+        {pareto.length === 0 ? (
+          <div className="py-16 text-center text-sm text-slate-400">표시할 이익 데이터가 없습니다.</div>
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <ComposedChart data={pareto} margin={{ top: 10, right: 20, left: 10, bottom: 40 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+              <XAxis dataKey="label" tick={{ fontSize: 10 }} angle={-30} textAnchor="end" interval={0} />
+              <YAxis yAxisId="margin" tickFormatter={fmt} tick={{ fontSize: 10 }} />
+              <YAxis yAxisId="share" orientation="right" domain={[0, 100]} allowDataOverflow tickFormatter={v => `${v}%`} tick={{ fontSize: 10 }} />
+              <Tooltip
+                formatter={(value: number, name: string) => (name === '누적 비중' ? `${value.toFixed(1)}%` : `${Math.round(value).toLocaleString()}원`)}
+              />
+              <Legend verticalAlign="top" height={28} wrapperStyle={{ fontSize: 11 }} />
+              <Bar yAxisId="margin" dataKey="margin" name="한계이익" radius={[4, 4, 0, 0]}>
+                {pareto.map(p => <Cell key={p.label} fill={p.margin < 0 ? '#f43f5e' : '#334155'} />)}
+              </Bar>
+              <Line yAxisId="share" type="monotone" dataKey="cumulativeShare" name="누적 비중" stroke="#2563eb" strokeWidth={2} dot={{ r: 2 }} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      {/* Matrix */}
+      <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+        <h3 className="text-sm font-bold text-slate-800 flex items-center gap-2 mb-4">
+          <span className="w-1.5 h-1.5 rounded-full bg-blue-500" />
+          고객사 × 차종 수익성
+          <span className="text-xs font-normal text-slate-400">고객사를 눌러 차종을 펼치고, 차종을 눌러 품목별 재료비를 확인합니다.</span>
+        </h3>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 text-xs text-slate-500">
+              <tr>
+                <th className="px-3 py-2 text-left">고객사 / 차종</th>
+                {headers.map(h => <th key={h} className="px-3 py-2 text-right whitespace-nowrap">{h}</th>)}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {result.customers.map(c => (
+                <React.Fragment key={c.customer}>
+                  <tr className="cursor-pointer hover:bg-slate-50 font-semibold" onClick={() => toggleCustomer(c.customer)}>
+                    <td className="px-3 py-2 text-slate-800 whitespace-nowrap">
+                      <span className="inline-block w-4 text-slate-400">{expanded.has(c.customer) ? '▾' : '▸'}</span>
+                      {c.customer}
+                      <span className="ml-2 text-[11px] font-normal text-slate-400">{c.models.length}개 차종</span>
+                    </td>
+                    {mode === 'compare' ? compareCells(c.plan, c.actual) : figureCells(c[basis])}
+                  </tr>
+                  {expanded.has(c.customer) && c.models.map(m => {
+                    const key = `${c.customer}||${m.model}`;
+                    return (
+                      <tr
+                        key={key}
+                        onClick={() => setDrillKey(drillKey === key ? null : key)}
+                        className={`cursor-pointer text-xs ${drillKey === key ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+                      >
+                        <td className="pl-10 pr-3 py-2 text-slate-600 whitespace-nowrap">
+                          {m.model}
+                          <span className="ml-2 text-[11px] text-slate-400">{m.parts.length}개 품목</span>
+                        </td>
+                        {mode === 'compare' ? compareCells(m.plan, m.actual) : figureCells(m[basis])}
+                      </tr>
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+              <tr className="bg-slate-50 font-bold">
+                <td className="px-3 py-2 text-slate-800">합계</td>
+                {mode === 'compare' ? compareCells(total.plan, total.actual) : figureCells(total[basis])}
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {drillRow && <PartDrillDown row={drillRow} onClose={() => setDrillKey(null)} />}
+    </div>
+  );
+};
+
+export default ProfitabilityView;
@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import MetricCard from './MetricCard';
 import { safeSetItem } from '../utils/safeStorage';
+import { storage } from '../utils/storage';
 import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, PieChart, Pie, Cell, LabelList } from 'recharts';
 import { PurchaseItemMaster, PurchaseMonthlySummary, parsePurchaseSummaryCSV } from '../utils/purchaseSummaryTypes';
 import { isSupabaseConfigured } from '../lib/supabase';
@@ -148,13 +149,13 @@ const PurchaseSummaryView: React.FC = () => {
         }
 
         // Check data version - force refresh if stale
-        const cachedVersion = localStorage.getItem('dashboard_purchaseSummary_version');
+        const cachedVersion = storage.getItem('dashboard_purchaseSummary_version');
         const needsRefresh = cachedVersion !== DATA_VERSION;
 
         // Fallback to built-in initial data
         if (summary.length === 0) {
           if (!needsRefresh) {
-            const stored = localStorage.getItem('dashboard_purchaseSummary');
+            const stored = storage.getItem('dashboard_purchaseSummary');
             if (stored) summary = JSON.parse(stored);
           }
           if (summary.length === 0 || needsRefresh) {
@@ -167,7 +168,7 @@ const PurchaseSummaryView: React.FC = () => {
 
         if (master.length === 0) {
           if (!needsRefresh) {
-            const stored = localStorage.getItem('dashboard_purchaseItemMaster');
+            const stored = storage.getItem('dashboard_purchaseItemMaster');
             if (stored) master = JSON.parse(stored);
           }
           if (master.length === 0 || needsRefresh) {
@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useMemo, lazy, Suspense } from 'react';
 import MetricCard from './MetricCard';
 import { safeSetItem } from '../utils/safeStorage';
+import { storage } from '../utils/storage';
 import PurchaseSummaryView from './PurchaseSummaryView';
 
 const DataQualityGuide = lazy(() => import('./DataQualityGuide'));
@@ -12,7 +13,7 @@ import { parsePartsCSV, parseMaterialCSV, PurchaseItem } from '../utils/purchase
 import { INITIAL_PARTS_CSV, INITIAL_MATERIAL_CSV } from '../data/initialPurchaseData';
 import { downloadCSV } from '../utils/csvExport';
 import { isSupabaseConfigured } from '../lib/supabase';
-import { purchaseService } from '../services/supabaseService';
+import { purchaseService, columnMappingService } from '../services/supabaseService';
 import { useColumnResize } from '../hooks/useColumnResize';
 
 const PurchaseView: React.FC = () => {
@@ -24,7 +25,7 @@ const PurchaseView: React.FC = () => {
         return [...parts, ...materials];
     }
     try {
-      const stored = localStorage.getItem('dashboard_purchaseData');
+      const stored = storage.getItem('dashboard_purchaseData');
       if (stored) {
         const parsed: PurchaseItem[] = JSON.parse(stored);
         // 초기 내장 데이터 파싱하여 개수 비교
@@ -37,7 +38,7 @@ const PurchaseView: React.FC = () => {
         if (needsMigration) {
           console.log(`[구매데이터 마이그레이션] 재파싱합니다. (기존: ${parsed.length}건, 내장: ${freshCount}건)`);
           const fresh = [...freshParts, ...freshMaterials];
-          try { safeSetItem('dashboard_purchaseData', JSON.stringify(fresh)); } catch { /* quota */ }
+          safeSetItem('dashboard_purchaseData', JSON.stringify(fresh));
           return fresh;
         }
         return parsed;
@@ -101,11 +102,11 @@ const PurchaseView: React.FC = () => {
             const missingData = freshData.filter(d => missingMonths.includes(`${d.year}-${d.month}`));
             const merged = [...supabaseData, ...missingData];
             setPurchaseData(merged);
-            try { safeSetItem('dashboard_purchaseData', JSON.stringify(merged)); } catch { /* quota */ }
+            safeSetItem('dashboard_purchaseData', JSON.stringify(merged));
             console.log(`✅ Supabase ${supabaseData.length}건 + 내장 ${missingData.length}건(누락월: ${missingMonths.join(', ')}) = ${merged.length}건`);
           } else {
             setPurchaseData(supabaseData);
-            try { safeSetItem('dashboard_purchaseData', JSON.stringify(supabaseData)); } catch { /* quota */ }
+            safeSetItem('dashboard_purchaseData', JSON.stringify(supabaseData));
             console.log(`✅ Supabase에서 구매 데이터 로드: ${supabaseData.length}개`);
           }
         } else {
@@ -124,7 +125,7 @@ const PurchaseView: React.FC = () => {
     const handler = (e: Event) => {
       if (!(e instanceof CustomEvent) || !e.detail) return;
       try {
-        const stored = localStorage.getItem('dashboard_purchaseData');
+        const stored = storage.getItem('dashboard_purchaseData');
         if (stored) setPurchaseData(JSON.parse(stored));
       } catch { /* ignore */ }
     };
@@ -135,7 +136,7 @@ const PurchaseView: React.FC = () => {
   // --- Persistence & Derived Year State ---
   useEffect(() => {
     if (purchaseData.length > 0) {
-      try { safeSetItem('dashboard_purchaseData', JSON.stringify(purchaseData)); } catch { /* quota */ }
+      safeSetItem('dashboard_purchaseData', JSON.stringify(purchaseData));
       window.dispatchEvent(new Event('dashboard-data-updated'));
     }
 
@@ -355,7 +356,7 @@ const PurchaseView: React.FC = () => {
         return;
       }
 
-      const newParts = parsePartsCSV(csvText);
+      const newParts = parsePartsCSV(csvText, await columnMappingService.get('purchaseParts'));
       
       // 업로드된 데이터에 선택한 월 적용
       const partsWithMonth = newParts.map(item => ({
@@ -371,7 +372,7 @@ const PurchaseView: React.FC = () => {
       const updatedData = [...otherData, ...partsWithMonth];
       
       // localStorage 즉시 저장
-      try { safeSetItem('dashboard_purchaseData', JSON.stringify(updatedData)); } catch { /* quota */ }
+      safeSetItem('dashboard_purchaseData', JSON.stringify(updatedData));
       setPurchaseData(updatedData);
 
       // Supabase 저장 (완료 후 최신 데이터 재로드)
@@ -382,7 +383,7 @@ const PurchaseView: React.FC = () => {
           
           const latestData = await purchaseService.getAll();
           setPurchaseData(latestData);
-          try { safeSetItem('dashboard_purchaseData', JSON.stringify(latestData)); } catch { /* quota */ }
+          safeSetItem('dashboard_purchaseData', JSON.stringify(latestData));
           console.log(`✅ Supabase에서 최신 구매 데이터 재로드 완료: ${latestData.length}개`);
         } catch (err) {
           console.error('Supabase 동기화 실패:', err);
@@ -409,7 +410,7 @@ const PurchaseView: React.FC = () => {
         return;
       }
 
-      const newMaterials = parseMaterialCSV(csvText);
+      const newMaterials = parseMaterialCSV(csvText, await columnMappingService.get('purchaseMaterial'));
       
       // 업로드된 데이터에 선택한 월 적용
       const materialsWithMonth = newMaterials.map(item => ({
@@ -425,7 +426,7 @@ const PurchaseView: React.FC = () => {
       const updatedData = [...otherData, ...materialsWithMonth];
       
       // localStorage 즉시 저장
-      try { safeSetItem('dashboard_purchaseData', JSON.stringify(updatedData)); } catch { /* quota */ }
+      safeSetItem('dashboard_purchaseData', JSON.stringify(updatedData));
       setPurchaseData(updatedData);
 
       // Supabase 저장 (완료 후 최신 데이터 재로드)
@@ -436,7 +437,7 @@ const PurchaseView: React.FC = () => {
 
           const latestData = await purchaseService.getAll();
           setPurchaseData(latestData);
-          try { safeSetItem('dashboard_purchaseData', JSON.stringify(latestData)); } catch { /* quota */ }
+          safeSetItem('dashboard_purchaseData', JSON.stringify(latestData));
           console.log(`✅ Supabase에서 최신 구매 데이터 재로드 완료: ${latestData.length}개`);
         } catch (err) {
           console.error('Supabase 동기화 실패:', err);
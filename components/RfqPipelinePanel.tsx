@@ -0,0 +1,338 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ResponsiveContainer, ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import type { RFQItem } from '../utils/rfqDataParser';
+import {
+  RfqStage,
+  StageProbability,
+  WinRateRow,
+  CycleStats,
+  RFQ_FUNNEL_STAGES,
+  RFQ_STAGE_LABEL,
+  DEFAULT_STAGE_PROBABILITY,
+  LOST_REASON_OPTIONS,
+  buildPipelineAnalytics,
+  classifyRfqStage,
+} from '../utils/rfqPipeline';
+import { safeSetItem } from '../utils/safeStorage';
+import { storage } from '../utils/storage';
+import { downloadCSV } from '../utils/csvExport';
+
+// ============================================
+// Types & Helpers
+// ============================================
+
+interface RfqPipelinePanelProps {
+  items: RFQItem[];
+  onLostReasonChange: (id: string, reason: string) => void;
+}
+
+const PROBABILITY_KEY = 'dashboard_rfqStageProbability';
+
+const loadProbability = (): StageProbability => {
+  try {
+    const stored = storage.getItem(PROBABILITY_KEY);
+    return stored ? { ...DEFAULT_STAGE_PROBABILITY, ...JSON.parse(stored) } : DEFAULT_STAGE_PROBABILITY;
+  } catch { return DEFAULT_STAGE_PROBABILITY; }
+};
+
+/** 가중 파이프라인에 나타나는 진행 단계 (양산/실주 제외) */
+const PIPELINE_STAGES: RfqStage[] = ['open', 'quoting', 'review', 'won', 'development'];
+
+const STAGE_COLOR: Record<RfqStage, string> = {
+  open: '#cbd5e1',
+  quoting: '#94a3b8',
+  review: '#60a5fa',
+  won: '#2563eb',
+  development: '#10b981',
+  production: '#334155',
+  lost: '#ef4444',
+};
+
+const fmtEok = (v: number) => `₩${(v / 1e8).toFixed(2)}억`;
+const fmtDays = (v: number | null) => (v === null ? '-' : `${Math.round(v)}일`);
+const monthLabel = (m: string) => (m === 'overdue' ? '지연' : m === 'unknown' ? '미정' : m);
+
+const WinRateTable: React.FC<{ title: string; rows: WinRateRow[] }> = ({ title, rows }) => (
+  <div className="border border-slate-200 rounded-2xl overflow-hidden">
+    <div className="px-4 py-2 bg-slate-50 text-xs font-bold text-slate-600">{title}</div>
+    <div className="max-h-72 overflow-y-auto">
+      <table className="w-full text-xs">
+        <thead className="text-slate-400 sticky top-0 bg-white">
+          <tr>
+            <th className="px-3 py-1.5 text-left">구분</th>
+            <th className="px-3 py-1.5 text-right">전체</th>
+            <th className="px-3 py-1.5 text-right">수주</th>
+            <th className="px-3 py-1.5 text-right">실주</th>
+            <th className="px-3 py-1.5 text-right">진행</th>
+            <th className="px-3 py-1.5 text-right">수주율</th>
+            <th className="px-3 py-1.5 text-right">견적→PO</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-50">
+          {rows.map(r => (
+            <tr key={r.key} className="hover:bg-slate-50">
+              <td className="px-3 py-1.5 font-medium text-slate-700 truncate max-w-[140px]" title={r.key}>{r.key}</td>
+              <td className="px-3 py-1.5 text-right font-mono">{r.total}</td>
+              <td className="px-3 py-1.5 text-right font-mono text-emerald-600">{r.won}</td>
+              <td className="px-3 py-1.5 text-right font-mono text-rose-500">{r.lost}</td>
+              <td className="px-3 py-1.5 text-right font-mono text-slate-500">{r.open}</td>
+              <td className="px-3 py-1.5">
+                {r.winRate === null ? <span className="block text-right text-slate-300">-</span> : (
+                  <div className="flex items-center justify-end gap-1.5">
+                    <div className="w-12 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-emerald-500" style={{ width: `${r.winRate}%` }} />
+                    </div>
+                    <span className="font-mono font-bold text-slate-700 w-10 text-right">{r.winRate.toFixed(0)}%</span>
+                  </div>
+                )}
+              </td>
+              <td className="px-3 py-1.5 text-right font-mono text-slate-500">{fmtDays(r.avgCycleDays)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+const CycleCard: React.FC<{ title: string; stats: CycleStats }> = ({ title, stats }) => (
+  <div className="rounded-xl border border-slate-100 bg-slate-50 p-3">
+    <div className="text-[11px] font-bold text-slate-500">{title} <span className="font-normal text-slate-400">({stats.count}건)</span></div>
+    <div className="text-lg font-bold text-slate-800 mt-0.5">평균 {fmtDays(stats.avg)}</div>
+    <div className="text-[11px] text-slate-500">
+      중앙값 {fmtDays(stats.median)} · 최소 {fmtDays(stats.min)} · 최대 {fmtDays(stats.max)}
+    </div>
+  </div>
+);
+
+// ============================================
+// Component
+// ============================================
+
+const RfqPipelinePanel: React.FC<RfqPipelinePanelProps> = ({ items, onLostReasonChange }) => {
+  const [probability, setProbability] = useState<StageProbability>(loadProbability);
+  const [showProbability, setShowProbability] = useState(false);
+  const [showAllLost, setShowAllLost] = useState(false);
+
+  useEffect(() => {
+    safeSetItem(PROBABILITY_KEY, JSON.stringify(probability));
+  }, [probability]);
+
+  const analytics = useMemo(() => buildPipelineAnalytics(items, probability), [items, probability]);
+  const { funnel, pipeline, totals } = analytics;
+
+  const pipelineChart = useMemo(() => pipeline.map(m => ({
+    month: monthLabel(m.month),
+    raw: m.raw,
+    count: m.count,
+    ...Object.fromEntries(PIPELINE_STAGES.map(s => [s, m.byStage[s] || 0])),
+  })), [pipeline]);
+
+  const lostItems = useMemo(
+    () => items.filter(i => classifyRfqStage(i) === 'lost' && (showAllLost || !i.lostReason?.trim())),
+    [items, showAllLost],
+  );
+
+  const maxReached = Math.max(1, funnel[0]?.reached || 0);
+
+  const handleExport = () => {
+    const headers = ['예상 PO 월', '건수', '월 매출(가중 전)', '가중 월 매출', ...PIPELINE_STAGES.map(s => `${RFQ_STAGE_LABEL[s]}(가중)`)];
+    const rows = pipeline.map(m => [
+      monthLabel(m.month), m.count, Math.round(m.raw), Math.round(m.weighted),
+      ...PIPELINE_STAGES.map(s => Math.round(m.byStage[s] || 0)),
+    ]);
+    downloadCSV('RFQ_수주전망', headers, rows);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm space-y-6" data-rfq-pipeline>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h2 className="text-xl font-bold text-slate-800">파이프라인 / 수주 분석</h2>
+          <p className="text-sm text-slate-500 mt-1">단계별 퍼널, 예상 PO 월별 가중 수주 전망(월 매출 기준), 고객사·공정별 수주율과 실주 사유</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowProbability(v => !v)}
+            className={`px-4 py-2 rounded-xl text-xs font-bold transition-all ${showProbability ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+          >
+            단계별 확률
+          </button>
+          <button onClick={handleExport} className="px-4 py-2 rounded-xl text-xs font-bold bg-slate-800 text-white hover:bg-slate-700">
+            전망 CSV
+          </button>
+        </div>
+      </div>
+
+      {showProbability && (
+        <div className="rounded-2xl border border-slate-200 bg-slate-50 p-4">
+          <div className="grid grid-cols-3 md:grid-cols-5 gap-3">
+            {PIPELINE_STAGES.map(stage => (
+              <label key={stage} className="text-xs text-slate-600 space-y-1">
+                <div className="font-bold">{RFQ_STAGE_LABEL[stage]} (%)</div>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={probability[stage]}
+                  onChange={e => setProbability(prev => ({ ...prev, [stage]: Math.min(100, Math.max(0, Number(e.target.value) || 0)) }))}
+                  className="w-full border border-slate-200 rounded-lg px-2 py-1 bg-white text-right font-mono"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-between mt-3 text-[11px] text-slate-500">
+            <span>가중 금액 = RFQ 예상매출(월) × 단계 확률. 예상 PO 월은 최초주문일, 없으면 견적일 + 평균 견적→PO 소요일.</span>
+            <button onClick={() => setProbability(DEFAULT_STAGE_PROBABILITY)} className="text-blue-600 hover:underline">기본값</button>
+          </div>
+        </div>
+      )}
+
+      {/* KPI */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="rounded-2xl border border-slate-200 p-4">
+          <div className="text-[11px] font-bold text-slate-500">진행 중</div>
+          <div className="text-xl font-bold text-slate-800">{totals.open}건</div>
+          <div className="text-[11px] text-slate-400">수주 {totals.won} · 실주 {totals.lost}</div>
+        </div>
+        <div className="rounded-2xl border border-slate-200 p-4">
+          <div className="text-[11px] font-bold text-slate-500">수주율 (결정 건 기준)</div>
+          <div className="text-xl font-bold text-emerald-600">{totals.winRate === null ? '-' : `${totals.winRate.toFixed(1)}%`}</div>
+          <div className="text-[11px] text-slate-400">수주 ÷ (수주 + 실주)</div>
+        </div>
+        <div className="rounded-2xl border border-slate-200 p-4">
+          <div className="text-[11px] font-bold text-slate-500">가중 파이프라인 (월 매출)</div>
+          <div className="text-xl font-bold text-blue-700">{fmtEok(totals.weightedPipeline)}</div>
+          <div className="text-[11px] text-slate-400">향후 PO 예정 + 지연 + 미정</div>
+        </div>
+        <div className="rounded-2xl border border-slate-200 p-4">
+          <div className="text-[11px] font-bold text-slate-500">견적 → PO 소요</div>
+          <div className="text-xl font-bold text-slate-800">{fmtDays(analytics.quoteToPo.median)}</div>
+          <div className="text-[11px] text-slate-400">중앙값 · 수주 {analytics.quoteToPo.count}건</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        {/* 퍼널 */}
+        <div className="lg:col-span-2 space-y-2">
+          <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full bg-blue-600"></span>
+            단계 퍼널
+          </h3>
+          {funnel.map(step => (
+            <div key={step.stage} className="flex items-center gap-3 text-xs">
+              <span className="w-16 font-bold text-slate-600">{RFQ_STAGE_LABEL[step.stage]}</span>
+              <div className="flex-1 h-6 bg-slate-50 rounded-lg overflow-hidden">
+                <div
+                  className="h-full rounded-lg flex items-center px-2 text-[10px] font-bold text-white"
+                  style={{ width: `${Math.max(step.reached / maxReached * 100, step.reached > 0 ? 8 : 0)}%`, background: STAGE_COLOR[step.stage] }}
+                >
+                  {step.reached}
+                </div>
+              </div>
+              <span className="w-14 text-right font-mono text-slate-500">{step.conversion === null ? '' : `${step.conversion.toFixed(0)}%`}</span>
+              <span className="w-14 text-right text-[10px] text-slate-400">현재 {step.current}</span>
+            </div>
+          ))}
+          <p className="text-[10px] text-slate-400 pt-1">막대 = 해당 단계 이상 도달 건수 · % = 직전 단계 대비 전환율 · 실주 {totals.lost}건은 도달 단계까지만 포함</p>
+        </div>
+
+        {/* 예상 PO 월별 */}
+        <div className="lg:col-span-3">
+          <h3 className="text-sm font-bold text-slate-700 flex items-center gap-2 mb-2">
+            <span className="w-2 h-2 rounded-full bg-emerald-500"></span>
+            예상 PO 월별 가중 수주 전망
+          </h3>
+          {pipelineChart.length === 0 ? (
+            <div className="h-60 flex items-center justify-center text-sm text-slate-400">진행 중인 RFQ가 없습니다.</div>
+          ) : (
+            <ResponsiveContainer width="100%" height={240}>
+              <ComposedChart data={pipelineChart}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="month" tick={{ fontSize: 10 }} />
+                <YAxis tickFormatter={v => `${(v / 1e8).toFixed(1)}억`} tick={{ fontSize: 10 }} />
+                <Tooltip formatter={(v: number, name: string) => [`₩${Math.round(v).toLocaleString()}`, name]} />
+                <Legend wrapperStyle={{ fontSize: 10 }} />
+                {PIPELINE_STAGES.map(stage => (
+                  <Bar key={stage} dataKey={stage} name={`${RFQ_STAGE_LABEL[stage]} (${probability[stage]}%)`} stackId="w" fill={STAGE_COLOR[stage]} />
+                ))}
+                <Line dataKey="raw" name="가중 전" stroke="#f59e0b" strokeDasharray="4 3" dot={{ r: 2 }} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+      </div>
+
+      {/* 수주율 */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <WinRateTable title="고객사별 수주율" rows={analytics.byCustomer} />
+        <WinRateTable title="공정별 수주율" rows={analytics.byProcess} />
+      </div>
+
+      {/* 주기 / 실주 사유 */}
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="space-y-3">
+          <CycleCard title="견적 → 최초 PO (수주 건)" stats={analytics.quoteToPo} />
+          <CycleCard title="프로젝트 시작 → 견적" stats={analytics.selectionToQuote} />
+        </div>
+
+        <div className="border border-slate-200 rounded-2xl overflow-hidden">
+          <div className="px-4 py-2 bg-slate-50 text-xs font-bold text-slate-600">실주 사유 통계</div>
+          <table className="w-full text-xs">
+            <tbody className="divide-y divide-slate-50">
+              {analytics.lostReasons.map(r => (
+                <tr key={r.reason}>
+                  <td className={`px-3 py-1.5 font-medium ${r.reason === '미입력' ? 'text-slate-400' : 'text-slate-700'}`}>{r.reason}</td>
+                  <td className="px-3 py-1.5">
+                    <div className="h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-rose-400" style={{ width: `${totals.lost > 0 ? (r.count / totals.lost) * 100 : 0}%` }} />
+                    </div>
+                  </td>
+                  <td className="px-3 py-1.5 text-right font-mono">{r.count}건</td>
+                  <td className="px-3 py-1.5 text-right font-mono text-slate-500">{fmtEok(r.amount)}</td>
+                </tr>
+              ))}
+              {analytics.lostReasons.length === 0 && (
+                <tr><td className="px-3 py-6 text-center text-slate-400">실주 건이 없습니다.</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="border border-slate-200 rounded-2xl overflow-hidden">
+          <div className="px-4 py-2 bg-slate-50 text-xs font-bold text-slate-600 flex items-center justify-between">
+            <span>실주 사유 입력 {analytics.lostWithoutReason.length > 0 && <span className="text-rose-500">(미입력 {analytics.lostWithoutReason.length})</span>}</span>
+            <label className="flex items-center gap-1 font-normal text-slate-500">
+              <input type="checkbox" checked={showAllLost} onChange={e => setShowAllLost(e.target.checked)} />
+              전체
+            </label>
+          </div>
+          <div className="max-h-56 overflow-y-auto divide-y divide-slate-50">
+            {lostItems.map(item => (
+              <div key={item.id} className="px-3 py-1.5 flex items-center gap-2 text-xs">
+                <div className="flex-1 min-w-0">
+                  <div className="truncate font-medium text-slate-700" title={item.projectName}>{item.projectName || '(프로젝트명 없음)'}</div>
+                  <div className="text-[10px] text-slate-400">{item.customer} · {item.status}</div>
+                </div>
+                <select
+                  value={item.lostReason || ''}
+                  onChange={e => onLostReasonChange(item.id, e.target.value)}
+                  className="border border-slate-200 rounded px-1 py-0.5 text-xs bg-white"
+                >
+                  <option value="">사유 선택</option>
+                  {LOST_REASON_OPTIONS.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                  {item.lostReason && !LOST_REASON_OPTIONS.includes(item.lostReason) && <option value={item.lostReason}>{item.lostReason}</option>}
+                </select>
+              </div>
+            ))}
+            {lostItems.length === 0 && (
+              <div className="px-3 py-6 text-center text-xs text-slate-400">사유 미입력 실주 건이 없습니다.</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RfqPipelinePanel;
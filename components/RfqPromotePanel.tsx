@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { RFQItem, rfqKey } from '../utils/rfqDataParser';
+import type { ProductCodeRecord, ReferenceInfoRecord } from '../utils/bomMasterParser';
+import type { ForecastItem, ForecastSummary } from '../utils/salesForecastParser';
+import {
+  RfqPromotion,
+  RfqPromotionDraft,
+  draftFromRfq,
+  planPromotion,
+  buildPromotion,
+  spreadAnnualQty,
+  sopMonth,
+  addToForecastSummary,
+} from '../utils/rfqPromotion';
+import {
+  productCodeService, referenceInfoService, forecastService, rfqPromotionService, resolveEditor,
+} from '../services/supabaseService';
+
+// ============================================
+// Types & Helpers
+// ============================================
+
+interface RfqPromotePanelProps {
+  rfq: RFQItem;
+  promotion: RfqPromotion | null;
+  onPromoted: (promotion: RfqPromotion) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full border border-slate-200 rounded-lg px-2 py-1.5 text-xs bg-white';
+
+const TargetBadge: React.FC<{ exists: boolean }> = ({ exists }) => (
+  <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${exists ? 'bg-slate-100 text-slate-500' : 'bg-emerald-50 text-emerald-700'}`}>
+    {exists ? '기존 항목 연결' : '신규 생성'}
+  </span>
+);
+
+// ============================================
+// Component
+// ============================================
+
+const RfqPromotePanel: React.FC<RfqPromotePanelProps> = ({ rfq, promotion, onPromoted, onClose }) => {
+  const [productCodes, setProductCodes] = useState<ProductCodeRecord[]>([]);
+  const [refInfo, setRefInfo] = useState<ReferenceInfoRecord[]>([]);
+  const [forecast, setForecast] = useState<ForecastItem[]>([]);
+  const [summary, setSummary] = useState<ForecastSummary | null>(null);
+  const [draft, setDraft] = useState<RfqPromotionDraft>(() => draftFromRfq(rfq, new Date().getFullYear()));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const [pcRes, riRes, fcRes, sumRes] = await Promise.allSettled([
+        productCodeService.getAll(),
+        referenceInfoService.getAll(),
+        forecastService.getItems('current'),
+        forecastService.getSummary('current'),
+      ]);
+      setProductCodes(pcRes.status === 'fulfilled' ? pcRes.value : []);
+      setRefInfo(riRes.status === 'fulfilled' ? riRes.value : []);
+      setForecast(fcRes.status === 'fulfilled' ? fcRes.value : []);
+      const loadedSummary = sumRes.status === 'fulfilled' ? sumRes.value : null;
+      setSummary(loadedSummary);
+      // 매출계획 연도 기준으로 SOP 월 재산정
+      const initial = draftFromRfq(rfq, loadedSummary?.year || new Date().getFullYear());
+      setDraft(promotion ? { ...initial, productCode: promotion.productCode, customerPn: promotion.customerPn } : initial);
+      setLoading(false);
+    };
+    load();
+  }, [rfq.id]);
+
+  const plan = useMemo(() => planPromotion(draft, productCodes, refInfo, forecast), [draft, productCodes, refInfo, forecast]);
+  const monthlyQty = useMemo(() => spreadAnnualQty(draft.annualQty, draft.startMonth), [draft.annualQty, draft.startMonth]);
+  const totalQty = monthlyQty.reduce((s, v) => s + v, 0);
+
+  const update = (patch: Partial<RfqPromotionDraft>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const handlePromote = async () => {
+    if (plan.missing.length > 0) {
+      alert(`${plan.missing.join(', ')}을(를) 입력하세요.`);
+      return;
+    }
+    const { existing } = plan;
+    if (!window.confirm([
+      `${rfq.projectName} → ${draft.productCode} / ${draft.customerPn}`,
+      `제품코드: ${existing.productCode ? '기존 연결' : '신규 생성'}`,
+      `기준정보: ${existing.refInfo ? '기존 연결' : '골격 생성'}`,
+      `매출계획 ${draft.forecastYear}: ${existing.forecast ? '기존 라인 연결' : `초안 라인 추가 (${totalQty.toLocaleString()}EA)`}`,
+    ].join('\n'))) return;
+
+    setSaving(true);
+    try {
+      const result = buildPromotion(draft, forecast);
+      const saves: Promise<void>[] = [];
+      if (!existing.productCode) saves.push(productCodeService.saveAll([...productCodes, result.productCode]));
+      if (!existing.refInfo) saves.push(referenceInfoService.saveAll([...refInfo, result.refInfo]));
+      if (!existing.forecast) {
+        saves.push(forecastService.addItem(result.forecastItem, 'current'));
+        if (summary) saves.push(forecastService.saveSummary(addToForecastSummary(summary, result.forecastItem), 'current'));
+      }
+      await Promise.all(saves);
+      if (!existing.productCode) setProductCodes(prev => [...prev, result.productCode]);
+      if (!existing.refInfo) setRefInfo(prev => [...prev, result.refInfo]);
+      if (!existing.forecast) {
+        setForecast(prev => [...prev, result.forecastItem]);
+        setSummary(prev => (prev ? addToForecastSummary(prev, result.forecastItem) : prev));
+      }
+
+      const record: RfqPromotion = {
+        rfqKey: rfqKey(rfq),
+        rfqIndex: rfq.index,
+        rfqCustomer: rfq.customer,
+        rfqProject: rfq.projectName,
+        productCode: result.productCode.productCode,
+        customerPn: result.productCode.customerPn,
+        forecastYear: draft.forecastYear,
+        annualQty: draft.annualQty,
+        unitPrice: draft.unitPrice,
+        promotedAt: new Date().toISOString(),
+        promotedBy: await resolveEditor(),
+      };
+      await rfqPromotionService.save(record);
+      window.dispatchEvent(new CustomEvent('dashboard-data-updated'));
+      onPromoted(record);
+    } catch (err: any) {
+      alert(`RFQ 등록 실패: ${err.message || err}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-6 rounded-2xl border border-emerald-200 bg-emerald-50/30 p-5 space-y-4" data-rfq-promote>
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <h3 className="text-base font-bold text-slate-800 flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full bg-emerald-500"></span>
+            수주 RFQ 등록 — {rfq.customer} · {rfq.projectName || '(프로젝트명 없음)'}
+          </h3>
+          <p className="text-xs text-slate-500 mt-1">제품코드 · 기준정보(골격) · 매출계획 초안을 생성하고 원 RFQ와 연결합니다.</p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-sm font-bold px-2">✕</button>
+      </div>
+
+      {promotion && (
+        <div className="rounded-xl border border-slate-200 bg-white px-4 py-3 text-xs text-slate-600">
+          <span className="font-bold text-emerald-700">등록 완료</span>
+          <span className="ml-2">제품코드 <b className="font-mono">{promotion.productCode}</b> · P/N <b className="font-mono">{promotion.customerPn}</b> · {promotion.forecastYear}년 계획 {promotion.annualQty.toLocaleString()}EA/년 @ ₩{promotion.unitPrice.toLocaleString()}</span>
+          <span className="ml-2 text-slate-400">{promotion.promotedAt.slice(0, 16).replace('T', ' ')}{promotion.promotedBy ? ` · ${promotion.promotedBy}` : ''}</span>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-10">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+            <label className="space-y-1">
+              <span className="font-bold text-slate-600 flex items-center gap-1.5">제품코드 * <TargetBadge exists={plan.existing.productCode} /></span>
+              <input value={draft.productCode} onChange={e => update({ productCode: e.target.value })} className={`${inputClass} font-mono`} />
+            </label>
+            <label className="space-y-1">
+              <span className="font-bold text-slate-600 flex items-center gap-1.5">고객사 P/N * <TargetBadge exists={plan.existing.forecast} /></span>
+              <input value={draft.customerPn} onChange={e => update({ customerPn: e.target.value })} className={`${inputClass} font-mono`} />
+            </label>
+            <label className="space-y-1">
+              <span className="font-bold text-slate-600">품명</span>
+              <input value={draft.productName} onChange={e => update({ productName: e.target.value })} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="font-bold text-slate-600">고객사 *</span>
+              <input value={draft.customer} onChange={e => update({ customer: e.target.value })} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="font-bold text-slate-600">차종/모델</span>
+              <input value={draft.model} onChange={e => update({ model: e.target.value })} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="font-bold text-slate-600 flex items-center gap-1.5">품목유형 <TargetBadge exists={plan.existing.refInfo} /></span>
+              <input value={draft.processType} onChange={e => update({ processType: e.target.value })} placeholder={`RFQ 공정 ${rfq.process || '-'}`} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="font-bold text-slate-600">구분 (Forecast)</span>
+              <input value={draft.category} onChange={e => update({ category: e.target.value })} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className="font-bold text-slate-600">단가 (원)</span>
+              <input type="number" min={0} value={draft.unitPrice} onChange={e => update({ unitPrice: Number(e.target.value) || 0 })} className={`${inputClass} text-right font-mono`} />
+            </label>
+            <label className="space-y-1">
+              <span className="font-bold text-slate-600">연간 수량 (RFQ 월평균 {rfq.qty.toLocaleString()} × 12)</span>
+              <input type="number" min={0} value={draft.annualQty} onChange={e => update({ annualQty: Number(e.target.value) || 0 })} className={`${inputClass} text-right font-mono`} />
+            </label>
+            <label className="space-y-1">
+              <span className="font-bold text-slate-600">계획 연도</span>
+              <input
+                type="number"
+                value={draft.forecastYear}
+                onChange={e => {
+                  const year = Number(e.target.value) || draft.forecastYear;
+                  update({ forecastYear: year, startMonth: sopMonth(rfq.datePO, year) });
+                }}
+                className={`${inputClass} text-right font-mono`}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="font-bold text-slate-600">SOP 월 (최초주문 {rfq.datePO || '미정'})</span>
+              <select value={draft.startMonth} onChange={e => update({ startMonth: Number(e.target.value) })} className={inputClass}>
+                <option value={-1}>계획 연도 이후</option>
+                {Array.from({ length: 12 }, (_, i) => <option key={i} value={i}>{i + 1}월</option>)}
+              </select>
+            </label>
+          </div>
+
+          {summary && draft.forecastYear !== summary.year && !plan.existing.forecast && (
+            <p className="text-[11px] text-amber-600">현재 매출계획은 {summary.year}년 기준입니다. 초안 라인은 현재 계획에 추가됩니다.</p>
+          )}
+
+          {/* 월별 배분 미리보기 */}
+          <div className="overflow-x-auto border border-slate-200 rounded-xl bg-white">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="px-2 py-1.5 text-left">{draft.forecastYear}년</th>
+                  {monthlyQty.map((_, i) => <th key={i} className="px-2 py-1.5 text-right">{i + 1}월</th>)}
+                  <th className="px-2 py-1.5 text-right">합계</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td className="px-2 py-1.5 font-bold text-slate-600">수량</td>
+                  {monthlyQty.map((q, i) => <td key={i} className={`px-2 py-1.5 text-right font-mono ${q ? 'text-slate-800' : 'text-slate-300'}`}>{q.toLocaleString()}</td>)}
+                  <td className="px-2 py-1.5 text-right font-mono font-bold">{totalQty.toLocaleString()}</td>
+                </tr>
+                <tr className="border-t border-slate-50">
+                  <td className="px-2 py-1.5 font-bold text-slate-600">매출</td>
+                  {monthlyQty.map((q, i) => <td key={i} className="px-2 py-1.5 text-right font-mono text-slate-500">{q ? Math.round(q * draft.unitPrice / 1e4).toLocaleString() : '-'}</td>)}
+                  <td className="px-2 py-1.5 text-right font-mono font-bold">{Math.round(totalQty * draft.unitPrice / 1e4).toLocaleString()}</td>
+                </tr>
+              </tbody>
+            </table>
+            <div className="px-3 py-1 text-[10px] text-slate-400 border-t border-slate-50">매출 단위: 만원 · Forecast 단계 '신규'로 추가</div>
+          </div>
+
+          <div className="flex items-center justify-end gap-2">
+            {plan.missing.length > 0 && <span className="text-[11px] text-rose-500 mr-auto">필수: {plan.missing.join(', ')}</span>}
+            <button
+              onClick={handlePromote}
+              disabled={saving || plan.missing.length > 0}
+              className="px-4 py-2 rounded-xl text-xs font-bold bg-emerald-600 text-white hover:bg-emerald-700 disabled:opacity-40"
+            >
+              {saving ? '등록 중...' : promotion ? '다시 등록' : '마스터 · 매출계획 등록'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RfqPromotePanel;
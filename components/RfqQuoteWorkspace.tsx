@@ -0,0 +1,447 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { RFQItem, rfqKey } from '../utils/rfqDataParser';
+import type { ReferenceInfoRecord, MaterialCodeRecord, BomMasterRecord } from '../utils/bomMasterParser';
+import type { PurchasePrice, OutsourcePrice, PaintMixRatio, ItemStandardCost } from '../utils/standardMaterialParser';
+import {
+  QuoteLine,
+  QuoteLineKind,
+  RfqQuote,
+  QUOTE_LINE_KIND_LABEL,
+  DEFAULT_QUOTE_SETTINGS,
+  buildQuoteContext,
+  priceQuote,
+  emptyQuoteLine,
+  linesFromBom,
+} from '../utils/rfqQuote';
+import {
+  rfqQuoteService, resolveEditor,
+  referenceInfoService, materialCodeService, purchasePriceService,
+  outsourceInjPriceService, itemStandardCostService, paintMixRatioService, bomMasterService,
+} from '../services/supabaseService';
+import { normalizePn } from '../utils/bomDataParser';
+import { downloadCSV } from '../utils/csvExport';
+
+// ============================================
+// Types & Helpers
+// ============================================
+
+interface RfqQuoteWorkspaceProps {
+  rfq: RFQItem;
+  onApplyPrice: (rfqId: string, unitPrice: number) => void;
+  onClose: () => void;
+}
+
+interface MasterData {
+  refInfo: ReferenceInfoRecord[];
+  materialCodes: MaterialCodeRecord[];
+  purchasePrices: PurchasePrice[];
+  outsourcePrices: OutsourcePrice[];
+  stdCosts: ItemStandardCost[];
+  paintMixRatios: PaintMixRatio[];
+  bom: BomMasterRecord[];
+}
+
+const EMPTY_MASTER: MasterData = {
+  refInfo: [], materialCodes: [], purchasePrices: [], outsourcePrices: [], stdCosts: [], paintMixRatios: [], bom: [],
+};
+
+const settled = <T,>(res: PromiseSettledResult<T[]>): T[] => (res.status === 'fulfilled' ? res.value : []);
+
+const won = (v: number) => `₩${Math.round(v).toLocaleString()}`;
+
+const SOURCE_BADGE: Record<string, string> = {
+  '구매': 'bg-blue-50 text-blue-700',
+  '외주': 'bg-indigo-50 text-indigo-700',
+  '사출': 'bg-emerald-50 text-emerald-700',
+  '도장': 'bg-amber-50 text-amber-700',
+  '재질': 'bg-slate-100 text-slate-600',
+  '표준': 'bg-slate-100 text-slate-500',
+  '수기': 'bg-violet-50 text-violet-700',
+};
+
+const numInput = 'w-full border border-slate-200 rounded px-1.5 py-0.5 text-right font-mono bg-white';
+const textInput = 'w-full border border-slate-200 rounded px-1.5 py-0.5 bg-white';
+
+// ============================================
+// Component
+// ============================================
+
+const RfqQuoteWorkspace: React.FC<RfqQuoteWorkspaceProps> = ({ rfq, onApplyPrice, onClose }) => {
+  const quoteKey = rfqKey(rfq);
+  const [master, setMaster] = useState<MasterData>(EMPTY_MASTER);
+  const [loading, setLoading] = useState(true);
+  const [saved, setSaved] = useState<RfqQuote | null>(null);
+  const [lines, setLines] = useState<QuoteLine[]>([]);
+  const [processCost, setProcessCost] = useState(DEFAULT_QUOTE_SETTINGS.processCost);
+  const [overheadRate, setOverheadRate] = useState(DEFAULT_QUOTE_SETTINGS.overheadRate);
+  const [targetMargin, setTargetMargin] = useState(DEFAULT_QUOTE_SETTINGS.targetMargin);
+  const [note, setNote] = useState('');
+  const [bomSource, setBomSource] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const [riRes, mcRes, ppRes, opRes, iscRes, pmRes, bomRes, quoteRes] = await Promise.allSettled([
+        referenceInfoService.getAll(),
+        materialCodeService.getAll(),
+        purchasePriceService.getAll(),
+        outsourceInjPriceService.getAll(),
+        itemStandardCostService.getAll(),
+        paintMixRatioService.getAll(),
+        bomMasterService.getAll(),
+        rfqQuoteService.getAll(),
+      ]);
+      setMaster({
+        refInfo: settled(riRes),
+        materialCodes: settled(mcRes),
+        purchasePrices: settled(ppRes),
+        outsourcePrices: settled(opRes),
+        stdCosts: settled(iscRes),
+        paintMixRatios: settled(pmRes),
+        bom: settled(bomRes),
+      });
+      setSaved(settled(quoteRes).find(q => q.rfqKey === quoteKey) || null);
+      setLoading(false);
+    };
+    load();
+  }, [quoteKey]);
+
+  // 저장된 견적 → 편집 상태
+  useEffect(() => {
+    setLines(saved?.lines || []);
+    setProcessCost(saved?.processCost ?? DEFAULT_QUOTE_SETTINGS.processCost);
+    setOverheadRate(saved?.overheadRate ?? DEFAULT_QUOTE_SETTINGS.overheadRate);
+    setTargetMargin(saved?.targetMargin ?? DEFAULT_QUOTE_SETTINGS.targetMargin);
+    setNote(saved?.note || '');
+  }, [saved]);
+
+  const ctx = useMemo(
+    () => buildQuoteContext(master.refInfo, master.materialCodes, master.purchasePrices, master.outsourcePrices, master.stdCosts, master.paintMixRatios),
+    [master],
+  );
+
+  const pricing = useMemo(
+    () => priceQuote({ lines, processCost, overheadRate, targetMargin }, ctx),
+    [lines, processCost, overheadRate, targetMargin, ctx],
+  );
+
+  const resinOptions = useMemo(
+    () => master.materialCodes.filter(m => m.materialCode && !/PAINT|도료/i.test([m.materialType, m.materialCategory, m.paintCategory].join('|'))),
+    [master.materialCodes],
+  );
+  const paintOptions = useMemo(() => {
+    const seen = new Set<string>();
+    return master.paintMixRatios.filter(p => p.paintCode && !seen.has(p.paintCode) && seen.add(p.paintCode));
+  }, [master.paintMixRatios]);
+  const parentOptions = useMemo(
+    () => Array.from(new Set(master.bom.map(r => r.parentPn).filter(Boolean))).sort(),
+    [master.bom],
+  );
+
+  const updateLine = (id: string, patch: Partial<QuoteLine>) =>
+    setLines(prev => prev.map(l => (l.id === id ? { ...l, ...patch } : l)));
+
+  const changeKind = (line: QuoteLine, kind: QuoteLineKind) =>
+    updateLine(line.id, { ...emptyQuoteLine(kind), id: line.id, partNo: line.partNo, partName: line.partName, qty: line.qty });
+
+  const handleExistingPn = (line: QuoteLine, partNo: string) => {
+    const ri = ctx.refInfoMap.get(normalizePn(partNo));
+    updateLine(line.id, { partNo, partName: ri?.itemName || line.partName });
+  };
+
+  const handleLoadBom = () => {
+    const loaded = linesFromBom(bomSource, master.bom);
+    if (loaded.length === 0) {
+      alert(`${bomSource} 의 BOM 하위 품목이 없습니다.`);
+      return;
+    }
+    if (lines.length > 0 && !window.confirm(`현재 ${lines.length}개 라인에 ${loaded.length}개 품목을 추가합니다.`)) return;
+    setLines(prev => [...prev, ...loaded]);
+    setBomSource('');
+  };
+
+  const handleSave = async (apply: boolean) => {
+    setSaving(true);
+    try {
+      const quote: RfqQuote = {
+        rfqKey: quoteKey,
+        lines,
+        processCost,
+        overheadRate,
+        targetMargin,
+        materialCost: pricing.materialCost,
+        totalCost: pricing.totalCost,
+        suggestedPrice: pricing.suggestedPrice,
+        note: note || undefined,
+        updatedAt: new Date().toISOString(),
+        updatedBy: await resolveEditor(),
+      };
+      await rfqQuoteService.save(quote);
+      setSaved(quote);
+      if (apply) onApplyPrice(rfq.id, Math.round(pricing.suggestedPrice));
+    } catch (err: any) {
+      alert(`견적 저장 실패: ${err.message || err}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = () => {
+    const headers = ['구분', '품번', '품명', '소요량', '사양', '단가', '출처', '금액'];
+    const rows: (string | number)[][] = pricing.lines.map(({ line, unitPrice, source, amount }) => [
+      QUOTE_LINE_KIND_LABEL[line.kind], line.partNo, line.partName, line.qty,
+      line.kind === 'injection' ? `${line.materialCode || ''} NET ${line.netWeight || 0}g / Runner ${line.runnerWeight || 0}g / ${line.cavity || 1}cav / Loss ${line.lossRate || 0}%`
+        : line.kind === 'paint' ? `${line.paintCode || ''} 취수 ${line.paintIntake || 0}` : '',
+      Math.round(unitPrice * 100) / 100, source, Math.round(amount * 100) / 100,
+    ]);
+    rows.push(
+      ['', '', '재료비', '', '', '', '', Math.round(pricing.materialCost)],
+      ['', '', '가공비', '', '', '', '', Math.round(pricing.processCost)],
+      ['', '', `관리비 (${overheadRate}%)`, '', '', '', '', Math.round(pricing.overhead)],
+      ['', '', '총원가', '', '', '', '', Math.round(pricing.totalCost)],
+      ['', '', `제안 단가 (이익률 ${targetMargin}%)`, '', '', '', '', Math.round(pricing.suggestedPrice)],
+    );
+    downloadCSV(`RFQ견적_${rfq.projectName || rfq.index}`, headers, rows);
+  };
+
+  const dirty = !saved
+    ? lines.length > 0
+    : JSON.stringify({ lines, processCost, overheadRate, targetMargin, note: note || undefined })
+      !== JSON.stringify({ lines: saved.lines, processCost: saved.processCost, overheadRate: saved.overheadRate, targetMargin: saved.targetMargin, note: saved.note });
+  const priceDrift = saved && !dirty ? pricing.suggestedPrice - saved.suggestedPrice : 0;
+
+  return (
+    <div className="mt-6 rounded-2xl border border-blue-200 bg-blue-50/30 p-5 space-y-4" data-rfq-quote>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-3">
+        <div>
+          <h3 className="text-base font-bold text-slate-800 flex items-center gap-2">
+            <span className="w-2 h-2 rounded-full bg-blue-600"></span>
+            견적 원가 산출 — {rfq.customer} · {rfq.projectName || '(프로젝트명 없음)'}
+          </h3>
+          <p className="text-xs text-slate-500 mt-1">
+            BOM 원가와 동일한 단가 로직(구매 → 사출 → 도장 → 재질 → 표준)으로 가안 BOM을 평가합니다.
+            {saved && <span className="ml-2 text-slate-400">저장 {saved.updatedAt.slice(0, 16).replace('T', ' ')}{saved.updatedBy ? ` · ${saved.updatedBy}` : ''}</span>}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={handleExport} disabled={lines.length === 0} className="px-3 py-1.5 rounded-lg text-xs font-bold bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40">CSV</button>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700 text-sm font-bold px-2">✕</button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-10">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600" />
+        </div>
+      ) : (
+        <>
+          {/* 라인 추가 */}
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            {(Object.keys(QUOTE_LINE_KIND_LABEL) as QuoteLineKind[]).map(kind => (
+              <button
+                key={kind}
+                onClick={() => setLines(prev => [...prev, emptyQuoteLine(kind)])}
+                className="px-3 py-1.5 rounded-lg font-bold bg-white border border-slate-200 text-slate-600 hover:bg-slate-50"
+              >
+                + {QUOTE_LINE_KIND_LABEL[kind]}
+              </button>
+            ))}
+            <span className="mx-2 h-4 w-px bg-slate-200" />
+            <input
+              list="rfq-quote-parent-list"
+              value={bomSource}
+              onChange={e => setBomSource(e.target.value)}
+              placeholder="유사 제품 품번"
+              className="border border-slate-200 rounded-lg px-2 py-1.5 w-40 bg-white"
+            />
+            <datalist id="rfq-quote-parent-list">
+              {parentOptions.slice(0, 500).map(pn => <option key={pn} value={pn} />)}
+            </datalist>
+            <button
+              onClick={handleLoadBom}
+              disabled={!bomSource.trim()}
+              className="px-3 py-1.5 rounded-lg font-bold bg-slate-800 text-white hover:bg-slate-700 disabled:opacity-40"
+            >
+              BOM 불러오기
+            </button>
+          </div>
+
+          <datalist id="rfq-quote-resin-list">
+            {resinOptions.map(m => <option key={m.materialCode} value={m.materialCode}>{m.materialName}</option>)}
+          </datalist>
+          <datalist id="rfq-quote-paint-list">
+            {paintOptions.map(p => <option key={p.paintCode} value={p.paintCode}>{p.paintName}</option>)}
+          </datalist>
+
+          {/* 견적 BOM */}
+          <div className="overflow-x-auto border border-slate-200 rounded-xl bg-white">
+            <table className="w-full text-xs">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="px-2 py-2 text-left w-28">구분</th>
+                  <th className="px-2 py-2 text-left w-36">품번</th>
+                  <th className="px-2 py-2 text-left w-40">품명</th>
+                  <th className="px-2 py-2 text-right w-16">소요량</th>
+                  <th className="px-2 py-2 text-left">사양</th>
+                  <th className="px-2 py-2 text-right w-24">단가</th>
+                  <th className="px-2 py-2 text-center w-14">출처</th>
+                  <th className="px-2 py-2 text-right w-24">금액</th>
+                  <th className="px-2 py-2 w-8"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-50">
+                {pricing.lines.map(({ line, unitPrice, source, amount, paint }) => (
+                  <tr key={line.id} className={source ? '' : 'bg-rose-50/40'}>
+                    <td className="px-2 py-1.5">
+                      <select value={line.kind} onChange={e => changeKind(line, e.target.value as QuoteLineKind)} className={textInput}>
+                        {(Object.keys(QUOTE_LINE_KIND_LABEL) as QuoteLineKind[]).map(k => <option key={k} value={k}>{QUOTE_LINE_KIND_LABEL[k]}</option>)}
+                      </select>
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <input
+                        value={line.partNo}
+                        onChange={e => (line.kind === 'existing' ? handleExistingPn(line, e.target.value) : updateLine(line.id, { partNo: e.target.value }))}
+                        placeholder={line.kind === 'existing' ? '품번' : '가품번'}
+                        className={`${textInput} font-mono`}
+                      />
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <input value={line.partName} onChange={e => updateLine(line.id, { partName: e.target.value })} className={textInput} />
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <input type="number" min={0} step="any" value={line.qty} onChange={e => updateLine(line.id, { qty: Number(e.target.value) || 0 })} className={numInput} />
+                    </td>
+                    <td className="px-2 py-1.5">
+                      {line.kind === 'injection' && (
+                        <div className="grid grid-cols-5 gap-1 min-w-[360px]">
+                          <input list="rfq-quote-resin-list" value={line.materialCode || ''} onChange={e => updateLine(line.id, { materialCode: e.target.value })} placeholder="원재료" title="원재료(수지) 코드" className={`${textInput} font-mono`} />
+                          <input type="number" min={0} step="any" value={line.netWeight ?? ''} onChange={e => updateLine(line.id, { netWeight: Number(e.target.value) || 0 })} placeholder="NET g" title="NET 중량 (g)" className={numInput} />
+                          <input type="number" min={0} step="any" value={line.runnerWeight ?? ''} onChange={e => updateLine(line.id, { runnerWeight: Number(e.target.value) || 0 })} placeholder="Runner g" title="Runner 중량 (g)" className={numInput} />
+                          <input type="number" min={1} value={line.cavity ?? ''} onChange={e => updateLine(line.id, { cavity: Number(e.target.value) || 1 })} placeholder="Cavity" title="Cavity" className={numInput} />
+                          <input type="number" min={0} step="any" value={line.lossRate ?? ''} onChange={e => updateLine(line.id, { lossRate: Number(e.target.value) || 0 })} placeholder="Loss %" title="Loss율 (%)" className={numInput} />
+                        </div>
+                      )}
+                      {line.kind === 'paint' && (
+                        <div className="grid grid-cols-2 gap-1 min-w-[220px]">
+                          <input list="rfq-quote-paint-list" value={line.paintCode || ''} onChange={e => updateLine(line.id, { paintCode: e.target.value })} placeholder="도료코드" title="도료 코드 (배합비 등록 필요)" className={`${textInput} font-mono`} />
+                          <input type="number" min={0} step="any" value={line.paintIntake ?? ''} onChange={e => updateLine(line.id, { paintIntake: Number(e.target.value) || 0 })} placeholder="취수" title="도장 취수 (EA/kg)" className={numInput} />
+                        </div>
+                      )}
+                      {line.kind === 'manual' && (
+                        <input type="number" min={0} step="any" value={line.manualPrice ?? ''} onChange={e => updateLine(line.id, { manualPrice: Number(e.target.value) || 0 })} placeholder="단가 (원)" className={`${numInput} max-w-[120px]`} />
+                      )}
+                      {paint && (
+                        <div className="text-[10px] text-slate-400 mt-0.5">
+                          배합 {won(paint.mixCostPerKg)}/kg ÷ 취수 {paint.paintIntake}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-2 py-1.5 text-right font-mono">{unitPrice > 0 ? unitPrice.toLocaleString(undefined, { maximumFractionDigits: 1 }) : '-'}</td>
+                    <td className="px-2 py-1.5 text-center">
+                      {source
+                        ? <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${SOURCE_BADGE[source] || 'bg-slate-100 text-slate-600'}`}>{source}</span>
+                        : <span className="text-[10px] font-bold text-rose-500">미산출</span>}
+                    </td>
+                    <td className="px-2 py-1.5 text-right font-mono font-bold text-slate-800">{amount > 0 ? amount.toLocaleString(undefined, { maximumFractionDigits: 1 }) : '-'}</td>
+                    <td className="px-2 py-1.5 text-center">
+                      <button onClick={() => setLines(prev => prev.filter(l => l.id !== line.id))} className="text-slate-300 hover:text-rose-500 font-bold" title="삭제">✕</button>
+                    </td>
+                  </tr>
+                ))}
+                {lines.length === 0 && (
+                  <tr>
+                    <td colSpan={9} className="px-4 py-8 text-center text-slate-400">
+                      라인을 추가하거나 유사 제품의 BOM을 불러오세요.
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {pricing.unpricedCount > 0 && (
+            <p className="text-[11px] text-rose-600">
+              단가를 산출하지 못한 라인 {pricing.unpricedCount}개 — 품번의 구매단가/기준정보, 원재료·도료 단가 또는 배합비 등록을 확인하세요.
+            </p>
+          )}
+
+          {/* 원가 → 제안 단가 */}
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <div className="rounded-xl border border-slate-200 bg-white p-4 space-y-3 text-xs">
+              <label className="flex items-center justify-between gap-3">
+                <span className="font-bold text-slate-600">가공비 (원/EA)</span>
+                <input type="number" min={0} step="any" value={processCost} onChange={e => setProcessCost(Number(e.target.value) || 0)} className={`${numInput} max-w-[120px]`} />
+              </label>
+              <label className="flex items-center justify-between gap-3">
+                <span className="font-bold text-slate-600">관리비·경비율 (%)</span>
+                <input type="number" min={0} step="any" value={overheadRate} onChange={e => setOverheadRate(Number(e.target.value) || 0)} className={`${numInput} max-w-[120px]`} />
+              </label>
+              <label className="flex items-center justify-between gap-3">
+                <span className="font-bold text-slate-600">목표 이익률 (%)</span>
+                <input type="number" min={0} max={99} step="any" value={targetMargin} onChange={e => setTargetMargin(Number(e.target.value) || 0)} className={`${numInput} max-w-[120px]`} />
+              </label>
+              <textarea value={note} onChange={e => setNote(e.target.value)} placeholder="견적 메모" rows={2} className={`${textInput} text-left`} />
+            </div>
+
+            <div className="rounded-xl border border-slate-200 bg-white p-4 text-xs space-y-1.5">
+              {[
+                ['재료비', pricing.materialCost],
+                ['가공비', pricing.processCost],
+                [`관리비·경비 (${overheadRate}%)`, pricing.overhead],
+              ].map(([label, v]) => (
+                <div key={label as string} className="flex justify-between text-slate-600">
+                  <span>{label}</span><span className="font-mono">{won(v as number)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-bold text-slate-800 border-t border-slate-100 pt-1.5">
+                <span>총원가</span><span className="font-mono">{won(pricing.totalCost)}</span>
+              </div>
+              <div className="flex justify-between text-emerald-700">
+                <span>이익 ({targetMargin}%)</span><span className="font-mono">{won(pricing.marginAmount)}</span>
+              </div>
+            </div>
+
+            <div className="rounded-xl border border-blue-200 bg-white p-4 flex flex-col justify-between gap-3">
+              <div>
+                <div className="text-[11px] font-bold text-slate-500">제안 단가</div>
+                <div className="text-2xl font-black text-blue-700 font-mono">{won(pricing.suggestedPrice)}</div>
+                <div className="text-[11px] text-slate-400 mt-1">
+                  현재 예상단가 {won(rfq.unitPrice)}
+                  {rfq.unitPrice > 0 && pricing.suggestedPrice > 0 && (
+                    <span className={`ml-1 font-bold ${pricing.suggestedPrice >= rfq.unitPrice ? 'text-rose-500' : 'text-emerald-600'}`}>
+                      ({pricing.suggestedPrice >= rfq.unitPrice ? '+' : ''}{(((pricing.suggestedPrice - rfq.unitPrice) / rfq.unitPrice) * 100).toFixed(1)}%)
+                    </span>
+                  )}
+                </div>
+                {Math.abs(priceDrift) >= 0.5 && (
+                  <div className="text-[11px] text-amber-600 mt-1">
+                    저장 이후 단가 변동으로 제안 단가가 {won(priceDrift)} 달라졌습니다.
+                  </div>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => handleSave(false)}
+                  disabled={saving || lines.length === 0}
+                  className="flex-1 px-3 py-2 rounded-lg text-xs font-bold bg-slate-100 text-slate-700 hover:bg-slate-200 disabled:opacity-40"
+                >
+                  {dirty ? '견적 저장' : '저장됨'}
+                </button>
+                <button
+                  onClick={() => handleSave(true)}
+                  disabled={saving || lines.length === 0 || !(pricing.suggestedPrice > 0)}
+                  className="flex-1 px-3 py-2 rounded-lg text-xs font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40"
+                >
+                  저장 후 예상단가 반영
+                </button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RfqQuoteWorkspace;
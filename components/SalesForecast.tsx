@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { safeSetItem } from '../utils/safeStorage';
+import { storage } from '../utils/storage';
 import {
   ResponsiveContainer,
   ComposedChart,
@@ -21,7 +22,10 @@ import {
 } from '../utils/salesForecastParser';
 import { downloadCSV } from '../utils/csvExport';
 import { isSupabaseConfigured } from '../lib/supabase';
-import { forecastService } from '../services/supabaseService';
+import { forecastService, forecastRevisionService } from '../services/supabaseService';
+import type { ForecastRevision } from '../utils/forecastRevision';
+import ForecastRevisionPanel from './ForecastRevisionPanel';
+import StatForecastPanel from './StatForecastPanel';
 
 // ============================================
 // Constants
@@ -62,35 +66,35 @@ const SalesForecast: React.FC = () => {
   // --- State ---
   const [forecastItems, setForecastItems] = useState<ForecastItem[]>(() => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_FORECAST);
+      const stored = storage.getItem(STORAGE_KEY_FORECAST);
       return stored ? JSON.parse(stored) : [];
     } catch { return []; }
   });
 
   const [summary, setSummary] = useState<ForecastSummary | null>(() => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_FORECAST + '_summary');
+      const stored = storage.getItem(STORAGE_KEY_FORECAST + '_summary');
       return stored ? JSON.parse(stored) : null;
     } catch { return null; }
   });
 
   const [uploads, setUploads] = useState<ForecastUpload[]>(() => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_UPLOADS);
+      const stored = storage.getItem(STORAGE_KEY_UPLOADS);
       return stored ? JSON.parse(stored) : [];
     } catch { return []; }
   });
 
   const [prevItems, setPrevItems] = useState<ForecastItem[]>(() => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_PREV_FORECAST);
+      const stored = storage.getItem(STORAGE_KEY_PREV_FORECAST);
       return stored ? JSON.parse(stored) : [];
     } catch { return []; }
   });
 
   const [prevSummary, setPrevSummary] = useState<ForecastSummary | null>(() => {
     try {
-      const stored = localStorage.getItem(STORAGE_KEY_PREV_SUMMARY);
+      const stored = storage.getItem(STORAGE_KEY_PREV_SUMMARY);
       return stored ? JSON.parse(stored) : null;
     } catch { return null; }
   });
@@ -104,6 +108,8 @@ const SalesForecast: React.FC = () => {
   const [diffOpen, setDiffOpen] = useState(true);
   const [uploadHistoryOpen, setUploadHistoryOpen] = useState(false);
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<ForecastRevision[]>([]);
+  const [showRevisions, setShowRevisions] = useState(false);
 
   // Filters & Sort
   const [filter, setFilter] = useState({
@@ -184,6 +190,13 @@ const SalesForecast: React.FC = () => {
     loadFromSupabase();
   }, []);
 
+  // --- 개정본 스냅샷 로드 ---
+  useEffect(() => {
+    forecastRevisionService.getAll()
+      .then(setRevisions)
+      .catch(err => console.error('매출계획 개정본 로드 실패:', err));
+  }, []);
+
   // --- File Upload Handler ---
   const handleFileUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -232,6 +245,11 @@ const SalesForecast: React.FC = () => {
       setUploads(updatedUploads);
       safeSetItem(STORAGE_KEY_UPLOADS, JSON.stringify(updatedUploads));
 
+      // 개정본 스냅샷 보관 (개정 비교용)
+      const revision: ForecastRevision = { upload: newUpload, items: result.items };
+      setRevisions(prev => [...prev.filter(r => r.upload.id !== newUpload.id), revision]);
+      forecastRevisionService.save(revision).catch(err => console.error('매출계획 개정본 저장 실패:', err));
+
       // Supabase 저장 (모두 await — 다른 기기에서 조회되도록)
       const supabaseErrors: string[] = [];
       if (isSupabaseConfigured()) {
@@ -577,9 +595,38 @@ const SalesForecast: React.FC = () => {
     safeSetItem(STORAGE_KEY_UPLOADS, JSON.stringify(updated));
     forecastService.deleteUpload(uploadId).catch(err => console.error('업로드이력 삭제 실패:', err));
     forecastService.saveUploads(updated).catch(err => console.error('업로드이력 동기화 실패:', err));
+    setRevisions(prev => prev.filter(r => r.upload.id !== uploadId));
+    forecastRevisionService.delete(uploadId).catch(err => console.error('매출계획 개정본 삭제 실패:', err));
     setDeleteConfirmId(null);
   };
 
+  // 개정 비교 목록 (최신순) — 스냅샷 보관 이전 업로드는 현재/이전 데이터로 보완
+  const revisionList = useMemo(() => {
+    const list = [...revisions];
+    const ensure = (upload: ForecastUpload | undefined, items: ForecastItem[], fallbackId: string, fallback: ForecastSummary | null) => {
+      if (items.length === 0) return;
+      if (upload && list.some(r => r.upload.id === upload.id)) return;
+      list.push({
+        upload: upload || {
+          id: fallbackId,
+          fileName: '',
+          uploadDate: '',
+          reportDate: fallback?.reportDate || '',
+          revision: fallback?.revision || (fallbackId === '__current' ? '현재' : '이전'),
+          year: fallback?.year || 0,
+          totalRevenue: fallback?.totalRevenue || items.reduce((s, i) => s + i.totalRevenue, 0),
+          totalQty: fallback?.totalQty || items.reduce((s, i) => s + i.totalQty, 0),
+          itemCount: items.length,
+        },
+        items,
+      });
+    };
+    ensure(uploads[0], forecastItems, '__current', summary);
+    ensure(uploads[1], prevItems, '__previous', prevSummary);
+    return list.sort((a, b) =>
+      (b.upload.uploadDate || (b.upload.id === '__current' ? '~' : '')).localeCompare(a.upload.uploadDate || (a.upload.id === '__current' ? '~' : '')));
+  }, [revisions, uploads, forecastItems, prevItems, summary, prevSummary]);
+
   // --- SortableHeader Component ---
   const SortableHeader = ({ label, sortKey, align = 'left' }: { label: string; sortKey: string; align?: string }) => (
     <th
@@ -613,6 +660,13 @@ const SalesForecast: React.FC = () => {
             <span>📊</span> {isUploading ? '파싱 중...' : '엑셀 업로드 (.xlsx)'}
             <input type="file" accept=".xlsx,.xls" onChange={handleFileUpload} className="hidden" disabled={isUploading} />
           </label>
+          <button
+            onClick={() => setShowRevisions(true)}
+            disabled={revisionList.length === 0}
+            className="px-4 py-2 rounded-xl text-xs font-bold bg-slate-100 hover:bg-slate-200 text-slate-700 transition-colors disabled:opacity-40"
+          >
+            개정 비교 ({revisionList.length})
+          </button>
           <select
             value={selectedCustomer}
             onChange={(e) => setSelectedCustomer(e.target.value)}
@@ -810,6 +864,9 @@ const SalesForecast: React.FC = () => {
             </div>
           </div>
 
+          {/* 통계 예측 vs 고객 계획 */}
+          {summary?.year && <StatForecastPanel planItems={filteredByCustomer} planYear={summary.year} />}
+
           {/* Revision Diff - 전기 대비 증감내역 */}
           {changeItems.length > 0 && (
             <div className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm">
@@ -1153,6 +1210,10 @@ const SalesForecast: React.FC = () => {
           </div>
         </>
       )}
+
+      {showRevisions && (
+        <ForecastRevisionPanel revisions={revisionList} onClose={() => setShowRevisions(false)} />
+      )}
     </section>
   );
 };
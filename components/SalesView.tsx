@@ -1,8 +1,10 @@
 
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, lazy, Suspense } from 'react';
 import * as XLSX from 'xlsx';
 import MetricCard from './MetricCard';
 import { safeSetItem } from '../utils/safeStorage';
+import { storage } from '../utils/storage';
+import { pullPreservingLocal } from '../utils/syncMerge';
 import { ResponsiveContainer, ComposedChart, BarChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, LabelList, PieChart, Pie, Cell } from 'recharts';
 import { parseSalesCSV, CustomerSalesData, SalesItem } from '../utils/salesDataParser';
 import { parseCRCSV, CRItem } from '../utils/crDataParser';
@@ -13,11 +15,19 @@ import { INITIAL_CR_CSV } from '../data/initialCRData';
 import { INITIAL_RFQ_CSV } from '../data/initialRfqData';
 import { downloadCSV } from '../utils/csvExport';
 import { isSupabaseConfigured } from '../lib/supabase';
-import { salesService, crService, rfqService, revenueService, itemRevenueService } from '../services/supabaseService';
+import { salesService, crService, rfqService, revenueService, itemRevenueService, columnMappingService, rfqPromotionService } from '../services/supabaseService';
+import { classifyRfqStage, isWonStage } from '../utils/rfqPipeline';
+import { RfqPromotion, findPromotion } from '../utils/rfqPromotion';
 import SalesForecast from './SalesForecast';
+import PartPriceDownPanel from './PartPriceDownPanel';
 import type { ForecastItem, ForecastSummary } from '../utils/salesForecastParser';
 import { useColumnResize } from '../hooks/useColumnResize';
 
+const ProfitabilityView = lazy(() => import('./ProfitabilityView'));
+const RfqQuoteWorkspace = lazy(() => import('./RfqQuoteWorkspace'));
+const RfqPipelinePanel = lazy(() => import('./RfqPipelinePanel'));
+const RfqPromotePanel = lazy(() => import('./RfqPromotePanel'));
+
 // Options for Dropdowns
 const RFQ_PROCESS_OPTIONS = ['I', 'I/S', 'I/S/A', 'I/S/P', 'I/S/P/A', '선행', '기타'];
 const RFQ_STATUS_OPTIONS = ['양산', '수주', '수주 검토', '개발', '개발 Drop', '가격 검토', '가격 분석', '수주 실패', '수주 포기', '진행중'];
@@ -68,7 +78,7 @@ const SalesView: React.FC = () => {
   const getInitialSalesData = (): CustomerSalesData[] => {
     if (typeof window === 'undefined') return parseSalesCSV(INITIAL_CSV_DATA);
     try {
-      const stored = localStorage.getItem('dashboard_salesData');
+      const stored = storage.getItem('dashboard_salesData');
       return stored ? JSON.parse(stored) : parseSalesCSV(INITIAL_CSV_DATA);
     } catch (e) {
       console.error("Failed to load sales data", e);
@@ -81,7 +91,7 @@ const SalesView: React.FC = () => {
   const getInitialCRData = (): CRItem[] => {
     if (typeof window === 'undefined') return parseCRCSV(INITIAL_CR_CSV, 2025);
     try {
-      const stored = localStorage.getItem('dashboard_crData');
+      const stored = storage.getItem('dashboard_crData');
       if (stored) {
         const parsed: CRItem[] = JSON.parse(stored);
         // Backward compat: add year=2025 if missing
@@ -97,7 +107,7 @@ const SalesView: React.FC = () => {
   const getInitialRFQData = (): RFQItem[] => {
     if (typeof window === 'undefined') return parseRFQCSV(INITIAL_RFQ_CSV);
     try {
-      const stored = localStorage.getItem('dashboard_rfqData');
+      const stored = storage.getItem('dashboard_rfqData');
       return stored ? JSON.parse(stored) : parseRFQCSV(INITIAL_RFQ_CSV);
     } catch (e) {
       return parseRFQCSV(INITIAL_RFQ_CSV);
@@ -108,7 +118,7 @@ const SalesView: React.FC = () => {
   const getInitialRevenueData = (): RevenueItem[] => {
     if (typeof window === 'undefined') return [];
     try {
-      const stored = localStorage.getItem('dashboard_revenueData');
+      const stored = storage.getItem('dashboard_revenueData');
       return stored ? JSON.parse(stored) : [];
     } catch (e) {
       console.error("Failed to load revenue data", e);
@@ -117,7 +127,7 @@ const SalesView: React.FC = () => {
   };
 
   // --- State Management ---
-  const [activeSubTab, setActiveSubTab] = useState<'forecast' | 'sales' | 'unitprice' | 'cr'>('forecast');
+  const [activeSubTab, setActiveSubTab] = useState<'forecast' | 'sales' | 'profit' | 'unitprice' | 'cr'>('forecast');
 
   // 업로드 직후 Supabase mount load가 덮어쓰지 않도록 보호
   const justUploadedRef = useRef(false);
@@ -147,6 +157,9 @@ const SalesView: React.FC = () => {
     customer: '', project: '', status: '', model: '', type: ''
   });
   const [rfqSortConfig, setRfqSortConfig] = useState<{ key: keyof RFQItem; direction: 'asc' | 'desc' } | null>(null);
+  const [quoteRfqId, setQuoteRfqId] = useState<string | null>(null);
+  const [promoteRfqId, setPromoteRfqId] = useState<string | null>(null);
+  const [rfqPromotions, setRfqPromotions] = useState<RfqPromotion[]>([]);
 
   // Revenue States (고객사별 매출현황)
   const [revenueData, setRevenueData] = useState<RevenueItem[]>(getInitialRevenueData);
@@ -167,10 +180,10 @@ const SalesView: React.FC = () => {
   // 매출계획 데이터 로드 (탭 전환 시마다 최신 데이터 반영)
   useEffect(() => {
     try {
-      const stored = localStorage.getItem('dashboard_forecastData');
+      const stored = storage.getItem('dashboard_forecastData');
       if (stored) setForecastItems(JSON.parse(stored));
       else setForecastItems([]);
-      const storedSummary = localStorage.getItem('dashboard_forecastData_summary');
+      const storedSummary = storage.getItem('dashboard_forecastData_summary');
       if (storedSummary) setForecastSummary(JSON.parse(storedSummary));
       else setForecastSummary(null);
     } catch { /* ignore */ }
@@ -187,7 +200,7 @@ const SalesView: React.FC = () => {
   const getInitialItemRevenueData = (): ItemRevenueRow[] => {
     if (typeof window === 'undefined') return [];
     try {
-      const stored = localStorage.getItem('dashboard_itemRevenueData');
+      const stored = storage.getItem('dashboard_itemRevenueData');
       return stored ? JSON.parse(stored) : [];
     } catch {
       return [];
@@ -228,9 +241,12 @@ const SalesView: React.FC = () => {
           if (supabaseCR && supabaseCR.length > 0) {
             // Backward compat: ensure year field exists
             const withYear = supabaseCR.map(item => ({ ...item, year: item.year || 2025 }));
-            setCrData(withYear);
-            safeSetItem('dashboard_crData', JSON.stringify(withYear));
-            console.log(`✅ Supabase에서 CR 데이터 로드: ${withYear.length}개`);
+            // 미동기화 로컬 수정분은 유지
+            const localCR: CRItem[] = JSON.parse(storage.getItem('dashboard_crData') || '[]');
+            const merged = pullPreservingLocal('dashboard_crData', localCR, withYear);
+            setCrData(merged);
+            safeSetItem('dashboard_crData', JSON.stringify(merged));
+            console.log(`✅ Supabase에서 CR 데이터 로드: ${merged.length}개`);
           } else {
             console.log('ℹ️ Supabase CR 데이터 없음 - localStorage 유지');
           }
@@ -242,9 +258,11 @@ const SalesView: React.FC = () => {
         try {
           const supabaseRFQ = await rfqService.getAll();
           if (supabaseRFQ && supabaseRFQ.length > 0) {
-            setRfqData(supabaseRFQ);
-            safeSetItem('dashboard_rfqData', JSON.stringify(supabaseRFQ));
-            console.log(`✅ Supabase에서 RFQ 데이터 로드: ${supabaseRFQ.length}개`);
+            const localRFQ: RFQItem[] = JSON.parse(storage.getItem('dashboard_rfqData') || '[]');
+            const merged = pullPreservingLocal('dashboard_rfqData', localRFQ, supabaseRFQ);
+            setRfqData(merged);
+            safeSetItem('dashboard_rfqData', JSON.stringify(merged));
+            console.log(`✅ Supabase에서 RFQ 데이터 로드: ${merged.length}개`);
           } else {
             console.log('ℹ️ Supabase RFQ 데이터 없음 - localStorage 유지');
           }
@@ -292,15 +310,15 @@ const SalesView: React.FC = () => {
     const handler = (e: Event) => {
       if (!(e instanceof CustomEvent) || !e.detail) return;
       try {
-        const s = localStorage.getItem('dashboard_salesData');
+        const s = storage.getItem('dashboard_salesData');
         if (s) setSalesData(JSON.parse(s));
-        const r = localStorage.getItem('dashboard_revenueData');
+        const r = storage.getItem('dashboard_revenueData');
         if (r) setRevenueData(JSON.parse(r));
-        const ir = localStorage.getItem('dashboard_itemRevenueData');
+        const ir = storage.getItem('dashboard_itemRevenueData');
         if (ir) setItemRevenueData(JSON.parse(ir));
-        const rq = localStorage.getItem('dashboard_rfqData');
+        const rq = storage.getItem('dashboard_rfqData');
         if (rq) setRfqData(JSON.parse(rq));
-        const cr = localStorage.getItem('dashboard_crData');
+        const cr = storage.getItem('dashboard_crData');
         if (cr) setCrData(JSON.parse(cr));
       } catch { /* ignore */ }
     };
@@ -864,7 +882,7 @@ const SalesView: React.FC = () => {
       setIsUploadingRevenue(true);
       try {
         const csvText = await readFileAsCSVText(file);
-        const parsed = parseRevenueCSV(csvText, selectedRevenueYear);
+        const parsed = parseRevenueCSV(csvText, selectedRevenueYear, await columnMappingService.get('revenue'));
 
         setRevenueData(prev => {
           const otherYears = prev.filter(d => d.year !== selectedRevenueYear);
@@ -902,7 +920,7 @@ const SalesView: React.FC = () => {
       }
 
       console.log('📂 품목별 매출 파싱 시작...');
-      const parsed = parseItemRevenueCSV(csvText);
+      const parsed = parseItemRevenueCSV(csvText, await columnMappingService.get('itemRevenue'));
 
       if (parsed.length === 0) {
         alert('파일에서 데이터를 찾을 수 없습니다.\n파일 형식을 확인해주세요.\n\n필요한 컬럼: (첫 열 비움), 매출기간, 고객사, model, 품번, 고객사p/n, 품명, 매출수량, 매출금액');
@@ -1124,6 +1142,23 @@ const SalesView: React.FC = () => {
     }));
   };
 
+  useEffect(() => {
+    rfqPromotionService.getAll().then(setRfqPromotions).catch(err => console.error('RFQ 등록 이력 로드 실패:', err));
+  }, []);
+
+  const handleRfqPromoted = (promotion: RfqPromotion) => {
+    setRfqPromotions(prev => [...prev.filter(p => p.rfqKey !== promotion.rfqKey), promotion]);
+  };
+
+  // 견적 원가 산출 결과 → 예상단가/예상매출 반영
+  const handleApplyQuotePrice = (id: string, unitPrice: number) => {
+    setRfqData(prev => prev.map(item => (item.id === id ? { ...item, unitPrice, amount: item.qty * unitPrice } : item)));
+  };
+
+  const handleRfqLostReasonChange = (id: string, reason: string) => {
+    setRfqData(prev => prev.map(item => (item.id === id ? { ...item, lostReason: reason || undefined } : item)));
+  };
+
   const handleAddRfqRow = () => {
     const newId = `rfq-new-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     const newItem: RFQItem = {
@@ -1167,10 +1202,10 @@ const SalesView: React.FC = () => {
 
   // Downloads
   const handleDownloadQty = () => { const headers = ['고객사', 'Model', '품번', '품명', '총계획', '총실적', '달성률(%)']; const rows = filteredQtyItems.map(item => [item.customer, item.model, item.partNo, item.partName, item.totalPlan, item.totalActual, item.rate.toFixed(1)]); downloadCSV(`매출수량_현황_${selectedQtyCustomer}`, headers, rows); };
-  const handleDownloadRfq = () => { const headers = ['순번', '고객사', '제품군', '프로젝트명', '공정단계', '현상태', '시작일', '견적일', '최초주문일', 'Model', '월평균수량', '예상단가', '예상매출', '비고']; const rows = filteredRfqItems.map(item => [item.index, item.customer, item.projectType, item.projectName, item.process, item.status, item.dateSelection, item.dateQuotation, item.datePO, item.model, item.qty, item.unitPrice, item.amount, item.remark]); downloadCSV(`RFQ_현황`, headers, rows); };
+  const handleDownloadRfq = () => { const headers = ['순번', '고객사', '제품군', '프로젝트명', '공정단계', '현상태', '시작일', '견적일', '최초주문일', 'Model', '월평균수량', '예상단가', '예상매출', '비고', '실주사유']; const rows = filteredRfqItems.map(item => [item.index, item.customer, item.projectType, item.projectName, item.process, item.status, item.dateSelection, item.dateQuotation, item.datePO, item.model, item.qty, item.unitPrice, item.amount, item.remark, item.lostReason || '']); downloadCSV(`RFQ_현황`, headers, rows); };
 
   // Helper
-  const SUB_TABS = [{ id: 'forecast', label: '매출계획' }, { id: 'sales', label: '매출현황' }, { id: 'unitprice', label: '단가현황' }, { id: 'cr', label: 'CR현황' }];
+  const SUB_TABS = [{ id: 'forecast', label: '매출계획' }, { id: 'sales', label: '매출현황' }, { id: 'profit', label: '수익성' }, { id: 'unitprice', label: '단가현황' }, { id: 'cr', label: 'CR현황' }];
 
   // Column resize hooks
   const qtyResize = useColumnResize([120, 120, 120, 200, 100, 100, 80]);
@@ -1212,6 +1247,12 @@ const SalesView: React.FC = () => {
 
       {activeSubTab === 'forecast' && <SalesForecast />}
 
+      {activeSubTab === 'profit' && (
+        <Suspense fallback={<div className="flex items-center justify-center py-20"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" /></div>}>
+          <ProfitabilityView />
+        </Suspense>
+      )}
+
       {activeSubTab === 'sales' && (
       <section className="space-y-6">
         <div className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm flex flex-col md:flex-row items-center justify-between gap-4">
@@ -1765,6 +1806,11 @@ const SalesView: React.FC = () => {
                 </div>
             </div>
 
+            {/* Pipeline / Win-Loss Analytics */}
+            <Suspense fallback={<div className="flex items-center justify-center py-20"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" /></div>}>
+                <RfqPipelinePanel items={rfqData} onLostReasonChange={handleRfqLostReasonChange} />
+            </Suspense>
+
             {/* RFQ List Table */}
             <div className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm overflow-hidden">
                 <div className="flex items-center justify-between mb-4">
@@ -1867,7 +1913,29 @@ const SalesView: React.FC = () => {
                                         <td className="px-4 py-3 text-slate-700">
                                             {isEditingRFQ ? (
                                                 <input type="text" value={item.projectName} onChange={(e) => handleRfqChange(item.id, 'projectName', e.target.value)} className="w-full bg-white border border-blue-200 rounded px-1 py-0.5" />
-                                            ) : item.projectName}
+                                            ) : (
+                                                <span className="flex items-center gap-1.5">
+                                                    <span className="truncate">{item.projectName}</span>
+                                                    <button
+                                                        type="button"
+                                                        onClick={() => setQuoteRfqId(quoteRfqId === item.id ? null : item.id)}
+                                                        className={`shrink-0 px-1.5 py-0.5 rounded text-[10px] font-bold transition-colors ${quoteRfqId === item.id ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-blue-50 hover:text-blue-600'}`}
+                                                        title="견적 원가 산출"
+                                                    >
+                                                        견적
+                                                    </button>
+                                                    {isWonStage(classifyRfqStage(item)) && (
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => setPromoteRfqId(promoteRfqId === item.id ? null : item.id)}
+                                                            className={`shrink-0 px-1.5 py-0.5 rounded text-[10px] font-bold transition-colors ${promoteRfqId === item.id ? 'bg-emerald-600 text-white' : findPromotion(rfqPromotions, item) ? 'bg-emerald-50 text-emerald-700 hover:bg-emerald-100' : 'bg-slate-100 text-slate-500 hover:bg-emerald-50 hover:text-emerald-600'}`}
+                                                            title={findPromotion(rfqPromotions, item) ? '제품코드/매출계획 연결됨' : '제품코드 · 기준정보 · 매출계획 등록'}
+                                                        >
+                                                            {findPromotion(rfqPromotions, item) ? '연결됨' : '등록'}
+                                                        </button>
+                                                    )}
+                                                </span>
+                                            )}
                                         </td>
                                         <td className="px-4 py-3 text-slate-500 text-xs">
                                             {isEditingRFQ ? (
@@ -1951,6 +2019,29 @@ const SalesView: React.FC = () => {
                         </table>
                     </div>
                 )}
+
+                {/* 수주 RFQ → 마스터/매출계획 등록 */}
+                {promoteRfqId && rfqData.some(r => r.id === promoteRfqId) && (
+                    <Suspense fallback={<div className="flex items-center justify-center py-10"><div className="animate-spin rounded-full h-6 w-6 border-b-2 border-emerald-600" /></div>}>
+                        <RfqPromotePanel
+                            rfq={rfqData.find(r => r.id === promoteRfqId)!}
+                            promotion={findPromotion(rfqPromotions, rfqData.find(r => r.id === promoteRfqId)!) || null}
+                            onPromoted={handleRfqPromoted}
+                            onClose={() => setPromoteRfqId(null)}
+                        />
+                    </Suspense>
+                )}
+
+                {/* 견적 원가 산출 (선택 RFQ) */}
+                {quoteRfqId && rfqData.some(r => r.id === quoteRfqId) && (
+                    <Suspense fallback={<div className="flex items-center justify-center py-10"><div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600" /></div>}>
+                        <RfqQuoteWorkspace
+                            rfq={rfqData.find(r => r.id === quoteRfqId)!}
+                            onApplyPrice={handleApplyQuotePrice}
+                            onClose={() => setQuoteRfqId(null)}
+                        />
+                    </Suspense>
+                )}
             </div>
          </div>
       )}
@@ -2175,6 +2266,13 @@ const SalesView: React.FC = () => {
                   </table>
                </div>
             </div>
+
+            <PartPriceDownPanel
+               forecastItems={forecastItems}
+               forecastYear={forecastSummary?.year ?? null}
+               crData={crData}
+               year={selectedCRYear}
+            />
          </div>
       )}
 
@@ -0,0 +1,279 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from 'recharts';
+import type { ForecastItem } from '../utils/salesForecastParser';
+import type { RevenueItem, ItemRevenueRow } from '../utils/revenueDataParser';
+import {
+  StatLevel,
+  StatMethod,
+  PlanFlag,
+  STAT_METHOD_LABEL,
+  buildRevenueHistory,
+  forecastSeries,
+  comparePlanToStat,
+} from '../utils/statisticalForecast';
+import { revenueService, itemRevenueService } from '../services/supabaseService';
+import { downloadCSV } from '../utils/csvExport';
+
+// ============================================
+// Types & Helpers
+// ============================================
+
+interface StatForecastPanelProps {
+  planItems: ForecastItem[];
+  planYear: number;
+}
+
+const FLAG_STYLE: Record<PlanFlag, { label: string; className: string }> = {
+  high: { label: '과대 계획', className: 'bg-rose-50 text-rose-700' },
+  low: { label: '과소 계획', className: 'bg-amber-50 text-amber-700' },
+  ok: { label: '정상 범위', className: 'bg-emerald-50 text-emerald-700' },
+  no_history: { label: '실적 없음', className: 'bg-slate-100 text-slate-500' },
+};
+
+const formatBillion = (v: number) => {
+  if (Math.abs(v) >= 1e8) return `${(v / 1e8).toFixed(1)}억`;
+  if (Math.abs(v) >= 1e4) return `${(v / 1e4).toFixed(0)}만`;
+  return Math.round(v).toLocaleString();
+};
+
+const formatPct = (v: number | null) => (v === null ? '-' : `${v >= 0 ? '+' : ''}${(v * 100).toFixed(1)}%`);
+
+// ============================================
+// Component
+// ============================================
+
+const StatForecastPanel: React.FC<StatForecastPanelProps> = ({ planItems, planYear }) => {
+  const [revenue, setRevenue] = useState<RevenueItem[]>([]);
+  const [itemRevenue, setItemRevenue] = useState<ItemRevenueRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [open, setOpen] = useState(true);
+  const [level, setLevel] = useState<StatLevel>('customer');
+  const [method, setMethod] = useState<StatMethod | 'auto'>('auto');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      revenueService.getAll().catch(() => [] as RevenueItem[]),
+      itemRevenueService.getAll().catch(() => [] as ItemRevenueRow[]),
+    ]).then(([rev, itemRev]) => {
+      if (cancelled) return;
+      setRevenue(rev);
+      setItemRevenue(itemRev);
+    }).finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, []);
+
+  const stats = useMemo(
+    () => forecastSeries(buildRevenueHistory(revenue, itemRevenue, level), 12, planYear),
+    [revenue, itemRevenue, level, planYear],
+  );
+  const rows = useMemo(
+    () => comparePlanToStat(stats, planItems, planYear, level, method),
+    [stats, planItems, planYear, level, method],
+  );
+
+  const flagCounts = useMemo(() => {
+    const counts: Record<PlanFlag, number> = { high: 0, low: 0, ok: 0, no_history: 0 };
+    rows.forEach(r => { counts[r.flag]++; });
+    return counts;
+  }, [rows]);
+
+  const selected = rows.find(r => r.key === selectedKey) || rows.find(r => r.flag !== 'no_history') || null;
+  const selectedSeries = selected ? stats.find(s => s.key === selected.key) : undefined;
+
+  // 최근 24개월 실적 + 예측(신뢰구간) + 계획
+  const chartData = useMemo(() => {
+    if (!selected || !selectedSeries || !selected.method) return [];
+    const proj = selectedSeries.projections[selected.method]!;
+    const startIdx = selectedSeries.start.year * 12 + selectedSeries.start.month;
+    const fcIdx = selectedSeries.forecastStart.year * 12 + selectedSeries.forecastStart.month;
+    const from = Math.max(startIdx, fcIdx - 24);
+    const to = Math.max(fcIdx + proj.values.length - 1, planYear * 12 + 11);
+    const data = [];
+    for (let idx = from; idx <= to; idx++) {
+      const year = Math.floor(idx / 12);
+      const month = idx % 12;
+      const j = idx - fcIdx;
+      const inForecast = j >= 0 && j < proj.values.length;
+      const actual = idx < fcIdx ? selectedSeries.values[idx - startIdx] : undefined;
+      data.push({
+        label: `${String(year).slice(2)}.${String(month + 1).padStart(2, '0')}`,
+        actual,
+        // 실적 마지막 월에서 예측선이 이어지도록
+        forecast: inForecast ? proj.values[j] : idx === fcIdx - 1 ? actual : undefined,
+        bandBase: inForecast ? proj.lower[j] : undefined,
+        bandWidth: inForecast ? proj.upper[j] - proj.lower[j] : undefined,
+        plan: year === planYear ? selected.planMonthly[month] : undefined,
+      });
+    }
+    return data;
+  }, [selected, selectedSeries, planYear]);
+
+  const handleDownload = () => {
+    const headers = ['고객사', ...(level === 'model' ? ['차종'] : []), '예측방법', '검증오차(WAPE)',
+      '계획 매출', '통계 예측', '하한(95%)', '상한(95%)', '편차', '구간이탈 월수', '판정'];
+    const data = rows.map(r => [
+      r.customer, ...(level === 'model' ? [r.model] : []),
+      r.method ? STAT_METHOD_LABEL[r.method] : '-',
+      r.backtestError === null ? '-' : `${(r.backtestError * 100).toFixed(1)}%`,
+      Math.round(r.planTotal), Math.round(r.statTotal), Math.round(r.lowerTotal), Math.round(r.upperTotal),
+      formatPct(r.deviation), r.outsideMonths, FLAG_STYLE[r.flag].label,
+    ]);
+    downloadCSV(`매출계획_통계예측비교_${planYear}`, headers, data);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-4 flex-wrap gap-2">
+        <button
+          onClick={() => setOpen(!open)}
+          className="flex items-center gap-2 text-sm font-bold text-slate-700 hover:text-slate-900 transition-colors"
+        >
+          <svg className={`w-5 h-5 transition-transform ${open ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+          </svg>
+          <span className="w-1 h-5 bg-violet-500 rounded-full"></span>
+          통계 예측 vs 고객 계획
+          <span className="text-xs font-normal text-slate-500 ml-2">매출 실적 기반 · 95% 신뢰구간</span>
+        </button>
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-100 rounded-lg p-0.5">
+            {([['customer', '고객사'], ['model', '차종']] as [StatLevel, string][]).map(([id, label]) => (
+              <button key={id} onClick={() => { setLevel(id); setSelectedKey(null); }}
+                className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${level === id ? 'bg-white text-slate-800 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}>
+                {label}
+              </button>
+            ))}
+          </div>
+          <select value={method} onChange={e => setMethod(e.target.value as StatMethod | 'auto')}
+            className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-medium outline-none">
+            <option value="auto">자동 (검증오차 최소)</option>
+            {(Object.keys(STAT_METHOD_LABEL) as StatMethod[]).map(m => <option key={m} value={m}>{STAT_METHOD_LABEL[m]}</option>)}
+          </select>
+          <button onClick={handleDownload} disabled={rows.length === 0}
+            className="text-slate-500 hover:text-green-600 text-xs font-bold px-3 py-1.5 rounded-lg hover:bg-green-50 transition-colors disabled:opacity-40">
+            엑셀 다운로드
+          </button>
+        </div>
+      </div>
+
+      {open && (
+        isLoading ? (
+          <div className="py-10 text-center text-sm text-slate-400">매출 실적 불러오는 중...</div>
+        ) : stats.length === 0 ? (
+          <div className="py-10 text-center text-sm text-slate-400">
+            매출 실적(고객사별/품목별 매출현황)이 없어 통계 예측을 할 수 없습니다.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex gap-2 flex-wrap">
+              {(Object.keys(FLAG_STYLE) as PlanFlag[]).map(f => (
+                <span key={f} className={`px-3 py-1.5 rounded-lg text-xs font-bold ${FLAG_STYLE[f].className}`}>
+                  {FLAG_STYLE[f].label} {flagCounts[f]}건
+                </span>
+              ))}
+            </div>
+
+            {selected && chartData.length > 0 && (
+              <div className="border border-slate-100 rounded-2xl p-4">
+                <div className="text-xs font-bold text-slate-600 mb-2">
+                  {selected.customer}{selected.model && ` / ${selected.model}`}
+                  <span className="ml-2 font-normal text-slate-400">
+                    {selected.method && STAT_METHOD_LABEL[selected.method]}
+                    {selected.backtestError !== null && ` · 검증오차 ${(selected.backtestError * 100).toFixed(1)}%`}
+                  </span>
+                </div>
+                <div className="h-[280px]">
+                  <ResponsiveContainer minWidth={0} width="100%" height="100%">
+                    <ComposedChart data={chartData} margin={{ top: 10, right: 20, bottom: 0, left: 10 }}>
+                      <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                      <XAxis dataKey="label" tick={{ fontSize: 10, fill: '#64748b' }} interval="preserveStartEnd" />
+                      <YAxis tick={{ fontSize: 10, fill: '#94a3b8' }} tickFormatter={(v: number) => formatBillion(v)} />
+                      <Tooltip
+                        contentStyle={{ borderRadius: '12px', fontSize: '12px' }}
+                        formatter={(value: number, name: string, item: any) => {
+                          if (name === 'bandBase') return null;
+                          if (name === '95% 구간') {
+                            const lower = item.payload.bandBase ?? 0;
+                            return [`${formatBillion(lower)} ~ ${formatBillion(lower + value)}`, name];
+                          }
+                          return [formatBillion(value), name];
+                        }}
+                      />
+                      <Legend iconType="circle" wrapperStyle={{ fontSize: '11px' }} />
+                      <Area dataKey="bandBase" stackId="band" stroke="none" fill="transparent" legendType="none" />
+                      <Area dataKey="bandWidth" name="95% 구간" stackId="band" stroke="none" fill="#c4b5fd" fillOpacity={0.35} />
+                      <Line dataKey="actual" name="실적" stroke="#334155" strokeWidth={2} dot={{ r: 2 }} connectNulls={false} />
+                      <Line dataKey="forecast" name="통계 예측" stroke="#7c3aed" strokeWidth={2} strokeDasharray="5 4" dot={false} />
+                      <Line dataKey="plan" name="고객 계획" stroke="#2563eb" strokeWidth={2} dot={{ r: 3 }} />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            )}
+
+            <div className="overflow-x-auto max-h-[420px] overflow-y-auto border border-slate-100 rounded-2xl">
+              <table className="w-full text-xs">
+                <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left">고객사</th>
+                    {level === 'model' && <th className="px-3 py-2 text-left">차종</th>}
+                    <th className="px-3 py-2 text-left">예측방법</th>
+                    <th className="px-3 py-2 text-right">계획 매출</th>
+                    <th className="px-3 py-2 text-right">통계 예측</th>
+                    <th className="px-3 py-2 text-right">95% 구간</th>
+                    <th className="px-3 py-2 text-right">편차</th>
+                    <th className="px-3 py-2 text-center">구간이탈 월</th>
+                    <th className="px-3 py-2 text-center">판정</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-50">
+                  {rows.map(r => (
+                    <tr key={r.key} onClick={() => setSelectedKey(r.key)}
+                      className={`cursor-pointer hover:bg-slate-50 ${selected?.key === r.key ? 'bg-violet-50/50' : ''}`}>
+                      <td className="px-3 py-1.5 font-bold text-slate-700">{r.customer}</td>
+                      {level === 'model' && <td className="px-3 py-1.5 text-slate-600">{r.model}</td>}
+                      <td className="px-3 py-1.5 text-slate-500">
+                        {r.method ? STAT_METHOD_LABEL[r.method] : '-'}
+                        {r.backtestError !== null && <span className="ml-1 text-[10px] text-slate-400">({(r.backtestError * 100).toFixed(0)}%)</span>}
+                      </td>
+                      <td className="px-3 py-1.5 text-right font-mono">{formatBillion(r.planTotal)}</td>
+                      <td className="px-3 py-1.5 text-right font-mono">{r.flag === 'no_history' ? '-' : formatBillion(r.statTotal)}</td>
+                      <td className="px-3 py-1.5 text-right font-mono text-slate-400">
+                        {r.flag === 'no_history' ? '-' : `${formatBillion(r.lowerTotal)} ~ ${formatBillion(r.upperTotal)}`}
+                      </td>
+                      <td className={`px-3 py-1.5 text-right font-mono font-bold ${r.flag === 'high' ? 'text-rose-600' : r.flag === 'low' ? 'text-amber-600' : 'text-slate-600'}`}>
+                        {formatPct(r.deviation)}
+                      </td>
+                      <td className="px-3 py-1.5 text-center">{r.flag === 'no_history' ? '-' : `${r.outsideMonths}개월`}</td>
+                      <td className="px-3 py-1.5 text-center">
+                        <span className={`px-2 py-0.5 rounded-md text-[10px] font-bold ${FLAG_STYLE[r.flag].className}`}>{FLAG_STYLE[r.flag].label}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-[10px] text-slate-400">
+              * 예측은 마지막 실적월 다음 달부터 계산하며, 계획과 예측이 겹치는 월만 합산해 비교합니다.
+              계획 합계가 95% 구간 합계를 벗어나면 과대/과소 계획으로 표시합니다.
+            </p>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default StatForecastPanel;
@@ -0,0 +1,307 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
+import type { PurchaseMonthlySummary } from '../utils/purchaseSummaryTypes';
+import type { PurchasePrice } from '../utils/standardMaterialParser';
+import {
+  SCORE_DIMENSIONS,
+  DEFAULT_SCORE_WEIGHTS,
+  ScoreDimension,
+  ScoreWeights,
+  SupplierScore,
+  ScorecardInput,
+  buildSupplierScorecard,
+} from '../utils/supplierScorecard';
+import { purchaseSummaryService, purchasePriceService, bomMasterService, bomService } from '../services/supabaseService';
+import { safeSetItem } from '../utils/safeStorage';
+import { storage } from '../utils/storage';
+import { downloadCSV } from '../utils/csvExport';
+
+// ============================================
+// Types & Helpers
+// ============================================
+
+const WEIGHTS_KEY = 'dashboard_supplierScoreWeights';
+
+const loadWeights = (): ScoreWeights => {
+  try {
+    const stored = storage.getItem(WEIGHTS_KEY);
+    return stored ? { ...DEFAULT_SCORE_WEIGHTS, ...JSON.parse(stored) } : DEFAULT_SCORE_WEIGHTS;
+  } catch { return DEFAULT_SCORE_WEIGHTS; }
+};
+
+const fmtAmount = (v: number) => {
+  if (Math.abs(v) >= 1e8) return `${(v / 1e8).toFixed(1)}억`;
+  if (Math.abs(v) >= 1e4) return `${Math.round(v / 1e4).toLocaleString()}만`;
+  return Math.round(v).toLocaleString();
+};
+
+const scoreClass = (v: number | null) =>
+  v === null ? 'text-slate-300' : v >= 70 ? 'text-emerald-600' : v >= 40 ? 'text-slate-700' : 'text-rose-600';
+
+const PAGE_SIZE = 30;
+
+// ============================================
+// Component
+// ============================================
+
+const SupplierScorecard: React.FC = () => {
+  const [summaries, setSummaries] = useState<PurchaseMonthlySummary[]>([]);
+  const [prices, setPrices] = useState<PurchasePrice[]>([]);
+  const [bom, setBom] = useState<ScorecardInput['bom']>([]);
+  const [loading, setLoading] = useState(true);
+  const [year, setYear] = useState<number | null>(null);
+  const [weights, setWeights] = useState<ScoreWeights>(loadWeights);
+  const [showWeights, setShowWeights] = useState(false);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const [sumRes, priceRes, bomMasterRes, bomRes] = await Promise.allSettled([
+        purchaseSummaryService.getAll(),
+        purchasePriceService.getAll(),
+        bomMasterService.getAll(),
+        bomService.getAll(),
+      ]);
+      setSummaries(sumRes.status === 'fulfilled' ? sumRes.value : []);
+      setPrices(priceRes.status === 'fulfilled' ? priceRes.value : []);
+      // BOM 마스터 우선, 없으면 기존 BOM 데이터
+      const master = bomMasterRes.status === 'fulfilled' ? bomMasterRes.value : [];
+      setBom(master.length > 0 ? master : bomRes.status === 'fulfilled' ? bomRes.value : []);
+      setLoading(false);
+    };
+    load();
+    window.addEventListener('dashboard-data-updated', load);
+    return () => window.removeEventListener('dashboard-data-updated', load);
+  }, []);
+
+  const years = useMemo(
+    () => Array.from(new Set<number>(summaries.map(s => s.year).filter(Boolean))).sort((a, b) => b - a),
+    [summaries],
+  );
+
+  useEffect(() => {
+    if (years.length > 0 && (year === null || !years.includes(year))) setYear(years[0]);
+  }, [years, year]);
+
+  useEffect(() => {
+    safeSetItem(WEIGHTS_KEY, JSON.stringify(weights));
+  }, [weights]);
+
+  const scorecard = useMemo(
+    () => buildSupplierScorecard({ summaries, prices, bom, year: year ?? new Date().getFullYear() }, weights),
+    [summaries, prices, bom, year, weights],
+  );
+
+  const filtered = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return scorecard.filter(r => (showAll || r.spend > 0) && (!q || r.supplier.toLowerCase().includes(q)));
+  }, [scorecard, search, showAll]);
+
+  const detail: SupplierScore | null = useMemo(
+    () => scorecard.find(r => r.supplier === selected) || null,
+    [scorecard, selected],
+  );
+
+  const totalWeight = SCORE_DIMENSIONS.reduce((s, d) => s + (weights[d.key] || 0), 0);
+
+  const handleExport = () => {
+    const headers = ['순위', '협력사', '종합점수', ...SCORE_DIMENSIONS.map(d => `${d.label} 점수`), '매입액', '비중(%)', '전년대비(%)', '단가등록', '단가변경', '인상', '인하', '평균변동률(%)', 'BOM품목', '단일공급품목'];
+    const rows = filtered.map(r => [
+      r.rank, r.supplier, r.total.toFixed(1),
+      ...SCORE_DIMENSIONS.map(d => (r.scores[d.key] === null ? '' : r.scores[d.key]!.toFixed(1))),
+      Math.round(r.spend), r.share.toFixed(2), r.yoy === null ? '' : r.yoy.toFixed(1),
+      r.priceItems, r.priceChanges, r.priceIncreases, r.priceDecreases, r.avgChangePct.toFixed(2),
+      r.bomParts, r.singleSourceParts,
+    ]);
+    downloadCSV(`협력사_스코어카드_${year ?? ''}`, headers, rows);
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-slate-800" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-3xl border border-slate-200 shadow-sm space-y-5" data-supplier-scorecard>
+      <div className="flex flex-col md:flex-row items-center justify-between gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center gap-2">
+            <span className="w-1 h-6 bg-slate-700 rounded-full"></span>
+            협력사 스코어카드
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">매입 실적·구매단가·BOM 기반 KPI 가중 점수와 순위</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={year ?? ''}
+            onChange={e => setYear(Number(e.target.value))}
+            className="px-3 py-2 rounded-xl text-xs font-bold border border-slate-200 bg-white text-slate-700"
+          >
+            {years.length === 0 && <option value="">매입 실적 없음</option>}
+            {years.map(y => <option key={y} value={y}>{y}년</option>)}
+          </select>
+          <button
+            onClick={() => setShowWeights(v => !v)}
+            className={`px-4 py-2 rounded-xl text-xs font-bold transition-all ${showWeights ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+          >
+            가중치 설정
+          </button>
+          <button onClick={handleExport} className="px-4 py-2 rounded-xl text-xs font-bold bg-slate-800 text-white hover:bg-slate-700">
+            CSV
+          </button>
+        </div>
+      </div>
+
+      {/* 가중치 */}
+      {showWeights && (
+        <div className="rounded-2xl border border-slate-200 bg-slate-50 p-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            {SCORE_DIMENSIONS.map(d => (
+              <label key={d.key} className="text-xs text-slate-600 space-y-1">
+                <div className="font-bold">{d.label}</div>
+                <input
+                  type="number"
+                  min={0}
+                  value={weights[d.key]}
+                  onChange={e => setWeights(prev => ({ ...prev, [d.key]: Math.max(0, Number(e.target.value) || 0) }))}
+                  className="w-full border border-slate-200 rounded-lg px-2 py-1 bg-white text-right font-mono"
+                />
+                <div className="text-[10px] text-slate-400">{d.desc}</div>
+              </label>
+            ))}
+          </div>
+          <div className="flex items-center justify-between mt-3 text-[11px] text-slate-500">
+            <span>가중치 합 {totalWeight} — 점수는 가중치 비율로 환산되며, 데이터가 없는 항목은 제외하고 재계산합니다.</span>
+            <button onClick={() => setWeights(DEFAULT_SCORE_WEIGHTS)} className="text-blue-600 hover:underline">기본값</button>
+          </div>
+        </div>
+      )}
+
+      {/* 필터 */}
+      <div className="flex items-center gap-3 text-xs">
+        <input
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          placeholder="협력사 검색"
+          className="border border-slate-200 rounded-lg px-3 py-1.5 w-56"
+        />
+        <label className="flex items-center gap-1 text-slate-500">
+          <input type="checkbox" checked={showAll} onChange={e => setShowAll(e.target.checked)} />
+          매입 없는 협력사 포함 (BOM/단가에만 존재)
+        </label>
+        <span className="ml-auto text-slate-400">{filtered.length}개 협력사</span>
+      </div>
+
+      {/* 랭킹 */}
+      <div className="overflow-x-auto border border-slate-200 rounded-2xl">
+        <table className="w-full text-xs">
+          <thead className="bg-slate-50 text-slate-500">
+            <tr>
+              <th className="px-3 py-2 text-center">순위</th>
+              <th className="px-3 py-2 text-left">협력사</th>
+              <th className="px-3 py-2 text-left w-40">종합점수</th>
+              {SCORE_DIMENSIONS.map(d => <th key={d.key} className="px-3 py-2 text-right whitespace-nowrap" title={d.desc}>{d.label}</th>)}
+              <th className="px-3 py-2 text-right">매입액</th>
+              <th className="px-3 py-2 text-right">비중</th>
+              <th className="px-3 py-2 text-right">전년대비</th>
+              <th className="px-3 py-2 text-right whitespace-nowrap">단가변경 (↑/↓)</th>
+              <th className="px-3 py-2 text-right whitespace-nowrap">단일공급</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-50">
+            {filtered.slice(0, PAGE_SIZE).map(r => (
+              <tr
+                key={r.supplier}
+                onClick={() => setSelected(selected === r.supplier ? null : r.supplier)}
+                className={`cursor-pointer ${selected === r.supplier ? 'bg-blue-50' : 'hover:bg-slate-50'}`}
+              >
+                <td className="px-3 py-2 text-center font-bold text-slate-500">{r.rank}</td>
+                <td className="px-3 py-2 font-medium text-slate-800">{r.supplier}</td>
+                <td className="px-3 py-2">
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-blue-600 rounded-full" style={{ width: `${r.total}%` }} />
+                    </div>
+                    <span className="font-mono font-bold text-slate-800 w-8 text-right">{r.total.toFixed(0)}</span>
+                  </div>
+                </td>
+                {SCORE_DIMENSIONS.map(d => (
+                  <td key={d.key} className={`px-3 py-2 text-right font-mono ${scoreClass(r.scores[d.key])}`}>
+                    {r.scores[d.key] === null ? '-' : r.scores[d.key]!.toFixed(0)}
+                  </td>
+                ))}
+                <td className="px-3 py-2 text-right font-mono">{fmtAmount(r.spend)}</td>
+                <td className="px-3 py-2 text-right font-mono text-slate-500">{r.share.toFixed(1)}%</td>
+                <td className={`px-3 py-2 text-right font-mono ${r.yoy === null ? 'text-slate-300' : r.yoy >= 0 ? 'text-slate-700' : 'text-rose-600'}`}>
+                  {r.yoy === null ? '-' : `${r.yoy >= 0 ? '+' : ''}${r.yoy.toFixed(1)}%`}
+                </td>
+                <td className="px-3 py-2 text-right font-mono">
+                  {r.priceChanges > 0 ? (
+                    <>
+                      <span className="text-rose-600">{r.priceIncreases}</span>/<span className="text-emerald-600">{r.priceDecreases}</span>
+                      <span className="ml-1 text-slate-400">({r.avgChangePct >= 0 ? '+' : ''}{r.avgChangePct.toFixed(1)}%)</span>
+                    </>
+                  ) : '-'}
+                </td>
+                <td className="px-3 py-2 text-right font-mono">
+                  {r.bomParts > 0 ? `${r.singleSourceParts}/${r.bomParts}` : '-'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {filtered.length > PAGE_SIZE && (
+          <div className="px-4 py-2 text-[11px] text-slate-400 border-t border-slate-100">
+            상위 {PAGE_SIZE}개만 표시 — 전체는 CSV로 확인하세요.
+          </div>
+        )}
+      </div>
+
+      {/* 상세 */}
+      {detail && (
+        <div className="rounded-2xl border border-slate-200 p-5 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-bold text-slate-800">
+              {detail.rank}위 · {detail.supplier}
+              <span className="ml-2 text-xs font-normal text-slate-400">종합 {detail.total.toFixed(1)}점</span>
+            </h3>
+            <button onClick={() => setSelected(null)} className="text-slate-400 hover:text-slate-700 text-sm font-bold px-2">✕</button>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {SCORE_DIMENSIONS.map(d => (
+              <div key={d.key} className="rounded-xl border border-slate-100 bg-slate-50 p-3">
+                <div className="text-[10px] font-bold text-slate-500">{d.label} (가중 {weights[d.key as ScoreDimension]})</div>
+                <div className={`text-base font-bold mt-0.5 ${scoreClass(detail.scores[d.key])}`}>
+                  {detail.scores[d.key] === null ? '데이터 없음' : detail.scores[d.key]!.toFixed(1)}
+                </div>
+                <div className="text-[10px] text-slate-400 mt-0.5">{d.desc}</div>
+              </div>
+            ))}
+          </div>
+          <div>
+            <div className="text-xs font-bold text-slate-600 mb-2">
+              {year}년 월별 매입액 · 매입 발생 {detail.activeMonths}개월 · 전년 {fmtAmount(detail.prevSpend)}
+            </div>
+            <ResponsiveContainer width="100%" height={200}>
+              <BarChart data={detail.monthlySpend.map((v, i) => ({ month: `${i + 1}월`, amount: v }))}>
+                <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+                <XAxis dataKey="month" tick={{ fontSize: 10 }} />
+                <YAxis tickFormatter={fmtAmount} tick={{ fontSize: 10 }} />
+                <Tooltip formatter={(v: number) => `₩${Math.round(v).toLocaleString()}`} />
+                <Bar dataKey="amount" name="매입액" fill="#334155" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SupplierScorecard;
@@ -1,17 +1,21 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, lazy, Suspense } from 'react';
 import MetricCard from './MetricCard';
 import { safeSetItem } from '../utils/safeStorage';
+import { storage } from '../utils/storage';
+import { pullPreservingLocal } from '../utils/syncMerge';
 import { parseSupplierCSV, SupplierItem } from '../utils/supplierDataParser';
 import { downloadCSV } from '../utils/csvExport';
 import { isSupabaseConfigured } from '../lib/supabase';
-import { supplierService } from '../services/supabaseService';
+import { supplierService, columnMappingService } from '../services/supabaseService';
+
+const SupplierScorecard = lazy(() => import('./SupplierScorecard'));
 
 const SupplierView: React.FC = () => {
   // --- Initialization Helpers ---
   const getInitialSupplierData = (): SupplierItem[] => {
     if (typeof window === 'undefined') return [];
     try {
-      const stored = localStorage.getItem('dashboard_supplierData');
+      const stored = storage.getItem('dashboard_supplierData');
       return stored ? JSON.parse(stored) : [];
     } catch (e) {
       console.error("Failed to load supplier data", e);
@@ -38,9 +42,12 @@ const SupplierView: React.FC = () => {
       try {
         const supabaseData = await supplierService.getAll();
         if (supabaseData && supabaseData.length > 0) {
-          setSupplierData(supabaseData);
-          safeSetItem('dashboard_supplierData', JSON.stringify(supabaseData));
-          console.log(`✅ Supabase에서 협력사 데이터 로드: ${supabaseData.length}개`);
+          // 미동기화 로컬 수정분은 유지
+          const localData: SupplierItem[] = JSON.parse(storage.getItem('dashboard_supplierData') || '[]');
+          const merged = pullPreservingLocal('dashboard_supplierData', localData, supabaseData);
+          setSupplierData(merged);
+          safeSetItem('dashboard_supplierData', JSON.stringify(merged));
+          console.log(`✅ Supabase에서 협력사 데이터 로드: ${merged.length}개`);
         } else {
           console.log('ℹ️ Supabase 협력사 데이터 없음 - localStorage 유지');
         }
@@ -57,7 +64,7 @@ const SupplierView: React.FC = () => {
     const handler = (e: Event) => {
       if (!(e instanceof CustomEvent) || !e.detail) return;
       try {
-        const stored = localStorage.getItem('dashboard_supplierData');
+        const stored = storage.getItem('dashboard_supplierData');
         if (stored) setSupplierData(JSON.parse(stored));
       } catch { /* ignore */ }
     };
@@ -177,7 +184,7 @@ const SupplierView: React.FC = () => {
         }
 
         console.log('📂 협력사 CSV 파싱 시작...');
-        const parsed = parseSupplierCSV(csvText);
+        const parsed = parseSupplierCSV(csvText, await columnMappingService.get('supplier'));
         
         if (parsed.length === 0) {
           alert('CSV 파일에서 데이터를 찾을 수 없습니다.\n파일 형식을 확인해주세요.\n\n필요한 컬럼: 거래처명, 사업자등록번호, 대표이사, 주소, 매입액(-VAT) 2025년, 매입액(-VAT) 2024년, 매입액(-VAT) 2023년');
@@ -360,6 +367,11 @@ const SupplierView: React.FC = () => {
           )}
         </div>
       </div>
+
+      {/* 협력사 스코어카드 */}
+      <Suspense fallback={<div className="flex items-center justify-center py-20"><div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600" /></div>}>
+        <SupplierScorecard />
+      </Suspense>
     </div>
   );
 };
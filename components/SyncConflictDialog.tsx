@@ -0,0 +1,135 @@
+import React, { useState, useMemo } from 'react';
+import type { SyncConflict, ConflictChoice } from '../utils/syncMerge';
+
+interface SyncConflictDialogProps {
+  conflicts: SyncConflict[];
+  onResolve: (choices: Record<string, ConflictChoice>) => void;
+  onCancel: () => void;
+}
+
+const formatValue = (v: unknown) => {
+  if (v === undefined || v === null || v === '') return '-';
+  if (typeof v === 'number') return v.toLocaleString();
+  return String(v);
+};
+
+const formatTime = (iso: string | null) => (iso ? new Date(iso).toLocaleString('ko-KR') : '-');
+
+const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ conflicts, onResolve, onCancel }) => {
+  // 기본값: 로컬 우선
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>(
+    () => Object.fromEntries(conflicts.map(c => [c.id, 'local' as ConflictChoice])),
+  );
+
+  const grouped = useMemo(() => {
+    const map = new Map<string, SyncConflict[]>();
+    for (const c of conflicts) map.set(c.datasetLabel, [...(map.get(c.datasetLabel) || []), c]);
+    return Array.from(map.entries());
+  }, [conflicts]);
+
+  const setAll = (choice: ConflictChoice) =>
+    setChoices(Object.fromEntries(conflicts.map(c => [c.id, choice])));
+
+  const remoteCount = Object.values(choices).filter(c => c === 'remote').length;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/40 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">동기화 충돌 {conflicts.length}건</h2>
+            <p className="text-xs text-slate-500 mt-0.5">
+              마지막 동기화 이후 로컬과 클라우드에서 서로 다르게 수정된 레코드입니다. 레코드마다 유지할 값을 선택하세요.
+            </p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-700 text-xl font-bold px-2">✕</button>
+        </div>
+
+        <div className="flex items-center gap-2 px-6 py-2 border-b border-slate-100 bg-slate-50 text-xs">
+          <span className="text-slate-500">일괄 선택:</span>
+          <button onClick={() => setAll('local')} className="px-3 py-1 rounded-lg bg-blue-100 text-blue-700 font-bold hover:bg-blue-200">모두 로컬</button>
+          <button onClick={() => setAll('remote')} className="px-3 py-1 rounded-lg bg-emerald-100 text-emerald-700 font-bold hover:bg-emerald-200">모두 클라우드</button>
+          <span className="ml-auto text-slate-500">로컬 {conflicts.length - remoteCount} · 클라우드 {remoteCount}</span>
+        </div>
+
+        {/* Conflict list */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {grouped.map(([dataset, items]) => (
+            <div key={dataset}>
+              <h3 className="text-sm font-bold text-slate-700 mb-2">{dataset} ({items.length}건)</h3>
+              <div className="space-y-3">
+                {items.map(c => (
+                  <div key={c.id} className="border border-slate-200 rounded-xl overflow-hidden">
+                    <div className="flex items-center justify-between px-4 py-2 bg-slate-50 border-b border-slate-100">
+                      <div className="text-xs">
+                        <span className="font-bold text-slate-800">{c.label}</span>
+                        <span className="ml-2 text-slate-400">로컬 수정 {formatTime(c.localUpdatedAt)}</span>
+                      </div>
+                      <div className="flex bg-white rounded-lg p-0.5 border border-slate-200">
+                        {(['local', 'remote'] as ConflictChoice[]).map(choice => (
+                          <button
+                            key={choice}
+                            onClick={() => setChoices(prev => ({ ...prev, [c.id]: choice }))}
+                            className={`px-3 py-1 rounded-md text-xs font-bold transition-all ${
+                              choices[c.id] === choice
+                                ? choice === 'local' ? 'bg-blue-600 text-white' : 'bg-emerald-600 text-white'
+                                : 'text-slate-500 hover:text-slate-700'
+                            }`}
+                          >
+                            {choice === 'local' ? '로컬 유지' : '클라우드 적용'}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    {c.local === undefined || c.remote === undefined ? (
+                      <div className="px-4 py-3 text-xs text-slate-600">
+                        {c.local === undefined
+                          ? '로컬에서 삭제했지만 클라우드에서는 수정되었습니다.'
+                          : '로컬에서 수정했지만 클라우드에서는 삭제되었습니다.'}
+                      </div>
+                    ) : (
+                      <table className="w-full text-xs">
+                        <thead className="text-slate-500">
+                          <tr>
+                            <th className="px-4 py-1.5 text-left w-1/4">항목</th>
+                            <th className="px-4 py-1.5 text-left">로컬</th>
+                            <th className="px-4 py-1.5 text-left">클라우드</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-50">
+                          {c.diffs.map(d => (
+                            <tr key={d.field}>
+                              <td className="px-4 py-1.5 text-slate-500">{d.label}</td>
+                              <td className={`px-4 py-1.5 font-mono ${choices[c.id] === 'local' ? 'text-blue-700 font-bold' : 'text-slate-400'}`}>{formatValue(d.local)}</td>
+                              <td className={`px-4 py-1.5 font-mono ${choices[c.id] === 'remote' ? 'text-emerald-700 font-bold' : 'text-slate-400'}`}>{formatValue(d.remote)}</td>
+                            </tr>
+                          ))}
+                          {c.diffs.length === 0 && (
+                            <tr><td colSpan={3} className="px-4 py-2 text-slate-400">표시 항목 외 필드가 다릅니다.</td></tr>
+                          )}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-slate-200">
+          <button onClick={onCancel} className="px-4 py-2 rounded-xl text-sm font-bold text-slate-600 hover:bg-slate-100">
+            동기화 취소
+          </button>
+          <button onClick={() => onResolve(choices)} className="px-4 py-2 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700">
+            선택대로 동기화
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictDialog;
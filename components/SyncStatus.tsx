@@ -2,11 +2,20 @@
 import React, { useState } from 'react';
 import { useGlobalSync } from '../hooks/useSupabaseData';
 import { isSupabaseConfigured } from '../lib/supabase';
+import SyncConflictDialog from './SyncConflictDialog';
 
 const SyncStatus: React.FC = () => {
-  const { isSyncing, syncMessage, isConfigured, syncToCloud, loadFromCloud } = useGlobalSync();
+  const {
+    isSyncing, syncMessage, isConfigured, syncToCloud, loadFromCloud,
+    conflicts, resolveConflicts, cancelConflicts, dirtyCount, refreshDirtyCount,
+  } = useGlobalSync();
   const [showDropdown, setShowDropdown] = useState(false);
 
+  const handleToggleDropdown = () => {
+    if (!showDropdown) refreshDirtyCount();
+    setShowDropdown(!showDropdown);
+  };
+
   const handleSyncToCloud = async () => {
     setShowDropdown(false);
     await syncToCloud();
@@ -14,7 +23,10 @@ const SyncStatus: React.FC = () => {
 
   const handleLoadFromCloud = async () => {
     setShowDropdown(false);
-    if (window.confirm('클라우드 데이터로 로컬 데이터를 덮어씁니다. 계속하시겠습니까?')) {
+    const warning = dirtyCount > 0
+      ? `\n\n⚠️ 아직 동기화하지 않은 로컬 변경 ${dirtyCount}건이 사라집니다. 먼저 "클라우드와 동기화"를 권장합니다.`
+      : '';
+    if (window.confirm(`클라우드 데이터로 로컬 데이터를 덮어씁니다. 계속하시겠습니까?${warning}`)) {
       await loadFromCloud();
     }
   };
@@ -39,9 +51,9 @@ const SyncStatus: React.FC = () => {
 
         {/* Sync Button */}
         <button
-          onClick={() => setShowDropdown(!showDropdown)}
+          onClick={handleToggleDropdown}
           disabled={isSyncing}
-          className={`p-2 rounded-lg transition-all ${
+          className={`relative p-2 rounded-lg transition-all ${
             isSyncing
               ? 'bg-blue-600/20 text-blue-400'
               : 'text-slate-400 hover:bg-slate-800 hover:text-white'
@@ -58,6 +70,9 @@ const SyncStatus: React.FC = () => {
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
             </svg>
           )}
+          {isConfigured && dirtyCount > 0 && !isSyncing && (
+            <span className="absolute -top-0.5 -right-0.5 w-2 h-2 rounded-full bg-amber-400" title={`미동기화 변경 ${dirtyCount}건`}></span>
+          )}
         </button>
       </div>
 
@@ -78,7 +93,9 @@ const SyncStatus: React.FC = () => {
               </div>
               <p className="text-xs text-slate-500">
                 {isConfigured
-                  ? '데이터가 클라우드에 자동 저장됩니다.'
+                  ? dirtyCount > 0
+                    ? `미동기화 로컬 변경 ${dirtyCount.toLocaleString()}건`
+                    : '로컬 변경사항이 모두 동기화되었습니다.'
                   : '.env 파일에 Supabase 키를 설정하세요.'}
               </p>
             </div>
@@ -94,8 +111,8 @@ const SyncStatus: React.FC = () => {
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
                   </svg>
                   <div>
-                    <div className="font-medium">클라우드로 업로드</div>
-                    <div className="text-xs text-slate-500">로컬 데이터를 서버에 저장</div>
+                    <div className="font-medium">클라우드와 동기화</div>
+                    <div className="text-xs text-slate-500">변경 레코드 병합 · 충돌 시 선택</div>
                   </div>
                 </button>
                 <button
@@ -127,6 +144,11 @@ const SyncStatus: React.FC = () => {
         </>
       )}
 
+      {/* Conflict Dialog */}
+      {conflicts.length > 0 && (
+        <SyncConflictDialog conflicts={conflicts} onResolve={resolveConflicts} onCancel={cancelConflicts} />
+      )}
+
       {/* Toast Message */}
       {syncMessage && (
         <div className="fixed bottom-6 right-6 z-[200] animate-slide-up">
@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { uploadLedgerService } from '../services/supabaseService';
+import { rollbackUpload } from '../utils/centralUploadHandlers';
+import { UPLOAD_DATASET_LABEL, formatUploadScope, isSameScope } from '../utils/uploadLedger';
+import type { UploadDataset, UploadLedgerEntry } from '../utils/uploadLedger';
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)}MB` : `${Math.max(1, Math.round(bytes / 1024))}KB`;
+
+const UploadLedgerPanel: React.FC = () => {
+  const [entries, setEntries] = useState<UploadLedgerEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [datasetFilter, setDatasetFilter] = useState<UploadDataset | 'all'>('all');
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setEntries(await uploadLedgerService.getAll());
+    } catch (err) {
+      console.error('업로드 이력 로드 실패:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const handler = () => { load(); };
+    window.addEventListener('dashboard-data-updated', handler);
+    return () => window.removeEventListener('dashboard-data-updated', handler);
+  }, [load]);
+
+  const sorted = useMemo(
+    () => [...entries].sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt)),
+    [entries],
+  );
+
+  const datasets = useMemo(
+    () => Array.from(new Set(entries.map(e => e.dataset))),
+    [entries],
+  );
+
+  const visible = datasetFilter === 'all' ? sorted : sorted.filter(e => e.dataset === datasetFilter);
+
+  // 같은 데이터셋·범위에 이후 적용된 업로드 (롤백 시 그 업로드 내용까지 덮어씀)
+  const newerUploads = useCallback(
+    (entry: UploadLedgerEntry) => sorted.filter(e =>
+      e.id !== entry.id &&
+      e.status === 'applied' &&
+      e.dataset === entry.dataset &&
+      isSameScope(e.scope, entry.scope) &&
+      e.uploadedAt > entry.uploadedAt,
+    ),
+    [sorted],
+  );
+
+  // 동일 파일(해시) 재업로드 표시
+  const duplicateHashes = useMemo(() => {
+    const counts = new Map<string, number>();
+    entries.forEach(e => { if (e.fileHash) counts.set(e.fileHash, (counts.get(e.fileHash) || 0) + 1); });
+    return new Set(Array.from(counts.entries()).filter(([, n]) => n > 1).map(([h]) => h));
+  }, [entries]);
+
+  const handleRollback = async (entry: UploadLedgerEntry) => {
+    const newer = newerUploads(entry);
+    const warning = newer.length > 0
+      ? `\n\n⚠️ 이후 같은 범위에 ${newer.length}건의 업로드가 있습니다. 롤백하면 그 내용도 함께 덮어씁니다.`
+      : '';
+    const label = `${UPLOAD_DATASET_LABEL[entry.dataset]} ${formatUploadScope(entry.scope)}`;
+    if (!window.confirm(`${label} 데이터를 "${entry.fileName}" 업로드 이전 상태(${entry.replacedCount}건)로 되돌리시겠습니까?${warning}`)) return;
+
+    setRollingBackId(entry.id);
+    const result = await rollbackUpload(entry);
+    setRollingBackId(null);
+    alert(result.success ? `롤백 완료: ${result.message}` : `롤백 실패: ${result.message}`);
+    load();
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+          <span className="w-3 h-3 bg-slate-700 rounded-full"></span>
+          업로드 이력 ({entries.length}건)
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={datasetFilter}
+            onChange={e => setDatasetFilter(e.target.value as UploadDataset | 'all')}
+            className="text-xs border border-slate-200 rounded-lg px-2 py-1.5 bg-white text-slate-700"
+          >
+            <option value="all">전체 데이터셋</option>
+            {datasets.map(d => <option key={d} value={d}>{UPLOAD_DATASET_LABEL[d] || d}</option>)}
+          </select>
+          <button
+            onClick={load}
+            className="text-xs px-3 py-1.5 rounded-lg bg-slate-100 text-slate-600 font-medium hover:bg-slate-200 transition-colors"
+          >
+            새로고침
+          </button>
+        </div>
+      </div>
+
+      {loading && entries.length === 0 ? (
+        <p className="text-slate-400">로딩 중...</p>
+      ) : visible.length === 0 ? (
+        <div className="text-center py-8 text-slate-400">
+          <p>기록된 업로드가 없습니다</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto max-h-[480px] overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-white">
+              <tr className="border-b border-slate-200">
+                <th className="text-left py-3 px-4 font-semibold text-slate-600">업로드 일시</th>
+                <th className="text-left py-3 px-4 font-semibold text-slate-600">데이터셋</th>
+                <th className="text-left py-3 px-4 font-semibold text-slate-600">범위</th>
+                <th className="text-left py-3 px-4 font-semibold text-slate-600">파일</th>
+                <th className="text-left py-3 px-4 font-semibold text-slate-600">업로더</th>
+                <th className="text-right py-3 px-4 font-semibold text-slate-600">저장 / 대체</th>
+                <th className="text-center py-3 px-4 font-semibold text-slate-600">상태</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(entry => {
+                const canRollback = entry.snapshot !== null && entry.status === 'applied';
+                const newerCount = canRollback ? newerUploads(entry).length : 0;
+                return (
+                  <tr key={entry.id} className={`border-b border-slate-100 ${entry.status === 'rolledBack' ? 'bg-slate-50 text-slate-400' : ''}`}>
+                    <td className="py-3 px-4 whitespace-nowrap">{new Date(entry.uploadedAt).toLocaleString('ko-KR')}</td>
+                    <td className="py-3 px-4 font-medium">{UPLOAD_DATASET_LABEL[entry.dataset] || entry.dataset}</td>
+                    <td className="py-3 px-4">{formatUploadScope(entry.scope)}</td>
+                    <td className="py-3 px-4">
+                      <div className="truncate max-w-[240px]" title={entry.fileName}>{entry.fileName}</div>
+                      <div className="text-[11px] text-slate-400 font-mono" title={entry.fileHash}>
+                        {entry.fileHash ? entry.fileHash.slice(0, 12) : '-'} · {formatSize(entry.fileSize)}
+                        {duplicateHashes.has(entry.fileHash) && (
+                          <span className="ml-1.5 px-1.5 py-0.5 bg-amber-50 text-amber-600 rounded font-sans">동일 파일</span>
+                        )}
+                      </div>
+                    </td>
+                    <td className="py-3 px-4">{entry.uploader || '-'}</td>
+                    <td className="py-3 px-4 text-right font-mono whitespace-nowrap">
+                      {entry.rowCount.toLocaleString()} / {entry.snapshot === null ? '-' : entry.replacedCount.toLocaleString()}
+                    </td>
+                    <td className="py-3 px-4 text-center whitespace-nowrap">
+                      {entry.status === 'rolledBack' ? (
+                        <span className="text-xs" title={entry.rolledBackBy}>
+                          롤백됨 {entry.rolledBackAt ? new Date(entry.rolledBackAt).toLocaleDateString('ko-KR') : ''}
+                        </span>
+                      ) : canRollback ? (
+                        <button
+                          onClick={() => handleRollback(entry)}
+                          disabled={rollingBackId !== null}
+                          className="text-xs text-rose-500 hover:bg-rose-50 px-2 py-1 rounded transition-colors disabled:opacity-50"
+                          title={newerCount > 0 ? `이후 같은 범위 업로드 ${newerCount}건` : undefined}
+                        >
+                          {rollingBackId === entry.id ? '롤백 중...' : newerCount > 0 ? `롤백 ⚠️${newerCount}` : '롤백'}
+                        </button>
+                      ) : (
+                        <span className="text-xs text-slate-400">기록만</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UploadLedgerPanel;
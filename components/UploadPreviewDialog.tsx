@@ -0,0 +1,146 @@
+import React from 'react';
+import type { UploadPreview } from '../utils/uploadPreview';
+import { UPLOAD_DATASET_LABEL, formatUploadScope } from '../utils/uploadLedger';
+
+interface UploadPreviewDialogProps {
+  preview: UploadPreview;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const formatCell = (v: unknown) => {
+  if (v === undefined || v === null || v === '') return '-';
+  if (typeof v === 'number') return v.toLocaleString();
+  if (typeof v === 'object') return JSON.stringify(v).slice(0, 40);
+  return String(v);
+};
+
+const UploadPreviewDialog: React.FC<UploadPreviewDialogProps> = ({ preview, onConfirm, onCancel }) => {
+  const errors = preview.issues.filter(i => i.level === 'error');
+  const warnings = preview.issues.filter(i => i.level === 'warning');
+  const sampleKeys = preview.sample.length > 0 ? Object.keys(preview.sample[0]) : [];
+
+  const stats: { label: string; value: number | null; tone: string }[] = [
+    { label: '저장 건수', value: preview.recordCount, tone: 'text-slate-800' },
+    { label: '원본 행', value: preview.rawRowCount, tone: 'text-slate-500' },
+    { label: '추가', value: preview.diff?.added ?? null, tone: 'text-emerald-600' },
+    { label: '변경', value: preview.diff?.changed ?? null, tone: 'text-blue-600' },
+    { label: '삭제', value: preview.diff?.removed ?? null, tone: 'text-rose-600' },
+    { label: '동일', value: preview.diff?.unchanged ?? null, tone: 'text-slate-400' },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[210] bg-black/40 flex items-center justify-center p-4" data-upload-preview={preview.dataset}>
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-200">
+          <div>
+            <h2 className="text-lg font-bold text-slate-800">
+              업로드 미리보기 · {UPLOAD_DATASET_LABEL[preview.dataset]} ({formatUploadScope(preview.scope)})
+            </h2>
+            <p className="text-xs text-slate-500 mt-0.5">{preview.fileName} — 아직 저장되지 않았습니다. 내용을 확인한 뒤 저장하세요.</p>
+          </div>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-700 text-xl font-bold px-2">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {/* 건수 / 기존 데이터 비교 */}
+          <div className="grid grid-cols-6 gap-2">
+            {stats.map(s => (
+              <div key={s.label} className="bg-slate-50 rounded-xl p-3 border border-slate-100">
+                <p className="text-[10px] font-bold text-slate-500">{s.label}</p>
+                <p className={`text-lg font-bold ${s.tone}`}>{s.value === null ? '-' : s.value.toLocaleString()}</p>
+              </div>
+            ))}
+          </div>
+          {preview.diff === null ? (
+            <p className="text-xs text-slate-400">기준정보 병합 업로드 — 기존 데이터와 같은 키는 갱신되고 나머지는 유지됩니다.</p>
+          ) : preview.diff.removed > 0 && (
+            <p className="text-xs text-rose-600">
+              ⚠️ 같은 범위의 기존 레코드 {preview.diff.removed.toLocaleString()}건이 이 파일에 없어 삭제됩니다.
+            </p>
+          )}
+
+          {/* 검증 결과 */}
+          <div>
+            <h3 className="text-sm font-bold text-slate-700 mb-2">검증 결과</h3>
+            {preview.issues.length === 0 ? (
+              <p className="text-xs text-emerald-600">✓ 문제 없음</p>
+            ) : (
+              <ul className="space-y-1">
+                {[...errors, ...warnings].map((issue, i) => (
+                  <li
+                    key={i}
+                    className={`text-xs px-3 py-1.5 rounded-lg ${issue.level === 'error' ? 'bg-rose-50 text-rose-700' : 'bg-amber-50 text-amber-700'}`}
+                  >
+                    {issue.level === 'error' ? '✕' : '⚠'} {issue.message}
+                    {issue.rows && issue.rows.length > 0 && (
+                      <span className="ml-2 text-[10px] opacity-70">행 {issue.rows.join(', ')}{issue.rows.length >= 5 ? ' …' : ''}</span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* 감지된 컬럼 */}
+          <div>
+            <h3 className="text-sm font-bold text-slate-700 mb-2">감지된 컬럼 ({preview.columns.length})</h3>
+            <div className="flex flex-wrap gap-1">
+              {preview.columns.map((c, i) => (
+                <span key={`${c}-${i}`} className="px-2 py-0.5 text-[11px] bg-slate-100 text-slate-600 rounded">{c}</span>
+              ))}
+            </div>
+          </div>
+
+          {/* 샘플 */}
+          {preview.sample.length > 0 && (
+            <div>
+              <h3 className="text-sm font-bold text-slate-700 mb-2">샘플 {preview.sample.length}건 (파싱 결과)</h3>
+              <div className="overflow-x-auto border border-slate-200 rounded-xl">
+                <table className="w-full text-xs">
+                  <thead className="bg-slate-50 text-slate-500">
+                    <tr>
+                      {sampleKeys.map(k => <th key={k} className="px-3 py-1.5 text-left whitespace-nowrap">{k}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-50">
+                    {preview.sample.map((row, i) => (
+                      <tr key={i}>
+                        {sampleKeys.map(k => (
+                          <td key={k} className="px-3 py-1.5 whitespace-nowrap font-mono text-slate-700">{formatCell(row[k])}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-end gap-2 px-6 py-4 border-t border-slate-200">
+          {errors.length > 0 && <span className="mr-auto text-xs text-rose-600">오류를 해결한 뒤 다시 업로드하세요.</span>}
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded-xl text-sm font-bold text-slate-600 hover:bg-slate-100"
+            data-uploader-cancel={preview.dataset}
+          >
+            취소
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={errors.length > 0}
+            className="px-4 py-2 rounded-xl text-sm font-bold bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-40 disabled:cursor-not-allowed"
+            data-uploader-confirm={preview.dataset}
+          >
+            저장
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UploadPreviewDialog;
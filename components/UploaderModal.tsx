@@ -2,6 +2,8 @@
  * UploaderModal — 통합 업로더 모달
  * 16개 업로더를 2-column 레이아웃으로 한 화면에 표시
  * RPA(UiPath) 최적화: data-uploader 속성으로 셀렉터 타겟팅
+ * 파일 선택 → 미리보기(검증·기존 데이터 비교) → 저장 확인 (data-uploader-confirm)
+ * CSV 업로더 일부는 ⚙ 버튼으로 컬럼 매핑 프로필(자동 인식 실패 시 사용)을 지정
  */
 import React, { useState, useRef, useCallback, useEffect } from 'react';
 import {
@@ -22,7 +24,14 @@ import {
   uploadPaintInventory,
   uploadPartsInventory,
   uploadSupplier,
+  previewUpload,
 } from '../utils/centralUploadHandlers';
+import { storage } from '../utils/storage';
+import { columnMappingService } from '../services/supabaseService';
+import type { UploadPreview } from '../utils/uploadPreview';
+import type { MappingDataset } from '../utils/columnMapping';
+import UploadPreviewDialog from './UploadPreviewDialog';
+import ColumnMappingDialog from './ColumnMappingDialog';
 
 interface Props {
   isOpen: boolean;
@@ -37,6 +46,16 @@ interface UploaderState {
   completedAt?: string;
 }
 
+type UploadHandler = (file: File) => Promise<UploadResult>;
+type PreviewHandler = (file: File) => Promise<UploadPreview>;
+
+interface PendingUpload {
+  id: string;
+  file: File;
+  handler: UploadHandler;
+  preview: UploadPreview;
+}
+
 const CURRENT_YEAR = new Date().getFullYear();
 const YEARS = Array.from({ length: 5 }, (_, i) => CURRENT_YEAR - 2 + i); // e.g. 2024~2028
 const MONTHS = ['1월', '2월', '3월', '4월', '5월', '6월', '7월', '8월', '9월', '10월', '11월', '12월'];
@@ -44,7 +63,7 @@ const MONTHS = ['1월', '2월', '3월', '4월', '5월', '6월', '7월', '8월',
 const STORAGE_KEY = 'uploader-states-sales-purchase';
 const loadPersistedStates = (): Record<string, UploaderState> => {
   try {
-    const raw = localStorage.getItem(STORAGE_KEY);
+    const raw = storage.getItem(STORAGE_KEY);
     if (raw) {
       const parsed = JSON.parse(raw);
       for (const key of Object.keys(parsed)) {
@@ -72,16 +91,41 @@ const UploaderModal: React.FC<Props> = ({ isOpen, onClose }) => {
   // 업로드 상태 (16개) — localStorage에서 복원
   const [states, setStates] = useState<Record<string, UploaderState>>(loadPersistedStates);
 
+  // 미리보기 확인 대기 중인 업로드
+  const [pending, setPending] = useState<PendingUpload | null>(null);
+
+  // 컬럼 매핑 프로필 — 저장된 업로더 목록 / 편집 중인 업로더
+  const [mappedDatasets, setMappedDatasets] = useState<Set<MappingDataset>>(new Set());
+  const [mappingTarget, setMappingTarget] = useState<MappingDataset | null>(null);
+
+  const loadMappings = useCallback(async () => {
+    try {
+      const profiles = await columnMappingService.getAll();
+      setMappedDatasets(new Set(profiles.map(p => p.dataset)));
+    } catch (e) {
+      console.warn('컬럼 매핑 프로필 로드 실패:', e);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) loadMappings();
+  }, [isOpen, loadMappings]);
+
   // file input refs
   const inputRefs = useRef<Record<string, HTMLInputElement | null>>({});
 
-  // ESC 닫기
+  // ESC 닫기 (미리보기 중에는 미리보기만 취소)
   useEffect(() => {
     if (!isOpen) return;
-    const handler = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    const handler = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      if (mappingTarget) setMappingTarget(null);
+      else if (pending) cancelPending();
+      else onClose();
+    };
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
-  }, [isOpen, onClose]);
+  }, [isOpen, onClose, pending, mappingTarget]);
 
   const setRef = useCallback((id: string) => (el: HTMLInputElement | null) => {
     inputRefs.current[id] = el;
@@ -93,7 +137,7 @@ const UploaderModal: React.FC<Props> = ({ isOpen, onClose }) => {
       : state;
     setStates(prev => {
       const next = { ...prev, [id]: finalState };
-      try { localStorage.setItem(STORAGE_KEY, JSON.stringify(next)); } catch {}
+      storage.setItem(STORAGE_KEY, JSON.stringify(next));
       return next;
     });
   };
@@ -101,7 +145,7 @@ const UploaderModal: React.FC<Props> = ({ isOpen, onClose }) => {
   const handleUpload = async (
     id: string,
     file: File,
-    handler: (file: File) => Promise<UploadResult>
+    handler: UploadHandler
   ) => {
     updateState(id, { status: 'uploading', message: '업로드 중...' });
     try {
@@ -115,14 +159,45 @@ const UploaderModal: React.FC<Props> = ({ isOpen, onClose }) => {
     }
   };
 
+  // 저장 전 미리보기 — 파싱·검증·기존 데이터 비교 후 확인 대기
+  const handlePreview = async (
+    id: string,
+    file: File,
+    handler: UploadHandler,
+    preview: PreviewHandler
+  ) => {
+    updateState(id, { status: 'uploading', message: '검증 중...' });
+    try {
+      const result = await preview(file);
+      setPending({ id, file, handler, preview: result });
+    } catch (e: any) {
+      updateState(id, { status: 'error', message: e.message || '미리보기 실패' });
+    }
+  };
+
+  const confirmPending = () => {
+    if (!pending) return;
+    setPending(null);
+    handleUpload(pending.id, pending.file, pending.handler);
+  };
+
+  const cancelPending = () => {
+    if (!pending) return;
+    updateState(pending.id, { status: 'idle', message: '' });
+    setPending(null);
+  };
+
   const triggerInput = (id: string) => {
     inputRefs.current[id]?.click();
   };
 
-  const onFileChange = (id: string, handler: (file: File) => Promise<UploadResult>) =>
+  const onFileChange = (id: string, handler: UploadHandler, preview?: PreviewHandler) =>
     (e: React.ChangeEvent<HTMLInputElement>) => {
       const file = e.target.files?.[0];
-      if (file) handleUpload(id, file, handler);
+      if (file) {
+        if (preview) handlePreview(id, file, handler, preview);
+        else handleUpload(id, file, handler);
+      }
       e.target.value = '';
     };
 
@@ -211,13 +286,32 @@ const UploaderModal: React.FC<Props> = ({ isOpen, onClose }) => {
     </button>
   );
 
+  const MappingBtn = ({ dataset }: { dataset?: MappingDataset }) => {
+    if (!dataset) return <span className="w-6 shrink-0" />;
+    const saved = mappedDatasets.has(dataset);
+    return (
+      <button
+        onClick={() => setMappingTarget(dataset)}
+        className={`w-6 h-6 shrink-0 rounded text-[11px] transition-colors ${
+          saved ? 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200' : 'text-slate-400 hover:bg-slate-100 hover:text-slate-700'
+        }`}
+        title={saved ? '컬럼 매핑 저장됨 — 편집' : '컬럼 매핑 지정'}
+        data-uploader-mapping={dataset}
+      >
+        ⚙
+      </button>
+    );
+  };
+
   // 업로더 행 렌더 — 고정 너비로 파일선택 버튼 정렬
-  const Row = ({ id, label, format, accept, handler, params }: {
+  const Row = ({ id, label, format, accept, handler, preview, mapping, params }: {
     id: string;
     label: string;
     format: 'CSV' | 'XLS';
     accept: string;
-    handler: (file: File) => Promise<UploadResult>;
+    handler: UploadHandler;
+    preview?: PreviewHandler;
+    mapping?: MappingDataset;
     params?: React.ReactNode;
   }) => (
     <div className="flex items-center h-7 gap-2" data-uploader-row={id}>
@@ -227,12 +321,13 @@ const UploaderModal: React.FC<Props> = ({ isOpen, onClose }) => {
       <span className="shrink-0">
         <FileBtn id={id} accept={accept} />
       </span>
+      <MappingBtn dataset={mapping} />
       <input
         ref={setRef(id)}
         type="file"
         accept={accept}
         className="hidden"
-        onChange={onFileChange(id, handler)}
+        onChange={onFileChange(id, handler, preview)}
         data-uploader-input={id}
       />
       <span className="flex-1 min-w-0 text-right">
@@ -273,16 +368,23 @@ const UploaderModal: React.FC<Props> = ({ isOpen, onClose }) => {
               </div>
               <div className="space-y-1.5">
                 <Row id="sales-qty" label="수량 업로드" format="CSV" accept={csvAccept}
-                  handler={uploadSalesQty} />
+                  handler={uploadSalesQty}
+                  preview={(f) => previewUpload('sales', f)} />
                 <Row id="sales-revenue" label="매출 업로드" format="CSV" accept={csvAccept}
                   handler={(f) => uploadRevenue(f, revenueYear)}
+                  preview={(f) => previewUpload('revenue', f, { year: revenueYear })}
+                  mapping="revenue"
                   params={<SelectYear value={revenueYear} onChange={setRevenueYear} testId="revenue-year" />} />
                 <Row id="sales-item-revenue" label="품목별매출" format="CSV" accept={csvAccept}
-                  handler={uploadItemRevenue} />
+                  handler={uploadItemRevenue}
+                  preview={(f) => previewUpload('itemRevenue', f)}
+                  mapping="itemRevenue" />
                 <Row id="sales-rfq" label="RFQ" format="CSV" accept={csvAccept}
-                  handler={uploadRfq} />
+                  handler={uploadRfq}
+                  preview={(f) => previewUpload('rfq', f)} />
                 <Row id="sales-cr" label="CR 업로드" format="CSV" accept={csvAccept}
                   handler={(f) => uploadCR(f, crYear)}
+                  preview={(f) => previewUpload('cr', f, { year: crYear })}
                   params={<SelectYear value={crYear} onChange={setCrYear} testId="cr-year" />} />
               </div>
             </div>
@@ -295,11 +397,17 @@ const UploaderModal: React.FC<Props> = ({ isOpen, onClose }) => {
               </div>
               <div className="space-y-1.5">
                 <Row id="inv-resin" label="수지 재고" format="CSV" accept={csvAccept}
-                  handler={uploadResinInventory} />
+                  handler={uploadResinInventory}
+                  preview={(f) => previewUpload('inventoryResin', f)}
+                  mapping="inventoryResin" />
                 <Row id="inv-paint" label="도료 재고" format="CSV" accept={csvAccept}
-                  handler={uploadPaintInventory} />
+                  handler={uploadPaintInventory}
+                  preview={(f) => previewUpload('inventoryPaint', f)}
+                  mapping="inventoryPaint" />
                 <Row id="inv-parts" label="부품 재고" format="CSV" accept={csvAccept}
-                  handler={uploadPartsInventory} />
+                  handler={uploadPartsInventory}
+                  preview={(f) => previewUpload('inventoryParts', f)}
+                  mapping="inventoryParts" />
               </div>
             </div>
           </div>
@@ -315,22 +423,31 @@ const UploaderModal: React.FC<Props> = ({ isOpen, onClose }) => {
               <div className="space-y-1.5">
                 <Row id="purch-parts" label="부품 입고" format="CSV" accept={csvAccept}
                   handler={(f) => uploadPartsInbound(f, partsMonth, partsYear)}
+                  preview={(f) => previewUpload('purchaseParts', f, { year: partsYear, month: partsMonth })}
+                  mapping="purchaseParts"
                   params={<SelectMonthYear month={partsMonth} year={partsYear}
                     onMonthChange={setPartsMonth} onYearChange={setPartsYear} idPrefix="parts-inbound" />} />
                 <Row id="purch-material" label="원재료 입고" format="CSV" accept={csvAccept}
                   handler={(f) => uploadMaterialInbound(f, materialMonth, materialYear)}
+                  preview={(f) => previewUpload('purchaseMaterial', f, { year: materialYear, month: materialMonth })}
+                  mapping="purchaseMaterial"
                   params={<SelectMonthYear month={materialMonth} year={materialYear}
                     onMonthChange={setMaterialMonth} onYearChange={setMaterialYear} idPrefix="material-inbound" />} />
                 <Row id="purch-bom" label="BOM마스터" format="XLS" accept={xlsAccept}
-                  handler={uploadBomMaster} />
+                  handler={uploadBomMaster}
+                  preview={(f) => previewUpload('bomMaster', f)} />
                 <Row id="purch-material-master" label="자재마스터" format="XLS" accept={xlsAccept}
-                  handler={uploadMaterialMaster} />
+                  handler={uploadMaterialMaster}
+                  preview={(f) => previewUpload('materialMaster', f)} />
                 <Row id="purch-std-mix" label="배합표준서" format="XLS" accept={xlsAccept}
-                  handler={uploadStandardMix} />
+                  handler={uploadStandardMix}
+                  preview={(f) => previewUpload('standardMix', f)} />
                 <Row id="purch-mat-price" label="재질단가" format="XLS" accept={xlsAccept}
-                  handler={uploadMaterialPrice} />
+                  handler={uploadMaterialPrice}
+                  preview={(f) => previewUpload('materialPrice', f)} />
                 <Row id="purch-mix-log" label="배합일지" format="XLS" accept={xlsAccept}
-                  handler={uploadPaintMixLog} />
+                  handler={uploadPaintMixLog}
+                  preview={(f) => previewUpload('paintMixLog', f)} />
               </div>
             </div>
 
@@ -342,7 +459,9 @@ const UploaderModal: React.FC<Props> = ({ isOpen, onClose }) => {
               </div>
               <div className="space-y-1.5">
                 <Row id="supplier" label="협력사" format="CSV" accept={csvAccept}
-                  handler={uploadSupplier} />
+                  handler={uploadSupplier}
+                  preview={(f) => previewUpload('supplier', f)}
+                  mapping="supplier" />
               </div>
             </div>
           </div>
@@ -350,9 +469,16 @@ const UploaderModal: React.FC<Props> = ({ isOpen, onClose }) => {
 
         {/* Footer */}
         <div className="px-5 py-2.5 border-t border-slate-100 bg-slate-50/50 text-[10px] text-slate-400">
-          파일 선택 시 자동으로 파싱 및 저장됩니다 &middot; RPA: <code className="bg-slate-200 px-1 rounded">data-uploader</code> 속성 사용
+          파일 선택 시 미리보기(검증·기존 데이터 비교) 후 저장됩니다 &middot; ⚙ 컬럼 매핑은 자동 인식 실패 시 사용 &middot; RPA: <code className="bg-slate-200 px-1 rounded">data-uploader</code>, <code className="bg-slate-200 px-1 rounded">data-uploader-confirm</code> 속성 사용
         </div>
       </div>
+
+      {pending && (
+        <UploadPreviewDialog preview={pending.preview} onConfirm={confirmPending} onCancel={cancelPending} />
+      )}
+      {mappingTarget && (
+        <ColumnMappingDialog dataset={mappingTarget} onClose={() => setMappingTarget(null)} onSaved={loadMappings} />
+      )}
     </div>
   );
 };
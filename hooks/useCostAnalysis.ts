@@ -22,9 +22,10 @@ import {
 } from '../services/supabaseService';
 import {
   calcAllProductCosts, CostEngineResult, ProductCostRow, LeafMaterialRow, CostEngineSummary, ProductContribution,
-  buildPriceData, buildRefInfoMap,
+  CalcAllParams, buildPriceData, buildRefInfoMap,
 } from '../utils/bomCostEngine';
 import { verifyResinMaterial, printVerificationReport } from '../utils/mrpVerifier';
+import { storage } from '../utils/storage';
 
 // ============================================================
 // Types
@@ -36,6 +37,9 @@ export interface CostAnalysisData {
   // BomCostEngine 결과 (BomReviewView 동일 엔진)
   costResult: CostEngineResult | null;
 
+  // 엔진 입력 (What-if 시나리오 재계산용)
+  calcParams: CalcAllParams | null;
+
   // Forecast 기본 정보
   forecastSummary: {
     totalQty: number;
@@ -66,7 +70,7 @@ export type { ProductCostRow, LeafMaterialRow, CostEngineSummary, PurchaseItem,
 
 const safeParseJson = <T>(key: string, fallback: T): T => {
   try {
-    const stored = localStorage.getItem(key) || sessionStorage.getItem(key);
+    const stored = storage.getItem(key) || sessionStorage.getItem(key);
     return stored ? JSON.parse(stored) : fallback;
   } catch { return fallback; }
 };
@@ -206,30 +210,35 @@ export function useCostAnalysis(): CostAnalysisData {
     return { totalQty, totalRevenue, itemCount: forecast.length, customers, models, monthlyRevenue };
   }, [forecast]);
 
+  // 엔진 입력 (시나리오 레이어와 공유)
+  const calcParams = useMemo<CalcAllParams | null>(() => {
+    if (forecast.length === 0 || bomRecords.length === 0) return null;
+    return {
+      forecastData: forecast,
+      bomRecords,
+      refInfo,
+      materialCodes,
+      purchasePrices,
+      outsourcePrices,
+      paintMixRatios,
+      itemStandardCosts,
+      productCodes,
+      itemRevenue,
+      pnMapping,
+      selectedMonth,
+    };
+  }, [forecast, bomRecords, refInfo, materialCodes, purchasePrices, outsourcePrices, paintMixRatios, itemStandardCosts, productCodes, itemRevenue, pnMapping, selectedMonth]);
+
   // BomCostEngine 결과 (BomReviewView 동일 엔진)
   const costResult = useMemo(() => {
-    if (forecast.length === 0 || bomRecords.length === 0) return null;
+    if (!calcParams) return null;
     try {
-      const result = calcAllProductCosts({
-        forecastData: forecast,
-        bomRecords,
-        refInfo,
-        materialCodes,
-        purchasePrices,
-        outsourcePrices,
-        paintMixRatios,
-        itemStandardCosts,
-        productCodes,
-        itemRevenue,
-        pnMapping,
-        selectedMonth,
-      });
-      return result;
+      return calcAllProductCosts(calcParams);
     } catch (err) {
       console.error('[원가분석] BOM 원가 계산 실패:', err);
       return null;
     }
-  }, [forecast, bomRecords, refInfo, materialCodes, purchasePrices, outsourcePrices, paintMixRatios, itemStandardCosts, productCodes, itemRevenue, pnMapping, selectedMonth]);
+  }, [calcParams]);
 
   // 검증 유틸: 브라우저 콘솔에서 window.__verifyMRP('RESIN코드') 호출
   useMemo(() => {
@@ -265,7 +274,7 @@ export function useCostAnalysis(): CostAnalysisData {
   }, [costResult, bomRecords, refInfo, materialCodes, purchasePrices, outsourcePrices, itemStandardCosts]);
 
   return {
-    loading, costResult, forecastSummary,
+    loading, costResult, calcParams, forecastSummary,
     purchaseData, inventoryItems,
     selectedMonth, setSelectedMonth,
   };
@@ -1,7 +1,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { isSupabaseConfigured } from '../lib/supabase';
-import { safeSetItem } from '../utils/safeStorage';
+import { storage } from '../utils/storage';
 import {
   salesService,
   revenueService,
@@ -9,9 +9,13 @@ import {
   inventoryService,
   crService,
   rfqService,
-  syncAllDataToSupabase,
-  loadAllDataFromSupabase
+  loadAllDataFromSupabase,
+  prepareMergeSync,
+  applyMergeSync,
 } from '../services/supabaseService';
+import type { MergeSyncPlan } from '../services/supabaseService';
+import { getDirtyCount } from '../utils/syncMerge';
+import type { ConflictChoice } from '../utils/syncMerge';
 
 // Generic hook for data that syncs with Supabase
 export function useSupabaseSync<T>(
@@ -24,10 +28,10 @@ export function useSupabaseSync<T>(
   const [lastSyncTime, setLastSyncTime] = useState<Date | null>(null);
   const [syncError, setSyncError] = useState<string | null>(null);
 
-  // Save to localStorage and Supabase
+  // Save to local storage (IndexedDB) and Supabase
   const saveData = useCallback(async (newData: T) => {
     setData(newData);
-    safeSetItem(localStorageKey, JSON.stringify(newData));
+    await storage.put(localStorageKey, newData);
 
     if (isSupabaseConfigured() && service) {
       try {
@@ -53,7 +57,7 @@ export function useSupabaseSync<T>(
           const supabaseData = await service.getAll();
           if (supabaseData && (Array.isArray(supabaseData) ? supabaseData.length > 0 : Object.keys(supabaseData).length > 0)) {
             setData(supabaseData);
-            safeSetItem(localStorageKey, JSON.stringify(supabaseData));
+            await storage.put(localStorageKey, supabaseData);
           }
           setLastSyncTime(new Date());
         } catch (error: any) {
@@ -76,15 +80,26 @@ export function useGlobalSync() {
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncMessage, setSyncMessage] = useState<string | null>(null);
   const [isConfigured] = useState(isSupabaseConfigured());
+  const [pendingPlan, setPendingPlan] = useState<MergeSyncPlan | null>(null);
+  const [dirtyCount, setDirtyCount] = useState(() => getDirtyCount());
 
-  const syncToCloud = useCallback(async () => {
+  const refreshDirtyCount = useCallback(() => setDirtyCount(getDirtyCount()), []);
+
+  const finishSync = useCallback(async (plan: MergeSyncPlan, choices: Record<string, ConflictChoice>) => {
     setIsSyncing(true);
     setSyncMessage('클라우드로 동기화 중...');
 
-    const result = await syncAllDataToSupabase();
+    let result: { success: boolean; message: string };
+    try {
+      result = await applyMergeSync(plan, choices);
+    } catch (error: any) {
+      console.error('병합 동기화 적용 실패:', error);
+      result = { success: false, message: `동기화 실패: ${error?.message || error}` };
+    }
 
     setSyncMessage(result.message);
     setIsSyncing(false);
+    setDirtyCount(getDirtyCount());
 
     // Show error messages longer
     const timeout = result.success ? 3000 : 8000;
@@ -92,6 +107,41 @@ export function useGlobalSync() {
     return result;
   }, []);
 
+  // 레코드 단위 3-way 병합 → 충돌이 있으면 선택 대기, 없으면 바로 적용
+  const syncToCloud = useCallback(async () => {
+    setIsSyncing(true);
+    setSyncMessage('로컬/클라우드 변경사항 비교 중...');
+
+    let plan: MergeSyncPlan;
+    try {
+      plan = await prepareMergeSync();
+    } catch (error: any) {
+      console.error('병합 동기화 준비 실패:', error);
+      const message = `동기화 실패: ${error?.message || error}`;
+      setSyncMessage(message);
+      setIsSyncing(false);
+      setTimeout(() => setSyncMessage(null), 8000);
+      return { success: false, message };
+    }
+
+    if (plan.conflicts.length > 0) {
+      setPendingPlan(plan);
+      setSyncMessage(null);
+      setIsSyncing(false);
+      return { success: false, message: `충돌 ${plan.conflicts.length}건 확인 필요` };
+    }
+    return finishSync(plan, {});
+  }, [finishSync]);
+
+  const resolveConflicts = useCallback(async (choices: Record<string, ConflictChoice>) => {
+    if (!pendingPlan) return;
+    const plan = pendingPlan;
+    setPendingPlan(null);
+    await finishSync(plan, choices);
+  }, [pendingPlan, finishSync]);
+
+  const cancelConflicts = useCallback(() => setPendingPlan(null), []);
+
   const loadFromCloud = useCallback(async () => {
     setIsSyncing(true);
     setSyncMessage('클라우드에서 데이터 로드 중...');
@@ -112,5 +162,9 @@ export function useGlobalSync() {
     return result;
   }, []);
 
-  return { isSyncing, syncMessage, isConfigured, syncToCloud, loadFromCloud };
+  return {
+    isSyncing, syncMessage, isConfigured, syncToCloud, loadFromCloud,
+    conflicts: pendingPlan?.conflicts ?? [], resolveConflicts, cancelConflicts,
+    dirtyCount, refreshDirtyCount,
+  };
 }
@@ -1,9 +1,13 @@
 
 import { createClient, User } from '@supabase/supabase-js';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-const supabaseServiceRoleKey = import.meta.env.VITE_SUPABASE_SERVICE_ROLE_KEY;
+// Vite 빌드에서는 import.meta.env, Node CLI(scripts/dashboard-cli.ts)에서는 process.env
+const env: Record<string, string | undefined> =
+  import.meta.env ?? (typeof process !== 'undefined' ? process.env : {});
+
+const supabaseUrl = env.VITE_SUPABASE_URL;
+const supabaseAnonKey = env.VITE_SUPABASE_ANON_KEY;
+const supabaseServiceRoleKey = env.VITE_SUPABASE_SERVICE_ROLE_KEY;
 
 if (!supabaseUrl || !supabaseAnonKey) {
   console.warn('Supabase credentials not found. Using localStorage fallback.');
@@ -0,0 +1,457 @@
+/**
+ * dashboard-cli — 업로더/내보내기/원가 재계산 헤드리스 CLI (RPA·배치용)
+ *
+ * 브라우저 업로더(UploaderModal)와 같은 centralUploadHandlers·서비스 로직을 Node에서 실행한다.
+ * .env.local에 Supabase 설정이 있으면 Supabase에, 없거나 --local이면 로컬 JSON 저장소(--store)에 저장한다.
+ *
+ * 실행: npm run cli -- <command> [...]   (= tsx scripts/dashboard-cli.ts)
+ *   import <dataset> <file> [--year 2026] [--month 3] [--dry-run]
+ *   export <dataset> --format xlsx|csv|json [--out 파일]
+ *   recalc-costs [--month 1~12] [--format xlsx|csv|json] [--out 파일]
+ *   list
+ * 공통 옵션: --local (Supabase 무시), --store <경로> (기본 .dashboard-store.json)
+ *
+ * stdout에는 결과 JSON 한 건만 출력한다 ({ ok: true, ... } / { ok: false, error: { code, message } }).
+ * 파서·서비스 로그는 stderr로 보낸다.
+ * 종료 코드: 0 성공, 1 업로드/처리 실패, 2 사용법 오류, 3 검증 오류(--dry-run)
+ */
+import * as XLSX from 'xlsx';
+import * as fs from 'fs';
+import * as pathLib from 'path';
+import { fileURLToPath } from 'url';
+import type { UploadResult } from '../utils/centralUploadHandlers';
+import type { UploadDataset } from '../utils/uploadLedger';
+
+const __dirname = pathLib.dirname(fileURLToPath(import.meta.url));
+
+// ========================
+// Errors / output
+// ========================
+
+type CliErrorCode = 'USAGE' | 'FILE_NOT_FOUND' | 'UPLOAD_FAILED' | 'VALIDATION_FAILED' | 'EXPORT_FAILED' | 'RECALC_FAILED' | 'INTERNAL';
+
+const EXIT_CODE: Record<CliErrorCode, number> = {
+  USAGE: 2,
+  FILE_NOT_FOUND: 2,
+  UPLOAD_FAILED: 1,
+  VALIDATION_FAILED: 3,
+  EXPORT_FAILED: 1,
+  RECALC_FAILED: 1,
+  INTERNAL: 1,
+};
+
+class CliError extends Error {
+  constructor(public code: CliErrorCode, message: string, public details?: unknown) {
+    super(message);
+  }
+}
+
+const stdoutWrite = process.stdout.write.bind(process.stdout);
+
+function emit(result: Record<string, unknown>) {
+  stdoutWrite(`${JSON.stringify(result, null, 2)}\n`);
+}
+
+/** 파서·서비스의 console.log를 stderr로 — stdout은 결과 JSON 전용 */
+function redirectConsoleToStderr() {
+  const toStderr = (...args: unknown[]) => {
+    process.stderr.write(`${args.map(a => (typeof a === 'string' ? a : JSON.stringify(a))).join(' ')}\n`);
+  };
+  console.log = toStderr;
+  console.info = toStderr;
+  console.table = toStderr;
+}
+
+// ========================
+// Args
+// ========================
+
+interface ParsedArgs {
+  positional: string[];
+  options: Record<string, string | true>;
+}
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positional: string[] = [];
+  const options: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) { positional.push(arg); continue; }
+    const [name, inline] = arg.slice(2).split('=', 2);
+    if (inline !== undefined) options[name] = inline;
+    else if (argv[i + 1] !== undefined && !argv[i + 1].startsWith('--')) options[name] = argv[++i];
+    else options[name] = true;
+  }
+  return { positional, options };
+}
+
+const optString = (args: ParsedArgs, name: string): string | undefined => {
+  const v = args.options[name];
+  return typeof v === 'string' ? v : undefined;
+};
+
+function optYear(args: ParsedArgs): number {
+  const raw = optString(args, 'year');
+  if (!raw) throw new CliError('USAGE', '--year 옵션이 필요합니다');
+  const year = Number(raw);
+  if (!Number.isInteger(year) || year < 2000 || year > 2100) throw new CliError('USAGE', `잘못된 연도: ${raw}`);
+  return year;
+}
+
+/** '3', '03', '3월' → '3월' (업로더 월 선택값 형식) */
+function optMonth(args: ParsedArgs): string {
+  const raw = optString(args, 'month');
+  if (!raw) throw new CliError('USAGE', '--month 옵션이 필요합니다');
+  const month = parseInt(raw.replace(/월/g, ''), 10);
+  if (Number.isNaN(month) || month < 1 || month > 12) throw new CliError('USAGE', `잘못된 월: ${raw}`);
+  return `${month}월`;
+}
+
+// ========================
+// Node runtime (브라우저 API 대체)
+// ========================
+
+/** .env.local → process.env (이미 설정된 값 우선) */
+function loadEnv(local: boolean) {
+  const envPath = pathLib.resolve(__dirname, '../.env.local');
+  if (fs.existsSync(envPath)) {
+    for (const line of fs.readFileSync(envPath, 'utf-8').split('\n')) {
+      const m = line.match(/^([^#=]+)=(.*)$/);
+      if (m && process.env[m[1].trim()] === undefined) {
+        process.env[m[1].trim()] = m[2].trim().replace(/^["']|["']$/g, '');
+      }
+    }
+  }
+  if (local) {
+    delete process.env.VITE_SUPABASE_URL;
+    delete process.env.VITE_SUPABASE_ANON_KEY;
+  }
+}
+
+/** localStorage 대체 — JSON 파일 저장소 (storage 모듈이 IndexedDB 없는 환경에서 사용) */
+class JsonFileStorage {
+  private data: Record<string, string> = {};
+  private dirty = false;
+
+  /** file 없으면 메모리 전용 (sessionStorage) */
+  constructor(private file?: string) {
+    if (file && fs.existsSync(file)) this.data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  }
+
+  get length() { return Object.keys(this.data).length; }
+  key(i: number) { return Object.keys(this.data)[i] ?? null; }
+  getItem(key: string) { return key in this.data ? this.data[key] : null; }
+  setItem(key: string, value: string) { this.data[key] = String(value); this.dirty = true; }
+  removeItem(key: string) { delete this.data[key]; this.dirty = true; }
+  clear() { this.data = {}; this.dirty = true; }
+
+  save() {
+    if (!this.file || !this.dirty) return;
+    fs.writeFileSync(this.file, JSON.stringify(this.data));
+    this.dirty = false;
+  }
+}
+
+/** FileReader 대체 (fileReaders.ts의 readAsText/readAsArrayBuffer만 지원) */
+class NodeFileReader {
+  result: string | ArrayBuffer | null = null;
+  onload: ((event: { target: NodeFileReader }) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+
+  readAsText(blob: Blob, encoding = 'utf-8') {
+    blob.arrayBuffer()
+      .then(buf => this.finish(new TextDecoder(encoding).decode(buf)))
+      .catch(err => this.onerror?.(err));
+  }
+
+  readAsArrayBuffer(blob: Blob) {
+    blob.arrayBuffer()
+      .then(buf => this.finish(buf))
+      .catch(err => this.onerror?.(err));
+  }
+
+  private finish(result: string | ArrayBuffer) {
+    this.result = result;
+    this.onload?.({ target: this });
+  }
+}
+
+function installRuntime(storeFile: string): JsonFileStorage {
+  const store = new JsonFileStorage(storeFile);
+  Object.assign(globalThis, {
+    localStorage: store,
+    sessionStorage: new JsonFileStorage(),
+    ...('window' in globalThis ? {} : { window: new EventTarget() }),
+    ...('FileReader' in globalThis ? {} : { FileReader: NodeFileReader }),
+  });
+  return store;
+}
+
+function readInputFile(filePath: string): File {
+  const abs = pathLib.resolve(filePath);
+  if (!fs.existsSync(abs)) throw new CliError('FILE_NOT_FOUND', `파일을 찾을 수 없습니다: ${filePath}`);
+  return new File([fs.readFileSync(abs)], pathLib.basename(abs));
+}
+
+// ========================
+// Output formats
+// ========================
+
+type OutputFormat = 'xlsx' | 'csv' | 'json';
+
+function optFormat(args: ParsedArgs, fallback?: OutputFormat): OutputFormat {
+  const raw = optString(args, 'format') || fallback;
+  if (raw !== 'xlsx' && raw !== 'csv' && raw !== 'json') {
+    throw new CliError('USAGE', '--format 은 xlsx, csv, json 중 하나여야 합니다');
+  }
+  return raw;
+}
+
+/** 시트용 평탄화 — 배열·객체 필드는 JSON 문자열로 */
+const flattenRow = (row: object) =>
+  Object.fromEntries(Object.entries(row).map(([k, v]) => [k, v !== null && typeof v === 'object' ? JSON.stringify(v) : v]));
+
+/** rows를 형식에 맞게 파일(out) 또는 stdout 문자열로 — xlsx는 파일 필수 */
+function writeRows(rows: object[], format: OutputFormat, out: string | undefined, sheetName: string): string | null {
+  if (format === 'json') {
+    const text = JSON.stringify(rows, null, 2);
+    if (!out) return text;
+    fs.writeFileSync(out, text);
+    return null;
+  }
+  const sheet = XLSX.utils.json_to_sheet(rows.map(flattenRow));
+  if (format === 'csv') {
+    const text = XLSX.utils.sheet_to_csv(sheet);
+    if (!out) return text;
+    fs.writeFileSync(out, `\uFEFF${text}`);
+    return null;
+  }
+  if (!out) throw new CliError('USAGE', 'xlsx 형식은 --out 파일 경로가 필요합니다');
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, sheet, sheetName.slice(0, 31));
+  XLSX.writeFile(wb, out);
+  return null;
+}
+
+// ========================
+// Commands
+// ========================
+
+type Handlers = typeof import('../utils/centralUploadHandlers');
+type Services = typeof import('../services/supabaseService');
+
+interface ImportSpec {
+  scope: 'none' | 'year' | 'month';
+  run: (h: Handlers, file: File, year: number, month: string) => Promise<UploadResult>;
+}
+
+/** 업로더 데이터셋 → 업로드 핸들러 (UploaderModal 행과 동일) */
+const IMPORTERS: Record<UploadDataset, ImportSpec> = {
+  sales: { scope: 'none', run: (h, f) => h.uploadSalesQty(f) },
+  revenue: { scope: 'year', run: (h, f, y) => h.uploadRevenue(f, y) },
+  itemRevenue: { scope: 'none', run: (h, f) => h.uploadItemRevenue(f) },
+  rfq: { scope: 'none', run: (h, f) => h.uploadRfq(f) },
+  cr: { scope: 'year', run: (h, f, y) => h.uploadCR(f, y) },
+  purchaseParts: { scope: 'month', run: (h, f, y, m) => h.uploadPartsInbound(f, m, y) },
+  purchaseMaterial: { scope: 'month', run: (h, f, y, m) => h.uploadMaterialInbound(f, m, y) },
+  bomMaster: { scope: 'none', run: (h, f) => h.uploadBomMaster(f) },
+  materialMaster: { scope: 'none', run: (h, f) => h.uploadMaterialMaster(f) },
+  standardMix: { scope: 'none', run: (h, f) => h.uploadStandardMix(f) },
+  materialPrice: { scope: 'none', run: (h, f) => h.uploadMaterialPrice(f) },
+  paintMixLog: { scope: 'none', run: (h, f) => h.uploadPaintMixLog(f) },
+  inventoryResin: { scope: 'none', run: (h, f) => h.uploadResinInventory(f) },
+  inventoryPaint: { scope: 'none', run: (h, f) => h.uploadPaintInventory(f) },
+  inventoryParts: { scope: 'none', run: (h, f) => h.uploadPartsInventory(f) },
+  manufacturingCost: { scope: 'none', run: (h, f) => h.uploadManufacturingCost(f) },
+  supplier: { scope: 'none', run: (h, f) => h.uploadSupplier(f) },
+  mesProductInfo: { scope: 'none', run: (h, f) => h.uploadMesProductInfo(f) },
+  mesMaterialCode: { scope: 'none', run: (h, f) => h.uploadMesMaterialCode(f) },
+  mesPurchasePrice: { scope: 'none', run: (h, f) => h.uploadMesPurchasePrice(f) },
+  mesMaterialPrice: { scope: 'none', run: (h, f) => h.uploadMesMaterialPrice(f) },
+  mesPaintMixRatio: { scope: 'none', run: (h, f) => h.uploadMesPaintMixRatio(f) },
+  mesOutsourcePrice: { scope: 'none', run: (h, f) => h.uploadMesOutsourcePrice(f) },
+};
+
+async function cmdImport(args: ParsedArgs) {
+  const [, dataset, filePath] = args.positional;
+  const spec = IMPORTERS[dataset as UploadDataset];
+  if (!spec) throw new CliError('USAGE', `알 수 없는 데이터셋: ${dataset ?? '(없음)'}`, { datasets: Object.keys(IMPORTERS) });
+  if (!filePath) throw new CliError('USAGE', '업로드할 파일 경로가 필요합니다');
+
+  const year = spec.scope === 'none' ? 0 : optYear(args);
+  const month = spec.scope === 'month' ? optMonth(args) : '';
+  const file = readInputFile(filePath);
+  const handlers: Handlers = await import('../utils/centralUploadHandlers');
+
+  if (args.options['dry-run']) {
+    const scope = spec.scope === 'none' ? {} : spec.scope === 'year' ? { year } : { year, month };
+    let preview;
+    try {
+      preview = await handlers.previewUpload(dataset as UploadDataset, file, scope);
+    } catch (e: any) {
+      throw new CliError('UPLOAD_FAILED', e.message || '미리보기 실패');
+    }
+    const hasErrors = preview.issues.some(i => i.level === 'error');
+    if (hasErrors) throw new CliError('VALIDATION_FAILED', '검증 오류가 있습니다', preview);
+    return { command: 'import', dryRun: true, dataset, preview };
+  }
+
+  const result = await spec.run(handlers, file, year, month);
+  if (!result.success) throw new CliError('UPLOAD_FAILED', result.message, { dataset, file: file.name });
+  return { command: 'import', dataset, file: file.name, count: result.count, message: result.message };
+}
+
+/** 내보내기 데이터셋 → 서비스 조회 (Supabase 미설정 시 각 서비스가 로컬 저장소에서 읽음) */
+const EXPORTERS: Record<string, (s: Services) => Promise<object[]>> = {
+  sales: async s => (await s.salesService.getAll()).flatMap(c => c.items.map(item => ({ ...item }))),
+  revenue: s => s.revenueService.getAll(),
+  itemRevenue: s => s.itemRevenueService.getAll(),
+  rfq: s => s.rfqService.getAll(),
+  cr: s => s.crService.getAll(),
+  purchase: s => s.purchaseService.getAll(),
+  inventory: async s => {
+    const inv = await s.inventoryService.getInventoryV2();
+    return (['resin', 'paint', 'parts'] as const).flatMap(type => (inv[type] || []).map(item => ({ type, ...item })));
+  },
+  supplier: s => s.supplierService.getAll(),
+  forecast: s => s.forecastService.getItems('current'),
+  bomMaster: s => s.bomMasterService.getAll(),
+  productCode: s => s.productCodeService.getAll(),
+  referenceInfo: s => s.referenceInfoService.getAll(),
+  materialCode: s => s.materialCodeService.getAll(),
+  purchasePrice: s => s.purchasePriceService.getAll(),
+  uploadLedger: async s => (await s.uploadLedgerService.getAll()).map(({ snapshot, ...entry }) => ({
+    ...entry,
+    snapshotCount: snapshot?.length ?? null,
+  })),
+};
+
+async function cmdExport(args: ParsedArgs) {
+  const [, dataset] = args.positional;
+  const exporter = EXPORTERS[dataset];
+  if (!exporter) throw new CliError('USAGE', `알 수 없는 데이터셋: ${dataset ?? '(없음)'}`, { datasets: Object.keys(EXPORTERS) });
+  const format = optFormat(args);
+  const out = optString(args, 'out');
+
+  let rows: object[];
+  try {
+    rows = await exporter(await import('../services/supabaseService'));
+  } catch (e: any) {
+    throw new CliError('EXPORT_FAILED', e.message || '데이터 조회 실패', { dataset });
+  }
+  const text = writeRows(rows, format, out, dataset);
+  if (text !== null) {
+    // 파일 없이 stdout으로 내보내면 데이터 자체가 출력 (결과 JSON 생략)
+    stdoutWrite(`${text}\n`);
+    return null;
+  }
+  return { command: 'export', dataset, format, out, count: rows.length };
+}
+
+async function cmdRecalcCosts(args: ParsedArgs) {
+  const monthRaw = optString(args, 'month');
+  const selectedMonth = monthRaw ? parseInt(monthRaw.replace(/월/g, ''), 10) - 1 : -1;
+  if (Number.isNaN(selectedMonth) || selectedMonth < -1 || selectedMonth > 11) {
+    throw new CliError('USAGE', `잘못된 월: ${monthRaw}`);
+  }
+
+  const s: Services = await import('../services/supabaseService');
+  const { calcAllProductCosts } = await import('../utils/bomCostEngine');
+
+  // useCostAnalysis와 같은 입력 (Supabase 미설정 시 각 서비스가 로컬 저장소에서 읽음)
+  const [
+    forecastData, bomRecords, itemRevenue, refInfo, materialCodes, purchasePrices,
+    outsourcePrices, paintMixRatios, itemStandardCosts, productCodes, pnMapping,
+  ] = await Promise.all([
+    s.forecastService.getItems('current'),
+    s.bomMasterService.getAll(),
+    s.itemRevenueService.getAll(),
+    s.referenceInfoService.getAll(),
+    s.materialCodeService.getAll(),
+    s.purchasePriceService.getAll(),
+    s.outsourceInjPriceService.getAll(),
+    s.paintMixRatioService.getAll(),
+    s.itemStandardCostService.getAll(),
+    s.productCodeService.getAll(),
+    s.pnMappingService.getAll(),
+  ]);
+  if (forecastData.length === 0 || bomRecords.length === 0) {
+    throw new CliError('RECALC_FAILED', 'Forecast 또는 BOM 데이터가 없습니다', {
+      forecast: forecastData.length,
+      bom: bomRecords.length,
+    });
+  }
+
+  let result;
+  try {
+    result = calcAllProductCosts({
+      forecastData,
+      bomRecords,
+      refInfo,
+      materialCodes,
+      purchasePrices,
+      outsourcePrices,
+      paintMixRatios,
+      itemStandardCosts,
+      productCodes,
+      itemRevenue,
+      pnMapping,
+      selectedMonth,
+    });
+  } catch (e: any) {
+    throw new CliError('RECALC_FAILED', e.message || '원가 계산 실패');
+  }
+
+  const out = optString(args, 'out');
+  if (out) writeRows(result.products, optFormat(args, 'xlsx'), out, '제품별 재료비');
+  return {
+    command: 'recalc-costs',
+    month: selectedMonth === -1 ? 'all' : selectedMonth + 1,
+    summary: result.summary,
+    leafMaterialCount: result.leafMaterials.length,
+    out: out || undefined,
+  };
+}
+
+function cmdList() {
+  return {
+    command: 'list',
+    import: Object.fromEntries(Object.entries(IMPORTERS).map(([k, v]) => [k, v.scope])),
+    export: Object.keys(EXPORTERS),
+  };
+}
+
+// ========================
+// Main
+// ========================
+
+async function main(): Promise<number> {
+  const args = parseArgs(process.argv.slice(2));
+  const command = args.positional[0];
+  redirectConsoleToStderr();
+  loadEnv(args.options.local === true);
+  const store = installRuntime(pathLib.resolve(optString(args, 'store') || '.dashboard-store.json'));
+
+  try {
+    let result: Record<string, unknown> | null;
+    switch (command) {
+      case 'import': result = await cmdImport(args); break;
+      case 'export': result = await cmdExport(args); break;
+      case 'recalc-costs': result = await cmdRecalcCosts(args); break;
+      case 'list': result = cmdList(); break;
+      default: throw new CliError('USAGE', `알 수 없는 명령: ${command ?? '(없음)'} — import | export | recalc-costs | list`);
+    }
+    const { storage } = await import('../utils/storage');
+    await storage.flush();
+    store.save();
+    if (result) emit({ ok: true, ...result });
+    return 0;
+  } catch (e: any) {
+    const err = e instanceof CliError ? e : new CliError('INTERNAL', e?.message || String(e));
+    store.save();
+    emit({ ok: false, error: { code: err.code, message: err.message, details: err.details } });
+    return EXIT_CODE[err.code];
+  }
+}
+
+main().then(code => process.exit(code));
@@ -1,6 +1,7 @@
 
 import { supabase, isSupabaseConfigured } from '../lib/supabase';
 import { safeSetItem } from '../utils/safeStorage';
+import { storage } from '../utils/storage';
 import { SalesItem, CustomerSalesData, MonthlyStats } from '../utils/salesDataParser';
 import { PurchaseItem } from '../utils/purchaseDataParser';
 import { PurchaseItemMaster, PurchaseMonthlySummary } from '../utils/purchaseSummaryTypes';
@@ -8,7 +9,7 @@ import { RevenueItem, ItemRevenueRow } from '../utils/revenueDataParser';
 import { SupplierItem } from '../utils/supplierDataParser';
 import { InventoryItem } from '../utils/inventoryDataParser';
 import { CRItem } from '../utils/crDataParser';
-import { RFQItem } from '../utils/rfqDataParser';
+import { RFQItem, rfqKey } from '../utils/rfqDataParser';
 import { ForecastItem, ForecastSummary, ForecastUpload } from '../utils/salesForecastParser';
 import { BomRecord, PnMapping, normalizePn } from '../utils/bomDataParser';
 import { CIDetailItem } from '../utils/ciDataParser';
@@ -21,6 +22,21 @@ import {
   DataQualityIssue,
 } from '../utils/bomMasterParser';
 import type { PurchasePrice, OutsourcePrice, PaintMixRatio, ItemStandardCost, PaintMixLog, MaterialPrice } from '../utils/standardMaterialParser';
+import type { CostScenario } from '../utils/bomCostEngine';
+import type { PurchaseOrder, PurchaseOrderStatus } from '../utils/purchaseOrderBuilder';
+import { buildLineRevisions } from '../utils/bomRevision';
+import type { BomLineRevision, BomLineChange, BomChangeMeta } from '../utils/bomRevision';
+import type { BomChangeOrder } from '../utils/bomChangeOrder';
+import type { UploadLedgerEntry } from '../utils/uploadLedger';
+import type { ColumnMappingProfile, MappingDataset } from '../utils/columnMapping';
+import type { ForecastRevision } from '../utils/forecastRevision';
+import type { PartPriceDown } from '../utils/crPriceDown';
+import { derivePriceChangeCandidates } from '../utils/ciSavings';
+import type { CiCommitment } from '../utils/ciSavings';
+import type { RfqQuote } from '../utils/rfqQuote';
+import type { RfqPromotion } from '../utils/rfqPromotion';
+import { SYNC_DATASETS, commitSyncBase, threeWayMerge, resolveMerge, removedRemoteRecords } from '../utils/syncMerge';
+import type { DatasetMergeResult, SyncConflict, ConflictChoice } from '../utils/syncMerge';
 
 // ============================================
 // Helper Functions
@@ -175,7 +191,7 @@ const fetchAllRows = async (
 export const salesService = {
   async getAll(): Promise<CustomerSalesData[]> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_salesData');
+      const stored = storage.getItem('dashboard_salesData');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -257,7 +273,7 @@ export const salesService = {
 export const revenueService = {
   async getAll(): Promise<RevenueItem[]> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_revenueData');
+      const stored = storage.getItem('dashboard_revenueData');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -295,10 +311,17 @@ export const revenueService = {
     await insertInBatches('revenue_data', rows, REVENUE_BATCH_SIZE, 'year,month,customer,model');
   },
 
+  // 업로드 롤백용: 해당 연도 클라우드 데이터 삭제 (localStorage는 호출 측에서 갱신)
+  async deleteByYear(year: number): Promise<void> {
+    if (!isSupabaseConfigured()) return;
+    const { error } = await supabase!.from('revenue_data').delete().eq('year', year);
+    if (error) handleError(error, 'revenue delete');
+  },
+
   async saveByYear(data: RevenueItem[], year: number): Promise<void> {
     if (!isSupabaseConfigured()) {
       // For localStorage, filter and merge
-      const stored = localStorage.getItem('dashboard_revenueData');
+      const stored = storage.getItem('dashboard_revenueData');
       const existing: RevenueItem[] = stored ? JSON.parse(stored) : [];
       const filtered = existing.filter(item => item.year !== year);
       const merged = [...filtered, ...data];
@@ -335,7 +358,7 @@ export const revenueService = {
 export const itemRevenueService = {
   async getAll(): Promise<ItemRevenueRow[]> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_itemRevenueData');
+      const stored = storage.getItem('dashboard_itemRevenueData');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -354,6 +377,16 @@ export const itemRevenueService = {
     })) || [];
   },
 
+  // 업로드 롤백용: 클라우드 데이터 전체 삭제 (localStorage는 호출 측에서 갱신)
+  async deleteAll(): Promise<void> {
+    if (!isSupabaseConfigured()) return;
+    const { error } = await supabase!
+      .from('item_revenue_data')
+      .delete()
+      .neq('id', '00000000-0000-0000-0000-000000000000');
+    if (error) handleError(error, 'item revenue delete');
+  },
+
   async saveAll(data: ItemRevenueRow[]): Promise<void> {
     if (!isSupabaseConfigured()) {
       safeSetItem('dashboard_itemRevenueData', JSON.stringify(data));
@@ -385,7 +418,7 @@ export const itemRevenueService = {
 export const purchaseService = {
   async getAll(): Promise<PurchaseItem[]> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_purchaseData');
+      const stored = storage.getItem('dashboard_purchaseData');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -447,7 +480,7 @@ export const purchaseService = {
   async saveByMonthAndCategory(data: PurchaseItem[], month: string, category: 'Parts' | 'Material', year: number): Promise<void> {
     if (!isSupabaseConfigured()) {
       // localStorage 처리: 해당 월/카테고리 데이터만 삭제 후 새 데이터 추가
-      const stored = localStorage.getItem('dashboard_purchaseData');
+      const stored = storage.getItem('dashboard_purchaseData');
       const existing: PurchaseItem[] = stored ? JSON.parse(stored) : [];
       const filtered = existing.filter(item => 
         !(item.month === month && item.category === category && item.year === year)
@@ -491,7 +524,7 @@ export const purchaseService = {
       await insertInBatches('purchase_data', rows);
 
       // localStorage도 업데이트
-      const stored = localStorage.getItem('dashboard_purchaseData');
+      const stored = storage.getItem('dashboard_purchaseData');
       const existing: PurchaseItem[] = stored ? JSON.parse(stored) : [];
       const filtered = existing.filter(item => 
         !(item.month === month && item.category === category && item.year === year)
@@ -554,7 +587,7 @@ interface InventoryDataV2 {
 export const inventoryService = {
   async getAll(): Promise<InventoryData> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_inventoryData');
+      const stored = storage.getItem('dashboard_inventoryData');
       return stored ? JSON.parse(stored) : { warehouse: [], material: [], parts: [], product: [] };
     }
 
@@ -663,7 +696,7 @@ export const inventoryService = {
   // ============================================
   async getInventoryV2(): Promise<InventoryDataV2> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_inventory_v2');
+      const stored = storage.getItem('dashboard_inventory_v2');
       return stored ? JSON.parse(stored) : { resin: [], paint: [], parts: [] };
     }
 
@@ -727,11 +760,18 @@ export const inventoryService = {
       return result;
     } catch (err) {
       console.error('Failed to load inventory_v2 from Supabase:', err);
-      const stored = localStorage.getItem('dashboard_inventory_v2');
+      const stored = storage.getItem('dashboard_inventory_v2');
       return stored ? JSON.parse(stored) : { resin: [], paint: [], parts: [] };
     }
   },
 
+  // 업로드 롤백용: 유형별 클라우드 재고 삭제 (localStorage는 호출 측에서 갱신)
+  async deleteInventoryV2ByType(type: 'resin' | 'paint' | 'parts'): Promise<void> {
+    if (!isSupabaseConfigured()) return;
+    const { error } = await supabase!.from('inventory_v2').delete().eq('type', type);
+    if (error) handleError(error, 'inventory_v2 delete');
+  },
+
   async saveInventoryV2(data: InventoryDataV2): Promise<void> {
     if (!isSupabaseConfigured()) {
       safeSetItem('dashboard_inventory_v2', JSON.stringify(data));
@@ -812,7 +852,7 @@ export const inventoryService = {
 export const crService = {
   async getAll(): Promise<CRItem[]> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_crData');
+      const stored = storage.getItem('dashboard_crData');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -856,9 +896,16 @@ export const crService = {
     safeSetItem('dashboard_crData', JSON.stringify(data));
   },
 
+  // 업로드 롤백용: 해당 연도 클라우드 데이터 삭제 (localStorage는 호출 측에서 갱신)
+  async deleteByYear(year: number): Promise<void> {
+    if (!isSupabaseConfigured()) return;
+    const { error } = await supabase!.from('cr_data').delete().eq('year', year);
+    if (error) handleError(error, 'cr delete');
+  },
+
   async saveByYear(data: CRItem[], year: number): Promise<void> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_crData');
+      const stored = storage.getItem('dashboard_crData');
       const existing: CRItem[] = stored ? JSON.parse(stored) : [];
       const filtered = existing.filter(item => item.year !== year);
       const merged = [...filtered, ...data];
@@ -882,7 +929,7 @@ export const crService = {
       await insertInBatches('cr_data', rows, 500, 'year,month');
 
       // Update localStorage with merged data
-      const stored = localStorage.getItem('dashboard_crData');
+      const stored = storage.getItem('dashboard_crData');
       const existing: CRItem[] = stored ? JSON.parse(stored) : [];
       const filtered = existing.filter(item => item.year !== year);
       const merged = [...filtered, ...data];
@@ -901,29 +948,33 @@ export const crService = {
 export const rfqService = {
   async getAll(): Promise<RFQItem[]> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_rfqData');
+      const stored = storage.getItem('dashboard_rfqData');
       return stored ? JSON.parse(stored) : [];
     }
 
     const data = await fetchAllRows('rfq_data', 'created_at', { ascending: false });
+    const lostReasons = await rfqLostReasonService.getAll();
 
-    return data?.map((row: any) => ({
-      id: row.id,
-      index: row.index_no || '',
-      customer: row.customer,
-      projectType: row.project_type || '',
-      projectName: row.project_name || '',
-      process: row.process || '',
-      status: row.status || '',
-      dateSelection: row.date_selection || '',
-      dateQuotation: row.date_quotation || '',
-      datePO: row.date_po || '',
-      model: row.model || '',
-      qty: row.qty || 0,
-      unitPrice: row.unit_price || 0,
-      amount: row.amount || 0,
-      remark: row.remark || ''
-    })) || [];
+    return data?.map((row: any) => {
+      const item: RFQItem = {
+        id: row.id,
+        index: row.index_no || '',
+        customer: row.customer,
+        projectType: row.project_type || '',
+        projectName: row.project_name || '',
+        process: row.process || '',
+        status: row.status || '',
+        dateSelection: row.date_selection || '',
+        dateQuotation: row.date_quotation || '',
+        datePO: row.date_po || '',
+        model: row.model || '',
+        qty: row.qty || 0,
+        unitPrice: row.unit_price || 0,
+        amount: row.amount || 0,
+        remark: row.remark || '',
+      };
+      return { ...item, lostReason: lostReasons[rfqKey(item)] || undefined };
+    }) || [];
   },
 
   async saveAll(data: RFQItem[]): Promise<void> {
@@ -957,13 +1008,14 @@ export const rfqService = {
     }));
 
     await insertInBatches('rfq_data', rows);
+    await rfqLostReasonService.saveFromItems(data);
 
     safeSetItem('dashboard_rfqData', JSON.stringify(data));
   },
 
   async add(item: RFQItem): Promise<void> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_rfqData');
+      const stored = storage.getItem('dashboard_rfqData');
       const data: RFQItem[] = stored ? JSON.parse(stored) : [];
       data.push(item);
       safeSetItem('dashboard_rfqData', JSON.stringify(data));
@@ -988,11 +1040,12 @@ export const rfqService = {
     });
 
     if (error) handleError(error, 'rfq add');
+    await rfqLostReasonService.saveFromItems([item]);
   },
 
   async update(item: RFQItem): Promise<void> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_rfqData');
+      const stored = storage.getItem('dashboard_rfqData');
       const data: RFQItem[] = stored ? JSON.parse(stored) : [];
       const index = data.findIndex(d => d.id === item.id);
       if (index !== -1) {
@@ -1023,11 +1076,12 @@ export const rfqService = {
       .eq('id', item.id);
 
     if (error) handleError(error, 'rfq update');
+    await rfqLostReasonService.saveFromItems([item]);
   },
 
   async delete(id: string): Promise<void> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_rfqData');
+      const stored = storage.getItem('dashboard_rfqData');
       const data: RFQItem[] = stored ? JSON.parse(stored) : [];
       const filtered = data.filter(d => d.id !== id);
       safeSetItem('dashboard_rfqData', JSON.stringify(filtered));
@@ -1043,6 +1097,72 @@ export const rfqService = {
   }
 };
 
+// ============================================
+// RFQ Lost Reason Service (실주 사유 — RFQ 고정 키 기준, rfq_data와 별도 테이블)
+// ============================================
+
+const RFQ_LOST_REASON_LS_KEY = 'dashboard_rfqLostReasons';
+
+const readLocalRfqLostReasons = (): Record<string, string> => {
+  try {
+    const stored = storage.getItem(RFQ_LOST_REASON_LS_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch { return {}; }
+};
+
+export const rfqLostReasonService = {
+  async getAll(): Promise<Record<string, string>> {
+    if (!isSupabaseConfigured() || isTableMissing('rfq_lost_reasons')) return readLocalRfqLostReasons();
+
+    try {
+      const rows = await fetchAllRows('rfq_lost_reasons', 'rfq_key');
+      const map: Record<string, string> = {};
+      for (const r of rows) if (r.reason) map[r.rfq_key] = r.reason;
+      safeSetItem(RFQ_LOST_REASON_LS_KEY, JSON.stringify(map));
+      return map;
+    } catch (error: any) {
+      checkTableError(error, 'rfq_lost_reasons');
+      return readLocalRfqLostReasons();
+    }
+  },
+
+  /** RFQ 항목 기준 반영: 사유가 있으면 upsert, 비어 있으면 해당 키 삭제 */
+  async saveFromItems(items: RFQItem[]): Promise<void> {
+    const local = readLocalRfqLostReasons();
+    const upserts: { rfq_key: string; reason: string; updated_at: string }[] = [];
+    const removed: string[] = [];
+    const now = new Date().toISOString();
+    for (const item of items) {
+      const key = rfqKey(item);
+      const reason = item.lostReason?.trim();
+      if (reason) {
+        local[key] = reason;
+        upserts.push({ rfq_key: key, reason, updated_at: now });
+      } else if (key in local) {
+        delete local[key];
+        removed.push(key);
+      }
+    }
+    safeSetItem(RFQ_LOST_REASON_LS_KEY, JSON.stringify(local));
+
+    if (!isSupabaseConfigured() || isTableMissing('rfq_lost_reasons')) return;
+
+    try {
+      await insertInBatches('rfq_lost_reasons', upserts, 500, 'rfq_key');
+      for (let i = 0; i < removed.length; i += 500) {
+        const { error } = await supabase!
+          .from('rfq_lost_reasons')
+          .delete()
+          .in('rfq_key', removed.slice(i, i + 500));
+        if (error) throw error;
+      }
+    } catch (error: any) {
+      // 실주 사유 저장 실패가 RFQ 저장 자체를 막지 않도록 로그만 남긴다
+      if (!checkTableError(error, 'rfq_lost_reasons')) console.error('rfq_lost_reasons 저장 실패:', error);
+    }
+  },
+};
+
 // ============================================
 // Supplier Data Service (협력사 관리)
 // ============================================
@@ -1050,7 +1170,7 @@ export const rfqService = {
 export const supplierService = {
   async getAll(): Promise<SupplierItem[]> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_supplierData');
+      const stored = storage.getItem('dashboard_supplierData');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -1068,6 +1188,16 @@ export const supplierService = {
     })) || [];
   },
 
+  // 업로드 롤백용: 클라우드 데이터 전체 삭제 (localStorage는 호출 측에서 갱신)
+  async deleteAll(): Promise<void> {
+    if (!isSupabaseConfigured()) return;
+    const { error } = await supabase!
+      .from('supplier_data')
+      .delete()
+      .neq('id', '00000000-0000-0000-0000-000000000000');
+    if (error) handleError(error, 'supplier delete');
+  },
+
   async saveAll(data: SupplierItem[]): Promise<void> {
     if (!isSupabaseConfigured()) {
       safeSetItem('dashboard_supplierData', JSON.stringify(data));
@@ -1098,7 +1228,7 @@ export const supplierService = {
 export const purchaseItemMasterService = {
   async getAll(): Promise<PurchaseItemMaster[]> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_purchaseItemMaster');
+      const stored = storage.getItem('dashboard_purchaseItemMaster');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -1132,7 +1262,7 @@ export const purchaseItemMasterService = {
       }));
     } catch {
       // Table may not exist – fall back to localStorage
-      const stored = localStorage.getItem('dashboard_purchaseItemMaster');
+      const stored = storage.getItem('dashboard_purchaseItemMaster');
       return stored ? JSON.parse(stored) : [];
     }
   },
@@ -1162,7 +1292,7 @@ export const purchaseItemMasterService = {
 
   async upsertBatch(data: PurchaseItemMaster[]): Promise<void> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_purchaseItemMaster');
+      const stored = storage.getItem('dashboard_purchaseItemMaster');
       const existing: PurchaseItemMaster[] = stored ? JSON.parse(stored) : [];
       const map = new Map(existing.map(i => [i.partNo, i]));
       data.forEach(item => map.set(item.partNo, item));
@@ -1196,7 +1326,7 @@ export const purchaseItemMasterService = {
 // ============================================
 
 function getPurchaseSummaryFromLocal(year?: number): PurchaseMonthlySummary[] {
-  const stored = localStorage.getItem('dashboard_purchaseSummary');
+  const stored = storage.getItem('dashboard_purchaseSummary');
   const all: PurchaseMonthlySummary[] = stored ? JSON.parse(stored) : [];
   return year ? all.filter(d => d.year === year) : all;
 }
@@ -1260,7 +1390,7 @@ export const purchaseSummaryService = {
 
   async saveByYearMonth(data: PurchaseMonthlySummary[], year: number, month: string): Promise<void> {
     // localStorage 항상 업데이트
-    const stored = localStorage.getItem('dashboard_purchaseSummary');
+    const stored = storage.getItem('dashboard_purchaseSummary');
     const existing: PurchaseMonthlySummary[] = stored ? JSON.parse(stored) : [];
     const filtered = existing.filter(d => !(d.year === year && d.month === month));
     safeSetItem('dashboard_purchaseSummary', JSON.stringify([...filtered, ...data]));
@@ -1330,7 +1460,7 @@ export const purchaseSummaryService = {
 export const bomService = {
   async getAll(): Promise<BomRecord[]> {
     if (!isSupabaseConfigured() || isTableMissing('bom_data')) {
-      const stored = localStorage.getItem('dashboard_bomData');
+      const stored = storage.getItem('dashboard_bomData');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -1346,7 +1476,7 @@ export const bomService = {
         partType: row.part_type || '',
       }));
     } catch {
-      const stored = localStorage.getItem('dashboard_bomData');
+      const stored = storage.getItem('dashboard_bomData');
       return stored ? JSON.parse(stored) : [];
     }
   },
@@ -1394,7 +1524,7 @@ export interface CRKpiData {
 export const ciKpiService = {
   async get(): Promise<CRKpiData | null> {
     if (!isSupabaseConfigured() || isTableMissing('ci_kpi_settings')) {
-      const stored = localStorage.getItem('dashboard_crKpiData');
+      const stored = storage.getItem('dashboard_crKpiData');
       return stored ? JSON.parse(stored) : null;
     }
 
@@ -1459,7 +1589,7 @@ export const ciKpiService = {
 export const ciDetailService = {
   async getAll(): Promise<Record<number, CIDetailItem[]>> {
     if (!isSupabaseConfigured() || isTableMissing('ci_details')) {
-      const stored = localStorage.getItem('dashboard_ciDetails');
+      const stored = storage.getItem('dashboard_ciDetails');
       return stored ? JSON.parse(stored) : {};
     }
 
@@ -1487,7 +1617,7 @@ export const ciDetailService = {
     });
     return byMonth;
     } catch {
-      const stored = localStorage.getItem('dashboard_ciDetails');
+      const stored = storage.getItem('dashboard_ciDetails');
       return stored ? JSON.parse(stored) : {};
     }
   },
@@ -1552,7 +1682,7 @@ export interface CIUploadRecord {
 export const ciUploadService = {
   async getAll(): Promise<CIUploadRecord[]> {
     if (!isSupabaseConfigured() || isTableMissing('ci_uploads')) {
-      const stored = localStorage.getItem('dashboard_ciUploads');
+      const stored = storage.getItem('dashboard_ciUploads');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -1569,7 +1699,7 @@ export const ciUploadService = {
         itemCount: row.item_count || 0,
       })) || [];
     } catch {
-      const stored = localStorage.getItem('dashboard_ciUploads');
+      const stored = storage.getItem('dashboard_ciUploads');
       return stored ? JSON.parse(stored) : [];
     }
   },
@@ -1634,7 +1764,7 @@ export const checkAndAutoSync = async (): Promise<{ action: 'synced_up' | 'synce
       'dashboard_forecastData', 'dashboard_bomData'
     ];
     const localHasData = localKeys.some(key => {
-      const val = localStorage.getItem(key);
+      const val = storage.getItem(key);
       if (!val) return false;
       try {
         const parsed = JSON.parse(val);
@@ -1663,11 +1793,20 @@ export const checkAndAutoSync = async (): Promise<{ action: 'synced_up' | 'synce
 // Utility: Sync All Data to Supabase
 // ============================================
 
-export const syncAllDataToSupabase = async (): Promise<{ success: boolean; message: string }> => {
+/**
+ * 로컬 데이터셋 전체 업로드. skipKeys에 지정한 키는 건너뛴다
+ * (레코드 단위 병합 동기화 대상은 syncService.applyMergeSync에서 처리).
+ */
+export const syncAllDataToSupabase = async (
+  options: { skipKeys?: string[] } = {},
+): Promise<{ success: boolean; message: string }> => {
   if (!isSupabaseConfigured()) {
     return { success: false, message: 'Supabase is not configured. Data is stored locally.' };
   }
 
+  const skip = new Set(options.skipKeys || []);
+  const read = (key: string) => (skip.has(key) ? null : storage.getItem(key));
+
   const errors: string[] = [];
   let syncedCount = 0;
 
@@ -1684,15 +1823,15 @@ export const syncAllDataToSupabase = async (): Promise<{ success: boolean; messa
   };
 
   // Get all data from localStorage
-  const salesData = localStorage.getItem('dashboard_salesData');
-  const revenueData = localStorage.getItem('dashboard_revenueData');
-  const itemRevenueData = localStorage.getItem('dashboard_itemRevenueData');
-  const purchaseData = localStorage.getItem('dashboard_purchaseData');
-  const inventoryData = localStorage.getItem('dashboard_inventoryData');
-  const inventoryV2Data = localStorage.getItem('dashboard_inventory_v2');
-  const crData = localStorage.getItem('dashboard_crData');
-  const rfqData = localStorage.getItem('dashboard_rfqData');
-  const supplierData = localStorage.getItem('dashboard_supplierData');
+  const salesData = read('dashboard_salesData');
+  const revenueData = read('dashboard_revenueData');
+  const itemRevenueData = read('dashboard_itemRevenueData');
+  const purchaseData = read('dashboard_purchaseData');
+  const inventoryData = read('dashboard_inventoryData');
+  const inventoryV2Data = read('dashboard_inventory_v2');
+  const crData = read('dashboard_crData');
+  const rfqData = read('dashboard_rfqData');
+  const supplierData = read('dashboard_supplierData');
 
   // Sync each data type independently (with row count logging)
   if (salesData) {
@@ -1715,15 +1854,15 @@ export const syncAllDataToSupabase = async (): Promise<{ success: boolean; messa
   if (supplierData) await syncOne('supplier', () => supplierService.saveAll(JSON.parse(supplierData)));
 
   // BOM data
-  const bomData = localStorage.getItem('dashboard_bomData');
+  const bomData = read('dashboard_bomData');
   if (bomData) await syncOne('bom', () => bomService.saveAll(JSON.parse(bomData)));
 
   // Forecast data
-  const forecastData = localStorage.getItem('dashboard_forecastData');
-  const forecastSummaryData = localStorage.getItem('dashboard_forecastData_summary');
-  const forecastPrevData = localStorage.getItem('dashboard_forecastData_prev');
-  const forecastPrevSummaryData = localStorage.getItem('dashboard_forecastData_prev_summary');
-  const forecastUploadsData = localStorage.getItem('dashboard_forecastUploads');
+  const forecastData = read('dashboard_forecastData');
+  const forecastSummaryData = read('dashboard_forecastData_summary');
+  const forecastPrevData = read('dashboard_forecastData_prev');
+  const forecastPrevSummaryData = read('dashboard_forecastData_prev_summary');
+  const forecastUploadsData = read('dashboard_forecastUploads');
 
   if (forecastData) await syncOne('forecast', () => forecastService.saveItems(JSON.parse(forecastData), 'current'));
   if (forecastSummaryData) await syncOne('forecastSummary', () => forecastService.saveSummary(JSON.parse(forecastSummaryData), 'current'));
@@ -1732,9 +1871,9 @@ export const syncAllDataToSupabase = async (): Promise<{ success: boolean; messa
   if (forecastUploadsData) await syncOne('forecastUploads', () => forecastService.saveUploads(JSON.parse(forecastUploadsData)));
 
   // CI data
-  const ciKpiData = localStorage.getItem('dashboard_crKpiData');
-  const ciDetailsData = localStorage.getItem('dashboard_ciDetails');
-  const ciUploadsData = localStorage.getItem('dashboard_ciUploads');
+  const ciKpiData = read('dashboard_crKpiData');
+  const ciDetailsData = read('dashboard_ciDetails');
+  const ciUploadsData = read('dashboard_ciUploads');
 
   if (ciKpiData) await syncOne('ciKpi', () => ciKpiService.save(JSON.parse(ciKpiData)));
   if (ciDetailsData) await syncOne('ciDetails', () => ciDetailService.saveAll(JSON.parse(ciDetailsData)));
@@ -1746,6 +1885,133 @@ export const syncAllDataToSupabase = async (): Promise<{ success: boolean; messa
   return { success: false, message: `동기화 부분 완료: ${syncedCount}개 성공, ${errors.length}개 실패 (${errors.join(', ')})` };
 };
 
+// ============================================
+// Utility: Record-level Merge Sync (3-way)
+// ============================================
+
+interface MergeSyncService {
+  getAll: () => Promise<any[]>;
+  saveAll: (data: any[]) => Promise<void>;
+  /** saveAll이 upsert만 하는 데이터셋: 로컬에서 삭제된 레코드를 클라우드에서 지운다 */
+  deleteRemote?: (records: any[]) => Promise<void>;
+}
+
+/** 레코드별 키 컬럼 일치 행 삭제 (병합 동기화의 로컬 삭제분 — 건수가 적어 행 단위 처리) */
+const deleteMatchingRows = async (table: string, matches: Record<string, unknown>[]): Promise<void> => {
+  for (const match of matches) {
+    const { error } = await supabase!.from(table).delete().match(match);
+    if (error) handleError(error, `${table} delete`);
+  }
+};
+
+const MERGE_SYNC_SERVICES: Record<string, MergeSyncService> = {
+  // rfqService.saveAll은 전체 삭제 후 재입력이므로 별도 삭제 불필요
+  dashboard_rfqData: rfqService,
+  dashboard_bomData: {
+    ...bomService,
+    deleteRemote: (records: BomRecord[]) =>
+      deleteMatchingRows('bom_data', records.map(r => ({ parent_pn: r.parentPn, child_pn: r.childPn }))),
+  },
+  dashboard_crData: {
+    ...crService,
+    deleteRemote: (records: CRItem[]) =>
+      deleteMatchingRows('cr_data', records.map(r => ({ year: r.year, month: r.month }))),
+  },
+  dashboard_supplierData: {
+    ...supplierService,
+    deleteRemote: (records: SupplierItem[]) =>
+      deleteMatchingRows('supplier_data', records.map(r => ({ company_name: r.companyName }))),
+  },
+  dashboard_revenueData: {
+    ...revenueService,
+    deleteRemote: (records: RevenueItem[]) =>
+      deleteMatchingRows('revenue_data', records.map(r => ({ year: r.year, month: r.month, customer: r.customer, model: r.model }))),
+  },
+  dashboard_itemRevenueData: {
+    ...itemRevenueService,
+    deleteRemote: (records: ItemRevenueRow[]) =>
+      deleteMatchingRows('item_revenue_data', records.map(r => ({ period: r.period, part_no: r.partNo, customer: r.customer }))),
+  },
+};
+
+export interface MergeSyncPlan {
+  datasets: DatasetMergeResult[];
+  conflicts: SyncConflict[];
+  errors: string[];
+}
+
+/** 추적 데이터셋별 로컬 · 클라우드를 읽어 병합안 작성 (저장하지 않음) */
+export const prepareMergeSync = async (): Promise<MergeSyncPlan> => {
+  const plan: MergeSyncPlan = { datasets: [], conflicts: [], errors: [] };
+  if (!isSupabaseConfigured()) return plan;
+
+  for (const spec of SYNC_DATASETS) {
+    const service = MERGE_SYNC_SERVICES[spec.lsKey];
+    const stored = storage.getItem(spec.lsKey);
+    if (!service || !stored) continue;
+    try {
+      const remote = await service.getAll();
+      const result = threeWayMerge(spec, JSON.parse(stored), remote);
+      plan.datasets.push(result);
+      plan.conflicts.push(...result.conflicts);
+    } catch (err) {
+      console.error(`❌ ${spec.label} 병합 준비 실패:`, err);
+      plan.errors.push(spec.label);
+    }
+  }
+  return plan;
+};
+
+/**
+ * 병합안 적용: 충돌 선택 반영 → 로컬 저장 → 클라우드 저장(로컬 변경이 있을 때만) → base 갱신.
+ * 이어서 추적 대상이 아닌 데이터셋은 기존 방식대로 전체 업로드한다.
+ */
+export const applyMergeSync = async (
+  plan: MergeSyncPlan,
+  choices: Record<string, ConflictChoice> = {},
+): Promise<{ success: boolean; message: string }> => {
+  const errors = [...plan.errors];
+  let pushed = 0;
+  let pulled = 0;
+
+  for (const result of plan.datasets) {
+    const { spec } = result;
+    const localWins = result.conflicts.filter(c => choices[c.id] !== 'remote').length;
+    const remoteWins = result.conflicts.length - localWins;
+    const records = resolveMerge(result, choices);
+    try {
+      if (result.pulled > 0 || remoteWins > 0) {
+        safeSetItem(spec.lsKey, JSON.stringify(records));
+      }
+      if (result.pushed > 0 || localWins > 0) {
+        const service = MERGE_SYNC_SERVICES[spec.lsKey];
+        await service.saveAll(records);
+        const removed = removedRemoteRecords(result, records);
+        if (removed.length > 0 && service.deleteRemote) await service.deleteRemote(removed);
+      }
+      commitSyncBase(spec.lsKey, records);
+      pushed += result.pushed + localWins;
+      pulled += result.pulled + remoteWins;
+      if (result.pulled > 0 || remoteWins > 0) {
+        window.dispatchEvent(new CustomEvent('dashboard-data-updated', { detail: { key: spec.lsKey, data: records } }));
+      }
+    } catch (err) {
+      console.error(`❌ ${spec.label} 병합 저장 실패:`, err);
+      errors.push(spec.label);
+    }
+  }
+
+  const rest = await syncAllDataToSupabase({ skipKeys: plan.datasets.map(d => d.spec.lsKey) });
+  const summary = `레코드 업로드 ${pushed}건 · 다운로드 ${pulled}건`;
+  if (errors.length === 0 && rest.success) {
+    return { success: true, message: `동기화 완료! (${summary})` };
+  }
+  return {
+    success: false,
+    message: `동기화 부분 완료: ${summary}${errors.length > 0 ? `, 병합 실패 (${errors.join(', ')})` : ''}${rest.success ? '' : ` / ${rest.message}`}`,
+  };
+};
+
 // ============================================
 // Utility: Load All Data from Supabase
 // ============================================
@@ -1779,11 +2045,13 @@ export const loadAllDataFromSupabase = async (): Promise<{ success: boolean; mes
     const total2026 = data.filter(r => r.year === 2026).reduce((s, r) => s + (r.amount || 0), 0);
     console.log(`📊 revenue downloaded: ${data.length} rows, 2026 total: ${(total2026/100000000).toFixed(1)}억`);
     safeSetItem('dashboard_revenueData', JSON.stringify(data));
+    commitSyncBase('dashboard_revenueData', data);
   });
   await loadOne('itemRevenue', async () => {
     const data = await itemRevenueService.getAll();
     console.log(`📊 itemRevenue downloaded: ${data.length} rows`);
     safeSetItem('dashboard_itemRevenueData', JSON.stringify(data));
+    commitSyncBase('dashboard_itemRevenueData', data);
   });
   await loadOne('purchase', async () => {
     const data = await purchaseService.getAll();
@@ -1801,18 +2069,22 @@ export const loadAllDataFromSupabase = async (): Promise<{ success: boolean; mes
   await loadOne('cr', async () => {
     const data = await crService.getAll();
     safeSetItem('dashboard_crData', JSON.stringify(data));
+    commitSyncBase('dashboard_crData', data);
   });
   await loadOne('rfq', async () => {
     const data = await rfqService.getAll();
     safeSetItem('dashboard_rfqData', JSON.stringify(data));
+    commitSyncBase('dashboard_rfqData', data);
   });
   await loadOne('supplier', async () => {
     const data = await supplierService.getAll();
     safeSetItem('dashboard_supplierData', JSON.stringify(data));
+    commitSyncBase('dashboard_supplierData', data);
   });
   await loadOne('bom', async () => {
     const data = await bomService.getAll();
     safeSetItem('dashboard_bomData', JSON.stringify(data));
+    commitSyncBase('dashboard_bomData', data);
   });
 
   // Forecast data
@@ -1857,12 +2129,30 @@ export const loadAllDataFromSupabase = async (): Promise<{ success: boolean; mes
 // Forecast Data Service (매출계획)
 // ============================================
 
+const toForecastRow = (item: ForecastItem, version: 'current' | 'previous') => ({
+  version,
+  no: typeof item.no === 'number' ? item.no : 0,
+  customer: String(item.customer).trim(),
+  model: item.model || '',
+  stage: item.stage || '',
+  part_no: item.partNo || '',
+  new_part_no: item.newPartNo || '',
+  type: item.type || '',
+  unit_price: Number(item.unitPrice) || 0,
+  category: item.category || '',
+  part_name: item.partName || '',
+  monthly_qty: Array.isArray(item.monthlyQty) ? item.monthlyQty : [],
+  total_qty: Math.round(Number(item.totalQty) || 0),
+  monthly_revenue: Array.isArray(item.monthlyRevenue) ? item.monthlyRevenue : [],
+  total_revenue: Number(item.totalRevenue) || 0,
+});
+
 export const forecastService = {
   async getItems(version: 'current' | 'previous' = 'current'): Promise<ForecastItem[]> {
     const key = version === 'current' ? 'dashboard_forecastData' : 'dashboard_forecastData_prev';
 
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem(key);
+      const stored = storage.getItem(key);
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -1905,7 +2195,7 @@ export const forecastService = {
 
       // Supabase 0건이지만 localStorage에 데이터가 있으면 localStorage 우선 사용 (데이터 유실 복구)
       if (items.length === 0) {
-        const stored = localStorage.getItem(key);
+        const stored = storage.getItem(key);
         const local: ForecastItem[] = stored ? JSON.parse(stored) : [];
         if (local.length > 0) {
           console.warn(`⚠️ forecast ${version}: Supabase 0건, localStorage ${local.length}건 → localStorage 사용`);
@@ -1917,7 +2207,7 @@ export const forecastService = {
       console.log(`📊 forecast ${version} loaded: ${items.length}개, 총매출: ${(total/1e8).toFixed(1)}억`);
       return items;
     } catch {
-      const stored = localStorage.getItem(key);
+      const stored = storage.getItem(key);
       return stored ? JSON.parse(stored) : [];
     }
   },
@@ -1940,23 +2230,7 @@ export const forecastService = {
       return;
     }
 
-    const rows = validData.map(item => ({
-      version,
-      no: typeof item.no === 'number' ? item.no : 0,
-      customer: String(item.customer).trim(),
-      model: item.model || '',
-      stage: item.stage || '',
-      part_no: item.partNo || '',
-      new_part_no: item.newPartNo || '',
-      type: item.type || '',
-      unit_price: Number(item.unitPrice) || 0,
-      category: item.category || '',
-      part_name: item.partName || '',
-      monthly_qty: Array.isArray(item.monthlyQty) ? item.monthlyQty : [],
-      total_qty: Math.round(Number(item.totalQty) || 0),
-      monthly_revenue: Array.isArray(item.monthlyRevenue) ? item.monthlyRevenue : [],
-      total_revenue: Number(item.totalRevenue) || 0,
-    }));
+    const rows = validData.map(item => toForecastRow(item, version));
 
     // Delete existing data for this version (only after validating insert data exists)
     const { error: deleteError } = await supabase!
@@ -1980,10 +2254,29 @@ export const forecastService = {
     console.log(`✅ Forecast ${version} items: 입력 ${rows.length}개 → DB ${count}개, 총매출: ${(inputTotal/1e8).toFixed(1)}억`);
   },
 
+  /** 단일 라인 추가 — 기존 계획 전체를 다시 쓰지 않고 한 행만 insert */
+  async addItem(item: ForecastItem, version: 'current' | 'previous' = 'current'): Promise<void> {
+    const key = version === 'current' ? 'dashboard_forecastData' : 'dashboard_forecastData_prev';
+    if (item.customer == null || String(item.customer).trim() === '') {
+      throw new Error('forecast_data: 고객사가 비어 있는 라인은 추가할 수 없습니다.');
+    }
+
+    if (isSupabaseConfigured()) {
+      const { error } = await supabase!.from('forecast_data').insert(toForecastRow(item, version));
+      if (error) handleError(error, 'forecast_data add');
+    }
+
+    try {
+      const stored = storage.getItem(key);
+      const local: ForecastItem[] = stored ? JSON.parse(stored) : [];
+      safeSetItem(key, JSON.stringify([...local, item]));
+    } catch { /* ignore */ }
+  },
+
   async getSummary(version: 'current' | 'previous' = 'current'): Promise<ForecastSummary | null> {
     if (!isSupabaseConfigured()) {
       const key = version === 'current' ? 'dashboard_forecastData_summary' : 'dashboard_forecastData_prev_summary';
-      const stored = localStorage.getItem(key);
+      const stored = storage.getItem(key);
       return stored ? JSON.parse(stored) : null;
     }
 
@@ -2018,7 +2311,7 @@ export const forecastService = {
     if (data) {
       safeSetItem(key, JSON.stringify(data));
     } else {
-      localStorage.removeItem(key);
+      storage.removeItem(key);
     }
 
     if (!isSupabaseConfigured()) return;
@@ -2057,7 +2350,7 @@ export const forecastService = {
 
   async getUploads(): Promise<ForecastUpload[]> {
     if (!isSupabaseConfigured() || isTableMissing('forecast_uploads')) {
-      const stored = localStorage.getItem('dashboard_forecastUploads');
+      const stored = storage.getItem('dashboard_forecastUploads');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -2128,6 +2421,90 @@ export const forecastService = {
   }
 };
 
+// ============================================
+// Forecast Revision Service (매출계획 개정본 스냅샷)
+// ============================================
+
+const FORECAST_REVISION_LS_KEY = 'dashboard_forecastRevisions';
+
+function readLocalForecastRevisions(): ForecastRevision[] {
+  try {
+    const stored = storage.getItem(FORECAST_REVISION_LS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export const forecastRevisionService = {
+  async getAll(): Promise<ForecastRevision[]> {
+    if (!isSupabaseConfigured() || isTableMissing('forecast_revisions')) return readLocalForecastRevisions();
+
+    try {
+      const rows = await fetchAllRows('forecast_revisions', 'upload_date');
+      const revisions: ForecastRevision[] = rows.map((row: any) => ({
+        upload: {
+          id: row.upload_id,
+          fileName: row.file_name || '',
+          uploadDate: row.upload_date || '',
+          reportDate: row.report_date || '',
+          revision: row.revision || '',
+          year: row.year || 0,
+          totalRevenue: Number(row.total_revenue) || 0,
+          totalQty: Number(row.total_qty) || 0,
+          itemCount: row.item_count || 0,
+        },
+        items: Array.isArray(row.items) ? row.items : [],
+      }));
+      try { safeSetItem(FORECAST_REVISION_LS_KEY, JSON.stringify(revisions)); } catch { /* ignore */ }
+      return revisions;
+    } catch (error: any) {
+      checkTableError(error, 'forecast_revisions');
+      return readLocalForecastRevisions();
+    }
+  },
+
+  async save(revision: ForecastRevision): Promise<void> {
+    const local = readLocalForecastRevisions().filter(r => r.upload.id !== revision.upload.id);
+    safeSetItem(FORECAST_REVISION_LS_KEY, JSON.stringify([...local, revision]));
+
+    if (!isSupabaseConfigured() || isTableMissing('forecast_revisions')) return;
+
+    const { upload, items } = revision;
+    const { error } = await supabase!
+      .from('forecast_revisions')
+      .upsert({
+        upload_id: upload.id,
+        file_name: upload.fileName,
+        upload_date: upload.uploadDate,
+        report_date: upload.reportDate,
+        revision: upload.revision,
+        year: upload.year,
+        total_revenue: upload.totalRevenue,
+        total_qty: Math.round(upload.totalQty),
+        item_count: upload.itemCount,
+        items,
+      }, { onConflict: 'upload_id' });
+    if (error && !checkTableError(error, 'forecast_revisions')) {
+      console.error('forecast_revisions upsert error:', error);
+    }
+  },
+
+  async delete(uploadId: string): Promise<void> {
+    safeSetItem(FORECAST_REVISION_LS_KEY, JSON.stringify(readLocalForecastRevisions().filter(r => r.upload.id !== uploadId)));
+
+    if (!isSupabaseConfigured() || isTableMissing('forecast_revisions')) return;
+
+    const { error } = await supabase!
+      .from('forecast_revisions')
+      .delete()
+      .eq('upload_id', uploadId);
+    if (error && !checkTableError(error, 'forecast_revisions')) {
+      console.error('forecast_revisions delete error:', error);
+    }
+  },
+};
+
 // ============================================
 // BOM Master Service (BOM 마스터 - 파란색 탭)
 // ============================================
@@ -2135,7 +2512,7 @@ export const forecastService = {
 export const bomMasterService = {
   async getAll(): Promise<BomMasterRecord[]> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_bomMasterData');
+      const stored = storage.getItem('dashboard_bomMasterData');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -2155,7 +2532,7 @@ export const bomMasterService = {
         try { safeSetItem('dashboard_bomMasterData', JSON.stringify(records)); } catch { /* ignore */ }
       } else {
         console.warn('⚠️ bom_master Supabase 응답 0건 — localStorage 폴백 시도');
-        const stored = localStorage.getItem('dashboard_bomMasterData');
+        const stored = storage.getItem('dashboard_bomMasterData');
         if (stored) {
           const cached = JSON.parse(stored) as BomMasterRecord[];
           if (cached.length > 0) {
@@ -2167,7 +2544,7 @@ export const bomMasterService = {
       return records;
     } catch (err) {
       console.error('❌ bom_master 로드 실패:', err);
-      const stored = localStorage.getItem('dashboard_bomMasterData');
+      const stored = storage.getItem('dashboard_bomMasterData');
       if (stored) {
         const cached = JSON.parse(stored) as BomMasterRecord[];
         console.log(`📦 bom_master localStorage 폴백: ${cached.length}건`);
@@ -2177,7 +2554,14 @@ export const bomMasterService = {
     }
   },
 
-  async saveAll(records: BomMasterRecord[]): Promise<void> {
+  /** before: 호출부가 방금 로드한 BOM (개정이력 비교 기준). 생략 시 getAll()로 조회 */
+  async saveAll(
+    records: BomMasterRecord[],
+    change: BomChangeMeta = { reason: 'BOM 업로드' },
+    before?: BomMasterRecord[],
+  ): Promise<void> {
+    await recordBomRevisions(before ?? await bomMasterService.getAll(), records, change, false);
+
     if (!isSupabaseConfigured() || isTableMissing('bom_master')) {
       try { safeSetItem('dashboard_bomMasterData', JSON.stringify(records)); } catch { /* ignore */ }
       return;
@@ -2224,7 +2608,7 @@ export const bomMasterService = {
 
     // 4) localStorage: 기존 + 업로드 병합
     const localExisting: BomMasterRecord[] = (() => {
-      try { const s = localStorage.getItem('dashboard_bomMasterData'); return s ? JSON.parse(s) : []; }
+      try { const s = storage.getItem('dashboard_bomMasterData'); return s ? JSON.parse(s) : []; }
       catch { return []; }
     })();
     const localMap = new Map<string, BomMasterRecord>();
@@ -2241,81 +2625,35 @@ export const bomMasterService = {
   },
 
   /** BOM 소요량(qty) 업데이트 */
-  async updateQty(parentPn: string, childPn: string, newQty: number): Promise<boolean> {
-    if (!isSupabaseConfigured() || isTableMissing('bom_master')) {
-      // localStorage fallback
-      const stored = localStorage.getItem('dashboard_bomMasterData');
-      if (stored) {
-        const records = JSON.parse(stored) as Array<{ parentPn: string; childPn: string; qty: number; [k: string]: unknown }>;
-        let found = false;
-        for (const r of records) {
-          if (r.parentPn === parentPn && r.childPn === childPn) {
-            r.qty = newQty;
-            found = true;
-          }
-        }
-        if (found) {
-          try { safeSetItem('dashboard_bomMasterData', JSON.stringify(records)); } catch { /* ignore */ }
-          return true;
-        }
-      }
-      return false;
-    }
-
-    try {
-      const { error } = await supabase!
-        .from('bom_master')
-        .update({ qty: newQty })
-        .eq('parent_pn', parentPn)
-        .eq('child_pn', childPn);
-      if (error) {
-        console.error('bomMasterService.updateQty error:', error);
-        return false;
-      }
-      // localStorage도 동기화
-      const stored = localStorage.getItem('dashboard_bomMasterData');
-      if (stored) {
-        const records = JSON.parse(stored);
-        for (const r of records) {
-          if (r.parentPn === parentPn && r.childPn === childPn) r.qty = newQty;
-        }
-        try { safeSetItem('dashboard_bomMasterData', JSON.stringify(records)); } catch { /* ignore */ }
-      }
-      return true;
-    } catch (e) {
-      console.error('bomMasterService.updateQty exception:', e);
-      return false;
-    }
+  async updateQty(
+    parentPn: string,
+    childPn: string,
+    newQty: number,
+    change?: BomChangeMeta,
+    current?: BomMasterRecord[],
+  ): Promise<boolean> {
+    return bomMasterService.updateRecord(parentPn, childPn, { qty: newQty }, change, current);
   },
 
-  /** BOM 레코드 필드 업데이트 (childName, partType, supplier, qty 등) */
+  /**
+   * BOM 레코드 필드 업데이트 (childName, partType, supplier, qty 등)
+   * 로컬 캐시·개정이력은 Supabase 반영 성공 후에만 기록 (실패 시 변경 없음)
+   */
   async updateRecord(
     parentPn: string,
     childPn: string,
     updates: Partial<{ childName: string; partType: string; supplier: string; qty: number }>,
+    change?: BomChangeMeta,
+    current?: BomMasterRecord[],
   ): Promise<boolean> {
-    // localStorage 업데이트
-    const stored = localStorage.getItem('dashboard_bomMasterData');
-    if (stored) {
-      const records = JSON.parse(stored) as BomMasterRecord[];
-      let found = false;
-      const nParent = normalizePn(parentPn);
-      const nChild = normalizePn(childPn);
-      for (const r of records) {
-        if (normalizePn(r.parentPn) === nParent && normalizePn(r.childPn) === nChild) {
-          if (updates.childName !== undefined) r.childName = updates.childName;
-          if (updates.partType !== undefined) r.partType = updates.partType;
-          if (updates.supplier !== undefined) r.supplier = updates.supplier;
-          if (updates.qty !== undefined) r.qty = updates.qty;
-          found = true;
-        }
-      }
-      if (found) {
-        try { safeSetItem('dashboard_bomMasterData', JSON.stringify(records)); } catch { /* ignore */ }
-      }
-    }
+    // 개정이력 비교 기준은 변경 전 상태로 먼저 확보
+    const prev = await findBomLine(parentPn, childPn, current);
 
-    if (!isSupabaseConfigured() || isTableMissing('bom_master')) return true;
+    if (!isSupabaseConfigured() || isTableMissing('bom_master')) {
+      if (!updateLocalBomLine(parentPn, childPn, updates)) return false;
+      await recordBomLineUpdate(prev, updates, change);
+      return true;
+    }
 
     try {
       const dbUpdates: Record<string, unknown> = {};
@@ -2333,14 +2671,218 @@ export const bomMasterService = {
         console.error('bomMasterService.updateRecord error:', error);
         return false;
       }
-      return true;
     } catch (e) {
       console.error('bomMasterService.updateRecord exception:', e);
       return false;
     }
+
+    // localStorage도 동기화
+    updateLocalBomLine(parentPn, childPn, updates);
+    await recordBomLineUpdate(prev, updates, change);
+    return true;
+  },
+};
+
+/** localStorage BOM 라인 필드 반영 → 해당 라인 존재 여부 */
+function updateLocalBomLine(
+  parentPn: string,
+  childPn: string,
+  updates: Partial<{ childName: string; partType: string; supplier: string; qty: number }>,
+): boolean {
+  const stored = storage.getItem('dashboard_bomMasterData');
+  if (!stored) return false;
+  const records = JSON.parse(stored) as BomMasterRecord[];
+  const nParent = normalizePn(parentPn);
+  const nChild = normalizePn(childPn);
+  let found = false;
+  for (const r of records) {
+    if (normalizePn(r.parentPn) === nParent && normalizePn(r.childPn) === nChild) {
+      if (updates.childName !== undefined) r.childName = updates.childName;
+      if (updates.partType !== undefined) r.partType = updates.partType;
+      if (updates.supplier !== undefined) r.supplier = updates.supplier;
+      if (updates.qty !== undefined) r.qty = updates.qty;
+      found = true;
+    }
+  }
+  if (found) {
+    try { safeSetItem('dashboard_bomMasterData', JSON.stringify(records)); } catch { /* ignore */ }
+  }
+  return found;
+}
+
+// ============================================
+// BOM Revision Service (BOM 라인 개정이력 · 유효기간)
+// ============================================
+
+const BOM_REVISION_LS_KEY = 'dashboard_bomRevisions';
+
+const readLocalBomRevisions = (): BomLineRevision[] => {
+  try {
+    const stored = storage.getItem(BOM_REVISION_LS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch { return []; }
+};
+
+/** 변경자: 명시값 → 로그인 사용자 이메일 → 로컬 */
+export const resolveEditor = async (editor?: string): Promise<string> => {
+  if (editor) return editor;
+  if (!supabase) return '로컬';
+  try {
+    const { data } = await supabase.auth.getSession();
+    return data.session?.user?.email || '로컬';
+  } catch { return '로컬'; }
+};
+
+const toBomRevision = (row: any): BomLineRevision => ({
+  id: row.id,
+  parentPn: row.parent_pn || '',
+  childPn: row.child_pn || '',
+  level: row.level || 1,
+  qty: Number(row.qty) || 0,
+  childName: row.child_name || '',
+  partType: row.part_type || '',
+  supplier: row.supplier || '',
+  validFrom: row.valid_from || '',
+  validTo: row.valid_to || null,
+  changeType: row.change_type || 'update',
+  reason: row.reason || '',
+  editor: row.editor || '',
+  closedReason: row.closed_reason || undefined,
+  closedBy: row.closed_by || undefined,
+});
+
+export const bomRevisionService = {
+  async getAll(): Promise<BomLineRevision[]> {
+    if (!isSupabaseConfigured() || isTableMissing('bom_revisions')) return readLocalBomRevisions();
+
+    try {
+      const rows = await fetchAllRows('bom_revisions', 'parent_pn');
+      const revisions: BomLineRevision[] = rows.map(toBomRevision);
+      try { safeSetItem(BOM_REVISION_LS_KEY, JSON.stringify(revisions)); } catch { /* ignore */ }
+      return revisions;
+    } catch (error: any) {
+      checkTableError(error, 'bom_revisions');
+      return readLocalBomRevisions();
+    }
+  },
+
+  /** 자품번 기준 개정 조회 (단일 라인 수정 시 전체 이력 로드 회피) */
+  async getByChild(childPn: string): Promise<BomLineRevision[]> {
+    if (!isSupabaseConfigured() || isTableMissing('bom_revisions')) {
+      return storage.query<BomLineRevision>(BOM_REVISION_LS_KEY, 'childPn', childPn);
+    }
+
+    try {
+      const { data, error } = await supabase!
+        .from('bom_revisions')
+        .select('*')
+        .eq('child_pn', childPn);
+      if (error) throw error;
+      return (data || []).map(toBomRevision);
+    } catch (error: any) {
+      checkTableError(error, 'bom_revisions');
+      return storage.query<BomLineRevision>(BOM_REVISION_LS_KEY, 'childPn', childPn);
+    }
+  },
+
+  /** 개정 upsert (id 기준: 닫힌 기존 개정 + 신규 개정) */
+  async saveMany(revisions: BomLineRevision[]): Promise<void> {
+    if (revisions.length === 0) return;
+    const ids = new Set(revisions.map(r => r.id));
+    const local = readLocalBomRevisions().filter(r => !ids.has(r.id));
+    try { safeSetItem(BOM_REVISION_LS_KEY, JSON.stringify([...local, ...revisions])); } catch { /* ignore */ }
+
+    if (!isSupabaseConfigured() || isTableMissing('bom_revisions')) return;
+
+    const rows = revisions.map(r => ({
+      id: r.id,
+      parent_pn: r.parentPn,
+      child_pn: r.childPn,
+      level: r.level,
+      qty: r.qty,
+      child_name: r.childName,
+      part_type: r.partType,
+      supplier: r.supplier,
+      valid_from: r.validFrom || null,
+      valid_to: r.validTo,
+      change_type: r.changeType,
+      reason: r.reason,
+      editor: r.editor,
+      closed_reason: r.closedReason || null,
+      closed_by: r.closedBy || null,
+    }));
+    await insertInBatches('bom_revisions', rows, 500, 'id');
   },
 };
 
+/**
+ * BOM 변경분 개정 기록 (before → after 비교)
+ * removeMissing=false 이면 after에 없는 라인은 삭제로 보지 않음 (업로드 upsert 방식)
+ * existing 생략 시 전체 개정이력을 조회
+ */
+async function recordBomRevisions(
+  before: BomMasterRecord[],
+  after: BomMasterRecord[],
+  change: BomChangeMeta,
+  removeMissing: boolean,
+  existing?: BomLineRevision[],
+): Promise<void> {
+  // 최초 업로드는 기준 BOM — 이력 없음
+  if (before.length === 0) return;
+  try {
+    const key = (r: BomMasterRecord) => `${normalizePn(r.parentPn)}|${normalizePn(r.childPn)}`;
+    const beforeMap = new Map(before.map(r => [key(r), r]));
+    const afterKeys = new Set<string>();
+    const changes: BomLineChange[] = [];
+    for (const r of after) {
+      const k = key(r);
+      afterKeys.add(k);
+      const prev = beforeMap.get(k) || null;
+      // 업로드 빈 값은 기존값 유지 (saveAll 병합 규칙과 동일)
+      const merged: BomMasterRecord = prev ? {
+        ...r,
+        qty: r.qty > 0 ? r.qty : prev.qty,
+        childName: r.childName?.trim() ? r.childName : prev.childName,
+        partType: r.partType?.trim() ? r.partType : prev.partType,
+        supplier: r.supplier?.trim() ? r.supplier : prev.supplier,
+      } : r;
+      changes.push({ before: prev, after: merged });
+    }
+    if (removeMissing) {
+      for (const [k, r] of beforeMap) if (!afterKeys.has(k)) changes.push({ before: r, after: null });
+    }
+    const editor = await resolveEditor(change.editor);
+    const history = existing ?? await bomRevisionService.getAll();
+    const revisions = buildLineRevisions(history, changes, { reason: change.reason, editor });
+    await bomRevisionService.saveMany(revisions);
+  } catch (e) {
+    console.warn('bom_revisions 기록 실패 (변경은 계속 진행):', e);
+  }
+}
+
+/** 단일 라인 조회 (current: 호출부가 로드한 BOM, 생략 시 getAll()로 조회) */
+async function findBomLine(
+  parentPn: string,
+  childPn: string,
+  current?: BomMasterRecord[],
+): Promise<BomMasterRecord | undefined> {
+  const nParent = normalizePn(parentPn);
+  const nChild = normalizePn(childPn);
+  const records = current ?? await bomMasterService.getAll();
+  return records.find(r => normalizePn(r.parentPn) === nParent && normalizePn(r.childPn) === nChild);
+}
+
+/** 단일 라인 수정 개정 기록 (prev: 변경 전 라인) */
+async function recordBomLineUpdate(
+  prev: BomMasterRecord | undefined,
+  updates: Partial<{ childName: string; partType: string; supplier: string; qty: number }>,
+  change: BomChangeMeta = { reason: '' },
+): Promise<void> {
+  if (!prev) return;
+  const existing = await bomRevisionService.getByChild(prev.childPn).catch(() => undefined);
+  await recordBomRevisions([prev], [{ ...prev, ...updates }], change, false, existing);
+}
+
 // ============================================
 // Product Code Master Service (제품코드)
 // ============================================
@@ -2348,7 +2890,7 @@ export const bomMasterService = {
 export const productCodeService = {
   async getAll(): Promise<ProductCodeRecord[]> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_productCodeMaster');
+      const stored = storage.getItem('dashboard_productCodeMaster');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -2362,13 +2904,13 @@ export const productCodeService = {
         model: row.model || '',
       }));
     } catch {
-      const stored = localStorage.getItem('dashboard_productCodeMaster');
+      const stored = storage.getItem('dashboard_productCodeMaster');
       return stored ? JSON.parse(stored) : [];
     }
   },
 
   async saveAll(records: ProductCodeRecord[]): Promise<void> {
-    try { safeSetItem('dashboard_productCodeMaster', JSON.stringify(records)); } catch { console.warn('localStorage quota exceeded for productCode, skipping local cache'); }
+    safeSetItem('dashboard_productCodeMaster', JSON.stringify(records));
     if (!isSupabaseConfigured() || isTableMissing('product_code_master')) return;
 
     const rows = records.map(r => ({
@@ -2391,7 +2933,7 @@ export const productCodeService = {
 export const referenceInfoService = {
   async getAll(): Promise<ReferenceInfoRecord[]> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_referenceInfoMaster');
+      const stored = storage.getItem('dashboard_referenceInfoMaster');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -2446,7 +2988,7 @@ export const referenceInfoService = {
         paintIntake: Number(row.paint_intake) || 0,
       }));
     } catch {
-      const stored = localStorage.getItem('dashboard_referenceInfoMaster');
+      const stored = storage.getItem('dashboard_referenceInfoMaster');
       return stored ? JSON.parse(stored) : [];
     }
   },
@@ -2549,7 +3091,7 @@ export const referenceInfoService = {
 
     // 4) localStorage: 기존 + 업로드 병합
     const localExisting: ReferenceInfoRecord[] = (() => {
-      try { const s = localStorage.getItem('dashboard_referenceInfoMaster'); return s ? JSON.parse(s) : []; }
+      try { const s = storage.getItem('dashboard_referenceInfoMaster'); return s ? JSON.parse(s) : []; }
       catch { return []; }
     })();
     const localMap = new Map<string, ReferenceInfoRecord>();
@@ -2583,7 +3125,7 @@ export const referenceInfoService = {
   }>): Promise<boolean> {
     const normCode = itemCode.trim().toUpperCase().replace(/[\s\-_\.]+/g, '');
     // localStorage 업데이트
-    const stored = localStorage.getItem('dashboard_referenceInfoMaster');
+    const stored = storage.getItem('dashboard_referenceInfoMaster');
     if (stored) {
       const records: ReferenceInfoRecord[] = JSON.parse(stored);
       const idx = records.findIndex(r =>
@@ -2696,7 +3238,7 @@ export const referenceInfoService = {
   async recoverPaintIntakeFromLocal(): Promise<number> {
     if (!isSupabaseConfigured() || isTableMissing('reference_info_master')) return 0;
     try {
-      const stored = localStorage.getItem('dashboard_referenceInfoMaster');
+      const stored = storage.getItem('dashboard_referenceInfoMaster');
       if (!stored) return 0;
       const local: ReferenceInfoRecord[] = JSON.parse(stored);
       const toRecover = local.filter(r => (r.paintIntake || 0) > 0);
@@ -2732,7 +3274,7 @@ export const referenceInfoService = {
 export const equipmentService = {
   async getAll(): Promise<EquipmentRecord[]> {
     if (!isSupabaseConfigured() || isTableMissing('equipment_master')) {
-      const stored = localStorage.getItem('dashboard_equipmentMaster');
+      const stored = storage.getItem('dashboard_equipmentMaster');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -2755,13 +3297,13 @@ export const equipmentService = {
         useYn: row.use_yn || 'Y',
       }));
     } catch {
-      const stored = localStorage.getItem('dashboard_equipmentMaster');
+      const stored = storage.getItem('dashboard_equipmentMaster');
       return stored ? JSON.parse(stored) : [];
     }
   },
 
   async saveAll(records: EquipmentRecord[]): Promise<void> {
-    try { safeSetItem('dashboard_equipmentMaster', JSON.stringify(records)); } catch { console.warn('localStorage quota exceeded for equipment, skipping local cache'); }
+    safeSetItem('dashboard_equipmentMaster', JSON.stringify(records));
     if (!isSupabaseConfigured() || isTableMissing('equipment_master')) return;
 
     const rows = records.map(r => ({
@@ -2793,7 +3335,7 @@ export const equipmentService = {
 export const materialCodeService = {
   async getAll(): Promise<MaterialCodeRecord[]> {
     if (!isSupabaseConfigured()) {
-      const stored = localStorage.getItem('dashboard_materialCodeMaster');
+      const stored = storage.getItem('dashboard_materialCodeMaster');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -2818,7 +3360,7 @@ export const materialCodeService = {
         currentPrice: Number(row.current_price) || 0,
       }));
     } catch {
-      const stored = localStorage.getItem('dashboard_materialCodeMaster');
+      const stored = storage.getItem('dashboard_materialCodeMaster');
       return stored ? JSON.parse(stored) : [];
     }
   },
@@ -2873,7 +3415,7 @@ export const materialCodeService = {
 
     // 3) localStorage: 기존 + 업로드 병합
     const localExisting: MaterialCodeRecord[] = (() => {
-      try { const s = localStorage.getItem('dashboard_materialCodeMaster'); return s ? JSON.parse(s) : []; }
+      try { const s = storage.getItem('dashboard_materialCodeMaster'); return s ? JSON.parse(s) : []; }
       catch { return []; }
     })();
     const localMap = new Map<string, MaterialCodeRecord>();
@@ -2892,7 +3434,7 @@ export const materialCodeService = {
   async updatePrice(materialCode: string, newPrice: number): Promise<boolean> {
     if (!isSupabaseConfigured() || isTableMissing('material_code_master')) {
       // localStorage fallback
-      const stored = localStorage.getItem('dashboard_materialCodeMaster');
+      const stored = storage.getItem('dashboard_materialCodeMaster');
       if (stored) {
         const records: MaterialCodeRecord[] = JSON.parse(stored);
         const idx = records.findIndex(r => r.materialCode.trim().toUpperCase() === materialCode.trim().toUpperCase());
@@ -2929,7 +3471,7 @@ export const materialCodeService = {
 
     if (!isSupabaseConfigured() || isTableMissing('material_code_master')) {
       // localStorage fallback
-      const stored = localStorage.getItem('dashboard_materialCodeMaster');
+      const stored = storage.getItem('dashboard_materialCodeMaster');
       const records: MaterialCodeRecord[] = stored ? JSON.parse(stored) : [];
       const codeMap = new Map(records.map((r, i) => [r.materialCode.trim().toUpperCase(), i]));
       for (const p of prices) {
@@ -3004,7 +3546,7 @@ export const materialCodeService = {
 export const dataQualityService = {
   async getAll(): Promise<DataQualityIssue[]> {
     if (!isSupabaseConfigured() || isTableMissing('data_quality_issues')) {
-      const stored = localStorage.getItem('dashboard_dataQualityIssues');
+      const stored = storage.getItem('dashboard_dataQualityIssues');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -3020,13 +3562,13 @@ export const dataQualityService = {
         resolved: row.resolved || false,
       }));
     } catch {
-      const stored = localStorage.getItem('dashboard_dataQualityIssues');
+      const stored = storage.getItem('dashboard_dataQualityIssues');
       return stored ? JSON.parse(stored) : [];
     }
   },
 
   async saveAll(issues: DataQualityIssue[]): Promise<void> {
-    try { safeSetItem('dashboard_dataQualityIssues', JSON.stringify(issues)); } catch { console.warn('localStorage quota exceeded for dataQuality, skipping local cache'); }
+    safeSetItem('dashboard_dataQualityIssues', JSON.stringify(issues));
     if (!isSupabaseConfigured() || isTableMissing('data_quality_issues')) return;
 
     const { error: deleteError } = await supabase!
@@ -3057,7 +3599,7 @@ export const dataQualityService = {
 export const purchasePriceService = {
   async getAll(): Promise<PurchasePrice[]> {
     if (!isSupabaseConfigured() || isTableMissing('purchase_price_master')) {
-      const stored = localStorage.getItem('dashboard_purchasePriceMaster');
+      const stored = storage.getItem('dashboard_purchasePriceMaster');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -3072,7 +3614,7 @@ export const purchasePriceService = {
         previousPrice: Number(row.previous_price) || 0,
       }));
     } catch {
-      const stored = localStorage.getItem('dashboard_purchasePriceMaster');
+      const stored = storage.getItem('dashboard_purchasePriceMaster');
       return stored ? JSON.parse(stored) : [];
     }
   },
@@ -3120,7 +3662,7 @@ export const purchasePriceService = {
 
     // 3) localStorage: 기존 + 업로드 병합
     const localExisting: PurchasePrice[] = (() => {
-      try { const s = localStorage.getItem('dashboard_purchasePriceMaster'); return s ? JSON.parse(s) : []; }
+      try { const s = storage.getItem('dashboard_purchasePriceMaster'); return s ? JSON.parse(s) : []; }
       catch { return []; }
     })();
     const localMap = new Map<string, PurchasePrice>();
@@ -3142,7 +3684,7 @@ export const purchasePriceService = {
   /** 개별 구매단가 업데이트 (item_code 기준) */
   async updatePrice(itemCode: string, newPrice: number): Promise<boolean> {
     if (!isSupabaseConfigured() || isTableMissing('purchase_price_master')) {
-      const stored = localStorage.getItem('dashboard_purchasePriceMaster');
+      const stored = storage.getItem('dashboard_purchasePriceMaster');
       if (stored) {
         const records: PurchasePrice[] = JSON.parse(stored);
         const idx = records.findIndex(r => r.itemCode.trim().toUpperCase() === itemCode.trim().toUpperCase());
@@ -3150,12 +3692,17 @@ export const purchasePriceService = {
           records[idx].previousPrice = records[idx].currentPrice;
           records[idx].currentPrice = newPrice;
           try { safeSetItem('dashboard_purchasePriceMaster', JSON.stringify(records)); } catch { /* ignore */ }
+          await ciSavingsService.addPriceChangeCandidates([records[idx]]);
           return true;
         }
       }
       return false;
     }
     try {
+      const { data: before } = await supabase!
+        .from('purchase_price_master')
+        .select('item_code, customer_pn, item_name, supplier, current_price')
+        .eq('item_code', itemCode);
       const { error } = await supabase!
         .from('purchase_price_master')
         .update({ current_price: newPrice })
@@ -3165,6 +3712,17 @@ export const purchasePriceService = {
         return false;
       }
       console.log(`✅ 구매단가 업데이트: ${itemCode} → ₩${newPrice}`);
+
+      // 단가 인하 → CI 후보 자동 생성
+      const changed: PurchasePrice[] = (before || []).map((row: any) => ({
+        itemCode: row.item_code || itemCode,
+        customerPn: row.customer_pn || '',
+        itemName: row.item_name || '',
+        supplier: row.supplier || '',
+        currentPrice: newPrice,
+        previousPrice: Number(row.current_price) || 0,
+      }));
+      await ciSavingsService.addPriceChangeCandidates(changed);
       return true;
     } catch (err) {
       console.error('구매단가 업데이트 오류:', err);
@@ -3180,7 +3738,7 @@ export const purchasePriceService = {
 export const paintMixRatioService = {
   async getAll(): Promise<PaintMixRatio[]> {
     if (!isSupabaseConfigured() || isTableMissing('paint_mix_ratio_master')) {
-      const stored = localStorage.getItem('dashboard_paintMixRatioMaster');
+      const stored = storage.getItem('dashboard_paintMixRatioMaster');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -3200,13 +3758,13 @@ export const paintMixRatioService = {
         thinnerPrice: Number(row.thinner_price) || 0,
       }));
     } catch {
-      const stored = localStorage.getItem('dashboard_paintMixRatioMaster');
+      const stored = storage.getItem('dashboard_paintMixRatioMaster');
       return stored ? JSON.parse(stored) : [];
     }
   },
 
   async saveAll(records: PaintMixRatio[]): Promise<void> {
-    try { safeSetItem('dashboard_paintMixRatioMaster', JSON.stringify(records)); } catch { console.warn('localStorage quota exceeded for paintMixRatio, skipping local cache'); }
+    safeSetItem('dashboard_paintMixRatioMaster', JSON.stringify(records));
     if (!isSupabaseConfigured() || isTableMissing('paint_mix_ratio_master')) return;
 
     const rows = records.map(r => ({
@@ -3235,7 +3793,7 @@ export const paintMixRatioService = {
 export const outsourceInjPriceService = {
   async getAll(): Promise<OutsourcePrice[]> {
     if (!isSupabaseConfigured() || isTableMissing('outsource_injection_price')) {
-      const stored = localStorage.getItem('dashboard_outsourceInjPrice');
+      const stored = storage.getItem('dashboard_outsourceInjPrice');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -3249,13 +3807,13 @@ export const outsourceInjPriceService = {
         injectionPrice: Number(row.injection_price) || 0,
       }));
     } catch {
-      const stored = localStorage.getItem('dashboard_outsourceInjPrice');
+      const stored = storage.getItem('dashboard_outsourceInjPrice');
       return stored ? JSON.parse(stored) : [];
     }
   },
 
   async saveAll(records: OutsourcePrice[]): Promise<void> {
-    try { safeSetItem('dashboard_outsourceInjPrice', JSON.stringify(records)); } catch { console.warn('localStorage quota exceeded for outsourceInjPrice, skipping local cache'); }
+    safeSetItem('dashboard_outsourceInjPrice', JSON.stringify(records));
     if (!isSupabaseConfigured() || isTableMissing('outsource_injection_price')) return;
 
     const rows = records.map(r => ({
@@ -3275,7 +3833,7 @@ export const outsourceInjPriceService = {
 export const paintMixLogService = {
   async getAll(): Promise<PaintMixLog[]> {
     if (!isSupabaseConfigured() || isTableMissing('paint_mix_log')) {
-      const stored = localStorage.getItem('dashboard_paintMixLog');
+      const stored = storage.getItem('dashboard_paintMixLog');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -3296,13 +3854,13 @@ export const paintMixLogService = {
         wasteQty: Number(row.waste_qty) || 0,
       }));
     } catch {
-      const stored = localStorage.getItem('dashboard_paintMixLog');
+      const stored = storage.getItem('dashboard_paintMixLog');
       return stored ? JSON.parse(stored) : [];
     }
   },
 
   async saveAll(records: PaintMixLog[]): Promise<void> {
-    try { safeSetItem('dashboard_paintMixLog', JSON.stringify(records)); } catch { console.warn('localStorage quota exceeded for paintMixLog, skipping local cache'); }
+    safeSetItem('dashboard_paintMixLog', JSON.stringify(records));
     if (!isSupabaseConfigured() || isTableMissing('paint_mix_log')) return;
 
     const rows = records.map(r => ({
@@ -3329,7 +3887,7 @@ export const paintMixLogService = {
 export const itemStandardCostService = {
   async getAll(): Promise<ItemStandardCost[]> {
     if (!isSupabaseConfigured() || isTableMissing('item_standard_cost')) {
-      const stored = localStorage.getItem('dashboard_itemStandardCost');
+      const stored = storage.getItem('dashboard_itemStandardCost');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -3337,7 +3895,7 @@ export const itemStandardCostService = {
       const data = await fetchAllRows('item_standard_cost', 'item_code');
       return data as ItemStandardCost[];
     } catch {
-      const stored = localStorage.getItem('dashboard_itemStandardCost');
+      const stored = storage.getItem('dashboard_itemStandardCost');
       return stored ? JSON.parse(stored) : [];
     }
   },
@@ -3356,7 +3914,7 @@ export const itemStandardCostService = {
 
     // localStorage도 항상 동시 업데이트 (즉시 반영용)
     try {
-      const stored = localStorage.getItem('dashboard_itemStandardCost');
+      const stored = storage.getItem('dashboard_itemStandardCost');
       if (stored) {
         const records: ItemStandardCost[] = JSON.parse(stored);
         const idx = records.findIndex(r =>
@@ -3444,7 +4002,7 @@ export const itemStandardCostService = {
 
     // localStorage 동시 업데이트 (즉시 반영용)
     try {
-      const stored = localStorage.getItem('dashboard_itemStandardCost');
+      const stored = storage.getItem('dashboard_itemStandardCost');
       if (stored) {
         const records: ItemStandardCost[] = JSON.parse(stored);
         const idx = records.findIndex(r =>
@@ -3527,12 +4085,12 @@ export const itemStandardCostService = {
 
 export const productInfoService = {
   async getAll(): Promise<import('../utils/standardMaterialParser').ProductInfoItem[]> {
-    const stored = localStorage.getItem('dashboard_productInfo');
+    const stored = storage.getItem('dashboard_productInfo');
     return stored ? JSON.parse(stored) : [];
   },
 
   async saveAll(records: import('../utils/standardMaterialParser').ProductInfoItem[]): Promise<void> {
-    try { safeSetItem('dashboard_productInfo', JSON.stringify(records)); } catch { console.warn('localStorage quota exceeded for productInfo, skipping local cache'); }
+    safeSetItem('dashboard_productInfo', JSON.stringify(records));
     console.log(`✅ productInfo saved: ${records.length} rows (localStorage)`);
   },
 };
@@ -3555,7 +4113,7 @@ const REVIEW_LS_KEY = 'dashboard_bomReviewStatus';
 export const reviewStatusService = {
   async getAll(): Promise<ReviewStatusMap> {
     if (!isSupabaseConfigured() || isTableMissing('bom_review_status')) {
-      const stored = localStorage.getItem(REVIEW_LS_KEY);
+      const stored = storage.getItem(REVIEW_LS_KEY);
       return stored ? JSON.parse(stored) : {};
     }
 
@@ -3574,7 +4132,7 @@ export const reviewStatusService = {
       try { safeSetItem(REVIEW_LS_KEY, JSON.stringify(map)); } catch { /* ignore */ }
       return map;
     } catch {
-      const stored = localStorage.getItem(REVIEW_LS_KEY);
+      const stored = storage.getItem(REVIEW_LS_KEY);
       return stored ? JSON.parse(stored) : {};
     }
   },
@@ -3632,7 +4190,7 @@ export const reviewStatusService = {
 export const pnMappingService = {
   async getAll(): Promise<PnMapping[]> {
     if (!isSupabaseConfigured() || isTableMissing('pn_mapping')) {
-      const stored = localStorage.getItem('dashboard_pnMapping');
+      const stored = storage.getItem('dashboard_pnMapping');
       return stored ? JSON.parse(stored) : [];
     }
 
@@ -3654,7 +4212,7 @@ export const pnMappingService = {
     } catch (error: any) {
       checkTableError(error, 'pn_mapping');
       console.error('[pnMapping] 로드 실패:', error);
-      const stored = localStorage.getItem('dashboard_pnMapping');
+      const stored = storage.getItem('dashboard_pnMapping');
       return stored ? JSON.parse(stored) : [];
     }
   },
@@ -3682,3 +4240,769 @@ export const pnMappingService = {
     await insertInBatches('pn_mapping', rows, 500, 'customer_pn,internal_code');
   },
 };
+
+// ============================================
+// Cost Scenario Service (What-if 단가 시뮬레이션)
+// ============================================
+
+const COST_SCENARIO_LS_KEY = 'dashboard_costScenarios';
+
+const readLocalScenarios = (): CostScenario[] => {
+  try {
+    const stored = storage.getItem(COST_SCENARIO_LS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch { return []; }
+};
+
+export const costScenarioService = {
+  async getAll(): Promise<CostScenario[]> {
+    if (!isSupabaseConfigured() || isTableMissing('cost_scenarios')) return readLocalScenarios();
+
+    try {
+      const rows = await fetchAllRows('cost_scenarios', 'created_at');
+      const scenarios: CostScenario[] = rows.map((row: any) => ({
+        id: row.id,
+        name: row.name || '',
+        description: row.description || '',
+        overrides: Array.isArray(row.overrides) ? row.overrides : [],
+        createdAt: row.created_at || '',
+        updatedAt: row.updated_at || '',
+      }));
+      try { safeSetItem(COST_SCENARIO_LS_KEY, JSON.stringify(scenarios)); } catch { /* ignore */ }
+      return scenarios;
+    } catch (error: any) {
+      checkTableError(error, 'cost_scenarios');
+      return readLocalScenarios();
+    }
+  },
+
+  async upsertOne(scenario: CostScenario): Promise<void> {
+    const local = readLocalScenarios().filter(s => s.id !== scenario.id);
+    safeSetItem(COST_SCENARIO_LS_KEY, JSON.stringify([...local, scenario]));
+
+    if (!isSupabaseConfigured() || isTableMissing('cost_scenarios')) return;
+
+    const { error } = await supabase!
+      .from('cost_scenarios')
+      .upsert({
+        id: scenario.id,
+        name: scenario.name,
+        description: scenario.description || '',
+        overrides: scenario.overrides,
+        created_at: scenario.createdAt,
+        updated_at: scenario.updatedAt,
+      }, { onConflict: 'id' });
+    if (error && !checkTableError(error, 'cost_scenarios')) {
+      console.error('cost_scenarios upsert error:', error);
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    safeSetItem(COST_SCENARIO_LS_KEY, JSON.stringify(readLocalScenarios().filter(s => s.id !== id)));
+
+    if (!isSupabaseConfigured() || isTableMissing('cost_scenarios')) return;
+
+    const { error } = await supabase!
+      .from('cost_scenarios')
+      .delete()
+      .eq('id', id);
+    if (error && !checkTableError(error, 'cost_scenarios')) {
+      console.error('cost_scenarios delete error:', error);
+    }
+  },
+};
+
+// ============================================
+// Supplier Lead Time Service (MRP 업체별 리드타임)
+// ============================================
+
+const LEAD_TIME_LS_KEY = 'dashboard_supplierLeadTimes';
+
+export const supplierLeadTimeService = {
+  async getAll(): Promise<Record<string, number>> {
+    const readLocal = (): Record<string, number> => {
+      try {
+        const stored = storage.getItem(LEAD_TIME_LS_KEY);
+        return stored ? JSON.parse(stored) : {};
+      } catch { return {}; }
+    };
+    if (!isSupabaseConfigured() || isTableMissing('supplier_lead_times')) return readLocal();
+
+    try {
+      const rows = await fetchAllRows('supplier_lead_times', 'supplier');
+      const map: Record<string, number> = {};
+      for (const r of rows) map[r.supplier] = Number(r.lead_time_days) || 0;
+      try { safeSetItem(LEAD_TIME_LS_KEY, JSON.stringify(map)); } catch { /* ignore */ }
+      return map;
+    } catch (error: any) {
+      checkTableError(error, 'supplier_lead_times');
+      return readLocal();
+    }
+  },
+
+  async saveAll(map: Record<string, number>): Promise<void> {
+    safeSetItem(LEAD_TIME_LS_KEY, JSON.stringify(map));
+
+    if (!isSupabaseConfigured() || isTableMissing('supplier_lead_times')) return;
+
+    const rows = Object.entries(map).map(([supplier, days]) => ({
+      supplier,
+      lead_time_days: Math.max(0, Math.round(days)),
+      updated_at: new Date().toISOString(),
+    }));
+    await insertInBatches('supplier_lead_times', rows, 500, 'supplier');
+
+    // 입력을 지운 업체는 클라우드에서도 삭제 (upsert만으로는 남아 재로드 시 되살아남)
+    const existing = await fetchAllRows('supplier_lead_times', 'supplier');
+    const removed = existing.map((r: any) => r.supplier as string).filter(sup => !(sup in map));
+    for (let i = 0; i < removed.length; i += 500) {
+      const { error } = await supabase!
+        .from('supplier_lead_times')
+        .delete()
+        .in('supplier', removed.slice(i, i + 500));
+      if (error) handleError(error, 'supplier_lead_times delete');
+    }
+  },
+};
+
+// ============================================
+// Purchase Order Service (업체별 발주서 발행 이력)
+// ============================================
+
+const PURCHASE_ORDER_LS_KEY = 'dashboard_purchaseOrders';
+
+const readLocalPurchaseOrders = (): PurchaseOrder[] => {
+  try {
+    const stored = storage.getItem(PURCHASE_ORDER_LS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch { return []; }
+};
+
+const toPurchaseOrderRow = (po: PurchaseOrder) => ({
+  po_number: po.poNumber,
+  supplier: po.supplier,
+  issue_date: po.issueDate,
+  horizon_from: po.horizonFrom,
+  horizon_to: po.horizonTo,
+  status: po.status,
+  lines: po.lines,
+  total_qty: po.totalQty,
+  total_amount: po.totalAmount,
+  created_at: po.createdAt,
+});
+
+export const purchaseOrderService = {
+  async getAll(): Promise<PurchaseOrder[]> {
+    if (!isSupabaseConfigured() || isTableMissing('purchase_orders')) return readLocalPurchaseOrders();
+
+    try {
+      const rows = await fetchAllRows('purchase_orders', 'po_number');
+      const orders: PurchaseOrder[] = rows.map((row: any) => ({
+        poNumber: row.po_number,
+        supplier: row.supplier || '',
+        issueDate: row.issue_date || '',
+        horizonFrom: row.horizon_from || '',
+        horizonTo: row.horizon_to || '',
+        status: row.status || 'open',
+        lines: Array.isArray(row.lines) ? row.lines : [],
+        totalQty: Number(row.total_qty) || 0,
+        totalAmount: Number(row.total_amount) || 0,
+        createdAt: row.created_at || '',
+      }));
+      try { safeSetItem(PURCHASE_ORDER_LS_KEY, JSON.stringify(orders)); } catch { /* ignore */ }
+      return orders;
+    } catch (error: any) {
+      checkTableError(error, 'purchase_orders');
+      return readLocalPurchaseOrders();
+    }
+  },
+
+  async addMany(orders: PurchaseOrder[]): Promise<void> {
+    if (orders.length === 0) return;
+    const numbers = new Set(orders.map(po => po.poNumber));
+    const local = readLocalPurchaseOrders().filter(po => !numbers.has(po.poNumber));
+    safeSetItem(PURCHASE_ORDER_LS_KEY, JSON.stringify([...local, ...orders]));
+
+    if (!isSupabaseConfigured() || isTableMissing('purchase_orders')) return;
+
+    await insertInBatches('purchase_orders', orders.map(toPurchaseOrderRow), 500, 'po_number');
+  },
+
+  async updateStatus(poNumber: string, status: PurchaseOrderStatus): Promise<void> {
+    const local = readLocalPurchaseOrders().map(po => po.poNumber === poNumber ? { ...po, status } : po);
+    safeSetItem(PURCHASE_ORDER_LS_KEY, JSON.stringify(local));
+
+    if (!isSupabaseConfigured() || isTableMissing('purchase_orders')) return;
+
+    const { error } = await supabase!
+      .from('purchase_orders')
+      .update({ status })
+      .eq('po_number', poNumber);
+    if (error && !checkTableError(error, 'purchase_orders')) {
+      handleError(error, 'purchase_orders update');
+    }
+  },
+};
+
+// ============================================
+// BOM Change Order Service (설계변경 ECO)
+// ============================================
+
+const CHANGE_ORDER_LS_KEY = 'dashboard_bomChangeOrders';
+
+const readLocalChangeOrders = (): BomChangeOrder[] => {
+  try {
+    const stored = storage.getItem(CHANGE_ORDER_LS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch { return []; }
+};
+
+export const bomChangeOrderService = {
+  async getAll(): Promise<BomChangeOrder[]> {
+    if (!isSupabaseConfigured() || isTableMissing('bom_change_orders')) return readLocalChangeOrders();
+
+    try {
+      const rows = await fetchAllRows('bom_change_orders', 'created_at');
+      const orders: BomChangeOrder[] = rows.map((row: any) => ({
+        id: row.id,
+        ecoNumber: row.eco_number || '',
+        title: row.title || '',
+        reason: row.reason || '',
+        status: row.status || 'draft',
+        lines: Array.isArray(row.lines) ? row.lines : [],
+        impact: row.impact || null,
+        approvals: row.approvals || {},
+        createdBy: row.created_by || '',
+        createdAt: row.created_at || '',
+        submittedAt: row.submitted_at || undefined,
+        appliedAt: row.applied_at || undefined,
+      }));
+      try { safeSetItem(CHANGE_ORDER_LS_KEY, JSON.stringify(orders)); } catch { /* ignore */ }
+      return orders;
+    } catch (error: any) {
+      checkTableError(error, 'bom_change_orders');
+      return readLocalChangeOrders();
+    }
+  },
+
+  async upsertOne(order: BomChangeOrder): Promise<void> {
+    const local = readLocalChangeOrders().filter(o => o.id !== order.id);
+    safeSetItem(CHANGE_ORDER_LS_KEY, JSON.stringify([...local, order]));
+
+    if (!isSupabaseConfigured() || isTableMissing('bom_change_orders')) return;
+
+    const { error } = await supabase!
+      .from('bom_change_orders')
+      .upsert({
+        id: order.id,
+        eco_number: order.ecoNumber,
+        title: order.title,
+        reason: order.reason,
+        status: order.status,
+        lines: order.lines,
+        impact: order.impact,
+        approvals: order.approvals,
+        created_by: order.createdBy,
+        created_at: order.createdAt,
+        submitted_at: order.submittedAt || null,
+        applied_at: order.appliedAt || null,
+      }, { onConflict: 'id' });
+    if (error && !checkTableError(error, 'bom_change_orders')) {
+      console.error('bom_change_orders upsert error:', error);
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    safeSetItem(CHANGE_ORDER_LS_KEY, JSON.stringify(readLocalChangeOrders().filter(o => o.id !== id)));
+
+    if (!isSupabaseConfigured() || isTableMissing('bom_change_orders')) return;
+
+    const { error } = await supabase!
+      .from('bom_change_orders')
+      .delete()
+      .eq('id', id);
+    if (error && !checkTableError(error, 'bom_change_orders')) {
+      console.error('bom_change_orders delete error:', error);
+    }
+  },
+};
+
+// ============================================
+// Upload Ledger Service (업로드 감사 기록 · 롤백 스냅샷)
+// ============================================
+
+const UPLOAD_LEDGER_LS_KEY = 'dashboard_uploadLedger';
+
+const readLocalUploadLedger = (): UploadLedgerEntry[] => {
+  try {
+    const stored = storage.getItem(UPLOAD_LEDGER_LS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch { return []; }
+};
+
+export const uploadLedgerService = {
+  async getAll(): Promise<UploadLedgerEntry[]> {
+    if (!isSupabaseConfigured() || isTableMissing('upload_ledger')) return readLocalUploadLedger();
+
+    try {
+      const rows = await fetchAllRows('upload_ledger', 'uploaded_at');
+      const entries: UploadLedgerEntry[] = rows.map((row: any) => ({
+        id: row.id,
+        uploadedAt: row.uploaded_at || '',
+        fileName: row.file_name || '',
+        fileHash: row.file_hash || '',
+        fileSize: Number(row.file_size) || 0,
+        uploader: row.uploader || '',
+        dataset: row.dataset,
+        scope: row.scope || {},
+        rowCount: row.row_count || 0,
+        replacedCount: row.replaced_count || 0,
+        snapshot: Array.isArray(row.snapshot) ? row.snapshot : null,
+        status: row.status || 'applied',
+        rolledBackAt: row.rolled_back_at || undefined,
+        rolledBackBy: row.rolled_back_by || undefined,
+      }));
+      safeSetItem(UPLOAD_LEDGER_LS_KEY, JSON.stringify(entries));
+      return entries;
+    } catch (error: any) {
+      checkTableError(error, 'upload_ledger');
+      return readLocalUploadLedger();
+    }
+  },
+
+  async upsertOne(entry: UploadLedgerEntry): Promise<void> {
+    const local = readLocalUploadLedger().filter(e => e.id !== entry.id);
+    safeSetItem(UPLOAD_LEDGER_LS_KEY, JSON.stringify([...local, entry]));
+
+    if (!isSupabaseConfigured() || isTableMissing('upload_ledger')) return;
+
+    const { error } = await supabase!
+      .from('upload_ledger')
+      .upsert({
+        id: entry.id,
+        uploaded_at: entry.uploadedAt,
+        file_name: entry.fileName,
+        file_hash: entry.fileHash,
+        file_size: entry.fileSize,
+        uploader: entry.uploader,
+        dataset: entry.dataset,
+        scope: entry.scope,
+        row_count: entry.rowCount,
+        replaced_count: entry.replacedCount,
+        snapshot: entry.snapshot,
+        status: entry.status,
+        rolled_back_at: entry.rolledBackAt || null,
+        rolled_back_by: entry.rolledBackBy || null,
+      }, { onConflict: 'id' });
+    if (error && !checkTableError(error, 'upload_ledger')) {
+      console.error('upload_ledger upsert error:', error);
+    }
+  },
+};
+
+// ============================================
+// Column Mapping Profile Service (업로더별 CSV 컬럼 매핑)
+// ============================================
+
+const COLUMN_MAPPING_LS_KEY = 'dashboard_columnMappings';
+
+const readLocalColumnMappings = (): ColumnMappingProfile[] => {
+  try {
+    const stored = storage.getItem(COLUMN_MAPPING_LS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch { return []; }
+};
+
+export const columnMappingService = {
+  async getAll(): Promise<ColumnMappingProfile[]> {
+    if (!isSupabaseConfigured() || isTableMissing('column_mapping_profiles')) return readLocalColumnMappings();
+
+    try {
+      const rows = await fetchAllRows('column_mapping_profiles', 'dataset');
+      const profiles: ColumnMappingProfile[] = rows.map((row: any) => ({
+        dataset: row.dataset,
+        headerRow: row.header_row || 0,
+        columns: row.columns || {},
+        updatedAt: row.updated_at || '',
+        updatedBy: row.updated_by || undefined,
+      }));
+      safeSetItem(COLUMN_MAPPING_LS_KEY, JSON.stringify(profiles));
+      return profiles;
+    } catch (error: any) {
+      checkTableError(error, 'column_mapping_profiles');
+      return readLocalColumnMappings();
+    }
+  },
+
+  /** 업로더 한 종류의 프로필 (없으면 null) */
+  async get(dataset: MappingDataset): Promise<ColumnMappingProfile | null> {
+    const profiles = await this.getAll();
+    return profiles.find(p => p.dataset === dataset) || null;
+  },
+
+  async save(profile: ColumnMappingProfile): Promise<void> {
+    const local = readLocalColumnMappings().filter(p => p.dataset !== profile.dataset);
+    safeSetItem(COLUMN_MAPPING_LS_KEY, JSON.stringify([...local, profile]));
+
+    if (!isSupabaseConfigured() || isTableMissing('column_mapping_profiles')) return;
+
+    const { error } = await supabase!
+      .from('column_mapping_profiles')
+      .upsert({
+        dataset: profile.dataset,
+        header_row: profile.headerRow,
+        columns: profile.columns,
+        updated_at: profile.updatedAt,
+        updated_by: profile.updatedBy || null,
+      }, { onConflict: 'dataset' });
+    if (error && !checkTableError(error, 'column_mapping_profiles')) {
+      handleError(error, 'column_mapping_profiles 저장');
+    }
+  },
+
+  async delete(dataset: MappingDataset): Promise<void> {
+    safeSetItem(COLUMN_MAPPING_LS_KEY, JSON.stringify(readLocalColumnMappings().filter(p => p.dataset !== dataset)));
+
+    if (!isSupabaseConfigured() || isTableMissing('column_mapping_profiles')) return;
+
+    const { error } = await supabase!
+      .from('column_mapping_profiles')
+      .delete()
+      .eq('dataset', dataset);
+    if (error && !checkTableError(error, 'column_mapping_profiles')) {
+      console.error('column_mapping_profiles delete error:', error);
+    }
+  },
+};
+
+// ============================================
+// Part Price-down Service (품목별 고객 단가인하 CR)
+// ============================================
+
+const PRICE_DOWN_LS_KEY = 'dashboard_partPriceDowns';
+
+const readLocalPriceDowns = (): PartPriceDown[] => {
+  try {
+    const stored = storage.getItem(PRICE_DOWN_LS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch { return []; }
+};
+
+export const priceDownService = {
+  async getAll(): Promise<PartPriceDown[]> {
+    if (!isSupabaseConfigured() || isTableMissing('part_price_downs')) return readLocalPriceDowns();
+
+    try {
+      const rows = await fetchAllRows('part_price_downs', 'effective_from');
+      const entries: PartPriceDown[] = rows.map((row: any) => ({
+        id: row.id,
+        customer: row.customer || '',
+        partNo: row.part_no || '',
+        partName: row.part_name || undefined,
+        rate: Number(row.rate) || 0,
+        effectiveFrom: row.effective_from || '',
+        effectiveTo: row.effective_to || undefined,
+        group: row.cr_group === 'lg' ? 'lg' : 'mtx',
+        note: row.note || undefined,
+        updatedAt: row.updated_at || '',
+        updatedBy: row.updated_by || undefined,
+      }));
+      safeSetItem(PRICE_DOWN_LS_KEY, JSON.stringify(entries));
+      return entries;
+    } catch (error: any) {
+      checkTableError(error, 'part_price_downs');
+      return readLocalPriceDowns();
+    }
+  },
+
+  async save(entry: PartPriceDown): Promise<void> {
+    const local = readLocalPriceDowns().filter(e => e.id !== entry.id);
+    safeSetItem(PRICE_DOWN_LS_KEY, JSON.stringify([...local, entry]));
+
+    if (!isSupabaseConfigured() || isTableMissing('part_price_downs')) return;
+
+    const { error } = await supabase!
+      .from('part_price_downs')
+      .upsert({
+        id: entry.id,
+        customer: entry.customer,
+        part_no: entry.partNo,
+        part_name: entry.partName || null,
+        rate: entry.rate,
+        effective_from: entry.effectiveFrom,
+        effective_to: entry.effectiveTo || null,
+        cr_group: entry.group,
+        note: entry.note || null,
+        updated_at: entry.updatedAt,
+        updated_by: entry.updatedBy || null,
+      }, { onConflict: 'id' });
+    if (error && !checkTableError(error, 'part_price_downs')) {
+      handleError(error, 'part_price_downs 저장');
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    safeSetItem(PRICE_DOWN_LS_KEY, JSON.stringify(readLocalPriceDowns().filter(e => e.id !== id)));
+
+    if (!isSupabaseConfigured() || isTableMissing('part_price_downs')) return;
+
+    const { error } = await supabase!
+      .from('part_price_downs')
+      .delete()
+      .eq('id', id);
+    if (error && !checkTableError(error, 'part_price_downs')) {
+      console.error('part_price_downs delete error:', error);
+    }
+  },
+};
+
+// ============================================
+// CI Savings Commitment Service (협력사 CI 약정 / 절감 원장)
+// ============================================
+
+const CI_COMMITMENT_LS_KEY = 'dashboard_ciCommitments';
+
+const readLocalCiCommitments = (): CiCommitment[] => {
+  try {
+    const stored = storage.getItem(CI_COMMITMENT_LS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch { return []; }
+};
+
+const toCiCommitmentRow = (c: CiCommitment) => ({
+  id: c.id,
+  supplier: c.supplier,
+  item_code: c.itemCode,
+  customer_pn: c.customerPn || null,
+  item_name: c.itemName,
+  base_price: c.basePrice,
+  new_price: c.newPrice,
+  effective_from: c.effectiveFrom,
+  status: c.status,
+  source: c.source,
+  note: c.note || null,
+  created_at: c.createdAt,
+  updated_at: c.updatedAt,
+  updated_by: c.updatedBy || null,
+});
+
+export const ciSavingsService = {
+  async getAll(): Promise<CiCommitment[]> {
+    if (!isSupabaseConfigured() || isTableMissing('ci_commitments')) return readLocalCiCommitments();
+
+    try {
+      const rows = await fetchAllRows('ci_commitments', 'effective_from');
+      const commitments: CiCommitment[] = rows.map((row: any) => ({
+        id: row.id,
+        supplier: row.supplier || '',
+        itemCode: row.item_code || '',
+        customerPn: row.customer_pn || undefined,
+        itemName: row.item_name || '',
+        basePrice: Number(row.base_price) || 0,
+        newPrice: Number(row.new_price) || 0,
+        effectiveFrom: row.effective_from || '',
+        status: row.status || 'candidate',
+        source: row.source || 'priceChange',
+        note: row.note || undefined,
+        createdAt: row.created_at || '',
+        updatedAt: row.updated_at || '',
+        updatedBy: row.updated_by || undefined,
+      }));
+      safeSetItem(CI_COMMITMENT_LS_KEY, JSON.stringify(commitments));
+      return commitments;
+    } catch (error: any) {
+      checkTableError(error, 'ci_commitments');
+      return readLocalCiCommitments();
+    }
+  },
+
+  async saveMany(commitments: CiCommitment[]): Promise<void> {
+    if (commitments.length === 0) return;
+    const ids = new Set(commitments.map(c => c.id));
+    const local = readLocalCiCommitments().filter(c => !ids.has(c.id));
+    safeSetItem(CI_COMMITMENT_LS_KEY, JSON.stringify([...local, ...commitments]));
+
+    if (!isSupabaseConfigured() || isTableMissing('ci_commitments')) return;
+
+    const { error } = await supabase!
+      .from('ci_commitments')
+      .upsert(commitments.map(toCiCommitmentRow), { onConflict: 'id' });
+    if (error && !checkTableError(error, 'ci_commitments')) {
+      handleError(error, 'ci_commitments 저장');
+    }
+  },
+
+  async delete(id: string): Promise<void> {
+    safeSetItem(CI_COMMITMENT_LS_KEY, JSON.stringify(readLocalCiCommitments().filter(c => c.id !== id)));
+
+    if (!isSupabaseConfigured() || isTableMissing('ci_commitments')) return;
+
+    const { error } = await supabase!
+      .from('ci_commitments')
+      .delete()
+      .eq('id', id);
+    if (error && !checkTableError(error, 'ci_commitments')) {
+      console.error('ci_commitments delete error:', error);
+    }
+  },
+
+  /** 단가 인하 품목을 CI 후보로 등록 (이미 있는 변경은 건너뜀). 생성된 후보 반환 */
+  async addPriceChangeCandidates(prices: PurchasePrice[]): Promise<CiCommitment[]> {
+    try {
+      const candidates = derivePriceChangeCandidates(prices, await this.getAll(), await resolveEditor());
+      await this.saveMany(candidates);
+      return candidates;
+    } catch (err) {
+      console.error('CI 후보 생성 실패:', err);
+      return [];
+    }
+  },
+};
+
+// ============================================
+// RFQ Quote Service (RFQ별 견적 원가 워크시트)
+// ============================================
+
+const RFQ_QUOTE_LS_KEY = 'dashboard_rfqQuotes';
+
+const readLocalRfqQuotes = (): RfqQuote[] => {
+  try {
+    const stored = storage.getItem(RFQ_QUOTE_LS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch { return []; }
+};
+
+export const rfqQuoteService = {
+  async getAll(): Promise<RfqQuote[]> {
+    if (!isSupabaseConfigured() || isTableMissing('rfq_quotes')) return readLocalRfqQuotes();
+
+    try {
+      const rows = await fetchAllRows('rfq_quotes', 'updated_at');
+      const quotes: RfqQuote[] = rows.map((row: any) => ({
+        rfqKey: row.rfq_key,
+        lines: Array.isArray(row.lines) ? row.lines : [],
+        processCost: Number(row.process_cost) || 0,
+        overheadRate: Number(row.overhead_rate) || 0,
+        targetMargin: Number(row.target_margin) || 0,
+        materialCost: Number(row.material_cost) || 0,
+        totalCost: Number(row.total_cost) || 0,
+        suggestedPrice: Number(row.suggested_price) || 0,
+        note: row.note || undefined,
+        updatedAt: row.updated_at || '',
+        updatedBy: row.updated_by || undefined,
+      }));
+      safeSetItem(RFQ_QUOTE_LS_KEY, JSON.stringify(quotes));
+      return quotes;
+    } catch (error: any) {
+      checkTableError(error, 'rfq_quotes');
+      return readLocalRfqQuotes();
+    }
+  },
+
+  async save(quote: RfqQuote): Promise<void> {
+    const local = readLocalRfqQuotes().filter(q => q.rfqKey !== quote.rfqKey);
+    safeSetItem(RFQ_QUOTE_LS_KEY, JSON.stringify([...local, quote]));
+
+    if (!isSupabaseConfigured() || isTableMissing('rfq_quotes')) return;
+
+    const { error } = await supabase!
+      .from('rfq_quotes')
+      .upsert({
+        rfq_key: quote.rfqKey,
+        lines: quote.lines,
+        process_cost: quote.processCost,
+        overhead_rate: quote.overheadRate,
+        target_margin: quote.targetMargin,
+        material_cost: quote.materialCost,
+        total_cost: quote.totalCost,
+        suggested_price: quote.suggestedPrice,
+        note: quote.note || null,
+        updated_at: quote.updatedAt,
+        updated_by: quote.updatedBy || null,
+      }, { onConflict: 'rfq_key' });
+    if (error && !checkTableError(error, 'rfq_quotes')) {
+      handleError(error, 'rfq_quotes 저장');
+    }
+  },
+
+  async delete(key: string): Promise<void> {
+    safeSetItem(RFQ_QUOTE_LS_KEY, JSON.stringify(readLocalRfqQuotes().filter(q => q.rfqKey !== key)));
+
+    if (!isSupabaseConfigured() || isTableMissing('rfq_quotes')) return;
+
+    const { error } = await supabase!
+      .from('rfq_quotes')
+      .delete()
+      .eq('rfq_key', key);
+    if (error && !checkTableError(error, 'rfq_quotes')) {
+      console.error('rfq_quotes delete error:', error);
+    }
+  },
+};
+
+// ============================================
+// RFQ Promotion Service (수주 RFQ → 마스터/매출계획 등록 이력)
+// ============================================
+
+const RFQ_PROMOTION_LS_KEY = 'dashboard_rfqPromotions';
+
+const readLocalRfqPromotions = (): RfqPromotion[] => {
+  try {
+    const stored = storage.getItem(RFQ_PROMOTION_LS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch { return []; }
+};
+
+export const rfqPromotionService = {
+  async getAll(): Promise<RfqPromotion[]> {
+    if (!isSupabaseConfigured() || isTableMissing('rfq_promotions')) return readLocalRfqPromotions();
+
+    try {
+      const rows = await fetchAllRows('rfq_promotions', 'promoted_at');
+      const promotions: RfqPromotion[] = rows.map((row: any) => ({
+        rfqKey: row.rfq_key,
+        rfqIndex: row.rfq_index || '',
+        rfqCustomer: row.rfq_customer || '',
+        rfqProject: row.rfq_project || '',
+        productCode: row.product_code || '',
+        customerPn: row.customer_pn || '',
+        forecastYear: Number(row.forecast_year) || 0,
+        annualQty: Number(row.annual_qty) || 0,
+        unitPrice: Number(row.unit_price) || 0,
+        promotedAt: row.promoted_at || '',
+        promotedBy: row.promoted_by || undefined,
+      }));
+      safeSetItem(RFQ_PROMOTION_LS_KEY, JSON.stringify(promotions));
+      return promotions;
+    } catch (error: any) {
+      checkTableError(error, 'rfq_promotions');
+      return readLocalRfqPromotions();
+    }
+  },
+
+  async save(promotion: RfqPromotion): Promise<void> {
+    const local = readLocalRfqPromotions().filter(p => p.rfqKey !== promotion.rfqKey);
+    safeSetItem(RFQ_PROMOTION_LS_KEY, JSON.stringify([...local, promotion]));
+
+    if (!isSupabaseConfigured() || isTableMissing('rfq_promotions')) return;
+
+    const { error } = await supabase!
+      .from('rfq_promotions')
+      .upsert({
+        rfq_key: promotion.rfqKey,
+        rfq_index: promotion.rfqIndex,
+        rfq_customer: promotion.rfqCustomer,
+        rfq_project: promotion.rfqProject,
+        product_code: promotion.productCode,
+        customer_pn: promotion.customerPn,
+        forecast_year: promotion.forecastYear,
+        annual_qty: promotion.annualQty,
+        unit_price: promotion.unitPrice,
+        promoted_at: promotion.promotedAt,
+        promoted_by: promotion.promotedBy || null,
+      }, { onConflict: 'rfq_key' });
+    if (error && !checkTableError(error, 'rfq_promotions')) {
+      handleError(error, 'rfq_promotions 저장');
+    }
+  },
+};
@@ -0,0 +1,21 @@
+-- BOM Change Orders: 설계변경(ECO) — 스테이징 라인, 원가영향, 4개 부서 승인
+CREATE TABLE IF NOT EXISTS bom_change_orders (
+  id TEXT PRIMARY KEY,
+  eco_number TEXT NOT NULL,
+  title TEXT DEFAULT '',
+  reason TEXT DEFAULT '',
+  status TEXT NOT NULL DEFAULT 'draft',
+  lines JSONB NOT NULL DEFAULT '[]'::jsonb,
+  impact JSONB,
+  approvals JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_by TEXT DEFAULT '',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  submitted_at TIMESTAMPTZ,
+  applied_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_bom_change_orders_status ON bom_change_orders (status);
+
+ALTER TABLE bom_change_orders ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS allow_all_bom_change_orders ON bom_change_orders;
+CREATE POLICY allow_all_bom_change_orders ON bom_change_orders FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,25 @@
+-- BOM Revisions: BOM 라인 개정이력 (유효기간 · 변경사유 · 변경자)
+CREATE TABLE IF NOT EXISTS bom_revisions (
+  id TEXT PRIMARY KEY,
+  parent_pn TEXT NOT NULL,
+  child_pn TEXT NOT NULL,
+  level INTEGER DEFAULT 1,
+  qty NUMERIC DEFAULT 0,
+  child_name TEXT DEFAULT '',
+  part_type TEXT DEFAULT '',
+  supplier TEXT DEFAULT '',
+  valid_from TIMESTAMPTZ,
+  valid_to TIMESTAMPTZ,
+  change_type TEXT NOT NULL DEFAULT 'update',
+  reason TEXT DEFAULT '',
+  editor TEXT DEFAULT '',
+  closed_reason TEXT,
+  closed_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bom_revisions_parent ON bom_revisions (parent_pn);
+
+ALTER TABLE bom_revisions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS allow_all_bom_revisions ON bom_revisions;
+CREATE POLICY allow_all_bom_revisions ON bom_revisions FOR ALL USING (true) WITH CHECK (true);
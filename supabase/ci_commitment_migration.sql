@@ -0,0 +1,23 @@
+-- CI Commitments: 협력사 단가인하 약정 (구매단가 변경 후보 / CI 상세 연결) — 입고실적 기반 절감 원장
+CREATE TABLE IF NOT EXISTS ci_commitments (
+  id TEXT PRIMARY KEY,
+  supplier TEXT NOT NULL DEFAULT '',
+  item_code TEXT NOT NULL,
+  customer_pn TEXT,
+  item_name TEXT,
+  base_price NUMERIC NOT NULL DEFAULT 0,
+  new_price NUMERIC NOT NULL DEFAULT 0,
+  effective_from DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'candidate',   -- candidate | committed | rejected
+  source TEXT NOT NULL DEFAULT 'priceChange', -- priceChange | ciUpload
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_ci_commitments_supplier ON ci_commitments (supplier);
+
+ALTER TABLE ci_commitments ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS allow_all_ci_commitments ON ci_commitments;
+CREATE POLICY allow_all_ci_commitments ON ci_commitments FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,12 @@
+-- Column Mapping Profiles: 업로더별 CSV/Excel 컬럼 매핑 (원본 헤더 → 대상 필드)
+CREATE TABLE IF NOT EXISTS column_mapping_profiles (
+  dataset TEXT PRIMARY KEY,
+  header_row INTEGER NOT NULL DEFAULT 0,
+  columns JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by TEXT
+);
+
+ALTER TABLE column_mapping_profiles ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS allow_all_column_mapping_profiles ON column_mapping_profiles;
+CREATE POLICY allow_all_column_mapping_profiles ON column_mapping_profiles FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,13 @@
+-- Cost Scenarios: What-if 단가 시뮬레이션 시나리오 저장
+CREATE TABLE IF NOT EXISTS cost_scenarios (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT DEFAULT '',
+  overrides JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE cost_scenarios ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS allow_all_cost_scenarios ON cost_scenarios;
+CREATE POLICY allow_all_cost_scenarios ON cost_scenarios FOR ALL USING (true) WITH CHECK (true);
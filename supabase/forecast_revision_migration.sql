@@ -0,0 +1,20 @@
+-- Forecast Revisions: 매출계획 업로드별 전체 품목 스냅샷 (개정본 비교/워터폴)
+CREATE TABLE IF NOT EXISTS forecast_revisions (
+  upload_id TEXT PRIMARY KEY,
+  file_name TEXT DEFAULT '',
+  upload_date TEXT DEFAULT '',
+  report_date TEXT DEFAULT '',
+  revision TEXT DEFAULT '',
+  year INTEGER DEFAULT 0,
+  total_revenue NUMERIC DEFAULT 0,
+  total_qty BIGINT DEFAULT 0,
+  item_count INTEGER DEFAULT 0,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_forecast_revisions_upload_date ON forecast_revisions (upload_date);
+
+ALTER TABLE forecast_revisions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS allow_all_forecast_revisions ON forecast_revisions;
+CREATE POLICY allow_all_forecast_revisions ON forecast_revisions FOR ALL USING (true) WITH CHECK (true);
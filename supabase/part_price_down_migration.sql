@@ -0,0 +1,20 @@
+-- Part Price-downs: 고객사/품번별 합의 단가인하율 (CR 모델 — Forecast 적용 후 CR 실적과 대사)
+CREATE TABLE IF NOT EXISTS part_price_downs (
+  id TEXT PRIMARY KEY,
+  customer TEXT NOT NULL DEFAULT '',
+  part_no TEXT NOT NULL,
+  part_name TEXT,
+  rate NUMERIC NOT NULL DEFAULT 0,
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  cr_group TEXT NOT NULL DEFAULT 'mtx',
+  note TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_part_price_downs_part_no ON part_price_downs (part_no);
+
+ALTER TABLE part_price_downs ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS allow_all_part_price_downs ON part_price_downs;
+CREATE POLICY allow_all_part_price_downs ON part_price_downs FOR ALL USING (true) WITH CHECK (true);
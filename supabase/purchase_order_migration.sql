@@ -0,0 +1,20 @@
+-- Purchase Orders: MRP 계획발주 기반 업체별 다품목 발주서 (미입고 라인은 MRP 입고예정으로 반영)
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  po_number TEXT PRIMARY KEY,
+  supplier TEXT NOT NULL,
+  issue_date DATE NOT NULL,
+  horizon_from TEXT DEFAULT '',
+  horizon_to TEXT DEFAULT '',
+  status TEXT NOT NULL DEFAULT 'open',
+  lines JSONB NOT NULL DEFAULT '[]'::jsonb,
+  total_qty NUMERIC DEFAULT 0,
+  total_amount NUMERIC DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders (supplier);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders (status);
+
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS allow_all_purchase_orders ON purchase_orders;
+CREATE POLICY allow_all_purchase_orders ON purchase_orders FOR ALL USING (true) WITH CHECK (true);
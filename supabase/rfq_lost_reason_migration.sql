@@ -0,0 +1,11 @@
+-- RFQ Lost Reasons: 실주 사유 (수주 실패/포기/Drop 건 사유 통계용)
+-- rfq_data는 전체 재저장 시 id가 새로 발급되므로 RFQ 고정 키(순번|고객사)로 별도 보관
+CREATE TABLE IF NOT EXISTS rfq_lost_reasons (
+  rfq_key TEXT PRIMARY KEY,
+  reason TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE rfq_lost_reasons ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS allow_all_rfq_lost_reasons ON rfq_lost_reasons;
+CREATE POLICY allow_all_rfq_lost_reasons ON rfq_lost_reasons FOR ALL USING (true) WITH CHECK (true);
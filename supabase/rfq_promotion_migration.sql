@@ -0,0 +1,20 @@
+-- RFQ Promotions: 수주 RFQ → 제품코드/기준정보/매출계획 등록 이력 (양산 품번 ↔ 원 견적 추적)
+CREATE TABLE IF NOT EXISTS rfq_promotions (
+  rfq_key TEXT PRIMARY KEY,   -- RFQ 고정 키 (순번|고객사)
+  rfq_index TEXT,
+  rfq_customer TEXT,
+  rfq_project TEXT,
+  product_code TEXT NOT NULL,
+  customer_pn TEXT NOT NULL,
+  forecast_year INTEGER,
+  annual_qty NUMERIC NOT NULL DEFAULT 0,
+  unit_price NUMERIC NOT NULL DEFAULT 0,
+  promoted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  promoted_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_rfq_promotions_product_code ON rfq_promotions (product_code);
+
+ALTER TABLE rfq_promotions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS allow_all_rfq_promotions ON rfq_promotions;
+CREATE POLICY allow_all_rfq_promotions ON rfq_promotions FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,18 @@
+-- RFQ Quotes: RFQ별 견적 원가 워크시트 (가안 BOM/사양 + 가공비·관리비율·목표 이익률 → 제안 단가)
+CREATE TABLE IF NOT EXISTS rfq_quotes (
+  rfq_key TEXT PRIMARY KEY,   -- RFQ 고정 키 (순번|고객사)
+  lines JSONB NOT NULL DEFAULT '[]'::jsonb,
+  process_cost NUMERIC NOT NULL DEFAULT 0,
+  overhead_rate NUMERIC NOT NULL DEFAULT 0,
+  target_margin NUMERIC NOT NULL DEFAULT 0,
+  material_cost NUMERIC NOT NULL DEFAULT 0,
+  total_cost NUMERIC NOT NULL DEFAULT 0,
+  suggested_price NUMERIC NOT NULL DEFAULT 0,
+  note TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_by TEXT
+);
+
+ALTER TABLE rfq_quotes ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS allow_all_rfq_quotes ON rfq_quotes;
+CREATE POLICY allow_all_rfq_quotes ON rfq_quotes FOR ALL USING (true) WITH CHECK (true);
@@ -0,0 +1,10 @@
+-- Supplier Lead Times: 시간단계 MRP 발주일 산출용 업체별 리드타임
+CREATE TABLE IF NOT EXISTS supplier_lead_times (
+  supplier TEXT PRIMARY KEY,
+  lead_time_days INTEGER NOT NULL DEFAULT 14,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE supplier_lead_times ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS allow_all_supplier_lead_times ON supplier_lead_times;
+CREATE POLICY allow_all_supplier_lead_times ON supplier_lead_times FOR ALL USING (true) WITH CHECK (true);
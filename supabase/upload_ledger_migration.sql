@@ -0,0 +1,23 @@
+-- Upload Ledger: 중앙 업로더 감사 기록 (파일 해시, 업로더, 대상 범위, 덮어쓴 레코드 스냅샷)
+CREATE TABLE IF NOT EXISTS upload_ledger (
+  id TEXT PRIMARY KEY,
+  uploaded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  file_name TEXT DEFAULT '',
+  file_hash TEXT DEFAULT '',
+  file_size BIGINT DEFAULT 0,
+  uploader TEXT DEFAULT '',
+  dataset TEXT NOT NULL,
+  scope JSONB NOT NULL DEFAULT '{}'::jsonb,
+  row_count INTEGER DEFAULT 0,
+  replaced_count INTEGER DEFAULT 0,
+  snapshot JSONB,
+  status TEXT NOT NULL DEFAULT 'applied',
+  rolled_back_at TIMESTAMPTZ,
+  rolled_back_by TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_upload_ledger_dataset ON upload_ledger (dataset, uploaded_at);
+
+ALTER TABLE upload_ledger ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS allow_all_upload_ledger ON upload_ledger;
+CREATE POLICY allow_all_upload_ledger ON upload_ledger FOR ALL USING (true) WITH CHECK (true);
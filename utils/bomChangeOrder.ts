@@ -0,0 +1,290 @@
+/**
+ * bomChangeOrder — BOM 설계변경(ECO) 스테이징 · 원가영향 · 승인
+ *
+ * BOM 편집은 즉시 저장하지 않고 변경지시(ECO)에 라인으로 누적한다.
+ * 검토요청 시 bomCostEngine으로 영향 제품의 재료비 변화를 산출하고,
+ * 생산/개발/영업/구매 4개 부서가 모두 승인한 뒤 bom_master에 반영한다.
+ */
+import { normalizePn } from './bomDataParser';
+import type { BomMasterRecord, ReferenceInfoRecord, MaterialCodeRecord } from './bomMasterParser';
+import type { PurchasePrice, OutsourcePrice, PaintMixRatio, ItemStandardCost } from './standardMaterialParser';
+import {
+  buildPriceData,
+  buildPaintMixMap,
+  buildRefInfoMap,
+  buildForwardMap,
+  calcRootMaterialCost,
+} from './bomCostEngine';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type ChangeOrderStatus = 'draft' | 'review' | 'approved' | 'rejected' | 'applied';
+
+/** 승인 부서 (BOM 검토 ReviewStatus와 동일) */
+export type ChangeOrderRole = 'production' | 'development' | 'sales' | 'purchase';
+
+export const CHANGE_ORDER_ROLES: { key: ChangeOrderRole; label: string }[] = [
+  { key: 'production', label: '생산팀' },
+  { key: 'development', label: '개발팀' },
+  { key: 'sales', label: '영업팀' },
+  { key: 'purchase', label: '구매팀' },
+];
+
+export type ChangeOrderField = 'childName' | 'qty' | 'partType' | 'supplier';
+
+export const CHANGE_ORDER_FIELD_LABEL: Record<ChangeOrderField, string> = {
+  qty: '소요량',
+  childName: '품명',
+  partType: '유형',
+  supplier: '구입처',
+};
+
+export interface ChangeOrderLine {
+  parentPn: string;
+  childPn: string;
+  field: ChangeOrderField;
+  before: string | number;
+  after: string | number;
+  appliedAt?: string;                 // bom_master 반영 완료 시각 (부분 반영 시 재시도 대상 제외)
+}
+
+export interface ChangeOrderDecision {
+  decision: 'approved' | 'rejected';
+  by: string;
+  at: string;
+  comment: string;
+}
+
+export interface ChangeOrderProductImpact {
+  productPn: string;
+  beforeCost: number;      // 개당 재료비 (변경 전)
+  afterCost: number;       // 개당 재료비 (변경 후)
+  deltaPerUnit: number;
+  planQty: number;
+  deltaTotal: number;      // 계획수량 기준 연간 영향
+}
+
+export interface ChangeOrderImpact {
+  affectedParents: string[];          // 변경 라인의 모품번 + 상위 전체
+  products: ChangeOrderProductImpact[];
+  totalDelta: number;
+}
+
+export interface BomChangeOrder {
+  id: string;
+  ecoNumber: string;                  // ECO-YYYYMMDD-001
+  title: string;
+  reason: string;
+  status: ChangeOrderStatus;
+  lines: ChangeOrderLine[];
+  impact: ChangeOrderImpact | null;   // 검토요청 시점 산출
+  approvals: Partial<Record<ChangeOrderRole, ChangeOrderDecision>>;
+  createdBy: string;
+  createdAt: string;
+  submittedAt?: string;
+  appliedAt?: string;
+}
+
+export interface ChangeOrderCostInputs {
+  bomRecords: BomMasterRecord[];
+  refInfo: ReferenceInfoRecord[];
+  materialCodes: MaterialCodeRecord[];
+  purchasePrices: PurchasePrice[];
+  outsourcePrices: OutsourcePrice[];
+  itemStandardCosts: ItemStandardCost[];
+  paintMixRatios: PaintMixRatio[];
+  planQtyMap: Map<string, number>;    // 정규화 품번 → 계획수량
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const lineKey = (parentPn: string, childPn: string) => `${normalizePn(parentPn)}|${normalizePn(childPn)}`;
+
+const toDateStr = (d: Date) =>
+  `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+
+/** ECO 번호 채번: 작성일 기준 일련번호 */
+export function nextEcoNumber(existing: string[], date: Date = new Date()): string {
+  const prefix = `ECO-${toDateStr(date)}-`;
+  const seq = existing
+    .filter(n => n.startsWith(prefix))
+    .reduce((max, n) => Math.max(max, parseInt(n.slice(prefix.length)) || 0), 0);
+  return `${prefix}${String(seq + 1).padStart(3, '0')}`;
+}
+
+export function createChangeOrder(existing: BomChangeOrder[], createdBy: string): BomChangeOrder {
+  const now = new Date();
+  return {
+    id: `eco_${now.getTime()}`,
+    ecoNumber: nextEcoNumber(existing.map(o => o.ecoNumber), now),
+    title: '',
+    reason: '',
+    status: 'draft',
+    lines: [],
+    impact: null,
+    approvals: {},
+    createdBy,
+    createdAt: now.toISOString(),
+  };
+}
+
+/** 편집 1건 스테이징: 동일 라인·필드는 최종값으로 덮고, 원복되면 제거 */
+export function stageChangeLine(order: BomChangeOrder, line: ChangeOrderLine): BomChangeOrder {
+  const key = lineKey(line.parentPn, line.childPn);
+  const existing = order.lines.find(l => lineKey(l.parentPn, l.childPn) === key && l.field === line.field);
+  const before = existing ? existing.before : line.before;
+  const others = order.lines.filter(l => l !== existing);
+  const lines = String(before) === String(line.after) ? others : [...others, { ...line, before }];
+  return { ...order, lines };
+}
+
+/** 변경 라인을 BOM에 적용한 사본 */
+export function applyChangeLines(records: BomMasterRecord[], lines: ChangeOrderLine[]): BomMasterRecord[] {
+  if (lines.length === 0) return records;
+  const byKey = new Map<string, ChangeOrderLine[]>();
+  for (const l of lines) {
+    const key = lineKey(l.parentPn, l.childPn);
+    byKey.set(key, [...(byKey.get(key) || []), l]);
+  }
+  return records.map(r => {
+    const changes = byKey.get(lineKey(r.parentPn, r.childPn));
+    if (!changes) return r;
+    const next = { ...r };
+    for (const c of changes) {
+      if (c.field === 'qty') next.qty = Number(c.after);
+      else next[c.field] = String(c.after);
+    }
+    return next;
+  });
+}
+
+/** 라인별 필드 변경을 bomMasterService.updateRecord 단위로 묶음 */
+export function groupLineUpdates(lines: ChangeOrderLine[]): {
+  parentPn: string;
+  childPn: string;
+  updates: Partial<{ childName: string; partType: string; supplier: string; qty: number }>;
+}[] {
+  const map = new Map<string, { parentPn: string; childPn: string; updates: Partial<{ childName: string; partType: string; supplier: string; qty: number }> }>();
+  for (const l of lines) {
+    const key = lineKey(l.parentPn, l.childPn);
+    const entry = map.get(key) || { parentPn: l.parentPn, childPn: l.childPn, updates: {} };
+    if (l.field === 'qty') entry.updates.qty = Number(l.after);
+    else entry.updates[l.field] = String(l.after);
+    map.set(key, entry);
+  }
+  return Array.from(map.values());
+}
+
+/** 현재 BOM 값이 작성 시점(before)과 달라진 라인 (승인 이후 다른 편집·업로드로 변경됨) */
+export function findStaleLines(records: BomMasterRecord[], lines: ChangeOrderLine[]): ChangeOrderLine[] {
+  const byKey = new Map(records.map(r => [lineKey(r.parentPn, r.childPn), r]));
+  return lines.filter(l => {
+    const rec = byKey.get(lineKey(l.parentPn, l.childPn));
+    if (!rec) return true;
+    return l.field === 'qty'
+      ? Number(rec.qty) !== Number(l.before)
+      : String(rec[l.field] ?? '') !== String(l.before ?? '');
+  });
+}
+
+/** 반영 완료된 라인(모품번·자품번 단위)에 반영 시각 기록 */
+export function markLinesApplied(
+  order: BomChangeOrder,
+  applied: { parentPn: string; childPn: string }[],
+  at: string,
+): BomChangeOrder {
+  const keys = new Set(applied.map(a => lineKey(a.parentPn, a.childPn)));
+  return {
+    ...order,
+    lines: order.lines.map(l => keys.has(lineKey(l.parentPn, l.childPn)) ? { ...l, appliedAt: at } : l),
+  };
+}
+
+/** 모품번 + 상위 모품번 전체 (역전개) */
+function collectAncestors(records: BomMasterRecord[], parents: string[]): Set<string> {
+  const reverse = new Map<string, string[]>();
+  for (const r of records) {
+    const child = normalizePn(r.childPn);
+    reverse.set(child, [...(reverse.get(child) || []), normalizePn(r.parentPn)]);
+  }
+  const result = new Set<string>();
+  const stack = parents.map(normalizePn);
+  while (stack.length > 0) {
+    const pn = stack.pop()!;
+    if (result.has(pn)) continue;
+    result.add(pn);
+    for (const p of reverse.get(pn) || []) stack.push(p);
+  }
+  return result;
+}
+
+// ============================================================
+// Cost Impact
+// ============================================================
+
+export function calcChangeOrderImpact(lines: ChangeOrderLine[], inputs: ChangeOrderCostInputs): ChangeOrderImpact {
+  const { bomRecords, refInfo, materialCodes, purchasePrices, outsourcePrices, itemStandardCosts, paintMixRatios, planQtyMap } = inputs;
+  if (lines.length === 0) return { affectedParents: [], products: [], totalDelta: 0 };
+
+  const affected = collectAncestors(bomRecords, lines.map(l => l.parentPn));
+  const childSet = new Set(bomRecords.map(r => normalizePn(r.childPn)));
+  const originalPn = new Map<string, string>();
+  for (const r of bomRecords) {
+    const norm = normalizePn(r.parentPn);
+    if (!originalPn.has(norm)) originalPn.set(norm, r.parentPn);
+  }
+
+  const priceData = buildPriceData(materialCodes, purchasePrices, outsourcePrices, itemStandardCosts);
+  const paintMixMap = buildPaintMixMap(paintMixRatios, priceData);
+  const refInfoMap = buildRefInfoMap(refInfo);
+  const beforeMap = buildForwardMap(bomRecords);
+  const afterMap = buildForwardMap(applyChangeLines(bomRecords, lines));
+
+  // 원가 영향은 최상위 제품 기준 (중간 모품번은 제품 원가에 포함)
+  const products: ChangeOrderProductImpact[] = [];
+  for (const norm of affected) {
+    if (childSet.has(norm)) continue;
+    const pn = originalPn.get(norm) || norm;
+    const beforeCost = calcRootMaterialCost(pn, beforeMap, priceData, refInfoMap, paintMixMap);
+    const afterCost = calcRootMaterialCost(pn, afterMap, priceData, refInfoMap, paintMixMap);
+    const planQty = planQtyMap.get(norm) || 0;
+    products.push({
+      productPn: pn,
+      beforeCost,
+      afterCost,
+      deltaPerUnit: afterCost - beforeCost,
+      planQty,
+      deltaTotal: (afterCost - beforeCost) * planQty,
+    });
+  }
+  products.sort((a, b) => Math.abs(b.deltaTotal) - Math.abs(a.deltaTotal) || Math.abs(b.deltaPerUnit) - Math.abs(a.deltaPerUnit));
+
+  return {
+    affectedParents: Array.from(affected).map(n => originalPn.get(n) || n).sort(),
+    products,
+    totalDelta: products.reduce((s, p) => s + p.deltaTotal, 0),
+  };
+}
+
+// ============================================================
+// Approval
+// ============================================================
+
+/** 부서 결정 반영 → 상태 재계산 (1개 부서 반려 시 반려, 4개 부서 승인 시 승인) */
+export function decideChangeOrder(
+  order: BomChangeOrder,
+  role: ChangeOrderRole,
+  decision: ChangeOrderDecision | null,
+): BomChangeOrder {
+  const approvals = { ...order.approvals };
+  if (decision) approvals[role] = decision; else delete approvals[role];
+  const decisions = CHANGE_ORDER_ROLES.map(r => approvals[r.key]?.decision);
+  const status: ChangeOrderStatus = decisions.includes('rejected')
+    ? 'rejected'
+    : decisions.every(d => d === 'approved') ? 'approved' : 'review';
+  return { ...order, approvals, status };
+}
@@ -205,6 +205,31 @@ export function buildRefInfoMap(refInfo: ReferenceInfoRecord[]): Map<string, Ref
   return map;
 }
 
+/** Forecast 품목 → 정규화 품번 후보 (P.N / NEW P.N + 고객P/N → 내부코드) */
+export function buildForecastKeyResolver(
+  productCodes: ProductCodeRecord[],
+  refInfo: ReferenceInfoRecord[],
+): (item: ForecastItem) => string[] {
+  const custToInternal = new Map<string, string[]>();
+  const link = (cust: string, internal: string) => {
+    const key = normalizePn(cust);
+    custToInternal.set(key, [...(custToInternal.get(key) || []), normalizePn(internal)]);
+  };
+  for (const pc of productCodes) if (pc.customerPn && pc.productCode) link(pc.customerPn, pc.productCode);
+  for (const ri of refInfo) if (ri.customerPn && ri.itemCode) link(ri.customerPn, ri.itemCode);
+
+  return (item: ForecastItem) => {
+    const keys = new Set<string>();
+    for (const pn of [item.partNo, item.newPartNo]) {
+      if (!pn) continue;
+      const norm = normalizePn(pn);
+      keys.add(norm);
+      for (const internal of custToInternal.get(norm) || []) keys.add(internal);
+    }
+    return Array.from(keys);
+  };
+}
+
 // ============================================================
 // 4. ForwardMap 구축 (BOM 부모→자식)
 // ============================================================
@@ -1105,3 +1130,242 @@ export function calcAllProductCosts(params: CalcAllParams): CostEngineResult {
     mrpMaterials,
   };
 }
+
+// ============================================================
+// 10. What-if 단가 시뮬레이션 — calcAllProductCosts 위의 시나리오 레이어
+//     단가 원천 데이터(재질/구매/외주/배합비)에 override를 적용한 뒤
+//     동일 엔진으로 재계산하여 기준 대비 차이를 산출
+// ============================================================
+
+export type PriceOverrideTarget = 'materialCode' | 'materialType' | 'supplier' | 'purchaseItem';
+
+export interface PriceOverride {
+  target: PriceOverrideTarget;
+  key: string;             // 재질코드 / 유형(RESIN, PAINT ...) / 업체명 / 구매품번
+  mode: 'pct' | 'abs';     // pct: ±% 변동, abs: 단가 지정
+  value: number;
+}
+
+export interface CostScenario {
+  id: string;
+  name: string;
+  description: string;
+  overrides: PriceOverride[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProductCostDiff {
+  pn: string;
+  name: string;
+  customer: string;
+  model: string;
+  planQty: number;
+  expectedRevenue: number;
+  baseMaterialCost: number;
+  scenarioMaterialCost: number;
+  baseMaterialTotal: number;
+  scenarioMaterialTotal: number;
+  deltaTotal: number;
+  baseRatio: number;       // %
+  scenarioRatio: number;   // %
+}
+
+export interface LeafMaterialDiff {
+  materialCode: string;
+  materialName: string;
+  materialType: string;
+  supplier: string;
+  unit: string;
+  totalQty: number;
+  baseUnitPrice: number;
+  scenarioUnitPrice: number;
+  baseTotalCost: number;
+  scenarioTotalCost: number;
+  deltaCost: number;
+}
+
+export interface ScenarioDiffResult {
+  scenario: CostScenario;
+  base: CostEngineResult;
+  result: CostEngineResult;
+  products: ProductCostDiff[];
+  leafMaterials: LeafMaterialDiff[];
+  summary: {
+    baseMaterial: number;
+    scenarioMaterial: number;
+    deltaMaterial: number;
+    baseRatio: number;       // 0~1
+    scenarioRatio: number;   // 0~1
+    changedProducts: number;
+    changedMaterials: number;
+  };
+}
+
+const RESIN_TYPE_RE = /resin|수지|사출/i;
+const PAINT_TYPE_RE = /paint|도료|도장|경화제|희석제/i;
+
+/** 유형 키 매칭: RESIN/PAINT는 엔진과 동일한 분류 규칙, 그 외는 부분일치 */
+function matchesMaterialType(combinedType: string, key: string): boolean {
+  const k = key.trim().toUpperCase();
+  if (!k || !combinedType) return false;
+  if (k === 'RESIN') return RESIN_TYPE_RE.test(combinedType);
+  if (k === 'PAINT') return PAINT_TYPE_RE.test(combinedType);
+  return combinedType.toUpperCase().includes(k);
+}
+
+function applyOverride(price: number, o: PriceOverride): number {
+  if (o.mode === 'abs') return o.value > 0 ? o.value : price;
+  return price * (1 + o.value / 100);
+}
+
+/**
+ * 시나리오 override를 단가 원천 데이터에 적용한 CalcAllParams 반환 (원본 불변)
+ * 동일 단가에 여러 override가 걸리면 목록 순서대로 누적 적용
+ */
+export function applyPriceOverrides(params: CalcAllParams, overrides: PriceOverride[]): CalcAllParams {
+  const active = overrides.filter(o => o.key && o.key.trim() && Number.isFinite(o.value) && (o.mode === 'abs' || o.value !== 0));
+  if (active.length === 0) return params;
+
+  const norm = (s: string | undefined) => (s ? normalizePn(s) : '');
+  const supplierKey = (s: string | undefined) => (s || '').trim().toUpperCase();
+
+  // 재질코드 → 결합 유형 (PAINT 배합 원료 유형 판별용)
+  const typeByCode = new Map<string, string>();
+  for (const mc of params.materialCodes) {
+    typeByCode.set(norm(mc.materialCode), [mc.materialType, mc.materialCategory, mc.paintCategory].filter(Boolean).join('|'));
+  }
+
+  const adjustMaterial = (code: string, price: number): number => {
+    if (price <= 0) return price;
+    const c = norm(code);
+    const mt = typeByCode.get(c) || '';
+    return active.reduce((p, o) => {
+      if (o.target === 'materialCode' && norm(o.key) === c) return applyOverride(p, o);
+      if (o.target === 'materialType' && matchesMaterialType(mt, o.key)) return applyOverride(p, o);
+      return p;
+    }, price);
+  };
+
+  const materialCodes = params.materialCodes.map(mc => {
+    const price = adjustMaterial(mc.materialCode, mc.currentPrice);
+    return price === mc.currentPrice ? mc : { ...mc, currentPrice: price };
+  });
+
+  const purchasePrices = params.purchasePrices.map(pp => {
+    const codes = [norm(pp.itemCode), norm(pp.customerPn)].filter(Boolean);
+    const mt = codes.map(c => typeByCode.get(c) || '').find(Boolean) || '';
+    const price = active.reduce((p, o) => {
+      if (p <= 0) return p;
+      switch (o.target) {
+        case 'purchaseItem':
+        case 'materialCode':
+          return codes.includes(norm(o.key)) ? applyOverride(p, o) : p;
+        case 'supplier':
+          return supplierKey(pp.supplier) === supplierKey(o.key) ? applyOverride(p, o) : p;
+        case 'materialType':
+          return matchesMaterialType(mt, o.key) ? applyOverride(p, o) : p;
+        default:
+          return p;
+      }
+    }, pp.currentPrice);
+    return price === pp.currentPrice ? pp : { ...pp, currentPrice: price };
+  });
+
+  // 배합비: 원료 단가가 직접 입력된 경우만 조정 (0이면 buildPaintMixMap이 재질단가에서 보강)
+  const paintMixRatios = params.paintMixRatios.map(pmr => {
+    const mixCode = norm(pmr.paintCode);
+    const mixLevel = (price: number) => active.reduce((p, o) =>
+      o.target === 'materialCode' && norm(o.key) === mixCode && p > 0 ? applyOverride(p, o) : p, price);
+    const mainPrice = mixLevel(adjustMaterial(pmr.mainCode, pmr.mainPrice));
+    const hardenerPrice = mixLevel(adjustMaterial(pmr.hardenerCode, pmr.hardenerPrice));
+    const thinnerPrice = mixLevel(adjustMaterial(pmr.thinnerCode, pmr.thinnerPrice));
+    if (mainPrice === pmr.mainPrice && hardenerPrice === pmr.hardenerPrice && thinnerPrice === pmr.thinnerPrice) return pmr;
+    return { ...pmr, mainPrice, hardenerPrice, thinnerPrice };
+  });
+
+  return { ...params, materialCodes, purchasePrices, paintMixRatios };
+}
+
+/** 시나리오 계산 — 기준(base) 대비 제품별 / 리프 자재별 차이 */
+export function calcScenarioDiff(
+  params: CalcAllParams,
+  scenario: CostScenario,
+  base?: CostEngineResult,
+): ScenarioDiffResult {
+  const baseResult = base || calcAllProductCosts(params);
+  const result = calcAllProductCosts(applyPriceOverrides(params, scenario.overrides));
+
+  const scenarioProducts = new Map<string, ProductCostRow>();
+  for (const p of result.products) scenarioProducts.set(p.pn, p);
+
+  const products: ProductCostDiff[] = baseResult.products.map(b => {
+    const s = scenarioProducts.get(b.pn);
+    const scenarioMaterialCost = s?.materialCost ?? b.materialCost;
+    const scenarioMaterialTotal = s?.materialTotal ?? b.materialTotal;
+    return {
+      pn: b.pn,
+      name: b.name,
+      customer: b.customer,
+      model: b.model,
+      planQty: b.planQty,
+      expectedRevenue: b.expectedRevenue,
+      baseMaterialCost: b.materialCost,
+      scenarioMaterialCost,
+      baseMaterialTotal: b.materialTotal,
+      scenarioMaterialTotal,
+      deltaTotal: scenarioMaterialTotal - b.materialTotal,
+      baseRatio: b.materialRatio,
+      scenarioRatio: s?.materialRatio ?? b.materialRatio,
+    };
+  });
+  products.sort((a, b) => Math.abs(b.deltaTotal) - Math.abs(a.deltaTotal));
+
+  const scenarioLeaves = new Map<string, LeafMaterialRow>();
+  for (const m of result.leafMaterials) scenarioLeaves.set(m.materialCode, m);
+  const leafMaterials: LeafMaterialDiff[] = [];
+  const seenLeaves = new Set<string>();
+  const pushLeaf = (b: LeafMaterialRow | undefined, s: LeafMaterialRow | undefined) => {
+    const row = (s || b)!;
+    leafMaterials.push({
+      materialCode: row.materialCode,
+      materialName: row.materialName,
+      materialType: row.materialType,
+      supplier: row.supplier,
+      unit: row.unit,
+      totalQty: row.monthlyQty.reduce((sum, q) => sum + q, 0),
+      baseUnitPrice: b?.unitPrice || 0,
+      scenarioUnitPrice: s?.unitPrice || 0,
+      baseTotalCost: b?.totalCost || 0,
+      scenarioTotalCost: s?.totalCost || 0,
+      deltaCost: (s?.totalCost || 0) - (b?.totalCost || 0),
+    });
+  };
+  for (const b of baseResult.leafMaterials) {
+    seenLeaves.add(b.materialCode);
+    pushLeaf(b, scenarioLeaves.get(b.materialCode));
+  }
+  // 단가 변동으로 집계 경로가 바뀐 자재 (예: 구매단가 0 → 하위 전개)
+  for (const s of result.leafMaterials) {
+    if (!seenLeaves.has(s.materialCode)) pushLeaf(undefined, s);
+  }
+  leafMaterials.sort((a, b) => Math.abs(b.deltaCost) - Math.abs(a.deltaCost));
+
+  const EPS = 0.5;
+  return {
+    scenario,
+    base: baseResult,
+    result,
+    products,
+    leafMaterials,
+    summary: {
+      baseMaterial: baseResult.summary.totalMaterial,
+      scenarioMaterial: result.summary.totalMaterial,
+      deltaMaterial: result.summary.totalMaterial - baseResult.summary.totalMaterial,
+      baseRatio: baseResult.summary.materialRatio,
+      scenarioRatio: result.summary.materialRatio,
+      changedProducts: products.filter(p => Math.abs(p.deltaTotal) > EPS).length,
+      changedMaterials: leafMaterials.filter(m => Math.abs(m.deltaCost) > EPS).length,
+    },
+  };
+}
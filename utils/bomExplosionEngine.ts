@@ -4,6 +4,8 @@ import type {
   ProductCodeRecord,
   ReferenceInfoRecord,
 } from './bomMasterParser';
+import { resolveLinesAsOf } from './bomRevision';
+import type { BomRevisionIndex } from './bomRevision';
 
 // ============================================
 // Types
@@ -24,6 +26,12 @@ export interface BomTreeNode {
   supplyType?: string;
 }
 
+/** 기준일 전개: 개정이력에서 해당 시점 유효 라인 사용 */
+export interface BomAsOf {
+  at: number;               // 기준시각 (ms)
+  index: BomRevisionIndex;
+}
+
 export interface ReversePath {
   path: { pn: string; name: string; qty: number }[];
 }
@@ -86,9 +94,11 @@ export function expandForwardTree(
   depth = 0,
   maxDepth = 10,
   visited: Set<string> = new Set(),
+  asOf?: BomAsOf,
 ): BomTreeNode {
   const normalizedPn = normalizePn(pn);
-  const children = forwardMap.get(normalizedPn) || [];
+  const currentChildren = forwardMap.get(normalizedPn) || [];
+  const children = asOf ? resolveLinesAsOf(pn, currentChildren, asOf.index, asOf.at) : currentChildren;
   const ref = refInfoMap?.get(normalizedPn);
 
   // 현재 노드의 이름: children의 첫 번째 childName에서 가져오거나 ref에서 가져옴
@@ -161,6 +171,7 @@ export function expandForwardTree(
         depth + 1,
         maxDepth,
         new Set(visited),
+        asOf,
       );
     }
 
@@ -0,0 +1,206 @@
+/**
+ * bomIntegrityChecker — BOM 구조 무결성 검사
+ *
+ * buildForwardMap/expandForwardTree는 잘못된 데이터를 만나면 조용히 전개를 멈추므로,
+ * 업로드 시점에 순환참조·고아 모품번·단가 미존재·중복 라인·소요량/레벨 이상을
+ * DataQualityIssue로 변환해 데이터 품질 탭에 노출한다.
+ */
+import { normalizePn } from './bomDataParser';
+import type {
+  BomMasterRecord,
+  ProductCodeRecord,
+  ReferenceInfoRecord,
+  DataQualityIssue,
+} from './bomMasterParser';
+import type { PaintMixRatio } from './standardMaterialParser';
+import type { ForecastItem } from './salesForecastParser';
+import { buildPaintMixMap, buildRefInfoMap, buildForecastKeyResolver, getNodePrice } from './bomCostEngine';
+import type { PriceData } from './bomCostEngine';
+
+// ============================================
+// Types
+// ============================================
+
+export type BomIntegrityIssueType =
+  | 'bom_cycle'
+  | 'bom_orphan_parent'
+  | 'bom_no_price'
+  | 'bom_qty_conflict'
+  | 'bom_qty_invalid'
+  | 'bom_level_mismatch';
+
+export const BOM_INTEGRITY_ISSUE_TYPES: BomIntegrityIssueType[] = [
+  'bom_cycle', 'bom_orphan_parent', 'bom_no_price', 'bom_qty_conflict', 'bom_qty_invalid', 'bom_level_mismatch',
+];
+
+export interface BomIntegrityInputs {
+  priceData: PriceData;
+  refInfo: ReferenceInfoRecord[];
+  paintMixRatios: PaintMixRatio[];
+  productCodes: ProductCodeRecord[];
+  forecast: ForecastItem[];       // 비어 있으면 고아 모품번 검사 생략
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const issue = (
+  issueType: BomIntegrityIssueType,
+  itemCode: string,
+  itemName: string,
+  fieldName: string,
+  severity: DataQualityIssue['severity'],
+  description: string,
+): DataQualityIssue => ({ issueType, itemCode, itemName, fieldName, severity, description, resolved: false });
+
+/** 순환참조 탐색 (DFS 3색) — 사이클별 1건, 경로는 사이클 시작 품번부터 */
+function findCycles(forward: Map<string, string[]>, display: Map<string, string>): string[][] {
+  const state = new Map<string, 1 | 2>();   // 1=방문중, 2=완료
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+
+  const visit = (start: string) => {
+    const stack: { pn: string; idx: number }[] = [{ pn: start, idx: 0 }];
+    const path: string[] = [start];
+    state.set(start, 1);
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      const children = forward.get(top.pn) || [];
+      if (top.idx >= children.length) {
+        state.set(top.pn, 2);
+        stack.pop();
+        path.pop();
+        continue;
+      }
+      const child = children[top.idx++];
+      const st = state.get(child);
+      if (st === 1) {
+        const cycle = path.slice(path.indexOf(child));
+        const key = [...cycle].sort().join('|');
+        if (!seen.has(key)) {
+          seen.add(key);
+          cycles.push([...cycle, child].map(pn => display.get(pn) || pn));
+        }
+      } else if (st === undefined) {
+        state.set(child, 1);
+        stack.push({ pn: child, idx: 0 });
+        path.push(child);
+      }
+    }
+  };
+
+  for (const pn of forward.keys()) {
+    if (!state.has(pn)) visit(pn);
+  }
+  return cycles;
+}
+
+// ============================================
+// Main
+// ============================================
+
+export function checkBomIntegrity(bom: BomMasterRecord[], inputs: BomIntegrityInputs): DataQualityIssue[] {
+  const { priceData, refInfo, paintMixRatios, productCodes, forecast } = inputs;
+  const issues: DataQualityIssue[] = [];
+  if (bom.length === 0) return issues;
+
+  const display = new Map<string, string>();     // 정규화 → 원본 품번
+  const nameMap = new Map<string, string>();
+  const forward = new Map<string, string[]>();
+  const reverse = new Map<string, string[]>();
+  const lines = new Map<string, BomMasterRecord[]>();
+
+  for (const r of bom) {
+    const p = normalizePn(r.parentPn);
+    const c = normalizePn(r.childPn);
+    if (!display.has(p)) display.set(p, r.parentPn);
+    if (!display.has(c)) display.set(c, r.childPn);
+    if (r.childName && !nameMap.has(c)) nameMap.set(c, r.childName);
+    const key = `${p}|${c}`;
+    const list = lines.get(key);
+    if (list) { list.push(r); continue; }
+    lines.set(key, [r]);
+    forward.set(p, [...(forward.get(p) || []), c]);
+    reverse.set(c, [...(reverse.get(c) || []), p]);
+  }
+  const nameOf = (norm: string) => nameMap.get(norm) || '';
+
+  // 1) 순환참조
+  for (const cycle of findCycles(forward, display)) {
+    issues.push(issue('bom_cycle', cycle[0], nameOf(normalizePn(cycle[0])), '모품번/자품번', 'error',
+      `순환참조: ${cycle.join(' → ')}`));
+  }
+
+  // 2) 중복 라인 (소요량 상이) / 3) 소요량 0 이하
+  for (const list of lines.values()) {
+    const first = list[0];
+    const qtys = Array.from(new Set(list.map(r => r.qty)));
+    if (qtys.length > 1) {
+      issues.push(issue('bom_qty_conflict', first.childPn, first.childName, '소요량', 'error',
+        `모품번 [${first.parentPn}] 아래 동일 자품번이 ${list.length}행 중복되며 소요량이 다릅니다 (${qtys.join(', ')}).`));
+    }
+    for (const r of list) {
+      if (!(r.qty > 0)) {
+        issues.push(issue('bom_qty_invalid', r.childPn, r.childName, '소요량', 'error',
+          `모품번 [${r.parentPn}] 라인의 소요량이 ${r.qty}입니다.`));
+      }
+    }
+  }
+
+  // 4) 레벨 불일치: 자품번 레벨 = 모품번 레벨 + 1 (최상위 모품번 하위는 1)
+  const levelsAsChild = new Map<string, Set<number>>();
+  for (const r of bom) {
+    const c = normalizePn(r.childPn);
+    const set = levelsAsChild.get(c) || new Set<number>();
+    set.add(r.level);
+    levelsAsChild.set(c, set);
+  }
+  for (const r of bom) {
+    const parentLevels = levelsAsChild.get(normalizePn(r.parentPn));
+    const expected = parentLevels ? Array.from(parentLevels).map(l => l + 1) : [1];
+    if (!expected.includes(r.level)) {
+      issues.push(issue('bom_level_mismatch', r.childPn, r.childName, '레벨', 'warning',
+        `모품번 [${r.parentPn}] 하위 레벨이 ${r.level}이지만 ${expected.sort((a, b) => a - b).join('/')}이어야 합니다.`));
+    }
+  }
+
+  // 5) 단가 미존재: 리프 자품번 중 PriceData(구매/외주/재질/표준, 사출·도장 산출 포함)로 단가가 잡히지 않는 품번
+  const refInfoMap = buildRefInfoMap(refInfo);
+  const paintMixMap = buildPaintMixMap(paintMixRatios, priceData);
+  for (const [c, pn] of display) {
+    if (!reverse.has(c) || forward.has(c)) continue;
+    if (getNodePrice(pn, priceData, refInfoMap, paintMixMap).price > 0) continue;
+    issues.push(issue('bom_no_price', pn, nameOf(c), '단가', 'warning',
+      `리프 자품번이지만 구매/외주/재질/표준 단가가 없어 재료비가 0으로 집계됩니다.`));
+  }
+
+  // 6) 고아 모품번: 자신 및 상위 어디에도 Forecast 제품이 없는 모품번
+  if (forecast.length > 0) {
+    const forecastKeys = new Set(forecast.flatMap(buildForecastKeyResolver(productCodes, refInfo)));
+    const reaches = new Map<string, boolean>();
+    const reachesForecast = (start: string): boolean => {
+      const cached = reaches.get(start);
+      if (cached !== undefined) return cached;
+      const visited = new Set<string>([start]);
+      const queue = [start];
+      let found = false;
+      while (queue.length > 0 && !found) {
+        const pn = queue.shift()!;
+        if (forecastKeys.has(pn) || reaches.get(pn) === true) { found = true; break; }
+        for (const p of reverse.get(pn) || []) {
+          if (!visited.has(p)) { visited.add(p); queue.push(p); }
+        }
+      }
+      reaches.set(start, found);
+      return found;
+    };
+    for (const p of forward.keys()) {
+      if (reachesForecast(p)) continue;
+      issues.push(issue('bom_orphan_parent', display.get(p) || p, nameOf(p), '모품번', 'info',
+        `모품번 및 상위 품번 중 판매계획(Forecast) 제품이 없어 소요량 전개에 포함되지 않습니다.`));
+    }
+  }
+
+  return issues;
+}
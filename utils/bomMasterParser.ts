@@ -337,6 +337,59 @@ export function parseProductCodeSheet(rows: unknown[][]): ProductCodeRecord[] {
   return results;
 }
 
+/** 빈 기준정보 레코드 (가안/신규 등록용 골격) — 값이 있는 필드만 overrides로 채운다 */
+export function emptyReferenceInfo(itemCode: string, overrides: Partial<ReferenceInfoRecord> = {}): ReferenceInfoRecord {
+  return {
+    itemCode,
+    customerPn: '',
+    itemName: '',
+    spec: '',
+    customerName: '',
+    variety: '',
+    itemStatus: '',
+    itemCategory: '',
+    processType: '',
+    inspectionType: '',
+    productGroup: '',
+    supplyType: '',
+    supplier: '',
+    priorityLine1: '',
+    priorityLine2: '',
+    priorityLine3: '',
+    priorityLine4: '',
+    safetyStock: 0,
+    safetyStockDays: 0,
+    lotQty: 0,
+    productionPerHour: 0,
+    defectAllowance: 0,
+    workers: 0,
+    processingTime: '',
+    standardCT: 0,
+    standardManHours: 0,
+    qtyPerBox: 0,
+    rawMaterialCode1: '',
+    rawMaterialCode2: '',
+    rawMaterialCode3: '',
+    rawMaterialCode4: '',
+    netWeight: 0,
+    runnerWeight: 0,
+    netWeight2: 0,
+    runnerWeight2: 0,
+    paintQty1: 0,
+    paintQty2: 0,
+    paintQty3: 0,
+    paintQty4: 0,
+    lossRate: 0,
+    cavity: 1,
+    useCavity: 0,
+    productSizeType: '',
+    glossType: '',
+    useYn: 'Y',
+    paintIntake: 0,
+    ...overrides,
+  };
+}
+
 export function parseReferenceInfoSheet(rows: unknown[][]): ReferenceInfoRecord[] {
   const headerIdx = findHeaderRow(rows, REFERENCE_INFO_HEADERS);
   if (headerIdx === -1) return [];
@@ -0,0 +1,246 @@
+/**
+ * bomRevision — BOM 라인 개정이력 (유효기간 기반)
+ *
+ * BOM 라인(모품번|자품번)이 변경될 때마다 기존 개정을 validTo로 닫고 새 개정을 연다.
+ * 이력이 없는 라인은 현재 bom_master 값을 전 기간 유효한 것으로 간주한다.
+ */
+import { normalizePn } from './bomDataParser';
+import type { BomMasterRecord } from './bomMasterParser';
+
+// ============================================
+// Types
+// ============================================
+
+export type BomRevisionChangeType = 'baseline' | 'add' | 'update';
+
+export interface BomLineRevision {
+  id: string;
+  parentPn: string;
+  childPn: string;
+  level: number;
+  qty: number;
+  childName: string;
+  partType: string;
+  supplier: string;
+  validFrom: string;          // ISO (''=최초 등록분, 시점 미상)
+  validTo: string | null;     // ISO (null=현재 유효)
+  changeType: BomRevisionChangeType;
+  reason: string;
+  editor: string;
+  closedReason?: string;      // 삭제로 종료된 경우 사유
+  closedBy?: string;
+}
+
+export interface BomChangeMeta {
+  reason: string;
+  editor?: string;
+}
+
+/** 라인 변경 (before=null: 신규, after=null: 삭제) */
+export interface BomLineChange {
+  before: BomMasterRecord | null;
+  after: BomMasterRecord | null;
+}
+
+/** parent → child → 개정 목록 (validFrom 오름차순) */
+export type BomRevisionIndex = Map<string, Map<string, BomLineRevision[]>>;
+
+export interface BomRevisionPoint {
+  at: string;                 // ISO
+  reason: string;
+  editor: string;
+  lineCount: number;
+}
+
+export type BomDiffStatus = 'added' | 'removed' | 'changed' | 'same';
+
+export interface BomDiffRow {
+  childPn: string;
+  childName: string;
+  status: BomDiffStatus;
+  before: BomMasterRecord | null;
+  after: BomMasterRecord | null;
+  changedFields: ('qty' | 'childName' | 'partType' | 'supplier')[];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const DIFF_FIELDS: BomDiffRow['changedFields'] = ['qty', 'childName', 'partType', 'supplier'];
+
+const lineKey = (parentPn: string, childPn: string) => `${normalizePn(parentPn)}|${normalizePn(childPn)}`;
+
+const toTime = (iso: string | null, open: number) => (iso ? Date.parse(iso) : open);
+
+/** 'YYYY-MM-DD' → 해당일 종료 시각 (로컬) */
+export function endOfDay(date: string): number {
+  return new Date(`${date}T23:59:59.999`).getTime();
+}
+
+function isSameLine(a: BomMasterRecord, b: BomMasterRecord): boolean {
+  return DIFF_FIELDS.every(f => a[f] === b[f]);
+}
+
+function toRecord(rev: BomLineRevision): BomMasterRecord {
+  return {
+    parentPn: rev.parentPn, childPn: rev.childPn, level: rev.level, qty: rev.qty,
+    childName: rev.childName, partType: rev.partType, supplier: rev.supplier,
+  };
+}
+
+function newRevision(
+  rec: BomMasterRecord, validFrom: string, changeType: BomRevisionChangeType, reason: string, editor: string,
+): BomLineRevision {
+  return {
+    id: `${lineKey(rec.parentPn, rec.childPn)}|${validFrom || 'baseline'}`,
+    parentPn: rec.parentPn, childPn: rec.childPn, level: rec.level, qty: rec.qty,
+    childName: rec.childName, partType: rec.partType, supplier: rec.supplier,
+    validFrom, validTo: null, changeType, reason, editor,
+  };
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * 라인 변경 → upsert 대상 개정 목록 (닫힌 기존 개정 + 신규 개정)
+ * 이력이 없던 라인은 변경 전 값을 baseline 개정으로 먼저 남긴다.
+ */
+export function buildLineRevisions(
+  existing: BomLineRevision[],
+  changes: BomLineChange[],
+  meta: Required<BomChangeMeta>,
+  at: string = new Date().toISOString(),
+): BomLineRevision[] {
+  const openMap = new Map<string, BomLineRevision>();
+  const historyKeys = new Set<string>();
+  for (const rev of existing) {
+    const key = lineKey(rev.parentPn, rev.childPn);
+    historyKeys.add(key);
+    if (rev.validTo === null) openMap.set(key, rev);
+  }
+
+  const result: BomLineRevision[] = [];
+  for (const { before, after } of changes) {
+    const ref = after || before;
+    if (!ref) continue;
+    if (before && after && isSameLine(before, after)) continue;
+    const key = lineKey(ref.parentPn, ref.childPn);
+
+    let open = openMap.get(key);
+    if (!open && before && !historyKeys.has(key)) {
+      open = newRevision(before, '', 'baseline', '', '');
+    }
+    if (open) {
+      const closed: BomLineRevision = { ...open, validTo: at };
+      if (!after) { closed.closedReason = meta.reason; closed.closedBy = meta.editor; }
+      result.push(closed);
+    }
+    if (after) {
+      const rev = newRevision(after, at, open || before ? 'update' : 'add', meta.reason, meta.editor);
+      result.push(rev);
+      openMap.set(key, rev);
+    } else {
+      openMap.delete(key);
+    }
+    historyKeys.add(key);
+  }
+  return result;
+}
+
+// ============================================
+// As-of Resolution
+// ============================================
+
+export function buildRevisionIndex(revisions: BomLineRevision[]): BomRevisionIndex {
+  const index: BomRevisionIndex = new Map();
+  for (const rev of revisions) {
+    const parent = normalizePn(rev.parentPn);
+    const byChild = index.get(parent) || new Map<string, BomLineRevision[]>();
+    const child = normalizePn(rev.childPn);
+    const list = byChild.get(child) || [];
+    list.push(rev);
+    byChild.set(child, list);
+    index.set(parent, byChild);
+  }
+  for (const byChild of index.values()) {
+    for (const list of byChild.values()) {
+      list.sort((a, b) => toTime(a.validFrom, -Infinity) - toTime(b.validFrom, -Infinity));
+    }
+  }
+  return index;
+}
+
+/** 기준시각(ms) 시점의 모품번 하위 라인 (이력 없는 라인은 현재값 사용) */
+export function resolveLinesAsOf(
+  parentPn: string,
+  currentLines: BomMasterRecord[],
+  index: BomRevisionIndex,
+  at: number,
+): BomMasterRecord[] {
+  const byChild = index.get(normalizePn(parentPn));
+  if (!byChild) return currentLines;
+
+  const lines = currentLines.filter(l => !byChild.has(normalizePn(l.childPn)));
+  for (const list of byChild.values()) {
+    const rev = list.find(r => toTime(r.validFrom, -Infinity) <= at && at < toTime(r.validTo, Infinity));
+    if (rev) lines.push(toRecord(rev));
+  }
+  return lines;
+}
+
+// ============================================
+// Revision Points / Diff
+// ============================================
+
+/** 모품번의 개정 시점 목록 (최신순) */
+export function listRevisionPoints(parentPn: string, index: BomRevisionIndex): BomRevisionPoint[] {
+  const byChild = index.get(normalizePn(parentPn));
+  if (!byChild) return [];
+
+  const points = new Map<string, BomRevisionPoint>();
+  const touch = (at: string, reason: string, editor: string) => {
+    const p = points.get(at) || { at, reason, editor, lineCount: 0 };
+    p.lineCount++;
+    points.set(at, p);
+  };
+  for (const list of byChild.values()) {
+    for (const rev of list) {
+      if (rev.validFrom) touch(rev.validFrom, rev.reason, rev.editor);
+      // 후속 개정 없이 닫힌 라인 = 삭제 시점
+      if (rev.validTo && !list.some(r => r.validFrom === rev.validTo)) {
+        touch(rev.validTo, rev.closedReason || '', rev.closedBy || '');
+      }
+    }
+  }
+  return Array.from(points.values()).sort((a, b) => b.at.localeCompare(a.at));
+}
+
+/** 두 시점의 모품번 하위 라인 비교 */
+export function diffBomAsOf(
+  parentPn: string,
+  currentLines: BomMasterRecord[],
+  index: BomRevisionIndex,
+  fromAt: number,
+  toAt: number,
+): BomDiffRow[] {
+  const before = new Map(resolveLinesAsOf(parentPn, currentLines, index, fromAt).map(l => [normalizePn(l.childPn), l]));
+  const after = new Map(resolveLinesAsOf(parentPn, currentLines, index, toAt).map(l => [normalizePn(l.childPn), l]));
+
+  const rows: BomDiffRow[] = [];
+  for (const key of new Set([...before.keys(), ...after.keys()])) {
+    const b = before.get(key) || null;
+    const a = after.get(key) || null;
+    const changedFields = b && a ? DIFF_FIELDS.filter(f => b[f] !== a[f]) : [];
+    const status: BomDiffStatus = !b ? 'added' : !a ? 'removed' : changedFields.length > 0 ? 'changed' : 'same';
+    rows.push({
+      childPn: (a || b)!.childPn,
+      childName: (a || b)!.childName,
+      status, before: b, after: a, changedFields,
+    });
+  }
+  const order: Record<BomDiffStatus, number> = { changed: 0, added: 1, removed: 2, same: 3 };
+  return rows.sort((x, y) => order[x.status] - order[y.status] || x.childPn.localeCompare(y.childPn));
+}
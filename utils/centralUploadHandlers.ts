@@ -8,12 +8,20 @@ import { parseRevenueCSV, parseItemRevenueCSV } from './revenueDataParser';
 import { parseRFQCSV } from './rfqDataParser';
 import { parseCRCSV } from './crDataParser';
 import { parsePartsCSV, parseMaterialCSV } from './purchaseDataParser';
+import type { PurchaseItem } from './purchaseDataParser';
 import { parseBomMasterExcel } from './bomMasterParser';
 import { parseMaterialMasterExcel, parsePnMappingFromExcel } from './bomDataParser';
 import { parseStandardMixFile, parseMaterialPriceFile, parsePaintMixLogFile, parseProductInfoFile, parsePurchasePriceFile, parseOutsourcePriceFile, parseMaterialCodeFile } from './standardMaterialParser';
 import { parseSupplierCSV } from './supplierDataParser';
 import { parseManufacturingCostExcel } from './manufacturingCostParser';
 import { safeSetItem } from './safeStorage';
+import { storage } from './storage';
+import { hashFile } from './uploadLedger';
+import { CSV_LAYOUTS, splitCsvRows, validateCsvLayout, diffRecords } from './uploadPreview';
+import type { UploadPreview, PreviewIssue, PreviewDiff } from './uploadPreview';
+import type { UploadDataset, UploadScope, UploadLedgerEntry } from './uploadLedger';
+import { withMappingFallback, needsMappingFallback, profileLayout, isMappingDataset } from './columnMapping';
+import type { ColumnMappingProfile, MappingDataset } from './columnMapping';
 import { isSupabaseConfigured } from '../lib/supabase';
 import {
   salesService,
@@ -34,8 +42,12 @@ import {
   supplierService,
   outsourceInjPriceService,
   purchasePriceService,
+  ciSavingsService,
   productInfoService,
   pnMappingService,
+  uploadLedgerService,
+  columnMappingService,
+  resolveEditor,
 } from '../services/supabaseService';
 
 export interface UploadResult {
@@ -52,14 +64,165 @@ function dispatchUpdate(detail?: Record<string, unknown>) {
   );
 }
 
+// ─── 업로드 감사 기록 ───
+
+interface RollbackTarget {
+  /** 업로드가 덮어쓸 범위의 기존 레코드 */
+  load: (scope: UploadScope) => Promise<unknown[]>;
+  /** 스냅샷으로 해당 범위를 업로드 이전 상태로 되돌림 (범위 내 레코드 삭제 후 재저장) */
+  restore: (rows: any[], scope: UploadScope) => Promise<void>;
+}
+
+/** localStorage 배열에서 범위(keep=false) 레코드만 교체 */
+function replaceLocalRows<T>(key: string, rows: T[], keep: (item: T) => boolean) {
+  const stored = storage.getItem(key);
+  const existing: T[] = stored ? JSON.parse(stored) : [];
+  safeSetItem(key, JSON.stringify([...existing.filter(keep), ...rows]));
+}
+
+const purchaseTarget = (category: 'Parts' | 'Material'): RollbackTarget => ({
+  load: async ({ year, month }) =>
+    (await purchaseService.getAll()).filter(p => p.year === year && p.month === month && p.category === category),
+  restore: (rows, { year, month }) => purchaseService.saveByMonthAndCategory(rows, month!, category, year!),
+});
+
+const inventoryTarget = (type: 'resin' | 'paint' | 'parts'): RollbackTarget => ({
+  load: async () => (await inventoryService.getInventoryV2())[type] || [],
+  restore: async (rows) => {
+    const existingRaw = storage.getItem('dashboard_inventory_v2');
+    const inventoryData = existingRaw ? JSON.parse(existingRaw) : { resin: [], paint: [], parts: [] };
+    inventoryData[type] = rows;
+    safeSetItem('dashboard_inventory_v2', JSON.stringify(inventoryData));
+    if (isSupabaseConfigured()) {
+      await inventoryService.deleteInventoryV2ByType(type);
+      await inventoryService.saveInventoryV2(inventoryData);
+    }
+  },
+});
+
+/** 롤백 지원 데이터셋 — 기준정보(upsert 병합) 업로드는 기록만 남기고 스냅샷은 저장하지 않음 */
+const ROLLBACK_TARGETS: Partial<Record<UploadDataset, RollbackTarget>> = {
+  sales: {
+    load: () => salesService.getAll(),
+    restore: async (rows) => {
+      safeSetItem('dashboard_salesData', JSON.stringify(rows));
+      if (isSupabaseConfigured()) await salesService.saveAll(rows);
+    },
+  },
+  revenue: {
+    load: async ({ year }) => (await revenueService.getAll()).filter(r => r.year === year),
+    restore: async (rows, { year }) => {
+      replaceLocalRows<{ year: number }>('dashboard_revenueData', rows, r => r.year !== year);
+      if (isSupabaseConfigured()) {
+        await revenueService.deleteByYear(year!);
+        await revenueService.saveByYear(rows, year!);
+      }
+    },
+  },
+  itemRevenue: {
+    load: () => itemRevenueService.getAll(),
+    restore: async (rows) => {
+      safeSetItem('dashboard_itemRevenueData', JSON.stringify(rows));
+      if (isSupabaseConfigured()) {
+        await itemRevenueService.deleteAll();
+        await itemRevenueService.saveAll(rows);
+      }
+    },
+  },
+  rfq: {
+    load: () => rfqService.getAll(),
+    restore: async (rows) => {
+      safeSetItem('dashboard_rfqData', JSON.stringify(rows));
+      if (isSupabaseConfigured()) await rfqService.saveAll(rows);
+    },
+  },
+  cr: {
+    load: async ({ year }) => (await crService.getAll()).filter(c => c.year === year),
+    restore: async (rows, { year }) => {
+      if (isSupabaseConfigured()) await crService.deleteByYear(year!);
+      await crService.saveByYear(rows, year!);
+    },
+  },
+  purchaseParts: purchaseTarget('Parts'),
+  purchaseMaterial: purchaseTarget('Material'),
+  inventoryResin: inventoryTarget('resin'),
+  inventoryPaint: inventoryTarget('paint'),
+  inventoryParts: inventoryTarget('parts'),
+  supplier: {
+    load: () => supplierService.getAll(),
+    restore: async (rows) => {
+      safeSetItem('dashboard_supplierData', JSON.stringify(rows));
+      if (isSupabaseConfigured()) {
+        await supplierService.deleteAll();
+        await supplierService.saveAll(rows);
+      }
+    },
+  },
+};
+
+/** 저장 직전 호출: 업로드가 덮어쓸 기존 레코드 (롤백 미지원 데이터셋 또는 조회 실패 시 null) */
+async function captureSnapshot(dataset: UploadDataset, scope: UploadScope = {}): Promise<unknown[] | null> {
+  const target = ROLLBACK_TARGETS[dataset];
+  if (!target) return null;
+  try {
+    return await target.load(scope);
+  } catch (e) {
+    console.warn(`업로드 스냅샷 조회 실패 (${dataset}):`, e);
+    return null;
+  }
+}
+
+/** 저장 성공 후 호출: 업로드 원장에 기록 (실패해도 업로드 결과에는 영향 없음) */
+async function recordUpload(
+  file: File,
+  dataset: UploadDataset,
+  scope: UploadScope,
+  rowCount: number,
+  snapshot: unknown[] | null = null,
+): Promise<void> {
+  try {
+    const uploadedAt = new Date().toISOString();
+    await uploadLedgerService.upsertOne({
+      id: `upl_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      uploadedAt,
+      fileName: file.name,
+      fileHash: await hashFile(file),
+      fileSize: file.size,
+      uploader: await resolveEditor(),
+      dataset,
+      scope,
+      rowCount,
+      replacedCount: snapshot?.length || 0,
+      snapshot,
+      status: 'applied',
+    });
+  } catch (e) {
+    console.warn('업로드 기록 저장 실패:', e);
+  }
+}
+
+// ─── 입고 업로드 범위 ───
+
+/** 업로더 월 선택값('3월') → 구매 데이터 월 형식('03월') */
+const toScopeMonth = (month: string) => {
+  const num = parseInt(month.replace(/월/g, ''), 10);
+  return Number.isNaN(num) ? month : `${String(num).padStart(2, '0')}월`;
+};
+
+/** 선택한 연월로 입고 데이터 귀속 (PurchaseView 업로드와 동일 — 해당 월 교체 범위 일치) */
+const stampPurchaseScope = (data: PurchaseItem[], month: string, year: number): PurchaseItem[] =>
+  data.map(item => ({ ...item, month, year }));
+
 // ─── 1. 수량 업로드 ───
 export async function uploadSalesQty(file: File): Promise<UploadResult> {
   try {
     const csvText = await readFileAsCSVText(file);
     const data = parseSalesCSV(csvText);
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
+    const snapshot = await captureSnapshot('sales');
     safeSetItem('dashboard_salesData', JSON.stringify(data));
     if (isSupabaseConfigured()) await salesService.saveAll(data);
+    await recordUpload(file, 'sales', {}, data.length, snapshot);
     dispatchUpdate({ type: 'sales' });
     return { success: true, count: data.length, message: `${data.length}건 저장` };
   } catch (e: any) {
@@ -71,10 +234,12 @@ export async function uploadSalesQty(file: File): Promise<UploadResult> {
 export async function uploadRevenue(file: File, year: number): Promise<UploadResult> {
   try {
     const csvText = await readFileAsCSVText(file);
-    const data = parseRevenueCSV(csvText, year);
+    const data = parseRevenueCSV(csvText, year, await columnMappingService.get('revenue'));
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
+    const snapshot = await captureSnapshot('revenue', { year });
     safeSetItem('dashboard_revenueData', JSON.stringify(data));
     if (isSupabaseConfigured()) await revenueService.saveByYear(data, year);
+    await recordUpload(file, 'revenue', { year }, data.length, snapshot);
     dispatchUpdate({ type: 'revenue' });
     return { success: true, count: data.length, message: `${year}년 ${data.length}건 저장` };
   } catch (e: any) {
@@ -86,10 +251,12 @@ export async function uploadRevenue(file: File, year: number): Promise<UploadRes
 export async function uploadItemRevenue(file: File): Promise<UploadResult> {
   try {
     const csvText = await readCsvWithEncoding(file);
-    const data = parseItemRevenueCSV(csvText);
+    const data = parseItemRevenueCSV(csvText, await columnMappingService.get('itemRevenue'));
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
+    const snapshot = await captureSnapshot('itemRevenue');
     safeSetItem('dashboard_itemRevenueData', JSON.stringify(data));
     if (isSupabaseConfigured()) await itemRevenueService.saveAll(data);
+    await recordUpload(file, 'itemRevenue', {}, data.length, snapshot);
     dispatchUpdate({ type: 'itemRevenue' });
     return { success: true, count: data.length, message: `${data.length}건 저장` };
   } catch (e: any) {
@@ -103,8 +270,10 @@ export async function uploadRfq(file: File): Promise<UploadResult> {
     const csvText = await readFileAsCSVText(file);
     const data = parseRFQCSV(csvText);
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
+    const snapshot = await captureSnapshot('rfq');
     safeSetItem('dashboard_rfqData', JSON.stringify(data));
     if (isSupabaseConfigured()) await rfqService.saveAll(data);
+    await recordUpload(file, 'rfq', {}, data.length, snapshot);
     dispatchUpdate({ type: 'rfq' });
     return { success: true, count: data.length, message: `${data.length}건 저장` };
   } catch (e: any) {
@@ -118,8 +287,10 @@ export async function uploadCR(file: File, year: number): Promise<UploadResult>
     const csvText = await readFileAsCSVText(file);
     const data = parseCRCSV(csvText, year);
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
+    const snapshot = await captureSnapshot('cr', { year });
     safeSetItem('dashboard_crData', JSON.stringify(data));
     if (isSupabaseConfigured()) await crService.saveByYear(data, year);
+    await recordUpload(file, 'cr', { year }, data.length, snapshot);
     dispatchUpdate({ type: 'cr' });
     return { success: true, count: data.length, message: `${year}년 ${data.length}건 저장` };
   } catch (e: any) {
@@ -131,9 +302,12 @@ export async function uploadCR(file: File, year: number): Promise<UploadResult>
 export async function uploadPartsInbound(file: File, month: string, year: number): Promise<UploadResult> {
   try {
     const csvText = await readCsvWithEncoding(file);
-    const data = parsePartsCSV(csvText);
+    const scopeMonth = toScopeMonth(month);
+    const data = stampPurchaseScope(parsePartsCSV(csvText, await columnMappingService.get('purchaseParts')), scopeMonth, year);
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
-    if (isSupabaseConfigured()) await purchaseService.saveByMonthAndCategory(data, month, 'Parts', year);
+    const snapshot = await captureSnapshot('purchaseParts', { year, month: scopeMonth });
+    await purchaseService.saveByMonthAndCategory(data, scopeMonth, 'Parts', year);
+    await recordUpload(file, 'purchaseParts', { year, month: scopeMonth }, data.length, snapshot);
     dispatchUpdate({ type: 'purchase' });
     return { success: true, count: data.length, message: `${year}년 ${month} 부품 ${data.length}건 저장` };
   } catch (e: any) {
@@ -145,9 +319,12 @@ export async function uploadPartsInbound(file: File, month: string, year: number
 export async function uploadMaterialInbound(file: File, month: string, year: number): Promise<UploadResult> {
   try {
     const csvText = await readCsvWithEncoding(file);
-    const data = parseMaterialCSV(csvText);
+    const scopeMonth = toScopeMonth(month);
+    const data = stampPurchaseScope(parseMaterialCSV(csvText, await columnMappingService.get('purchaseMaterial')), scopeMonth, year);
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
-    if (isSupabaseConfigured()) await purchaseService.saveByMonthAndCategory(data, month, 'Material', year);
+    const snapshot = await captureSnapshot('purchaseMaterial', { year, month: scopeMonth });
+    await purchaseService.saveByMonthAndCategory(data, scopeMonth, 'Material', year);
+    await recordUpload(file, 'purchaseMaterial', { year, month: scopeMonth }, data.length, snapshot);
     dispatchUpdate({ type: 'purchase' });
     return { success: true, count: data.length, message: `${year}년 ${month} 원재료 ${data.length}건 저장` };
   } catch (e: any) {
@@ -175,6 +352,7 @@ export async function uploadBomMaster(file: File): Promise<UploadResult> {
       if (result.qualityIssues.length > 0) saves.push(dataQualityService.saveAll(result.qualityIssues));
       await Promise.all(saves);
     }
+    await recordUpload(file, 'bomMaster', {}, totalCount);
     dispatchUpdate({ type: 'bomMaster' });
     return { success: true, count: result.bom.length, message: `BOM ${result.bom.length}건 외 ${totalCount - result.bom.length}건 저장` };
   } catch (e: any) {
@@ -196,7 +374,7 @@ export async function uploadMaterialMaster(file: File): Promise<UploadResult> {
     if (isSupabaseConfigured()) {
       try { existing = await pnMappingService.getAll(); } catch { /* ignore */ }
     } else {
-      const existingRaw = localStorage.getItem('dashboard_pnMapping');
+      const existingRaw = storage.getItem('dashboard_pnMapping');
       if (existingRaw) try { existing = JSON.parse(existingRaw); } catch { /* ignore */ }
     }
     if (existing.length > 0) {
@@ -208,6 +386,7 @@ export async function uploadMaterialMaster(file: File): Promise<UploadResult> {
     // Supabase + localStorage 양쪽 저장
     if (isSupabaseConfigured()) await pnMappingService.saveAll(mappings);
     else safeSetItem('dashboard_pnMapping', JSON.stringify(mappings));
+    await recordUpload(file, 'materialMaster', {}, mappings.length);
     dispatchUpdate({ key: 'dashboard_pnMapping', data: mappings });
     return { success: true, count: mappings.length, message: `${mappings.length}건 매핑 저장` };
   } catch (e: any) {
@@ -222,6 +401,7 @@ export async function uploadStandardMix(file: File): Promise<UploadResult> {
     const data = parseStandardMixFile(buffer);
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
     if (isSupabaseConfigured()) await paintMixRatioService.saveAll(data);
+    await recordUpload(file, 'standardMix', {}, data.length);
     dispatchUpdate({ type: 'standardMix' });
     return { success: true, count: data.length, message: `${data.length}건 저장` };
   } catch (e: any) {
@@ -237,6 +417,7 @@ export async function uploadMaterialPrice(file: File): Promise<UploadResult> {
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
     if (isSupabaseConfigured()) {
       const result = await materialCodeService.updatePrices(data);
+      await recordUpload(file, 'materialPrice', {}, data.length);
       dispatchUpdate({ type: 'materialPrice' });
       return { success: true, count: data.length, message: `${result.updated}건 갱신, ${result.inserted}건 추가` };
     }
@@ -254,6 +435,7 @@ export async function uploadPaintMixLog(file: File): Promise<UploadResult> {
     const data = parsePaintMixLogFile(buffer);
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
     if (isSupabaseConfigured()) await paintMixLogService.saveAll(data);
+    await recordUpload(file, 'paintMixLog', {}, data.length);
     dispatchUpdate({ type: 'paintMixLog' });
     return { success: true, count: data.length, message: `${data.length}건 저장` };
   } catch (e: any) {
@@ -323,9 +505,8 @@ function parseInvNumeric(value: string): number {
   return isNaN(num) ? 0 : num;
 }
 
-function parseInventoryMaterialCSV(csvText: string): InvMaterialItem[] {
+function parseInventoryMaterialCSV(csvText: string, profile?: ColumnMappingProfile | null): InvMaterialItem[] {
   const lines = csvText.split('\n').filter(l => l.trim());
-  if (lines.length < 2) return [];
   const result: InvMaterialItem[] = [];
   for (let i = 1; i < lines.length; i++) {
     const values = parseInvCSVLine(lines[i]);
@@ -343,7 +524,14 @@ function parseInventoryMaterialCSV(csvText: string): InvMaterialItem[] {
       qty,
     });
   }
-  return result;
+  return withMappingFallback(result, csvText, profile, (row, i) => (row.code ? {
+    id: `mat-map-${i}`,
+    code: row.code,
+    name: row.name || '',
+    unit: row.unit || 'Kg',
+    location: row.location || '',
+    qty: parseInvNumeric(row.qty),
+  } : null));
 }
 
 function invFindCol(headers: string[], keywords: string[]): number {
@@ -356,10 +544,26 @@ function invFindCol(headers: string[], keywords: string[]): number {
   return -1;
 }
 
-function parseInventoryPartsCSV(csvText: string): InvPartsItem[] {
+function fromMappedInvParts(row: Record<string, string>, i: number): InvPartsItem | null {
+  if (!row.code) return null;
+  return {
+    id: `parts-map-${i}`,
+    itemType: row.itemType || undefined,
+    code: row.code, customerPN: row.customerPN || undefined,
+    name: row.name || '', spec: row.spec || undefined,
+    unit: row.unit || 'EA', model: row.model || undefined,
+    status: row.status || undefined, location: row.location || '',
+    storageLocation: row.storageLocation || undefined,
+    qty: parseInvNumeric(row.qty),
+    unitPrice: row.unitPrice ? parseInvNumeric(row.unitPrice) : undefined,
+    amount: row.amount ? parseInvNumeric(row.amount) : undefined,
+  };
+}
+
+function parseInventoryPartsCSV(csvText: string, profile?: ColumnMappingProfile | null): InvPartsItem[] {
   const cleanText = csvText.replace(/^\uFEFF/, '');
   const lines = cleanText.split('\n').filter(l => l.trim());
-  if (lines.length < 2) return [];
+  if (lines.length < 2) return withMappingFallback([], csvText, profile, fromMappedInvParts);
   const headerValues = parseInvCSVLine(lines[0].replace(/^\uFEFF/, ''));
   const colItemTypeFirst = invFindCol(headerValues, ['품목유형', '품목 유형', '유형']);
   const hasItemType = colItemTypeFirst >= 0;
@@ -417,27 +621,35 @@ function parseInventoryPartsCSV(csvText: string): InvPartsItem[] {
       qty: parseInvNumeric(qtyRaw),
     });
   }
-  return result;
+  return withMappingFallback(result, csvText, profile, fromMappedInvParts);
 }
 
+const INVENTORY_DATASET: Record<'resin' | 'paint' | 'parts', MappingDataset> = {
+  resin: 'inventoryResin',
+  paint: 'inventoryPaint',
+  parts: 'inventoryParts',
+};
+
 async function uploadInventoryByType(file: File, type: 'resin' | 'paint' | 'parts'): Promise<UploadResult> {
   try {
     const csvText = await readCsvWithEncoding(file);
     let count: number;
+    const snapshot = await captureSnapshot(INVENTORY_DATASET[type]);
 
     // 기존 재고 데이터 로드
-    const existingRaw = localStorage.getItem('dashboard_inventory_v2');
+    const existingRaw = storage.getItem('dashboard_inventory_v2');
     const inventoryData = existingRaw
       ? JSON.parse(existingRaw)
       : { resin: [], paint: [], parts: [] };
 
+    const profile = await columnMappingService.get(INVENTORY_DATASET[type]);
     if (type === 'parts') {
-      const data = parseInventoryPartsCSV(csvText);
+      const data = parseInventoryPartsCSV(csvText, profile);
       if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
       inventoryData.parts = data;
       count = data.length;
     } else {
-      const data = parseInventoryMaterialCSV(csvText);
+      const data = parseInventoryMaterialCSV(csvText, profile);
       if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
       inventoryData[type] = data;
       count = data.length;
@@ -445,6 +657,7 @@ async function uploadInventoryByType(file: File, type: 'resin' | 'paint' | 'part
 
     safeSetItem('dashboard_inventory_v2', JSON.stringify(inventoryData));
     if (isSupabaseConfigured()) await inventoryService.saveInventoryV2(inventoryData);
+    await recordUpload(file, INVENTORY_DATASET[type], {}, count, snapshot);
     dispatchUpdate({ type: 'inventory' });
     return { success: true, count, message: `${count}건 저장` };
   } catch (e: any) {
@@ -495,6 +708,7 @@ export async function uploadManufacturingCost(file: File): Promise<UploadResult>
       safeSetItem('dashboard_purchasePriceMaster', JSON.stringify(data.purchasePrices));
     }
 
+    await recordUpload(file, 'manufacturingCost', {}, totalCount);
     dispatchUpdate({ type: 'manufacturing-cost' });
     const msg = `BOM ${data.bomRecords.length}건, 기준정보 ${data.refInfo.length}건, 단가 ${data.purchasePrices.length}건, 재질코드 ${data.materialCodes.length}건, 배합 ${data.paintMixRatios.length}건`;
     return { success: true, count: totalCount, message: msg };
@@ -507,10 +721,12 @@ export async function uploadManufacturingCost(file: File): Promise<UploadResult>
 export async function uploadSupplier(file: File): Promise<UploadResult> {
   try {
     const csvText = await readCsvWithEncoding(file);
-    const data = parseSupplierCSV(csvText);
+    const data = parseSupplierCSV(csvText, await columnMappingService.get('supplier'));
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
+    const snapshot = await captureSnapshot('supplier');
     safeSetItem('dashboard_supplierData', JSON.stringify(data));
     if (isSupabaseConfigured()) await supplierService.saveAll(data);
+    await recordUpload(file, 'supplier', {}, data.length, snapshot);
     dispatchUpdate({ type: 'supplier' });
     return { success: true, count: data.length, message: `${data.length}건 저장` };
   } catch (e: any) {
@@ -534,6 +750,7 @@ export async function uploadMesProductInfo(file: File): Promise<UploadResult> {
     if (isSupabaseConfigured()) {
       syncCount = await referenceInfoService.syncWeightFromProductInfo(data);
     }
+    await recordUpload(file, 'mesProductInfo', {}, data.length);
     dispatchUpdate({ type: 'mesProductInfo' });
     return { success: true, count: data.length, message: `${data.length}건 저장` + (syncCount > 0 ? ` (${syncCount}건 중량정보 동기화)` : '') };
   } catch (e: any) {
@@ -549,6 +766,7 @@ export async function uploadMesMaterialCode(file: File): Promise<UploadResult> {
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
     if (isSupabaseConfigured()) await materialCodeService.saveAll(data);
     else safeSetItem('dashboard_materialCodeMaster', JSON.stringify(data));
+    await recordUpload(file, 'mesMaterialCode', {}, data.length);
     dispatchUpdate({ type: 'mesMaterialCode' });
     return { success: true, count: data.length, message: `${data.length}건 저장` };
   } catch (e: any) {
@@ -564,8 +782,12 @@ export async function uploadMesPurchasePrice(file: File): Promise<UploadResult>
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
     if (isSupabaseConfigured()) await purchasePriceService.saveAll(data);
     else safeSetItem('dashboard_purchasePriceMaster', JSON.stringify(data));
+    await recordUpload(file, 'mesPurchasePrice', {}, data.length);
+    // 전월단가 대비 인하 품목 → CI 후보
+    const candidates = await ciSavingsService.addPriceChangeCandidates(data);
     dispatchUpdate({ type: 'mesPurchasePrice' });
-    return { success: true, count: data.length, message: `${data.length}건 저장` };
+    const ciNote = candidates.length > 0 ? ` (CI 후보 ${candidates.length}건 생성)` : '';
+    return { success: true, count: data.length, message: `${data.length}건 저장${ciNote}` };
   } catch (e: any) {
     return { success: false, count: 0, message: e.message || '업로드 실패' };
   }
@@ -579,6 +801,7 @@ export async function uploadMesMaterialPrice(file: File): Promise<UploadResult>
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
     if (isSupabaseConfigured()) {
       const result = await materialCodeService.updatePrices(data);
+      await recordUpload(file, 'mesMaterialPrice', {}, data.length);
       dispatchUpdate({ type: 'mesMaterialPrice' });
       return { success: true, count: data.length, message: `${result.updated}건 갱신, ${result.inserted}건 추가` };
     }
@@ -597,6 +820,7 @@ export async function uploadMesPaintMixRatio(file: File): Promise<UploadResult>
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
     if (isSupabaseConfigured()) await paintMixRatioService.saveAll(data);
     else safeSetItem('dashboard_paintMixRatioMaster', JSON.stringify(data));
+    await recordUpload(file, 'mesPaintMixRatio', {}, data.length);
     dispatchUpdate({ type: 'mesPaintMixRatio' });
     return { success: true, count: data.length, message: `${data.length}건 저장` };
   } catch (e: any) {
@@ -612,9 +836,179 @@ export async function uploadMesOutsourcePrice(file: File): Promise<UploadResult>
     if (data.length === 0) return { success: false, count: 0, message: '파싱 결과 없음' };
     if (isSupabaseConfigured()) await outsourceInjPriceService.saveAll(data);
     else safeSetItem('dashboard_outsourceInjPrice', JSON.stringify(data));
+    await recordUpload(file, 'mesOutsourcePrice', {}, data.length);
     dispatchUpdate({ type: 'mesOutsourcePrice' });
     return { success: true, count: data.length, message: `${data.length}건 저장` };
   } catch (e: any) {
     return { success: false, count: 0, message: e.message || '업로드 실패' };
   }
 }
+
+// ============================================================
+// 업로드 롤백 (관리자 업로드 이력 화면용)
+// ============================================================
+
+/** 업로드 이전 상태로 복원 — 스냅샷으로 해당 데이터셋/연월 범위를 교체하고 기록을 롤백 처리 */
+export async function rollbackUpload(entry: UploadLedgerEntry): Promise<UploadResult> {
+  const target = ROLLBACK_TARGETS[entry.dataset];
+  if (!target || !entry.snapshot) return { success: false, count: 0, message: '롤백을 지원하지 않는 업로드입니다' };
+  if (entry.status === 'rolledBack') return { success: false, count: 0, message: '이미 롤백된 업로드입니다' };
+  try {
+    await target.restore(entry.snapshot, entry.scope);
+    await uploadLedgerService.upsertOne({
+      ...entry,
+      status: 'rolledBack',
+      rolledBackAt: new Date().toISOString(),
+      rolledBackBy: await resolveEditor(),
+    });
+    dispatchUpdate({ type: 'rollback', dataset: entry.dataset });
+    return { success: true, count: entry.snapshot.length, message: `${entry.snapshot.length}건으로 복원` };
+  } catch (e: any) {
+    return { success: false, count: 0, message: e.message || '롤백 실패' };
+  }
+}
+
+// ============================================================
+// 업로드 미리보기 (저장 전 검증 · 기존 데이터 비교)
+// ============================================================
+
+type PreviewParser = (
+  file: File,
+  scope: UploadScope,
+  profile: ColumnMappingProfile | null,
+) => Promise<{ text: string | null; records: any[]; mappedBy: ColumnMappingProfile | null }>;
+
+type CsvPreviewParse = (text: string, scope: UploadScope, profile: ColumnMappingProfile | null) => any[];
+
+/** mappedBy: 자동 인식에 실패해 컬럼 매핑 프로필로 읽은 경우 그 프로필 */
+const csvPreview = (read: (file: File) => Promise<string>, parse: CsvPreviewParse): PreviewParser =>
+  async (file, scope, profile) => {
+    const text = await read(file);
+    const mapped = profile !== null && needsMappingFallback(profile.dataset, parse(text, scope, null));
+    return { text, records: parse(text, scope, profile), mappedBy: mapped ? profile : null };
+  };
+
+const xlsPreview = (parse: (buffer: ArrayBuffer) => any[]): PreviewParser =>
+  async (file) => ({ text: null, records: parse(await readFileAsArrayBuffer(file)), mappedBy: null });
+
+/** 업로드 핸들러와 같은 리더·파서 사용 */
+const PREVIEW_PARSERS: Partial<Record<UploadDataset, PreviewParser>> = {
+  sales: csvPreview(readFileAsCSVText, text => parseSalesCSV(text)),
+  revenue: csvPreview(readFileAsCSVText, (text, { year }, profile) => parseRevenueCSV(text, year!, profile)),
+  itemRevenue: csvPreview(readCsvWithEncoding, (text, _scope, profile) => parseItemRevenueCSV(text, profile)),
+  rfq: csvPreview(readFileAsCSVText, text => parseRFQCSV(text)),
+  cr: csvPreview(readFileAsCSVText, (text, { year }) => parseCRCSV(text, year!)),
+  purchaseParts: csvPreview(readCsvWithEncoding, (text, { year, month }, profile) => stampPurchaseScope(parsePartsCSV(text, profile), month!, year!)),
+  purchaseMaterial: csvPreview(readCsvWithEncoding, (text, { year, month }, profile) => stampPurchaseScope(parseMaterialCSV(text, profile), month!, year!)),
+  inventoryResin: csvPreview(readCsvWithEncoding, (text, _scope, profile) => parseInventoryMaterialCSV(text, profile)),
+  inventoryPaint: csvPreview(readCsvWithEncoding, (text, _scope, profile) => parseInventoryMaterialCSV(text, profile)),
+  inventoryParts: csvPreview(readCsvWithEncoding, (text, _scope, profile) => parseInventoryPartsCSV(text, profile)),
+  supplier: csvPreview(readCsvWithEncoding, (text, _scope, profile) => parseSupplierCSV(text, profile)),
+  bomMaster: xlsPreview(buffer => parseBomMasterExcel(buffer).bom),
+  materialMaster: xlsPreview(buffer => {
+    const mappings = parseMaterialMasterExcel(buffer);
+    return mappings.length > 0 ? mappings : parsePnMappingFromExcel(buffer);
+  }),
+  standardMix: xlsPreview(buffer => parseStandardMixFile(buffer)),
+  materialPrice: xlsPreview(buffer => parseMaterialPriceFile(buffer)),
+  paintMixLog: xlsPreview(buffer => parsePaintMixLogFile(buffer)),
+};
+
+interface DiffSpec {
+  key: (r: any) => string;
+  fields: string[];
+  flatten?: (rows: any[]) => any[];
+}
+
+const inventoryDiff: DiffSpec = { key: r => `${r.code}|${r.location}`, fields: ['qty'] };
+const purchaseDiff: DiffSpec = { key: r => `${r.date}|${r.itemCode}|${r.supplier}`, fields: ['qty', 'unitPrice', 'amount'] };
+
+/** 교체형 업로드의 비교 키 — 롤백 대상(ROLLBACK_TARGETS)과 동일한 범위의 기존 데이터와 비교 */
+const DIFF_SPECS: Partial<Record<UploadDataset, DiffSpec>> = {
+  sales: {
+    key: r => `${r.customer}|${r.partNo}|${r.model}`,
+    fields: ['partName', 'totalPlan', 'totalActual'],
+    flatten: rows => rows.flatMap(c => c.items || []),
+  },
+  revenue: { key: r => `${r.month}|${r.customer}|${r.model}`, fields: ['qty', 'amount'] },
+  itemRevenue: { key: r => `${r.period}|${r.customer}|${r.partNo}`, fields: ['model', 'customerPN', 'partName', 'qty', 'amount'] },
+  rfq: {
+    key: r => `${r.customer}|${r.projectName}|${r.model}|${r.process}`,
+    fields: ['status', 'dateSelection', 'dateQuotation', 'datePO', 'qty', 'unitPrice', 'amount'],
+  },
+  cr: { key: r => r.month, fields: ['totalSales', 'lgSales', 'lgCR', 'lgDefense', 'mtxSales', 'mtxCR', 'mtxDefense'] },
+  purchaseParts: purchaseDiff,
+  purchaseMaterial: purchaseDiff,
+  inventoryResin: inventoryDiff,
+  inventoryPaint: inventoryDiff,
+  inventoryParts: inventoryDiff,
+  supplier: {
+    key: r => r.companyName,
+    fields: ['businessNumber', 'ceo', 'address', 'purchaseAmount2025', 'purchaseAmount2024', 'purchaseAmount2023'],
+  },
+};
+
+const PREVIEW_SAMPLE_SIZE = 5;
+
+/** 저장하지 않고 파싱·검증·비교 결과만 반환 — 확인 후 같은 파일로 해당 업로드 핸들러 호출 */
+export async function previewUpload(dataset: UploadDataset, file: File, scope: UploadScope = {}): Promise<UploadPreview> {
+  const parser = PREVIEW_PARSERS[dataset];
+  if (!parser) throw new Error('미리보기를 지원하지 않는 업로드입니다');
+  const normalizedScope = scope.month ? { ...scope, month: toScopeMonth(scope.month) } : scope;
+
+  const profile = isMappingDataset(dataset) ? await columnMappingService.get(dataset) : null;
+  const { text, records, mappedBy } = await parser(file, normalizedScope, profile);
+  const issues: PreviewIssue[] = [];
+  let columns: string[] = [];
+  let rawRowCount: number | null = null;
+
+  // 프로필로 읽었으면 고정 컬럼 위치 대신 프로필 헤더 기준으로 검사
+  const layout = mappedBy ? profileLayout(mappedBy) : CSV_LAYOUTS[dataset];
+  if (mappedBy) {
+    issues.push({ level: 'warning', message: '자동 인식 실패 — 저장된 컬럼 매핑 프로필로 읽었습니다' });
+  }
+  if (text !== null && layout) {
+    const rows = splitCsvRows(text);
+    const checked = validateCsvLayout(mappedBy ? rows.slice(mappedBy.headerRow) : rows, layout, normalizedScope);
+    columns = checked.columns;
+    rawRowCount = checked.rawRowCount;
+    issues.push(...checked.issues);
+  } else if (text !== null) {
+    columns = (splitCsvRows(text)[0] || []).filter(h => h !== '');
+  }
+
+  const diffSpec = DIFF_SPECS[dataset];
+  const flat = diffSpec?.flatten ? diffSpec.flatten(records) : records;
+  if (columns.length === 0 && flat.length > 0) columns = Object.keys(flat[0]).filter(k => k !== 'id');
+  if (records.length === 0) issues.unshift({ level: 'error', message: '파싱 결과 없음 — 파일 형식을 확인하세요' });
+
+  let diff: PreviewDiff | null = null;
+  const target = ROLLBACK_TARGETS[dataset];
+  if (diffSpec && target) {
+    try {
+      const existing = await target.load(normalizedScope);
+      const existingFlat = diffSpec.flatten ? diffSpec.flatten(existing) : existing;
+      diff = diffRecords(flat, existingFlat, diffSpec.key, diffSpec.fields);
+    } catch (e) {
+      console.warn(`미리보기 기존 데이터 조회 실패 (${dataset}):`, e);
+      issues.push({ level: 'warning', message: '기존 데이터를 불러오지 못해 비교를 건너뜁니다' });
+    }
+  }
+
+  const sample = flat.slice(0, PREVIEW_SAMPLE_SIZE).map(r => {
+    const { id: _id, ...rest } = r as Record<string, unknown>;
+    return rest;
+  });
+
+  return {
+    dataset,
+    scope: normalizedScope,
+    fileName: file.name,
+    columns,
+    sample,
+    recordCount: flat.length,
+    rawRowCount,
+    issues,
+    diff,
+  };
+}
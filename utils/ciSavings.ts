@@ -0,0 +1,260 @@
+/**
+ * ciSavings — 협력사 CI(단가인하) 약정 ↔ 구매단가 ↔ 입고실적 연결
+ *
+ * 약정(CiCommitment)은 품목/협력사별 기준단가 → 인하단가와 적용일을 가진다.
+ *  - 구매단가 마스터에서 현재단가 < 전월단가인 품목은 CI 후보로 자동 생성
+ *  - CI 상세(CIDetailItem)는 품번으로 PurchasePrice에 연결해 협력사를 찾고 약정으로 등록
+ * 협력사별 절감 원장은 적용일 이후 입고(PurchaseItem) 수량으로 약정 대비 실현 절감을 집계한다.
+ */
+import type { PurchasePrice } from './standardMaterialParser';
+import type { PurchaseItem } from './purchaseDataParser';
+import type { CIDetailItem } from './ciDataParser';
+import { normalizePn } from './bomDataParser';
+
+// ============================================
+// Types
+// ============================================
+
+export type CiCommitmentStatus = 'candidate' | 'committed' | 'rejected';
+export type CiCommitmentSource = 'priceChange' | 'ciUpload';
+
+export const CI_SOURCE_LABEL: Record<CiCommitmentSource, string> = {
+  priceChange: '단가 변경',
+  ciUpload: 'CI 상세',
+};
+
+export interface CiCommitment {
+  id: string;
+  supplier: string;
+  itemCode: string;
+  customerPn?: string;
+  itemName: string;
+  basePrice: number;          // 인하 전 단가
+  newPrice: number;           // 인하 단가
+  effectiveFrom: string;      // 적용일 YYYY-MM-DD
+  status: CiCommitmentStatus;
+  source: CiCommitmentSource;
+  note?: string;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+export interface CiLinkRow {
+  month: number;              // 1~12
+  detail: CIDetailItem;
+  price: PurchasePrice | null;
+  masterGap: number;          // 구매단가 마스터 현재단가 - CI 현단가 (0 = 일치)
+}
+
+export interface SavingsLine {
+  commitment: CiCommitment;
+  unitSaving: number;         // 기준단가 - 인하단가
+  baselineQty: number;        // 적용일 이전 12개월 입고수량 (연간 약정 기준)
+  committedAnnual: number;    // unitSaving × baselineQty
+  inboundQty: number;         // 적용일 이후 입고수량
+  committedToDate: number;    // unitSaving × inboundQty
+  realisedToDate: number;     // Σ(기준단가 - 실제 입고단가) × 수량
+  lastPaidPrice: number | null;
+}
+
+export interface SupplierSavingsRow {
+  supplier: string;
+  lines: SavingsLine[];
+  committedAnnual: number;
+  committedToDate: number;
+  realisedToDate: number;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const norm = (s: string) => (s || '').trim().toUpperCase();
+
+const pnKeys = (...pns: (string | undefined)[]) =>
+  pns.map(pn => normalizePn(pn || '')).filter(Boolean);
+
+/** 같은 단가 변경을 중복 후보로 만들지 않기 위한 키 */
+const changeKey = (c: Pick<CiCommitment, 'itemCode' | 'supplier' | 'basePrice' | 'newPrice'>) =>
+  `${normalizePn(c.itemCode)}|${norm(c.supplier)}|${c.basePrice}|${c.newPrice}`;
+
+const monthStart = (d = new Date()) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-01`;
+
+/** 입고일 (date 우선, 없으면 year + 'MM월') */
+const inboundDate = (p: PurchaseItem): string => {
+  if (p.date && /^\d{4}-\d{2}-\d{2}/.test(p.date)) return p.date.slice(0, 10);
+  const m = parseInt((p.month || '').replace(/[^0-9]/g, ''), 10);
+  return p.year && m >= 1 && m <= 12 ? `${p.year}-${String(m).padStart(2, '0')}-01` : '';
+};
+
+const shiftYear = (date: string, years: number) => `${Number(date.slice(0, 4)) + years}${date.slice(4)}`;
+
+export const newCommitmentId = () => `ci_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// ============================================
+// Candidates & Linking
+// ============================================
+
+/**
+ * 구매단가 마스터의 인하(현재단가 < 전월단가) 품목 중 아직 약정/후보로 등록되지 않은 건을 후보로 생성.
+ * 제외(rejected) 처리된 동일 변경도 다시 만들지 않는다.
+ */
+export function derivePriceChangeCandidates(prices: PurchasePrice[], existing: CiCommitment[], editor?: string): CiCommitment[] {
+  const known = new Set(existing.map(changeKey));
+  const now = new Date().toISOString();
+  const candidates: CiCommitment[] = [];
+  for (const p of prices) {
+    if (!(p.currentPrice > 0) || !(p.previousPrice > p.currentPrice)) continue;
+    const candidate: CiCommitment = {
+      id: newCommitmentId(),
+      supplier: p.supplier,
+      itemCode: p.itemCode,
+      customerPn: p.customerPn || undefined,
+      itemName: p.itemName,
+      basePrice: p.previousPrice,
+      newPrice: p.currentPrice,
+      effectiveFrom: monthStart(),
+      status: 'candidate',
+      source: 'priceChange',
+      createdAt: now,
+      updatedAt: now,
+      updatedBy: editor,
+    };
+    const key = changeKey(candidate);
+    if (known.has(key)) continue;
+    known.add(key);
+    candidates.push(candidate);
+  }
+  return candidates;
+}
+
+/** CI 상세 품목 → 구매단가 마스터 연결 (품번/부품코드 ↔ 품목코드/고객사 P/N) */
+export function linkCiDetails(ciDetailsByMonth: Record<number, CIDetailItem[]>, prices: PurchasePrice[]): CiLinkRow[] {
+  const index = new Map<string, PurchasePrice>();
+  for (const p of prices) {
+    for (const key of pnKeys(p.itemCode, p.customerPn)) {
+      if (!index.has(key)) index.set(key, p);
+    }
+  }
+  const rows: CiLinkRow[] = [];
+  for (const [month, details] of Object.entries(ciDetailsByMonth)) {
+    for (const detail of details || []) {
+      const key = pnKeys(detail.partNumber, detail.partCode).find(k => index.has(k));
+      const price = key ? index.get(key)! : null;
+      rows.push({
+        month: Number(month),
+        detail,
+        price,
+        masterGap: price && price.currentPrice > 0 ? price.currentPrice - detail.currentPrice : 0,
+      });
+    }
+  }
+  return rows.sort((a, b) => a.month - b.month || b.detail.ciAmount - a.detail.ciAmount);
+}
+
+/** 연결된 CI 상세 품목 → 약정 (적용일 = CI 해당 월 1일) */
+export function commitmentFromCi(link: CiLinkRow, year: number, editor?: string): CiCommitment | null {
+  const { detail, price } = link;
+  if (!price || !(detail.basePrice > detail.currentPrice)) return null;
+  const now = new Date().toISOString();
+  return {
+    id: newCommitmentId(),
+    supplier: price.supplier,
+    itemCode: price.itemCode,
+    customerPn: price.customerPn || undefined,
+    itemName: price.itemName || detail.partName,
+    basePrice: detail.basePrice,
+    newPrice: detail.currentPrice,
+    effectiveFrom: `${year}-${String(link.month).padStart(2, '0')}-01`,
+    status: 'committed',
+    source: 'ciUpload',
+    createdAt: now,
+    updatedAt: now,
+    updatedBy: editor,
+  };
+}
+
+/** 이미 약정/후보로 등록된 CI 상세인지 */
+export const isCiLinked = (link: CiLinkRow, existing: CiCommitment[]) =>
+  !!link.price && existing.some(c => changeKey(c) === changeKey({
+    itemCode: link.price!.itemCode,
+    supplier: link.price!.supplier,
+    basePrice: link.detail.basePrice,
+    newPrice: link.detail.currentPrice,
+  }));
+
+// ============================================
+// Ledger
+// ============================================
+
+/**
+ * 협력사별 절감 원장 (확정 약정만).
+ * 입고 품목은 품목코드/고객사 P/N으로 매칭하고, 입고 협력사가 있으면 약정 협력사와 같아야 한다.
+ */
+export function buildSavingsLedger(commitments: CiCommitment[], purchases: PurchaseItem[]): SupplierSavingsRow[] {
+  const byPn = new Map<string, PurchaseItem[]>();
+  for (const p of purchases) {
+    for (const key of new Set(pnKeys(p.itemCode, p.customerPn))) {
+      const list = byPn.get(key) || [];
+      list.push(p);
+      byPn.set(key, list);
+    }
+  }
+
+  const suppliers = new Map<string, SupplierSavingsRow>();
+  for (const c of commitments) {
+    if (c.status !== 'committed') continue;
+    const seen = new Set<PurchaseItem>();
+    const rows: PurchaseItem[] = [];
+    for (const key of pnKeys(c.itemCode, c.customerPn)) {
+      for (const p of byPn.get(key) || []) {
+        if (seen.has(p)) continue;
+        seen.add(p);
+        if (p.supplier && c.supplier && norm(p.supplier) !== norm(c.supplier)) continue;
+        rows.push(p);
+      }
+    }
+
+    const unitSaving = c.basePrice - c.newPrice;
+    const baselineFrom = shiftYear(c.effectiveFrom, -1);
+    let baselineQty = 0;
+    let inboundQty = 0;
+    let realisedToDate = 0;
+    let lastPaid: { date: string; price: number } | null = null;
+    for (const p of rows) {
+      const date = inboundDate(p);
+      if (!date) continue;
+      if (date >= baselineFrom && date < c.effectiveFrom) baselineQty += p.qty || 0;
+      if (date < c.effectiveFrom) continue;
+      const paid = p.unitPrice > 0 ? p.unitPrice : (p.qty ? p.amount / p.qty : c.basePrice);
+      inboundQty += p.qty || 0;
+      realisedToDate += (c.basePrice - paid) * (p.qty || 0);
+      if (!lastPaid || date >= lastPaid.date) lastPaid = { date, price: paid };
+    }
+
+    const line: SavingsLine = {
+      commitment: c,
+      unitSaving,
+      baselineQty,
+      committedAnnual: unitSaving * baselineQty,
+      inboundQty,
+      committedToDate: unitSaving * inboundQty,
+      realisedToDate,
+      lastPaidPrice: lastPaid ? lastPaid.price : null,
+    };
+
+    const sk = norm(c.supplier) || '(미지정)';
+    const row = suppliers.get(sk) || { supplier: c.supplier || '(미지정)', lines: [], committedAnnual: 0, committedToDate: 0, realisedToDate: 0 };
+    row.lines.push(line);
+    row.committedAnnual += line.committedAnnual;
+    row.committedToDate += line.committedToDate;
+    row.realisedToDate += line.realisedToDate;
+    suppliers.set(sk, row);
+  }
+
+  const result = Array.from(suppliers.values());
+  result.forEach(r => r.lines.sort((a, b) => b.committedAnnual - a.committedAnnual));
+  return result.sort((a, b) => b.committedAnnual - a.committedAnnual);
+}
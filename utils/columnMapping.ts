@@ -0,0 +1,201 @@
+/**
+ * columnMapping — CSV/Excel 업로드 컬럼 매핑 프로필
+ *
+ * 파서는 고정 컬럼 위치(또는 헤더 키워드)로 먼저 자동 인식하고, 인식에 실패하면
+ * (파싱 결과 없음 / 필수 값 대부분 비정상) 업로더별로 저장된 프로필로 다시 읽는다.
+ * 프로필은 "원본 헤더명 → 대상 필드"(PurchaseItem, RevenueItem, InventoryItem 등) 대응표다.
+ */
+import type { UploadDataset } from './uploadLedger';
+import { splitCsvRows, parseDateCell, parseMonthCell } from './uploadPreview';
+import type { CsvColumnKind, CsvLayout } from './uploadPreview';
+
+// ============================================
+// Types
+// ============================================
+
+export type MappingDataset = Extract<
+  UploadDataset,
+  'purchaseParts' | 'purchaseMaterial' | 'revenue' | 'itemRevenue' | 'inventoryResin' | 'inventoryPaint' | 'inventoryParts' | 'supplier'
+>;
+
+export interface MappingField {
+  key: string;
+  label: string;
+  kind: CsvColumnKind;
+  required?: boolean;
+}
+
+export interface ColumnMappingProfile {
+  dataset: MappingDataset;
+  headerRow: number;                      // 헤더 행 index (0부터)
+  columns: Record<string, string>;        // 대상 필드 key → 원본 헤더명
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+// ============================================
+// Target fields
+// ============================================
+
+const purchaseFields: MappingField[] = [
+  { key: 'date', label: '입고일자', kind: 'date', required: true },
+  { key: 'supplier', label: '발주처', kind: 'text', required: true },
+  { key: 'type', label: '자재유형', kind: 'text' },
+  { key: 'itemCode', label: '품목코드', kind: 'text', required: true },
+  { key: 'customerPn', label: '고객사 P/N', kind: 'text' },
+  { key: 'itemName', label: '품목명', kind: 'text' },
+  { key: 'spec', label: '규격', kind: 'text' },
+  { key: 'unit', label: '단위', kind: 'text' },
+  { key: 'qty', label: '입고수량', kind: 'number', required: true },
+  { key: 'unitPrice', label: '단가', kind: 'number' },
+  { key: 'amount', label: '금액', kind: 'number' },
+];
+
+const inventoryMaterialFields: MappingField[] = [
+  { key: 'code', label: '코드', kind: 'text', required: true },
+  { key: 'name', label: '품명', kind: 'text' },
+  { key: 'unit', label: '단위', kind: 'text' },
+  { key: 'location', label: '창고명', kind: 'text' },
+  { key: 'qty', label: '재고', kind: 'number', required: true },
+];
+
+export const MAPPING_TARGETS: Record<MappingDataset, { label: string; fields: MappingField[] }> = {
+  purchaseParts: { label: '부품 입고 (PurchaseItem)', fields: purchaseFields },
+  purchaseMaterial: { label: '원재료 입고 (PurchaseItem)', fields: purchaseFields },
+  revenue: {
+    label: '매출 (RevenueItem)',
+    fields: [
+      { key: 'month', label: '월', kind: 'month', required: true },
+      { key: 'customer', label: '고객사', kind: 'text', required: true },
+      { key: 'model', label: '차종', kind: 'text' },
+      { key: 'qty', label: '수량', kind: 'number' },
+      { key: 'amount', label: '금액', kind: 'number', required: true },
+    ],
+  },
+  itemRevenue: {
+    label: '품목별 매출 (ItemRevenueRow)',
+    fields: [
+      { key: 'period', label: '매출기간', kind: 'text', required: true },
+      { key: 'customer', label: '고객사', kind: 'text', required: true },
+      { key: 'model', label: '품종', kind: 'text' },
+      { key: 'partNo', label: '품번', kind: 'text', required: true },
+      { key: 'customerPN', label: '고객사 P/N', kind: 'text' },
+      { key: 'partName', label: '품명', kind: 'text' },
+      { key: 'qty', label: '매출수량', kind: 'number' },
+      { key: 'amount', label: '매출금액', kind: 'number', required: true },
+    ],
+  },
+  inventoryResin: { label: '수지 재고 (InventoryItem)', fields: inventoryMaterialFields },
+  inventoryPaint: { label: '도료 재고 (InventoryItem)', fields: inventoryMaterialFields },
+  inventoryParts: {
+    label: '부품 재고 (InventoryItem)',
+    fields: [
+      { key: 'itemType', label: '품목유형', kind: 'text' },
+      { key: 'code', label: '품목코드', kind: 'text', required: true },
+      { key: 'customerPN', label: '고객사 P/N', kind: 'text' },
+      { key: 'name', label: '품목명', kind: 'text' },
+      { key: 'spec', label: '규격', kind: 'text' },
+      { key: 'unit', label: '단위', kind: 'text' },
+      { key: 'model', label: '차종명', kind: 'text' },
+      { key: 'status', label: '품목상태', kind: 'text' },
+      { key: 'location', label: '창고명', kind: 'text' },
+      { key: 'storageLocation', label: '재고위치', kind: 'text' },
+      { key: 'qty', label: '재고', kind: 'number', required: true },
+      { key: 'unitPrice', label: '단가', kind: 'number' },
+      { key: 'amount', label: '금액', kind: 'number' },
+    ],
+  },
+  supplier: {
+    label: '협력사 (SupplierItem)',
+    fields: [
+      { key: 'companyName', label: '거래처명', kind: 'text', required: true },
+      { key: 'businessNumber', label: '사업자등록번호', kind: 'text' },
+      { key: 'ceo', label: '대표이사', kind: 'text' },
+      { key: 'address', label: '주소', kind: 'text' },
+      { key: 'purchaseAmount2025', label: '매입액 2025', kind: 'number' },
+      { key: 'purchaseAmount2024', label: '매입액 2024', kind: 'number' },
+      { key: 'purchaseAmount2023', label: '매입액 2023', kind: 'number' },
+    ],
+  },
+};
+
+export const isMappingDataset = (dataset: UploadDataset): dataset is MappingDataset => dataset in MAPPING_TARGETS;
+
+// ============================================
+// Helpers
+// ============================================
+
+const normalizeHeader = (h: string) => h.replace(/\s/g, '').toLowerCase();
+
+/** 원본 헤더명 → 컬럼 index (정확히 일치 우선, 없으면 포함 관계) */
+export function findHeaderIndex(headers: string[], source: string): number {
+  const target = normalizeHeader(source);
+  if (!target) return -1;
+  const normalized = headers.map(normalizeHeader);
+  const exact = normalized.indexOf(target);
+  return exact >= 0 ? exact : normalized.findIndex(h => h !== '' && (h.includes(target) || target.includes(h)));
+}
+
+/** 헤더 행 후보 (매핑 화면에서 헤더 행 선택용) */
+export function readHeaderCandidates(text: string, maxRows = 10): string[][] {
+  return splitCsvRows(text).slice(0, maxRows);
+}
+
+/** 프로필로 각 데이터 행을 { 대상 필드: 원본 값 } 으로 변환 (필수 필드 값이 모두 빈 행 제외) */
+export function mapRowsWithProfile(text: string, profile: ColumnMappingProfile): Record<string, string>[] {
+  const rows = splitCsvRows(text);
+  const header = rows[profile.headerRow] || [];
+  const indexOf = Object.entries(profile.columns)
+    .map(([field, source]) => [field, findHeaderIndex(header, source)] as const)
+    .filter(([, idx]) => idx >= 0);
+  const required = (MAPPING_TARGETS[profile.dataset]?.fields || []).filter(f => f.required).map(f => f.key);
+
+  return rows.slice(profile.headerRow + 1)
+    .map(cells => Object.fromEntries(indexOf.map(([field, idx]) => [field, (cells[idx] ?? '').trim()])))
+    .filter(r => required.length === 0 || required.some(k => r[k]));
+}
+
+/** 파싱된 레코드가 대상 필드 기준으로 정상인지 (필수 텍스트 값 존재, 월·일자 인식 가능) */
+const isRecordValid = (dataset: MappingDataset, record: Record<string, unknown>): boolean =>
+  MAPPING_TARGETS[dataset].fields.filter(f => f.required).every(f => {
+    const value = String(record[f.key] ?? '').trim();
+    if (f.kind === 'date') return parseDateCell(value) !== null;
+    if (f.kind === 'month') return parseMonthCell(value) !== null;
+    if (f.kind === 'text') return value !== '';
+    return true;
+  });
+
+/** 자동 인식 실패 판정: 파싱 결과가 없거나 정상 레코드가 절반 미만 */
+export function needsMappingFallback(dataset: MappingDataset, records: object[]): boolean {
+  if (records.length === 0) return true;
+  const valid = records.filter(r => isRecordValid(dataset, r as Record<string, unknown>)).length;
+  return valid < records.length / 2;
+}
+
+/**
+ * 파서 공통 fallback — 자동 인식 결과가 정상이면 그대로(같은 배열) 반환하고,
+ * 실패했고 프로필이 있으면 프로필로 매핑한 행을 toRecord로 변환해 반환
+ */
+export function withMappingFallback<T extends object>(
+  records: T[],
+  csvContent: string,
+  profile: ColumnMappingProfile | null | undefined,
+  toRecord: (row: Record<string, string>, index: number) => T | null,
+): T[] {
+  if (!profile || !needsMappingFallback(profile.dataset, records)) return records;
+  const mapped = mapRowsWithProfile(csvContent, profile)
+    .map(toRecord)
+    .filter((r): r is T => r !== null);
+  console.log(`📊 자동 인식 실패 → 컬럼 매핑 프로필 적용 (${profile.dataset}): ${mapped.length}건`);
+  return mapped;
+}
+
+/** 프로필 기준 검증 레이아웃 (미리보기용 — 헤더 행부터 자른 rows에 적용) */
+export function profileLayout(profile: ColumnMappingProfile): CsvLayout {
+  return {
+    dataStartRow: 1,
+    columns: MAPPING_TARGETS[profile.dataset].fields
+      .filter(f => profile.columns[f.key])
+      .map(f => ({ label: f.label, keywords: [profile.columns[f.key]], kind: f.kind, required: f.required })),
+  };
+}
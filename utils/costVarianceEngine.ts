@@ -0,0 +1,267 @@
+/**
+ * costVarianceEngine — 자재별/업체별 표준 대비 실적 재료비 차이 분해
+ *
+ * 표준 = BOM 전개 소요량(leafMaterials.monthlyQty) × 엔진 단가(unitPrice)
+ * 실적 = 입고 실적(PurchaseItem) 수량 × 입고 단가
+ *
+ *   총차이   = AQ·AP − SQ·SP
+ *   가격차이 = (AP − SP)·AQ
+ *   배합차이 = (AQ − AQg·s)·SP       s = SQ/SQg (동일 자재유형 내 표준 배합비)
+ *   수율차이 = (AQg − SQg)·s·SP      (소요량 차이 중 배합 외 부분)
+ *
+ * 표준이 없는 입고(BOM 미전개 자재)는 비계획 입고로 보고 전액 수율차이에 둔다.
+ */
+import { normalizePn } from './bomDataParser';
+import type { LeafMaterialRow } from './bomCostEngine';
+import type { PurchaseItem } from './purchaseDataParser';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface VarianceInboundLine {
+  date: string;
+  supplier: string;
+  itemCode: string;
+  itemName: string;
+  unit: string;
+  qty: number;
+  unitPrice: number;
+  amount: number;
+  priceVariance: number;     // (입고단가 − 표준단가) × 수량
+}
+
+export interface VarianceBreakdown {
+  stdCost: number;           // SQ·SP
+  actualCost: number;        // AQ·AP
+  priceVariance: number;
+  mixVariance: number;
+  yieldVariance: number;
+  totalVariance: number;     // actualCost − stdCost (= 가격 + 배합 + 수율)
+}
+
+export interface MaterialVarianceRow extends VarianceBreakdown {
+  materialCode: string;
+  materialName: string;
+  materialType: string;
+  unit: string;
+  hasStandard: boolean;
+  stdQty: number;
+  stdPrice: number;
+  actualQty: number;
+  actualPrice: number;       // 가중평균 입고단가
+  suppliers: string[];
+  lines: VarianceInboundLine[];
+}
+
+export interface SupplierVarianceRow extends VarianceBreakdown {
+  supplier: string;
+  actualQty: number;
+  materialCount: number;
+  lines: VarianceInboundLine[];
+}
+
+export interface TypeVarianceRow extends VarianceBreakdown {
+  materialType: string;
+}
+
+export interface CostVarianceResult {
+  materials: MaterialVarianceRow[];
+  suppliers: SupplierVarianceRow[];
+  byType: TypeVarianceRow[];
+  totals: VarianceBreakdown;
+  unplannedCount: number;    // 표준 없는 입고 자재 수
+}
+
+export interface CostVarianceParams {
+  leafMaterials: LeafMaterialRow[];
+  purchaseData: PurchaseItem[];
+  year: number;
+  month: number;             // -1 = 연간, 0~11
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const NO_INBOUND = '(미입고)';
+
+const emptyBreakdown = (): VarianceBreakdown => ({
+  stdCost: 0, actualCost: 0, priceVariance: 0, mixVariance: 0, yieldVariance: 0, totalVariance: 0,
+});
+
+function addBreakdown(target: VarianceBreakdown, src: VarianceBreakdown): void {
+  target.stdCost += src.stdCost;
+  target.actualCost += src.actualCost;
+  target.priceVariance += src.priceVariance;
+  target.mixVariance += src.mixVariance;
+  target.yieldVariance += src.yieldVariance;
+  target.totalVariance += src.totalVariance;
+}
+
+/** '01월' / '1월' → 0 */
+export function purchaseMonthIndex(month: string | undefined): number {
+  const m = parseInt((month || '').replace(/[^0-9]/g, ''));
+  return m >= 1 && m <= 12 ? m - 1 : -1;
+}
+
+// ============================================================
+// Main
+// ============================================================
+
+export function analyzeCostVariance(params: CostVarianceParams): CostVarianceResult {
+  const { leafMaterials, purchaseData, year, month } = params;
+  const inPeriod = (m: number) => month === -1 || m === month;
+
+  // 표준 (자재코드 기준)
+  const std = new Map<string, { row: LeafMaterialRow; qty: number }>();
+  for (const m of leafMaterials) {
+    const qty = month === -1 ? m.monthlyQty.reduce((s, q) => s + q, 0) : m.monthlyQty[month] || 0;
+    std.set(normalizePn(m.materialCode), { row: m, qty });
+  }
+
+  // 실적 입고 라인 → 자재 매칭 (품목코드 → 고객P/N 순)
+  const inbound = new Map<string, PurchaseItem[]>();
+  for (const p of purchaseData) {
+    if (p.year !== year || !inPeriod(purchaseMonthIndex(p.month)) || !p.qty) continue;
+    let code = normalizePn(p.itemCode);
+    if (!std.has(code) && p.customerPn && std.has(normalizePn(p.customerPn))) code = normalizePn(p.customerPn);
+    if (!code) continue;
+    inbound.set(code, [...(inbound.get(code) || []), p]);
+  }
+
+  // 자재유형별 표준/실적 수량 합계 (배합 기준)
+  const groupQty = new Map<string, { sq: number; aq: number }>();
+  for (const [code, s] of std) {
+    const aq = (inbound.get(code) || []).reduce((sum, p) => sum + p.qty, 0);
+    if (s.qty === 0 && aq === 0) continue;
+    const g = groupQty.get(s.row.materialType) || { sq: 0, aq: 0 };
+    g.sq += s.qty;
+    g.aq += aq;
+    groupQty.set(s.row.materialType, g);
+  }
+
+  const materials: MaterialVarianceRow[] = [];
+  const codes = new Set([...std.keys(), ...inbound.keys()]);
+  for (const code of codes) {
+    const s = std.get(code);
+    const purchases = inbound.get(code) || [];
+    const sq = s?.qty || 0;
+    const aq = purchases.reduce((sum, p) => sum + p.qty, 0);
+    if (sq === 0 && aq === 0) continue;
+
+    const actualCost = purchases.reduce((sum, p) => sum + (p.amount || p.qty * p.unitPrice), 0);
+    const ap = aq !== 0 ? actualCost / aq : 0;
+    const hasStandard = !!s;
+    const sp = s ? s.row.unitPrice : ap;
+
+    let priceVariance = 0;
+    let mixVariance = 0;
+    let yieldVariance = 0;
+    if (s) {
+      const g = groupQty.get(s.row.materialType)!;
+      const share = g.sq > 0 ? sq / g.sq : 0;
+      priceVariance = (ap - sp) * aq;
+      mixVariance = (aq - g.aq * share) * sp;
+      yieldVariance = (g.aq - g.sq) * share * sp;
+      // 유형 내 표준 소요가 없으면 배합비 정의 불가 → 수량차이 전액 수율
+      if (g.sq === 0) { yieldVariance = aq * sp; mixVariance = 0; }
+    } else {
+      yieldVariance = actualCost;
+    }
+
+    const first = purchases[0];
+    const lines: VarianceInboundLine[] = purchases
+      .map(p => {
+        const amount = p.amount || p.qty * p.unitPrice;
+        return {
+          date: p.date, supplier: p.supplier || '', itemCode: p.itemCode, itemName: p.itemName, unit: p.unit,
+          qty: p.qty, unitPrice: p.qty ? amount / p.qty : p.unitPrice, amount,
+          priceVariance: hasStandard ? amount - sp * p.qty : 0,
+        };
+      })
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    materials.push({
+      materialCode: s?.row.materialCode || first.itemCode,
+      materialName: s?.row.materialName || first.itemName,
+      materialType: s?.row.materialType || first.type || '기타',
+      unit: s?.row.unit || first.unit,
+      hasStandard,
+      stdQty: sq,
+      stdPrice: sp,
+      actualQty: aq,
+      actualPrice: ap,
+      stdCost: sq * sp,
+      actualCost,
+      priceVariance,
+      mixVariance,
+      yieldVariance,
+      totalVariance: actualCost - sq * sp,
+      suppliers: Array.from(new Set(lines.map(l => l.supplier).filter(Boolean))),
+      lines,
+    });
+  }
+  materials.sort((a, b) => Math.abs(b.totalVariance) - Math.abs(a.totalVariance));
+
+  // 업체별: 가격차이는 입고 라인 기준, 배합/수율/표준은 자재 내 입고수량 비중으로 배분
+  const supplierMap = new Map<string, SupplierVarianceRow & { materialSet: Set<string> }>();
+  const supplierRow = (supplier: string) => {
+    let row = supplierMap.get(supplier);
+    if (!row) {
+      row = { supplier, actualQty: 0, materialCount: 0, lines: [], materialSet: new Set(), ...emptyBreakdown() };
+      supplierMap.set(supplier, row);
+    }
+    return row;
+  };
+  for (const m of materials) {
+    if (m.lines.length === 0) {
+      const row = supplierRow(NO_INBOUND);
+      addBreakdown(row, m);
+      row.materialSet.add(m.materialCode);
+      continue;
+    }
+    const bySupplier = new Map<string, VarianceInboundLine[]>();
+    for (const l of m.lines) {
+      const key = l.supplier || '(미지정)';
+      bySupplier.set(key, [...(bySupplier.get(key) || []), l]);
+    }
+    for (const [supplier, lines] of bySupplier) {
+      const qty = lines.reduce((s, l) => s + l.qty, 0);
+      const ratio = m.actualQty !== 0 ? qty / m.actualQty : 1 / bySupplier.size;
+      const row = supplierRow(supplier);
+      const actualCost = lines.reduce((s, l) => s + l.amount, 0);
+      const priceVariance = lines.reduce((s, l) => s + l.priceVariance, 0);
+      row.stdCost += m.stdCost * ratio;
+      row.actualCost += actualCost;
+      row.priceVariance += priceVariance;
+      row.mixVariance += m.mixVariance * ratio;
+      row.yieldVariance += m.hasStandard ? m.yieldVariance * ratio : actualCost;
+      row.totalVariance += actualCost - m.stdCost * ratio;
+      row.actualQty += qty;
+      row.lines.push(...lines);
+      row.materialSet.add(m.materialCode);
+    }
+  }
+  const suppliers: SupplierVarianceRow[] = Array.from(supplierMap.values())
+    .map(({ materialSet, ...row }) => ({ ...row, materialCount: materialSet.size }))
+    .sort((a, b) => Math.abs(b.totalVariance) - Math.abs(a.totalVariance));
+
+  // 유형별 / 전체
+  const typeMap = new Map<string, TypeVarianceRow>();
+  const totals = emptyBreakdown();
+  for (const m of materials) {
+    const row = typeMap.get(m.materialType) || { materialType: m.materialType, ...emptyBreakdown() };
+    addBreakdown(row, m);
+    typeMap.set(m.materialType, row);
+    addBreakdown(totals, m);
+  }
+
+  return {
+    materials,
+    suppliers,
+    byType: Array.from(typeMap.values()).sort((a, b) => Math.abs(b.totalVariance) - Math.abs(a.totalVariance)),
+    totals,
+    unplannedCount: materials.filter(m => !m.hasStandard).length,
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * crPriceDown — 품목별 고객 단가인하(CR) 모델
+ *
+ * 고객사/품번별 합의 인하율과 적용기간을 Forecast(unitPrice × monthlyQty)에 적용해
+ * 월별 CR 금액을 산출하고, 업로드된 CRItem(LG/MTX 월 합계, 백만원)과 대사한다.
+ * 같은 품목에 기간이 겹치는 인하가 여러 건이면 누적(복리) 적용하고,
+ * 월 중간 적용은 해당 월 적용 일수 비율로 안분한다.
+ */
+import type { ForecastItem } from './salesForecastParser';
+import type { CRItem } from './crDataParser';
+import { normalizePn } from './bomDataParser';
+import { parseMonthCell } from './uploadPreview';
+
+// ============================================
+// Types
+// ============================================
+
+/** CRItem 대사 구분 (LG / MTX) */
+export type CrGroup = 'lg' | 'mtx';
+
+export const CR_GROUP_LABEL: Record<CrGroup, string> = {
+  lg: 'LG',
+  mtx: 'MTX',
+};
+
+export interface PartPriceDown {
+  id: string;
+  customer: string;
+  partNo: string;             // Forecast partNo 또는 newPartNo
+  partName?: string;
+  rate: number;               // 인하율 (%)
+  effectiveFrom: string;      // 적용 시작일 YYYY-MM-DD
+  effectiveTo?: string;       // 적용 종료일 (없으면 계속)
+  group: CrGroup;
+  note?: string;
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+export interface PartCrRow {
+  customer: string;
+  partNo: string;
+  partName: string;
+  group: CrGroup;
+  unitPrice: number;
+  entries: PartPriceDown[];
+  monthlyReduction: number[]; // 월별 누적 인하율 (0~1)
+  monthlyCr: number[];        // 월별 CR 금액 (원)
+  totalCr: number;
+}
+
+export interface CrReconcileRow {
+  month: number;              // 0~11
+  modelLg: number;            // 원
+  modelMtx: number;
+  uploadedLg: number;         // 원 (CRItem 백만원 × 1e6)
+  uploadedMtx: number;
+}
+
+export interface PartCrResult {
+  parts: PartCrRow[];
+  unmatched: PartPriceDown[]; // Forecast에서 품번을 찾지 못한 인하 건
+  monthlyLg: number[];
+  monthlyMtx: number[];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const MILLION = 1_000_000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const norm = (s: string) => (s || '').trim().toUpperCase();
+
+/** 고객사명으로 기본 대사 구분 추정 (LG 계열 → lg, 그 외 → mtx) */
+export const inferCrGroup = (customer: string): CrGroup => (/LG|엘지/i.test(customer || '') ? 'lg' : 'mtx');
+
+const parseDay = (s: string | undefined): number | null => {
+  if (!s) return null;
+  const m = s.trim().match(/^(\d{4})[-./](\d{1,2})[-./](\d{1,2})/);
+  if (!m) return null;
+  return Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+};
+
+/** year년 month월 중 [from, to] 기간에 포함되는 일수 비율 (0~1) */
+export function activeFraction(entry: Pick<PartPriceDown, 'effectiveFrom' | 'effectiveTo'>, year: number, month: number): number {
+  const from = parseDay(entry.effectiveFrom);
+  if (from === null) return 0;
+  const to = parseDay(entry.effectiveTo);
+  const monthStart = Date.UTC(year, month, 1);
+  const nextMonth = Date.UTC(year, month + 1, 1);
+  const start = Math.max(monthStart, from);
+  const end = Math.min(nextMonth, to === null ? nextMonth : to + DAY_MS);
+  if (end <= start) return 0;
+  return (end - start) / (nextMonth - monthStart);
+}
+
+// ============================================
+// Engine
+// ============================================
+
+/**
+ * 인하 등록 건을 Forecast 품목에 적용해 품목별/월별 CR 금액 산출.
+ * 품번은 partNo·newPartNo 모두로 매칭하며, 고객사가 지정된 건은 고객사도 일치해야 한다.
+ */
+export function calcPartCr(items: ForecastItem[], entries: PartPriceDown[], year: number): PartCrResult {
+  const byPn = new Map<string, ForecastItem[]>();
+  for (const item of items) {
+    for (const pn of [item.partNo, item.newPartNo]) {
+      const key = normalizePn(pn || '');
+      if (!key) continue;
+      const list = byPn.get(key) || [];
+      if (!list.includes(item)) list.push(item);
+      byPn.set(key, list);
+    }
+  }
+
+  // Forecast 품목 단위로 인하 건 묶기
+  const grouped = new Map<ForecastItem, PartPriceDown[]>();
+  const unmatched: PartPriceDown[] = [];
+  for (const entry of entries) {
+    const candidates = (byPn.get(normalizePn(entry.partNo || '')) || [])
+      .filter(item => !entry.customer || norm(item.customer) === norm(entry.customer));
+    if (candidates.length === 0) {
+      unmatched.push(entry);
+      continue;
+    }
+    for (const item of candidates) {
+      const list = grouped.get(item) || [];
+      list.push(entry);
+      grouped.set(item, list);
+    }
+  }
+
+  const parts: PartCrRow[] = [];
+  const monthlyLg = Array(12).fill(0);
+  const monthlyMtx = Array(12).fill(0);
+
+  for (const [item, list] of grouped) {
+    const monthlyReduction = Array(12).fill(0);
+    const monthlyCr = Array(12).fill(0);
+    for (let m = 0; m < 12; m++) {
+      const kept = list.reduce((acc, e) => acc * (1 - (e.rate / 100) * activeFraction(e, year, m)), 1);
+      monthlyReduction[m] = 1 - kept;
+      monthlyCr[m] = (item.monthlyQty[m] || 0) * (item.unitPrice || 0) * monthlyReduction[m];
+    }
+    // 대사 구분은 가장 최근 적용 건 기준
+    const latest = [...list].sort((a, b) => (b.effectiveFrom || '').localeCompare(a.effectiveFrom || ''))[0];
+    const target = latest.group === 'lg' ? monthlyLg : monthlyMtx;
+    monthlyCr.forEach((v, m) => { target[m] += v; });
+    parts.push({
+      customer: item.customer,
+      partNo: item.newPartNo || item.partNo,
+      partName: item.partName,
+      group: latest.group,
+      unitPrice: item.unitPrice,
+      entries: list,
+      monthlyReduction,
+      monthlyCr,
+      totalCr: monthlyCr.reduce((s, v) => s + v, 0),
+    });
+  }
+
+  parts.sort((a, b) => b.totalCr - a.totalCr);
+  return { parts, unmatched, monthlyLg, monthlyMtx };
+}
+
+/** 모델 산출 CR과 업로드된 CRItem(백만원) 월별 대사 */
+export function reconcileCr(result: PartCrResult, crItems: CRItem[], year: number): CrReconcileRow[] {
+  return Array.from({ length: 12 }, (_, m) => {
+    // CR 월 표기는 '1월' / '01월' 모두 허용
+    const uploaded = crItems.find(c => c.year === year && parseMonthCell(c.month) === m + 1);
+    return {
+      month: m,
+      modelLg: result.monthlyLg[m],
+      modelMtx: result.monthlyMtx[m],
+      uploadedLg: (uploaded?.lgCR || 0) * MILLION,
+      uploadedMtx: (uploaded?.mtxCR || 0) * MILLION,
+    };
+  });
+}
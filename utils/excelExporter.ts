@@ -8,6 +8,7 @@ import type { ProductInfoItem, PurchasePrice, OutsourcePrice, PaintMixRatio, Mat
 import type { BomMasterRecord, ReferenceInfoRecord, MaterialCodeRecord } from './bomMasterParser';
 import type { ItemRevenueRow } from './revenueDataParser';
 import type { LeafMaterialRow } from './bomCostEngine';
+import type { PurchaseOrder } from './purchaseOrderBuilder';
 
 /**
  * BOM 마스터 데이터를 MES 양식(mes_bom양식.xlsx) 형태로 다운로드
@@ -246,3 +247,35 @@ export function downloadRequiredQtyBreakdown(material: LeafMaterialRow) {
   const date = new Date().toISOString().slice(0, 10);
   saveWorkbook(wb, `소요량근거_${material.materialCode}_${date}.xlsx`);
 }
+
+/** (10) 업체별 다품목 발주서 다운로드 (발주번호·납기일 포함, 업체당 1개 파일) */
+export function downloadSupplierPurchaseOrder(po: PurchaseOrder): void {
+  if (po.lines.length === 0) return;
+
+  const headerBlock = [
+    ['발 주 서'],
+    [],
+    ['발주번호', po.poNumber],
+    ['발주처', po.supplier],
+    ['발주일', po.issueDate],
+    ['납기기간', `${po.horizonFrom} ~ ${po.horizonTo}`],
+    [],
+  ];
+  const headers = ['No', '자재코드', '자재명', '유형', '단위', '납기일', '발주량', '단가', '금액', '단가기준'];
+  const rows: (string | number)[][] = po.lines.map(l => [
+    l.lineNo, l.materialCode, l.materialName, l.materialType, l.unit,
+    l.deliveryDate,
+    Math.round(l.qty),
+    Math.round(l.unitPrice),
+    Math.round(l.amount),
+    l.priceSource,
+  ]);
+
+  // 합계 행
+  rows.push(['', '', '', '', '', '합계', Math.round(po.totalQty), '', Math.round(po.totalAmount), '']);
+
+  const ws = XLSX.utils.aoa_to_sheet([...headerBlock, headers, ...rows]);
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, '발주서');
+  saveWorkbook(wb, `발주서_${po.poNumber}_${po.supplier}.xlsx`);
+}
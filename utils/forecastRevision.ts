@@ -0,0 +1,194 @@
+/**
+ * forecastRevision — 매출계획 개정본 스냅샷 비교 · 매출 증감 브리지(워터폴)
+ *
+ * 업로드마다 ForecastItem[] 전체를 보관하고, 임의 두 개정본의 매출 차이를
+ * 신규 품번 / 단종 품번 / 수량 변동 / 단가 변동으로 분해한다.
+ * 분해는 품번(고객사+P/N) 단위로 계산한 뒤 고객사·차종 단위로 합산한다.
+ */
+import { normalizePn } from './bomDataParser';
+import type { ForecastItem, ForecastUpload } from './salesForecastParser';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ForecastRevision {
+  upload: ForecastUpload;
+  items: ForecastItem[];
+}
+
+export type RevisionLevel = 'customer' | 'model' | 'part';
+
+export type BridgeCause = 'new' | 'dropped' | 'qty' | 'price';
+
+export const BRIDGE_CAUSE_LABEL: Record<BridgeCause, string> = {
+  new: '신규 품번',
+  dropped: '단종 품번',
+  qty: '수량 변동',
+  price: '단가 변동',
+};
+
+export interface RevisionBridgeRow {
+  key: string;
+  customer: string;
+  model: string;
+  partNo: string;
+  partName: string;
+  baseQty: number;
+  targetQty: number;
+  baseRevenue: number;
+  targetRevenue: number;
+  effects: Record<BridgeCause, number>;
+  totalDiff: number;
+}
+
+export interface WaterfallStep {
+  name: string;
+  offset: number;                   // 투명 막대 (누적 시작점)
+  value: number;                    // 표시 막대 높이
+  delta: number;
+  kind: 'total' | 'up' | 'down';
+}
+
+export interface RevisionBridge {
+  baseRevenue: number;
+  targetRevenue: number;
+  effects: Record<BridgeCause, number>;
+  rows: RevisionBridgeRow[];        // 요청 레벨 기준 (|증감| 내림차순)
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const emptyEffects = (): Record<BridgeCause, number> => ({ new: 0, dropped: 0, qty: 0, price: 0 });
+
+interface PartAgg {
+  customer: string;
+  model: string;
+  partNo: string;
+  partName: string;
+  qty: number;
+  revenue: number;
+  unitPrice: number;
+}
+
+/** 고객사 + P/N (없으면 NEW P/N, 그것도 없으면 차종+부품명) 단위 합산 */
+function aggregateParts(items: ForecastItem[]): Map<string, PartAgg> {
+  const map = new Map<string, PartAgg>();
+  for (const item of items) {
+    const pn = normalizePn(item.partNo || '') || normalizePn(item.newPartNo || '') || `${item.model}|${item.partName}`;
+    const key = `${item.customer}||${pn}`;
+    const qty = item.totalQty || (item.monthlyQty || []).reduce((s, q) => s + (q || 0), 0);
+    const revenue = item.totalRevenue || 0;
+    const agg = map.get(key);
+    if (agg) {
+      agg.qty += qty;
+      agg.revenue += revenue;
+    } else {
+      map.set(key, {
+        customer: item.customer,
+        model: item.model,
+        partNo: item.partNo || item.newPartNo,
+        partName: item.partName,
+        qty,
+        revenue,
+        unitPrice: item.unitPrice || 0,
+      });
+    }
+  }
+  return map;
+}
+
+const avgPrice = (p: PartAgg) => (p.qty > 0 ? p.revenue / p.qty : p.unitPrice);
+
+function levelKey(level: RevisionLevel, partKey: string, p: PartAgg): string {
+  if (level === 'customer') return p.customer;
+  if (level === 'model') return `${p.customer}||${p.model}`;
+  return partKey;
+}
+
+// ============================================
+// Bridge
+// ============================================
+
+export function buildRevisionBridge(
+  base: ForecastItem[],
+  target: ForecastItem[],
+  level: RevisionLevel,
+): RevisionBridge {
+  const baseMap = aggregateParts(base);
+  const targetMap = aggregateParts(target);
+  const rows = new Map<string, RevisionBridgeRow>();
+  const effects = emptyEffects();
+
+  for (const partKey of new Set([...baseMap.keys(), ...targetMap.keys()])) {
+    const b = baseMap.get(partKey);
+    const t = targetMap.get(partKey);
+    const ref = (t || b)!;
+    const part = emptyEffects();
+
+    if (!b) {
+      part.new = t!.revenue;
+    } else if (!t) {
+      part.dropped = -b.revenue;
+    } else {
+      // 수량 효과는 기준 단가로, 나머지 전액은 단가 효과 (합계 보존)
+      part.qty = (t.qty - b.qty) * avgPrice(b);
+      part.price = t.revenue - b.revenue - part.qty;
+    }
+
+    const key = levelKey(level, partKey, ref);
+    const row = rows.get(key) || {
+      key,
+      customer: ref.customer,
+      model: level === 'customer' ? '' : ref.model,
+      partNo: level === 'part' ? ref.partNo : '',
+      partName: level === 'part' ? ref.partName : '',
+      baseQty: 0, targetQty: 0, baseRevenue: 0, targetRevenue: 0,
+      effects: emptyEffects(),
+      totalDiff: 0,
+    };
+    row.baseQty += b?.qty || 0;
+    row.targetQty += t?.qty || 0;
+    row.baseRevenue += b?.revenue || 0;
+    row.targetRevenue += t?.revenue || 0;
+    for (const cause of Object.keys(part) as BridgeCause[]) {
+      row.effects[cause] += part[cause];
+      effects[cause] += part[cause];
+    }
+    row.totalDiff = row.targetRevenue - row.baseRevenue;
+    rows.set(key, row);
+  }
+
+  return {
+    baseRevenue: Array.from(baseMap.values()).reduce((s, p) => s + p.revenue, 0),
+    targetRevenue: Array.from(targetMap.values()).reduce((s, p) => s + p.revenue, 0),
+    effects,
+    rows: Array.from(rows.values())
+      .filter(r => r.baseRevenue !== 0 || r.targetRevenue !== 0)
+      .sort((a, b) => Math.abs(b.totalDiff) - Math.abs(a.totalDiff)),
+  };
+}
+
+/** 워터폴 차트 데이터: 투명 offset + 증감 막대 */
+export function toWaterfallSteps(bridge: RevisionBridge, baseLabel: string, targetLabel: string): WaterfallStep[] {
+  const steps: WaterfallStep[] = [
+    { name: baseLabel, offset: 0, value: bridge.baseRevenue, delta: bridge.baseRevenue, kind: 'total' },
+  ];
+  let running = bridge.baseRevenue;
+  for (const cause of ['new', 'dropped', 'qty', 'price'] as BridgeCause[]) {
+    const delta = bridge.effects[cause];
+    const next = running + delta;
+    steps.push({
+      name: BRIDGE_CAUSE_LABEL[cause],
+      offset: Math.min(running, next),
+      value: Math.abs(delta),
+      delta,
+      kind: delta >= 0 ? 'up' : 'down',
+    });
+    running = next;
+  }
+  steps.push({ name: targetLabel, offset: 0, value: bridge.targetRevenue, delta: bridge.targetRevenue, kind: 'total' });
+  return steps;
+}
@@ -0,0 +1,293 @@
+/**
+ * inventoryAging — 재고 에이징 / 장기·불용 재고 분석
+ *
+ * 입고실적(PurchaseItem.date)을 선입선출(FIFO)로 가정해 현재고를 최근 입고분부터 채운다.
+ *  - 현재고가 입고 이력 합계보다 많으면 나머지는 이력 이전 입고분으로 보고 180일 초과 구간에 넣는다 (untracedQty)
+ *  - 같은 품목이 여러 창고에 있으면 품목 합계로 FIFO를 계산한 뒤 창고별 수량 비율로 나눈다
+ *  - 소요 여부: Forecast 기반 MRP 소요량(mrpMaterials + leafMaterials)에 12개월 소요가 있는지로 판단
+ *  - 불용: 소요 없음 + 최근 입고가 180일 초과(또는 입고 이력 없음)
+ *  - 장기: 불용이 아니면서 소요 없음, 또는 90일 초과 재고 비중 50% 이상
+ */
+import { normalizePn } from './bomDataParser';
+import type { PurchaseItem } from './purchaseDataParser';
+import type { LeafMaterialRow } from './bomCostEngine';
+
+// ============================================
+// Types
+// ============================================
+
+export type AgingBucket = 'd0_30' | 'd31_90' | 'd91_180' | 'd180p';
+
+export const AGING_BUCKETS: AgingBucket[] = ['d0_30', 'd31_90', 'd91_180', 'd180p'];
+
+export const AGING_BUCKET_LABEL: Record<AgingBucket, string> = {
+  d0_30: '0~30일',
+  d31_90: '31~90일',
+  d91_180: '91~180일',
+  d180p: '180일 초과',
+};
+
+export type StockClass = 'normal' | 'slow' | 'dead';
+
+export const STOCK_CLASS_LABEL: Record<StockClass, string> = {
+  normal: '정상',
+  slow: '장기',
+  dead: '불용',
+};
+
+export type StockKind = 'resin' | 'paint' | 'parts';
+
+export interface AgingStockItem {
+  kind: StockKind;
+  code: string;
+  customerPN?: string;
+  name: string;
+  unit: string;
+  location: string;
+  qty: number;
+  unitPrice?: number;
+}
+
+export interface AgingRow {
+  kind: StockKind;
+  code: string;
+  name: string;
+  unit: string;
+  location: string;
+  qty: number;
+  unitPrice: number;
+  value: number;
+  bucketQty: Record<AgingBucket, number>;
+  bucketValue: Record<AgingBucket, number>;
+  untracedQty: number;          // 입고 이력으로 설명되지 않는 수량 (180일 초과에 포함)
+  avgAgeDays: number | null;    // 수량 가중 평균 재고일수 (이력 있는 분만)
+  lastReceiptDate: string;
+  lastReceiptAge: number | null;
+  hasConsumption: boolean | null; // null = 소요량 데이터 없음
+  annualConsumption: number;
+  stockClass: StockClass;
+}
+
+export interface LocationAgingRow {
+  location: string;
+  itemCount: number;
+  value: number;
+  slowValue: number;
+  deadValue: number;
+  slowCount: number;
+  deadCount: number;
+  bucketValue: Record<AgingBucket, number>;
+}
+
+export interface InventoryAgingResult {
+  rows: AgingRow[];
+  byLocation: LocationAgingRow[];
+  totals: {
+    value: number;
+    slowValue: number;
+    deadValue: number;
+    slowCount: number;
+    deadCount: number;
+    bucketValue: Record<AgingBucket, number>;
+    unpricedCount: number;
+  };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const DAY_MS = 86400000;
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({ d0_30: 0, d31_90: 0, d91_180: 0, d180p: 0 });
+
+export const bucketOf = (days: number): AgingBucket =>
+  days <= 30 ? 'd0_30' : days <= 90 ? 'd31_90' : days <= 180 ? 'd91_180' : 'd180p';
+
+const ageDays = (date: string, today: Date): number | null => {
+  if (!date || !/^\d{4}-\d{2}-\d{2}/.test(date)) return null;
+  const d = new Date(date.slice(0, 10) + 'T00:00:00');
+  if (isNaN(d.getTime())) return null;
+  return Math.max(0, Math.floor((today.getTime() - d.getTime()) / DAY_MS));
+};
+
+interface Receipt { age: number; date: string; qty: number; unitPrice: number }
+
+interface FifoProfile {
+  bucketQty: Record<AgingBucket, number>;
+  untracedQty: number;
+  avgAgeDays: number | null;
+  lastReceiptDate: string;
+  lastReceiptAge: number | null;
+  lastPrice: number;
+}
+
+/** 최근 입고분부터 현재고를 채워 구간별 수량 산출 */
+export function fifoProfile(stockQty: number, receipts: Receipt[]): FifoProfile {
+  const sorted = [...receipts].sort((a, b) => a.age - b.age);
+  const bucketQty = emptyBuckets();
+  let remaining = Math.max(0, stockQty);
+  let ageSum = 0;
+  let traced = 0;
+  for (const r of sorted) {
+    if (remaining <= 0) break;
+    const take = Math.min(remaining, r.qty);
+    if (take <= 0) continue;
+    bucketQty[bucketOf(r.age)] += take;
+    ageSum += take * r.age;
+    traced += take;
+    remaining -= take;
+  }
+  bucketQty.d180p += remaining;
+  const last = sorted[0];
+  return {
+    bucketQty,
+    untracedQty: remaining,
+    avgAgeDays: traced > 0 ? ageSum / traced : null,
+    lastReceiptDate: last?.date || '',
+    lastReceiptAge: last ? last.age : null,
+    lastPrice: sorted.find(r => r.unitPrice > 0)?.unitPrice || 0,
+  };
+}
+
+// ============================================
+// Analysis
+// ============================================
+
+/**
+ * @param consumption MRP 소요 자재 (mrpMaterials + leafMaterials). 비어 있으면 소요 여부 판단 없이 재고일수만으로 분류
+ */
+export function buildInventoryAging(
+  items: AgingStockItem[],
+  purchases: PurchaseItem[],
+  consumption: LeafMaterialRow[],
+  today: Date = new Date(),
+): InventoryAgingResult {
+  // 입고 이력 인덱스 (품목코드 / 고객사 P/N)
+  const receiptIndex = new Map<string, { id: string; receipt: Receipt }[]>();
+  for (const p of purchases) {
+    if (!(p.qty > 0)) continue;
+    const age = ageDays(p.date, today);
+    if (age === null) continue;
+    const entry = { id: p.id, receipt: { age, date: p.date.slice(0, 10), qty: p.qty, unitPrice: p.unitPrice || 0 } };
+    const keys = new Set([normalizePn(p.itemCode), normalizePn(p.customerPn || '')].filter(Boolean));
+    for (const key of keys) {
+      const list = receiptIndex.get(key) || [];
+      list.push(entry);
+      receiptIndex.set(key, list);
+    }
+  }
+
+  // 연간 소요량 인덱스
+  const usage = new Map<string, { qty: number; unitPrice: number }>();
+  for (const m of consumption) {
+    const key = normalizePn(m.materialCode);
+    if (!key) continue;
+    const prev = usage.get(key) || { qty: 0, unitPrice: 0 };
+    prev.qty += m.monthlyQty.reduce((s, q) => s + (q || 0), 0);
+    if (!prev.unitPrice && m.unitPrice > 0) prev.unitPrice = m.unitPrice;
+    usage.set(key, prev);
+  }
+  const hasUsageData = usage.size > 0;
+
+  const keysOf = (item: AgingStockItem) =>
+    [normalizePn(item.code), normalizePn(item.customerPN || '')].filter(Boolean);
+
+  // 품목별 합산 → FIFO
+  const groups = new Map<string, AgingStockItem[]>();
+  for (const item of items) {
+    if (!item.code || !(item.qty > 0)) continue;
+    const key = `${item.kind}|${normalizePn(item.code)}`;
+    const list = groups.get(key) || [];
+    list.push(item);
+    groups.set(key, list);
+  }
+
+  const rows: AgingRow[] = [];
+  for (const group of groups.values()) {
+    const seen = new Set<string>();
+    const receipts: Receipt[] = [];
+    for (const key of keysOf(group[0])) {
+      for (const { id, receipt } of receiptIndex.get(key) || []) {
+        if (seen.has(id)) continue;
+        seen.add(id);
+        receipts.push(receipt);
+      }
+    }
+    const totalQty = group.reduce((s, i) => s + i.qty, 0);
+    const profile = fifoProfile(totalQty, receipts);
+
+    const use = keysOf(group[0]).map(k => usage.get(k)).find(Boolean);
+    const annualConsumption = use?.qty || 0;
+    const hasConsumption = hasUsageData ? annualConsumption > 0 : null;
+
+    for (const item of group) {
+      const ratio = totalQty > 0 ? item.qty / totalQty : 0;
+      const unitPrice = item.unitPrice || profile.lastPrice || use?.unitPrice || 0;
+      const bucketQty = emptyBuckets();
+      const bucketValue = emptyBuckets();
+      for (const b of AGING_BUCKETS) {
+        bucketQty[b] = profile.bucketQty[b] * ratio;
+        bucketValue[b] = bucketQty[b] * unitPrice;
+      }
+
+      const over90 = bucketQty.d91_180 + bucketQty.d180p;
+      const isDead = hasConsumption === false && (profile.lastReceiptAge === null || profile.lastReceiptAge > 180);
+      const isSlow = !isDead && (hasConsumption === false || over90 / item.qty >= 0.5);
+
+      rows.push({
+        kind: item.kind,
+        code: item.code,
+        name: item.name,
+        unit: item.unit,
+        location: item.location?.trim() || '(미지정)',
+        qty: item.qty,
+        unitPrice,
+        value: item.qty * unitPrice,
+        bucketQty,
+        bucketValue,
+        untracedQty: profile.untracedQty * ratio,
+        avgAgeDays: profile.avgAgeDays,
+        lastReceiptDate: profile.lastReceiptDate,
+        lastReceiptAge: profile.lastReceiptAge,
+        hasConsumption,
+        annualConsumption,
+        stockClass: isDead ? 'dead' : isSlow ? 'slow' : 'normal',
+      });
+    }
+  }
+  rows.sort((a, b) => b.bucketValue.d180p - a.bucketValue.d180p || b.value - a.value);
+
+  // 창고별 집계
+  const locMap = new Map<string, LocationAgingRow>();
+  for (const r of rows) {
+    const loc = locMap.get(r.location) || {
+      location: r.location, itemCount: 0, value: 0, slowValue: 0, deadValue: 0, slowCount: 0, deadCount: 0, bucketValue: emptyBuckets(),
+    };
+    loc.itemCount++;
+    loc.value += r.value;
+    if (r.stockClass === 'slow') { loc.slowValue += r.value; loc.slowCount++; }
+    if (r.stockClass === 'dead') { loc.deadValue += r.value; loc.deadCount++; }
+    for (const b of AGING_BUCKETS) loc.bucketValue[b] += r.bucketValue[b];
+    locMap.set(r.location, loc);
+  }
+  const byLocation = Array.from(locMap.values())
+    .sort((a, b) => (b.slowValue + b.deadValue) - (a.slowValue + a.deadValue) || b.value - a.value);
+
+  const bucketValue = emptyBuckets();
+  for (const loc of byLocation) for (const b of AGING_BUCKETS) bucketValue[b] += loc.bucketValue[b];
+
+  return {
+    rows,
+    byLocation,
+    totals: {
+      value: byLocation.reduce((s, l) => s + l.value, 0),
+      slowValue: byLocation.reduce((s, l) => s + l.slowValue, 0),
+      deadValue: byLocation.reduce((s, l) => s + l.deadValue, 0),
+      slowCount: byLocation.reduce((s, l) => s + l.slowCount, 0),
+      deadCount: byLocation.reduce((s, l) => s + l.deadCount, 0),
+      bucketValue,
+      unpricedCount: rows.filter(r => !(r.unitPrice > 0)).length,
+    },
+  };
+}
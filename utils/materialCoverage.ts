@@ -0,0 +1,202 @@
+/**
+ * materialCoverage — 자재별 재고 커버리지(Days of Cover) / 소진 예상일
+ *
+ * 현재고(재고 V2: Resin/도료/부품)를 Forecast 기반 월 소요량으로 오늘부터 일 단위 소진시킨다.
+ *  - 월 소요량은 계획 연도(planYear) 달력 기준: 월 소요량 ÷ 해당 월 일수 = 일 소요량 (이번 달은 오늘 포함 잔여일만)
+ *  - 계획 연도 시작 전 공백 기간과 계획 연도 말 이후는 연평균 일 소요량으로 추정 (extrapolated)
+ *  - 상태: 커버일수 < 리드타임 → red, < 리드타임 + 여유일 → amber, 그 외 green
+ */
+import { normalizePn } from './bomDataParser';
+import type { LeafMaterialRow, ProductContribution } from './bomCostEngine';
+
+// ============================================
+// Types
+// ============================================
+
+export type CoverageStatus = 'red' | 'amber' | 'green';
+
+export const COVERAGE_STATUS_LABEL: Record<CoverageStatus, string> = {
+  red: '결품 위험',
+  amber: '주의',
+  green: '양호',
+};
+
+export interface CoverageStockItem {
+  code: string;
+  customerPN?: string;
+  qty: number;
+}
+
+export interface CoverageProductRow {
+  productPn: string;
+  productName: string;
+  qtyPerUnit: number;
+  forwardQty: number;          // 오늘 ~ 계획 연도 말 소요량
+  share: number;               // 잔여 소요 중 비중 (%)
+  monthlyQty: number[];
+}
+
+export interface MaterialCoverageRow {
+  materialCode: string;
+  materialName: string;
+  materialType: string;
+  unit: string;
+  supplier: string;
+  stockQty: number;
+  dailyUsage: number;          // 이번 달 일 소요량 (계획 연도 밖이면 연평균)
+  forwardQty: number;          // 오늘 ~ 계획 연도 말 소요량
+  daysOfCover: number | null;  // null = 잔여 소요 없음
+  stockoutDate: string;        // YYYY-MM-DD, 소진 없으면 ''
+  extrapolated: boolean;       // 계획 연도 이후 연평균으로 연장 추정
+  leadTimeDays: number;
+  status: CoverageStatus;
+  products: CoverageProductRow[];
+}
+
+export interface CoverageOptions {
+  today?: Date;
+  planYear?: number;                    // Forecast 계획 연도 (기본: 올해)
+  leadTimes?: Record<string, number>;  // 구입처별 리드타임 (일)
+  defaultLeadTimeDays?: number;
+  bufferDays?: number;                  // amber 구간 여유일
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const DAY_MS = 86400000;
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+const toDateStr = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const daysInYear = (year: number) => (daysInMonth(year, 1) === 29 ? 366 : 365);
+
+const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate());
+
+/** from → to 일수 (서머타임 보정 반올림, 음수는 0) */
+const daysBetween = (from: Date, to: Date) => Math.max(0, Math.round((to.getTime() - from.getTime()) / DAY_MS));
+
+/** 계획 연도 월별 잔여 일수 (오늘 이후분, 이번 달은 오늘 포함) */
+const forwardDays = (today: Date, planYear: number): number[] => {
+  const start = startOfDay(today);
+  return Array.from({ length: 12 }, (_, m) => {
+    const monthStart = new Date(planYear, m, 1);
+    const monthEnd = new Date(planYear, m + 1, 1);
+    return daysBetween(monthStart > start ? monthStart : start, monthEnd);
+  });
+};
+
+/** 월 소요량 중 오늘 이후 분 */
+const forwardQtyOf = (monthlyQty: number[], planYear: number, fwd: number[]): number =>
+  monthlyQty.reduce((s, q, m) => s + ((q || 0) * fwd[m]) / daysInMonth(planYear, m), 0);
+
+/** 오늘 기준 일 소요량: 계획 연도 안이면 이번 달, 밖이면 연평균 */
+const dailyUsageOf = (monthlyQty: number[], today: Date, planYear: number): number => {
+  if (today.getFullYear() === planYear) {
+    return (monthlyQty[today.getMonth()] || 0) / daysInMonth(planYear, today.getMonth());
+  }
+  return monthlyQty.reduce((s, q) => s + (q || 0), 0) / daysInYear(planYear);
+};
+
+/**
+ * 재고 소진 시뮬레이션 → 커버일수
+ * @param planYear monthlyQty[0..11]이 가리키는 계획 연도 (기본: 오늘 연도)
+ * @returns days: null = 소요 없음
+ */
+export function projectDaysOfCover(
+  stockQty: number,
+  monthlyQty: number[],
+  today: Date = new Date(),
+  planYear: number = today.getFullYear(),
+): { days: number | null; extrapolated: boolean } {
+  const annual = monthlyQty.reduce((s, q) => s + (q || 0), 0);
+  if (annual <= 0) return { days: null, extrapolated: false };
+  const avgDaily = annual / daysInYear(planYear);
+  const fwd = forwardDays(today, planYear);
+  let stock = Math.max(0, stockQty);
+
+  // 계획 연도 시작 전 공백 기간은 연평균으로 소진
+  let elapsed = daysBetween(startOfDay(today), new Date(planYear, 0, 1));
+  if (stock < avgDaily * elapsed) return { days: stock / avgDaily, extrapolated: true };
+  stock -= avgDaily * elapsed;
+
+  for (let m = 0; m < 12; m++) {
+    if (fwd[m] === 0) continue;
+    const daily = (monthlyQty[m] || 0) / daysInMonth(planYear, m);
+    const need = daily * fwd[m];
+    if (daily > 0 && stock < need) return { days: elapsed + stock / daily, extrapolated: false };
+    stock -= need;
+    elapsed += fwd[m];
+  }
+  return { days: elapsed + stock / avgDaily, extrapolated: true };
+}
+
+// ============================================
+// Coverage Board
+// ============================================
+
+export function buildMaterialCoverage(
+  materials: LeafMaterialRow[],
+  stock: CoverageStockItem[],
+  options: CoverageOptions = {},
+): MaterialCoverageRow[] {
+  const today = options.today || new Date();
+  const planYear = options.planYear ?? today.getFullYear();
+  const leadTimes = options.leadTimes || {};
+  const defaultLead = options.defaultLeadTimeDays ?? 14;
+  const buffer = options.bufferDays ?? 30;
+  const fwd = forwardDays(today, planYear);
+  const todayStart = startOfDay(today);
+
+  // 현재고 (품목코드 / 고객사 P/N 양방향)
+  const stockMap = new Map<string, number>();
+  for (const s of stock) {
+    const keys = new Set([normalizePn(s.code), normalizePn(s.customerPN || '')].filter(Boolean));
+    for (const key of keys) stockMap.set(key, (stockMap.get(key) || 0) + (s.qty || 0));
+  }
+
+  const rows: MaterialCoverageRow[] = [];
+  for (const m of materials) {
+    const annual = m.monthlyQty.reduce((s, q) => s + (q || 0), 0);
+    if (annual <= 0) continue;
+    const stockQty = stockMap.get(normalizePn(m.materialCode)) || 0;
+    const { days, extrapolated } = projectDaysOfCover(stockQty, m.monthlyQty, today, planYear);
+    const leadTimeDays = leadTimes[m.supplier] || defaultLead;
+    const forwardQty = forwardQtyOf(m.monthlyQty, planYear, fwd);
+
+    const products = m.productBreakdown
+      .map((p: ProductContribution) => {
+        const pFwd = forwardQtyOf(p.monthlyQty, planYear, fwd);
+        return {
+          productPn: p.productPn,
+          productName: p.productName,
+          qtyPerUnit: p.qtyPerUnit,
+          forwardQty: pFwd,
+          share: forwardQty > 0 ? (pFwd / forwardQty) * 100 : 0,
+          monthlyQty: p.monthlyQty,
+        };
+      })
+      .sort((a, b) => b.forwardQty - a.forwardQty);
+
+    rows.push({
+      materialCode: m.materialCode,
+      materialName: m.materialName,
+      materialType: m.materialType,
+      unit: m.unit,
+      supplier: m.supplier,
+      stockQty,
+      dailyUsage: dailyUsageOf(m.monthlyQty, today, planYear),
+      forwardQty,
+      daysOfCover: days,
+      stockoutDate: days === null ? '' : toDateStr(new Date(todayStart.getTime() + Math.floor(days) * DAY_MS)),
+      extrapolated,
+      leadTimeDays,
+      status: days === null ? 'green' : days < leadTimeDays ? 'red' : days < leadTimeDays + buffer ? 'amber' : 'green',
+      products,
+    });
+  }
+  return rows.sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity));
+}
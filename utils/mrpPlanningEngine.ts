@@ -0,0 +1,211 @@
+/**
+ * mrpPlanningEngine — 시간단계(Time-phased) MRP 순소요 계산 (순수 함수)
+ *
+ * 월별 총소요(LeafMaterialRow.monthlyQty)를 기준으로 예상재고를 월 단위로 이월하며
+ * 안전재고 · 발주단위(LOT) · 업체별 리드타임을 반영해 계획입고/발주일을 산출한다.
+ *
+ *   예상재고[m] = 예상재고[m-1] + 입고예정[m] - 총소요[m]
+ *   순소요[m]   = max(0, 안전재고[m] - 예상재고[m])
+ *   계획입고[m] = LOT 올림(순소요[m]),  발주일 = 입고일 - 리드타임
+ */
+import { normalizePn } from './bomDataParser';
+import type { ReferenceInfoRecord, MaterialCodeRecord } from './bomMasterParser';
+import type { LeafMaterialRow } from './bomCostEngine';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface MrpPlanBucket {
+  month: number;             // 0~11
+  grossReq: number;          // 총소요
+  scheduledReceipts: number; // 입고예정 (발행 발주 등)
+  safetyStock: number;       // 해당월 안전재고
+  projectedOnHand: number;   // 계획입고 반영 후 기말 예상재고
+  netReq: number;            // 순소요
+  plannedReceipt: number;    // 계획입고 (LOT 적용)
+  plannedRelease: number;    // 해당월 발주(릴리즈) 수량
+}
+
+export interface PlannedOrder {
+  materialCode: string;
+  materialName: string;
+  materialType: string;
+  supplier: string;
+  unit: string;
+  unitPrice: number;
+  qty: number;
+  amount: number;
+  dueMonth: number;          // 입고 필요월 (0~11)
+  dueDate: string;           // YYYY-MM-DD
+  releaseDate: string;       // YYYY-MM-DD (입고일 - 리드타임)
+  pastDue: boolean;          // 발주일이 기준일 이전 → 긴급발주
+}
+
+export interface MaterialMrpPlan {
+  materialCode: string;
+  materialName: string;
+  materialType: string;
+  supplier: string;
+  unit: string;
+  unitPrice: number;
+  onHand: number;            // 기초 재고
+  safetyStockQty: number;    // 고정 안전재고 (자재/기준정보)
+  safetyStockDays: number;   // 안전재고일수
+  lotSize: number;           // 발주 단위 (0 = lot-for-lot)
+  leadTimeDays: number;
+  buckets: MrpPlanBucket[];
+  plannedOrders: PlannedOrder[];
+  firstShortageMonth: number; // 계획입고 없이 재고 부족이 처음 발생하는 월 (-1 = 없음)
+}
+
+export interface MrpPlanParams {
+  materials: LeafMaterialRow[];
+  onHand: Map<string, number>;                 // 정규화 코드 → 현재고
+  materialCodes: MaterialCodeRecord[];
+  refInfo: ReferenceInfoRecord[];
+  leadTimes: Record<string, number>;           // 업체명 → 리드타임(일)
+  defaultLeadTimeDays: number;
+  year: number;
+  startMonth?: number;                          // 계획 시작월 (기본: defaultStartMonth)
+  scheduledReceipts?: Map<string, number[]>;   // 정규화 코드 → 월별 입고예정
+  today?: Date;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/** 발주 SIZE 문자열 → 수량 ("25KG", "1,000" → 25, 1000) */
+export function parseOrderSize(orderSize: string | number | undefined): number {
+  if (typeof orderSize === 'number') return orderSize > 0 ? orderSize : 0;
+  const n = parseFloat(String(orderSize || '').replace(/,/g, '').replace(/[^0-9.]/g, ''));
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+const toDateStr = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+/** 기본 계획 시작월: 당해년도면 이번달, 이후 연도면 1월 */
+export function defaultStartMonth(year: number, today: Date = new Date()): number {
+  return year === today.getFullYear() ? today.getMonth() : 0;
+}
+
+/** LOT 올림: 발주단위 배수로 올림 (lot=0이면 lot-for-lot) */
+export function applyLotSize(netQty: number, lotSize: number): number {
+  if (netQty <= 0) return 0;
+  if (lotSize <= 0) return Math.ceil(netQty);
+  return Math.ceil(netQty / lotSize) * lotSize;
+}
+
+// ============================================================
+// Main
+// ============================================================
+
+export function planMaterialRequirements(params: MrpPlanParams): MaterialMrpPlan[] {
+  const {
+    materials, onHand, materialCodes, refInfo, leadTimes, defaultLeadTimeDays, year,
+    scheduledReceipts,
+  } = params;
+  const today = new Date(params.today || Date.now());
+  today.setHours(0, 0, 0, 0);
+  const startMonth = params.startMonth ?? defaultStartMonth(year, today);
+
+  const matCodeMap = new Map<string, MaterialCodeRecord>();
+  for (const mc of materialCodes) matCodeMap.set(normalizePn(mc.materialCode), mc);
+  const refMap = new Map<string, ReferenceInfoRecord>();
+  for (const ri of refInfo) {
+    refMap.set(normalizePn(ri.itemCode), ri);
+    if (ri.customerPn && !refMap.has(normalizePn(ri.customerPn))) refMap.set(normalizePn(ri.customerPn), ri);
+  }
+  const leadTimeMap = new Map<string, number>();
+  for (const [supplier, days] of Object.entries(leadTimes)) leadTimeMap.set(supplier.trim().toUpperCase(), days);
+
+  return materials.map(m => {
+    const code = normalizePn(m.materialCode);
+    const mc = matCodeMap.get(code);
+    const ri = refMap.get(code);
+
+    const safetyStockQty = Math.max(mc?.safetyStock || 0, ri?.safetyStock || 0);
+    const safetyStockDays = ri?.safetyStockDays || 0;
+    const lotSize = parseOrderSize(mc?.orderSize) || (ri?.lotQty && ri.lotQty > 0 ? ri.lotQty : 0);
+    const leadTimeDays = leadTimeMap.get((m.supplier || '').trim().toUpperCase()) ?? defaultLeadTimeDays;
+    const initialOnHand = onHand.get(code) || 0;
+    const scheduled = scheduledReceipts?.get(code) || [];
+
+    const buckets: MrpPlanBucket[] = [];
+    const plannedOrders: PlannedOrder[] = [];
+    const releaseDates: Date[] = [];
+    let projected = initialOnHand;
+    let unplannedProjected = initialOnHand;
+    let firstShortageMonth = -1;
+
+    for (let month = 0; month < 12; month++) {
+      const grossReq = month >= startMonth ? (m.monthlyQty[month] || 0) : 0;
+      const receipts = month >= startMonth ? (scheduled[month] || 0) : 0;
+      // 일수 기준 안전재고: 해당월 일평균 소요 × 안전재고일수
+      const dayBased = safetyStockDays > 0 ? (grossReq / daysInMonth(year, month)) * safetyStockDays : 0;
+      const safetyStock = month >= startMonth ? Math.max(safetyStockQty, dayBased) : 0;
+
+      projected = projected + receipts - grossReq;
+      unplannedProjected = unplannedProjected + receipts - grossReq;
+      if (firstShortageMonth < 0 && month >= startMonth && unplannedProjected < 0) firstShortageMonth = month;
+
+      const netReq = month >= startMonth ? Math.max(0, safetyStock - projected) : 0;
+      const plannedReceipt = applyLotSize(netReq, lotSize);
+      projected += plannedReceipt;
+
+      buckets.push({
+        month, grossReq, scheduledReceipts: receipts, safetyStock,
+        projectedOnHand: projected, netReq, plannedReceipt, plannedRelease: 0,
+      });
+
+      if (plannedReceipt > 0) {
+        const due = new Date(year, month, 1);
+        const release = new Date(due);
+        release.setDate(release.getDate() - leadTimeDays);
+        releaseDates.push(release);
+        plannedOrders.push({
+          materialCode: m.materialCode,
+          materialName: m.materialName,
+          materialType: m.materialType,
+          supplier: m.supplier,
+          unit: m.unit,
+          unitPrice: m.unitPrice,
+          qty: plannedReceipt,
+          amount: plannedReceipt * m.unitPrice,
+          dueMonth: month,
+          dueDate: toDateStr(due),
+          releaseDate: toDateStr(release),
+          pastDue: release < today,
+        });
+      }
+    }
+
+    // 발주(릴리즈) 수량을 발주월 버킷에 배치 (전년도 발주분은 시작월로 당김)
+    plannedOrders.forEach((po, i) => {
+      const rel = releaseDates[i];
+      const relMonth = rel.getFullYear() < year ? startMonth : rel.getMonth();
+      buckets[Math.max(relMonth, startMonth)].plannedRelease += po.qty;
+    });
+
+    return {
+      materialCode: m.materialCode,
+      materialName: m.materialName,
+      materialType: m.materialType,
+      supplier: m.supplier,
+      unit: m.unit,
+      unitPrice: m.unitPrice,
+      onHand: initialOnHand,
+      safetyStockQty,
+      safetyStockDays,
+      lotSize,
+      leadTimeDays,
+      buckets,
+      plannedOrders,
+      firstShortageMonth,
+    };
+  });
+}
@@ -0,0 +1,269 @@
+/**
+ * profitability — 고객사 × 차종 × 품목 재료비 한계이익 집계
+ *
+ * 계획: bomCostEngine의 ProductCostRow(Forecast 수량 × EA당 재료비)
+ * 실적: ItemRevenueRow(품목별 매출) 수량 × 동일 품목의 EA당 재료비
+ * 재료비를 산출하지 못한 매출(BOM 미매칭 / 실적 품번 미매칭)은 미산정 매출로 분리하고
+ * 이익률은 재료비가 산정된 매출 기준으로 계산한다.
+ */
+import type { ItemRevenueRow } from './revenueDataParser';
+import type { CalcAllParams, ProductCostRow } from './bomCostEngine';
+import { normalizePn } from './bomDataParser';
+import { parsePeriodMonth } from './statisticalForecast';
+
+// ============================================
+// Types
+// ============================================
+
+export type ProfitBasis = 'plan' | 'actual';
+
+export interface ProfitFigures {
+  qty: number;
+  revenue: number;            // 전체 매출
+  costedRevenue: number;      // 재료비 산정된 매출
+  material: number;           // 재료비
+}
+
+export interface ProfitPartRow {
+  key: string;                // 정규화 품번 (실적 미매칭은 'actual:' 접두)
+  pn: string;
+  name: string;
+  customer: string;
+  model: string;
+  source: string;             // 가격 출처 (ProductCostRow.source)
+  materialCost: number;       // EA당 재료비 (0 = 미산정)
+  sellingPrice: number;
+  matched: boolean;           // Forecast 품목과 매칭 여부 (false = 실적에만 존재)
+  plan: ProfitFigures;
+  actual: ProfitFigures;
+}
+
+export interface ProfitModelRow {
+  customer: string;
+  model: string;
+  plan: ProfitFigures;
+  actual: ProfitFigures;
+  parts: ProfitPartRow[];
+}
+
+export interface ProfitCustomerRow {
+  customer: string;
+  plan: ProfitFigures;
+  actual: ProfitFigures;
+  models: ProfitModelRow[];
+}
+
+export interface ProfitabilityResult {
+  customers: ProfitCustomerRow[];
+  total: { plan: ProfitFigures; actual: ProfitFigures };
+  unmatchedActual: { rows: number; revenue: number };
+}
+
+export interface ParetoPoint {
+  label: string;
+  margin: number;
+  cumulativeShare: number;    // 0~100, 양(+)의 이익 합계 대비 누적 비중
+}
+
+type PnAliasSource = Pick<CalcAllParams, 'forecastData' | 'refInfo' | 'productCodes' | 'pnMapping'>;
+
+// ============================================
+// Helpers
+// ============================================
+
+const emptyFigures = (): ProfitFigures => ({ qty: 0, revenue: 0, costedRevenue: 0, material: 0 });
+
+const addFigures = (target: ProfitFigures, src: ProfitFigures) => {
+  target.qty += src.qty;
+  target.revenue += src.revenue;
+  target.costedRevenue += src.costedRevenue;
+  target.material += src.material;
+};
+
+const norm = (s: string) => (s || '').trim().toUpperCase();
+
+/** 한계이익(재료비 기준) = 산정 매출 - 재료비 */
+export const marginOf = (f: ProfitFigures) => f.costedRevenue - f.material;
+
+/** 이익률(%) — 산정 매출이 없으면 null */
+export const marginRateOf = (f: ProfitFigures): number | null =>
+  f.costedRevenue > 0 ? (marginOf(f) / f.costedRevenue) * 100 : null;
+
+/**
+ * 실적 품번 → Forecast 품번 별칭 맵.
+ * newPartNo, 기준정보/제품코드/P/N 매핑의 고객사 P/N ↔ 내부코드 양방향을 모두 Forecast 품번으로 모은다.
+ */
+export function buildPnAliases(products: ProductCostRow[], params: PnAliasSource): Map<string, string> {
+  const keys = new Set(products.map(p => normalizePn(p.pn || '')));
+  const aliases = new Map<string, string>();
+  keys.forEach(k => aliases.set(k, k));
+
+  const link = (a: string, b: string) => {
+    const na = normalizePn(a || '');
+    const nb = normalizePn(b || '');
+    if (!na || !nb) return;
+    if (keys.has(na) && !aliases.has(nb)) aliases.set(nb, na);
+    if (keys.has(nb) && !aliases.has(na)) aliases.set(na, nb);
+  };
+
+  for (const fc of params.forecastData) link(fc.partNo, fc.newPartNo);
+  for (const ri of params.refInfo) link(ri.itemCode, ri.customerPn);
+  for (const pc of params.productCodes) link(pc.productCode, pc.customerPn);
+  for (const m of params.pnMapping) link(m.internalCode, m.customerPn);
+  return aliases;
+}
+
+/** 실적 데이터에 존재하는 연도 (내림차순) */
+export function listActualYears(itemRevenue: ItemRevenueRow[]): number[] {
+  const years = new Set<number>();
+  for (const r of itemRevenue) {
+    const ym = parsePeriodMonth(r.period);
+    if (ym) years.add(ym.year);
+  }
+  return Array.from(years).sort((a, b) => b - a);
+}
+
+// ============================================
+// Aggregation
+// ============================================
+
+/**
+ * 고객사 → 차종 → 품목 수익성 집계.
+ * products는 calcAllProductCosts 결과(selectedMonth 반영), 실적은 year/month(-1 = 연간)로 필터한다.
+ */
+export function buildProfitability(
+  products: ProductCostRow[],
+  itemRevenue: ItemRevenueRow[],
+  aliases: Map<string, string>,
+  year: number,
+  month: number,
+): ProfitabilityResult {
+  const parts = new Map<string, ProfitPartRow>();
+
+  for (const p of products) {
+    const key = normalizePn(p.pn || '');
+    if (!key || parts.has(key)) continue;
+    const costed = p.materialCost > 0;
+    parts.set(key, {
+      key,
+      pn: p.pn,
+      name: p.name,
+      customer: p.customer || '(미지정)',
+      model: p.model || '(미지정)',
+      source: p.source,
+      materialCost: p.materialCost,
+      sellingPrice: p.sellingPrice,
+      matched: true,
+      plan: {
+        qty: p.planQty,
+        revenue: p.expectedRevenue,
+        costedRevenue: costed ? p.expectedRevenue : 0,
+        material: costed ? p.materialTotal : 0,
+      },
+      actual: emptyFigures(),
+    });
+  }
+
+  let unmatchedRows = 0;
+  let unmatchedRevenue = 0;
+
+  for (const r of itemRevenue) {
+    const ym = parsePeriodMonth(r.period);
+    if (!ym || ym.year !== year || (month !== -1 && ym.month !== month)) continue;
+
+    const key = aliases.get(normalizePn(r.partNo || '')) || aliases.get(normalizePn(r.customerPN || ''));
+    let part = key ? parts.get(key) : undefined;
+    if (!part) {
+      // Forecast에 없는 실적 품목 — 매출만 집계 (재료비 미산정)
+      unmatchedRows++;
+      unmatchedRevenue += r.amount || 0;
+      const pn = r.partNo || r.customerPN || '';
+      const actualKey = `actual:${norm(r.customer)}|${normalizePn(pn)}`;
+      part = parts.get(actualKey);
+      if (!part) {
+        part = {
+          key: actualKey,
+          pn,
+          name: r.partName || '',
+          customer: r.customer || '(미지정)',
+          model: r.model || '(미지정)',
+          source: '',
+          materialCost: 0,
+          sellingPrice: 0,
+          matched: false,
+          plan: emptyFigures(),
+          actual: emptyFigures(),
+        };
+        parts.set(actualKey, part);
+      }
+    }
+
+    const qty = r.qty || 0;
+    const amount = r.amount || 0;
+    part.actual.qty += qty;
+    part.actual.revenue += amount;
+    if (part.materialCost > 0) {
+      part.actual.costedRevenue += amount;
+      part.actual.material += qty * part.materialCost;
+    }
+  }
+
+  // 고객사 → 차종 그룹핑 (고객사/차종명은 대소문자·공백 무시)
+  const customers = new Map<string, ProfitCustomerRow>();
+  const models = new Map<string, ProfitModelRow>();
+  for (const part of parts.values()) {
+    if (part.plan.revenue === 0 && part.actual.revenue === 0 && part.plan.qty === 0 && part.actual.qty === 0) continue;
+    const ck = norm(part.customer);
+    let cust = customers.get(ck);
+    if (!cust) {
+      cust = { customer: part.customer, plan: emptyFigures(), actual: emptyFigures(), models: [] };
+      customers.set(ck, cust);
+    }
+    const mk = `${ck}||${norm(part.model)}`;
+    let model = models.get(mk);
+    if (!model) {
+      model = { customer: cust.customer, model: part.model, plan: emptyFigures(), actual: emptyFigures(), parts: [] };
+      models.set(mk, model);
+      cust.models.push(model);
+    }
+    model.parts.push(part);
+    addFigures(model.plan, part.plan);
+    addFigures(model.actual, part.actual);
+    addFigures(cust.plan, part.plan);
+    addFigures(cust.actual, part.actual);
+  }
+
+  const total = { plan: emptyFigures(), actual: emptyFigures() };
+  const byRevenue = (a: { plan: ProfitFigures; actual: ProfitFigures }, b: { plan: ProfitFigures; actual: ProfitFigures }) =>
+    (b.plan.revenue + b.actual.revenue) - (a.plan.revenue + a.actual.revenue);
+  const customerRows = Array.from(customers.values()).sort(byRevenue);
+  for (const c of customerRows) {
+    c.models.sort(byRevenue);
+    c.models.forEach(m => m.parts.sort(byRevenue));
+    addFigures(total.plan, c.plan);
+    addFigures(total.actual, c.actual);
+  }
+
+  return {
+    customers: customerRows,
+    total,
+    unmatchedActual: { rows: unmatchedRows, revenue: unmatchedRevenue },
+  };
+}
+
+/**
+ * Pareto 계열 — 이익 내림차순, 누적 비중은 양(+)의 이익 합계 대비.
+ * 흑자 항목까지 누적 100%에 도달하고, 이후 적자 항목이 누적 비중을 끌어내린다.
+ */
+export function buildPareto(rows: { label: string; figures: ProfitFigures }[]): ParetoPoint[] {
+  const sorted = rows
+    .map(r => ({ label: r.label, margin: marginOf(r.figures) }))
+    .filter(r => r.margin !== 0)
+    .sort((a, b) => b.margin - a.margin);
+  const positive = sorted.reduce((s, r) => s + Math.max(0, r.margin), 0);
+  let cumulative = 0;
+  return sorted.map(r => {
+    cumulative += r.margin;
+    return { ...r, cumulativeShare: positive > 0 ? (cumulative / positive) * 100 : 0 };
+  });
+}
@@ -1,3 +1,5 @@
+import { withMappingFallback } from './columnMapping';
+import type { ColumnMappingProfile } from './columnMapping';
 
 export interface PurchaseItem {
   id: string;
@@ -56,15 +58,40 @@ const parseDateInfo = (dateStr: string) => {
   return { year, month };
 };
 
+// 컬럼 매핑 프로필로 읽은 행 → PurchaseItem (금액이 없으면 수량 × 단가)
+const fromMappedRow = (row: Record<string, string>, index: number, category: PurchaseItem['category']): PurchaseItem | null => {
+  if (!row.itemCode) return null;
+  const dateStr = (row.date || '').replace(/[./]/g, '-');
+  const { year, month } = parseDateInfo(dateStr);
+  const qty = parseNumber(row.qty);
+  const unitPrice = parseNumber(row.unitPrice);
+  return {
+    id: `${category === 'Parts' ? 'part' : 'mat'}-map-${index}-${Date.now()}`,
+    year,
+    month,
+    date: dateStr,
+    supplier: row.supplier || '',
+    type: row.type || (category === 'Parts' ? '부품' : ''),
+    category,
+    itemCode: row.itemCode,
+    customerPn: row.customerPn || '',
+    itemName: row.itemName || '',
+    spec: row.spec || '',
+    unit: row.unit || '',
+    qty,
+    unitPrice,
+    amount: row.amount ? parseNumber(row.amount) : qty * unitPrice,
+  };
+};
+
 // Parser for Parts CSV
 // Columns: Index, 입고일자(1), 발주처(2), ..., 부품코드(5), ..., 부품명(7), 규격(8), 단위(9), 자재유형(10), ..., 입고수량(14), ..., 단가(19), 금액(20)
-export const parsePartsCSV = (csvContent: string): PurchaseItem[] => {
+// 자동 인식 실패 시 profile(컬럼 매핑 프로필)로 다시 읽음
+export const parsePartsCSV = (csvContent: string, profile?: ColumnMappingProfile | null): PurchaseItem[] => {
   const lines = csvContent.split('\n').filter(line => line.trim() !== '');
-  if (lines.length < 2) return [];
-
   const dataRows = lines.slice(1);
-  
-  return dataRows.map((line, index) => {
+
+  const items = dataRows.map((line, index) => {
     const cols = splitCSVLine(line);
     // Safety check for empty lines or bad rows
     if (cols.length < 15) return null;
@@ -90,17 +117,17 @@ export const parsePartsCSV = (csvContent: string): PurchaseItem[] => {
       amount: parseNumber(cols[20]) // 금액
     };
   }).filter(item => item !== null) as PurchaseItem[];
+
+  return withMappingFallback(items, csvContent, profile, (row, index) => fromMappedRow(row, index, 'Parts'));
 };
 
 // Parser for Material CSV
 // Columns: Index, 입고일자(1), 원재료종류(2), 발주처(3), 재질코드(4), 재질명(5), 단위(6), ..., 입고수량(8), ..., 단가(13), 금액(14)
-export const parseMaterialCSV = (csvContent: string): PurchaseItem[] => {
+export const parseMaterialCSV = (csvContent: string, profile?: ColumnMappingProfile | null): PurchaseItem[] => {
   const lines = csvContent.split('\n').filter(line => line.trim() !== '');
-  if (lines.length < 2) return [];
-
   const dataRows = lines.slice(1);
-  
-  return dataRows.map((line, index) => {
+
+  const items = dataRows.map((line, index) => {
     const cols = splitCSVLine(line);
     if (cols.length < 10) return null;
 
@@ -124,4 +151,6 @@ export const parseMaterialCSV = (csvContent: string): PurchaseItem[] => {
       amount: parseNumber(cols[14]) // 금액
     };
   }).filter(item => item !== null) as PurchaseItem[];
+
+  return withMappingFallback(items, csvContent, profile, (row, index) => fromMappedRow(row, index, 'Material'));
 };
@@ -0,0 +1,167 @@
+/**
+ * purchaseOrderBuilder — 시간단계 MRP 계획발주 → 업체별 다품목 발주서 생성
+ * 발행된 발주서의 미입고 라인은 다음 MRP 계산 시 입고예정(open supply)으로 반영
+ */
+import { normalizePn } from './bomDataParser';
+import type { MaterialCodeRecord } from './bomMasterParser';
+import type { PurchasePrice } from './standardMaterialParser';
+import type { MaterialMrpPlan } from './mrpPlanningEngine';
+
+// ============================================================
+// Types
+// ============================================================
+
+export type PurchaseOrderStatus = 'open' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  lineNo: number;
+  materialCode: string;
+  materialName: string;
+  materialType: string;
+  unit: string;
+  qty: number;
+  unitPrice: number;
+  amount: number;
+  deliveryDate: string;    // YYYY-MM-DD (계획입고일)
+  priceSource: string;     // 구매단가 / 재질단가 / MRP
+}
+
+export interface PurchaseOrder {
+  poNumber: string;        // PO-YYYYMMDD-001
+  supplier: string;
+  issueDate: string;       // YYYY-MM-DD
+  horizonFrom: string;     // YYYY-MM
+  horizonTo: string;       // YYYY-MM
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  totalQty: number;
+  totalAmount: number;
+  createdAt: string;
+}
+
+export interface BuildPurchaseOrderParams {
+  plans: MaterialMrpPlan[];
+  year: number;
+  fromMonth: number;       // 0~11 (포함)
+  toMonth: number;         // 0~11 (포함)
+  purchasePrices: PurchasePrice[];
+  materialCodes: MaterialCodeRecord[];
+  existingPoNumbers: string[];
+  issueDate?: Date;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const toDateStr = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+const toMonthStr = (year: number, month: number) => `${year}-${String(month + 1).padStart(2, '0')}`;
+
+/** 발주번호 채번: 발행일 기준 일련번호 (기존 번호와 중복 방지) */
+export function nextPoNumbers(issueDate: Date, count: number, existing: string[]): string[] {
+  const prefix = `PO-${toDateStr(issueDate).replace(/-/g, '')}-`;
+  let seq = existing
+    .filter(n => n.startsWith(prefix))
+    .reduce((max, n) => Math.max(max, parseInt(n.slice(prefix.length)) || 0), 0);
+  return Array.from({ length: count }, () => `${prefix}${String(++seq).padStart(3, '0')}`);
+}
+
+/** 발주 단가: 구매단가 → 재질단가 → MRP 산출단가 */
+function resolveUnitPrice(
+  code: string,
+  fallback: number,
+  purchaseMap: Map<string, number>,
+  materialMap: Map<string, number>,
+): { price: number; source: string } {
+  const pp = purchaseMap.get(code);
+  if (pp && pp > 0) return { price: pp, source: '구매단가' };
+  const mp = materialMap.get(code);
+  if (mp && mp > 0) return { price: mp, source: '재질단가' };
+  return { price: fallback, source: 'MRP' };
+}
+
+// ============================================================
+// Main
+// ============================================================
+
+export function buildPurchaseOrders(params: BuildPurchaseOrderParams): PurchaseOrder[] {
+  const { plans, year, fromMonth, toMonth, purchasePrices, materialCodes, existingPoNumbers } = params;
+  const issueDate = params.issueDate || new Date();
+
+  const purchaseMap = new Map<string, number>();
+  for (const pp of purchasePrices) {
+    if (pp.currentPrice <= 0) continue;
+    purchaseMap.set(normalizePn(pp.itemCode), pp.currentPrice);
+    if (pp.customerPn && !purchaseMap.has(normalizePn(pp.customerPn))) purchaseMap.set(normalizePn(pp.customerPn), pp.currentPrice);
+  }
+  const materialMap = new Map<string, number>();
+  for (const mc of materialCodes) {
+    if (mc.currentPrice > 0) materialMap.set(normalizePn(mc.materialCode), mc.currentPrice);
+  }
+
+  // 업체별 라인 수집
+  const bySupplier = new Map<string, Omit<PurchaseOrderLine, 'lineNo'>[]>();
+  for (const plan of plans) {
+    const orders = plan.plannedOrders.filter(po => po.qty > 0 && po.dueMonth >= fromMonth && po.dueMonth <= toMonth);
+    if (orders.length === 0) continue;
+    const code = normalizePn(plan.materialCode);
+    const { price, source } = resolveUnitPrice(code, plan.unitPrice, purchaseMap, materialMap);
+    const supplier = plan.supplier || '(미지정)';
+    const lines = bySupplier.get(supplier) || [];
+    for (const po of orders) {
+      lines.push({
+        materialCode: plan.materialCode,
+        materialName: plan.materialName,
+        materialType: plan.materialType,
+        unit: plan.unit,
+        qty: po.qty,
+        unitPrice: price,
+        amount: po.qty * price,
+        deliveryDate: po.dueDate,
+        priceSource: source,
+      });
+    }
+    bySupplier.set(supplier, lines);
+  }
+
+  const suppliers = Array.from(bySupplier.keys()).sort((a, b) => a.localeCompare(b, 'ko'));
+  const poNumbers = nextPoNumbers(issueDate, suppliers.length, existingPoNumbers);
+  const createdAt = new Date().toISOString();
+
+  return suppliers.map((supplier, idx) => {
+    const lines = (bySupplier.get(supplier) || [])
+      .sort((a, b) => a.deliveryDate.localeCompare(b.deliveryDate) || a.materialCode.localeCompare(b.materialCode))
+      .map((l, i) => ({ ...l, lineNo: i + 1 }));
+    return {
+      poNumber: poNumbers[idx],
+      supplier,
+      issueDate: toDateStr(issueDate),
+      horizonFrom: toMonthStr(year, fromMonth),
+      horizonTo: toMonthStr(year, toMonth),
+      status: 'open' as PurchaseOrderStatus,
+      lines,
+      totalQty: lines.reduce((s, l) => s + l.qty, 0),
+      totalAmount: lines.reduce((s, l) => s + l.amount, 0),
+      createdAt,
+    };
+  });
+}
+
+/** 미입고(open) 발주 라인 → 자재별 월간 입고예정 (MRP scheduledReceipts) */
+export function openSupplyByMaterial(orders: PurchaseOrder[], year: number): Map<string, number[]> {
+  const map = new Map<string, number[]>();
+  for (const po of orders) {
+    if (po.status !== 'open') continue;
+    for (const line of po.lines) {
+      const [y, m] = line.deliveryDate.split('-').map(Number);
+      if (y !== year || !(m >= 1 && m <= 12)) continue;
+      const code = normalizePn(line.materialCode);
+      const arr = map.get(code) || new Array(12).fill(0);
+      arr[m - 1] += line.qty;
+      map.set(code, arr);
+    }
+  }
+  return map;
+}
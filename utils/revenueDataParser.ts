@@ -1,3 +1,6 @@
+import { withMappingFallback } from './columnMapping';
+import type { ColumnMappingProfile } from './columnMapping';
+
 export interface RevenueItem {
   id: number;
   year: number;      // 고객사별 매출현황에서 사용
@@ -61,14 +64,14 @@ const normalizeMonth = (value: string): string => {
 
 // 기존 고객사별 매출현황 CSV 파서
 // CSV: Index, Month, Customer, Model, Qty, Amount
-export const parseRevenueCSV = (csvContent: string, year: number): RevenueItem[] => {
+// 자동 인식 실패 시 profile(컬럼 매핑 프로필)로 다시 읽음
+export const parseRevenueCSV = (csvContent: string, year: number, profile?: ColumnMappingProfile | null): RevenueItem[] => {
   const lines = csvContent.split('\n').filter(line => line.trim() !== '');
-  if (lines.length < 2) return [];
 
   // 첫 줄은 헤더라고 가정
   const dataRows = lines.slice(1);
 
-  return dataRows.map((line, index) => {
+  const items = dataRows.map((line, index) => {
     const cols = splitCSVLine(line);
     return {
       id: Date.now() + index + year * 10000,
@@ -80,11 +83,34 @@ export const parseRevenueCSV = (csvContent: string, year: number): RevenueItem[]
       amount: parseNumber(cols[5])
     };
   });
+
+  return withMappingFallback(items, csvContent, profile, (row, index) => ({
+    id: Date.now() + index + year * 10000,
+    year,
+    month: normalizeMonth(row.month || ''),
+    customer: row.customer || 'Unknown',
+    model: row.model || '',
+    qty: parseNumber(row.qty),
+    amount: parseNumber(row.amount),
+  }));
 };
 
+// 컬럼 매핑 프로필로 읽은 행 → ItemRevenueRow
+const fromMappedItemRevenue = (row: Record<string, string>, index: number): ItemRevenueRow => ({
+  id: Date.now() + index,
+  period: row.period || '',
+  customer: row.customer || '',
+  model: row.model || '',
+  partNo: row.partNo || '',
+  customerPN: row.customerPN || '',
+  partName: row.partName || '',
+  qty: parseNumber(row.qty),
+  amount: parseNumber(row.amount),
+});
+
 // 품목별 매출 업로더용 CSV 파서
 // 업로더: (첫 열 이름 없음), 매출기간, 고객사, model, 품번, 고객사p/n, 품명, 매출수량, 매출금액
-export const parseItemRevenueCSV = (csvContent: string): ItemRevenueRow[] => {
+export const parseItemRevenueCSV = (csvContent: string, profile?: ColumnMappingProfile | null): ItemRevenueRow[] => {
   const cleanText = csvContent.replace(/^\uFEFF/, '');
   const lines = cleanText.split('\n').filter(line => line.trim() !== '');
   
@@ -92,7 +118,7 @@ export const parseItemRevenueCSV = (csvContent: string): ItemRevenueRow[] => {
   
   if (lines.length < 2) {
     console.warn('품목별 매출 CSV: 데이터가 없습니다 (최소 2줄 필요: 헤더 + 데이터)');
-    return [];
+    return withMappingFallback([], csvContent, profile, fromMappedItemRevenue);
   }
 
   const headerCols = splitCSVLine(lines[0]);
@@ -155,6 +181,6 @@ export const parseItemRevenueCSV = (csvContent: string): ItemRevenueRow[] => {
     console.error('📊 예상 형식: (첫 열 비움), 매출기간, 고객사, model, 품번, 고객사p/n, 품명, 매출수량, 매출금액');
   }
 
-  return result;
+  return withMappingFallback(result, csvContent, profile, fromMappedItemRevenue);
 };
 
@@ -15,8 +15,17 @@ export interface RFQItem {
   unitPrice: number;
   amount: number;
   remark: string;
+  lostReason?: string;   // 실주 사유 (수주 실패/포기/Drop 건)
 }
 
+/**
+ * RFQ 고정 키 (순번|고객사). Supabase rfq_data id는 업로드·전체 재저장 시 새로 발급되므로
+ * 견적/실주사유/등록 이력/동기화 병합 등 RFQ에 연결되는 데이터는 이 키로 매칭한다.
+ * 순번이 없으면 내용 키(고객사|프로젝트|차종|공정 — 업로드 비교 키와 동일).
+ */
+export const rfqKey = (item: Pick<RFQItem, 'index' | 'customer' | 'projectName' | 'model' | 'process'>): string =>
+  item.index ? `${item.index}|${item.customer}` : `${item.customer}|${item.projectName}|${item.model}|${item.process}`;
+
 // Helper to parse number string with currency symbols and commas
 const parseCurrency = (value: string | undefined): number => {
   if (!value) return 0;
@@ -81,7 +90,7 @@ export const parseRFQCSV = (csvContent: string): RFQItem[] => {
   dataRows.forEach((cols, idx) => {
     // Expected Columns based on CSV:
     // 0: 순번, 1: Customer, 2: Project Type, 3: Project Name, 4: Process, 5: Status, 
-    // 6: Selection Date, 7: Quote Date, 8: PO Date, 9: Model, 10: Qty, 11: Unit Price, 12: Amount, 13: Remark
+    // 6: Selection Date, 7: Quote Date, 8: PO Date, 9: Model, 10: Qty, 11: Unit Price, 12: Amount, 13: Remark, 14: Lost Reason (선택)
     
     if (cols.length < 5) return; // Skip empty or malformed rows
 
@@ -103,7 +112,8 @@ export const parseRFQCSV = (csvContent: string): RFQItem[] => {
       qty: parseCurrency(cols[10]),
       unitPrice: parseCurrency(cols[11]),
       amount: parseCurrency(cols[12]),
-      remark: cols[13] || ''
+      remark: cols[13] || '',
+      lostReason: cols[14] || undefined
     });
   });
 
@@ -0,0 +1,283 @@
+/**
+ * rfqPipeline — RFQ 파이프라인 / 수주·실주 분석
+ *
+ * 현상태(status)를 단계로 분류: 접수 → 견적 → 수주 검토 → 수주 → 개발 → 양산 (실주: 실패/포기/Drop)
+ *  - 퍼널: 각 단계 이상 도달 건수 (견적일이 있으면 견적 단계까지 도달한 것으로 본다)
+ *  - 가중 파이프라인: 진행 건의 월 매출(amount) × 단계별 수주 확률, 예상 PO 월별 집계
+ *    예상 PO 월 = 최초주문일 → 견적일 + 평균 견적→PO 소요일 → 미정
+ *  - 수주율: 결정 건(수주 + 실주) 기준, 고객사/공정별
+ */
+import type { RFQItem } from './rfqDataParser';
+
+// ============================================
+// Types
+// ============================================
+
+export type RfqStage = 'open' | 'quoting' | 'review' | 'won' | 'development' | 'production' | 'lost';
+
+/** 퍼널 순서 (실주 제외) */
+export const RFQ_FUNNEL_STAGES: RfqStage[] = ['open', 'quoting', 'review', 'won', 'development', 'production'];
+
+export const RFQ_STAGE_LABEL: Record<RfqStage, string> = {
+  open: '접수',
+  quoting: '견적',
+  review: '수주 검토',
+  won: '수주',
+  development: '개발',
+  production: '양산',
+  lost: '실주',
+};
+
+export type StageProbability = Record<RfqStage, number>;
+
+/** 단계별 기본 수주 확률 (%) */
+export const DEFAULT_STAGE_PROBABILITY: StageProbability = {
+  open: 10,
+  quoting: 30,
+  review: 50,
+  won: 100,
+  development: 100,
+  production: 100,
+  lost: 0,
+};
+
+export const LOST_REASON_OPTIONS = ['가격', '기술/사양', '납기/일정', '고객 프로젝트 취소', '경쟁사 기존 공급', '내부 리소스 부족', '기타'];
+
+export interface FunnelStep {
+  stage: RfqStage;
+  reached: number;          // 해당 단계 이상 도달 건수
+  current: number;          // 현재 해당 단계 건수
+  amount: number;           // 도달 건 월 매출 합
+  conversion: number | null; // 직전 단계 대비 전환율 (%)
+}
+
+export interface PipelineMonth {
+  month: string;            // YYYY-MM / 'overdue' / 'unknown'
+  raw: number;              // 월 매출 합 (가중 전)
+  weighted: number;         // 확률 가중
+  count: number;
+  byStage: Partial<Record<RfqStage, number>>; // 단계별 가중 금액
+}
+
+export interface WinRateRow {
+  key: string;
+  total: number;
+  won: number;
+  lost: number;
+  open: number;
+  winRate: number | null;   // 결정 건 기준 (%)
+  wonAmount: number;
+  avgCycleDays: number | null;
+}
+
+export interface CycleStats {
+  count: number;
+  avg: number | null;
+  median: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+export interface LostReasonRow {
+  reason: string;
+  count: number;
+  amount: number;
+}
+
+export interface PipelineAnalytics {
+  funnel: FunnelStep[];
+  pipeline: PipelineMonth[];
+  byCustomer: WinRateRow[];
+  byProcess: WinRateRow[];
+  quoteToPo: CycleStats;
+  selectionToQuote: CycleStats;
+  lostReasons: LostReasonRow[];
+  lostWithoutReason: RFQItem[];
+  totals: { won: number; lost: number; open: number; winRate: number | null; weightedPipeline: number };
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+export function classifyRfqStage(item: Pick<RFQItem, 'status'>): RfqStage {
+  const s = (item.status || '').replace(/\s+/g, '');
+  if (/실패|포기|Drop/i.test(s)) return 'lost';
+  if (s.includes('양산')) return 'production';
+  if (s.includes('개발')) return 'development';
+  if (s.includes('수주검토')) return 'review';
+  if (s.includes('수주')) return 'won';
+  if (/가격|견적/.test(s)) return 'quoting';
+  return 'open';
+}
+
+export const isWonStage = (stage: RfqStage) => stage === 'won' || stage === 'development' || stage === 'production';
+
+const DAY_MS = 86400000;
+
+const parseDate = (v: string): Date | null => {
+  if (!v || !/^\d{4}-\d{2}-\d{2}/.test(v)) return null;
+  const d = new Date(v.slice(0, 10) + 'T00:00:00');
+  return isNaN(d.getTime()) ? null : d;
+};
+
+const daysBetween = (from: string, to: string): number | null => {
+  const a = parseDate(from);
+  const b = parseDate(to);
+  if (!a || !b) return null;
+  const days = Math.round((b.getTime() - a.getTime()) / DAY_MS);
+  return days >= 0 ? days : null;
+};
+
+const monthKey = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+
+const cycleStats = (values: number[]): CycleStats => {
+  if (values.length === 0) return { count: 0, avg: null, median: null, min: null, max: null };
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return {
+    count: sorted.length,
+    avg: sorted.reduce((s, v) => s + v, 0) / sorted.length,
+    median: sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  };
+};
+
+/**
+ * 견적일까지 반영한 도달 단계 (퍼널 index). 실주 건은 접수 + 견적일 유무로만 판단.
+ * 최초주문일은 진행 건에서 '예상' PO일로도 쓰이므로 도달 근거로 보지 않는다.
+ */
+const reachedIndex = (item: RFQItem, stage: RfqStage): number => {
+  const idx = stage === 'lost' ? 0 : RFQ_FUNNEL_STAGES.indexOf(stage);
+  return item.dateQuotation && idx < 1 ? 1 : idx;
+};
+
+const winRateRows = (items: RFQItem[], keyOf: (i: RFQItem) => string): WinRateRow[] => {
+  const map = new Map<string, { row: WinRateRow; cycles: number[] }>();
+  for (const item of items) {
+    const key = keyOf(item).trim() || '(미지정)';
+    const entry = map.get(key) || {
+      row: { key, total: 0, won: 0, lost: 0, open: 0, winRate: null, wonAmount: 0, avgCycleDays: null },
+      cycles: [],
+    };
+    const stage = classifyRfqStage(item);
+    entry.row.total++;
+    if (isWonStage(stage)) {
+      entry.row.won++;
+      entry.row.wonAmount += item.amount || 0;
+      const days = daysBetween(item.dateQuotation, item.datePO);
+      if (days !== null) entry.cycles.push(days);
+    } else if (stage === 'lost') {
+      entry.row.lost++;
+    } else {
+      entry.row.open++;
+    }
+    map.set(key, entry);
+  }
+  return Array.from(map.values())
+    .map(({ row, cycles }) => ({
+      ...row,
+      winRate: row.won + row.lost > 0 ? (row.won / (row.won + row.lost)) * 100 : null,
+      avgCycleDays: cycles.length > 0 ? cycles.reduce((s, v) => s + v, 0) / cycles.length : null,
+    }))
+    .sort((a, b) => b.total - a.total || a.key.localeCompare(b.key));
+};
+
+// ============================================
+// Analytics
+// ============================================
+
+export function buildPipelineAnalytics(
+  items: RFQItem[],
+  probability: StageProbability = DEFAULT_STAGE_PROBABILITY,
+  today: Date = new Date(),
+): PipelineAnalytics {
+  const staged = items.map(item => ({ item, stage: classifyRfqStage(item) }));
+
+  // 퍼널
+  const funnel: FunnelStep[] = RFQ_FUNNEL_STAGES.map(stage => ({ stage, reached: 0, current: 0, amount: 0, conversion: null }));
+  for (const { item, stage } of staged) {
+    const idx = reachedIndex(item, stage);
+    for (let i = 0; i <= idx; i++) {
+      funnel[i].reached++;
+      funnel[i].amount += item.amount || 0;
+    }
+    if (stage !== 'lost') funnel[RFQ_FUNNEL_STAGES.indexOf(stage)].current++;
+  }
+  funnel.forEach((step, i) => {
+    if (i > 0 && funnel[i - 1].reached > 0) step.conversion = (step.reached / funnel[i - 1].reached) * 100;
+  });
+
+  // 주기
+  const quoteToPo = cycleStats(
+    staged
+      .filter(({ stage }) => isWonStage(stage))
+      .map(({ item }) => daysBetween(item.dateQuotation, item.datePO))
+      .filter((d): d is number => d !== null),
+  );
+  const selectionToQuote = cycleStats(
+    items.map(i => daysBetween(i.dateSelection, i.dateQuotation)).filter((d): d is number => d !== null),
+  );
+
+  // 가중 파이프라인 (예상 PO 월)
+  const currentMonth = monthKey(today);
+  const months = new Map<string, PipelineMonth>();
+  const avgLead = quoteToPo.avg;
+  for (const { item, stage } of staged) {
+    if (stage === 'lost' || stage === 'production') continue;
+    let expected: string;
+    const po = parseDate(item.datePO);
+    const quote = parseDate(item.dateQuotation);
+    if (po) expected = monthKey(po);
+    else if (quote && avgLead !== null) expected = monthKey(new Date(quote.getTime() + avgLead * DAY_MS));
+    else expected = 'unknown';
+
+    if (expected !== 'unknown' && expected < currentMonth) {
+      // 이미 PO가 발행된 수주 건은 수주 실적이므로 제외, 미결 건은 지연으로 분류
+      if (isWonStage(stage)) continue;
+      expected = 'overdue';
+    }
+    const raw = item.amount || 0;
+    const weighted = raw * (probability[stage] || 0) / 100;
+    const entry = months.get(expected) || { month: expected, raw: 0, weighted: 0, count: 0, byStage: {} };
+    entry.raw += raw;
+    entry.weighted += weighted;
+    entry.count++;
+    entry.byStage[stage] = (entry.byStage[stage] || 0) + weighted;
+    months.set(expected, entry);
+  }
+  const order = (m: string) => (m === 'overdue' ? '0000' : m === 'unknown' ? '9999' : m);
+  const pipeline = Array.from(months.values()).sort((a, b) => order(a.month).localeCompare(order(b.month)));
+
+  // 실주 사유
+  const lostItems = staged.filter(({ stage }) => stage === 'lost').map(({ item }) => item);
+  const reasonMap = new Map<string, LostReasonRow>();
+  for (const item of lostItems) {
+    const reason = item.lostReason?.trim() || '미입력';
+    const row = reasonMap.get(reason) || { reason, count: 0, amount: 0 };
+    row.count++;
+    row.amount += item.amount || 0;
+    reasonMap.set(reason, row);
+  }
+
+  const won = staged.filter(({ stage }) => isWonStage(stage)).length;
+  const lost = lostItems.length;
+  return {
+    funnel,
+    pipeline,
+    byCustomer: winRateRows(items, i => i.customer),
+    byProcess: winRateRows(items, i => i.process),
+    quoteToPo,
+    selectionToQuote,
+    lostReasons: Array.from(reasonMap.values()).sort((a, b) => b.count - a.count || b.amount - a.amount),
+    lostWithoutReason: lostItems.filter(i => !i.lostReason?.trim()),
+    totals: {
+      won,
+      lost,
+      open: items.length - won - lost,
+      winRate: won + lost > 0 ? (won / (won + lost)) * 100 : null,
+      weightedPipeline: pipeline.reduce((s, m) => s + m.weighted, 0),
+    },
+  };
+}
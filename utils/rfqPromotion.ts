@@ -0,0 +1,191 @@
+/**
+ * rfqPromotion — 수주 RFQ → 제품코드 / 기준정보(골격) / 매출계획 초안 등록
+ *
+ * RFQ 월평균수량 × 12 = 연간 수량을 SOP(최초주문) 월부터 월별로 배분해 Forecast 초안 라인을 만든다.
+ * 생성된 마스터/계획 라인은 RfqPromotion 이력으로 원 RFQ와 연결한다.
+ * (RFQ id는 재업로드 시 바뀌므로 고정 키(순번|고객사)로 저장하고, 순번이 바뀐 경우를 위해 고객사·프로젝트명 스냅샷으로도 매칭)
+ */
+import { normalizePn } from './bomDataParser';
+import { RFQItem, rfqKey } from './rfqDataParser';
+import { emptyReferenceInfo } from './bomMasterParser';
+import type { ProductCodeRecord, ReferenceInfoRecord } from './bomMasterParser';
+import type { ForecastItem, ForecastSummary } from './salesForecastParser';
+
+// ============================================
+// Types
+// ============================================
+
+export interface RfqPromotionDraft {
+  productCode: string;        // 제품코드 (= 기준정보 품목코드)
+  customerPn: string;         // 고객사 P/N (= Forecast P/N)
+  productName: string;
+  customer: string;
+  model: string;
+  processType: string;        // 기준정보 품목유형
+  category: string;           // Forecast 구분
+  unitPrice: number;
+  annualQty: number;
+  forecastYear: number;
+  startMonth: number;         // 0~11, SOP 월
+}
+
+export interface RfqPromotion {
+  rfqKey: string;             // RFQ 고정 키 (rfqKey)
+  rfqIndex: string;
+  rfqCustomer: string;
+  rfqProject: string;
+  productCode: string;
+  customerPn: string;
+  forecastYear: number;
+  annualQty: number;
+  unitPrice: number;
+  promotedAt: string;
+  promotedBy?: string;
+}
+
+export interface PromotionPlan {
+  missing: string[];          // 누락 필수값
+  existing: { productCode: boolean; refInfo: boolean; forecast: boolean };
+}
+
+export interface PromotionResult {
+  productCode: ProductCodeRecord;
+  refInfo: ReferenceInfoRecord;
+  forecastItem: ForecastItem;
+}
+
+// ============================================
+// Draft
+// ============================================
+
+/** SOP 월: 최초주문일이 계획 연도 안이면 해당 월, 이전이면 1월, 이후면 -1(계획 연도 내 물량 없음) */
+export function sopMonth(datePO: string, year: number): number {
+  const m = /^(\d{4})-(\d{2})/.exec(datePO || '');
+  if (!m) return 0;
+  const poYear = Number(m[1]);
+  if (poYear < year) return 0;
+  if (poYear > year) return -1;
+  return Math.min(Math.max(Number(m[2]) - 1, 0), 11);
+}
+
+export function draftFromRfq(rfq: RFQItem, forecastYear: number): RfqPromotionDraft {
+  return {
+    productCode: '',
+    customerPn: '',
+    productName: rfq.projectName,
+    customer: rfq.customer,
+    model: rfq.model,
+    processType: '',
+    category: rfq.projectType,
+    unitPrice: rfq.unitPrice,
+    annualQty: Math.round((rfq.qty || 0) * 12),
+    forecastYear,
+    startMonth: sopMonth(rfq.datePO, forecastYear),
+  };
+}
+
+/**
+ * 연간 수량을 12개월 런레이트로 나눠 SOP 월부터 배분 (SOP 이전 월은 0).
+ * 정수 배분 시 나머지는 앞쪽 월부터 1씩 더해 12개월 합계가 연간 수량과 같도록 한다.
+ */
+export function spreadAnnualQty(annualQty: number, startMonth: number): number[] {
+  const qty = Math.max(0, Math.round(annualQty));
+  const base = Math.floor(qty / 12);
+  const remainder = qty - base * 12;
+  const monthly = Array.from({ length: 12 }, (_, i) => base + (i < remainder ? 1 : 0));
+  if (startMonth < 0) return Array(12).fill(0);
+  return monthly.map((v, i) => (i >= startMonth ? v : 0));
+}
+
+/**
+ * 등록 계획: 필수값 누락 검사 + 이미 존재하는 대상 확인.
+ * 이미 있는 제품코드/기준정보/매출계획 라인은 새로 만들지 않고 RFQ 연결만 기록한다.
+ */
+export function planPromotion(
+  draft: RfqPromotionDraft,
+  productCodes: ProductCodeRecord[],
+  refInfo: ReferenceInfoRecord[],
+  forecast: ForecastItem[],
+): PromotionPlan {
+  const code = normalizePn(draft.productCode);
+  const pn = normalizePn(draft.customerPn);
+  const missing: string[] = [];
+  if (!code) missing.push('제품코드');
+  if (!pn) missing.push('고객사 P/N');
+  if (!draft.customer.trim()) missing.push('고객사');
+  return {
+    missing,
+    existing: {
+      productCode: !!code && productCodes.some(p => normalizePn(p.productCode) === code),
+      refInfo: !!code && refInfo.some(r => normalizePn(r.itemCode) === code),
+      forecast: !!pn && forecast.some(f => normalizePn(f.partNo) === pn || normalizePn(f.newPartNo) === pn),
+    },
+  };
+}
+
+/** RFQ에 연결된 등록 이력: 고정 키 우선, 없으면 고객사·프로젝트명 스냅샷 */
+export function findPromotion(promotions: RfqPromotion[], rfq: RFQItem): RfqPromotion | undefined {
+  const key = rfqKey(rfq);
+  return promotions.find(p => p.rfqKey === key)
+    || (rfq.projectName
+      ? promotions.find(p => p.rfqCustomer === rfq.customer && p.rfqProject === rfq.projectName)
+      : undefined);
+}
+
+// ============================================
+// Build
+// ============================================
+
+export function buildPromotion(draft: RfqPromotionDraft, forecast: ForecastItem[]): PromotionResult {
+  const productCode = draft.productCode.trim();
+  const customerPn = draft.customerPn.trim();
+  const monthlyQty = spreadAnnualQty(draft.annualQty, draft.startMonth);
+  const monthlyRevenue = monthlyQty.map(q => q * draft.unitPrice);
+
+  return {
+    productCode: {
+      productCode,
+      customerPn,
+      productName: draft.productName,
+      customer: draft.customer,
+      model: draft.model,
+    },
+    refInfo: emptyReferenceInfo(productCode, {
+      customerPn,
+      itemName: draft.productName,
+      customerName: draft.customer,
+      variety: draft.model,
+      itemStatus: '개발',
+      itemCategory: '제품',
+      processType: draft.processType,
+      productGroup: draft.category,
+    }),
+    forecastItem: {
+      no: forecast.reduce((max, f) => Math.max(max, Number(f.no) || 0), 0) + 1,
+      customer: draft.customer,
+      model: draft.model,
+      stage: '신규',
+      partNo: customerPn,
+      newPartNo: '',
+      type: '',
+      unitPrice: draft.unitPrice,
+      category: draft.category,
+      partName: draft.productName,
+      monthlyQty,
+      totalQty: monthlyQty.reduce((s, v) => s + v, 0),
+      monthlyRevenue,
+      totalRevenue: monthlyRevenue.reduce((s, v) => s + v, 0),
+    },
+  };
+}
+
+/** Forecast 합계(요약)에 신규 라인 반영 */
+export function addToForecastSummary(summary: ForecastSummary, item: ForecastItem): ForecastSummary {
+  return {
+    ...summary,
+    monthlyQtyTotals: summary.monthlyQtyTotals.map((v, i) => v + (item.monthlyQty[i] || 0)),
+    monthlyRevenueTotals: summary.monthlyRevenueTotals.map((v, i) => v + (item.monthlyRevenue[i] || 0)),
+    totalQty: summary.totalQty + item.totalQty,
+    totalRevenue: summary.totalRevenue + item.totalRevenue,
+  };
+}
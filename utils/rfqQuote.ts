@@ -0,0 +1,211 @@
+/**
+ * rfqQuote — RFQ 견적 원가 산출 (bomCostEngine 단가 로직 재사용)
+ *
+ * 견적 BOM(가안)의 각 라인은
+ *  - existing : 기존 품번 → getNodePrice (구매 → 사출 → 도장 → 재질 → 표준)
+ *  - injection: 가안 사양(원재료/NET·Runner 중량/Cavity/Loss율) → 사출공식
+ *  - paint    : 가안 사양(도료코드/도장 취수) → getPaintInfo 배합비 공식
+ *  - manual   : 수기 단가
+ * 가안 라인은 임시 기준정보(ReferenceInfoRecord)를 만들어 엔진 함수에 그대로 태운다.
+ * 제안 단가 = (재료비 + 가공비) × (1 + 관리비율) ÷ (1 - 목표 이익률)
+ */
+import { normalizePn } from './bomDataParser';
+import type { BomRecord } from './bomDataParser';
+import { emptyReferenceInfo } from './bomMasterParser';
+import type { ReferenceInfoRecord, MaterialCodeRecord } from './bomMasterParser';
+import type { PurchasePrice, OutsourcePrice, PaintMixRatio, ItemStandardCost } from './standardMaterialParser';
+import {
+  buildPriceData, buildRefInfoMap, buildPaintMixMap, getNodePrice, getPaintInfo,
+} from './bomCostEngine';
+import type { PriceData, PaintDetail } from './bomCostEngine';
+
+// ============================================
+// Types
+// ============================================
+
+export type QuoteLineKind = 'existing' | 'injection' | 'paint' | 'manual';
+
+export const QUOTE_LINE_KIND_LABEL: Record<QuoteLineKind, string> = {
+  existing: '기존 품번',
+  injection: '사출 (가안)',
+  paint: '도장 (가안)',
+  manual: '수기 단가',
+};
+
+export interface QuoteLine {
+  id: string;
+  kind: QuoteLineKind;
+  partNo: string;             // existing: 기존 품번 / 그 외: 가품번(표시용)
+  partName: string;
+  qty: number;                // 제품 1EA당 소요량
+  // 사출 사양
+  materialCode?: string;      // 원재료(수지) 코드
+  netWeight?: number;         // g
+  runnerWeight?: number;      // g
+  cavity?: number;
+  lossRate?: number;          // %
+  // 도장 사양
+  paintCode?: string;
+  paintIntake?: number;       // 도장 취수 (EA/kg)
+  // 수기
+  manualPrice?: number;
+}
+
+export interface RfqQuote {
+  rfqKey: string;             // RFQ 고정 키 (rfqKey: 순번|고객사)
+  lines: QuoteLine[];
+  processCost: number;        // 가공비 (원/EA)
+  overheadRate: number;       // 관리비·경비율 (%)
+  targetMargin: number;       // 목표 이익률 (판매가 대비 %)
+  materialCost: number;       // 저장 시점 재료비 (원/EA)
+  totalCost: number;          // 저장 시점 총원가 (원/EA)
+  suggestedPrice: number;     // 저장 시점 제안 단가 (원/EA)
+  note?: string;
+  updatedAt: string;
+  updatedBy?: string;
+}
+
+export interface QuotePriceContext {
+  priceData: PriceData;
+  refInfoMap: Map<string, ReferenceInfoRecord>;
+  paintMixMap: Map<string, PaintMixRatio>;
+}
+
+export interface PricedQuoteLine {
+  line: QuoteLine;
+  unitPrice: number;          // 원/EA (해당 부품 1EA)
+  source: string;             // 단가 출처 ('' = 산출 불가)
+  amount: number;             // unitPrice × qty
+  paint?: PaintDetail;
+}
+
+export interface QuotePricing {
+  lines: PricedQuoteLine[];
+  materialCost: number;
+  processCost: number;
+  overhead: number;
+  totalCost: number;
+  marginAmount: number;
+  suggestedPrice: number;
+  unpricedCount: number;
+}
+
+export const DEFAULT_QUOTE_SETTINGS = {
+  processCost: 0,
+  overheadRate: 10,
+  targetMargin: 15,
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+export const newQuoteLineId = () => `ql_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const emptyQuoteLine = (kind: QuoteLineKind = 'existing'): QuoteLine => ({
+  id: newQuoteLineId(),
+  kind,
+  partNo: '',
+  partName: '',
+  qty: 1,
+  ...(kind === 'injection' ? { cavity: 1, lossRate: 0 } : {}),
+});
+
+/** 유사 기존 제품의 1레벨 BOM → 견적 라인 (기존 품번) */
+export function linesFromBom(parentPn: string, bom: Pick<BomRecord, 'parentPn' | 'childPn' | 'childName' | 'qty'>[]): QuoteLine[] {
+  const parent = normalizePn(parentPn);
+  if (!parent) return [];
+  const seen = new Set<string>();
+  const lines: QuoteLine[] = [];
+  for (const r of bom) {
+    const child = normalizePn(r.childPn);
+    if (normalizePn(r.parentPn) !== parent || !child || seen.has(child)) continue;
+    seen.add(child);
+    lines.push({ ...emptyQuoteLine('existing'), partNo: r.childPn.trim(), partName: r.childName || '', qty: r.qty || 1 });
+  }
+  return lines;
+}
+
+/** 가안 라인 → 엔진용 임시 기준정보 */
+const draftRefInfo = (code: string, line: QuoteLine): ReferenceInfoRecord => emptyReferenceInfo(code, {
+  itemName: line.partName,
+  processType: line.kind === 'paint' ? '도장' : '사출',
+  rawMaterialCode1: (line.kind === 'paint' ? line.paintCode : line.materialCode) || '',
+  netWeight: line.kind === 'injection' ? line.netWeight || 0 : 0,
+  runnerWeight: line.runnerWeight || 0,
+  cavity: line.cavity || 1,
+  lossRate: line.lossRate || 0,
+  paintIntake: line.paintIntake || 0,
+});
+
+// ============================================
+// Pricing
+// ============================================
+
+export function buildQuoteContext(
+  refInfo: ReferenceInfoRecord[],
+  materialCodes: MaterialCodeRecord[],
+  purchasePrices: PurchasePrice[],
+  outsourcePrices: OutsourcePrice[],
+  stdCosts: ItemStandardCost[],
+  paintMixRatios: PaintMixRatio[],
+): QuotePriceContext {
+  const priceData = buildPriceData(materialCodes, purchasePrices, outsourcePrices, stdCosts);
+  return {
+    priceData,
+    refInfoMap: buildRefInfoMap(refInfo),
+    paintMixMap: buildPaintMixMap(paintMixRatios, priceData),
+  };
+}
+
+export function priceQuoteLine(line: QuoteLine, ctx: QuotePriceContext): PricedQuoteLine {
+  const qty = line.qty || 0;
+  let unitPrice = 0;
+  let source = '';
+  let paint: PaintDetail | undefined;
+
+  if (line.kind === 'manual') {
+    unitPrice = line.manualPrice || 0;
+    source = unitPrice > 0 ? '수기' : '';
+  } else if (line.kind === 'existing') {
+    if (line.partNo.trim()) {
+      const res = getNodePrice(line.partNo, ctx.priceData, ctx.refInfoMap, ctx.paintMixMap);
+      unitPrice = res.price;
+      source = res.source;
+      if (source === '도장') paint = getPaintInfo(line.partNo, ctx.refInfoMap, ctx.priceData, ctx.paintMixMap);
+    }
+  } else {
+    // 가안 품목은 기존 품번과 충돌하지 않는 임시 코드로 엔진에 전달
+    const code = normalizePn(`RFQDRAFT${line.id}`);
+    const draftMap = new Map([[code, draftRefInfo(code, line)]]);
+    const res = getNodePrice(code, ctx.priceData, draftMap, ctx.paintMixMap);
+    unitPrice = res.price;
+    source = res.source;
+    if (line.kind === 'paint') paint = getPaintInfo(code, draftMap, ctx.priceData, ctx.paintMixMap);
+  }
+
+  return { line, unitPrice, source, amount: unitPrice * qty, paint };
+}
+
+export function priceQuote(
+  quote: Pick<RfqQuote, 'lines' | 'processCost' | 'overheadRate' | 'targetMargin'>,
+  ctx: QuotePriceContext,
+): QuotePricing {
+  const lines = quote.lines.map(l => priceQuoteLine(l, ctx));
+  const materialCost = lines.reduce((s, l) => s + l.amount, 0);
+  const processCost = quote.processCost || 0;
+  const overhead = (materialCost + processCost) * (quote.overheadRate || 0) / 100;
+  const totalCost = materialCost + processCost + overhead;
+  const margin = Math.min(Math.max(quote.targetMargin || 0, 0), 99);
+  const suggestedPrice = totalCost / (1 - margin / 100);
+  return {
+    lines,
+    materialCost,
+    processCost,
+    overhead,
+    totalCost,
+    marginAmount: suggestedPrice - totalCost,
+    suggestedPrice,
+    unpricedCount: lines.filter(l => !l.source).length,
+  };
+}
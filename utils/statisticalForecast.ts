@@ -0,0 +1,395 @@
+/**
+ * statisticalForecast — 매출 실적 기반 통계 예측 (고객 계획 타당성 검증용)
+ *
+ * RevenueItem(고객사/차종 월별)과 ItemRevenueRow(품목별 매출기간)를 월별 시계열로 묶고
+ * 계절 나이브 / 이동평균 / Holt-Winters(가법) 3가지 방법으로 향후 매출과 95% 신뢰구간을 산출한다.
+ * 방법별 정확도는 마지막 구간(최대 12개월) 홀드아웃 WAPE로 비교한다.
+ */
+import type { RevenueItem, ItemRevenueRow } from './revenueDataParser';
+import type { ForecastItem } from './salesForecastParser';
+
+// ============================================
+// Types
+// ============================================
+
+export type StatMethod = 'seasonal_naive' | 'moving_average' | 'holt_winters';
+export type StatLevel = 'customer' | 'model';
+
+export const STAT_METHOD_LABEL: Record<StatMethod, string> = {
+  seasonal_naive: '계절 나이브',
+  moving_average: '이동평균(3개월)',
+  holt_winters: 'Holt-Winters',
+};
+
+export interface YearMonth {
+  year: number;
+  month: number;                    // 0~11
+}
+
+export interface HistorySeries {
+  key: string;
+  customer: string;
+  model: string;
+  start: YearMonth;
+  values: number[];                 // start부터 연속 월별 매출 (무실적 월 0)
+}
+
+export interface ForecastProjection {
+  method: StatMethod;
+  values: number[];
+  lower: number[];
+  upper: number[];
+  backtestError: number | null;     // 홀드아웃 WAPE (0~1), 검증 불가 시 null
+}
+
+export interface StatForecastSeries extends HistorySeries {
+  forecastStart: YearMonth;
+  projections: Partial<Record<StatMethod, ForecastProjection>>;
+  best: StatMethod | null;
+}
+
+export type PlanFlag = 'high' | 'low' | 'ok' | 'no_history';
+
+export interface PlanComparisonRow {
+  key: string;
+  customer: string;
+  model: string;
+  method: StatMethod | null;
+  backtestError: number | null;
+  planMonthly: number[];            // 계획연도 1~12월
+  statMonthly: (number | null)[];   // 예측 미포함 월은 null (실적 기간 등)
+  lowerMonthly: (number | null)[];
+  upperMonthly: (number | null)[];
+  planTotal: number;                // 예측과 겹치는 월 기준
+  statTotal: number;
+  lowerTotal: number;
+  upperTotal: number;
+  deviation: number | null;         // planTotal / statTotal − 1
+  outsideMonths: number;            // 계획이 신뢰구간을 벗어난 월 수
+  flag: PlanFlag;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const SEASON = 12;
+const Z95 = 1.96;
+const MA_WINDOW = 3;
+const MIN_LENGTH: Record<StatMethod, number> = {
+  seasonal_naive: SEASON,
+  moving_average: MA_WINDOW,
+  holt_winters: SEASON * 2,
+};
+const METHOD_PREFERENCE: StatMethod[] = ['holt_winters', 'seasonal_naive', 'moving_average'];
+
+// ============================================
+// Period helpers
+// ============================================
+
+const ymIndex = (ym: YearMonth) => ym.year * 12 + ym.month;
+const fromIndex = (idx: number): YearMonth => ({ year: Math.floor(idx / 12), month: idx % 12 });
+
+/** '01월' → 0 */
+const monthFromLabel = (month: string): number => {
+  const m = parseInt((month || '').replace(/[^0-9]/g, ''));
+  return m >= 1 && m <= 12 ? m - 1 : -1;
+};
+
+/** 매출기간 문자열 → 연월 ('2025-01', '2025.01~2025.01', '25년 1월', '202501' 등, 범위는 시작월) */
+export function parsePeriodMonth(period: string): YearMonth | null {
+  const s = (period || '').trim();
+  let m = s.match(/(\d{4})\s*[-./년]?\s*(\d{1,2})/);
+  if (!m) m = s.match(/(\d{2})\s*[년.\-/]\s*(\d{1,2})/);
+  if (!m) return null;
+  const year = m[1].length === 2 ? 2000 + parseInt(m[1]) : parseInt(m[1]);
+  const month = parseInt(m[2]) - 1;
+  return month >= 0 && month < 12 ? { year, month } : null;
+}
+
+const norm = (s: string) => (s || '').trim().toUpperCase();
+
+const seriesKey = (level: StatLevel, customer: string, model: string) =>
+  level === 'customer' ? norm(customer) : `${norm(customer)}||${norm(model)}`;
+
+// ============================================
+// History
+// ============================================
+
+/**
+ * 고객사(또는 고객사+차종) 월별 매출 시계열 구성.
+ * 고객사·월 단위로 RevenueItem이 있으면 우선 사용하고, 없는 월만 ItemRevenueRow로 보완한다.
+ * 모든 시계열은 전체 데이터의 마지막 월까지 0으로 채운다.
+ */
+export function buildRevenueHistory(
+  revenue: RevenueItem[],
+  itemRevenue: ItemRevenueRow[],
+  level: StatLevel,
+): HistorySeries[] {
+  const buckets = new Map<string, { customer: string; model: string; byMonth: Map<number, number> }>();
+  const covered = new Set<string>();   // RevenueItem 존재 고객사|월
+  let lastIdx = -1;
+
+  const add = (customer: string, model: string, idx: number, amount: number) => {
+    const key = seriesKey(level, customer, model);
+    const bucket = buckets.get(key) || { customer: customer.trim(), model: level === 'model' ? model.trim() : '', byMonth: new Map() };
+    bucket.byMonth.set(idx, (bucket.byMonth.get(idx) || 0) + amount);
+    buckets.set(key, bucket);
+    lastIdx = Math.max(lastIdx, idx);
+  };
+
+  for (const r of revenue) {
+    const month = monthFromLabel(r.month);
+    if (!r.customer || !r.year || month < 0) continue;
+    const idx = ymIndex({ year: r.year, month });
+    covered.add(`${norm(r.customer)}|${idx}`);
+    add(r.customer, r.model || '', idx, r.amount || 0);
+  }
+  for (const r of itemRevenue) {
+    const ym = parsePeriodMonth(r.period);
+    if (!r.customer || !ym) continue;
+    const idx = ymIndex(ym);
+    if (covered.has(`${norm(r.customer)}|${idx}`)) continue;
+    add(r.customer, r.model || '', idx, r.amount || 0);
+  }
+
+  const series: HistorySeries[] = [];
+  for (const [key, bucket] of buckets) {
+    const nonZero = Array.from(bucket.byMonth.entries()).filter(([, v]) => v !== 0).map(([idx]) => idx);
+    if (nonZero.length === 0) continue;
+    const startIdx = Math.min(...nonZero);
+    const values: number[] = [];
+    for (let idx = startIdx; idx <= lastIdx; idx++) values.push(bucket.byMonth.get(idx) || 0);
+    series.push({ key, customer: bucket.customer, model: bucket.model, start: fromIndex(startIdx), values });
+  }
+  return series.sort((a, b) => b.values.reduce((s, v) => s + v, 0) - a.values.reduce((s, v) => s + v, 0));
+}
+
+// ============================================
+// Methods
+// ============================================
+
+const rms = (errors: number[]) =>
+  errors.length > 0 ? Math.sqrt(errors.reduce((s, e) => s + e * e, 0) / errors.length) : 0;
+
+const stdev = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  return Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / (values.length - 1));
+};
+
+interface RawForecast {
+  values: number[];
+  spread: number[];                 // 예측오차 표준편차 (기간별)
+}
+
+/** 계절 나이브: 전년 동월 값 반복, 오차는 계절 차분 잔차 */
+function seasonalNaive(y: number[], h: number): RawForecast {
+  const n = y.length;
+  const residuals: number[] = [];
+  for (let t = SEASON; t < n; t++) residuals.push(y[t] - y[t - SEASON]);
+  const sigma = residuals.length > 0 ? rms(residuals) : stdev(y);
+  const values: number[] = [];
+  const spread: number[] = [];
+  for (let i = 0; i < h; i++) {
+    values.push(y[n - SEASON + (i % SEASON)]);
+    spread.push(sigma * Math.sqrt(Math.floor(i / SEASON) + 1));
+  }
+  return { values, spread };
+}
+
+/** 이동평균: 최근 N개월 평균 유지, 오차는 1기 앞 예측 잔차 (기간에 따라 확대) */
+function movingAverage(y: number[], h: number): RawForecast {
+  const n = y.length;
+  const mean = (from: number) => y.slice(from, from + MA_WINDOW).reduce((s, v) => s + v, 0) / MA_WINDOW;
+  const residuals: number[] = [];
+  for (let t = MA_WINDOW; t < n; t++) residuals.push(y[t] - mean(t - MA_WINDOW));
+  const sigma = residuals.length > 0 ? rms(residuals) : stdev(y);
+  const level = mean(n - MA_WINDOW);
+  return {
+    values: Array(h).fill(level),
+    spread: Array.from({ length: h }, (_, i) => sigma * Math.sqrt(1 + i / MA_WINDOW)),
+  };
+}
+
+/** Holt-Winters 가법 모형 1회 적합 → SSE, 최종 상태 */
+function fitHoltWinters(y: number[], alpha: number, beta: number, gamma: number) {
+  const firstMean = y.slice(0, SEASON).reduce((s, v) => s + v, 0) / SEASON;
+  const secondMean = y.slice(SEASON, SEASON * 2).reduce((s, v) => s + v, 0) / SEASON;
+  let level = firstMean;
+  let trend = (secondMean - firstMean) / SEASON;
+  const season = y.slice(0, SEASON).map(v => v - firstMean);
+  const residuals: number[] = [];
+
+  for (let t = 0; t < y.length; t++) {
+    const s = season[t % SEASON];
+    const fitted = level + trend + s;
+    if (t >= SEASON) residuals.push(y[t] - fitted);
+    const newLevel = alpha * (y[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (newLevel - level) + (1 - beta) * trend;
+    season[t % SEASON] = gamma * (y[t] - newLevel) + (1 - gamma) * s;
+    level = newLevel;
+  }
+  return { level, trend, season, residuals, sse: residuals.reduce((s, e) => s + e * e, 0) };
+}
+
+/** Holt-Winters: 평활계수는 격자탐색(SSE 최소), 구간은 가법 모형 분산식 근사 */
+function holtWinters(y: number[], h: number): RawForecast {
+  let best: (ReturnType<typeof fitHoltWinters> & { alpha: number; beta: number; gamma: number }) | null = null;
+  for (const alpha of [0.1, 0.3, 0.5, 0.7, 0.9]) {
+    for (const beta of [0.01, 0.1, 0.2, 0.3]) {
+      for (const gamma of [0.1, 0.3, 0.5]) {
+        const fit = fitHoltWinters(y, alpha, beta, gamma);
+        if (!best || fit.sse < best.sse) best = { ...fit, alpha, beta, gamma };
+      }
+    }
+  }
+  const { level, trend, season, residuals, alpha, beta, gamma } = best!;
+  const sigma = rms(residuals);
+  const n = y.length;
+  const values: number[] = [];
+  const spread: number[] = [];
+  let varSum = 1;
+  for (let i = 1; i <= h; i++) {
+    values.push(level + i * trend + season[(n + i - 1) % SEASON]);
+    spread.push(sigma * Math.sqrt(varSum));
+    const c = alpha * (1 + i * beta) + (i % SEASON === 0 ? gamma : 0);
+    varSum += c * c;
+  }
+  return { values, spread };
+}
+
+const RUNNERS: Record<StatMethod, (y: number[], h: number) => RawForecast> = {
+  seasonal_naive: seasonalNaive,
+  moving_average: movingAverage,
+  holt_winters: holtWinters,
+};
+
+/** 홀드아웃 WAPE: 마지막 구간을 떼어 예측 후 Σ|오차| / Σ|실적| */
+function backtest(y: number[], method: StatMethod): number | null {
+  const holdout = Math.min(SEASON, Math.floor(y.length / 3));
+  const train = y.slice(0, y.length - holdout);
+  if (holdout < 3 || train.length < MIN_LENGTH[method]) return null;
+  const actual = y.slice(train.length);
+  const denom = actual.reduce((s, v) => s + Math.abs(v), 0);
+  if (denom === 0) return null;
+  const predicted = RUNNERS[method](train, holdout).values;
+  return actual.reduce((s, v, i) => s + Math.abs(v - Math.max(predicted[i], 0)), 0) / denom;
+}
+
+// ============================================
+// Main
+// ============================================
+
+/**
+ * 시계열별 통계 예측. 예측 기간은 마지막 실적 다음 달부터 최소 horizon개월,
+ * untilYear가 주어지면 해당 연도 12월까지 연장한다 (최대 36개월).
+ */
+export function forecastSeries(series: HistorySeries[], horizon = 12, untilYear?: number): StatForecastSeries[] {
+  return series.map(s => {
+    const y = s.values;
+    const forecastStartIdx = ymIndex(s.start) + y.length;
+    const untilIdx = untilYear ? ymIndex({ year: untilYear, month: 11 }) : -1;
+    const h = Math.min(Math.max(horizon, untilIdx - forecastStartIdx + 1), 36);
+
+    const projections: Partial<Record<StatMethod, ForecastProjection>> = {};
+    for (const method of METHOD_PREFERENCE) {
+      if (y.length < MIN_LENGTH[method]) continue;
+      const raw = RUNNERS[method](y, h);
+      projections[method] = {
+        method,
+        values: raw.values.map(v => Math.max(v, 0)),
+        lower: raw.values.map((v, i) => Math.max(v - Z95 * raw.spread[i], 0)),
+        upper: raw.values.map((v, i) => Math.max(v + Z95 * raw.spread[i], 0)),
+        backtestError: backtest(y, method),
+      };
+    }
+
+    const available = METHOD_PREFERENCE.filter(m => projections[m]);
+    const scored = available.filter(m => projections[m]!.backtestError !== null);
+    const best = scored.length > 0
+      ? scored.reduce((a, b) => (projections[b]!.backtestError! < projections[a]!.backtestError! ? b : a))
+      : available[0] || null;
+
+    return { ...s, forecastStart: fromIndex(forecastStartIdx), projections, best };
+  });
+}
+
+/**
+ * 고객 계획(ForecastItem) vs 통계 예측 비교.
+ * 예측과 겹치는 월만 합산하며, 계획 합계가 신뢰구간 합계를 벗어나면 과대/과소로 표시한다.
+ */
+export function comparePlanToStat(
+  stats: StatForecastSeries[],
+  plan: ForecastItem[],
+  planYear: number,
+  level: StatLevel,
+  method: StatMethod | 'auto',
+): PlanComparisonRow[] {
+  const planMap = new Map<string, { customer: string; model: string; monthly: number[] }>();
+  for (const item of plan) {
+    const key = seriesKey(level, item.customer, item.model);
+    const entry = planMap.get(key) || { customer: item.customer, model: level === 'model' ? item.model : '', monthly: Array(12).fill(0) };
+    (item.monthlyRevenue || []).slice(0, 12).forEach((v, i) => { entry.monthly[i] += v || 0; });
+    planMap.set(key, entry);
+  }
+  const statMap = new Map(stats.map(s => [s.key, s]));
+  const planYearStart = ymIndex({ year: planYear, month: 0 });
+
+  const rows: PlanComparisonRow[] = [];
+  for (const [key, p] of planMap) {
+    const s = statMap.get(key);
+    const m = s ? (method === 'auto' ? s.best : s.projections[method] ? method : null) : null;
+    const proj = s && m ? s.projections[m]! : null;
+
+    const statMonthly: (number | null)[] = Array(12).fill(null);
+    const lowerMonthly: (number | null)[] = Array(12).fill(null);
+    const upperMonthly: (number | null)[] = Array(12).fill(null);
+    if (s && proj) {
+      const offset = planYearStart - ymIndex(s.forecastStart);
+      for (let i = 0; i < 12; i++) {
+        const j = offset + i;
+        if (j < 0 || j >= proj.values.length) continue;
+        statMonthly[i] = proj.values[j];
+        lowerMonthly[i] = proj.lower[j];
+        upperMonthly[i] = proj.upper[j];
+      }
+    }
+
+    let planTotal = 0, statTotal = 0, lowerTotal = 0, upperTotal = 0, outsideMonths = 0, overlap = 0;
+    for (let i = 0; i < 12; i++) {
+      if (statMonthly[i] === null) continue;
+      overlap++;
+      planTotal += p.monthly[i];
+      statTotal += statMonthly[i]!;
+      lowerTotal += lowerMonthly[i]!;
+      upperTotal += upperMonthly[i]!;
+      if (p.monthly[i] < lowerMonthly[i]! || p.monthly[i] > upperMonthly[i]!) outsideMonths++;
+    }
+
+    let flag: PlanFlag = 'no_history';
+    if (overlap > 0) flag = planTotal > upperTotal ? 'high' : planTotal < lowerTotal ? 'low' : 'ok';
+
+    rows.push({
+      key,
+      customer: p.customer,
+      model: p.model,
+      method: m,
+      backtestError: proj?.backtestError ?? null,
+      planMonthly: p.monthly,
+      statMonthly,
+      lowerMonthly,
+      upperMonthly,
+      planTotal: overlap > 0 ? planTotal : p.monthly.reduce((a, v) => a + v, 0),
+      statTotal,
+      lowerTotal,
+      upperTotal,
+      deviation: overlap > 0 && statTotal > 0 ? planTotal / statTotal - 1 : null,
+      outsideMonths,
+      flag,
+    });
+  }
+
+  const flagOrder: Record<PlanFlag, number> = { high: 0, low: 1, ok: 2, no_history: 3 };
+  return rows.sort((a, b) => flagOrder[a.flag] - flagOrder[b.flag] || b.planTotal - a.planTotal);
+}
@@ -0,0 +1,331 @@
+/**
+ * storage — 대시보드 데이터 저장소 (IndexedDB 우선, localStorage 폴백)
+ *
+ * 구매/BOM 마스터/기준정보처럼 큰 데이터셋은 localStorage 용량(약 5MB)을 넘기 때문에
+ * `dashboard_*` 키는 IndexedDB에 저장한다. 앱 시작 시 init()으로 전체를 메모리 캐시에 올려
+ * 기존 코드의 동기 읽기(getItem)를 그대로 지원하고, 쓰기는 캐시 반영 후 IndexedDB에 비동기 저장한다.
+ * IndexedDB를 쓸 수 없는 환경(사생활 보호 모드 등)에서는 localStorage로 동작한다.
+ * INDEXED_FIELDS에 지정한 배열 데이터셋은 레코드 단위로 rows 스토어에 함께 저장해
+ * query(key, field, value)가 전체 파싱 없이 IndexedDB 인덱스로 조회한다.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type StorageBackendType = 'indexeddb' | 'localstorage';
+
+interface StorageEntry {
+  key: string;
+  value: string;                    // JSON 문자열 (기존 localStorage 값과 동일 형식)
+  updatedAt: string;
+  size: number;
+}
+
+/** 인덱스 조회용 레코드 행 (terms: `${key}\u0001${field}\u0001${value}`) */
+interface IndexedRow {
+  id: string;                       // `${key}#${순번}`
+  key: string;
+  terms: string[];
+  record: unknown;
+}
+
+type ChangeListener = (key: string, value: string) => void;
+
+// ============================================
+// Constants
+// ============================================
+
+const DB_NAME = 'dashboard-storage';
+const DB_VERSION = 2;
+const STORE = 'entries';
+const ROWS = 'rows';
+const MANAGED_PREFIX = 'dashboard_';
+
+/** 수동 입력 데이터 — localStorage quota recovery 시 절대 삭제하지 않음 */
+const PROTECTED_KEYS = new Set([
+  'dashboard_closingMaterialCost',
+  'dashboard_bomConfirmed',
+  'dashboard_syncMeta',
+]);
+
+/** query() 인덱스 대상: 배열 데이터셋 키 → 레코드 필드 */
+const INDEXED_FIELDS: Record<string, string[]> = {
+  dashboard_bomRevisions: ['parentPn', 'childPn'],
+};
+
+// ============================================
+// IndexedDB helpers
+// ============================================
+
+const requestToPromise = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const termOf = (key: string, field: string, value: unknown) => `${key}\u0001${field}\u0001${String(value ?? '')}`;
+
+/** @returns upgraded: rows 스토어 신규 생성 여부 (기존 데이터 인덱스 재구축 필요) */
+function openDatabase(): Promise<{ database: IDBDatabase; upgraded: boolean }> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB not available'));
+      return;
+    }
+    let upgraded = false;
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'key' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(ROWS)) {
+        const rows = db.createObjectStore(ROWS, { keyPath: 'id' });
+        rows.createIndex('terms', 'terms', { multiEntry: true });
+        upgraded = true;
+      }
+    };
+    req.onsuccess = () => resolve({ database: req.result, upgraded });
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** 인덱스 대상 키의 레코드 행 교체 (같은 트랜잭션에서 entries와 함께 기록) */
+function writeIndexedRows(rows: IDBObjectStore, key: string, value: string | null): void {
+  const fields = INDEXED_FIELDS[key];
+  if (!fields) return;
+  rows.delete(IDBKeyRange.bound(`${key}#`, `${key}#\uffff`));
+  if (value === null) return;
+  let records: unknown;
+  try { records = JSON.parse(value); } catch { return; }
+  if (!Array.isArray(records)) return;
+  records.forEach((record, i) => {
+    const terms = fields.map(f => termOf(key, f, (record as Record<string, unknown>)?.[f]));
+    rows.put({ id: `${key}#${String(i).padStart(8, '0')}`, key, terms, record } as IndexedRow);
+  });
+}
+
+/** entries 저장 (value null = 삭제) + 인덱스 행 갱신 */
+async function writeEntries(database: IDBDatabase, batch: [string, string | null][]): Promise<void> {
+  const tx = database.transaction([STORE, ROWS], 'readwrite');
+  const store = tx.objectStore(STORE);
+  const rows = tx.objectStore(ROWS);
+  const now = new Date().toISOString();
+  for (const [key, value] of batch) {
+    if (value === null) store.delete(key);
+    else store.put({ key, value, updatedAt: now, size: value.length } as StorageEntry);
+    writeIndexedRows(rows, key, value);
+  }
+  await transactionDone(tx);
+}
+
+/** localStorage 쓰기 — 용량 초과 시 큰 캐시 3개 정리 후 재시도, 그래도 실패하면 건너뜀 */
+function writeLocalStorage(key: string, value: string): boolean {
+  try {
+    localStorage.setItem(key, value);
+    return true;
+  } catch (e) {
+    if (!(e instanceof DOMException && e.name === 'QuotaExceededError')) return false;
+    const keysToRemove: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const k = localStorage.key(i);
+      if (k && k.startsWith(MANAGED_PREFIX) && k !== key && !PROTECTED_KEYS.has(k)) keysToRemove.push(k);
+    }
+    keysToRemove
+      .sort((a, b) => (localStorage.getItem(b)?.length || 0) - (localStorage.getItem(a)?.length || 0))
+      .slice(0, 3)
+      .forEach(k => localStorage.removeItem(k));
+    try {
+      localStorage.setItem(key, value);
+      return true;
+    } catch {
+      // 여전히 실패하면 무시 - Supabase에서 다시 로드 가능
+      console.warn(`localStorage 용량 초과로 캐시 저장 건너뜀: ${key}`);
+      return false;
+    }
+  }
+}
+
+// ============================================
+// Storage
+// ============================================
+
+let db: IDBDatabase | null = null;
+let initPromise: Promise<void> | null = null;
+const cache = new Map<string, string>();
+const pendingWrites = new Map<string, string | null>();   // null = 삭제
+let flushPromise: Promise<void> | null = null;
+const listeners = new Set<ChangeListener>();
+
+const isManaged = (key: string) => db !== null && key.startsWith(MANAGED_PREFIX);
+
+/** 대기 중인 쓰기를 한 트랜잭션으로 모아 저장 (연속 setItem 병합, 저장 중 들어온 쓰기는 다음 배치) */
+function scheduleFlush(): Promise<void> {
+  if (flushPromise) return flushPromise;
+  flushPromise = (async () => {
+    await Promise.resolve();
+    while (db && pendingWrites.size > 0) {
+      const batch = Array.from(pendingWrites.entries());
+      pendingWrites.clear();
+      try {
+        await writeEntries(db, batch);
+      } catch (err) {
+        console.warn('IndexedDB 저장 실패:', batch.map(([k]) => k).join(', '), err);
+      }
+    }
+  })().finally(() => { flushPromise = null; });
+  return flushPromise;
+}
+
+/** localStorage의 기존 dashboard_* 키를 IndexedDB로 옮기고 localStorage에서는 제거 */
+async function migrateFromLocalStorage(database: IDBDatabase): Promise<number> {
+  const legacy: [string, string][] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const k = localStorage.key(i);
+    if (k && k.startsWith(MANAGED_PREFIX)) legacy.push([k, localStorage.getItem(k) || '']);
+  }
+  if (legacy.length === 0) return 0;
+
+  const toCopy = legacy.filter(([k]) => !cache.has(k));
+  if (toCopy.length > 0) {
+    await writeEntries(database, toCopy);
+    for (const [key, value] of toCopy) cache.set(key, value);
+  }
+  // IndexedDB에 이미 있는 키는 IndexedDB 값이 최신 (마이그레이션 이후 쓰기는 모두 IndexedDB)
+  for (const [key] of legacy) localStorage.removeItem(key);
+  return toCopy.length;
+}
+
+export const storage = {
+  /** 앱 시작 시 1회: IndexedDB 열기 → 전체 캐시 적재 → localStorage 마이그레이션 */
+  init(): Promise<void> {
+    if (initPromise) return initPromise;
+    initPromise = (async () => {
+      try {
+        const { database, upgraded } = await openDatabase();
+        const entries = await requestToPromise<StorageEntry[]>(
+          database.transaction(STORE, 'readonly').objectStore(STORE).getAll(),
+        );
+        for (const e of entries) cache.set(e.key, e.value);
+        // rows 스토어 신규 생성 시 기존 데이터셋 인덱스 구축
+        if (upgraded) {
+          const indexed = entries.filter(e => INDEXED_FIELDS[e.key]).map(e => [e.key, e.value] as [string, string]);
+          if (indexed.length > 0) await writeEntries(database, indexed);
+        }
+        const migrated = await migrateFromLocalStorage(database);
+        db = database;
+        if (migrated > 0) console.log(`✅ localStorage → IndexedDB 마이그레이션: ${migrated}개 키`);
+      } catch (err) {
+        console.warn('IndexedDB 사용 불가 - localStorage로 동작:', err);
+        db = null;
+        cache.clear();
+      }
+    })();
+    return initPromise;
+  },
+
+  get backend(): StorageBackendType {
+    return db ? 'indexeddb' : 'localstorage';
+  },
+
+  /** 변경 알림 구독 (레코드 변경 추적 등) */
+  onChange(listener: ChangeListener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+
+  // --- 동기 API (localStorage 호환) ---
+
+  getItem(key: string): string | null {
+    if (isManaged(key) && cache.has(key)) return cache.get(key)!;
+    return localStorage.getItem(key);
+  },
+
+  setItem(key: string, value: string): void {
+    if (isManaged(key)) {
+      cache.set(key, value);
+      pendingWrites.set(key, value);
+      scheduleFlush();
+    } else if (!writeLocalStorage(key, value)) {
+      return;
+    }
+    listeners.forEach(l => l(key, value));
+  },
+
+  removeItem(key: string): void {
+    if (isManaged(key)) {
+      cache.delete(key);
+      pendingWrites.set(key, null);
+      scheduleFlush();
+    }
+    localStorage.removeItem(key);
+  },
+
+  keys(prefix = ''): string[] {
+    const set = new Set<string>(Array.from(cache.keys()));
+    for (let i = 0; i < localStorage.length; i++) {
+      const k = localStorage.key(i);
+      if (k) set.add(k);
+    }
+    return Array.from(set).filter(k => k.startsWith(prefix));
+  },
+
+  // --- 비동기 API ---
+
+  async get<T>(key: string): Promise<T | null> {
+    await storage.init();
+    const raw = storage.getItem(key);
+    if (raw === null) return null;
+    try {
+      return JSON.parse(raw) as T;
+    } catch {
+      return null;
+    }
+  },
+
+  /** 저장 완료(IndexedDB 커밋)까지 대기 */
+  async put<T>(key: string, value: T): Promise<void> {
+    await storage.init();
+    storage.setItem(key, JSON.stringify(value));
+    await storage.flush();
+  },
+
+  async remove(key: string): Promise<void> {
+    await storage.init();
+    storage.removeItem(key);
+    await storage.flush();
+  },
+
+  /**
+   * 배열 데이터셋에서 필드 값이 일치하는 레코드 조회
+   * INDEXED_FIELDS 지정 키는 IndexedDB terms 인덱스로, 그 외(또는 localStorage 백엔드)는 전체 로드 후 필터
+   */
+  async query<T>(key: string, field: keyof T & string, value: unknown): Promise<T[]> {
+    await storage.init();
+    await storage.flush();
+    if (db && INDEXED_FIELDS[key]?.includes(field)) {
+      const rows = await requestToPromise<IndexedRow[]>(
+        db.transaction(ROWS, 'readonly').objectStore(ROWS).index('terms').getAll(termOf(key, field, value)),
+      );
+      return rows.map(r => r.record as T);
+    }
+    const records = await storage.get<T[]>(key);
+    if (!Array.isArray(records)) return [];
+    return records.filter(r => String((r as Record<string, unknown>)?.[field] ?? '') === String(value ?? ''));
+  },
+
+  /** 대기 중인 IndexedDB 쓰기 완료 대기 */
+  async flush(): Promise<void> {
+    if (flushPromise) await flushPromise;
+    if (db && pendingWrites.size > 0) await scheduleFlush();
+  },
+};
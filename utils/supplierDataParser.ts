@@ -1,6 +1,9 @@
 // 협력사 데이터 파서
 // CSV 형식: 거래처명, 사업자등록번호, 대표이사, 주소, 매입액(-VAT) 2025년, 매입액(-VAT) 2024년, 매입액(-VAT) 2023년
 
+import { withMappingFallback } from './columnMapping';
+import type { ColumnMappingProfile } from './columnMapping';
+
 export interface SupplierItem {
   id: string;
   companyName: string;        // 거래처명
@@ -41,7 +44,23 @@ const parseNumber = (value: string | undefined): number => {
   return isNaN(num) ? 0 : num;
 };
 
-export const parseSupplierCSV = (csvContent: string): SupplierItem[] => {
+// 컬럼 매핑 프로필로 읽은 행 → SupplierItem
+const fromMappedRow = (row: Record<string, string>, index: number): SupplierItem | null => {
+  if (!row.companyName) return null;
+  return {
+    id: `supplier-${Date.now()}-${index}`,
+    companyName: row.companyName,
+    businessNumber: row.businessNumber || '',
+    ceo: row.ceo || '',
+    address: row.address || '',
+    purchaseAmount2025: parseNumber(row.purchaseAmount2025),
+    purchaseAmount2024: parseNumber(row.purchaseAmount2024),
+    purchaseAmount2023: parseNumber(row.purchaseAmount2023),
+  };
+};
+
+// 자동 인식 실패 시 profile(컬럼 매핑 프로필)로 다시 읽음
+export const parseSupplierCSV = (csvContent: string, profile?: ColumnMappingProfile | null): SupplierItem[] => {
   const cleanText = csvContent.replace(/^\uFEFF/, '');
   const lines = cleanText.split('\n').filter(line => line.trim() !== '');
   
@@ -49,7 +68,7 @@ export const parseSupplierCSV = (csvContent: string): SupplierItem[] => {
   
   if (lines.length < 2) {
     console.warn('협력사 CSV: 데이터가 없습니다 (최소 2줄 필요: 헤더 + 데이터)');
-    return [];
+    return withMappingFallback([], csvContent, profile, fromMappedRow);
   }
 
   // 첫 줄은 헤더로 간주
@@ -135,5 +154,5 @@ export const parseSupplierCSV = (csvContent: string): SupplierItem[] => {
     console.error('📊 예상 형식: 거래처명, 사업자등록번호, 대표이사, 주소, 매입액(-VAT) 2025년, 매입액(-VAT) 2024년, 매입액(-VAT) 2023년');
   }
 
-  return result;
+  return withMappingFallback(result, csvContent, profile, fromMappedRow);
 };
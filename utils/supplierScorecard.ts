@@ -0,0 +1,217 @@
+/**
+ * supplierScorecard — 기존 데이터 기반 협력사 KPI / 가중 점수 / 순위
+ *
+ * - 지출 추이·비중: PurchaseMonthlySummary(매입처별 월 금액)
+ * - 단가 변동 빈도·폭: PurchasePrice(previousPrice → currentPrice)
+ * - 단일 공급 품목: BOM supplier (자품번별 협력업체가 하나뿐인 품목)
+ * 각 점수는 0~100(높을수록 우수)이며, 산출 불가(null) 항목은 가중치에서 제외하고 재정규화한다.
+ */
+import type { PurchaseMonthlySummary } from './purchaseSummaryTypes';
+import type { PurchasePrice } from './standardMaterialParser';
+import type { BomRecord } from './bomDataParser';
+import { normalizePn } from './bomDataParser';
+
+// ============================================
+// Types
+// ============================================
+
+export type ScoreDimension = 'price' | 'continuity' | 'stability' | 'risk' | 'share';
+
+export const SCORE_DIMENSIONS: { key: ScoreDimension; label: string; desc: string }[] = [
+  { key: 'price', label: '단가', desc: '단가 인상 빈도·평균 변동률 (인하일수록 높음)' },
+  { key: 'continuity', label: '공급 연속성', desc: '기간 중 매입 발생 월 비율' },
+  { key: 'stability', label: '지출 안정성', desc: '월별 매입액 변동계수 (낮을수록 높음)' },
+  { key: 'risk', label: '공급 리스크', desc: 'BOM 단일 공급 품목 비율 (낮을수록 높음)' },
+  { key: 'share', label: '거래 비중', desc: '전체 매입액 대비 비중 (최대 협력사 = 100)' },
+];
+
+export type ScoreWeights = Record<ScoreDimension, number>;
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  price: 35,
+  continuity: 25,
+  stability: 15,
+  risk: 15,
+  share: 10,
+};
+
+export interface SupplierScore {
+  supplier: string;
+  spend: number;                // 선택 연도 매입액
+  prevSpend: number;            // 전년 매입액
+  yoy: number | null;           // 전년 대비 증감률 (%)
+  share: number;                // 매입 비중 (%)
+  monthlySpend: number[];       // 12개월
+  activeMonths: number;
+  priceItems: number;           // 단가 등록 품목 수
+  priceChanges: number;         // 전월 대비 단가 변경 품목 수
+  priceIncreases: number;
+  priceDecreases: number;
+  avgChangePct: number;         // 변경 품목 평균 변동률 (%)
+  bomParts: number;             // BOM 공급 품목 수
+  singleSourceParts: number;    // 그 중 단일 공급 품목 수
+  scores: Record<ScoreDimension, number | null>;
+  total: number;
+  rank: number;
+}
+
+export interface ScorecardInput {
+  summaries: PurchaseMonthlySummary[];
+  prices: PurchasePrice[];
+  bom: Pick<BomRecord, 'childPn' | 'supplier'>[];   // BOM 마스터 / BOM 데이터 공용
+  year: number;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/** 협력사명 정규화 — 법인 표기/공백/대소문자 무시 */
+export const supplierKey = (name: string) =>
+  (name || '').replace(/\(주\)|㈜|주식회사|\(유\)|유한회사/g, '').replace(/\s+/g, '').toUpperCase();
+
+const clamp = (v: number) => Math.max(0, Math.min(100, v));
+
+const monthIndex = (month: string) => {
+  const m = parseInt((month || '').replace(/[^0-9]/g, ''), 10);
+  return m >= 1 && m <= 12 ? m - 1 : -1;
+};
+
+interface Bucket {
+  name: string;
+  monthly: number[];
+  prevSpend: number;
+  priceItems: number;
+  changes: number[];            // 변경 품목 변동률 (%)
+  bomParts: Set<string>;
+}
+
+// ============================================
+// Scorecard
+// ============================================
+
+export function buildSupplierScorecard(input: ScorecardInput, weights: ScoreWeights = DEFAULT_SCORE_WEIGHTS): SupplierScore[] {
+  const { summaries, prices, bom, year } = input;
+  const buckets = new Map<string, Bucket>();
+  const bucket = (name: string) => {
+    const key = supplierKey(name);
+    if (!key) return null;
+    let b = buckets.get(key);
+    if (!b) {
+      b = { name: name.trim(), monthly: Array(12).fill(0), prevSpend: 0, priceItems: 0, changes: [], bomParts: new Set() };
+      buckets.set(key, b);
+    }
+    return b;
+  };
+
+  // 지출 추이 (선택 연도 / 전년)
+  let lastMonth = -1;
+  for (const s of summaries) {
+    const b = bucket(s.supplier);
+    if (!b) continue;
+    const amount = s.amount || 0;
+    if (s.year === year) {
+      const idx = monthIndex(s.month);
+      if (idx < 0) continue;
+      b.monthly[idx] += amount;
+      if (amount !== 0) lastMonth = Math.max(lastMonth, idx);
+    } else if (s.year === year - 1) {
+      b.prevSpend += amount;
+    }
+  }
+
+  // 단가 변동
+  for (const p of prices) {
+    const b = bucket(p.supplier);
+    if (!b) continue;
+    b.priceItems++;
+    if (p.previousPrice > 0 && p.currentPrice > 0 && p.previousPrice !== p.currentPrice) {
+      b.changes.push(((p.currentPrice - p.previousPrice) / p.previousPrice) * 100);
+    }
+  }
+
+  // 단일 공급 품목 — 자품번별 협력업체 수
+  const suppliersByPart = new Map<string, Set<string>>();
+  for (const r of bom) {
+    const pn = normalizePn(r.childPn || '');
+    const key = supplierKey(r.supplier);
+    if (!pn || !key) continue;
+    const set = suppliersByPart.get(pn) || new Set<string>();
+    set.add(key);
+    suppliersByPart.set(pn, set);
+    bucket(r.supplier)!.bomParts.add(pn);
+  }
+
+  const totalSpend = Array.from(buckets.values()).reduce((s, b) => s + b.monthly.reduce((a, v) => a + v, 0), 0);
+  const monthsInRange = lastMonth + 1;
+
+  const rows = Array.from(buckets.values()).map((b): SupplierScore => {
+    const spend = b.monthly.reduce((s, v) => s + v, 0);
+    const activeMonths = b.monthly.filter(v => v !== 0).length;
+    const increases = b.changes.filter(c => c > 0).length;
+    const decreases = b.changes.filter(c => c < 0).length;
+    const avgChangePct = b.changes.length > 0 ? b.changes.reduce((s, c) => s + c, 0) / b.changes.length : 0;
+    const singleSourceParts = Array.from(b.bomParts).filter(pn => (suppliersByPart.get(pn)?.size || 0) === 1).length;
+
+    // 월별 변동계수 (기간 내 월 기준)
+    const inRange = b.monthly.slice(0, Math.max(monthsInRange, 1));
+    const mean = inRange.reduce((s, v) => s + v, 0) / inRange.length;
+    const cv = mean > 0 ? Math.sqrt(inRange.reduce((s, v) => s + (v - mean) ** 2, 0) / inRange.length) / mean : null;
+
+    const scores: Record<ScoreDimension, number | null> = {
+      // 평균 변동률 ±5% → 0/100, 인상 품목 비율만큼 추가 감점
+      price: b.priceItems > 0
+        ? clamp(50 - avgChangePct * 10 - (increases / b.priceItems) * 30)
+        : null,
+      continuity: monthsInRange > 0 && spend !== 0 ? clamp((activeMonths / monthsInRange) * 100) : null,
+      stability: cv === null ? null : clamp(100 - cv * 100),
+      risk: b.bomParts.size > 0 ? clamp(100 - (singleSourceParts / b.bomParts.size) * 100) : null,
+      share: null,
+    };
+
+    return {
+      supplier: b.name,
+      spend,
+      prevSpend: b.prevSpend,
+      yoy: b.prevSpend > 0 ? ((spend - b.prevSpend) / b.prevSpend) * 100 : null,
+      share: totalSpend > 0 ? (spend / totalSpend) * 100 : 0,
+      monthlySpend: b.monthly,
+      activeMonths,
+      priceItems: b.priceItems,
+      priceChanges: b.changes.length,
+      priceIncreases: increases,
+      priceDecreases: decreases,
+      avgChangePct,
+      bomParts: b.bomParts.size,
+      singleSourceParts,
+      scores,
+      total: 0,
+      rank: 0,
+    };
+  });
+
+  const maxShare = Math.max(0, ...rows.map(r => r.share));
+  for (const r of rows) {
+    r.scores.share = maxShare > 0 && r.spend > 0 ? clamp((r.share / maxShare) * 100) : null;
+    r.total = weightedTotal(r.scores, weights);
+  }
+
+  // 선택 연도 매입이 없는 협력사(BOM/단가에만 존재)는 순위 뒤로
+  rows.sort((a, b) => Number(b.spend > 0) - Number(a.spend > 0) || b.total - a.total || b.spend - a.spend);
+  rows.forEach((r, i) => { r.rank = i + 1; });
+  return rows;
+}
+
+/** 가중 합산 — null 점수는 제외하고 남은 가중치로 재정규화 */
+export function weightedTotal(scores: Record<ScoreDimension, number | null>, weights: ScoreWeights): number {
+  let sum = 0;
+  let weight = 0;
+  for (const { key } of SCORE_DIMENSIONS) {
+    const s = scores[key];
+    const w = weights[key] || 0;
+    if (s === null || w <= 0) continue;
+    sum += s * w;
+    weight += w;
+  }
+  return weight > 0 ? sum / weight : 0;
+}
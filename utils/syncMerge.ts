@@ -0,0 +1,428 @@
+/**
+ * syncMerge — localStorage 데이터셋 레코드 단위 변경 추적 · 3-way 병합
+ *
+ * 추적 대상 데이터셋에 쓰기가 발생하면(safeSetItem) 레코드별 해시를 비교해
+ * 수정 시각(updatedAt)과 미동기화 표시(dirty)를 남긴다.
+ * 동기화 시 마지막 동기화 시점 스냅샷(base) · 로컬 · 클라우드를 비교해
+ * 한쪽만 바뀐 레코드는 자동 반영하고, 양쪽이 다르게 바뀐 레코드만 충돌로 돌려준다.
+ */
+import { storage } from './storage';
+import { rfqKey } from './rfqDataParser';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SyncField {
+  key: string;
+  label: string;
+}
+
+export interface SyncDatasetSpec {
+  lsKey: string;
+  label: string;
+  keyOf: (record: any) => string;
+  labelOf: (record: any) => string;
+  fields: SyncField[];              // 충돌 화면 비교 필드
+  ignoreFields?: string[];          // 해시 제외 (클라우드 재저장 시 바뀌는 id 등)
+}
+
+export interface SyncRecordMeta {
+  baseHash?: string;                // 마지막 동기화 시점 해시 (없으면 동기화 이력 없음)
+  localHash?: string;               // 현재 로컬 해시 (없으면 로컬에서 삭제)
+  updatedAt: string;
+  dirty: boolean;
+}
+
+export interface SyncDatasetMeta {
+  lastSyncAt: string | null;
+  records: Record<string, SyncRecordMeta>;
+}
+
+export interface SyncFieldDiff {
+  field: string;
+  label: string;
+  local: unknown;
+  remote: unknown;
+}
+
+export interface SyncConflict {
+  id: string;                       // `${lsKey}::${recordKey}`
+  lsKey: string;
+  datasetLabel: string;
+  key: string;
+  label: string;
+  local?: any;                      // undefined = 로컬에서 삭제
+  remote?: any;                     // undefined = 클라우드에서 삭제
+  localUpdatedAt: string | null;
+  diffs: SyncFieldDiff[];
+}
+
+export type ConflictChoice = 'local' | 'remote';
+
+export interface DatasetMergeResult {
+  spec: SyncDatasetSpec;
+  merged: Map<string, any>;         // 충돌 레코드는 로컬 값으로 임시 배치
+  remote: Map<string, any>;         // 병합 시점 클라우드 레코드 (로컬 삭제분 원격 삭제용)
+  pushed: number;                   // 로컬 → 클라우드 반영 건수
+  pulled: number;                   // 클라우드 → 로컬 반영 건수
+  conflicts: SyncConflict[];
+}
+
+// ============================================
+// Dataset registry
+// ============================================
+
+export const SYNC_DATASETS: SyncDatasetSpec[] = [
+  {
+    lsKey: 'dashboard_rfqData',
+    label: 'RFQ',
+    keyOf: r => rfqKey(r),
+    labelOf: r => `${r.index ? `#${r.index} ` : ''}${r.customer} ${r.projectName}`.trim(),
+    fields: [
+      { key: 'status', label: '상태' },
+      { key: 'projectName', label: '프로젝트' },
+      { key: 'model', label: '차종' },
+      { key: 'qty', label: '수량' },
+      { key: 'unitPrice', label: '단가' },
+      { key: 'amount', label: '금액' },
+      { key: 'dateQuotation', label: '견적일' },
+      { key: 'datePO', label: '수주일' },
+      { key: 'remark', label: '비고' },
+    ],
+    ignoreFields: ['id'],
+  },
+  {
+    lsKey: 'dashboard_bomData',
+    label: 'BOM',
+    keyOf: r => `${r.parentPn}|${r.childPn}`,
+    labelOf: r => `${r.parentPn} → ${r.childPn}${r.childName ? ` (${r.childName})` : ''}`,
+    fields: [
+      { key: 'qty', label: '소요량' },
+      { key: 'level', label: '레벨' },
+      { key: 'childName', label: '자품명' },
+      { key: 'supplier', label: '협력업체' },
+      { key: 'partType', label: '부품유형' },
+    ],
+  },
+  {
+    lsKey: 'dashboard_crData',
+    label: 'CR 실적',
+    keyOf: r => `${r.year}|${r.month}`,
+    labelOf: r => `${r.year}년 ${r.month}`,
+    fields: [
+      { key: 'totalSales', label: '총매출' },
+      { key: 'lgSales', label: 'LG 매출' },
+      { key: 'lgCR', label: 'LG CR' },
+      { key: 'lgDefense', label: 'LG 방어' },
+      { key: 'mtxSales', label: 'MTX 매출' },
+      { key: 'mtxCR', label: 'MTX CR' },
+      { key: 'mtxDefense', label: 'MTX 방어' },
+    ],
+  },
+  {
+    lsKey: 'dashboard_supplierData',
+    label: '협력사',
+    keyOf: r => r.companyName,
+    labelOf: r => r.companyName,
+    fields: [
+      { key: 'businessNumber', label: '사업자번호' },
+      { key: 'ceo', label: '대표' },
+      { key: 'address', label: '주소' },
+      { key: 'purchaseAmount2025', label: '2025 매입' },
+      { key: 'purchaseAmount2024', label: '2024 매입' },
+      { key: 'purchaseAmount2023', label: '2023 매입' },
+    ],
+    ignoreFields: ['id'],
+  },
+  {
+    lsKey: 'dashboard_revenueData',
+    label: '고객사별 매출',
+    keyOf: r => `${r.year}|${r.month}|${r.customer}|${r.model}`,
+    labelOf: r => `${r.year}년 ${r.month} ${r.customer} ${r.model || ''}`.trim(),
+    fields: [
+      { key: 'qty', label: '수량' },
+      { key: 'amount', label: '금액' },
+    ],
+    ignoreFields: ['id'],
+  },
+  {
+    lsKey: 'dashboard_itemRevenueData',
+    label: '품목별 매출',
+    keyOf: r => `${r.period}|${r.partNo}|${r.customer}`,
+    labelOf: r => `${r.period} ${r.customer} ${r.partNo}`,
+    fields: [
+      { key: 'qty', label: '수량' },
+      { key: 'amount', label: '금액' },
+      { key: 'model', label: '품종' },
+      { key: 'partName', label: '품명' },
+    ],
+    ignoreFields: ['id'],
+  },
+];
+
+const SPEC_BY_KEY = new Map(SYNC_DATASETS.map(s => [s.lsKey, s]));
+
+export const getSyncDatasetSpec = (lsKey: string) => SPEC_BY_KEY.get(lsKey);
+
+// ============================================
+// Meta storage
+// ============================================
+
+const SYNC_META_KEY = 'dashboard_syncMeta';
+
+function readMeta(): Record<string, SyncDatasetMeta> {
+  try {
+    const stored = storage.getItem(SYNC_META_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+// 메타 키는 추적 대상이 아니므로 onChange 알림이 와도 trackLocalWrite에서 바로 반환 (유실 시 최초 동기화로 취급)
+function writeMeta(meta: Record<string, SyncDatasetMeta>): void {
+  try {
+    storage.setItem(SYNC_META_KEY, JSON.stringify(meta));
+  } catch {
+    console.warn('저장 공간 부족으로 동기화 메타 저장 건너뜀');
+  }
+}
+
+const datasetMeta = (meta: Record<string, SyncDatasetMeta>, lsKey: string): SyncDatasetMeta =>
+  meta[lsKey] || (meta[lsKey] = { lastSyncAt: null, records: {} });
+
+// ============================================
+// Hashing
+// ============================================
+
+function stableStringify(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(Math.round(value * 1e4) / 1e4) : 'null';
+  if (typeof value !== 'object') return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const obj = value as Record<string, unknown>;
+  return `{${Object.keys(obj).sort().map(k => `${JSON.stringify(k)}:${stableStringify(obj[k])}`).join(',')}}`;
+}
+
+/** FNV-1a 32bit */
+function hashString(s: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+}
+
+export function recordHash(spec: SyncDatasetSpec, record: any): string {
+  if (!spec.ignoreFields?.length) return hashString(stableStringify(record));
+  const copy = { ...record };
+  for (const f of spec.ignoreFields) delete copy[f];
+  return hashString(stableStringify(copy));
+}
+
+/** 레코드 키 맵 (키 중복 시 순번 접미사로 구분 — 원본 행 수 보존) */
+export function keyRecords(spec: SyncDatasetSpec, records: any[]): Map<string, any> {
+  const map = new Map<string, any>();
+  for (const r of records) {
+    const base = spec.keyOf(r) || '(빈 키)';
+    let key = base;
+    for (let n = 2; map.has(key); n++) key = `${base}~${n}`;
+    map.set(key, r);
+  }
+  return map;
+}
+
+// ============================================
+// Local change tracking
+// ============================================
+
+/** storage 쓰기 알림(safeStorage에서 구독) — 추적 대상 키면 레코드별 수정 시각 / dirty 갱신 */
+export function trackLocalWrite(lsKey: string, value: string): void {
+  const spec = SPEC_BY_KEY.get(lsKey);
+  if (!spec) return;
+  let records: any[];
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return;
+    records = parsed;
+  } catch {
+    return;
+  }
+
+  const meta = readMeta();
+  const ds = datasetMeta(meta, lsKey);
+  const now = new Date().toISOString();
+  const current = keyRecords(spec, records);
+  let changed = false;
+
+  for (const [key, record] of current) {
+    const hash = recordHash(spec, record);
+    const m = ds.records[key];
+    if (m && m.localHash === hash) continue;
+    ds.records[key] = { baseHash: m?.baseHash, localHash: hash, updatedAt: now, dirty: hash !== m?.baseHash };
+    changed = true;
+  }
+  for (const [key, m] of Object.entries(ds.records)) {
+    if (current.has(key) || m.localHash === undefined) continue;
+    if (m.baseHash === undefined) {
+      delete ds.records[key];
+    } else {
+      ds.records[key] = { baseHash: m.baseHash, localHash: undefined, updatedAt: now, dirty: true };
+    }
+    changed = true;
+  }
+  if (changed) writeMeta(meta);
+}
+
+/** 미동기화(dirty) 레코드 수 — lsKey 생략 시 전체 */
+export function getDirtyCount(lsKey?: string): number {
+  const meta = readMeta();
+  const keys = lsKey ? [lsKey] : Object.keys(meta);
+  return keys.reduce((sum, k) => sum + Object.values(meta[k]?.records || {}).filter(m => m.dirty).length, 0);
+}
+
+export function getLastSyncAt(lsKey: string): string | null {
+  return readMeta()[lsKey]?.lastSyncAt ?? null;
+}
+
+/** 동기화 완료 — 현재 레코드를 새 base로 기록하고 dirty 해제 */
+export function commitSyncBase(lsKey: string, records: any[]): void {
+  const spec = SPEC_BY_KEY.get(lsKey);
+  if (!spec) return;
+  const meta = readMeta();
+  const prev = meta[lsKey]?.records || {};
+  const now = new Date().toISOString();
+  const next: Record<string, SyncRecordMeta> = {};
+  for (const [key, record] of keyRecords(spec, records)) {
+    const hash = recordHash(spec, record);
+    next[key] = { baseHash: hash, localHash: hash, updatedAt: prev[key]?.updatedAt || now, dirty: false };
+  }
+  meta[lsKey] = { lastSyncAt: now, records: next };
+  writeMeta(meta);
+}
+
+// ============================================
+// Merge
+// ============================================
+
+const sameValue = (a: unknown, b: unknown) => stableStringify(a ?? null) === stableStringify(b ?? null);
+
+function fieldDiffs(spec: SyncDatasetSpec, local: any, remote: any): SyncFieldDiff[] {
+  return spec.fields
+    .filter(f => !sameValue(local?.[f.key], remote?.[f.key]))
+    .map(f => ({ field: f.key, label: f.label, local: local?.[f.key], remote: remote?.[f.key] }));
+}
+
+/**
+ * base(마지막 동기화) · 로컬 · 클라우드 3-way 병합.
+ *  - 로컬만 변경 → 로컬 유지(업로드), 클라우드만 변경 → 클라우드 반영(다운로드)
+ *  - 양쪽 변경 & 결과 동일 → 그대로, 결과 상이 → 충돌
+ * base가 없는 레코드(최초 동기화)는 양쪽 값이 다를 때만 충돌로 본다.
+ */
+export function threeWayMerge(spec: SyncDatasetSpec, localRecords: any[], remoteRecords: any[]): DatasetMergeResult {
+  const ds = readMeta()[spec.lsKey];
+  const baseOf = (key: string) => ds?.records[key]?.baseHash;
+  const local = keyRecords(spec, localRecords);
+  const remote = keyRecords(spec, remoteRecords);
+  const merged = new Map<string, any>();
+  const conflicts: SyncConflict[] = [];
+  let pushed = 0;
+  let pulled = 0;
+
+  for (const key of new Set([...local.keys(), ...remote.keys()])) {
+    const l = local.get(key);
+    const r = remote.get(key);
+    const lh = l !== undefined ? recordHash(spec, l) : undefined;
+    const rh = r !== undefined ? recordHash(spec, r) : undefined;
+    const bh = baseOf(key);
+
+    if (lh === rh) {
+      if (l !== undefined) merged.set(key, l);
+      continue;
+    }
+    const localChanged = lh !== bh;
+    const remoteChanged = rh !== bh;
+    if (localChanged && !remoteChanged) {
+      if (l !== undefined) merged.set(key, l);
+      pushed++;
+    } else if (remoteChanged && !localChanged) {
+      if (r !== undefined) merged.set(key, r);
+      pulled++;
+    } else {
+      if (l !== undefined) merged.set(key, l);
+      conflicts.push({
+        id: `${spec.lsKey}::${key}`,
+        lsKey: spec.lsKey,
+        datasetLabel: spec.label,
+        key,
+        label: spec.labelOf(l ?? r),
+        local: l,
+        remote: r,
+        localUpdatedAt: ds?.records[key]?.updatedAt ?? null,
+        diffs: fieldDiffs(spec, l, r),
+      });
+    }
+  }
+
+  return { spec, merged, remote, pushed, pulled, conflicts };
+}
+
+/** 충돌 선택 반영 → 최종 레코드 배열 */
+export function resolveMerge(result: DatasetMergeResult, choices: Record<string, ConflictChoice>): any[] {
+  const merged = new Map(result.merged);
+  for (const c of result.conflicts) {
+    const value = choices[c.id] === 'remote' ? c.remote : c.local;
+    if (value === undefined) merged.delete(c.key);
+    else merged.set(c.key, value);
+  }
+  return Array.from(merged.values());
+}
+
+/** 최종 레코드에 없는 클라우드 레코드 — 로컬 삭제(또는 충돌에서 삭제 선택) 분으로 원격에서도 지워야 한다 */
+export function removedRemoteRecords(result: DatasetMergeResult, finalRecords: any[]): any[] {
+  const finalKeys = keyRecords(result.spec, finalRecords);
+  return Array.from(result.remote).filter(([key]) => !finalKeys.has(key)).map(([, r]) => r);
+}
+
+/**
+ * 화면 진입 시 클라우드 로드용 비대화식 병합: 미동기화(dirty) 로컬 레코드는 유지하고
+ * 나머지는 클라우드 값으로 교체한다. 클라우드 값으로 바뀐 레코드는 base도 갱신한다.
+ */
+export function pullPreservingLocal<T>(lsKey: string, localRecords: T[], remoteRecords: T[]): T[] {
+  const spec = SPEC_BY_KEY.get(lsKey);
+  if (!spec) return remoteRecords;
+  const meta = readMeta();
+  const ds = datasetMeta(meta, lsKey);
+  // 한 번도 동기화하지 않은 데이터셋(초기 샘플 등)은 기존처럼 클라우드 전체 적용
+  if (!ds.lastSyncAt) {
+    commitSyncBase(lsKey, remoteRecords);
+    return remoteRecords;
+  }
+  const local = keyRecords(spec, localRecords);
+  const remote = keyRecords(spec, remoteRecords);
+  const result: T[] = [];
+
+  for (const key of new Set([...remote.keys(), ...local.keys()])) {
+    const m = ds.records[key];
+    const r = remote.get(key);
+    if (m?.dirty) {
+      const l = local.get(key);
+      if (l !== undefined) result.push(l);
+      continue;
+    }
+    if (r === undefined) {
+      // 동기화된 적 있는 레코드만 클라우드 삭제로 본다 (추적 이력 없으면 로컬 유지)
+      const l = local.get(key);
+      if (m?.baseHash === undefined && l !== undefined) result.push(l);
+      else delete ds.records[key];
+      continue;
+    }
+    const hash = recordHash(spec, r);
+    ds.records[key] = { baseHash: hash, localHash: m?.localHash, updatedAt: m?.updatedAt || new Date().toISOString(), dirty: false };
+    result.push(r);
+  }
+  writeMeta(meta);
+  return result;
+}
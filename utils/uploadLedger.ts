@@ -0,0 +1,110 @@
+/**
+ * uploadLedger — 업로드 감사 기록(원장) 타입과 보조 함수
+ *
+ * 중앙 업로더로 들어온 파일마다 파일명·해시·업로더·대상 데이터셋·연월 범위·건수와
+ * 업로드로 덮어쓴 기존 레코드 스냅샷을 남긴다. 스냅샷이 있는 기록은 관리자 화면에서
+ * 롤백(덮어쓰기 이전 상태로 복원)할 수 있다.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type UploadDataset =
+  | 'sales'
+  | 'revenue'
+  | 'itemRevenue'
+  | 'rfq'
+  | 'cr'
+  | 'purchaseParts'
+  | 'purchaseMaterial'
+  | 'bomMaster'
+  | 'materialMaster'
+  | 'standardMix'
+  | 'materialPrice'
+  | 'paintMixLog'
+  | 'inventoryResin'
+  | 'inventoryPaint'
+  | 'inventoryParts'
+  | 'manufacturingCost'
+  | 'supplier'
+  | 'mesProductInfo'
+  | 'mesMaterialCode'
+  | 'mesPurchasePrice'
+  | 'mesMaterialPrice'
+  | 'mesPaintMixRatio'
+  | 'mesOutsourcePrice';
+
+export const UPLOAD_DATASET_LABEL: Record<UploadDataset, string> = {
+  sales: '수량',
+  revenue: '매출',
+  itemRevenue: '품목별 매출',
+  rfq: 'RFQ',
+  cr: 'CR',
+  purchaseParts: '부품 입고',
+  purchaseMaterial: '원재료 입고',
+  bomMaster: 'BOM 마스터',
+  materialMaster: '자재 마스터',
+  standardMix: '표준 배합비',
+  materialPrice: '재질 단가',
+  paintMixLog: '도료 배합일지',
+  inventoryResin: '수지 재고',
+  inventoryPaint: '도료 재고',
+  inventoryParts: '부품 재고',
+  manufacturingCost: '제조원가',
+  supplier: '협력사',
+  mesProductInfo: 'MES 제품정보',
+  mesMaterialCode: 'MES 재질코드',
+  mesPurchasePrice: 'MES 구매단가',
+  mesMaterialPrice: 'MES 재질단가',
+  mesPaintMixRatio: 'MES 도료배합비',
+  mesOutsourcePrice: 'MES 외주사출단가',
+};
+
+export interface UploadScope {
+  year?: number;
+  month?: string;
+}
+
+export type UploadLedgerStatus = 'applied' | 'rolledBack';
+
+export interface UploadLedgerEntry {
+  id: string;
+  uploadedAt: string;
+  fileName: string;
+  fileHash: string;                 // SHA-256 (hex)
+  fileSize: number;
+  uploader: string;
+  dataset: UploadDataset;
+  scope: UploadScope;
+  rowCount: number;                 // 업로드로 저장된 건수
+  replacedCount: number;            // 덮어쓴 기존 건수
+  snapshot: unknown[] | null;       // 덮어쓴 기존 레코드 (null = 롤백 미지원 데이터셋)
+  status: UploadLedgerStatus;
+  rolledBackAt?: string;
+  rolledBackBy?: string;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/** 파일 내용 SHA-256 해시 (crypto.subtle 미지원 환경에서는 빈 문자열) */
+export async function hashFile(file: Blob): Promise<string> {
+  try {
+    if (typeof crypto === 'undefined' || !crypto.subtle) return '';
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  } catch {
+    return '';
+  }
+}
+
+export function formatUploadScope(scope: UploadScope): string {
+  if (scope.year && scope.month) return `${scope.year}년 ${scope.month}`;
+  if (scope.year) return `${scope.year}년`;
+  return '전체';
+}
+
+export const isSameScope = (a: UploadScope, b: UploadScope) =>
+  (a.year || 0) === (b.year || 0) && (a.month || '') === (b.month || '');
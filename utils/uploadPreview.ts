@@ -0,0 +1,341 @@
+/**
+ * uploadPreview — 업로드 저장 전 검증(dry-run) 보조 함수
+ *
+ * 중앙 업로더는 파일을 기존 파서로 파싱한 뒤 바로 저장하지 않고, 여기서
+ * 원본 CSV 컬럼 구성(필수 컬럼 누락, 숫자 아닌 수량, 알 수 없는 월)을 검사하고
+ * 같은 범위의 기존 데이터와 비교(추가/변경/삭제 건수)한 결과를 먼저 보여준다.
+ * 컬럼 위치는 각 파서의 고정 인덱스와 동일하게 맞춘다.
+ */
+import type { UploadDataset, UploadScope } from './uploadLedger';
+
+// ============================================
+// Types
+// ============================================
+
+export type PreviewIssueLevel = 'error' | 'warning';
+
+export interface PreviewIssue {
+  level: PreviewIssueLevel;
+  message: string;
+  rows?: number[];                  // 파일 행 번호 (1부터, 최대 5개)
+}
+
+export interface PreviewDiff {
+  added: number;
+  changed: number;
+  removed: number;
+  unchanged: number;
+}
+
+export interface UploadPreview {
+  dataset: UploadDataset;
+  scope: UploadScope;
+  fileName: string;
+  columns: string[];                // 감지된 원본 컬럼 (CSV 헤더 또는 파싱 레코드 필드)
+  sample: Record<string, unknown>[];
+  recordCount: number;              // 파싱 후 저장될 건수
+  rawRowCount: number | null;       // 원본 데이터 행 수 (CSV만)
+  issues: PreviewIssue[];
+  diff: PreviewDiff | null;         // null = 비교 대상 없음 (기준정보 병합 업로드)
+}
+
+export type CsvColumnKind = 'text' | 'number' | 'month' | 'date';
+
+export interface CsvColumnSpec {
+  label: string;
+  index?: number;                   // 파서 고정 위치
+  keywords?: string[];              // 헤더 키워드로 위치 탐색 (index 대신)
+  kind: CsvColumnKind;
+  required?: boolean;
+}
+
+export interface CsvLayout {
+  dataStartRow: number;             // 헤더 행 수 (데이터 시작 행 index)
+  leadingBlankOffset?: boolean;     // 첫 열이 비어 있으면 한 칸씩 밀림 (품목별 매출)
+  columns: CsvColumnSpec[];
+}
+
+// ============================================
+// CSV Layouts (파서 컬럼 위치와 동일)
+// ============================================
+
+const salesMonthColumns: CsvColumnSpec[] = Array.from({ length: 12 }, (_, m) => [
+  { label: `${m + 1}월 계획`, index: 7 + m * 3, kind: 'number' as const },
+  { label: `${m + 1}월 실적`, index: 8 + m * 3, kind: 'number' as const },
+]).flat();
+
+export const CSV_LAYOUTS: Partial<Record<UploadDataset, CsvLayout>> = {
+  sales: {
+    dataStartRow: 2,
+    columns: [
+      { label: '고객사', index: 1, kind: 'text', required: true },
+      { label: '차종', index: 2, kind: 'text' },
+      { label: '품번', index: 3, kind: 'text', required: true },
+      { label: '품명', index: 5, kind: 'text' },
+      ...salesMonthColumns,
+    ],
+  },
+  revenue: {
+    dataStartRow: 1,
+    columns: [
+      { label: '월', index: 1, kind: 'month', required: true },
+      { label: '고객사', index: 2, kind: 'text', required: true },
+      { label: '차종', index: 3, kind: 'text' },
+      { label: '수량', index: 4, kind: 'number', required: true },
+      { label: '금액', index: 5, kind: 'number', required: true },
+    ],
+  },
+  itemRevenue: {
+    dataStartRow: 1,
+    leadingBlankOffset: true,
+    columns: [
+      { label: '매출기간', index: 0, kind: 'text', required: true },
+      { label: '고객사', index: 1, kind: 'text', required: true },
+      { label: '품종', index: 2, kind: 'text' },
+      { label: '품번', index: 3, kind: 'text', required: true },
+      { label: '고객사 P/N', index: 4, kind: 'text' },
+      { label: '품명', index: 5, kind: 'text' },
+      { label: '매출수량', index: 6, kind: 'number', required: true },
+      { label: '매출금액', index: 7, kind: 'number', required: true },
+    ],
+  },
+  rfq: {
+    dataStartRow: 1,
+    columns: [
+      { label: '고객사', index: 1, kind: 'text', required: true },
+      { label: '프로젝트', index: 3, kind: 'text' },
+      { label: '공정', index: 4, kind: 'text', required: true },
+      { label: '상태', index: 5, kind: 'text' },
+      { label: '차종', index: 9, kind: 'text' },
+      { label: '수량', index: 10, kind: 'number' },
+      { label: '단가', index: 11, kind: 'number' },
+      { label: '금액', index: 12, kind: 'number' },
+    ],
+  },
+  cr: {
+    dataStartRow: 1,
+    columns: [
+      { label: '월', index: 0, kind: 'month', required: true },
+      { label: '총매출', index: 1, kind: 'number', required: true },
+      { label: 'LG 매출', index: 2, kind: 'number' },
+      { label: 'LG CR', index: 3, kind: 'number' },
+      { label: 'LG 방어', index: 4, kind: 'number' },
+      { label: 'MTX 매출', index: 5, kind: 'number' },
+      { label: 'MTX CR', index: 6, kind: 'number' },
+      { label: 'MTX 방어', index: 7, kind: 'number' },
+    ],
+  },
+  purchaseParts: {
+    dataStartRow: 1,
+    columns: [
+      { label: '입고일자', index: 1, kind: 'date', required: true },
+      { label: '발주처', index: 2, kind: 'text', required: true },
+      { label: '부품코드', index: 5, kind: 'text', required: true },
+      { label: '부품명', index: 7, kind: 'text' },
+      { label: '입고수량', index: 14, kind: 'number', required: true },
+      { label: '단가', index: 19, kind: 'number' },
+      { label: '금액', index: 20, kind: 'number' },
+    ],
+  },
+  purchaseMaterial: {
+    dataStartRow: 1,
+    columns: [
+      { label: '입고일자', index: 1, kind: 'date', required: true },
+      { label: '발주처', index: 3, kind: 'text', required: true },
+      { label: '재질코드', index: 4, kind: 'text', required: true },
+      { label: '재질명', index: 5, kind: 'text' },
+      { label: '입고수량', index: 8, kind: 'number', required: true },
+      { label: '단가', index: 13, kind: 'number' },
+      { label: '금액', index: 14, kind: 'number' },
+    ],
+  },
+  supplier: {
+    dataStartRow: 1,
+    columns: [
+      { label: '거래처명', keywords: ['거래처명', '회사명', 'company', '거래처'], kind: 'text', required: true },
+      { label: '사업자등록번호', keywords: ['사업자등록번호', '사업자번호', 'business', '등록번호'], kind: 'text' },
+    ],
+  },
+};
+
+// ============================================
+// CSV helpers
+// ============================================
+
+/** 따옴표 안 쉼표·줄바꿈을 고려한 CSV 행 분리 (빈 행 제외) */
+export function splitCsvRows(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '"') {
+      if (inQuotes && content[i + 1] === '"') { cell += '"'; i++; }
+      else inQuotes = !inQuotes;
+    } else if (char === ',' && !inQuotes) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' && !inQuotes) {
+      row.push(cell.trim());
+      if (row.some(c => c !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  if (row.some(c => c !== '')) rows.push(row);
+  return rows;
+}
+
+/** 숫자 셀 판정 — 천 단위 쉼표·통화기호·공백 허용, '-'는 0으로 간주 */
+export function isNumericCell(value: string): boolean {
+  const cleaned = value.replace(/[",\s₩원]/g, '');
+  if (cleaned === '' || cleaned === '-') return true;
+  return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(cleaned);
+}
+
+/** '3월', '03월', '3' → 3 (1~12 외에는 null) */
+export function parseMonthCell(value: string): number | null {
+  const num = parseInt(value.replace(/월/g, '').trim(), 10);
+  return Number.isNaN(num) || num < 1 || num > 12 ? null : num;
+}
+
+/** 'YYYY-MM-DD', 'YYYY.MM.DD', 'YYYY/MM/DD' → { year, month } */
+export function parseDateCell(value: string): { year: number; month: number } | null {
+  const m = value.trim().match(/^(\d{4})[-./](\d{1,2})/);
+  if (!m) return null;
+  const month = Number(m[2]);
+  return month >= 1 && month <= 12 ? { year: Number(m[1]), month } : null;
+}
+
+const findByKeywords = (headers: string[], keywords: string[]): number => {
+  const normalized = headers.map(h => h.replace(/\s/g, '').toLowerCase());
+  for (const kw of keywords) {
+    const k = kw.replace(/\s/g, '').toLowerCase();
+    const idx = normalized.findIndex(h => h.includes(k));
+    if (idx !== -1) return idx;
+  }
+  return -1;
+};
+
+const MAX_ROW_REFS = 5;
+
+/** 원본 CSV 컬럼 검사: 필수 컬럼 누락 / 컬럼 수 부족 행 / 숫자 아닌 값 / 알 수 없는 월 / 범위 밖 일자 */
+export function validateCsvLayout(
+  rows: string[][],
+  layout: CsvLayout,
+  scope: UploadScope = {},
+): { columns: string[]; issues: PreviewIssue[]; rawRowCount: number } {
+  const headerRows = rows.slice(0, layout.dataStartRow);
+  const dataRows = rows.slice(layout.dataStartRow);
+  const header = headerRows[0] || [];
+  const headerWidth = Math.max(0, ...headerRows.map(r => r.length));
+  const issues: PreviewIssue[] = [];
+
+  const offset = layout.leadingBlankOffset && (header[0] === '' || dataRows[0]?.[0] === '') ? 1 : 0;
+
+  // 컬럼 위치 확정
+  const resolved = layout.columns.map(col => ({
+    ...col,
+    at: col.keywords ? findByKeywords(header, col.keywords) : (col.index ?? -1) + offset,
+  }));
+
+  const missing = resolved.filter(c => c.required && (c.at < 0 || c.at >= headerWidth));
+  if (missing.length > 0) {
+    issues.push({
+      level: 'error',
+      message: `필수 컬럼 누락: ${missing.map(c => (c.index !== undefined ? `${c.label}(${c.index + offset + 1}번째 열)` : c.label)).join(', ')}`,
+    });
+  }
+
+  const present = resolved.filter(c => c.at >= 0 && c.at < headerWidth);
+  const requiredWidth = Math.max(0, ...present.filter(c => c.required).map(c => c.at + 1));
+  const shortRows: number[] = [];
+  const nonNumeric = new Map<string, number[]>();
+  const unknownMonth: number[] = [];
+  const outOfScope: number[] = [];
+
+  dataRows.forEach((cells, i) => {
+    const fileRow = layout.dataStartRow + i + 1;
+    if (cells.length < requiredWidth) { shortRows.push(fileRow); return; }
+    for (const col of present) {
+      const value = cells[col.at] ?? '';
+      if (!value) continue;
+      if (col.kind === 'number' && !isNumericCell(value)) {
+        nonNumeric.set(col.label, [...(nonNumeric.get(col.label) || []), fileRow]);
+      } else if (col.kind === 'month' && parseMonthCell(value) === null) {
+        unknownMonth.push(fileRow);
+      } else if (col.kind === 'date') {
+        const d = parseDateCell(value);
+        if (!d) unknownMonth.push(fileRow);
+        else if (scope.year && scope.month && (d.year !== scope.year || d.month !== parseMonthCell(scope.month))) {
+          outOfScope.push(fileRow);
+        }
+      }
+    }
+  });
+
+  if (shortRows.length > 0) {
+    issues.push({ level: 'warning', message: `필수 컬럼 값이 없는 짧은 행 ${shortRows.length}건`, rows: shortRows.slice(0, MAX_ROW_REFS) });
+  }
+  nonNumeric.forEach((rowNos, label) => {
+    issues.push({ level: 'warning', message: `${label}: 숫자가 아닌 값 ${rowNos.length}건 (0으로 저장됨)`, rows: rowNos.slice(0, MAX_ROW_REFS) });
+  });
+  if (unknownMonth.length > 0) {
+    issues.push({ level: 'warning', message: `알 수 없는 월/일자 ${unknownMonth.length}건`, rows: unknownMonth.slice(0, MAX_ROW_REFS) });
+  }
+  if (outOfScope.length > 0) {
+    issues.push({
+      level: 'warning',
+      message: `선택한 ${scope.year}년 ${scope.month}과 다른 입고일자 ${outOfScope.length}건 (선택 월로 저장됨)`,
+      rows: outOfScope.slice(0, MAX_ROW_REFS),
+    });
+  }
+
+  return { columns: header.filter(h => h !== ''), issues, rawRowCount: dataRows.length };
+}
+
+// ============================================
+// Diff
+// ============================================
+
+/** 키 기준 비교 — 같은 키가 여러 건이면 순번을 붙여 1:1 대응 */
+export function diffRecords<T>(
+  incoming: T[],
+  existing: T[],
+  keyOf: (r: T) => string,
+  fields: (keyof T)[],
+): PreviewDiff {
+  const index = (rows: T[]) => {
+    const seen = new Map<string, number>();
+    const map = new Map<string, T>();
+    for (const r of rows) {
+      const base = keyOf(r);
+      const n = seen.get(base) || 0;
+      seen.set(base, n + 1);
+      map.set(n === 0 ? base : `${base}#${n}`, r);
+    }
+    return map;
+  };
+  const next = index(incoming);
+  const prev = index(existing);
+  const same = (a: unknown, b: unknown) =>
+    typeof a === 'number' || typeof b === 'number'
+      ? Math.abs((Number(a) || 0) - (Number(b) || 0)) < 1e-6
+      : String(a ?? '') === String(b ?? '');
+
+  const diff: PreviewDiff = { added: 0, changed: 0, removed: 0, unchanged: 0 };
+  next.forEach((row, key) => {
+    const old = prev.get(key);
+    if (!old) diff.added++;
+    else if (fields.every(f => same(row[f], old[f]))) diff.unchanged++;
+    else diff.changed++;
+  });
+  prev.forEach((_, key) => { if (!next.has(key)) diff.removed++; });
+  return diff;
+}
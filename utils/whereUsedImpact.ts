@@ -0,0 +1,156 @@
+/**
+ * whereUsedImpact — 역전개 기반 영향분석 (단종/단가변경 검토용)
+ *
+ * 부품 1개가 들어가는 최상위 제품별로 개당 누적소요량, 계획수량(ForecastItem.monthlyQty),
+ * 매출 노출액, 제품 재료비 중 해당 부품 기여분을 산출한다.
+ */
+import { normalizePn } from './bomDataParser';
+import type { BomMasterRecord, ProductCodeRecord, ReferenceInfoRecord, MaterialCodeRecord } from './bomMasterParser';
+import type { PurchasePrice, OutsourcePrice, PaintMixRatio, ItemStandardCost } from './standardMaterialParser';
+import type { ForecastItem } from './salesForecastParser';
+import type { ReversePath } from './bomExplosionEngine';
+import {
+  buildPriceData,
+  buildPaintMixMap,
+  buildRefInfoMap,
+  buildForwardMap,
+  buildForecastKeyResolver,
+  calcRootMaterialCost,
+  getNodePrice,
+} from './bomCostEngine';
+
+// ============================================================
+// Types
+// ============================================================
+
+export interface WhereUsedProductImpact {
+  productPn: string;
+  productName: string;
+  pathCount: number;          // 제품 → 부품 경로 수
+  qtyPerUnit: number;         // 제품 1개당 누적소요량 (경로 합산)
+  forecastQty: number;        // 계획수량 합계
+  revenue: number;            // 매출 노출액 (계획 매출)
+  forecastMatched: boolean;
+  productMaterialCost: number; // 제품 개당 재료비
+  componentCost: number;      // 제품 개당 부품 기여 재료비
+  costShare: number;          // componentCost / productMaterialCost (0~1)
+  componentSpend: number;     // componentCost × 계획수량
+}
+
+export interface WhereUsedImpact {
+  componentPn: string;
+  componentUnitCost: number;  // 부품 개당 재료비
+  componentPriceSource: string;
+  products: WhereUsedProductImpact[];
+  totalForecastQty: number;
+  totalComponentQty: number;  // 계획수량 기준 부품 총소요량
+  totalRevenue: number;
+  totalComponentSpend: number;
+}
+
+export interface WhereUsedImpactInputs {
+  bomRecords: BomMasterRecord[];
+  refInfo: ReferenceInfoRecord[];
+  productCodes: ProductCodeRecord[];
+  materialCodes: MaterialCodeRecord[];
+  purchasePrices: PurchasePrice[];
+  outsourcePrices: OutsourcePrice[];
+  itemStandardCosts: ItemStandardCost[];
+  paintMixRatios: PaintMixRatio[];
+  forecast: ForecastItem[];
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/** 최상위 BOM 품번 → Forecast 품목 (P.N / NEW P.N, 고객P/N 매핑 포함) */
+function mapForecastToRoots(
+  rootKeys: Set<string>,
+  forecast: ForecastItem[],
+  productCodes: ProductCodeRecord[],
+  refInfo: ReferenceInfoRecord[],
+): Map<string, ForecastItem[]> {
+  const resolveKeys = buildForecastKeyResolver(productCodes, refInfo);
+  const result = new Map<string, ForecastItem[]>();
+  for (const item of forecast) {
+    for (const key of resolveKeys(item)) {
+      if (rootKeys.has(key)) result.set(key, [...(result.get(key) || []), item]);
+    }
+  }
+  return result;
+}
+
+// ============================================================
+// Main
+// ============================================================
+
+export function analyzeWhereUsedImpact(
+  componentPn: string,
+  paths: ReversePath[],
+  inputs: WhereUsedImpactInputs,
+): WhereUsedImpact {
+  const { bomRecords, refInfo, productCodes, materialCodes, purchasePrices, outsourcePrices, itemStandardCosts, paintMixRatios, forecast } = inputs;
+
+  const priceData = buildPriceData(materialCodes, purchasePrices, outsourcePrices, itemStandardCosts);
+  const paintMixMap = buildPaintMixMap(paintMixRatios, priceData);
+  const refInfoMap = buildRefInfoMap(refInfo);
+  const forwardMap = buildForwardMap(bomRecords);
+
+  // 부품 개당 재료비: calcRootMaterialCost walk와 동일 규칙 (non-leaf '표준' 단가 제외)
+  const compKey = normalizePn(componentPn);
+  const own = getNodePrice(componentPn, priceData, refInfoMap, paintMixMap);
+  const isLeaf = (forwardMap.get(compKey) || []).length === 0;
+  const useOwn = own.price > 0 && (isLeaf || own.source !== '표준');
+  const componentUnitCost = useOwn ? own.price : calcRootMaterialCost(componentPn, forwardMap, priceData, refInfoMap, paintMixMap);
+  const componentPriceSource = useOwn ? own.source : componentUnitCost > 0 ? '하위합산' : '';
+
+  // 최상위 제품별 누적소요량 (경로별 소요량 곱 → 합산)
+  const byRoot = new Map<string, { pn: string; name: string; qtyPerUnit: number; pathCount: number }>();
+  for (const { path } of paths) {
+    if (path.length < 2) continue;
+    const root = path[0];
+    const key = normalizePn(root.pn);
+    const qty = path.reduce((prod, node) => prod * node.qty, 1);
+    const entry = byRoot.get(key) || { pn: root.pn, name: root.name, qtyPerUnit: 0, pathCount: 0 };
+    entry.qtyPerUnit += qty;
+    entry.pathCount++;
+    byRoot.set(key, entry);
+  }
+
+  const forecastMap = mapForecastToRoots(new Set(byRoot.keys()), forecast, productCodes, refInfo);
+
+  const products: WhereUsedProductImpact[] = [];
+  for (const [key, root] of byRoot) {
+    const items = forecastMap.get(key) || [];
+    const forecastQty = items.reduce((s, it) => s + (it.monthlyQty || []).reduce((a, q) => a + (q || 0), 0), 0);
+    const revenue = items.reduce((s, it) => s + (it.totalRevenue || it.unitPrice * it.totalQty || 0), 0);
+    const productMaterialCost = calcRootMaterialCost(root.pn, forwardMap, priceData, refInfoMap, paintMixMap);
+    const componentCost = componentUnitCost * root.qtyPerUnit;
+    products.push({
+      productPn: root.pn,
+      productName: root.name || items[0]?.partName || '',
+      pathCount: root.pathCount,
+      qtyPerUnit: root.qtyPerUnit,
+      forecastQty,
+      revenue,
+      forecastMatched: items.length > 0,
+      productMaterialCost,
+      componentCost,
+      costShare: productMaterialCost > 0 ? Math.min(componentCost / productMaterialCost, 1) : 0,
+      componentSpend: componentCost * forecastQty,
+    });
+  }
+  products.sort((a, b) => b.revenue - a.revenue || b.componentSpend - a.componentSpend || a.productPn.localeCompare(b.productPn));
+
+  return {
+    componentPn,
+    componentUnitCost,
+    componentPriceSource,
+    products,
+    totalForecastQty: products.reduce((s, p) => s + p.forecastQty, 0),
+    totalComponentQty: products.reduce((s, p) => s + p.forecastQty * p.qtyPerUnit, 0),
+    totalRevenue: products.reduce((s, p) => s + p.revenue, 0),
+    totalComponentSpend: products.reduce((s, p) => s + p.componentSpend, 0),
+  };
+}